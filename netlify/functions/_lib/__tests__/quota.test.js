@@ -0,0 +1,120 @@
+const crypto = require('crypto');
+const { verifyIdToken, AuthError } = require('../firebase-auth.cjs');
+const { createMemoryQuotaStore } = require('../quota-store.cjs');
+const { authFailure, createQuotaGuard, identify, tokensFromUsage } = require('../quota.cjs');
+
+const PROJECT = 'alf-coach-test';
+const NOW = Date.UTC(2026, 9, 18, 23, 59, 30);
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const keys = { 'kid-1': { ...publicKey.export({ format: 'jwk' }), kid: 'kid-1', alg: 'RS256' } };
+
+function b64url(value) {
+  return Buffer.from(typeof value === 'string' ? value : JSON.stringify(value)).toString('base64url');
+}
+
+function signToken(overrides = {}, header = { alg: 'RS256', kid: 'kid-1' }) {
+  const nowSec = Math.floor(NOW / 1000);
+  const claims = {
+    aud: PROJECT,
+    iss: `https://securetoken.google.com/${PROJECT}`,
+    sub: 'teacher-1',
+    iat: nowSec - 10,
+    exp: nowSec + 3600,
+    auth_time: nowSec - 10,
+    ...overrides
+  };
+  const unsigned = `${b64url(header)}.${b64url(claims)}`;
+  return `${unsigned}.${crypto.sign('RSA-SHA256', Buffer.from(unsigned), privateKey).toString('base64url')}`;
+}
+
+const verify = (token) => verifyIdToken(token, { projectId: PROJECT, keys, now: NOW });
+
+describe('verifyIdToken', () => {
+  it('accepts a token signed by a known key', async () => {
+    await expect(verify(signToken())).resolves.toEqual({ uid: 'teacher-1', email: null });
+  });
+
+  it.each([
+    ['expired', signToken({ exp: Math.floor(NOW / 1000) - 120 }), 'EXPIRED'],
+    ['another project', signToken({ aud: 'someone-else' }), 'BAD_AUDIENCE'],
+    ['an unknown key', signToken({}, { alg: 'RS256', kid: 'rotated' }), 'UNKNOWN_KEY'],
+    ['a tampered payload', `${signToken().split('.')[0]}.${b64url({ sub: 'admin' })}.${signToken().split('.')[2]}`, 'BAD_SIGNATURE']
+  ])('rejects %s', async (_label, token, code) => {
+    await expect(verify(token)).rejects.toMatchObject({ name: 'AuthError', code });
+  });
+});
+
+describe('identify', () => {
+  it('keys signed-in callers by uid', async () => {
+    const headers = { authorization: `Bearer ${signToken()}` };
+    await expect(identify(headers, '10.0.0.1', { verify })).resolves.toEqual({ id: 'user:teacher-1', kind: 'user', uid: 'teacher-1' });
+  });
+
+  it('keys tokenless callers by IP only when anonymous use is allowed', async () => {
+    await expect(identify({}, '10.0.0.1', { verify, allowAnonymous: true })).resolves.toEqual({ id: 'ip:10.0.0.1', kind: 'anonymous' });
+  });
+
+  it('requires a token by default', async () => {
+    const error = await identify({}, '10.0.0.1', { verify }).catch(e => e);
+    expect(error).toBeInstanceOf(AuthError);
+    expect(authFailure(error)).toEqual({ status: 401, body: { error: 'Sign in to use AI features', code: 'MISSING_TOKEN' } });
+  });
+});
+
+describe('createQuotaGuard', () => {
+  const limits = {
+    user: { perMinute: 2, dailyRequests: 100, dailyTokens: 1000 },
+    anonymous: { perMinute: 1, dailyRequests: 10, dailyTokens: 100 }
+  };
+  const alice = { id: 'user:alice', kind: 'user' };
+  const bob = { id: 'user:bob', kind: 'user' };
+  let clock;
+  let guard;
+
+  beforeEach(() => {
+    clock = NOW;
+    guard = createQuotaGuard({ store: createMemoryQuotaStore({ now: () => clock }), limits, now: () => clock });
+  });
+
+  it('limits each user separately per minute with a retry-after', async () => {
+    expect((await guard.check(alice)).allowed).toBe(true);
+    expect((await guard.check(alice)).allowed).toBe(true);
+    const blocked = await guard.check(alice);
+
+    expect(blocked).toMatchObject({ allowed: false, status: 429, headers: { 'Retry-After': '30' } });
+    expect(blocked.body).toMatchObject({ code: 'RATE_LIMITED', retryAfter: 30, limit: 2, remaining: 0 });
+    expect((await guard.check(bob)).allowed).toBe(true);
+
+    clock += 30_000;
+    expect((await guard.check(alice)).allowed).toBe(true);
+  });
+
+  it('enforces the daily token budget until midnight UTC', async () => {
+    expect((await guard.record(alice, 600))['X-Quota-Tokens-Remaining']).toBe('400');
+    await guard.record(alice, 500);
+
+    clock += 5_000;
+    const blocked = await guard.check(alice);
+    expect(blocked.body).toMatchObject({ code: 'DAILY_QUOTA_EXCEEDED', retryAfter: 25, remaining: 0, resetAt: '2026-10-19T00:00:00.000Z' });
+
+    clock += 60_000;
+    const tomorrow = await guard.check(alice);
+    expect(tomorrow.allowed).toBe(true);
+    expect(tomorrow.headers['X-Quota-Tokens-Remaining']).toBe('1000');
+  });
+
+  it('fails open when the store is unavailable', async () => {
+    const broken = { name: 'broken', get: () => Promise.reject(new Error('down')), increment: () => Promise.reject(new Error('down')) };
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await createQuotaGuard({ store: broken, limits, now: () => clock }).check(alice);
+    expect(result.allowed).toBe(true);
+    warn.mockRestore();
+  });
+});
+
+describe('tokensFromUsage', () => {
+  it('prefers Gemini usage metadata and estimates otherwise', () => {
+    expect(tokensFromUsage({ usageMetadata: { totalTokenCount: 42 } }, 'ignored')).toBe(42);
+    expect(tokensFromUsage(null, 'x'.repeat(10))).toBe(3);
+  });
+});
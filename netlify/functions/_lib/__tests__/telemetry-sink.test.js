@@ -0,0 +1,53 @@
+const { MAX_BATCH, createMemorySink, parseBatch } = require('../telemetry-sink.cjs');
+
+const valid = { event: 'save_project', success: true, latencyMs: 120.4, projectId: 'bp_1', timestamp: 1760000000000, seq: 3 };
+
+describe('parseBatch', () => {
+  it('keeps known events and drops the rest', () => {
+    const body = JSON.stringify({ events: [valid, { ...valid, event: 'made_up' }, { ...valid, timestamp: 'soon' }] });
+    const { events, rejected } = parseBatch(body);
+
+    expect(rejected).toBe(2);
+    expect(events).toEqual([{ event: 'save_project', success: true, latencyMs: 120, projectId: 'bp_1', timestamp: 1760000000000, seq: 3 }]);
+  });
+
+  it('trims free text and drops oversized metadata', () => {
+    const [event] = parseBatch(JSON.stringify({
+      events: [{ ...valid, errorMessage: 'x'.repeat(1000), metadata: { blob: 'y'.repeat(5000) } }]
+    })).events;
+
+    expect(event.errorMessage).toHaveLength(300);
+    expect(event.metadata).toBeUndefined();
+  });
+
+  it.each([
+    ['invalid JSON', '{', 400],
+    ['a body without events', '{"foo":1}', 400],
+    ['too many events', JSON.stringify({ events: Array(MAX_BATCH + 1).fill(valid) }), 413]
+  ])('rejects %s', (_label, body, status) => {
+    expect(() => parseBatch(body)).toThrow(expect.objectContaining({ name: 'TelemetryError', status }));
+  });
+});
+
+describe('telemetry function', () => {
+  afterEach(() => {
+    delete global.__TELEMETRY_SINK__;
+  });
+
+  it('writes accepted events to the configured sink', async () => {
+    const sink = createMemorySink();
+    global.__TELEMETRY_SINK__ = sink;
+    const { handler } = require('../../telemetry.js');
+
+    const res = await handler({ httpMethod: 'POST', body: JSON.stringify({ events: [valid, { nope: true }] }) });
+
+    expect(res.statusCode).toBe(202);
+    expect(JSON.parse(res.body)).toEqual({ accepted: 1, rejected: 1 });
+    expect(sink.events).toEqual([expect.objectContaining({ event: 'save_project', receivedAt: expect.any(String) })]);
+  });
+
+  it('only accepts POST', async () => {
+    const { handler } = require('../../telemetry.js');
+    expect((await handler({ httpMethod: 'GET' })).statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,95 @@
+// Firebase ID token verification for the Netlify functions, without firebase-admin.
+// Checks the RS256 signature against Google's securetoken JWKS plus the claims
+// Firebase documents (aud, iss, exp, iat, auth_time, sub).
+// https://firebase.google.com/docs/auth/admin/verify-id-tokens#verify_id_tokens_using_a_third-party_jwt_library
+
+const crypto = require('crypto');
+
+const JWKS_URL = 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+const CLOCK_SKEW_SEC = 60;
+
+class AuthError extends Error {
+  constructor(message, code) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+  }
+}
+
+const keyCache = global.__FIREBASE_JWKS__ || (global.__FIREBASE_JWKS__ = { keys: null, expiresAt: 0 });
+
+function base64UrlDecode(segment) {
+  return Buffer.from(segment.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+function maxAgeMs(cacheControl) {
+  const match = /max-age=(\d+)/.exec(cacheControl || '');
+  return match ? Number(match[1]) * 1000 : 60 * 60 * 1000;
+}
+
+// Fetch (and cache per function instance) Google's public signing keys, keyed by kid
+async function fetchSigningKeys(now = Date.now()) {
+  if (keyCache.keys && keyCache.expiresAt > now) { return keyCache.keys; }
+  const res = await fetch(JWKS_URL);
+  if (!res.ok) { throw new AuthError(`Could not load signing keys (HTTP ${res.status})`, 'KEYS_UNAVAILABLE'); }
+  const { keys } = await res.json();
+  keyCache.keys = Object.fromEntries((keys || []).map((jwk) => [jwk.kid, jwk]));
+  keyCache.expiresAt = now + maxAgeMs(res.headers.get('cache-control'));
+  return keyCache.keys;
+}
+
+function getBearerToken(headers) {
+  const get = (name) => (typeof headers.get === 'function' ? headers.get(name) : headers[name]) || '';
+  const value = get('authorization') || get('Authorization');
+  const match = /^Bearer\s+(.+)$/i.exec(value.trim());
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Verify a Firebase ID token and return { uid, email }.
+ * options.keys lets tests pass a { kid: jwk } map instead of fetching Google's keys.
+ */
+async function verifyIdToken(token, { projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID, keys, now = Date.now() } = {}) {
+  if (!projectId) { throw new AuthError('FIREBASE_PROJECT_ID is not configured', 'NOT_CONFIGURED'); }
+
+  const parts = String(token || '').split('.');
+  if (parts.length !== 3) { throw new AuthError('Malformed ID token', 'MALFORMED'); }
+
+  let header;
+  let claims;
+  try {
+    header = JSON.parse(base64UrlDecode(parts[0]).toString('utf8'));
+    claims = JSON.parse(base64UrlDecode(parts[1]).toString('utf8'));
+  } catch {
+    throw new AuthError('Malformed ID token', 'MALFORMED');
+  }
+
+  if (header.alg !== 'RS256' || !header.kid) { throw new AuthError('Unexpected token algorithm', 'BAD_ALGORITHM'); }
+
+  const jwk = (keys || await fetchSigningKeys(now))[header.kid];
+  if (!jwk) { throw new AuthError('Unknown signing key', 'UNKNOWN_KEY'); }
+
+  const signed = crypto.verify(
+    'RSA-SHA256',
+    Buffer.from(`${parts[0]}.${parts[1]}`),
+    crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+    base64UrlDecode(parts[2])
+  );
+  if (!signed) { throw new AuthError('Invalid token signature', 'BAD_SIGNATURE'); }
+
+  const nowSec = Math.floor(now / 1000);
+  if (claims.aud !== projectId) { throw new AuthError('Token audience mismatch', 'BAD_AUDIENCE'); }
+  if (claims.iss !== `https://securetoken.google.com/${projectId}`) { throw new AuthError('Token issuer mismatch', 'BAD_ISSUER'); }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SEC < nowSec) { throw new AuthError('Token expired', 'EXPIRED'); }
+  if (typeof claims.iat !== 'number' || claims.iat - CLOCK_SKEW_SEC > nowSec) { throw new AuthError('Token issued in the future', 'BAD_IAT'); }
+  if (typeof claims.auth_time === 'number' && claims.auth_time - CLOCK_SKEW_SEC > nowSec) { throw new AuthError('Token auth_time in the future', 'BAD_AUTH_TIME'); }
+  if (typeof claims.sub !== 'string' || !claims.sub || claims.sub.length > 128) { throw new AuthError('Token subject missing', 'BAD_SUBJECT'); }
+
+  return { uid: claims.sub, email: claims.email || null };
+}
+
+module.exports = {
+  AuthError,
+  getBearerToken,
+  verifyIdToken
+};
@@ -0,0 +1,91 @@
+// Shared helpers for the Gemini proxy functions (gemini.js, gemini-stream.mjs)
+// Lives in _lib/ so Netlify does not deploy it as a function of its own.
+// Rate limits and quotas live in quota.cjs.
+
+// Map friendly/alias model names to valid Google Gemini API model IDs
+// Using -latest aliases to always get newest versions (recommended by Google)
+const MODEL_ALIASES = {
+  // Latest aliases (auto-update to newest versions)
+  'gemini-2.5-flash-lite': 'gemini-flash-lite-latest',
+  'flash-2.5-lite': 'gemini-flash-lite-latest',
+  'flash2.5-lite': 'gemini-flash-lite-latest',
+  'flash-lite': 'gemini-flash-lite-latest',
+  'gemini-2.5-flash': 'gemini-flash-latest',
+  'gemini-2.0-flash': 'gemini-flash-latest',
+  'flash-2.5': 'gemini-flash-latest',
+  'flash2.5': 'gemini-flash-latest',
+  'flash': 'gemini-flash-latest',
+  // Direct latest aliases
+  'gemini-flash-latest': 'gemini-flash-latest',
+  'gemini-flash-lite-latest': 'gemini-flash-lite-latest'
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+function getClientIp(headers) {
+  const get = (name) => (typeof headers.get === 'function' ? headers.get(name) : headers[name]) || '';
+  const xf = get('x-forwarded-for') || get('X-Forwarded-For');
+  const ip = (xf.split(',')[0] || '').trim() || get('client-ip') || get('x-nf-client-connection-ip') || 'unknown';
+  return ip;
+}
+
+function resolveModel(model) {
+  const envDefault = process.env.GEMINI_MODEL && String(process.env.GEMINI_MODEL);
+  const requested = (typeof model === 'string' && model) ? model : (envDefault || 'gemini-flash-lite-latest');
+  return MODEL_ALIASES[requested] || requested;
+}
+
+// Gemini only accepts 'user' and 'model' roles
+function normalizeRole(role) {
+  return role === 'assistant' || role === 'model' ? 'model' : 'user';
+}
+
+function buildPayload({ prompt, history, systemPrompt, generationConfig }) {
+  const turns = Array.isArray(history)
+    ? history.map((turn) => ({ ...turn, role: normalizeRole(turn && turn.role) }))
+    : [];
+  const contents = turns.length > 0
+    ? (prompt ? [...turns, { role: 'user', parts: [{ text: prompt }]}] : turns)
+    : [{ role: 'user', parts: [{ text: prompt || 'Hello' }]}];
+
+  const cfg = Object.assign(
+    { temperature: 0.7, maxOutputTokens: 1024, topP: 0.8, topK: 40 },
+    typeof generationConfig === 'object' && generationConfig ? generationConfig : {}
+  );
+
+  // Prepend a lightweight system directive if provided
+  const finalContents = systemPrompt
+    ? [{ role: 'user', parts: [{ text: `SYSTEM INSTRUCTION:\n${systemPrompt}` }] }, ...contents]
+    : contents;
+
+  return JSON.stringify({
+    contents: finalContents,
+    generationConfig: cfg
+  });
+}
+
+function buildUrl(selectedModel, method, apiKey) {
+  const query = method === 'streamGenerateContent' ? `alt=sse&key=${apiKey}` : `key=${apiKey}`;
+  return new URL(`https://generativelanguage.googleapis.com/v1beta/models/${selectedModel}:${method}?${query}`);
+}
+
+// Concatenate the text parts of the first candidate in a Gemini response chunk
+function extractChunkText(data) {
+  const parts = data && data.candidates && data.candidates[0] && data.candidates[0].content && data.candidates[0].content.parts;
+  if (!Array.isArray(parts)) { return ''; }
+  return parts.map((p) => (p && p.text) || '').join('');
+}
+
+module.exports = {
+  MODEL_ALIASES,
+  CORS_HEADERS,
+  getClientIp,
+  resolveModel,
+  buildPayload,
+  buildUrl,
+  extractChunkText
+};
@@ -0,0 +1,163 @@
+// Pluggable counter stores for the Gemini proxy quotas.
+// A store keeps { requests, tokens } per key until the key's expiry:
+//   get(key)                           -> Promise<{ requests, tokens }>
+//   increment(key, delta, expiresAt)   -> Promise<{ requests, tokens }> (totals after the write)
+//
+// - memory:    per function instance; tests and local `netlify dev`
+// - firestore: shared across instances via the Firestore REST API and a service
+//              account (FIREBASE_SERVICE_ACCOUNT, JSON or base64 JSON). Counters use
+//              server-side increment transforms, so concurrent instances never lose
+//              writes. Add a TTL policy on `expireAt` to let old counters age out.
+
+const crypto = require('crypto');
+
+const FIRESTORE_SCOPE = 'https://www.googleapis.com/auth/datastore';
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+function createMemoryQuotaStore({ now = () => Date.now() } = {}) {
+  const counters = new Map();
+
+  const live = (key) => {
+    const entry = counters.get(key);
+    if (entry && entry.expiresAt <= now()) {
+      counters.delete(key);
+      return null;
+    }
+    return entry || null;
+  };
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const entry = live(key);
+      return { requests: entry ? entry.requests : 0, tokens: entry ? entry.tokens : 0 };
+    },
+    async increment(key, delta, expiresAt) {
+      const entry = live(key) || { requests: 0, tokens: 0, expiresAt };
+      entry.requests += delta.requests || 0;
+      entry.tokens += delta.tokens || 0;
+      entry.expiresAt = Math.max(entry.expiresAt, expiresAt);
+      counters.set(key, entry);
+      return { requests: entry.requests, tokens: entry.tokens };
+    },
+    clear() {
+      counters.clear();
+    }
+  };
+}
+
+function parseServiceAccount(raw) {
+  const text = String(raw || '').trim();
+  if (!text) { return null; }
+  const json = text.startsWith('{') ? text : Buffer.from(text, 'base64').toString('utf8');
+  const account = JSON.parse(json);
+  if (!account.client_email || !account.private_key || !account.project_id) {
+    throw new Error('FIREBASE_SERVICE_ACCOUNT is missing client_email, private_key or project_id');
+  }
+  return account;
+}
+
+function base64Url(input) {
+  return Buffer.from(input).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+function integerField(fields, name) {
+  const value = fields && fields[name] && fields[name].integerValue;
+  return value ? Number(value) : 0;
+}
+
+function createFirestoreQuotaStore({ serviceAccount, collection = 'aiQuotas', fetchImpl = fetch } = {}) {
+  const base = `https://firestore.googleapis.com/v1/projects/${serviceAccount.project_id}/databases/(default)/documents`;
+  let accessToken = null;
+  let accessTokenExpiresAt = 0;
+
+  // OAuth2 JWT-bearer grant for a short-lived access token, cached per instance
+  async function getAccessToken() {
+    const nowSec = Math.floor(Date.now() / 1000);
+    if (accessToken && accessTokenExpiresAt - 60 > nowSec) { return accessToken; }
+
+    const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const claims = base64Url(JSON.stringify({
+      iss: serviceAccount.client_email,
+      scope: FIRESTORE_SCOPE,
+      aud: TOKEN_URL,
+      iat: nowSec,
+      exp: nowSec + 3600
+    }));
+    const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${claims}`), serviceAccount.private_key);
+    const res = await fetchImpl(TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: `${header}.${claims}.${base64Url(signature)}`
+      }).toString()
+    });
+    if (!res.ok) { throw new Error(`Quota store auth failed (HTTP ${res.status})`); }
+    const data = await res.json();
+    accessToken = data.access_token;
+    accessTokenExpiresAt = nowSec + (data.expires_in || 3600);
+    return accessToken;
+  }
+
+  const docId = (key) => String(key).replace(/\//g, '_');
+
+  return {
+    name: 'firestore',
+    async get(key) {
+      const res = await fetchImpl(`${base}/${collection}/${encodeURIComponent(docId(key))}`, {
+        headers: { Authorization: `Bearer ${await getAccessToken()}` }
+      });
+      if (res.status === 404) { return { requests: 0, tokens: 0 }; }
+      if (!res.ok) { throw new Error(`Quota store read failed (HTTP ${res.status})`); }
+      const doc = await res.json();
+      const expireAt = doc.fields && doc.fields.expireAt && Date.parse(doc.fields.expireAt.timestampValue);
+      if (expireAt && expireAt <= Date.now()) { return { requests: 0, tokens: 0 }; }
+      return { requests: integerField(doc.fields, 'requests'), tokens: integerField(doc.fields, 'tokens') };
+    },
+    async increment(key, delta, expiresAt) {
+      const res = await fetchImpl(`${base}:commit`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${await getAccessToken()}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          writes: [{
+            update: {
+              name: `${base.replace('https://firestore.googleapis.com/v1/', '')}/${collection}/${docId(key)}`,
+              fields: { expireAt: { timestampValue: new Date(expiresAt).toISOString() } }
+            },
+            updateMask: { fieldPaths: ['expireAt'] },
+            updateTransforms: [
+              { fieldPath: 'requests', increment: { integerValue: String(delta.requests || 0) } },
+              { fieldPath: 'tokens', increment: { integerValue: String(delta.tokens || 0) } }
+            ]
+          }]
+        })
+      });
+      if (!res.ok) { throw new Error(`Quota store write failed (HTTP ${res.status})`); }
+      const data = await res.json();
+      const results = (data.writeResults && data.writeResults[0] && data.writeResults[0].transformResults) || [];
+      return {
+        requests: Number((results[0] && results[0].integerValue) || 0),
+        tokens: Number((results[1] && results[1].integerValue) || 0)
+      };
+    }
+  };
+}
+
+// One store per function instance; QUOTA_STORE=memory|firestore overrides the default
+function createQuotaStore(env = process.env) {
+  const serviceAccount = parseServiceAccount(env.FIREBASE_SERVICE_ACCOUNT);
+  const kind = env.QUOTA_STORE || (serviceAccount ? 'firestore' : 'memory');
+  if (kind === 'firestore') {
+    if (!serviceAccount) { throw new Error('QUOTA_STORE=firestore requires FIREBASE_SERVICE_ACCOUNT'); }
+    return createFirestoreQuotaStore({ serviceAccount, collection: env.QUOTA_COLLECTION || 'aiQuotas' });
+  }
+  return createMemoryQuotaStore();
+}
+
+module.exports = {
+  createMemoryQuotaStore,
+  createFirestoreQuotaStore,
+  createQuotaStore,
+  parseServiceAccount
+};
@@ -0,0 +1,184 @@
+// Per-user rate limits and daily token budgets for the Gemini proxies.
+//
+// Identity: a verified Firebase ID token (Authorization: Bearer <token>) keys the
+// quota by uid, so a school behind one NAT is not throttled as one client.
+// Requests without a token get a 401, so a signed-in client cannot drop the header
+// to start a fresh budget. GEMINI_ALLOW_ANONYMOUS=true opts into a smaller per-IP
+// allowance for tokenless calls instead. An invalid or expired token is always a 401.
+//
+// Limits (env overrides, defaults in DEFAULT_LIMITS):
+//   GEMINI_USER_PER_MINUTE / GEMINI_USER_DAILY_REQUESTS / GEMINI_USER_DAILY_TOKENS
+//   GEMINI_ANON_PER_MINUTE / GEMINI_ANON_DAILY_REQUESTS / GEMINI_ANON_DAILY_TOKENS
+//
+// Over-limit responses are 429 with Retry-After and a JSON body
+// { error, code: 'RATE_LIMITED' | 'DAILY_QUOTA_EXCEEDED', retryAfter, limit, remaining, resetAt }.
+// Successful responses carry X-Quota-* headers so the client can show the budget.
+// Daily windows reset at 00:00 UTC.
+
+const { AuthError, getBearerToken, verifyIdToken } = require('./firebase-auth.cjs');
+const { createQuotaStore } = require('./quota-store.cjs');
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_LIMITS = {
+  user: { perMinute: 30, dailyRequests: 500, dailyTokens: 250_000 },
+  anonymous: { perMinute: 10, dailyRequests: 50, dailyTokens: 25_000 }
+};
+
+const QUOTA_HEADER_NAMES = [
+  'Retry-After',
+  'X-Quota-Tokens-Limit',
+  'X-Quota-Tokens-Remaining',
+  'X-Quota-Requests-Remaining',
+  'X-Quota-Reset'
+];
+
+function readLimits(env = process.env) {
+  const num = (name, fallback) => {
+    const value = Number(env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  return {
+    user: {
+      perMinute: num('GEMINI_USER_PER_MINUTE', DEFAULT_LIMITS.user.perMinute),
+      dailyRequests: num('GEMINI_USER_DAILY_REQUESTS', DEFAULT_LIMITS.user.dailyRequests),
+      dailyTokens: num('GEMINI_USER_DAILY_TOKENS', DEFAULT_LIMITS.user.dailyTokens)
+    },
+    anonymous: {
+      perMinute: num('GEMINI_ANON_PER_MINUTE', DEFAULT_LIMITS.anonymous.perMinute),
+      dailyRequests: num('GEMINI_ANON_DAILY_REQUESTS', DEFAULT_LIMITS.anonymous.dailyRequests),
+      dailyTokens: num('GEMINI_ANON_DAILY_TOKENS', DEFAULT_LIMITS.anonymous.dailyTokens)
+    }
+  };
+}
+
+/**
+ * Resolve who is calling: { id, kind: 'user' | 'anonymous', uid? }.
+ * Throws AuthError for a bad token, or a missing one unless anonymous use is allowed.
+ */
+async function identify(headers, ip, { allowAnonymous = process.env.GEMINI_ALLOW_ANONYMOUS === 'true', verify = verifyIdToken } = {}) {
+  const token = getBearerToken(headers);
+  if (token) {
+    const { uid } = await verify(token);
+    return { id: `user:${uid}`, kind: 'user', uid };
+  }
+  if (!allowAnonymous) {
+    throw new AuthError('Sign in to use AI features', 'MISSING_TOKEN');
+  }
+  return { id: `ip:${ip}`, kind: 'anonymous' };
+}
+
+// Gemini reports usage on the final response/chunk; fall back to ~4 chars per token
+function tokensFromUsage(data, fallbackText = '') {
+  const total = data && data.usageMetadata && data.usageMetadata.totalTokenCount;
+  return typeof total === 'number' && total >= 0 ? total : Math.ceil(String(fallbackText).length / 4);
+}
+
+function createQuotaGuard({ store, limits = readLimits(), now = () => Date.now() } = {}) {
+  const windows = (identity) => {
+    const at = now();
+    const minuteStart = Math.floor(at / MINUTE_MS) * MINUTE_MS;
+    const dayStart = Math.floor(at / DAY_MS) * DAY_MS;
+    return {
+      at,
+      limit: limits[identity.kind],
+      minuteKey: `${identity.id}:m:${minuteStart}`,
+      minuteEnd: minuteStart + MINUTE_MS,
+      dayKey: `${identity.id}:d:${new Date(dayStart).toISOString().slice(0, 10)}`,
+      dayEnd: dayStart + DAY_MS
+    };
+  };
+
+  const headersFor = (limit, usage, resetAt) => ({
+    'Access-Control-Expose-Headers': QUOTA_HEADER_NAMES.join(', '),
+    'X-Quota-Tokens-Limit': String(limit.dailyTokens),
+    'X-Quota-Tokens-Remaining': String(Math.max(0, limit.dailyTokens - usage.tokens)),
+    'X-Quota-Requests-Remaining': String(Math.max(0, limit.dailyRequests - usage.requests)),
+    'X-Quota-Reset': String(Math.floor(resetAt / 1000))
+  });
+
+  const rejection = (code, message, retryAtMs, at, limit, usage, resetAt) => {
+    const retryAfter = Math.max(1, Math.ceil((retryAtMs - at) / 1000));
+    return {
+      allowed: false,
+      status: 429,
+      headers: { ...headersFor(limit, usage, resetAt), 'Retry-After': String(retryAfter) },
+      body: {
+        error: message,
+        code,
+        retryAfter,
+        limit: code === 'RATE_LIMITED' ? limit.perMinute : limit.dailyTokens,
+        remaining: code === 'RATE_LIMITED' ? 0 : Math.max(0, limit.dailyTokens - usage.tokens),
+        resetAt: new Date(resetAt).toISOString()
+      }
+    };
+  };
+
+  return {
+    /**
+     * Count the request against the per-minute window and check the daily budget.
+     * Store outages fail open so a Firestore blip does not take AI offline.
+     */
+    async check(identity) {
+      const { at, limit, minuteKey, minuteEnd, dayKey, dayEnd } = windows(identity);
+      let day = { requests: 0, tokens: 0 };
+      try {
+        const minute = await store.increment(minuteKey, { requests: 1 }, minuteEnd + MINUTE_MS);
+        day = await store.get(dayKey);
+        if (minute.requests > limit.perMinute) {
+          return rejection('RATE_LIMITED', 'Too many AI requests. Please wait a moment and try again.', minuteEnd, at, limit, day, dayEnd);
+        }
+        if (day.requests >= limit.dailyRequests || day.tokens >= limit.dailyTokens) {
+          return rejection('DAILY_QUOTA_EXCEEDED', 'Daily AI budget used up. It resets at midnight UTC.', dayEnd, at, limit, day, dayEnd);
+        }
+      } catch (error) {
+        console.warn(JSON.stringify({ source: 'gemini-quota', event: 'store_error', store: store.name, error: error.message }));
+      }
+      return { allowed: true, headers: headersFor(limit, day, dayEnd) };
+    },
+
+    /**
+     * Charge a completed request to the daily budget; returns headers with the new remaining budget.
+     */
+    async record(identity, tokens) {
+      const { limit, dayKey, dayEnd } = windows(identity);
+      try {
+        const day = await store.increment(dayKey, { requests: 1, tokens: Math.max(0, Math.round(tokens)) }, dayEnd + DAY_MS);
+        return headersFor(limit, day, dayEnd);
+      } catch (error) {
+        console.warn(JSON.stringify({ source: 'gemini-quota', event: 'store_error', store: store.name, error: error.message }));
+        return {};
+      }
+    }
+  };
+}
+
+// Shared per function instance so the memory store and cached tokens survive warm starts
+function getQuotaGuard() {
+  if (!global.__GEMINI_QUOTA__) {
+    global.__GEMINI_QUOTA__ = createQuotaGuard({ store: createQuotaStore() });
+  }
+  return global.__GEMINI_QUOTA__;
+}
+
+// Bad tokens are the caller's problem (401); missing config or Google keys are ours (503)
+function authFailure(error) {
+  const serverSide = error.code === 'NOT_CONFIGURED' || error.code === 'KEYS_UNAVAILABLE';
+  return {
+    status: serverSide ? 503 : 401,
+    body: { error: error.message || 'Unauthorized', code: error.code || 'UNAUTHORIZED' }
+  };
+}
+
+module.exports = {
+  AuthError,
+  DEFAULT_LIMITS,
+  QUOTA_HEADER_NAMES,
+  authFailure,
+  createQuotaGuard,
+  getQuotaGuard,
+  identify,
+  readLimits,
+  tokensFromUsage
+};
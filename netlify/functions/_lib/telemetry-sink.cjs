@@ -0,0 +1,157 @@
+// Telemetry ingestion for the `telemetry` function.
+// Batches come from HttpTelemetrySink (src/services/TelemetrySinks.ts) as
+// POST { events: TelemetryEvent[] }. Events are validated, trimmed and handed
+// to a sink:
+//
+// - log:    one JSON line per event on stdout (default; Netlify log drains pick it up)
+// - file:   appends NDJSON to TELEMETRY_FILE (local `netlify dev`)
+// - memory: keeps events in memory (tests)
+//
+// TELEMETRY_SINK=log|file|memory overrides the default.
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Keep in sync with TelemetryEventName in src/services/telemetry.ts
+const EVENT_NAMES = new Set([
+  'save_project',
+  'load_project',
+  'sync_error',
+  'conflict_detected',
+  'cache_hit',
+  'cache_miss',
+  'ai_prompt',
+  'ai_fallback',
+  'ai_structured',
+  'stage_transition',
+  'wizard_abandoned',
+  'export_used'
+]);
+
+const MAX_BODY_BYTES = 512 * 1024;
+const MAX_BATCH = 500;
+const MAX_METADATA_BYTES = 2048;
+
+class TelemetryError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.name = 'TelemetryError';
+    this.status = status;
+  }
+}
+
+const shortString = (value, max) => (typeof value === 'string' && value ? value.slice(0, max) : undefined);
+
+// Only known fields survive; oversized metadata is dropped rather than truncated into invalid JSON
+function sanitizeEvent(raw) {
+  if (!raw || typeof raw !== 'object' || !EVENT_NAMES.has(raw.event)) { return null; }
+  const timestamp = Number(raw.timestamp);
+  if (!Number.isFinite(timestamp) || timestamp <= 0) { return null; }
+
+  const event = {
+    event: raw.event,
+    success: raw.success === true,
+    latencyMs: Math.max(0, Math.round(Number(raw.latencyMs) || 0)),
+    timestamp,
+    projectId: shortString(raw.projectId, 64) || 'unknown'
+  };
+  const optional = {
+    source: shortString(raw.source, 32),
+    errorCode: shortString(raw.errorCode, 64),
+    errorMessage: shortString(raw.errorMessage, 300),
+    sessionId: shortString(raw.sessionId, 64),
+    seq: Number.isInteger(raw.seq) ? raw.seq : undefined
+  };
+  Object.entries(optional).forEach(([key, value]) => {
+    if (value !== undefined) { event[key] = value; }
+  });
+  if (raw.metadata && typeof raw.metadata === 'object') {
+    const metadata = JSON.stringify(raw.metadata);
+    if (metadata.length <= MAX_METADATA_BYTES) { event.metadata = JSON.parse(metadata); }
+  }
+  return event;
+}
+
+/**
+ * Parse a request body into { events, rejected }.
+ * Throws TelemetryError (400/413) for bodies that are not a usable batch.
+ */
+function parseBatch(body) {
+  const text = String(body || '');
+  if (Buffer.byteLength(text) > MAX_BODY_BYTES) { throw new TelemetryError('Telemetry batch too large', 413); }
+
+  let payload;
+  try {
+    payload = JSON.parse(text || '{}');
+  } catch {
+    throw new TelemetryError('Invalid JSON', 400);
+  }
+  if (!payload || !Array.isArray(payload.events)) { throw new TelemetryError('Expected { events: [] }', 400); }
+  if (payload.events.length > MAX_BATCH) { throw new TelemetryError(`At most ${MAX_BATCH} events per batch`, 413); }
+
+  const events = payload.events.map(sanitizeEvent).filter(Boolean);
+  return { events, rejected: payload.events.length - events.length };
+}
+
+function createLogSink() {
+  return {
+    name: 'log',
+    async write(events, context = {}) {
+      events.forEach((event) => {
+        console.log(JSON.stringify({ source: 'netlify-fn-telemetry', receivedAt: context.receivedAt, ...event }));
+      });
+    }
+  };
+}
+
+function createFileSink({ file = path.join(os.tmpdir(), 'alf-telemetry.ndjson') } = {}) {
+  return {
+    name: 'file',
+    file,
+    async write(events, context = {}) {
+      if (events.length === 0) { return; }
+      const lines = events.map((event) => JSON.stringify({ receivedAt: context.receivedAt, ...event })).join('\n');
+      await fs.promises.appendFile(file, `${lines}\n`, 'utf8');
+    }
+  };
+}
+
+function createMemorySink() {
+  const events = [];
+  return {
+    name: 'memory',
+    events,
+    async write(batch, context = {}) {
+      batch.forEach((event) => events.push({ receivedAt: context.receivedAt, ...event }));
+    }
+  };
+}
+
+function createTelemetrySink(env = process.env) {
+  const kind = env.TELEMETRY_SINK || 'log';
+  if (kind === 'file') { return createFileSink({ file: env.TELEMETRY_FILE || undefined }); }
+  if (kind === 'memory') { return createMemorySink(); }
+  return createLogSink();
+}
+
+// Shared per function instance so the memory sink survives warm starts
+function getTelemetrySink() {
+  if (!global.__TELEMETRY_SINK__) {
+    global.__TELEMETRY_SINK__ = createTelemetrySink();
+  }
+  return global.__TELEMETRY_SINK__;
+}
+
+module.exports = {
+  EVENT_NAMES,
+  MAX_BATCH,
+  TelemetryError,
+  createFileSink,
+  createLogSink,
+  createMemorySink,
+  createTelemetrySink,
+  getTelemetrySink,
+  parseBatch,
+  sanitizeEvent
+};
@@ -0,0 +1,177 @@
+// Netlify Function (v2, streaming): Gemini API proxy over server-sent events
+// Calls :streamGenerateContent?alt=sse and re-emits normalized events:
+//   event: chunk  data: {"text":"..."}
+//   event: done   data: {"finishReason":"STOP","model":"..."}
+//   event: error  data: {"error":"..."}
+// Requires env var GEMINI_API_KEY set in Netlify UI
+
+import shared from './_lib/gemini-shared.cjs';
+import quotas from './_lib/quota.cjs';
+
+const {
+  CORS_HEADERS,
+  getClientIp,
+  resolveModel,
+  buildPayload,
+  buildUrl,
+  extractChunkText
+} = shared;
+
+const { AuthError, authFailure, getQuotaGuard, identify, tokensFromUsage } = quotas;
+
+const SSE_HEADERS = {
+  ...CORS_HEADERS,
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive'
+};
+
+function jsonResponse(status, body, headers = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Access-Control-Allow-Origin': '*', 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+function sseEvent(event, data) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export default async function handler(req) {
+  if (req.method === 'OPTIONS') {
+    return new Response('', { status: 200, headers: CORS_HEADERS });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse(405, { error: 'Method Not Allowed' });
+  }
+
+  // Per-user quotas (Firebase ID token), per-IP allowance for anonymous callers
+  const ip = getClientIp(req.headers);
+  let identity;
+  try {
+    identity = await identify(req.headers, ip);
+  } catch (error) {
+    if (!(error instanceof AuthError)) { throw error; }
+    const { status, body } = authFailure(error);
+    return jsonResponse(status, body);
+  }
+
+  const quota = getQuotaGuard();
+  const verdict = await quota.check(identity);
+  if (!verdict.allowed) {
+    return jsonResponse(429, verdict.body, verdict.headers);
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    body = {};
+  }
+
+  const API_KEY = process.env.GEMINI_API_KEY;
+  if (!API_KEY) {
+    return jsonResponse(500, { error: 'GEMINI_API_KEY is not configured' });
+  }
+
+  const selectedModel = resolveModel(body.model);
+  const url = buildUrl(selectedModel, 'streamGenerateContent', API_KEY);
+  const payload = buildPayload(body);
+  const start = Date.now();
+
+  let upstream;
+  try {
+    upstream = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: payload,
+      signal: req.signal
+    });
+  } catch (error) {
+    return jsonResponse(502, { error: 'Upstream unavailable', details: error.message });
+  }
+
+  if (!upstream.ok || !upstream.body) {
+    const details = await upstream.text().catch(() => '');
+    console.log(JSON.stringify({
+      source: 'netlify-fn-gemini-stream', ip, model: selectedModel, status: upstream.status, latencyMs: Date.now() - start
+    }));
+    return new Response(details || JSON.stringify({ error: `Upstream HTTP ${upstream.status}` }), {
+      status: upstream.status || 500,
+      headers: { 'Access-Control-Allow-Origin': '*', 'Content-Type': 'application/json' }
+    });
+  }
+
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  // The reader holds the upstream lock, so cancel() has to go through it
+  const reader = upstream.body.getReader();
+  let cancelled = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let buffer = '';
+      let finishReason = null;
+      let chunks = 0;
+      let usage = null;
+      let streamedText = '';
+
+      // After the client leaves the controller is closed; enqueue would throw
+      const send = (event, data) => {
+        if (!cancelled) { controller.enqueue(encoder.encode(sseEvent(event, data))); }
+      };
+
+      const flushLine = (line) => {
+        if (!line.startsWith('data:')) { return; }
+        const raw = line.slice(5).trim();
+        if (!raw) { return; }
+        try {
+          const data = JSON.parse(raw);
+          const text = extractChunkText(data);
+          finishReason = (data.candidates && data.candidates[0] && data.candidates[0].finishReason) || finishReason;
+          usage = data.usageMetadata ? data : usage;
+          if (text) {
+            chunks += 1;
+            streamedText += text;
+            send('chunk', { text });
+          }
+        } catch {
+          // Ignore malformed upstream lines; the next chunk usually recovers
+        }
+      };
+
+      try {
+        while (!cancelled) {
+          const { value, done } = await reader.read();
+          if (done) { break; }
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split(/\r?\n/);
+          buffer = lines.pop() || '';
+          lines.forEach(flushLine);
+        }
+        flushLine(buffer);
+        send('done', { finishReason, model: selectedModel });
+      } catch (error) {
+        send('error', { error: error.message || 'Stream interrupted' });
+      } finally {
+        // Charge the stream once it ends; headers already went out with the pre-request budget
+        const tokens = tokensFromUsage(usage, payload + streamedText);
+        await quota.record(identity, tokens);
+        // Structured log (no secrets)
+        console.log(JSON.stringify({
+          source: 'netlify-fn-gemini-stream', ip, identity: identity.kind, model: selectedModel, status: 200, chunks, tokens, cancelled, latencyMs: Date.now() - start
+        }));
+        if (!cancelled) { controller.close(); }
+      }
+    },
+    cancel() {
+      // Client went away; stop reading from Google
+      cancelled = true;
+      reader.cancel().catch(() => {});
+    }
+  });
+
+  return new Response(stream, { status: 200, headers: { ...SSE_HEADERS, ...verdict.headers } });
+}
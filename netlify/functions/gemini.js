@@ -3,29 +3,41 @@
 // Requires env var GEMINI_API_KEY set in Netlify UI
 
 const https = require('https');
-
-const RATE_LIMIT = { windowMs: 60_000, max: 60 }; // 60 requests/min per IP
-const bucket = global.__GEMINI_BUCKET__ || (global.__GEMINI_BUCKET__ = new Map());
-
-function getClientIp(event) {
-  const xf = event.headers['x-forwarded-for'] || event.headers['X-Forwarded-For'] || '';
-  const ip = (xf.split(',')[0] || '').trim() || event.headers['client-ip'] || event.headers['x-nf-client-connection-ip'] || 'unknown';
-  return ip;
-}
+const {
+  CORS_HEADERS,
+  getClientIp,
+  resolveModel,
+  buildPayload,
+  buildUrl
+} = require('./_lib/gemini-shared.cjs');
+const {
+  AuthError,
+  authFailure,
+  getQuotaGuard,
+  identify,
+  tokensFromUsage
+} = require('./_lib/quota.cjs');
 
 exports.handler = async function handler(event) {
   if (event.httpMethod === 'OPTIONS') {
     return {
       statusCode: 200,
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type',
-        'Access-Control-Allow-Methods': 'POST, OPTIONS'
-      },
+      headers: CORS_HEADERS,
       body: ''
     };
   }
 
+  // Unauthenticated health probe for the connection indicator and AI setup page:
+  // reports whether the proxy is configured without calling Gemini or spending quota
+  if (event.httpMethod === 'GET') {
+    const configured = Boolean(process.env.GEMINI_API_KEY);
+    return {
+      statusCode: configured ? 200 : 503,
+      headers: { 'Access-Control-Allow-Origin': '*', 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+      body: JSON.stringify({ ok: configured, model: resolveModel() })
+    };
+  }
+
   if (event.httpMethod !== 'POST') {
     return {
       statusCode: 405,
@@ -38,22 +50,31 @@ exports.handler = async function handler(event) {
   }
 
   try {
-    // Basic rate limiting per IP (best-effort; function instance scoped)
-    const ip = getClientIp(event);
-    const now = Date.now();
-    const entry = bucket.get(ip) || { count: 0, start: now };
-    if (now - entry.start > RATE_LIMIT.windowMs) {
-      entry.count = 0; entry.start = now;
+    // Per-user quotas (Firebase ID token), per-IP allowance for anonymous callers
+    const ip = getClientIp(event.headers);
+    let identity;
+    try {
+      identity = await identify(event.headers, ip);
+    } catch (error) {
+      if (!(error instanceof AuthError)) { throw error; }
+      const { status, body } = authFailure(error);
+      return {
+        statusCode: status,
+        headers: { 'Access-Control-Allow-Origin': '*', 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      };
     }
-    entry.count += 1;
-    bucket.set(ip, entry);
-    if (entry.count > RATE_LIMIT.max) {
+
+    const quota = getQuotaGuard();
+    const verdict = await quota.check(identity);
+    if (!verdict.allowed) {
       return {
         statusCode: 429,
-        headers: { 'Access-Control-Allow-Origin': '*', 'Content-Type': 'application/json' },
-        body: JSON.stringify({ error: 'Rate limit exceeded. Please wait and try again.' })
+        headers: { 'Access-Control-Allow-Origin': '*', 'Content-Type': 'application/json', ...verdict.headers },
+        body: JSON.stringify(verdict.body)
       };
     }
+
     const { prompt, history, model, systemPrompt, generationConfig } = JSON.parse(event.body || '{}');
     const API_KEY = process.env.GEMINI_API_KEY;
 
@@ -65,47 +86,9 @@ exports.handler = async function handler(event) {
       };
     }
 
-    // Map friendly/alias model names to valid Google Gemini API model IDs
-    // Using -latest aliases to always get newest versions (recommended by Google)
-    const MODEL_ALIASES = {
-      // Latest aliases (auto-update to newest versions)
-      'gemini-2.5-flash-lite': 'gemini-flash-lite-latest',
-      'flash-2.5-lite': 'gemini-flash-lite-latest',
-      'flash2.5-lite': 'gemini-flash-lite-latest',
-      'flash-lite': 'gemini-flash-lite-latest',
-      'gemini-2.5-flash': 'gemini-flash-latest',
-      'gemini-2.0-flash': 'gemini-flash-latest',
-      'flash-2.5': 'gemini-flash-latest',
-      'flash2.5': 'gemini-flash-latest',
-      'flash': 'gemini-flash-latest',
-      // Direct latest aliases
-      'gemini-flash-latest': 'gemini-flash-latest',
-      'gemini-flash-lite-latest': 'gemini-flash-lite-latest'
-    };
-
-    const envDefault = process.env.GEMINI_MODEL && String(process.env.GEMINI_MODEL);
-    const requested = (typeof model === 'string' && model) ? model : (envDefault || 'gemini-flash-lite-latest');
-    const selectedModel = MODEL_ALIASES[requested] || requested;
-
-    const url = new URL(`https://generativelanguage.googleapis.com/v1beta/models/${selectedModel}:generateContent?key=${API_KEY}`);
-    const contents = Array.isArray(history) && history.length > 0
-      ? (prompt ? [...history, { role: 'user', parts: [{ text: prompt }]}] : history)
-      : [{ role: 'user', parts: [{ text: prompt || 'Hello' }]}];
-
-    const cfg = Object.assign(
-      { temperature: 0.7, maxOutputTokens: 1024, topP: 0.8, topK: 40 },
-      typeof generationConfig === 'object' && generationConfig ? generationConfig : {}
-    );
-
-    // Prepend a lightweight system directive if provided
-    const finalContents = systemPrompt
-      ? [{ role: 'user', parts: [{ text: `SYSTEM INSTRUCTION:\n${systemPrompt}` }] }, ...contents]
-      : contents;
-
-    const payload = JSON.stringify({
-      contents: finalContents,
-      generationConfig: cfg
-    });
+    const selectedModel = resolveModel(model);
+    const url = buildUrl(selectedModel, 'generateContent', API_KEY);
+    const payload = buildPayload({ prompt, history, systemPrompt, generationConfig });
 
     const options = {
       hostname: url.hostname,
@@ -127,14 +110,25 @@ exports.handler = async function handler(event) {
     });
 
     const latency = Date.now() - start;
+
+    // Only successful completions are charged to the daily token budget
+    let quotaHeaders = verdict.headers;
+    let tokens = 0;
+    if (responseBody.status === 200) {
+      let data = null;
+      try { data = JSON.parse(responseBody.data); } catch { /* charge the estimate below */ }
+      tokens = tokensFromUsage(data, payload + responseBody.data);
+      quotaHeaders = { ...verdict.headers, ...(await quota.record(identity, tokens)) };
+    }
+
     // Structured log (no secrets)
     console.log(JSON.stringify({
-      source: 'netlify-fn-gemini', ip, model: selectedModel, status: responseBody.status, latencyMs: latency
+      source: 'netlify-fn-gemini', ip, identity: identity.kind, model: selectedModel, status: responseBody.status, tokens, latencyMs: latency
     }));
 
     return {
       statusCode: responseBody.status === 200 ? 200 : (responseBody.status || 500),
-      headers: { 'Access-Control-Allow-Origin': '*', 'Content-Type': 'application/json' },
+      headers: { 'Access-Control-Allow-Origin': '*', 'Content-Type': 'application/json', ...quotaHeaders },
       body: responseBody.data
     };
   } catch (error) {
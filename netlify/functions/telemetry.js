@@ -0,0 +1,40 @@
+// Netlify Function: telemetry batch ingestion
+// Receives POST { events } from the client telemetry pipeline
+// (VITE_TELEMETRY_UPLOAD=true) and writes them to the configured sink.
+
+const { TelemetryError, getTelemetrySink, parseBatch } = require('./_lib/telemetry-sink.cjs');
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const json = (statusCode, body) => ({
+  statusCode,
+  headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
+
+exports.handler = async function handler(event) {
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers: CORS_HEADERS, body: '' };
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return json(405, { error: 'Method Not Allowed' });
+  }
+
+  try {
+    const body = event.isBase64Encoded ? Buffer.from(event.body || '', 'base64').toString('utf8') : event.body;
+    const { events, rejected } = parseBatch(body);
+    await getTelemetrySink().write(events, { receivedAt: new Date().toISOString() });
+    return json(202, { accepted: events.length, rejected });
+  } catch (error) {
+    if (error instanceof TelemetryError) {
+      return json(error.status, { error: error.message });
+    }
+    console.error(JSON.stringify({ source: 'netlify-fn-telemetry', event: 'sink_error', error: error.message }));
+    return json(500, { error: 'Failed to record telemetry' });
+  }
+};
@@ -0,0 +1,81 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import type { ProjectShowcaseV2 } from '../src/types/showcaseV2';
+import { fixShowcase, lintShowcase, type LintIssue } from '../src/utils/showcaseLint';
+import { getAllProjects } from './enrichment-utils';
+
+/**
+ * Lints ProjectShowcaseV2 projects with the app's rule registry.
+ *
+ *   npm run lint:showcase                      # every bundled sample
+ *   npm run lint:showcase -- project.json      # exported projects
+ *   npm run lint:showcase -- --fix project.json
+ *
+ * JSON files may hold the showcase itself or a saved project with a
+ * `showcase` field. --fix writes the auto-fixed showcase back to the file.
+ * Exits with 1 when any error remains.
+ */
+
+interface Target {
+  label: string;
+  showcase: ProjectShowcaseV2;
+  save?: (showcase: ProjectShowcaseV2) => void;
+}
+
+function loadFile(path: string): Target {
+  const json = JSON.parse(readFileSync(path, 'utf8')) as Record<string, unknown>;
+  const wrapped = Boolean(json.showcase && typeof json.showcase === 'object');
+  const showcase = (wrapped ? json.showcase : json) as ProjectShowcaseV2;
+  if (!Array.isArray(showcase.runOfShow) || !Array.isArray(showcase.assignments)) {
+    throw new Error(`${path} does not contain a ProjectShowcaseV2 project`);
+  }
+  return {
+    label: path,
+    showcase,
+    save: fixed => writeFileSync(path, `${JSON.stringify(wrapped ? { ...json, showcase: fixed } : fixed, null, 2)}\n`)
+  };
+}
+
+function printIssues(label: string, issues: LintIssue[]) {
+  if (!issues.length) {return;}
+  console.log(`\n${label}`);
+  issues.forEach(issue => {
+    const fix = issue.fixable ? ' (fixable)' : '';
+    console.log(`  ${issue.severity.padEnd(7)} ${issue.ruleId.padEnd(24)} ${issue.path}: ${issue.message}${fix}`);
+  });
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const fix = args.includes('--fix');
+  const files = args.filter(arg => !arg.startsWith('--'));
+
+  const targets: Target[] = files.length
+    ? files.map(loadFile)
+    : getAllProjects().map(({ path, project }) => ({ label: path, showcase: project }));
+
+  let errors = 0;
+  let warnings = 0;
+  targets.forEach(target => {
+    let report = lintShowcase(target.showcase);
+    if (fix && report.fixableCount) {
+      if (target.save) {
+        const result = fixShowcase(target.showcase);
+        target.save(result.showcase);
+        console.log(`Fixed ${target.label}: ${result.applied.join(', ')}`);
+        report = result.report;
+      } else {
+        console.log(`Skipping --fix for ${target.label} (bundled sample; edit the source file)`);
+      }
+    }
+    printIssues(target.label, report.issues);
+    errors += report.errorCount;
+    warnings += report.warningCount;
+  });
+
+  console.log(`\n${targets.length} project${targets.length === 1 ? '' : 's'}: ${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`);
+  if (errors > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();
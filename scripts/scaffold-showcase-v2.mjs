@@ -31,6 +31,8 @@ const tfMap = dur => {
 
 const gbMap = g => {
   const s = String(g || '').toLowerCase();
+  if (/pre-?k|preschool|early childhood/.test(s)) return 'PK';
+  if (/post-?secondary|college|higher ed|adult|\bcte\b/.test(s)) return 'PS';
   if (s.includes('high')) return 'HS';
   if (s.includes('middle') || s.includes('ms')) return 'MS';
   return 'ES';
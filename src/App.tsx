@@ -5,6 +5,7 @@ import AppRouter from './AppRouter';
 import { ThemeProvider } from './providers/ThemeProvider';
 import { SystemErrorBoundary } from './components/ErrorBoundary/SystemErrorBoundary';
 import { ProjectDataProvider } from './contexts/ProjectDataContext';
+import { ConflictMergeHost } from './components/ConflictMergeDialog';
 
 const App: React.FC = () => {
   return (
@@ -12,6 +13,7 @@ const App: React.FC = () => {
       <ProjectDataProvider>
         <ThemeProvider>
           <AppRouter />
+          <ConflictMergeHost />
         </ThemeProvider>
       </ProjectDataProvider>
     </SystemErrorBoundary>
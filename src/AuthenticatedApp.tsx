@@ -34,8 +34,13 @@ const SamplePreview = lazy(() => import('./pages/SamplePreview'));
 // Phase A: Using actual ReviewScreen with cloud-first reads
 const ReviewScreen = lazy(() => import('./features/review/ReviewScreen'));
 const ProjectShowcasePage = lazy(() => import('./features/showcase/ProjectShowcasePage'));
+const SharedProjectPage = lazy(() => import('./features/showcase/SharedProjectPage'));
+const StudentSitePage = lazy(() => import('./features/showcase/StudentSitePage'));
+const SharedGalleryPage = lazy(() => import('./features/showcase/SharedGalleryPage'));
 const CompletedProjectsPage = lazy(() => import('./pages/CompletedProjectsPage'));
 const QuickSpark = lazy(() => import('./features/quickstart/QuickSpark'));
+const UnitPlanImportPage = lazy(() => import('./features/import/UnitPlanImportPage'));
+const RulePackAdminPage = lazy(() => import('./features/rulePacks/RulePackAdminPage'));
 const AssignmentEditor = lazy(() => import('./features/showcase/AssignmentEditor'));
 const IntakeWizardMinimal = lazy(() => import('./features/wizard/IntakeWizardMinimal'));
 const DebugTelemetry = lazy(() => import('./pages/DebugTelemetry'));
@@ -77,7 +82,9 @@ const AppLayout = ({ children }: { children: React.ReactNode }) => {
   // Determine page type for optimal spacing
   const isSamplesPage = location.pathname === '/app/samples';
   const isSampleDetailPage = location.pathname.startsWith('/app/samples/') && location.pathname !== '/app/samples';
-  const isShowcasePage = location.pathname.startsWith('/app/showcase/');
+  const isShowcasePage = location.pathname.startsWith('/app/showcase/')
+    || location.pathname.startsWith('/app/shared/')
+    || location.pathname === '/app/gallery';
   const isDashboardPage = location.pathname === '/app/dashboard' || location.pathname === '/app';
   const isWizardPage = location.pathname === '/app/new';
 
@@ -312,6 +319,24 @@ export default function AuthenticatedApp() {
                 </ProtectedRoute>
               } />
             )}
+            <Route path="/app/import" element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <Suspense fallback={<div className="flex items-center justify-center h-64"><div className="text-lg text-gray-600 animate-pulse">Loading importer…</div></div>}>
+                    <UnitPlanImportPage />
+                  </Suspense>
+                </AppLayout>
+              </ProtectedRoute>
+            } />
+            <Route path="/app/settings/rule-packs" element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <Suspense fallback={<div className="flex items-center justify-center h-64"><div className="text-lg text-gray-600 animate-pulse">Loading rule packs…</div></div>}>
+                    <RulePackAdminPage />
+                  </Suspense>
+                </AppLayout>
+              </ProtectedRoute>
+            } />
             <Route path="/app/showcase/:id" element={
               <ProtectedRoute>
                 <AppLayout>
@@ -321,6 +346,40 @@ export default function AuthenticatedApp() {
                 </AppLayout>
               </ProtectedRoute>
             } />
+            {/* Shared read-only projects; public links work without an account */}
+            <Route path="/app/shared/:slug" element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <Suspense fallback={<div className="flex items-center justify-center h-64"><div className="text-lg text-gray-600 animate-pulse">Loading shared project…</div></div>}>
+                    <SharedProjectPage />
+                  </Suspense>
+                </AppLayout>
+              </ProtectedRoute>
+            } />
+            <Route path="/app/gallery" element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <Suspense fallback={<div className="flex items-center justify-center h-64"><div className="text-lg text-gray-600 animate-pulse">Loading gallery…</div></div>}>
+                    <SharedGalleryPage />
+                  </Suspense>
+                </AppLayout>
+              </ProtectedRoute>
+            } />
+            {/* Student view: student-facing fields only, no app chrome */}
+            <Route path="/app/showcase/:id/student" element={
+              <ProtectedRoute>
+                <Suspense fallback={<div className="flex items-center justify-center h-64"><div className="text-lg text-gray-600 animate-pulse">Loading student view…</div></div>}>
+                  <StudentSitePage />
+                </Suspense>
+              </ProtectedRoute>
+            } />
+            <Route path="/app/project/:id/student" element={
+              <ProtectedRoute>
+                <Suspense fallback={<div className="flex items-center justify-center h-64"><div className="text-lg text-gray-600 animate-pulse">Loading student view…</div></div>}>
+                  <StudentSitePage />
+                </Suspense>
+              </ProtectedRoute>
+            } />
             <Route path="/app/showcase/:id/edit" element={
               <ProtectedRoute>
                 <AppLayout>
@@ -1,4 +1,5 @@
-import { buildGradeBandPrompt, gradeBandRules, resolveGradeBand } from '../gradeBandRules';
+import { adaptStudentVocabulary, buildGradeBandPrompt, gradeBandRules, resolveGradeBand } from '../gradeBandRules';
+import { mapGradeBand, mapTimeframe, parseTotalWeeks } from '../../features/chat-mvp/domain/projectShowcaseGenerator';
 
 describe('gradeBandRules', () => {
   const bands: Array<[string | null | undefined, string | null]> = [
@@ -14,6 +15,17 @@ describe('gradeBandRules', () => {
     ['Middle School (6-8)', '6-8'],
     ['9-12', '9-12'],
     ['High School (9-12)', '9-12'],
+    ['Pre-K (Ages 3-5)', 'Pre-K'],
+    ['Preschool', 'Pre-K'],
+    ['TK', 'Pre-K'],
+    ['PK-2', 'K-2'],
+    ['Post-Secondary / CTE', 'Post-Secondary'],
+    ['Community college', 'Post-Secondary'],
+    ['Adult education', 'Post-Secondary'],
+    ['Grades 13-14', 'Post-Secondary'],
+    ['CTE certificate', 'Post-Secondary'],
+    ['High school CTE', '9-12'],
+    ['Grades 11-12 CTE', '9-12'],
     ['Mixed', null],
     [undefined, null]
   ];
@@ -31,4 +43,21 @@ describe('gradeBandRules', () => {
       });
     });
   });
+
+  it('maps Pre-K and post-secondary projects to showcase bands and default lengths', () => {
+    expect(mapGradeBand('Pre-K (Ages 3-5)')).toBe('PK');
+    expect(mapGradeBand('Post-Secondary / CTE')).toBe('PS');
+    expect(mapGradeBand('Higher Ed')).toBe('PS');
+    expect(mapGradeBand('Grade 7')).toBe('MS');
+    expect(parseTotalWeeks('project', 'Pre-K')).toBe(2);
+    expect(mapTimeframe('semester', 'Post-Secondary / CTE')).toBe('12–18 weeks');
+    expect(mapTimeframe('unit', 'Middle School (6-8)')).toBe('6–8 weeks');
+  });
+
+  it('adapts student vocabulary to the band', () => {
+    expect(adaptStudentVocabulary('Analyze the evidence and build prototypes.', 'K-2')).toBe('Look closely at the proof and build models.');
+    expect(adaptStudentVocabulary('Analyze the evidence.', '3-5')).toBe('Study the evidence.');
+    expect(adaptStudentVocabulary('Analyze the evidence.', '9-12')).toBe('Analyze the evidence.');
+    expect(adaptStudentVocabulary('Evidently, reanalyze it.', 'K-2')).toBe('Evidently, reanalyze it.');
+  });
 });
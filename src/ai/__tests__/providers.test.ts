@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { geminiProvider, getAIProvider, localProvider, resolveAIProviderName, setAIProvider } from '../providers';
+import { featureFlags } from '../../utils/featureFlags';
+import { AI_RATE_LIMIT_ACTION, aiRateLimiter } from '../../utils/rate-limiter';
+import { generateAI, generateAIStream } from '../../features/chat-mvp/domain/ai';
+import { telemetry } from '../../services/telemetry';
+
+jest.mock('../../firebase/firebase', () => ({
+  auth: { currentUser: { getIdToken: () => Promise.resolve('id-token-1') } }
+}));
+
+describe('AI provider selection', () => {
+  afterEach(() => {
+    setAIProvider(null);
+    featureFlags.clearOverride('localAIProvider');
+  });
+
+  it('defaults to the Gemini proxy', () => {
+    expect(resolveAIProviderName()).toBe('gemini');
+    expect(getAIProvider().name).toBe('gemini');
+  });
+
+  it('switches to the local provider via the localAIProvider flag', () => {
+    featureFlags.setOverride('localAIProvider', true);
+    expect(getAIProvider()).toBe(localProvider);
+  });
+
+  it('honours an explicit override', () => {
+    setAIProvider('local');
+    expect(resolveAIProviderName()).toBe('local');
+  });
+});
+
+describe('localProvider', () => {
+  afterEach(() => {
+    localProvider.resetFixtures();
+    delete window.__ALF_AI_FIXTURES__;
+  });
+
+  it('returns the same text for the same request', async () => {
+    const first = await localProvider.generate({ prompt: 'Help me plan a watershed unit' });
+    const second = await localProvider.generate({ prompt: 'Help me plan a watershed unit' });
+    expect(first.text).toBe(second.text);
+    expect(first.model).toBe('local-fixture');
+  });
+
+  it('shapes journey fixtures to the requested phase count', async () => {
+    const { text } = await localProvider.generate({
+      prompt: 'Generate a 3-phase learning journey for this PBL project.',
+      label: 'journey_generation'
+    });
+    const phases = JSON.parse(text);
+    expect(phases).toHaveLength(3);
+    expect(phases[0]).toEqual(expect.objectContaining({ name: expect.any(String), activities: expect.any(Array) }));
+  });
+
+  it('serves JSON-mode requests from JSON fixtures', async () => {
+    const { text } = await localProvider.generate({ prompt: 'Coach me', json: true });
+    expect(JSON.parse(text)).toEqual(expect.objectContaining({ chatResponse: expect.any(String) }));
+  });
+
+  it('prefers registered and injected fixtures over the defaults', async () => {
+    localProvider.useFixtures([{ label: 'rubric', text: '{"criteria":[]}' }]);
+    window.__ALF_AI_FIXTURES__ = [{ match: 'exit ticket', text: 'Use a two-question exit ticket.' }];
+
+    expect((await localProvider.generate({ prompt: 'Rubric please', label: 'rubric' })).text).toBe('{"criteria":[]}');
+    expect((await localProvider.generate({ prompt: 'Draft an Exit Ticket' })).text).toBe('Use a two-question exit ticket.');
+  });
+
+  it('counts words and punctuation as tokens', () => {
+    expect(localProvider.countTokens('Plan week 1, then test.')).toBe(7);
+  });
+});
+
+describe('generateAI through the local provider', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    setAIProvider('local');
+    telemetry.clear();
+    global.fetch = jest.fn<typeof fetch>();
+  });
+
+  afterEach(() => {
+    setAIProvider(null);
+    global.fetch = originalFetch;
+  });
+
+  it('answers without touching the network and records the provider', async () => {
+    const text = await generateAI('ping', { label: 'health' });
+
+    expect(text).toBe('pong');
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    const [event] = telemetry.getRecentEvents();
+    expect(event.metadata).toMatchObject({ provider: 'local', model: 'local-fixture', outputTokens: 1 });
+  });
+
+  it('streams fixture text word by word', async () => {
+    const seen: string[] = [];
+
+    const result = await generateAIStream('Help me plan a watershed unit', { onToken: (_d, text) => seen.push(text) });
+
+    expect(seen.length).toBeGreaterThan(1);
+    expect(seen[seen.length - 1].trim()).toBe(result.text);
+    expect(result).toMatchObject({ status: 'complete', streamed: true });
+    expect(telemetry.getRecentEvents()[0].metadata).toMatchObject({ provider: 'local', streamed: true });
+  });
+});
+
+describe('geminiProvider quotas', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    aiRateLimiter.reset();
+  });
+
+  it('sends the Firebase ID token and records the remaining budget', async () => {
+    const fetchMock = jest.fn<typeof fetch>().mockResolvedValue(new Response(
+      JSON.stringify({ candidates: [{ content: { parts: [{ text: 'OK' }] } }] }),
+      { status: 200, headers: { 'X-Quota-Tokens-Limit': '250000', 'X-Quota-Tokens-Remaining': '249000', 'X-Quota-Reset': '1792368000' } }
+    ));
+    global.fetch = fetchMock;
+
+    await geminiProvider.generate({ prompt: 'hi' });
+
+    expect(fetchMock.mock.calls[0][1]?.headers).toMatchObject({ Authorization: 'Bearer id-token-1' });
+    expect(aiRateLimiter.getSnapshot(AI_RATE_LIMIT_ACTION).quota).toEqual({
+      tokensLimit: 250000, tokensRemaining: 249000, requestsRemaining: undefined, resetAt: 1792368000000
+    });
+  });
+
+  it('counts a stream that falls back to the buffered proxy as one request', async () => {
+    global.fetch = jest.fn<typeof fetch>()
+      .mockResolvedValueOnce(new Response('Not Found', { status: 404 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text: 'OK' }] } }] }), { status: 200 }));
+    const gate = jest.spyOn(aiRateLimiter, 'canPerformAction');
+
+    const result = await generateAIStream('hi');
+
+    expect(result).toMatchObject({ text: 'OK', streamed: false });
+    expect(gate).toHaveBeenCalledTimes(1);
+    gate.mockRestore();
+  });
+
+  it('honours a 429 Retry-After without calling the proxy again', async () => {
+    global.fetch = jest.fn<typeof fetch>().mockResolvedValue(new Response(
+      JSON.stringify({ error: 'Daily AI budget used up.', code: 'DAILY_QUOTA_EXCEEDED', retryAfter: 3600 }),
+      { status: 429, headers: { 'Retry-After': '3600' } }
+    ));
+
+    await expect(geminiProvider.generate({ prompt: 'hi' })).rejects.toMatchObject({ code: 'DAILY_QUOTA_EXCEEDED', status: 429 });
+    await expect(geminiProvider.generate({ prompt: 'again' })).rejects.toMatchObject({ code: 'DAILY_QUOTA_EXCEEDED', status: 429 });
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(aiRateLimiter.getSnapshot(AI_RATE_LIMIT_ACTION)).toMatchObject({ reason: 'DAILY_QUOTA_EXCEEDED', blockedUntil: expect.any(Number) });
+  });
+});
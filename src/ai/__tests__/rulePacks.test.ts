@@ -0,0 +1,178 @@
+import { buildGradeBandPrompt, gradeBandRules } from '../gradeBandRules';
+import {
+  EXAMPLE_RULE_PACK,
+  RulePackError,
+  buildGradeBandGuidance,
+  canManageRulePacks,
+  getGradeBandRules,
+  installRulePack,
+  listRulePacks,
+  mergeGradeBandRule,
+  parseRulePack,
+  removeRulePack,
+  setRulePackStore,
+  syncRulePacks
+} from '../rulePacks';
+import { MemoryRulePackStore } from '../rulePackStore';
+
+const pack = {
+  schemaVersion: 1,
+  id: 'springfield',
+  name: 'Springfield USD',
+  version: '1.2.0',
+  allBands: {
+    avoid: ['No student accounts for students under 13.'],
+    safetyFeasibility: ['Field trips need a 1:8 adult ratio.']
+  },
+  bands: {
+    '6-8': {
+      summary: 'Springfield middle school teams.',
+      escalateIf: ['Any overnight travel.'],
+      replace: ['scopeAndDeliverables'],
+      scopeAndDeliverables: ['Deliverables stay on campus.'],
+      studentVocabulary: { Stakeholders: 'neighbors' }
+    }
+  }
+};
+
+function issuesOf(input: unknown): string[] {
+  try {
+    parseRulePack(input);
+  } catch (error) {
+    expect(error).toBeInstanceOf(RulePackError);
+    return (error as RulePackError).issues;
+  }
+  throw new Error('expected the pack to be rejected');
+}
+
+describe('parseRulePack', () => {
+  it('accepts a valid pack as JSON text and fills defaults', () => {
+    expect(parseRulePack(JSON.stringify(pack)).bands['6-8']?.studentVocabulary).toEqual({ stakeholders: 'neighbors' });
+    expect(parseRulePack({ schemaVersion: 1, id: 'empty', name: 'Empty', version: '1.0' }).bands).toEqual({});
+    expect(parseRulePack(EXAMPLE_RULE_PACK)).toEqual(EXAMPLE_RULE_PACK);
+  });
+
+  it('reports each problem with its path', () => {
+    const issues = issuesOf({ ...pack, version: 'v2', bands: { 'K-3': {}, '6-8': { avoid: [''], notes: 'x' } } });
+
+    expect(issues).toEqual(expect.arrayContaining([
+      'version: version must look like 1.0 or 1.0.0',
+      expect.stringMatching(/^bands\.K-3: /),
+      expect.stringMatching(/^bands\.6-8\.avoid\.0: /),
+      expect.stringMatching(/^bands\.6-8: .*notes/)
+    ]));
+    expect(issuesOf({ ...pack, schemaVersion: 2 })).toEqual(['schemaVersion: schemaVersion must be 1']);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseRulePack('{ nope')).toThrow('Not valid JSON');
+  });
+});
+
+describe('merging', () => {
+  it('appends lists, replaces named lists and merges vocabulary', () => {
+    const rules = getGradeBandRules('6-8', parseRulePack(pack));
+    const defaults = gradeBandRules['6-8'];
+
+    expect(rules.summary).toBe('Springfield middle school teams.');
+    expect(rules.avoid).toEqual([...defaults.avoid, 'No student accounts for students under 13.']);
+    expect(rules.escalateIf).toEqual([...defaults.escalateIf, 'Any overnight travel.']);
+    expect(rules.scopeAndDeliverables).toEqual(['Deliverables stay on campus.']);
+    expect(rules.studentVocabulary).toEqual({ ...defaults.studentVocabulary, stakeholders: 'neighbors' });
+    expect(rules.developmentalMoves).toBe(defaults.developmentalMoves);
+  });
+
+  it('drops duplicates and leaves the defaults untouched', () => {
+    const avoid = gradeBandRules['K-2'].avoid;
+    const merged = mergeGradeBandRule(gradeBandRules['K-2'], { avoid: [avoid[0], 'Something new.'] });
+
+    expect(merged.avoid).toEqual([...avoid, 'Something new.']);
+    expect(gradeBandRules['K-2'].avoid).toBe(avoid);
+  });
+});
+
+describe('installed packs', () => {
+  let store: MemoryRulePackStore;
+
+  beforeEach(() => {
+    store = new MemoryRulePackStore();
+    setRulePackStore(store);
+  });
+
+  afterEach(() => {
+    setRulePackStore(undefined);
+    localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  it('installs, upgrades and removes packs', async () => {
+    expect((await installRulePack(pack)).replaced).toBeNull();
+    expect((await installRulePack({ ...pack, version: '1.3' })).replaced?.version).toBe('1.2.0');
+    expect(listRulePacks().map(item => [item.id, item.version])).toEqual([['springfield', '1.3']]);
+
+    await expect(installRulePack({ ...pack, version: '1.2.9' })).rejects.toThrow('older than the installed');
+
+    await removeRulePack('springfield');
+    expect(listRulePacks()).toEqual([]);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('shares installed packs with teachers on other devices', async () => {
+    await installRulePack(pack);
+    localStorage.clear();
+
+    expect(listRulePacks()).toEqual([]);
+    expect((await syncRulePacks()).map(item => item.id)).toEqual(['springfield']);
+    expect(listRulePacks().map(item => item.id)).toEqual(['springfield']);
+  });
+
+  it('lets only admins manage shared packs', async () => {
+    expect(await canManageRulePacks()).toBe(true);
+    setRulePackStore(new MemoryRulePackStore(false));
+    expect(await canManageRulePacks()).toBe(false);
+    setRulePackStore(null);
+    expect(await canManageRulePacks()).toBe(true);
+  });
+
+  it('skips stored packs that no longer validate', () => {
+    localStorage.setItem('alfCoach_rulePacks', JSON.stringify([pack, { id: 'broken' }]));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(listRulePacks().map(item => item.id)).toEqual(['springfield']);
+  });
+});
+
+describe('buildGradeBandGuidance', () => {
+  beforeEach(async () => {
+    setRulePackStore(new MemoryRulePackStore());
+    await installRulePack(pack);
+  });
+
+  afterEach(() => {
+    setRulePackStore(undefined);
+    localStorage.clear();
+  });
+
+  it('uses the built-in prompt without a pack', () => {
+    expect(buildGradeBandGuidance({ gradeLevel: 'Middle School (6-8)' })).toBe(buildGradeBandPrompt('6-8'));
+    expect(buildGradeBandGuidance({ gradeLevel: '6-8', rulePackId: 'removed' })).toBe(buildGradeBandPrompt('6-8'));
+    expect(buildGradeBandGuidance({ gradeLevel: 'Mixed' })).toBeNull();
+  });
+
+  it('names the pack and adds its rules', () => {
+    const prompt = buildGradeBandGuidance({ gradeLevel: '3-5', rulePackId: 'springfield' }) ?? '';
+
+    expect(prompt.split('\n')[0]).toBe('School rule pack: Springfield USD (v1.2.0). These lines include local policy; follow it over general advice when they conflict.');
+    expect(prompt).toContain('- Field trips need a 1:8 adult ratio.');
+    expect(prompt).not.toContain('Any overnight travel.');
+  });
+
+  it('applies the all-band policy when the band is unknown', () => {
+    expect(buildGradeBandGuidance({ gradeLevel: 'Mixed', rulePackId: 'springfield' })?.split('\n').slice(1)).toEqual([
+      'Feasibility guardrails:',
+      '- Field trips need a 1:8 adult ratio.',
+      'Avoid recommending:',
+      '- No student accounts for students under 13.'
+    ]);
+  });
+});
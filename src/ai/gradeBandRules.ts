@@ -1,4 +1,6 @@
-export type GradeBandKey = 'K-2' | '3-5' | '6-8' | '9-12';
+export const GRADE_BAND_KEYS = ['Pre-K', 'K-2', '3-5', '6-8', '9-12', 'Post-Secondary'] as const;
+
+export type GradeBandKey = typeof GRADE_BAND_KEYS[number];
 
 export interface GradeBandRule {
   summary: string;
@@ -9,9 +11,62 @@ export interface GradeBandRule {
   assessmentFeedback: string[];
   avoid: string[];
   escalateIf: string[];
+  studentVocabulary: Record<string, string>; // teacher term -> word students in this band use (English text only)
 }
 
 export const gradeBandRules: Record<GradeBandKey, GradeBandRule> = {
+  'Pre-K': {
+    summary: 'Play is the work: learning through the senses, routines, and adult-guided wonder in small groups.',
+    developmentalMoves: [
+      'Use 5-15 minute invitations to play (centers, small groups, outdoor time) inside a predictable daily routine.',
+      'Let children show thinking through building, drawing, pretend play, and talk with an adult who records their words.',
+      'Follow the children\'s questions; repeat the same experience over several days instead of moving on quickly.'
+    ],
+    scopeAndDeliverables: [
+      'Keep projects to 1-3 weeks around one concrete, nearby thing children can touch or visit (a garden bed, the block corner, the bus).',
+      'Share through a class documentation wall, a big-book made with the teacher, or an open house where children show their work.',
+      'Outputs are collective and tactile: block structures, murals, dictated stories, photo boards.'
+    ],
+    safetyFeasibility: [
+      'Plan whole-group time of 10-20 minutes at most; most work happens in centers with an adult nearby.',
+      'No small parts that fit in a choking tube, no sharp tools, heat, or chemicals; check food and plant allergies before any tasting or planting.',
+      'Outings stay on campus or a short walk with ~1:4 adult ratios, name tags, and licensing or Head Start requirements met.'
+    ],
+    partnershipTech: [
+      'Invite families and community helpers for short visits with something to hold, hear, or try.',
+      'Screens stay with the teacher for photos, audio, and video documentation; children do not use accounts or apps.',
+      'Impact means sharing with families and the classroom community.'
+    ],
+    assessmentFeedback: [
+      'Gather evidence through observation notes, photos, dictated words, and work samples tied to early learning standards.',
+      'Use learning stories and portfolio conversations with families instead of rubrics or scores.',
+      'Track social-emotional growth (sharing materials, naming feelings) alongside early literacy and math.'
+    ],
+    avoid: [
+      'Avoid worksheets, written responses, long seat work, or independent research.',
+      'Do not plan abstract or frightening topics children cannot see and touch, or competition between children.'
+    ],
+    escalateIf: [
+      'Plans involve cooking with heat, live animals, food tasting without allergy clearance, or leaving campus by vehicle.',
+      'Partners want to photograph children or collect names without guardian consent.'
+    ],
+    studentVocabulary: {
+      analyze: 'look at',
+      collaborate: 'work together',
+      criteria: 'goals',
+      evaluate: 'check',
+      evidence: 'what we saw',
+      hypothesis: 'guess',
+      investigate: 'explore',
+      iterate: 'try again',
+      prototype: 'model',
+      prototypes: 'models',
+      research: 'find out',
+      revise: 'fix',
+      stakeholders: 'people who care',
+      synthesize: 'put together'
+    }
+  },
   'K-2': {
     summary: 'Play-based sense-making with concrete experiences; build belonging and predictable routines.',
     developmentalMoves: [
@@ -46,7 +101,22 @@ export const gradeBandRules: Record<GradeBandKey, GradeBandRule> = {
     escalateIf: [
       'Any plan involves travel near water/roads without barriers, live animals beyond classroom pets, or vendors capturing PII.',
       'Teacher requests power tools, heat sources, or chemical reactions beyond household equivalents.'
-    ]
+    ],
+    studentVocabulary: {
+      analyze: 'look closely at',
+      collaborate: 'work together',
+      criteria: 'goals',
+      evaluate: 'check',
+      evidence: 'proof',
+      hypothesis: 'best guess',
+      investigate: 'find out about',
+      iterate: 'try again',
+      prototype: 'model',
+      prototypes: 'models',
+      revise: 'fix',
+      stakeholders: 'people who care',
+      synthesize: 'put together'
+    }
   },
   '3-5': {
     summary: 'Hands-on investigators who can manage defined roles, compare sources, and explain evidence to others.',
@@ -82,7 +152,15 @@ export const gradeBandRules: Record<GradeBandKey, GradeBandRule> = {
     escalateIf: [
       'Requests involve chemicals beyond microscale demos, power machinery, overnight travel, or surveys hitting PPRA-sensitive topics without consent.',
       'Partners cannot provide supervision plans, background checks, or data privacy assurances.'
-    ]
+    ],
+    studentVocabulary: {
+      analyze: 'study',
+      criteria: 'goals',
+      hypothesis: 'prediction',
+      iterate: 'improve',
+      stakeholders: 'people affected',
+      synthesize: 'combine'
+    }
   },
   '6-8': {
     summary: 'Identity-driven collaborators ready for multi-step inquiry, prototyping, and authentic audiences with coaching.',
@@ -118,7 +196,12 @@ export const gradeBandRules: Record<GradeBandKey, GradeBandRule> = {
     escalateIf: [
       'Projects propose off-campus lab work, hazardous materials, or human-subject research that might trigger district legal review.',
       'Students would publish identifiable data, operate vehicles, or access blocked digital platforms.'
-    ]
+    ],
+    studentVocabulary: {
+      iterate: 'revise',
+      stakeholders: 'people affected',
+      synthesize: 'combine'
+    }
   },
   '9-12': {
     summary: 'Purpose-driven designers capable of abstraction, systems thinking, and client-ready deliverables with light scaffolding.',
@@ -154,10 +237,64 @@ export const gradeBandRules: Record<GradeBandKey, GradeBandRule> = {
     escalateIf: [
       'Projects involve overnight travel, international work, human subjects research intended for publication, or high-risk fabrication without certifications.',
       'Partners request direct access to student data/systems without NDPA/DPA and administrative approval.'
-    ]
+    ],
+    studentVocabulary: {}
+  },
+  'Post-Secondary': {
+    summary: 'Adult and career-focused learners (community college, CTE, adult ed) who bring work and life experience and need industry-relevant outcomes.',
+    developmentalMoves: [
+      'Run projects as client engagements or work simulations with industry standards, timelines, and deliverable reviews.',
+      'Draw on learners\' jobs and communities for problems; let them choose roles that build toward their credential or career goal.',
+      'Expect self-management; use brief stand-ups and milestone reviews rather than daily scaffolds.'
+    ],
+    scopeAndDeliverables: [
+      'Size projects to the course term (a quarter or semester) with milestones that map to program learning outcomes or credential competencies.',
+      'Target work products an employer would recognize: client deliverables, technical builds, service plans, capstone portfolios.',
+      'Plan for mixed schedules: evening or online sections, part-time learners, and asynchronous team work.'
+    ],
+    safetyFeasibility: [
+      'Follow program safety standards (OSHA 10, equipment sign-offs, lab SOPs) and document training before learners use shop or clinical equipment.',
+      'Work-based learning, internships, and client sites need institutional agreements, insurance, and a named site supervisor.',
+      'Learners are adults under FERPA; get written consent before sharing work, grades, or contact details with partners.'
+    ],
+    partnershipTech: [
+      'Treat employers and advisory board members as clients who set requirements and review deliverables.',
+      'Use industry tools (CAD, EHR simulators, POS, code repositories) and the college LMS with institution-managed accounts.',
+      'Plan partner touchpoints around their business hours and the course calendar.'
+    ],
+    assessmentFeedback: [
+      'Align rubrics to industry standards, program outcomes, and credential competencies.',
+      'Combine instructor scoring with employer or client evaluations and skills checklists.',
+      'Use portfolios and reflective write-ups learners can show in job applications.'
+    ],
+    avoid: [
+      'Avoid childlike framing (sticker votes, class museums) and scaffolds that ignore learners\' experience.',
+      'Do not assume daytime availability, travel budgets, or free time outside class; keep fieldwork inside course hours where possible.'
+    ],
+    escalateIf: [
+      'Projects involve clinical placements, live client work with liability, or hazardous processes without a certified instructor present.',
+      'Partners request learner data, unpaid labor beyond course hours, or ownership of learner work without an agreement.'
+    ],
+    studentVocabulary: {}
   }
 };
 
+export type DurationPreset = 'project' | 'unit' | 'quarter' | 'semester';
+
+/**
+ * Default project length per band, used when a duration carries no number
+ * (the wizard's "unit", "semester"…) and to preselect the wizard duration.
+ * K-12 bands keep the long-standing 8 week default.
+ */
+export const gradeBandTimeframes: Record<GradeBandKey, { duration: DurationPreset; weeks: number }> = {
+  'Pre-K': { duration: 'project', weeks: 2 },
+  'K-2': { duration: 'unit', weeks: 8 },
+  '3-5': { duration: 'unit', weeks: 8 },
+  '6-8': { duration: 'unit', weeks: 8 },
+  '9-12': { duration: 'unit', weeks: 8 },
+  'Post-Secondary': { duration: 'semester', weeks: 15 }
+};
+
 export function resolveGradeBand(input?: string | null): GradeBandKey | null {
   if (!input) {
     return null;
@@ -173,6 +310,15 @@ export function resolveGradeBand(input?: string | null): GradeBandKey | null {
     return null;
   }
 
+  // "PK-2" and "Pre-K-5" span into K-12 and fall through to the range match
+  if (/\b(PRE-? ?K|PK|TK|PRE-?KINDERGARTEN|TRANSITIONAL KINDERGARTEN|PRE-?SCHOOL|NURSERY|EARLY CHILDHOOD)\b(?!\s*-\s*\d)/.test(sanitized)) {
+    return 'Pre-K';
+  }
+
+  if (!sanitized.includes('HIGH SCHOOL') && /\b(POST-? ?SECONDARY|COLLEGE|UNIVERSITY|UNDERGRAD\w*|HIGHER ED\w*|ADULT)\b/.test(sanitized)) {
+    return 'Post-Secondary';
+  }
+
   if (sanitized.includes('EARLY') || sanitized.includes('K-2') || sanitized.includes('K2') || sanitized.includes('PRIMARY K')) {
     return 'K-2';
   }
@@ -203,6 +349,9 @@ export function resolveGradeBand(input?: string | null): GradeBandKey | null {
     if (start === 'K' || start === '0') {
       return 'K-2';
     }
+    if (parseInt(start, 10) >= 13) {
+      return 'Post-Secondary';
+    }
     if (end <= 5) {
       return '3-5';
     }
@@ -212,14 +361,28 @@ export function resolveGradeBand(input?: string | null): GradeBandKey | null {
     return '9-12';
   }
 
+  // CTE without a K-12 grade (e.g. "CTE certificate") is a post-secondary course
+  if (/\b(CTE|CAREER AND TECHNICAL|CAREER & TECHNICAL|VOCATIONAL)\b/.test(sanitized)) {
+    return 'Post-Secondary';
+  }
+
   return null;
 }
 
 export function buildGradeBandPrompt(band: GradeBandKey): string {
-  const rules = gradeBandRules[band];
+  return formatGradeBandRules(gradeBandRules[band]);
+}
+
+/**
+ * Prompt lines for a rule set; buildGradeBandPrompt for the defaults, rule
+ * packs (rulePacks.ts) for merged or pack-only rules.
+ */
+export function formatGradeBandRules(rules: GradeBandRule): string {
   const lines: string[] = [];
 
-  lines.push(`Grade-band focus: ${rules.summary}`);
+  if (rules.summary) {
+    lines.push(`Grade-band focus: ${rules.summary}`);
+  }
   if (rules.developmentalMoves.length) {
     lines.push('Prioritize:');
     rules.developmentalMoves.forEach((item) => lines.push(`- ${item}`));
@@ -251,3 +414,29 @@ export function buildGradeBandPrompt(band: GradeBandKey): string {
 
   return lines.join('\n');
 }
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Swap teacher terms for the band's student words (whole words, case-
+ * insensitive, keeping a leading capital). Meant for English student-facing
+ * text; localized copy is already written for the band.
+ */
+export function adaptStudentVocabulary(text: string, band: GradeBandKey): string {
+  const vocabulary = gradeBandRules[band].studentVocabulary;
+  const terms = Object.keys(vocabulary);
+  if (!text || !terms.length) {
+    return text;
+  }
+
+  const pattern = new RegExp(`\\b(${terms.map(escapeRegExp).join('|')})\\b`, 'gi');
+  return text.replace(pattern, (match) => {
+    const replacement = vocabulary[match.toLowerCase()];
+    if (!replacement) {
+      return match;
+    }
+    return match[0] === match[0].toUpperCase() ? `${replacement[0].toUpperCase()}${replacement.slice(1)}` : replacement;
+  });
+}
@@ -0,0 +1,256 @@
+/**
+ * Gemini Provider
+ *
+ * Talks to Google Gemini through the Netlify proxies:
+ * - VITE_GEMINI_PROXY_URL  (buffered, default /.netlify/functions/gemini)
+ * - VITE_GEMINI_STREAM_URL (SSE, default /.netlify/functions/gemini-stream)
+ *
+ * The API key never reaches the client. JSON mode is passed through as
+ * generationConfig.responseMimeType, which the proxy forwards untouched.
+ *
+ * Requests carry the signed-in user's Firebase ID token so the proxy can apply
+ * per-user quotas. Quota headers and 429 Retry-After are fed into aiRateLimiter,
+ * which blocks further calls locally until the server window reopens.
+ * Follow-up requests (buffered fallback after a stream) are not counted again.
+ */
+
+import { AI_RATE_LIMIT_ACTION, aiRateLimiter, parseQuotaHeaders, parseRetryAfter } from '../../utils/rate-limiter';
+import { AIProviderError, type AIGenerateResult, type AIHistoryTurn, type AIProvider, type AIRequest } from './types';
+
+const DEFAULT_MODEL = 'gemini-flash-lite-latest';
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    finishReason?: string;
+  }>;
+  output_text?: unknown;
+  text?: unknown;
+}
+
+interface StreamEventData {
+  text?: unknown;
+  error?: string;
+}
+
+function resolveModel(request: AIRequest): string {
+  // Use plain import.meta.env so Jest's vite-meta-env transform can rewrite it
+  return request.model || import.meta.env?.VITE_GEMINI_MODEL || DEFAULT_MODEL;
+}
+
+function buildBody(request: AIRequest, model: string): string {
+  return JSON.stringify({
+    prompt: request.prompt,
+    model,
+    history: toGeminiHistory(request.history || []),
+    systemPrompt: request.systemPrompt,
+    generationConfig: {
+      temperature: typeof request.temperature === 'number' ? request.temperature : 0.6,
+      maxOutputTokens: typeof request.maxTokens === 'number' ? request.maxTokens : 600,
+      ...(request.json ? { responseMimeType: 'application/json' } : {})
+    }
+  });
+}
+
+function toGeminiHistory(history: AIHistoryTurn[]) {
+  if (!history?.length) {return [];}
+  return history.map(m => ({ role: m.role, parts: [{ text: m.content || '' }] }));
+}
+
+export function extractText(response: unknown): string {
+  const data = response as GeminiResponse | null | undefined;
+  try {
+    // Primary: concatenate all parts in first candidate
+    const parts = data?.candidates?.[0]?.content?.parts;
+    if (Array.isArray(parts) && parts.length) {
+      const joined = parts.map(p => p?.text || '').filter(Boolean).join('\n').trim();
+      if (joined) {return joined;}
+    }
+    // Alternative shapes sometimes returned
+    if (typeof data?.output_text === 'string' && data.output_text.trim()) {return data.output_text.trim();}
+    if (typeof data?.text === 'string' && data.text.trim()) {return data.text.trim();}
+  } catch {
+    // Unknown shape; treat as empty
+  }
+  return '';
+}
+
+/**
+ * Minimal server-sent events reader over a fetch body.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseBlock = (block: string) => {
+    let event = 'message';
+    const data: string[] = [];
+    block.split(/\r?\n/).forEach(line => {
+      if (line.startsWith('event:')) {event = line.slice(6).trim();}
+      else if (line.startsWith('data:')) {data.push(line.slice(5).trimStart());}
+    });
+    return data.length ? { event, data: data.join('\n') } : null;
+  };
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) {break;}
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() || '';
+      for (const block of blocks) {
+        const evt = parseBlock(block);
+        if (evt) {yield evt;}
+      }
+    }
+    const tail = parseBlock(buffer);
+    if (tail) {yield tail;}
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventData(data: string): StreamEventData | null {
+  try { return JSON.parse(data) as StreamEventData; } catch { return null; }
+}
+
+async function* streamDeltas(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  for await (const evt of readServerSentEvents(body)) {
+    if (evt.event === 'chunk') {
+      const delta = parseEventData(evt.data)?.text;
+      if (typeof delta === 'string' && delta) {
+        yield delta;
+      }
+    } else if (evt.event === 'error') {
+      throw new AIProviderError(parseEventData(evt.data)?.error || 'Stream error', 'STREAM_ERROR');
+    } else if (evt.event === 'done') {
+      return;
+    }
+  }
+}
+
+/**
+ * Authorization header for the signed-in user, or none for anonymous/offline use.
+ */
+export async function authHeaders(): Promise<Record<string, string>> {
+  try {
+    const { auth } = await import('../../firebase/firebase');
+    const token = await auth?.currentUser?.getIdToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  } catch {
+    // Firebase unavailable; the proxy treats the call as anonymous
+    return {};
+  }
+}
+
+function assertNotRateLimited(request: AIRequest): void {
+  if (request.followUp) {
+    // Already counted when the original request went out; only a server block applies
+    const { blockedUntil, reason } = aiRateLimiter.getSnapshot(AI_RATE_LIMIT_ACTION);
+    if (blockedUntil) {
+      const seconds = Math.ceil((blockedUntil - Date.now()) / 1000);
+      throw new AIProviderError(`AI rate limited; retry in ${seconds}s`, reason || 'RATE_LIMITED', 429);
+    }
+    return;
+  }
+
+  const gate = aiRateLimiter.canPerformAction(AI_RATE_LIMIT_ACTION);
+  if (!gate.allowed) {
+    const seconds = Math.ceil((gate.waitTime || 0) / 1000);
+    const reason = aiRateLimiter.getSnapshot(AI_RATE_LIMIT_ACTION).reason;
+    throw new AIProviderError(`AI rate limited; retry in ${seconds}s`, reason || 'RATE_LIMITED', 429);
+  }
+}
+
+/**
+ * Record quota headers from any proxy response; for a 429, block until Retry-After.
+ */
+async function trackQuota(res: Response): Promise<void> {
+  aiRateLimiter.updateQuota(parseQuotaHeaders(res.headers), AI_RATE_LIMIT_ACTION);
+  if (res.status !== 429) {return;}
+
+  let body: { error?: string; code?: string; retryAfter?: number } = {};
+  try {
+    body = await res.json();
+  } catch {
+    // Plain-text 429; Retry-After header alone decides
+  }
+  const waitMs = parseRetryAfter(res.headers?.get('Retry-After'))
+    ?? (typeof body.retryAfter === 'number' ? body.retryAfter * 1000 : 60000);
+  aiRateLimiter.recordRetryAfter(AI_RATE_LIMIT_ACTION, waitMs, body.code);
+  throw new AIProviderError(body.error || 'AI rate limit exceeded', body.code || 'RATE_LIMITED', 429);
+}
+
+export class GeminiProvider implements AIProvider {
+  readonly name = 'gemini' as const;
+
+  async generate(request: AIRequest): Promise<AIGenerateResult> {
+    const url = import.meta.env?.VITE_GEMINI_PROXY_URL || '/.netlify/functions/gemini';
+    const model = resolveModel(request);
+    assertNotRateLimited(request);
+
+    const res = await fetch(String(url), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: buildBody(request, model),
+      signal: request.signal
+    });
+    await trackQuota(res);
+
+    if (!res.ok) {
+      // Log detailed error info before surfacing a typed error
+      console.error('[AI] HTTP error:', {
+        status: res.status,
+        statusText: res.statusText,
+        url: String(url)
+      });
+
+      // Try to get error details from response
+      try {
+        const errorData = await res.json();
+        console.error('[AI] Error response:', errorData);
+      } catch {
+        // Response not JSON, ignore
+      }
+      throw new AIProviderError(`AI HTTP ${res.status}`, `HTTP_${res.status}`, res.status);
+    }
+
+    const data = await res.json() as GeminiResponse;
+    return {
+      text: extractText(data),
+      model,
+      finishReason: data?.candidates?.[0]?.finishReason
+    };
+  }
+
+  async stream(request: AIRequest): Promise<AsyncIterable<string> | null> {
+    const url = import.meta.env?.VITE_GEMINI_STREAM_URL || '/.netlify/functions/gemini-stream';
+    const model = resolveModel(request);
+    assertNotRateLimited(request);
+
+    const res = await fetch(String(url), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream', ...(await authHeaders()) },
+      body: buildBody(request, model),
+      signal: request.signal
+    });
+    await trackQuota(res);
+
+    // Streaming proxy missing or refusing: let the caller use the buffered proxy
+    if (!res.ok || !res.body) {return null;}
+
+    return streamDeltas(res.body);
+  }
+
+  countTokens(text: string): number {
+    // The proxy does not expose :countTokens; ~4 characters per token is
+    // Google's published rule of thumb for English text.
+    return Math.ceil(String(text || '').length / 4);
+  }
+}
+
+export const geminiProvider = new GeminiProvider();
@@ -0,0 +1,51 @@
+/**
+ * AI Provider Selection
+ *
+ * Single entry point for picking the AI backend. Resolution order:
+ * 1. setAIProvider() override (tests, storybook-style harnesses)
+ * 2. featureFlags 'localAIProvider' (localStorage alfCoach_ff_localAIProvider
+ *    or VITE_FEATURE_LOCALAIPROVIDER)
+ * 3. VITE_AI_PROVIDER=gemini|local
+ * 4. gemini
+ *
+ * Callers record getAIProvider().name in telemetry metadata so events can be
+ * split by backend.
+ */
+
+import { featureFlags } from '../../utils/featureFlags';
+import { geminiProvider } from './gemini';
+import { localProvider } from './local';
+import type { AIProvider, AIProviderName } from './types';
+
+export type { AIProvider, AIProviderName, AIRequest, AIGenerateResult, AIHistoryTurn } from './types';
+export { AIProviderError } from './types';
+export { geminiProvider } from './gemini';
+export { localProvider } from './local';
+
+const PROVIDERS: Record<AIProviderName, AIProvider> = {
+  gemini: geminiProvider,
+  local: localProvider
+};
+
+let override: AIProvider | null = null;
+
+export function resolveAIProviderName(): AIProviderName {
+  if (override) {return override.name;}
+  if (featureFlags.isEnabled('localAIProvider')) {return 'local';}
+
+  const fromEnv = String(import.meta.env?.VITE_AI_PROVIDER || '').trim().toLowerCase();
+  if (fromEnv === 'local' || fromEnv === 'gemini') {return fromEnv;}
+
+  return 'gemini';
+}
+
+export function getAIProvider(): AIProvider {
+  return override ?? PROVIDERS[resolveAIProviderName()];
+}
+
+/**
+ * Force a provider (or provider name) until cleared with null.
+ */
+export function setAIProvider(provider: AIProvider | AIProviderName | null): void {
+  override = typeof provider === 'string' ? PROVIDERS[provider] : provider;
+}
@@ -0,0 +1,96 @@
+/**
+ * Local Provider
+ *
+ * Deterministic, network-free AI provider for development, demos and
+ * Jest/Playwright runs. Responses come from fixtures (see localFixtures.ts);
+ * streaming replays the same text word by word.
+ *
+ * Custom fixtures:
+ * - localProvider.useFixtures([...]) in tests (checked before defaults)
+ * - window.__ALF_AI_FIXTURES__ for browser runs (serialized form)
+ */
+
+import { DEFAULT_LOCAL_FIXTURES, fromSerializedFixture, type LocalFixture, type SerializedLocalFixture } from './localFixtures';
+import type { AIGenerateResult, AIProvider, AIRequest } from './types';
+
+const LOCAL_MODEL = 'local-fixture';
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('Aborted', 'AbortError');
+  }
+}
+
+function matchesLabel(expected: string | RegExp | undefined, label?: string): boolean {
+  if (expected === undefined) {return true;}
+  if (!label) {return false;}
+  return typeof expected === 'string' ? expected === label : expected.test(label);
+}
+
+export class LocalProvider implements AIProvider {
+  readonly name = 'local' as const;
+  private customFixtures: LocalFixture[] = [];
+
+  /** Register fixtures checked before the defaults (later calls win). */
+  useFixtures(fixtures: Array<LocalFixture | SerializedLocalFixture>): void {
+    const normalized = fixtures.map((fixture, index) => (
+      'respond' in fixture ? fixture : fromSerializedFixture(fixture, index)
+    ));
+    this.customFixtures = [...normalized, ...this.customFixtures];
+  }
+
+  resetFixtures(): void {
+    this.customFixtures = [];
+  }
+
+  /** Fixture that will answer this request. */
+  resolveFixture(request: AIRequest): LocalFixture {
+    const haystack = `${request.systemPrompt || ''}\n${request.prompt}`.trim();
+    const wantsJson = Boolean(request.json);
+
+    const found = this.allFixtures().find(fixture => {
+      if (fixture.json !== undefined && fixture.json !== wantsJson) {return false;}
+      if (!matchesLabel(fixture.label, request.label)) {return false;}
+      if (fixture.match && !fixture.match.test(haystack) && !fixture.match.test(request.prompt.trim())) {return false;}
+      return true;
+    });
+
+    // text-default has no conditions, so find() always succeeds
+    return found ?? DEFAULT_LOCAL_FIXTURES[DEFAULT_LOCAL_FIXTURES.length - 1];
+  }
+
+  async generate(request: AIRequest): Promise<AIGenerateResult> {
+    throwIfAborted(request.signal);
+    const fixture = this.resolveFixture(request);
+    const text = typeof fixture.respond === 'function' ? fixture.respond(request) : fixture.respond;
+    return { text, model: LOCAL_MODEL, finishReason: 'STOP' };
+  }
+
+  async stream(request: AIRequest): Promise<AsyncIterable<string> | null> {
+    const { text } = await this.generate(request);
+    const words = text.match(/\S+\s*/g) || [];
+    const signal = request.signal;
+
+    return (async function* replay() {
+      for (const word of words) {
+        throwIfAborted(signal);
+        // Yield to the event loop so UIs render incrementally like the real stream
+        await Promise.resolve();
+        yield word;
+      }
+    })();
+  }
+
+  countTokens(text: string): number {
+    // Words and punctuation marks: stable across runs and platforms
+    return (String(text || '').match(/\w+|[^\s\w]/g) || []).length;
+  }
+
+  private allFixtures(): LocalFixture[] {
+    const injected = typeof window !== 'undefined' ? window.__ALF_AI_FIXTURES__ : undefined;
+    const browserFixtures = Array.isArray(injected) ? injected.map(fromSerializedFixture) : [];
+    return [...this.customFixtures, ...browserFixtures, ...DEFAULT_LOCAL_FIXTURES];
+  }
+}
+
+export const localProvider = new LocalProvider();
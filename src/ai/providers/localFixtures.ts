@@ -0,0 +1,155 @@
+/**
+ * Local Provider Fixtures
+ *
+ * Canned responses for the offline provider, matched in order:
+ * 1. request.label (e.g. 'journey_generation')
+ * 2. a pattern over systemPrompt + prompt
+ * 3. the JSON / text defaults at the bottom
+ *
+ * Responses are pure functions of the request, so the same prompt always
+ * produces the same text. Shapes mirror what the real callers parse.
+ */
+
+import type { AIRequest } from './types';
+
+export interface LocalFixture {
+  id: string;
+  label?: string | RegExp;
+  match?: RegExp;
+  json?: boolean;  // Only used for JSON-mode requests when true, text-mode when false
+  respond: string | ((request: AIRequest) => string);
+}
+
+/**
+ * Serializable fixture form, for tests and Playwright `addInitScript`:
+ *   window.__ALF_AI_FIXTURES__ = [{ label: 'rubric', text: '...' }]
+ */
+export interface SerializedLocalFixture {
+  id?: string;
+  label?: string;
+  match?: string;  // RegExp source, matched case-insensitively
+  json?: boolean;
+  text: string;
+}
+
+declare global {
+  interface Window {
+    __ALF_AI_FIXTURES__?: SerializedLocalFixture[];
+  }
+}
+
+function extractCount(prompt: string, pattern: RegExp, fallback: number): number {
+  const found = prompt.match(pattern);
+  const value = found ? parseInt(found[1], 10) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const PHASE_NAMES = [
+  'Launch and Wonder',
+  'Investigate the Problem',
+  'Design and Prototype',
+  'Test and Refine',
+  'Share with the Community',
+  'Reflect and Extend'
+];
+
+export const DEFAULT_LOCAL_FIXTURES: LocalFixture[] = [
+  {
+    id: 'health-ping',
+    match: /^ping$/i,
+    respond: 'pong'
+  },
+  {
+    id: 'journey-phases',
+    label: 'journey_generation',
+    respond: ({ prompt }) => {
+      const count = extractCount(prompt, /Generate an? (\d+)-phase/i, 4);
+      return JSON.stringify(Array.from({ length: count }, (_, i) => ({
+        name: PHASE_NAMES[i % PHASE_NAMES.length],
+        duration: `Week ${i + 1}`,
+        summary: `Students use phase ${i + 1} to move closer to answering the essential question.`,
+        activities: [
+          `Phase ${i + 1} warm-up discussion`,
+          `Small-group investigation for phase ${i + 1}`,
+          `Exit ticket reflecting on phase ${i + 1}`
+        ]
+      })));
+    }
+  },
+  {
+    id: 'deliverables',
+    label: 'deliverables_generation',
+    respond: ({ prompt }) => {
+      const phases = (prompt.match(/^\d+\.\s/gm) || []).length || 3;
+      return JSON.stringify({
+        milestones: Array.from({ length: phases }, (_, i) => `Milestone ${i + 1}: share phase ${i + 1} evidence`),
+        artifacts: ['Public presentation for the challenge audience', 'Process portfolio'],
+        criteria: [
+          'Explains the big idea with evidence',
+          'Uses data to support claims',
+          'Communicates clearly to the audience',
+          'Reflects on feedback and revisions'
+        ]
+      });
+    }
+  },
+  {
+    id: 'rubric',
+    label: 'rubric',
+    respond: JSON.stringify({
+      criteria: [
+        {
+          name: 'Understanding',
+          levels: {
+            exemplary: 'Explains the concept accurately and connects it to new situations',
+            proficient: 'Explains the concept accurately',
+            developing: 'Explains parts of the concept',
+            beginning: 'Names the concept with support'
+          }
+        }
+      ]
+    })
+  },
+  {
+    id: 'idea-starters',
+    match: /generating quick idea starters/i,
+    json: false,
+    respond: [
+      'Connect the project to a local community issue',
+      'Invite an expert to review student prototypes',
+      'Plan a public showcase for families'
+    ].join('\n')
+  },
+  {
+    id: 'json-default',
+    json: true,
+    respond: JSON.stringify({
+      interactionType: 'Standard',
+      currentStage: 'Ideation',
+      chatResponse: 'Working offline with the local AI provider. Share your next idea and I will help shape it.',
+      buttons: [],
+      isStageComplete: false,
+      summary: null,
+      suggestions: null,
+      frameworkOverview: null,
+      guestSpeakerHints: null
+    })
+  },
+  {
+    id: 'text-default',
+    respond: ({ prompt }) => {
+      const topic = prompt.replace(/\s+/g, ' ').trim().slice(0, 60);
+      return `Working offline with the local AI provider. For "${topic}", try naming one concrete next step students can take this week.`;
+    }
+  }
+];
+
+export function fromSerializedFixture(fixture: SerializedLocalFixture, index: number): LocalFixture {
+  return {
+    id: fixture.id || `custom-${index + 1}`,
+    label: fixture.label,
+    match: fixture.match ? new RegExp(fixture.match, 'i') : undefined,
+    json: fixture.json,
+    respond: fixture.text
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * AI Provider Types
+ *
+ * Contract shared by every AI backend (Gemini proxy, local fixtures).
+ * Callers build one AIRequest and never touch transport details.
+ *
+ * Capabilities:
+ * - generate: buffered completion (optionally JSON mode)
+ * - stream: incremental text deltas, or null when streaming is unavailable
+ * - countTokens: estimate used for budgeting and telemetry
+ */
+
+export type AIProviderName = 'gemini' | 'local';
+
+export interface AIHistoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AIRequest {
+  prompt: string;
+  model?: string;
+  history?: AIHistoryTurn[];
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;     // Ask for a JSON-only response (application/json)
+  label?: string;     // Caller tag, also used to pick local fixtures
+  signal?: AbortSignal;
+  followUp?: boolean; // Fallback/continuation of a request that already counted against rate limits
+}
+
+export interface AIGenerateResult {
+  text: string;       // Raw model text (callers sanitize)
+  model: string;
+  finishReason?: string;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+
+  /** Buffered completion. Throws AIProviderError on transport failures. */
+  generate(request: AIRequest): Promise<AIGenerateResult>;
+
+  /**
+   * Streaming completion as text deltas.
+   * Resolves to null when the provider cannot stream right now, so callers
+   * can fall back to generate().
+   */
+  stream(request: AIRequest): Promise<AsyncIterable<string> | null>;
+
+  /** Token estimate for a piece of text. */
+  countTokens(text: string): number;
+}
+
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
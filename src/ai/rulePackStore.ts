@@ -0,0 +1,106 @@
+/**
+ * rulePackStore.ts - Shared storage for school rule packs
+ *
+ * Layout (Firestore, see firestore.rules):
+ * - rulePacks/{id} → RulePack; every signed-in teacher reads, only admins
+ *   (custom claim `admin: true`, set with the Admin SDK) write
+ *
+ * Adapters:
+ * - FirestoreRulePackStore: one set of packs for the whole deployment
+ * - MemoryRulePackStore:    tests
+ *
+ * Without Firebase (offline mode) there is no store and packs stay on the
+ * device that installed them (see rulePacks.ts).
+ */
+
+import type { Firestore } from 'firebase/firestore';
+import type { RulePack } from './rulePacks';
+
+export interface RulePackStore {
+  readonly name: 'firestore' | 'memory';
+  // Raw documents; rulePacks.ts validates them
+  list(): Promise<unknown[]>;
+  put(pack: RulePack): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Whether the current user may install or remove packs
+  canWrite(): Promise<boolean>;
+}
+
+// Firestore rejects undefined fields
+const clean = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export class MemoryRulePackStore implements RulePackStore {
+  readonly name = 'memory' as const;
+  private readonly packs = new Map<string, RulePack>();
+
+  constructor(private readonly writable = true) {}
+
+  async list(): Promise<unknown[]> {
+    return Array.from(this.packs.values()).map(clean);
+  }
+
+  async put(pack: RulePack): Promise<void> {
+    this.packs.set(pack.id, clean(pack));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.packs.delete(id);
+  }
+
+  async canWrite(): Promise<boolean> {
+    return this.writable;
+  }
+}
+
+export class FirestoreRulePackStore implements RulePackStore {
+  readonly name = 'firestore' as const;
+
+  async list(): Promise<unknown[]> {
+    const { db, firestore } = await loadFirestore();
+    const snapshot = await firestore.getDocs(firestore.collection(db, 'rulePacks'));
+    return snapshot.docs.map(docSnap => docSnap.data());
+  }
+
+  async put(pack: RulePack): Promise<void> {
+    const { db, firestore } = await loadFirestore();
+    await firestore.setDoc(firestore.doc(db, 'rulePacks', pack.id), clean(pack));
+  }
+
+  async delete(id: string): Promise<void> {
+    const { db, firestore } = await loadFirestore();
+    await firestore.deleteDoc(firestore.doc(db, 'rulePacks', id));
+  }
+
+  async canWrite(): Promise<boolean> {
+    const { auth } = await import('../firebase/firebase');
+    const user = auth?.currentUser;
+    if (!user || user.isAnonymous) {return false;}
+    try {
+      const { claims } = await user.getIdTokenResult();
+      return claims.admin === true;
+    } catch (error) {
+      console.warn('[rulePackStore] Could not read admin claim:', error);
+      return false;
+    }
+  }
+}
+
+async function loadFirestore() {
+  const [firestore, { db }] = await Promise.all([
+    import('firebase/firestore'),
+    import('../firebase/firebase')
+  ]);
+  if (!db || db.type !== 'firestore') {
+    throw new Error('Firestore is not available');
+  }
+  // ExtendedFirestore widens `type` with 'offline', which the SDK signatures reject
+  return { firestore, db: db as unknown as Firestore };
+}
+
+/**
+ * Firestore when Firebase is configured, otherwise null (device-only packs)
+ */
+export async function createDefaultRulePackStore(): Promise<RulePackStore | null> {
+  const { db, isOfflineMode } = await import('../firebase/firebase');
+  return !isOfflineMode && db?.type === 'firestore' ? new FirestoreRulePackStore() : null;
+}
@@ -0,0 +1,295 @@
+/**
+ * School-authored grade band rule packs
+ *
+ * A rule pack is a versioned JSON document (schemaVersion 1) that adds local
+ * policy to the built-in gradeBandRules: a district safety policy for every
+ * band (`allBands`) and per-band additions (`bands`). Packs are validated
+ * with zRulePack, installed by admins (RulePackAdminPage) into the shared
+ * RulePackStore and selected per project (wizardData.rulePackId → WizardContext).
+ *
+ * localStorage keeps a copy of the shared packs so prompts can be built
+ * synchronously and offline; syncRulePacks() refreshes it. Without Firebase
+ * the copy is the only storage and packs stay on this device.
+ *
+ * Merge order per band: defaults → allBands → bands[band]. Lists append
+ * (duplicates dropped) unless the field is named in `replace`; summary
+ * replaces; studentVocabulary merges by term.
+ *
+ * Prompt builders call buildGradeBandGuidance(wizard), which names the pack in
+ * the prompt so the model (and the preview) can tell local policy apart.
+ */
+
+import { z } from 'zod';
+import {
+  GRADE_BAND_KEYS,
+  formatGradeBandRules,
+  gradeBandRules,
+  resolveGradeBand,
+  type GradeBandKey,
+  type GradeBandRule
+} from './gradeBandRules';
+import type { RulePackStore } from './rulePackStore';
+
+export const RULE_PACK_SCHEMA_VERSION = 1;
+const STORAGE_KEY = 'alfCoach_rulePacks';
+
+export const RULE_LIST_FIELDS = [
+  'developmentalMoves',
+  'scopeAndDeliverables',
+  'safetyFeasibility',
+  'partnershipTech',
+  'assessmentFeedback',
+  'avoid',
+  'escalateIf'
+] as const;
+
+export type RuleListField = typeof RULE_LIST_FIELDS[number];
+
+const zRuleList = z.array(z.string().trim().min(1).max(400)).max(20);
+
+const zRuleOverride = z.object({
+  summary: z.string().trim().min(1).max(400).optional(),
+  developmentalMoves: zRuleList.optional(),
+  scopeAndDeliverables: zRuleList.optional(),
+  safetyFeasibility: zRuleList.optional(),
+  partnershipTech: zRuleList.optional(),
+  assessmentFeedback: zRuleList.optional(),
+  avoid: zRuleList.optional(),
+  escalateIf: zRuleList.optional(),
+  studentVocabulary: z.record(z.string().trim().toLowerCase().min(1), z.string().trim().min(1)).optional(),
+  replace: z.array(z.enum(RULE_LIST_FIELDS)).optional()
+}).strict();
+
+export const zRulePack = z.object({
+  schemaVersion: z.literal(RULE_PACK_SCHEMA_VERSION, { error: `schemaVersion must be ${RULE_PACK_SCHEMA_VERSION}` }),
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]{1,63}$/, 'id must be lowercase letters, digits and dashes'),
+  name: z.string().trim().min(1).max(80),
+  version: z.string().regex(/^\d+\.\d+(\.\d+)?$/, 'version must look like 1.0 or 1.0.0'),
+  description: z.string().trim().max(500).optional(),
+  author: z.string().trim().max(120).optional(),
+  allBands: zRuleOverride.optional(),
+  bands: z.partialRecord(z.enum(GRADE_BAND_KEYS), zRuleOverride).default({})
+}).strict();
+
+export type RulePack = z.infer<typeof zRulePack>;
+export type RuleOverride = z.infer<typeof zRuleOverride>;
+
+export class RulePackError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'RulePackError';
+  }
+}
+
+/**
+ * Validate a pack from an uploaded file (string) or parsed JSON.
+ */
+export function parseRulePack(input: unknown): RulePack {
+  let json = input;
+  if (typeof input === 'string') {
+    try {
+      json = JSON.parse(input);
+    } catch (error) {
+      throw new RulePackError(`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  const parsed = zRulePack.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.length ? issue.path.join('.') : 'pack'}: ${issue.message}`);
+    throw new RulePackError(`Rule pack is invalid (${issues.length} issue${issues.length === 1 ? '' : 's'})`, issues);
+  }
+  return parsed.data;
+}
+
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff) {return Math.sign(diff);}
+  }
+  return 0;
+}
+
+// ---------- Installed packs ----------
+
+function validPacks(items: unknown[]): RulePack[] {
+  return items.flatMap(item => {
+    const parsed = zRulePack.safeParse(item);
+    if (!parsed.success) {
+      console.warn('[rulePacks] Skipping an invalid stored rule pack');
+    }
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+function readStored(): RulePack[] {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    const stored: unknown = raw ? JSON.parse(raw) : [];
+    return validPacks(Array.isArray(stored) ? stored : []);
+  } catch (error) {
+    console.warn('[rulePacks] Could not read installed rule packs:', error);
+    return [];
+  }
+}
+
+function writeStored(packs: RulePack[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(packs));
+}
+
+// undefined = not resolved yet; null = no shared store (device-only packs)
+let sharedStore: RulePackStore | null | undefined;
+
+async function getStore(): Promise<RulePackStore | null> {
+  if (sharedStore === undefined) {
+    const { createDefaultRulePackStore } = await import('./rulePackStore');
+    sharedStore = await createDefaultRulePackStore();
+  }
+  return sharedStore;
+}
+
+/**
+ * Swap the shared store (tests); null keeps packs on this device only.
+ */
+export function setRulePackStore(store: RulePackStore | null | undefined): void {
+  sharedStore = store;
+}
+
+/**
+ * Packs on this device, as of the last sync.
+ */
+export function listRulePacks(): RulePack[] {
+  return readStored();
+}
+
+export function getRulePack(id?: string | null): RulePack | null {
+  if (!id) {return null;}
+  return readStored().find(pack => pack.id === id) ?? null;
+}
+
+/**
+ * Refresh the local copy from the shared store and return the packs.
+ */
+export async function syncRulePacks(): Promise<RulePack[]> {
+  const store = await getStore();
+  if (!store) {return readStored();}
+  const packs = validPacks(await store.list());
+  writeStored(packs);
+  return packs;
+}
+
+/**
+ * Whether the current user may install or remove packs (admins only when
+ * packs are shared).
+ */
+export async function canManageRulePacks(): Promise<boolean> {
+  const store = await getStore();
+  return store ? store.canWrite() : true;
+}
+
+/**
+ * Validate and install a pack for every teacher. Re-uploading an id replaces
+ * it with the same or a newer version; older versions are rejected.
+ */
+export async function installRulePack(input: unknown): Promise<{ pack: RulePack; replaced: RulePack | null }> {
+  const pack = parseRulePack(input);
+  const store = await getStore();
+  const packs = await syncRulePacks();
+  const replaced = packs.find(item => item.id === pack.id) ?? null;
+  if (replaced && compareVersions(pack.version, replaced.version) < 0) {
+    throw new RulePackError(`Version ${pack.version} is older than the installed ${replaced.name} ${replaced.version}`);
+  }
+  await store?.put(pack);
+  writeStored([...packs.filter(item => item.id !== pack.id), pack]);
+  return { pack, replaced };
+}
+
+export async function removeRulePack(id: string): Promise<void> {
+  await (await getStore())?.delete(id);
+  writeStored(readStored().filter(pack => pack.id !== id));
+}
+
+// ---------- Merging ----------
+
+const EMPTY_RULE: GradeBandRule = {
+  summary: '',
+  developmentalMoves: [],
+  scopeAndDeliverables: [],
+  safetyFeasibility: [],
+  partnershipTech: [],
+  assessmentFeedback: [],
+  avoid: [],
+  escalateIf: [],
+  studentVocabulary: {}
+};
+
+export function mergeGradeBandRule(base: GradeBandRule, override?: RuleOverride): GradeBandRule {
+  if (!override) {return base;}
+  const merged: GradeBandRule = {
+    ...base,
+    summary: override.summary ?? base.summary,
+    studentVocabulary: { ...base.studentVocabulary, ...override.studentVocabulary }
+  };
+  RULE_LIST_FIELDS.forEach(field => {
+    const additions = override[field];
+    if (!additions) {return;}
+    merged[field] = override.replace?.includes(field)
+      ? additions
+      : Array.from(new Set([...base[field], ...additions]));
+  });
+  return merged;
+}
+
+/**
+ * Rules for a band with a pack (or pack id) applied; the defaults without one.
+ */
+export function getGradeBandRules(band: GradeBandKey, pack?: RulePack | string | null): GradeBandRule {
+  const resolved = typeof pack === 'string' ? getRulePack(pack) : pack;
+  const base = gradeBandRules[band];
+  if (!resolved) {return base;}
+  return mergeGradeBandRule(mergeGradeBandRule(base, resolved.allBands), resolved.bands[band]);
+}
+
+function packHeader(pack: RulePack): string {
+  return `School rule pack: ${pack.name} (v${pack.version}). These lines include local policy; follow it over general advice when they conflict.`;
+}
+
+/**
+ * Grade band guidance for prompts. Without a resolvable band only the
+ * pack's allBands policy applies; null when there is nothing to add.
+ */
+export function buildGradeBandGuidance(context: { gradeLevel?: string | null; rulePackId?: string | null }): string | null {
+  const band = resolveGradeBand(context.gradeLevel);
+  const pack = getRulePack(context.rulePackId);
+  if (!band) {
+    return pack?.allBands ? `${packHeader(pack)}\n${formatGradeBandRules(mergeGradeBandRule(EMPTY_RULE, pack.allBands))}` : null;
+  }
+  const prompt = formatGradeBandRules(getGradeBandRules(band, pack));
+  return pack ? `${packHeader(pack)}\n${prompt}` : prompt;
+}
+
+/**
+ * Starting point for admins (downloadable from the rule pack page).
+ */
+export const EXAMPLE_RULE_PACK: RulePack = {
+  schemaVersion: RULE_PACK_SCHEMA_VERSION,
+  id: 'district-policy',
+  name: 'District policy',
+  version: '1.0.0',
+  description: 'Local safety and field trip rules added to every project.',
+  allBands: {
+    safetyFeasibility: [
+      'Field trips need signed permission slips and a 1:10 adult ratio (1:5 near water or roads).'
+    ],
+    avoid: ['Do not have students under 13 create accounts on any platform; use teacher-managed accounts.']
+  },
+  bands: {
+    'K-2': {
+      safetyFeasibility: ['Field trips stay within walking distance of school.']
+    },
+    '9-12': {
+      partnershipTech: ['Work-based learning placements go through the district CTE office.']
+    }
+  }
+};
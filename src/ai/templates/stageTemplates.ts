@@ -1,10 +1,13 @@
-// Templates guiding AI suggestions by K-12 band and primary subject cluster.
+// Templates guiding AI suggestions by grade band and primary subject cluster.
+
+import { resolveGradeBand, type GradeBandKey } from '../gradeBandRules';
 
-export type K12Band = 'K-2' | '3-5' | '6-8' | '9-12';
 export type SubjectCluster = 'science' | 'technology' | 'engineering' | 'mathematics' | 'social-studies' | 'language-arts' | 'arts' | 'music' | 'health' | 'interdisciplinary' | 'other';
 
-function normalizeBand(label?: string): K12Band | null {
+function normalizeBand(label?: string): GradeBandKey | null {
   if (!label) {return null;}
+  const resolved = resolveGradeBand(label);
+  if (resolved === 'Pre-K' || resolved === 'Post-Secondary') {return resolved;}
   const s = label.toLowerCase();
   if (s.includes('k-2') || s.includes('early')) {return 'K-2';}
   if (s.includes('3-5') || s.includes('primary')) {return '3-5';}
@@ -60,7 +63,14 @@ export function getTemplateHints(context: any): {
     exhibition: ['Class gallery', 'Community poster session', 'Digital showcase']
   };
 
-  const byBand: Record<K12Band, Partial<typeof base>> = {
+  const byBand: Record<GradeBandKey, Partial<typeof base>> = {
+    'Pre-K': {
+      phases: ['Wonder', 'Play', 'Share'],
+      activities: ['Sensory exploration', 'Center play', 'Dictated story'],
+      milestones: ['Question chosen together', 'Making time done', 'Family share ready'],
+      rubricCriteria: ['Curiosity', 'Taking turns', 'Telling about it'],
+      exhibition: ['Documentation wall', 'Family open house']
+    },
     'K-2': {
       phases: ['Wonder', 'Explore', 'Make', 'Share'],
       activities: ['Observation journal', 'Hands-on making', 'Storytelling circle'],
@@ -88,6 +98,13 @@ export function getTemplateHints(context: any): {
       milestones: ['Proposal approved', 'Build checkpoint', 'Exhibit ready'],
       rubricCriteria: ['Rigor', 'Innovation', 'Impact', 'Professionalism'],
       exhibition: ['Public pitch', 'Policy brief', 'Website + social campaign']
+    },
+    'Post-Secondary': {
+      phases: ['Client Brief', 'Research', 'Build', 'Review', 'Deliver'],
+      activities: ['Client intake', 'Industry-standard build', 'Employer critique'],
+      milestones: ['Scope signed off', 'Build passes review', 'Client handoff'],
+      rubricCriteria: ['Technical accuracy', 'Industry standards', 'Professional communication', 'Client impact'],
+      exhibition: ['Client presentation', 'Advisory board review', 'Portfolio entry']
     }
   };
 
@@ -0,0 +1,167 @@
+/**
+ * Conflict Merge Dialog
+ *
+ * Side-by-side view of fields that were changed on two devices.
+ * Non-overlapping edits are merged automatically by ConflictResolver;
+ * this dialog only lists the true field conflicts and lets the teacher
+ * pick "This device" or "Other device" per field.
+ *
+ * Mount once near the app root; it registers itself as the merge UI:
+ * ```tsx
+ * <ConflictMergeHost />
+ * ```
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, Cloud, Laptop } from 'lucide-react';
+import {
+  conflictResolver,
+  type MergePromptRequest,
+  type MergePromptResponse
+} from '../services/ConflictResolver';
+import { formatConflictValue, type MergeChoices, type MergeSide } from '../services/ShowcaseMerge';
+
+interface ConflictMergeDialogProps {
+  request: MergePromptRequest;
+  onResolve: (response: MergePromptResponse) => void;
+}
+
+export function ConflictMergeDialog({ request, onResolve }: ConflictMergeDialogProps) {
+  const [choices, setChoices] = useState<MergeChoices>(() =>
+    Object.fromEntries(request.conflicts.map(conflict => [conflict.path, 'local' as MergeSide]))
+  );
+
+  useEffect(() => {
+    const handleEsc = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onResolve({ action: 'cancel' });
+      }
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onResolve]);
+
+  const choose = (path: string, side: MergeSide) => {
+    setChoices(prev => ({ ...prev, [path]: side }));
+  };
+
+  const cloudDate = request.cloudUpdatedAt
+    ? new Date(request.cloudUpdatedAt).toLocaleString()
+    : 'recently';
+
+  const sideButton = (path: string, side: MergeSide, value: unknown) => {
+    const selected = choices[path] === side;
+    const Icon = side === 'local' ? Laptop : Cloud;
+    return (
+      <button
+        type="button"
+        onClick={() => choose(path, side)}
+        aria-pressed={selected}
+        className={`flex-1 min-w-0 text-left rounded-lg border p-3 transition-colors ${
+          selected
+            ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+            : 'border-gray-200 dark:border-gray-700 hover:border-gray-300'
+        }`}
+      >
+        <span className="flex items-center gap-1.5 text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">
+          <Icon className="w-3.5 h-3.5" />
+          {side === 'local' ? 'This device' : 'Other device'}
+        </span>
+        <pre className="whitespace-pre-wrap break-words font-sans text-sm text-slate-800 dark:text-slate-100">
+          {formatConflictValue(value)}
+        </pre>
+      </button>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="conflict-merge-title"
+    >
+      <div className="relative w-full max-w-3xl max-h-[85vh] flex flex-col m-4 bg-white/95 dark:bg-gray-800/95 border border-gray-200/60 dark:border-gray-700/60 rounded-2xl shadow-sm">
+        <div className="flex items-start gap-3 p-5 border-b border-gray-200/60 dark:border-gray-700/60">
+          <AlertTriangle className="w-6 h-6 text-amber-500 flex-shrink-0" />
+          <div>
+            <h3 id="conflict-merge-title" className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+              This project was also edited on another device
+            </h3>
+            <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+              {request.autoResolved > 0 && `${request.autoResolved} change(s) were combined automatically. `}
+              {request.conflicts.length} field(s) were changed on both devices ({cloudDate}). Choose which version to keep.
+            </p>
+          </div>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-5 space-y-4">
+          {request.conflicts.map(conflict => (
+            <li key={conflict.path}>
+              <p className="text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">{conflict.label}</p>
+              <div className="flex flex-col sm:flex-row gap-2">
+                {sideButton(conflict.path, 'local', conflict.local)}
+                {sideButton(conflict.path, 'cloud', conflict.cloud)}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex flex-wrap justify-end gap-2 p-4 border-t border-gray-200/60 dark:border-gray-700/60">
+          <button
+            type="button"
+            onClick={() => onResolve({ action: 'cancel' })}
+            className="px-4 py-2 text-sm rounded-md text-slate-600 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Decide later
+          </button>
+          <button
+            type="button"
+            onClick={() => onResolve({ action: 'use_cloud' })}
+            className="px-4 py-2 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-slate-700 dark:text-slate-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Use other device's version
+          </button>
+          <button
+            type="button"
+            onClick={() => onResolve({ action: 'merge', choices })}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+          >
+            Merge with my choices
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Registers ConflictMergeDialog as the merge UI for ConflictResolver
+ */
+export function ConflictMergeHost() {
+  const [pending, setPending] = useState<{
+    request: MergePromptRequest;
+    resolve: (response: MergePromptResponse) => void;
+  } | null>(null);
+
+  useEffect(() => {
+    return conflictResolver.setMergePrompt(request =>
+      new Promise<MergePromptResponse>(resolve => {
+        setPending({ request, resolve });
+      })
+    );
+  }, []);
+
+  const handleResolve = useCallback((response: MergePromptResponse) => {
+    pending?.resolve(response);
+    setPending(null);
+  }, [pending]);
+
+  if (!pending) {
+    return null;
+  }
+
+  return <ConflictMergeDialog request={pending.request} onResolve={handleResolve} />;
+}
+
+export default ConflictMergeHost;
@@ -361,6 +361,22 @@ export default function Dashboard() {
                 <span>Browse Showcase</span>
               </button>
 
+              <button
+                onClick={() => navigate('/app/import')}
+                className="squircle-button flex items-center gap-2 px-4 py-2
+                           bg-white/80 dark:bg-slate-800/80
+                           hover:bg-white dark:hover:bg-slate-800
+                           backdrop-blur-md
+                           border border-slate-200/60 dark:border-slate-700/60
+                           text-slate-700 dark:text-slate-300 font-medium text-sm
+                           shadow-sm hover:shadow-md
+                           active:scale-[0.98]
+                           transition-all duration-200"
+              >
+                <Icon name="upload" size="sm" />
+                <span>Import unit plan</span>
+              </button>
+
               {/* Delete All moved to overflow menu concept (keeping for now but de-emphasized) */}
               {drafts.length > 0 && (
                 <button
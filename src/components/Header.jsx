@@ -4,6 +4,8 @@ import React, { Suspense, useEffect, useMemo, useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth.js';
 import AlfLogo from './ui/AlfLogo';
+import { LanguageSwitcher } from './LanguageSwitcher';
+import { useTranslation } from '../i18n/useTranslation';
 
 // Design System imports
 import {
@@ -23,6 +25,7 @@ export default function Header({ showSaveExit = false, projectId, currentStage,
   const navigate = useNavigate();
   const location = useLocation();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const { t } = useTranslation();
 
   // Determine page context for navigation
   const isPublicPage = ['/', '/how-it-works', '/signin', '/signup'].includes(location.pathname);
@@ -49,49 +52,66 @@ export default function Header({ showSaveExit = false, projectId, currentStage,
 
   const getUserDisplayName = () => {
     if (isAnonymous) {
-        return "Guest User";
+        return t('header.guestUser');
     }
     if (user?.email) {
         return user.email;
     }
-    return "User";
+    return t('header.user');
   }
 
   useEffect(() => {
     setMobileMenuOpen(false);
   }, [location.pathname]);
 
+  // Rule packs are shared by the whole school, so only admins get the link
+  const [canManageRulePacks, setCanManageRulePacks] = useState(false);
+  useEffect(() => {
+    if (!user || isAnonymous) {
+      setCanManageRulePacks(false);
+      return undefined;
+    }
+    let cancelled = false;
+    import('../ai/rulePacks')
+      .then(module => module.canManageRulePacks())
+      .then(allowed => { if (!cancelled) {setCanManageRulePacks(allowed);} })
+      .catch(() => { if (!cancelled) {setCanManageRulePacks(false);} });
+    return () => { cancelled = true; };
+  }, [user, isAnonymous]);
+
   const navigationLinks = useMemo(() => {
     const links = [];
 
     if (!user && isPublicPage) {
       links.push(
-        { label: 'How ALF Works', action: () => navigate('/how-it-works') },
-        { label: 'Project Showcase', action: () => navigate('/app/samples') }
+        { label: t('header.howAlfWorks'), action: () => navigate('/how-it-works') },
+        { label: t('header.projectShowcase'), action: () => navigate('/app/samples') }
       );
       return links;
     }
 
     if (user && isPublicPage) {
       links.push(
-        { label: 'Studio Dashboard', action: () => navigate('/app/dashboard') },
-        { label: 'How ALF Works', action: () => navigate('/how-it-works') },
-        { label: 'Project Showcase', action: () => navigate('/app/samples') }
+        { label: t('header.studioDashboard'), action: () => navigate('/app/dashboard') },
+        { label: t('header.howAlfWorks'), action: () => navigate('/how-it-works') },
+        { label: t('header.projectShowcase'), action: () => navigate('/app/samples') }
       );
       return links;
     }
 
     if (user && isAuthenticatedArea) {
       if (isSampleDetailPage) {
-        links.push({ label: 'Back to Gallery', action: () => navigate('/app/samples'), icon: 'chevron-left' });
+        links.push({ label: t('header.backToGallery'), action: () => navigate('/app/samples'), icon: 'chevron-left' });
       }
 
       if (!isDashboard) {
-        links.push({ label: 'Studio Dashboard', action: () => navigate('/app/dashboard') });
+        links.push({ label: t('header.studioDashboard'), action: () => navigate('/app/dashboard') });
       } else {
         links.push(
-          { label: 'How It Works', action: () => navigate('/how-it-works') },
-          { label: 'Project Showcase', action: () => navigate('/app/samples') }
+          { label: t('header.howItWorks'), action: () => navigate('/how-it-works') },
+          { label: t('header.projectShowcase'), action: () => navigate('/app/samples') },
+          { label: t('header.communityGallery'), action: () => navigate('/app/gallery') },
+          ...(canManageRulePacks ? [{ label: t('header.rulePacks'), action: () => navigate('/app/settings/rule-packs') }] : [])
         );
       }
 
@@ -99,7 +119,7 @@ export default function Header({ showSaveExit = false, projectId, currentStage,
     }
 
     return links;
-  }, [user, isPublicPage, isAuthenticatedArea, isDashboard, isSampleDetailPage, navigate]);
+  }, [user, isPublicPage, isAuthenticatedArea, isDashboard, isSampleDetailPage, canManageRulePacks, navigate, t]);
 
   const hasPrimaryAction = !user && isPublicPage;
   const userDisplayName = getUserDisplayName();
@@ -152,13 +172,15 @@ export default function Header({ showSaveExit = false, projectId, currentStage,
 
             {/* Desktop actions */}
             <div className="hidden md:flex items-center gap-3">
+              <LanguageSwitcher />
+
               {!user && hasPrimaryAction && (
                 <Button
                   onClick={() => navigate('/signin')}
                   variant="primary"
                   className="bg-primary-500 text-white hover:bg-primary-600 px-5 py-2.5 rounded-xl font-medium shadow-primary hover:shadow-soft transition-all duration-300 hover:-translate-y-0.5"
                 >
-                  Sign In
+                  {t('header.signIn')}
                 </Button>
               )}
 
@@ -189,7 +211,7 @@ export default function Header({ showSaveExit = false, projectId, currentStage,
                     leftIcon="external"
                     className="hover:scale-105 transition-all duration-200 hover:-translate-y-0.5"
                   >
-                    Sign Out
+                    {t('header.signOut')}
                   </Button>
                 </>
               )}
@@ -201,7 +223,7 @@ export default function Header({ showSaveExit = false, projectId, currentStage,
               onClick={() => setMobileMenuOpen(prev => !prev)}
               className="md:hidden inline-flex items-center justify-center rounded-full border border-gray-200/60 dark:border-gray-700/60 bg-white/70 dark:bg-gray-800/70 p-2 text-gray-600 dark:text-gray-200 shadow-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
               aria-expanded={mobileMenuOpen}
-              aria-label={mobileMenuOpen ? 'Close navigation menu' : 'Open navigation menu'}
+              aria-label={mobileMenuOpen ? t('header.closeMenu') : t('header.openMenu')}
             >
               <Icon name={mobileMenuOpen ? 'close' : 'menu'} size="sm" />
             </button>
@@ -251,6 +273,8 @@ export default function Header({ showSaveExit = false, projectId, currentStage,
                     </Suspense>
                   )}
 
+                  <LanguageSwitcher />
+
                   <div className="grid gap-2 pt-2">
                     {!user && hasPrimaryAction && (
                       <Button
@@ -258,7 +282,7 @@ export default function Header({ showSaveExit = false, projectId, currentStage,
                         variant="primary"
                         className="w-full"
                       >
-                        Sign In
+                        {t('header.signIn')}
                       </Button>
                     )}
 
@@ -269,7 +293,7 @@ export default function Header({ showSaveExit = false, projectId, currentStage,
                         className="w-full"
                         leftIcon="external"
                       >
-                        Sign Out
+                        {t('header.signOut')}
                       </Button>
                     )}
                   </div>
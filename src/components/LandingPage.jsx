@@ -26,9 +26,11 @@ export default function LandingPage({ onGetStarted, onSignIn }) {
   const shouldReduceMotion = useReducedMotion();
 
   const gradeBandLabels = {
+    PK: 'Pre-K',
     ES: 'Elementary School',
     MS: 'Middle School',
-    HS: 'High School'
+    HS: 'High School',
+    PS: 'Post-secondary / CTE'
   };
 
   // Use showcase V2 projects for landing page feature grid
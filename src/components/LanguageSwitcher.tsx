@@ -0,0 +1,36 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES, isLocale } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+/**
+ * UI language picker. Only changes teacher-facing text; the student
+ * language is a per-project setting.
+ */
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className = '' }) => {
+  const { t, locale, setLocale } = useTranslation();
+
+  return (
+    <label className={`inline-flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-300 ${className}`}>
+      <Languages className="w-4 h-4" aria-hidden="true" />
+      <span className="sr-only">{t('common.language')}</span>
+      <select
+        value={locale}
+        onChange={(event) => {
+          if (isLocale(event.target.value)) {setLocale(event.target.value);}
+        }}
+        className="bg-transparent border-none text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500 rounded"
+      >
+        {LOCALES.map(entry => (
+          <option key={entry.code} value={entry.code}>{entry.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
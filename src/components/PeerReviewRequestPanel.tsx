@@ -0,0 +1,149 @@
+/**
+ * PeerReviewRequestPanel.tsx - Ask a colleague to review a project and track requests
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Copy, Send } from 'lucide-react';
+import { expertReviewService, type PeerReviewRequest } from '../core/services/ExpertReviewService';
+import type { ProjectShowcaseV2 } from '../types/showcaseV2';
+
+interface PeerReviewRequestPanelProps {
+  projectId: string;
+  showcase: ProjectShowcaseV2;
+  projectTitle?: string;
+}
+
+const STATUS_STYLES: Record<PeerReviewRequest['status'], string> = {
+  requested: 'bg-gray-100 text-gray-700',
+  'in-review': 'bg-amber-100 text-amber-800',
+  completed: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-700'
+};
+
+const reviewLink = (request: PeerReviewRequest) =>
+  `${window.location.origin}/app/showcase/${encodeURIComponent(request.projectId)}?review=${encodeURIComponent(request.id)}`;
+
+export const PeerReviewRequestPanel: React.FC<PeerReviewRequestPanelProps> = ({
+  projectId,
+  showcase,
+  projectTitle
+}) => {
+  const [requests, setRequests] = useState<PeerReviewRequest[]>([]);
+  const [email, setEmail] = useState('');
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRequests(await expertReviewService.listRequestedReviews(projectId));
+    } catch (error) {
+      console.warn('[PeerReviewRequestPanel] Failed to load review requests:', error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const copyLink = async (request: PeerReviewRequest) => {
+    try {
+      await navigator.clipboard.writeText(reviewLink(request));
+      setStatus('Review link copied.');
+    } catch {
+      setStatus(reviewLink(request));
+    }
+  };
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setStatus(null);
+    try {
+      const request = await expertReviewService.requestPeerReview({
+        projectId,
+        showcase,
+        projectTitle,
+        reviewerEmail: email,
+        message
+      });
+      setEmail('');
+      setMessage('');
+      await refresh();
+      await copyLink(request);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Could not send the review request.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <form onSubmit={(event) => { void submit(event); }} className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Share a snapshot of this project with a coach or colleague. They can comment on any week,
+          assignment field or rubric criterion; you will see their comments on the shared link.
+        </p>
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          placeholder="Reviewer's email"
+          aria-label="Reviewer's email"
+          className="w-full rounded-xl border border-gray-200 px-4 py-2 text-sm"
+        />
+        <textarea
+          value={message}
+          onChange={(event) => setMessage(event.target.value)}
+          rows={2}
+          placeholder="What would you like feedback on? (optional)"
+          aria-label="Message to reviewer"
+          className="w-full rounded-xl border border-gray-200 px-4 py-2 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={busy || !email.trim()}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-50"
+        >
+          <Send className="w-4 h-4" />
+          Request review
+        </button>
+        {status && <p role="status" className="text-sm text-gray-600 break-all">{status}</p>}
+      </form>
+
+      {requests.length > 0 && (
+        <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+          {requests.slice().reverse().map(request => (
+            <li key={request.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-sm">
+              <div>
+                <div className="font-medium text-gray-900">{request.reviewerName || request.reviewerEmail}</div>
+                <div className="text-xs text-gray-500">Requested {new Date(request.createdAt).toLocaleDateString()}</div>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[request.status]}`}>
+                  {request.status.replace('-', ' ')}
+                </span>
+                <a
+                  href={`/app/showcase/${encodeURIComponent(request.projectId)}?review=${encodeURIComponent(request.id)}`}
+                  className="text-primary-700 hover:underline"
+                >
+                  Open comments
+                </a>
+                <button
+                  type="button"
+                  onClick={() => { void copyLink(request); }}
+                  aria-label="Copy review link"
+                  className="p-1 rounded-md text-gray-500 hover:bg-gray-100"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,320 @@
+/**
+ * ProjectCalendarPanel.tsx - Map runOfShow weeks and due dates onto the school calendar
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, CalendarDays, Download, Trash2, Upload } from 'lucide-react';
+import {
+  WEEKDAY_LABELS,
+  addDays,
+  buildProjectCalendar,
+  defaultLessonDays,
+  formatShortDate,
+  isIsoDate,
+  parseIcsDaysOff,
+  type CalendarSettings,
+  type DayOff,
+  type ProjectCalendar
+} from '../utils/schoolCalendar';
+import { unifiedStorage } from '../services/UnifiedStorageManager';
+import { exportToCalendar } from '../features/review/exportUtilsLazy';
+import type { ProjectShowcaseV2 } from '../types/showcaseV2';
+
+interface ProjectCalendarPanelProps {
+  projectId: string;
+  showcase: ProjectShowcaseV2;
+}
+
+const SAVE_DELAY_MS = 600;
+
+function nextMonday(): string {
+  const today = new Date().toISOString().slice(0, 10);
+  const day = new Date(`${today}T00:00:00Z`).getUTCDay();
+  return addDays(today, ((8 - day) % 7) || 7);
+}
+
+export const ProjectCalendarPanel: React.FC<ProjectCalendarPanelProps> = ({ projectId, showcase }) => {
+  const [settings, setSettings] = useState<CalendarSettings | null>(null);
+  const [draft, setDraft] = useState<DayOff>({ start: '', label: '' });
+  const [status, setStatus] = useState<string | null>(null);
+  const loaded = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loaded.current = false;
+    unifiedStorage.loadProject(projectId)
+      .then(project => {
+        if (cancelled) {return;}
+        setSettings(project?.calendar ?? {
+          startDate: nextMonday(),
+          lessonsPerWeek: showcase.schedule?.lessonsPerWeek ?? 5,
+          daysOff: []
+        });
+      })
+      .catch(error => {
+        console.warn('[ProjectCalendarPanel] Failed to load calendar settings:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, showcase.schedule?.lessonsPerWeek]);
+
+  // Persist edits after a short pause; the first settings value is what was just loaded
+  useEffect(() => {
+    if (!settings) {return undefined;}
+    if (!loaded.current) {
+      loaded.current = true;
+      return undefined;
+    }
+    const timer = setTimeout(() => {
+      unifiedStorage.saveProject({ id: projectId, calendar: settings }).catch(error => {
+        console.warn('[ProjectCalendarPanel] Failed to save calendar settings:', error);
+      });
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectId, settings]);
+
+  const { calendar, error } = useMemo((): { calendar: ProjectCalendar | null; error: string | null } => {
+    if (!settings) {return { calendar: null, error: null };}
+    try {
+      return { calendar: buildProjectCalendar(showcase, settings), error: null };
+    } catch (err) {
+      return { calendar: null, error: err instanceof Error ? err.message : 'Could not schedule this project' };
+    }
+  }, [showcase, settings]);
+
+  if (!settings) {
+    return <p className="text-sm text-gray-500">Loading calendar…</p>;
+  }
+
+  const update = (patch: Partial<CalendarSettings>) => setSettings(prev => (prev ? { ...prev, ...patch } : prev));
+  const lessonDays = settings.lessonDays?.length ? settings.lessonDays : defaultLessonDays(settings.lessonsPerWeek);
+
+  const toggleDay = (day: number) => {
+    const next = lessonDays.includes(day) ? lessonDays.filter(value => value !== day) : [...lessonDays, day];
+    if (next.length) {update({ lessonDays: next, lessonsPerWeek: next.length });}
+  };
+
+  const addDayOff = () => {
+    if (!isIsoDate(draft.start)) {return;}
+    const end = draft.end && isIsoDate(draft.end) && draft.end > draft.start ? draft.end : undefined;
+    update({ daysOff: [...settings.daysOff, { start: draft.start, ...(end ? { end } : {}), label: draft.label.trim() || 'Day off', source: 'manual' }] });
+    setDraft({ start: '', label: '' });
+  };
+
+  const importIcs = async (file: File) => {
+    try {
+      const imported = parseIcsDaysOff(await file.text());
+      const known = new Set(settings.daysOff.map(day => `${day.start}|${day.label}`));
+      const added = imported.filter(day => !known.has(`${day.start}|${day.label}`));
+      update({ daysOff: [...settings.daysOff, ...added].sort((a, b) => a.start.localeCompare(b.start)) });
+      setStatus(`Imported ${added.length} day${added.length === 1 ? '' : 's'} off from ${file.name}.`);
+    } catch (err) {
+      console.warn('[ProjectCalendarPanel] .ics import failed:', err);
+      setStatus('That file could not be read as a calendar.');
+    }
+  };
+
+  const download = async () => {
+    if (!calendar) {return;}
+    try {
+      await exportToCalendar(showcase, calendar);
+    } catch (err) {
+      console.error('[ProjectCalendarPanel] Calendar export failed:', err);
+      setStatus('Could not create the calendar file.');
+    }
+  };
+
+  const dueByWeek = new Map<number, string[]>();
+  calendar?.assignments.forEach(assignment => {
+    if (assignment.weekIndex === null) {return;}
+    dueByWeek.set(assignment.weekIndex, [...(dueByWeek.get(assignment.weekIndex) ?? []), assignment.assignmentId]);
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="block text-sm text-gray-700">
+          <span className="font-medium">Start date</span>
+          <input
+            type="date"
+            value={settings.startDate}
+            onChange={(event) => update({ startDate: event.target.value })}
+            className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2 text-sm"
+          />
+        </label>
+        <div className="text-sm text-gray-700">
+          <span className="font-medium">Lesson days ({lessonDays.length} per week)</span>
+          <div className="mt-1 flex flex-wrap gap-1">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                aria-pressed={lessonDays.includes(day)}
+                onClick={() => toggleDay(day)}
+                className={`px-2.5 py-1.5 rounded-lg text-xs font-medium border ${
+                  lessonDays.includes(day) ? 'bg-primary-600 border-primary-600 text-white' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h4 className="text-sm font-semibold text-gray-900">Days off</h4>
+          <label className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg border border-gray-200 text-xs font-medium text-gray-700 hover:bg-gray-50 cursor-pointer">
+            <Upload className="w-3.5 h-3.5" />
+            Import .ics
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              className="sr-only"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) {void importIcs(file);}
+                event.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        {settings.daysOff.length > 0 && (
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white text-sm">
+            {settings.daysOff.map((day, index) => (
+              <li key={`${day.start}-${day.label}-${index}`} className="flex items-center justify-between gap-3 px-4 py-2">
+                <span>
+                  <span className="font-medium text-gray-900">{day.label}</span>
+                  <span className="text-gray-500"> · {formatShortDate(day.start)}{day.end ? ` – ${formatShortDate(day.end)}` : ''}</span>
+                </span>
+                <button
+                  type="button"
+                  aria-label={`Remove ${day.label}`}
+                  onClick={() => update({ daysOff: settings.daysOff.filter((_, i) => i !== index) })}
+                  className="p-1 rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap items-end gap-2">
+          <input
+            type="date"
+            value={draft.start}
+            onChange={(event) => setDraft(prev => ({ ...prev, start: event.target.value }))}
+            aria-label="First day off"
+            className="rounded-xl border border-gray-200 px-3 py-2 text-sm"
+          />
+          <input
+            type="date"
+            value={draft.end ?? ''}
+            onChange={(event) => setDraft(prev => ({ ...prev, end: event.target.value || undefined }))}
+            aria-label="Last day off (optional)"
+            className="rounded-xl border border-gray-200 px-3 py-2 text-sm"
+          />
+          <input
+            value={draft.label}
+            onChange={(event) => setDraft(prev => ({ ...prev, label: event.target.value }))}
+            placeholder="Holiday, testing window…"
+            aria-label="Day off label"
+            className="flex-1 min-w-[10rem] rounded-xl border border-gray-200 px-3 py-2 text-sm"
+          />
+          <button
+            type="button"
+            disabled={!isIsoDate(draft.start)}
+            onClick={addDayOff}
+            className="px-4 py-2 rounded-xl bg-gray-900 text-white text-sm font-medium disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {calendar && (
+        <>
+          {calendar.warnings.length > 0 && (
+            <ul className="space-y-1 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+              {calendar.warnings.map((warning, index) => (
+                <li key={`${warning.kind}-${warning.date}-${index}`} className="flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  {warning.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="overflow-x-auto rounded-xl border border-gray-200 bg-white">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-500">
+                <tr>
+                  <th className="px-4 py-2">Week</th>
+                  <th className="px-4 py-2">Dates</th>
+                  <th className="px-4 py-2">Lessons</th>
+                  <th className="px-4 py-2">Checkpoint</th>
+                  <th className="px-4 py-2">Due</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {calendar.weeks.map(week => (
+                  <tr key={week.weekIndex}>
+                    <td className="px-4 py-2">
+                      <div className="font-medium text-gray-900">{week.weekLabel}</div>
+                      <div className="text-xs text-gray-500">{week.focus}</div>
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">{week.dateLabel}</td>
+                    <td className="px-4 py-2">
+                      {week.lessons.length}
+                      {week.lessons.length < week.plannedLessons && <span className="text-amber-700"> / {week.plannedLessons}</span>}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">{week.checkpointDate ? formatShortDate(week.checkpointDate) : '—'}</td>
+                    <td className="px-4 py-2">
+                      {(dueByWeek.get(week.weekIndex) ?? []).map(id => (
+                        <span key={id} className="mr-1 inline-block rounded bg-primary-50 px-1.5 py-0.5 text-xs font-medium text-primary-700">{id}</span>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {calendar.assignments.length > 0 && (
+            <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+              {calendar.assignments.map(assignment => (
+                <li key={assignment.assignmentId} className="rounded-xl border border-gray-200 bg-white px-4 py-2">
+                  <span className="font-medium text-gray-900">{assignment.assignmentId} · {assignment.title}</span>
+                  <span className="block text-xs text-gray-500">Due {formatShortDate(assignment.dueDate)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            {import.meta.env?.VITE_ENABLE_DOWNLOADS === 'true' && (
+              <button
+                type="button"
+                onClick={() => { void download(); }}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-primary-600 text-white text-sm font-medium hover:bg-primary-700"
+              >
+                <Download className="w-4 h-4" />
+                Download .ics
+              </button>
+            )}
+            <span className="inline-flex items-center gap-1 text-xs text-gray-500">
+              <CalendarDays className="w-3.5 h-3.5" />
+              {formatShortDate(calendar.startDate)} – {formatShortDate(calendar.endDate)}
+            </span>
+          </div>
+        </>
+      )}
+
+      {status && <p role="status" className="text-sm text-gray-600">{status}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+/**
+ * ProjectRevisionsPanel.tsx - Revision history, compare and restore for one project
+ */
+
+import React, { useState } from 'react';
+import type { RevisionComparison } from '../core/services/RevisionService';
+import { useProjectRevisions } from '../hooks/useProjectRevisions';
+import { RevisionHistory } from './RevisionHistory';
+import { RevisionCompare } from './RevisionCompare';
+
+interface ProjectRevisionsPanelProps {
+  projectId: string;
+  readOnly?: boolean;
+  // Render nothing until the project has history (e.g. on showcase pages)
+  hideWhenEmpty?: boolean;
+  onRestored?: () => void;
+}
+
+export const ProjectRevisionsPanel: React.FC<ProjectRevisionsPanelProps> = ({
+  projectId,
+  readOnly = false,
+  hideWhenEmpty = false,
+  onRestored
+}) => {
+  const { revisions, loading, error, compare, restore } = useProjectRevisions(projectId);
+  const [comparison, setComparison] = useState<RevisionComparison | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleCompare = async (firstId: string, secondId: string) => {
+    try {
+      setComparison(await compare(firstId, secondId));
+    } catch (err) {
+      console.warn('[ProjectRevisionsPanel] Compare failed:', err);
+      setStatus('Could not load those revisions.');
+    }
+  };
+
+  const handleRestore = async (revisionId: string) => {
+    try {
+      const restored = await restore(revisionId);
+      setStatus(restored ? 'Revision restored.' : 'That revision is no longer available.');
+      if (restored) {
+        setComparison(null);
+        onRestored?.();
+      }
+    } catch (err) {
+      console.error('[ProjectRevisionsPanel] Restore failed:', err);
+      setStatus('Restore failed. Your current version is unchanged.');
+    }
+  };
+
+  if (loading || (hideWhenEmpty && revisions.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">Revision history is unavailable: {error.message}</p>
+      )}
+      {status && (
+        <p role="status" className="text-sm text-gray-600 dark:text-gray-400">{status}</p>
+      )}
+      <RevisionHistory
+        revisions={revisions}
+        readOnly={readOnly}
+        onRestore={readOnly ? undefined : (id) => { void handleRestore(id); }}
+        onCompare={(a, b) => { void handleCompare(a, b); }}
+      />
+      {comparison && (
+        <RevisionCompare comparison={comparison} onClose={() => setComparison(null)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+/**
+ * ProjectSharePanel.tsx - Publish a read-only link, invite by email, list in the gallery, revoke
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Copy, Link2, Trash2 } from 'lucide-react';
+import { shareLink, shareService, type OwnedShare } from '../services/ShareService';
+import type { ProjectShowcaseV2 } from '../types/showcaseV2';
+
+interface ProjectSharePanelProps {
+  projectId: string;
+  showcase: ProjectShowcaseV2;
+}
+
+const parseEmails = (value: string) => value.split(/[\s,;]+/).filter(Boolean);
+
+export const ProjectSharePanel: React.FC<ProjectSharePanelProps> = ({ projectId, showcase }) => {
+  const [share, setShare] = useState<OwnedShare | null>(null);
+  const [isPublic, setIsPublic] = useState(false);
+  const [emails, setEmails] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [existing] = await shareService.listMyShares(projectId);
+      setShare(existing ?? null);
+      setIsPublic(existing?.isPublic ?? false);
+      setEmails(existing?.sharedWith.join(', ') ?? '');
+    } catch (error) {
+      console.warn('[ProjectSharePanel] Failed to load share:', error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const copyLink = async (slug: string) => {
+    try {
+      await navigator.clipboard.writeText(shareLink(slug));
+      setStatus('Link copied.');
+    } catch {
+      setStatus(shareLink(slug));
+    }
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      await action();
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const publish = () => run(async () => {
+    const published = await shareService.shareProject({
+      projectId,
+      showcase,
+      isPublic,
+      sharedWith: parseEmails(emails)
+    });
+    setShare(published);
+    setEmails(published.sharedWith.join(', '));
+    await copyLink(published.slug);
+  }, 'Could not share this project.');
+
+  const revoke = () => run(async () => {
+    if (!share) {return;}
+    await shareService.revokeShare(share.slug);
+    setShare(null);
+    setIsPublic(false);
+    setEmails('');
+    setStatus('Link revoked. Anyone who had it can no longer open the project.');
+  }, 'Could not revoke the link.');
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Share a read-only copy of this project. Planning notes and unreviewed standards links are left out,
+        and viewers can duplicate the copy into their own workspace. Re-sharing updates the copy and keeps the link.
+      </p>
+
+      <label className="flex items-start gap-3 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={isPublic}
+          onChange={(event) => setIsPublic(event.target.checked)}
+          className="mt-0.5 rounded border-gray-300"
+        />
+        <span>
+          <span className="font-medium">List in the public gallery</span>
+          <span className="block text-gray-500">Anyone with the link can view it, signed in or not.</span>
+        </span>
+      </label>
+
+      <textarea
+        value={emails}
+        onChange={(event) => setEmails(event.target.value)}
+        rows={2}
+        placeholder="Only these people (emails, comma separated)"
+        aria-label="Share with emails"
+        className="w-full rounded-xl border border-gray-200 px-4 py-2 text-sm"
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => { void publish(); }}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-50"
+        >
+          <Link2 className="w-4 h-4" />
+          {share ? 'Update shared copy' : 'Create share link'}
+        </button>
+        {share && (
+          <>
+            <button
+              type="button"
+              onClick={() => { void copyLink(share.slug); }}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-xl border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              <Copy className="w-4 h-4" />
+              Copy link
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => { void revoke(); }}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-xl border border-red-200 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              Revoke
+            </button>
+          </>
+        )}
+      </div>
+
+      {share && (
+        <p className="text-xs text-gray-500">
+          {share.isPublic ? 'Public' : share.sharedWith.length ? `Shared with ${share.sharedWith.length} ${share.sharedWith.length === 1 ? 'person' : 'people'}` : 'Only you'}
+          {' · '}last published {new Date(share.updatedAt).toLocaleString()}
+        </p>
+      )}
+      {status && <p role="status" className="text-sm text-gray-600 break-all">{status}</p>}
+    </div>
+  );
+};
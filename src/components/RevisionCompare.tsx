@@ -0,0 +1,93 @@
+/**
+ * RevisionCompare.tsx - Side-by-side diff of two project revisions, grouped by section
+ */
+
+import React from 'react';
+import { X } from 'lucide-react';
+import {
+  SECTION_LABELS,
+  revisionService,
+  type ChangeRecord,
+  type RevisionComparison,
+  type RevisionSection
+} from '../core/services/RevisionService';
+
+interface RevisionCompareProps {
+  comparison: RevisionComparison;
+  onClose?: () => void;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') {return '—';}
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+};
+
+const formatDate = (date: Date) => new Date(date).toLocaleString();
+
+export const RevisionCompare: React.FC<RevisionCompareProps> = ({ comparison, onClose }) => {
+  const { from, to, changes } = comparison;
+
+  const bySection = new Map<RevisionSection, ChangeRecord[]>();
+  changes.forEach(change => {
+    const section = change.section ?? 'other';
+    bySection.set(section, [...(bySection.get(section) ?? []), change]);
+  });
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+      <div className="flex items-start justify-between gap-3 px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <div>
+          <h4 className="font-semibold text-gray-900 dark:text-gray-100">Comparing revisions</h4>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {formatDate(from.timestamp)} → {formatDate(to.timestamp)}
+            {changes.length > 0 && ` • ${changes.length} change${changes.length !== 1 ? 's' : ''}`}
+          </p>
+        </div>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close comparison"
+            className="p-1 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+          These revisions have the same content.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {Array.from(bySection.entries()).map(([section, list]) => (
+            <section key={section} className="px-4 py-3">
+              <h5 className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                {SECTION_LABELS[section]}
+              </h5>
+              <div className="space-y-3">
+                {list.map(change => (
+                  <div key={change.path} className="text-sm">
+                    <div className="text-gray-700 dark:text-gray-300 mb-1">
+                      {revisionService.getFieldDisplayName(change.path)}
+                      <span className="ml-2 text-xs text-gray-400">{change.path}</span>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <pre className="whitespace-pre-wrap break-words rounded bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 p-2 text-xs">
+                        {formatValue(change.oldValue)}
+                      </pre>
+                      <pre className="whitespace-pre-wrap break-words rounded bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 p-2 text-xs">
+                        {formatValue(change.newValue)}
+                      </pre>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
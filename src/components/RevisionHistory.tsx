@@ -1,24 +1,32 @@
 /**
- * RevisionHistory.tsx - View and restore blueprint revision history
+ * RevisionHistory.tsx - View, compare and restore project revision history
  */
 
 import React, { useState } from 'react';
-import type { Revision } from '../core/services/RevisionService';
-import { Clock, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react';
+import { SECTION_LABELS, type RevisionEntry } from '../core/services/RevisionService';
+import { Clock, RotateCcw, ChevronDown, ChevronRight, GitCompare } from 'lucide-react';
 
 interface RevisionHistoryProps {
-  revisions: Revision[];
-  onRestore: (revisionId: string) => void;
+  revisions: RevisionEntry[];
+  onRestore?: (revisionId: string) => void;
+  // Called with two revision ids (any order) when the user picks a pair to compare
+  onCompare?: (firstId: string, secondId: string) => void;
   currentRevisionId?: string;
+  readOnly?: boolean;
 }
 
 export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
   revisions,
   onRestore,
-  currentRevisionId
+  onCompare,
+  currentRevisionId,
+  readOnly = false
 }) => {
   const [expandedRevisions, setExpandedRevisions] = useState<Set<string>>(new Set());
   const [confirmRestore, setConfirmRestore] = useState<string | null>(null);
+  const [compareSelection, setCompareSelection] = useState<string[]>([]);
+  const latestId = currentRevisionId ?? revisions[revisions.length - 1]?.id;
+  const canRestore = !readOnly && Boolean(onRestore);
 
   const toggleRevision = (revisionId: string) => {
     const newExpanded = new Set(expandedRevisions);
@@ -30,9 +38,19 @@ export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
     setExpandedRevisions(newExpanded);
   };
 
+  const toggleCompare = (revisionId: string) => {
+    const next = compareSelection.includes(revisionId)
+      ? compareSelection.filter(id => id !== revisionId)
+      : [...compareSelection, revisionId].slice(-2);
+    setCompareSelection(next);
+    if (next.length === 2 && onCompare) {
+      onCompare(next[0], next[1]);
+    }
+  };
+
   const handleRestore = (revisionId: string) => {
     if (confirmRestore === revisionId) {
-      onRestore(revisionId);
+      onRestore?.(revisionId);
       setConfirmRestore(null);
     } else {
       setConfirmRestore(revisionId);
@@ -92,14 +110,21 @@ export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
 
   return (
     <div className="space-y-2">
-      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1 flex items-center gap-2">
         <Clock className="w-5 h-5" />
         Revision History
       </h3>
-      
+      {onCompare && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          Select any two revisions to compare them.
+        </p>
+      )}
+
       {revisions.slice().reverse().map((revision, index) => {
         const isExpanded = expandedRevisions.has(revision.id);
-        const isCurrent = revision.id === currentRevisionId;
+        const isCurrent = revision.id === latestId;
+        const isSelected = compareSelection.includes(revision.id);
+        const changeCount = revision.changeCount ?? revision.changes.length;
         
         return (
           <div
@@ -110,20 +135,22 @@ export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
                 : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800'
             }`}
           >
-            <button
-              onClick={() => toggleRevision(revision.id)}
-              className="w-full px-4 py-3 flex items-center justify-between hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
-            >
-              <div className="flex items-center gap-3">
+            <div className="w-full px-4 py-3 flex items-center justify-between gap-3">
+              <button
+                type="button"
+                onClick={() => toggleRevision(revision.id)}
+                aria-expanded={isExpanded}
+                className="flex flex-1 items-center gap-3 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+              >
                 {isExpanded ? (
                   <ChevronDown className="w-4 h-4 text-gray-500" />
                 ) : (
                   <ChevronRight className="w-4 h-4 text-gray-500" />
                 )}
                 <div className="text-left">
-                  <div className="flex items-center gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
                     <span className="font-medium text-gray-900 dark:text-gray-100">
-                      {revision.comment || `Revision ${revisions.length - index}`}
+                      {revision.comment || revision.summary || `Revision ${revisions.length - index}`}
                     </span>
                     {isCurrent && (
                       <span className="text-xs bg-indigo-100 dark:bg-indigo-900 text-indigo-700 dark:text-indigo-300 px-2 py-0.5 rounded">
@@ -132,29 +159,58 @@ export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
                     )}
                   </div>
                   <div className="text-sm text-gray-600 dark:text-gray-400">
-                    {formatTimestamp(revision.timestamp)} • {revision.changes.length} change{revision.changes.length !== 1 ? 's' : ''}
+                    {formatTimestamp(revision.timestamp)}
+                    {revision.authorName && ` • ${revision.authorName}`}
+                    {' • '}{changeCount} change{changeCount !== 1 ? 's' : ''}
                   </div>
+                  {revision.sections && revision.sections.length > 0 && (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {revision.sections.map(section => (
+                        <span
+                          key={section}
+                          className="text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-0.5 rounded"
+                        >
+                          {SECTION_LABELS[section]}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
+              </button>
+
+              <div className="flex items-center gap-2">
+                {onCompare && revisions.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => toggleCompare(revision.id)}
+                    aria-pressed={isSelected}
+                    className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                      isSelected
+                        ? 'bg-primary-600 text-white hover:bg-primary-700'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    <GitCompare className="w-4 h-4 inline mr-1" />
+                    Compare
+                  </button>
+                )}
+                {canRestore && !isCurrent && (
+                  <button
+                    type="button"
+                    onClick={() => handleRestore(revision.id)}
+                    className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                      confirmRestore === revision.id
+                        ? 'bg-red-600 text-white hover:bg-red-700'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    <RotateCcw className="w-4 h-4 inline mr-1" />
+                    {confirmRestore === revision.id ? 'Confirm' : 'Restore'}
+                  </button>
+                )}
               </div>
-              
-              {!isCurrent && (
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleRestore(revision.id);
-                  }}
-                  className={`px-3 py-1 text-sm rounded-md transition-colors ${
-                    confirmRestore === revision.id
-                      ? 'bg-red-600 text-white hover:bg-red-700'
-                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
-                  }`}
-                >
-                  <RotateCcw className="w-4 h-4 inline mr-1" />
-                  {confirmRestore === revision.id ? 'Confirm' : 'Restore'}
-                </button>
-              )}
-            </button>
-            
+            </div>
+
             {isExpanded && (
               <div className="px-4 pb-3 border-t border-gray-200 dark:border-gray-700">
                 <div className="mt-3 space-y-1">
@@ -176,6 +232,11 @@ export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
                       </div>
                     </div>
                   ))}
+                  {changeCount > revision.changes.length && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      +{changeCount - revision.changes.length} more changes
+                    </div>
+                  )}
                 </div>
               </div>
             )}
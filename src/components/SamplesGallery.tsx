@@ -2,12 +2,15 @@ import React, { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Sparkles, Users, Clock, BookOpen, Presentation } from 'lucide-react';
 import { listProjectsV2 } from '../utils/showcaseV2-registry';
+import type { GradeBand } from '../types/showcaseV2';
 import './SamplesGallery.css';
 
+const BAND_OPTIONS: Array<'All' | GradeBand> = ['All', 'PK', 'ES', 'MS', 'HS', 'PS'];
+
 export default function SamplesGallery() {
   const navigate = useNavigate();
   const allProjects = listProjectsV2();
-  const [band, setBand] = useState<'All' | 'ES' | 'MS' | 'HS'>('All');
+  const [band, setBand] = useState<'All' | GradeBand>('All');
   const [subject, setSubject] = useState<string>('All');
 
   // Helper: expand project subjects to include rollups like "STEM"
@@ -135,9 +138,9 @@ export default function SamplesGallery() {
                 id="band"
                 className="rounded-xl border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-2 text-sm"
                 value={band}
-                onChange={(event) => setBand(event.target.value as 'All' | 'ES' | 'MS' | 'HS')}
+                onChange={(event) => setBand(event.target.value as 'All' | GradeBand)}
               >
-                {['All', 'ES', 'MS', 'HS'].map(value => (
+                {BAND_OPTIONS.map(value => (
                   <option key={value} value={value}>
                     {value}
                   </option>
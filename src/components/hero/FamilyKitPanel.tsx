@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { Copy, Download, FileText, Loader2, Mail, Pencil, Sparkles } from 'lucide-react';
+import type { FamilyLetter, ProjectShowcaseV2, ReadingLevel } from '../../types/showcaseV2';
+import { localeLabel } from '../../i18n';
+import {
+  DEFAULT_READING_LEVEL,
+  FAMILY_LETTER_LABELS,
+  familyKitService,
+  letterKey,
+  letterToEmail,
+  updateFamilyLetter
+} from '../../services/FamilyKitService';
+import { resolveStudentLanguage } from '../../services/StudentLanguageService';
+import { READING_LEVEL_LABELS, READING_LEVEL_TARGETS, fleschKincaidGrade } from '../../utils/readability';
+import { exportFamilyKitEmails, exportFamilyKitToPDF } from '../../features/review/exportUtilsLazy';
+
+interface FamilyKitPanelProps {
+  showcase: ProjectShowcaseV2;
+  onChange: (showcase: ProjectShowcaseV2) => void;
+  className?: string;
+}
+
+const SOURCE_LABELS: Record<FamilyLetter['source'], string> = {
+  ai: 'AI draft',
+  template: 'Template',
+  teacher: 'Edited'
+};
+
+const READING_LEVELS = Object.keys(READING_LEVEL_LABELS) as ReadingLevel[];
+
+const inputClass = 'w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-2 py-1.5 text-sm';
+const secondaryButtonClass = 'inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-60';
+
+function letterTitle(letter: FamilyLetter, showcase: ProjectShowcaseV2): string {
+  const label = FAMILY_LETTER_LABELS[letter.kind];
+  if (letter.kind !== 'weekly-update') {return label;}
+  return `${label} · ${showcase.runOfShow?.[letter.weekIndex ?? 0]?.weekLabel || `Week ${(letter.weekIndex ?? 0) + 1}`}`;
+}
+
+interface LetterEditorProps {
+  letter: FamilyLetter;
+  onSave: (letter: FamilyLetter) => void;
+  onCancel: () => void;
+}
+
+const LetterEditor: React.FC<LetterEditorProps> = ({ letter, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<FamilyLetter>(letter);
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-xs font-medium text-slate-600 dark:text-slate-400">
+        Subject
+        <input value={draft.subject} onChange={(event) => setDraft({ ...draft, subject: event.target.value })} className={`mt-1 ${inputClass}`} />
+      </label>
+      <label className="block text-xs font-medium text-slate-600 dark:text-slate-400">
+        Letter <span className="font-normal">(blank line between paragraphs, "- " for bullets)</span>
+        <textarea
+          rows={12}
+          value={draft.body}
+          onChange={(event) => setDraft({ ...draft, body: event.target.value })}
+          className={`mt-1 ${inputClass} font-mono`}
+        />
+      </label>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onSave(draft)}
+          className="px-3 py-1.5 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700"
+        >
+          Save letter
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const FamilyKitPanel: React.FC<FamilyKitPanelProps> = ({
+  showcase,
+  onChange,
+  className = ''
+}) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const letters = showcase.familyKit?.letters || [];
+  const readingLevel = showcase.readingLevel ?? DEFAULT_READING_LEVEL;
+  const locale = showcase.familyKit?.locale ?? resolveStudentLanguage(showcase);
+  // Flesch–Kincaid is calibrated for English only
+  const showReadability = locale === 'en';
+  const canDownload = import.meta.env?.VITE_ENABLE_DOWNLOADS === 'true';
+  const canDownloadPdf = import.meta.env?.VITE_PDF_EXPORT_ENABLED === 'true';
+
+  const generate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    setEditing(null);
+    try {
+      onChange(await familyKitService.generate(showcase));
+    } catch (e) {
+      console.error('[FamilyKitPanel] Family kit generation failed:', e);
+      setError('Could not write the family letters right now. Try again in a moment.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const copyEmail = async (letter: FamilyLetter) => {
+    try {
+      await navigator.clipboard.writeText(letterToEmail(letter));
+      setCopied(letterKey(letter));
+    } catch (e) {
+      console.error('[FamilyKitPanel] Copy failed:', e);
+      setError('Could not copy to the clipboard.');
+    }
+  };
+
+  const download = async (run: () => Promise<void>) => {
+    setError(null);
+    try {
+      await run();
+    } catch (e) {
+      console.error('[FamilyKitPanel] Export failed:', e);
+      setError('Could not create the download. Please try again.');
+    }
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+          Reading level
+          <select
+            value={readingLevel}
+            onChange={(event) => onChange({ ...showcase, readingLevel: event.target.value as ReadingLevel })}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-2 text-sm"
+          >
+            {READING_LEVELS.map(level => (
+              <option key={level} value={level}>{READING_LEVEL_LABELS[level]}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => { void generate(); }}
+          disabled={isGenerating}
+          className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-60 transition-colors"
+        >
+          {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          {letters.length ? 'Rewrite letters' : 'Write family letters'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {!letters.length && !isGenerating && (
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          A kickoff letter, weekly updates, volunteer and materials requests, a permission slip when there is
+          fieldwork, and an exhibition invitation, written in {localeLabel(locale)}.
+        </p>
+      )}
+      {letters.some(letter => letter.source === 'teacher') && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">Rewriting keeps the letters you have edited.</p>
+      )}
+
+      {letters.length > 0 && (canDownload || canDownloadPdf) && (
+        <div className="flex flex-wrap gap-2">
+          {canDownloadPdf && (
+            <button onClick={() => { void download(() => exportFamilyKitToPDF(showcase)); }} className={secondaryButtonClass}>
+              <FileText className="w-4 h-4" /> Letters (.pdf)
+            </button>
+          )}
+          {canDownload && (
+            <button onClick={() => { void download(() => exportFamilyKitEmails(showcase)); }} className={secondaryButtonClass}>
+              <Download className="w-4 h-4" /> Email bodies (.txt)
+            </button>
+          )}
+        </div>
+      )}
+
+      <ol className="space-y-3">
+        {letters.map(letter => {
+          const key = letterKey(letter);
+          const grade = showReadability ? fleschKincaidGrade(letter.body) : null;
+          const target = READING_LEVEL_TARGETS[readingLevel];
+          return (
+            <li key={key} className="p-4 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900">
+              <div className="flex items-start justify-between gap-3 mb-2">
+                <div>
+                  <div className="text-xs text-slate-500">
+                    {letterTitle(letter, showcase)} · {SOURCE_LABELS[letter.source]}
+                    {grade !== null && (
+                      <span className={grade <= target ? ' text-emerald-600' : ' text-amber-600'}>
+                        {' '}· Grade {grade} (target ≤ {target})
+                      </span>
+                    )}
+                  </div>
+                  <h4 className="font-medium text-slate-900 dark:text-slate-100">{letter.subject}</h4>
+                </div>
+                {editing !== key && (
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => { void copyEmail(letter); }}
+                      className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800"
+                      aria-label={`Copy ${letterTitle(letter, showcase)} as email`}
+                    >
+                      {copied === key ? <Mail className="w-4 h-4 text-emerald-600" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => setEditing(key)}
+                      className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800"
+                      aria-label={`Edit ${letterTitle(letter, showcase)}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {editing === key ? (
+                <LetterEditor
+                  letter={letter}
+                  onCancel={() => setEditing(null)}
+                  onSave={(updated) => {
+                    onChange(updateFamilyLetter(showcase, updated));
+                    setEditing(null);
+                  }}
+                />
+              ) : (
+                <p className="whitespace-pre-line text-sm text-slate-700 dark:text-slate-300">{letter.body}</p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import React, { useMemo, useState } from 'react';
+import { Loader2, Pencil, Sparkles } from 'lucide-react';
+import type { DailyLessonPlan, LessonSegment, ProjectShowcaseV2 } from '../../types/showcaseV2';
+import {
+  fitSegmentsToPeriod,
+  lessonCountForWeek,
+  lessonPlanService,
+  updateLessonPlan
+} from '../../services/LessonPlanService';
+
+interface LessonPlansPanelProps {
+  showcase: ProjectShowcaseV2;
+  onChange: (showcase: ProjectShowcaseV2) => void;
+  className?: string;
+}
+
+const SOURCE_LABELS: Record<DailyLessonPlan['source'], string> = {
+  ai: 'AI draft',
+  template: 'Template',
+  teacher: 'Edited'
+};
+
+const inputClass = 'w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-2 py-1.5 text-sm';
+
+function toLines(value: string): string[] {
+  return value.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+function totalMinutes(plan: DailyLessonPlan): number {
+  return plan.segments.reduce((sum, segment) => sum + segment.minutes, 0);
+}
+
+interface LinesFieldProps {
+  label: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+const LinesField: React.FC<LinesFieldProps> = ({ label, value, onChange }) => (
+  <label className="block text-xs font-medium text-slate-600 dark:text-slate-400">
+    {label} <span className="font-normal">(one per line)</span>
+    <textarea
+      rows={Math.max(2, value.length)}
+      defaultValue={value.join('\n')}
+      onBlur={(event) => onChange(toLines(event.target.value))}
+      className={`mt-1 ${inputClass}`}
+    />
+  </label>
+);
+
+interface LessonPlanEditorProps {
+  plan: DailyLessonPlan;
+  lengthMin: number;
+  onSave: (plan: DailyLessonPlan) => void;
+  onCancel: () => void;
+}
+
+const LessonPlanEditor: React.FC<LessonPlanEditorProps> = ({ plan, lengthMin, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<DailyLessonPlan>(plan);
+  const minutes = totalMinutes(draft);
+
+  const patch = (changes: Partial<DailyLessonPlan>) => setDraft(prev => ({ ...prev, ...changes }));
+  const patchSegment = (index: number, changes: Partial<LessonSegment>) => {
+    patch({ segments: draft.segments.map((segment, i) => (i === index ? { ...segment, ...changes } : segment)) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-xs font-medium text-slate-600 dark:text-slate-400">
+        Title
+        <input value={draft.title} onChange={(event) => patch({ title: event.target.value })} className={`mt-1 ${inputClass}`} />
+      </label>
+      <LinesField label="Objectives" value={draft.objectives} onChange={objectives => patch({ objectives })} />
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-xs font-medium text-slate-600 dark:text-slate-400">
+          <span>Procedure</span>
+          <span className={minutes === lengthMin ? 'text-emerald-600' : 'text-amber-600'}>
+            {minutes} / {lengthMin} min
+            {minutes !== lengthMin && (
+              <button
+                type="button"
+                onClick={() => patch({ segments: fitSegmentsToPeriod(draft.segments, lengthMin) })}
+                className="ml-2 underline"
+              >
+                Fit to period
+              </button>
+            )}
+          </span>
+        </div>
+        {draft.segments.map((segment, index) => (
+          <div key={`${segment.kind}-${index}`} className="grid grid-cols-1 sm:grid-cols-[5rem_1fr] gap-2 rounded-lg border border-slate-200 dark:border-slate-700 p-2">
+            <input
+              type="number"
+              min={1}
+              aria-label={`${segment.title} minutes`}
+              value={segment.minutes}
+              onChange={(event) => patchSegment(index, { minutes: Math.max(0, Number(event.target.value) || 0) })}
+              className={inputClass}
+            />
+            <div className="space-y-1">
+              <input value={segment.title} onChange={(event) => patchSegment(index, { title: event.target.value })} className={`${inputClass} font-medium`} />
+              <input value={segment.teacher} placeholder="Teacher" onChange={(event) => patchSegment(index, { teacher: event.target.value })} className={inputClass} />
+              <input value={segment.students} placeholder="Students" onChange={(event) => patchSegment(index, { students: event.target.value })} className={inputClass} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <LinesField label="Materials" value={draft.materials} onChange={materials => patch({ materials })} />
+      <LinesField label="Exit ticket" value={draft.exitTicket} onChange={exitTicket => patch({ exitTicket })} />
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <LinesField label="Support" value={draft.differentiation.support} onChange={support => patch({ differentiation: { ...draft.differentiation, support } })} />
+        <LinesField label="Extension" value={draft.differentiation.extension} onChange={extension => patch({ differentiation: { ...draft.differentiation, extension } })} />
+        <LinesField label="Multilingual" value={draft.differentiation.multilingual} onChange={multilingual => patch({ differentiation: { ...draft.differentiation, multilingual } })} />
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onSave(draft)}
+          className="px-3 py-1.5 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700"
+        >
+          Save lesson
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const LessonPlansPanel: React.FC<LessonPlansPanelProps> = ({
+  showcase,
+  onChange,
+  className = ''
+}) => {
+  const [weekIndex, setWeekIndex] = useState(0);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [editing, setEditing] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const weeks = showcase.runOfShow || [];
+  const lengthMin = showcase.schedule?.lessonLengthMin || 50;
+  const plans = useMemo(
+    () => (showcase.lessonPlans || []).filter(plan => plan.weekIndex === weekIndex),
+    [showcase.lessonPlans, weekIndex]
+  );
+
+  const generate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    setEditing(null);
+    try {
+      onChange(await lessonPlanService.planWeek(showcase, weekIndex));
+    } catch (e) {
+      console.error('[LessonPlansPanel] Lesson generation failed:', e);
+      setError('Could not plan this week right now. Try again in a moment.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <select
+          value={weekIndex}
+          onChange={(event) => {
+            setWeekIndex(Number(event.target.value));
+            setEditing(null);
+          }}
+          className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-2 text-sm"
+        >
+          {weeks.map((week, index) => (
+            <option key={`${week.weekLabel}-${index}`} value={index}>
+              {week.weekLabel}: {week.focus}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => { void generate(); }}
+          disabled={isGenerating || !weeks.length}
+          className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-60 transition-colors"
+        >
+          {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          {plans.length ? 'Regenerate lessons' : `Plan ${lessonCountForWeek(showcase, weekIndex)} lessons`}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {!plans.length && !isGenerating && (
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Expand this week card into {lessonCountForWeek(showcase, weekIndex)} lessons of {lengthMin} minutes.
+        </p>
+      )}
+      {plans.some(plan => plan.source === 'teacher') && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">Regenerating keeps the lessons you have edited.</p>
+      )}
+
+      <ol className="space-y-3">
+        {plans.map(plan => (
+          <li
+            key={`${plan.weekIndex}-${plan.lesson}`}
+            className="p-4 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900"
+          >
+            <div className="flex items-start justify-between gap-3 mb-2">
+              <div>
+                <div className="text-xs text-slate-500">
+                  Lesson {plan.lesson} · {totalMinutes(plan)} min · {SOURCE_LABELS[plan.source]}
+                </div>
+                <h4 className="font-medium text-slate-900 dark:text-slate-100">{plan.title}</h4>
+              </div>
+              {editing !== plan.lesson && (
+                <button
+                  onClick={() => setEditing(plan.lesson)}
+                  className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800"
+                  aria-label={`Edit lesson ${plan.lesson}`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            {editing === plan.lesson ? (
+              <LessonPlanEditor
+                plan={plan}
+                lengthMin={lengthMin}
+                onCancel={() => setEditing(null)}
+                onSave={(updated) => {
+                  onChange(updateLessonPlan(showcase, updated));
+                  setEditing(null);
+                }}
+              />
+            ) : (
+              <div className="space-y-2 text-sm text-slate-700 dark:text-slate-300">
+                <ul className="list-disc pl-5">
+                  {plan.objectives.map((objective, index) => <li key={index}>{objective}</li>)}
+                </ul>
+                <table className="w-full text-left">
+                  <tbody>
+                    {plan.segments.map((segment, index) => (
+                      <tr key={index} className="border-t border-slate-100 dark:border-slate-800 align-top">
+                        <td className="py-1 pr-3 whitespace-nowrap text-slate-500">{segment.minutes} min</td>
+                        <td className="py-1 pr-3 font-medium">{segment.title}</td>
+                        <td className="py-1">{segment.students}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {plan.exitTicket.length > 0 && (
+                  <p><span className="font-medium">Exit ticket:</span> {plan.exitTicket.join(' · ')}</p>
+                )}
+                {plan.materials.length > 0 && (
+                  <p><span className="font-medium">Materials:</span> {plan.materials.join(', ')}</p>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
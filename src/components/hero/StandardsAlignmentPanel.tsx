@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { Check, Loader2, Sparkles, X } from 'lucide-react';
+import type { AlignmentStatus, ProjectShowcaseV2 } from '../../types/showcaseV2';
+import {
+  alignmentTargetKey,
+  buildCoverageMatrix,
+  listAlignmentTargets,
+  setAlignmentStatus,
+  standardsAlignmentService
+} from '../../services/StandardsAlignmentService';
+import { StandardsAlignmentCoverage } from './StandardsCoverageMap';
+
+interface StandardsAlignmentPanelProps {
+  showcase: ProjectShowcaseV2;
+  onChange: (showcase: ProjectShowcaseV2) => void;
+  className?: string;
+}
+
+export const StandardsAlignmentPanel: React.FC<StandardsAlignmentPanelProps> = ({
+  showcase,
+  onChange,
+  className = ''
+}) => {
+  const [isAligning, setIsAligning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const links = useMemo(() => showcase.standardsAlignment || [], [showcase.standardsAlignment]);
+  const matrix = useMemo(() => buildCoverageMatrix(showcase), [showcase]);
+  const targetLabels = useMemo(
+    () => new Map(listAlignmentTargets(showcase).map(info => [info.key, info.label])),
+    [showcase]
+  );
+  const proposed = links.filter(link => link.status === 'proposed');
+
+  const runAlignment = async () => {
+    setIsAligning(true);
+    setError(null);
+    try {
+      onChange(await standardsAlignmentService.proposeAlignments(showcase));
+    } catch (e) {
+      console.error('[StandardsAlignmentPanel] Alignment pass failed:', e);
+      setError('Could not suggest standards right now. Try again in a moment.');
+    } finally {
+      setIsAligning(false);
+    }
+  };
+
+  const decide = (linkId: string, status: AlignmentStatus) => {
+    onChange(setAlignmentStatus(showcase, linkId, status));
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          {links.filter(link => link.status === 'accepted').length} accepted · {proposed.length} to review
+        </p>
+        <button
+          onClick={() => { void runAlignment(); }}
+          disabled={isAligning}
+          className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-60 transition-colors"
+        >
+          {isAligning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          {links.length ? 'Re-run alignment' : 'Suggest standards'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {proposed.length > 0 && (
+        <ul className="space-y-2">
+          {proposed.map(link => (
+            <li
+              key={link.id}
+              className="flex items-start gap-3 p-3 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-mono text-primary-600 dark:text-primary-400">{link.code}</span>
+                  <span className="text-slate-400">→</span>
+                  <span className="font-medium text-slate-800 dark:text-slate-200">
+                    {targetLabels.get(alignmentTargetKey(link.target)) || alignmentTargetKey(link.target)}
+                  </span>
+                  <span className="text-xs text-slate-500">{Math.round(link.confidence * 100)}%</span>
+                </div>
+                <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">{link.rationale}</p>
+              </div>
+              <button
+                onClick={() => decide(link.id, 'accepted')}
+                className="p-1.5 rounded-lg text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20"
+                aria-label={`Accept ${link.code}`}
+              >
+                <Check className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => decide(link.id, 'rejected')}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                aria-label={`Reject ${link.code}`}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <StandardsAlignmentCoverage matrix={matrix} />
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { ChevronDown, ChevronUp } from 'lucide-react';
 import { copy } from '../../utils/copy';
+import type { CoverageMatrix } from '../../services/StandardsAlignmentService';
 
 interface Standard {
   id: string;
@@ -168,4 +169,158 @@ export const StandardsCoverageMap: React.FC<StandardsCoverageMapProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+interface StandardsAlignmentCoverageProps {
+  matrix: CoverageMatrix;
+  className?: string;
+}
+
+/**
+ * Taught (weeks) vs. assessed (assignments) matrix built from accepted alignment links.
+ */
+export const StandardsAlignmentCoverage: React.FC<StandardsAlignmentCoverageProps> = ({
+  matrix,
+  className = ''
+}) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const shouldCollapse = matrix.rows.length > 6 || matrix.weeks.length + matrix.assignments.length > 8;
+  const cellConfig = {
+    taught: {
+      label: copy.coverage.taught.label,
+      description: copy.coverage.taught.description,
+      color: 'bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-400',
+      abbrev: 'T'
+    },
+    assessed: {
+      label: copy.coverage.assessed.label,
+      description: copy.coverage.assessed.description,
+      color: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400',
+      abbrev: 'A'
+    }
+  };
+  const statusStyles: Record<CoverageMatrix['rows'][number]['status'], string> = {
+    'taught-and-assessed': 'text-emerald-600 dark:text-emerald-400',
+    'taught-only': 'text-amber-600 dark:text-amber-400',
+    'assessed-only': 'text-red-600 dark:text-red-400'
+  };
+
+  if (matrix.rows.length === 0) {
+    return (
+      <div className={`p-6 bg-slate-50 dark:bg-slate-800 rounded-lg text-center ${className}`}>
+        <p className="text-slate-600 dark:text-slate-400">{copy.empty.alignment}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-lg">
+        {Object.entries(cellConfig).map(([key, config]) => (
+          <div key={key} className="flex items-center gap-2">
+            <span className={`inline-flex items-center justify-center w-6 h-6 rounded text-xs font-bold ${config.color}`}>
+              {config.abbrev}
+            </span>
+            <div className="text-sm">
+              <span className="font-medium text-slate-700 dark:text-slate-300">
+                {config.label}
+              </span>
+              <span className="text-slate-500 dark:text-slate-400 ml-1">
+                ({config.description})
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {shouldCollapse && (
+        <button
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white transition-colors"
+        >
+          {isCollapsed ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+          {isCollapsed ? 'Show' : 'Hide'} Coverage Grid
+        </button>
+      )}
+
+      {!isCollapsed && (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr>
+                <th className="sticky left-0 bg-white dark:bg-slate-800 p-2 text-left text-sm font-medium text-slate-700 dark:text-slate-300 border-b border-r border-slate-200 dark:border-slate-700">
+                  Standards
+                </th>
+                {matrix.weeks.map(week => (
+                  <th
+                    key={`week-${week.index}`}
+                    className="p-2 text-center text-xs font-medium text-slate-600 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700"
+                    title={week.label}
+                  >
+                    <div className="max-w-[80px] truncate">{week.label}</div>
+                  </th>
+                ))}
+                {matrix.assignments.map(assignment => (
+                  <th
+                    key={`assignment-${assignment.id}`}
+                    className="p-2 text-center text-xs font-medium text-slate-600 dark:text-slate-400 border-b border-l-2 border-slate-200 dark:border-slate-700"
+                    title={assignment.title}
+                  >
+                    <div className="max-w-[80px] truncate">{assignment.id}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.rows.map((row, rIdx) => (
+                <tr key={row.code} className={rIdx % 2 === 0 ? 'bg-slate-50/50 dark:bg-slate-900/20' : ''}>
+                  <td className="sticky left-0 bg-white dark:bg-slate-800 p-2 border-r border-slate-200 dark:border-slate-700">
+                    <div className="flex items-center gap-2">
+                      {row.framework && (
+                        <span className="text-xs font-medium px-1.5 py-0.5 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-400 rounded">
+                          {row.framework}
+                        </span>
+                      )}
+                      <span className={`font-mono text-sm ${statusStyles[row.status]}`} title={row.label}>
+                        {row.code}
+                      </span>
+                    </div>
+                  </td>
+                  {matrix.weeks.map(week => (
+                    <td key={`${row.code}-week-${week.index}`} className="p-2 text-center border border-slate-200 dark:border-slate-700">
+                      {row.taught.includes(week.index) && (
+                        <div
+                          className={`inline-flex items-center justify-center w-8 h-8 rounded-lg text-xs font-bold ${cellConfig.taught.color}`}
+                          title={`${row.code} - ${week.label}: ${cellConfig.taught.label}`}
+                        >
+                          {cellConfig.taught.abbrev}
+                        </div>
+                      )}
+                    </td>
+                  ))}
+                  {matrix.assignments.map(assignment => (
+                    <td key={`${row.code}-assignment-${assignment.id}`} className="p-2 text-center border border-l-2 border-slate-200 dark:border-slate-700">
+                      {row.assessed.includes(assignment.id) && (
+                        <div
+                          className={`inline-flex items-center justify-center w-8 h-8 rounded-lg text-xs font-bold ${cellConfig.assessed.color}`}
+                          title={`${row.code} - ${assignment.title}: ${cellConfig.assessed.label}`}
+                        >
+                          {cellConfig.assessed.abbrev}
+                        </div>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="text-sm text-slate-600 dark:text-slate-400 text-right">
+        {matrix.summary.taughtAndAssessed} taught &amp; assessed · {matrix.summary.taughtOnly} taught only · {matrix.summary.assessedOnly} assessed only
+      </div>
+    </div>
+  );
+};
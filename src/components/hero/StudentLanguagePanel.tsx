@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Loader2, Sparkles } from 'lucide-react';
+import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
+import { LOCALES, isLocale, localeLabel, type Locale } from '../../i18n';
+import { useTranslation } from '../../i18n/useTranslation';
+import {
+  hasStudentText,
+  resolveStudentLanguage,
+  studentLanguageService
+} from '../../services/StudentLanguageService';
+
+interface StudentLanguagePanelProps {
+  showcase: ProjectShowcaseV2;
+  onChange: (showcase: ProjectShowcaseV2) => void;
+  className?: string;
+}
+
+export const StudentLanguagePanel: React.FC<StudentLanguagePanelProps> = ({
+  showcase,
+  onChange,
+  className = ''
+}) => {
+  const { t, locale } = useTranslation();
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const studentLocale = resolveStudentLanguage(showcase, locale);
+  const language = localeLabel(studentLocale);
+  const needsCopy = studentLocale !== locale;
+  const ready = showcase.assignments.filter(assignment => hasStudentText(assignment, studentLocale)).length;
+
+  const selectLanguage = (next: Locale) => {
+    setError(null);
+    onChange({ ...showcase, studentLanguage: next });
+  };
+
+  const localize = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      onChange(await studentLanguageService.localizeShowcase(showcase, studentLocale));
+    } catch (e) {
+      console.error('[StudentLanguagePanel] Localization failed:', e);
+      setError(t('studentLanguage.failed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        {t('studentLanguage.description', { uiLanguage: localeLabel(locale) })}
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={studentLocale}
+          aria-label={t('studentLanguage.title')}
+          onChange={(event) => {
+            if (isLocale(event.target.value)) {selectLanguage(event.target.value);}
+          }}
+          className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-2 text-sm"
+        >
+          {LOCALES.map(entry => (
+            <option key={entry.code} value={entry.code}>{entry.label}</option>
+          ))}
+        </select>
+        {needsCopy && (
+          <button
+            onClick={() => { void localize(); }}
+            disabled={isWorking || !showcase.assignments.length}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-60 transition-colors"
+          >
+            {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            {isWorking
+              ? t('studentLanguage.working')
+              : ready ? t('studentLanguage.regenerate', { language }) : t('studentLanguage.generate', { language })}
+          </button>
+        )}
+      </div>
+
+      {needsCopy && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          {t('studentLanguage.ready', { count: ready, total: showcase.assignments.length, language })}
+        </p>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
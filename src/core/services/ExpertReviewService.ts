@@ -1,8 +1,21 @@
 /**
  * ExpertReviewService.ts - Integration points for expert review and feedback
+ *
+ * Two review flows:
+ * - Automated expert review: simulated specialist scoring of a blueprint (ExpertReviewPanel)
+ * - Peer review: a teacher requests a review from another user (e.g. an
+ *   instructional coach) by email. The reviewer leaves threaded comments anchored
+ *   to a week card, an assignment field or a rubric criterion of a showcase
+ *   snapshot; either side can resolve threads, and open feedback can be
+ *   summarized by the AI (with a deterministic fallback).
+ *
+ * Peer reviews persist through a ReviewStore (Firestore, or memory offline/in tests).
  */
 
 import { type BlueprintDoc } from '../types/SOPTypes';
+import type { AssignmentCard, ProjectShowcaseV2 } from '../../types/showcaseV2';
+import { zReviewFeedbackSummary, type ReviewFeedbackSummary } from '../../types/zod-schemas';
+import type { ReviewStore } from './ReviewStore';
 
 export interface ExpertReview {
   id: string;
@@ -36,8 +49,150 @@ export interface ExpertSuggestion {
   priority: 'high' | 'medium' | 'low';
 }
 
+export type PeerReviewStatus = 'requested' | 'in-review' | 'completed' | 'declined';
+
+export type ReviewAssignmentField = keyof Pick<
+  AssignmentCard,
+  'summary' | 'studentDirections' | 'teacherSetup' | 'evidence' | 'successCriteria' | 'checkpoint' | 'aiOptional' | 'safety'
+>;
+
+export type ReviewAnchor =
+  | { kind: 'project' }
+  | { kind: 'week'; weekIndex: number } // index into runOfShow
+  | { kind: 'assignment'; assignmentId: string; field?: ReviewAssignmentField }
+  | { kind: 'criterion'; assignmentId: string; criterion: string }; // AnalyticRubric criterion name
+
+export interface PeerReviewRequest {
+  id: string;
+  projectId: string;
+  projectTitle: string;
+  ownerId: string;
+  ownerName?: string;
+  reviewerEmail: string; // lower-cased; security rules match it against the reviewer's token
+  reviewerId?: string;   // set when the reviewer opens the request
+  reviewerName?: string;
+  message?: string;
+  status: PeerReviewStatus;
+  showcase: ProjectShowcaseV2; // snapshot the comments are anchored to
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReviewComment {
+  id: string;
+  requestId: string;
+  anchor: ReviewAnchor;
+  anchorKey: string;
+  parentId: string | null; // replies point at the thread's first comment
+  authorId: string;
+  authorName?: string;
+  body: string;
+  resolved: boolean;       // only meaningful on thread roots
+  resolvedBy?: string | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReviewThread {
+  root: ReviewComment;
+  replies: ReviewComment[];
+}
+
+export interface ReviewUser {
+  id: string;
+  name?: string;
+  email?: string;
+  emailVerified?: boolean; // Firestore rules only match reviewers by a verified email
+  anonymous?: boolean;
+}
+
+export interface PeerReviewRequestInput {
+  projectId: string;
+  showcase: ProjectShowcaseV2;
+  reviewerEmail: string;
+  projectTitle?: string;
+  message?: string;
+}
+
+export interface ReviewCommentInput {
+  anchor: ReviewAnchor;
+  body: string;
+  parentId?: string;
+}
+
+export interface FeedbackSummary extends ReviewFeedbackSummary {
+  openThreads: number;
+  source: 'ai' | 'fallback';
+}
+
+export interface ExpertReviewServiceOptions {
+  store?: ReviewStore;
+  resolveUser?: () => Promise<ReviewUser | undefined>;
+  summarize?: (prompt: string) => Promise<ReviewFeedbackSummary | null>;
+  now?: () => number;
+}
+
+export const ASSIGNMENT_FIELD_LABELS: Record<ReviewAssignmentField, string> = {
+  summary: 'Summary',
+  studentDirections: 'Student directions',
+  teacherSetup: 'Teacher setup',
+  evidence: 'Evidence',
+  successCriteria: 'Success criteria',
+  checkpoint: 'Checkpoint',
+  aiOptional: 'AI use',
+  safety: 'Safety'
+};
+
+const MAX_COMMENT_LENGTH = 4000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function reviewAnchorKey(anchor: ReviewAnchor): string {
+  switch (anchor.kind) {
+    case 'project': return 'project';
+    case 'week': return `week:${anchor.weekIndex}`;
+    case 'assignment': return anchor.field ? `assignment:${anchor.assignmentId}:${anchor.field}` : `assignment:${anchor.assignmentId}`;
+    case 'criterion': return `criterion:${anchor.assignmentId}:${anchor.criterion}`;
+  }
+}
+
+/**
+ * "Week 2", "A1 › Evidence", "A1 › Rubric: Evidence use"
+ */
+export function reviewAnchorLabel(anchor: ReviewAnchor, showcase?: ProjectShowcaseV2): string {
+  switch (anchor.kind) {
+    case 'project': return 'Whole project';
+    case 'week': return showcase?.runOfShow?.[anchor.weekIndex]?.weekLabel || `Week ${anchor.weekIndex + 1}`;
+    case 'assignment': return anchor.field ? `${anchor.assignmentId} › ${ASSIGNMENT_FIELD_LABELS[anchor.field]}` : anchor.assignmentId;
+    case 'criterion': return `${anchor.assignmentId} › Rubric: ${anchor.criterion}`;
+  }
+}
+
+/**
+ * Group comments into threads (oldest first); replies whose root is missing become roots
+ */
+export function buildReviewThreads(comments: ReviewComment[]): ReviewThread[] {
+  const sorted = comments.slice().sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const threads = new Map<string, ReviewThread>();
+  sorted.forEach(comment => {
+    const parent = comment.parentId ? threads.get(comment.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(comment);
+    } else {
+      threads.set(comment.id, { root: comment, replies: [] });
+    }
+  });
+  return Array.from(threads.values());
+}
+
 export class ExpertReviewService {
   private reviews: Map<string, ExpertReview[]> = new Map();
+  private store: ReviewStore | null;
+  private storePromise: Promise<ReviewStore> | null = null;
+  private readonly resolveUser: () => Promise<ReviewUser | undefined>;
+  private readonly summarize: (prompt: string) => Promise<ReviewFeedbackSummary | null>;
+  private readonly now: () => number;
+
   private availableExperts: Expert[] = [
     {
       id: 'exp_1',
@@ -69,6 +224,13 @@ export class ExpertReviewService {
     }
   ];
 
+  constructor(options: ExpertReviewServiceOptions = {}) {
+    this.store = options.store ?? null;
+    this.resolveUser = options.resolveUser ?? defaultReviewUser;
+    this.summarize = options.summarize ?? summarizeWithAI;
+    this.now = options.now ?? (() => Date.now());
+  }
+
   /**
    * Request expert review for a blueprint
    */
@@ -240,6 +402,249 @@ export class ExpertReviewService {
     return suggestions;
   }
 
+  // ============= PEER REVIEW =============
+
+  /**
+   * Ask another user (by email) to review a showcase snapshot of a project
+   */
+  async requestPeerReview(input: PeerReviewRequestInput): Promise<PeerReviewRequest> {
+    const user = await this.requireUser();
+    if (user.anonymous) {
+      throw new Error('Sign in with an account to request a review');
+    }
+    const reviewerEmail = input.reviewerEmail.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(reviewerEmail)) {
+      throw new Error('Enter a valid reviewer email');
+    }
+    if (user.email && user.email.toLowerCase() === reviewerEmail) {
+      throw new Error('Choose someone other than yourself to review this project');
+    }
+
+    const timestamp = this.timestamp();
+    const request: PeerReviewRequest = {
+      id: this.createId('review'),
+      projectId: input.projectId,
+      projectTitle: input.projectTitle || input.showcase.hero?.title || 'Untitled project',
+      ownerId: user.id,
+      ownerName: user.name,
+      reviewerEmail,
+      message: input.message?.trim() || undefined,
+      status: 'requested',
+      showcase: input.showcase,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+    await (await this.getStore()).createRequest(request);
+    return request;
+  }
+
+  /**
+   * Reviews the current user requested, optionally for one project
+   */
+  async listRequestedReviews(projectId?: string): Promise<PeerReviewRequest[]> {
+    const user = await this.resolveUser();
+    if (!user) {return [];}
+    return (await this.getStore()).listRequests({ ownerId: user.id, projectId });
+  }
+
+  /**
+   * Reviews other users asked the current user for
+   */
+  async listAssignedReviews(): Promise<PeerReviewRequest[]> {
+    const user = await this.resolveUser();
+    const email = user && verifiedEmail(user);
+    if (!email) {return [];}
+    return (await this.getStore()).listRequests({ reviewerEmail: email });
+  }
+
+  async getPeerReview(requestId: string): Promise<PeerReviewRequest | null> {
+    return (await this.getStore()).getRequest(requestId);
+  }
+
+  /**
+   * Claim a request when the reviewer first opens it
+   */
+  async startPeerReview(requestId: string): Promise<PeerReviewRequest | null> {
+    const [store, user] = await Promise.all([this.getStore(), this.resolveUser()]);
+    const request = await store.getRequest(requestId);
+    if (!request || !user || request.status !== 'requested' || !this.isReviewer(request, user)) {
+      return request;
+    }
+    const patch = { status: 'in-review' as const, reviewerId: user.id, reviewerName: user.name, updatedAt: this.timestamp() };
+    await store.updateRequest(requestId, patch);
+    return { ...request, ...patch };
+  }
+
+  async setPeerReviewStatus(requestId: string, status: PeerReviewStatus): Promise<void> {
+    await (await this.getStore()).updateRequest(requestId, { status, updatedAt: this.timestamp() });
+  }
+
+  /**
+   * Add a comment; replies join the parent's thread and inherit its anchor
+   */
+  async addComment(requestId: string, input: ReviewCommentInput): Promise<ReviewComment> {
+    const body = input.body.trim();
+    if (!body) {throw new Error('Comment is empty');}
+    if (body.length > MAX_COMMENT_LENGTH) {throw new Error(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);}
+
+    const [store, user] = await Promise.all([this.getStore(), this.requireUser()]);
+    let anchor = input.anchor;
+    let parentId: string | null = null;
+    if (input.parentId) {
+      const parent = (await store.listComments(requestId)).find(comment => comment.id === input.parentId);
+      if (!parent) {throw new Error('The comment you replied to no longer exists');}
+      parentId = parent.parentId ?? parent.id;
+      anchor = parent.anchor;
+    }
+
+    const timestamp = this.timestamp();
+    const comment: ReviewComment = {
+      id: this.createId('comment'),
+      requestId,
+      anchor,
+      anchorKey: reviewAnchorKey(anchor),
+      parentId,
+      authorId: user.id,
+      authorName: user.name,
+      body,
+      resolved: false,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+    await store.addComment(comment);
+    return comment;
+  }
+
+  /**
+   * Resolve or reopen the thread a comment belongs to
+   */
+  async setThreadResolved(requestId: string, commentId: string, resolved: boolean): Promise<void> {
+    const [store, user] = await Promise.all([this.getStore(), this.requireUser()]);
+    const comment = (await store.listComments(requestId)).find(c => c.id === commentId);
+    if (!comment) {throw new Error('Comment not found');}
+    const timestamp = this.timestamp();
+    await store.updateComment(requestId, comment.parentId ?? comment.id, {
+      resolved,
+      resolvedBy: resolved ? user.id : null,
+      resolvedAt: resolved ? timestamp : null,
+      updatedAt: timestamp
+    });
+  }
+
+  async listComments(requestId: string): Promise<ReviewComment[]> {
+    return (await this.getStore()).listComments(requestId);
+  }
+
+  /**
+   * Live comment updates for a review; returns an unsubscribe function
+   */
+  watchComments(requestId: string, callback: (comments: ReviewComment[]) => void): () => void {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+    this.getStore()
+      .then(store => {
+        if (!cancelled) {unsubscribe = store.watchComments(requestId, callback);}
+      })
+      .catch(error => {
+        console.warn('[ExpertReviewService] Failed to watch comments:', error);
+      });
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }
+
+  /**
+   * Summarize unresolved threads into a few actionable themes
+   */
+  async summarizeOpenFeedback(requestId: string): Promise<FeedbackSummary> {
+    const store = await this.getStore();
+    const [request, comments] = await Promise.all([store.getRequest(requestId), store.listComments(requestId)]);
+    const open = buildReviewThreads(comments).filter(thread => !thread.root.resolved);
+    if (open.length === 0) {
+      return { overview: 'No open feedback.', themes: [], openThreads: 0, source: 'fallback' };
+    }
+
+    const showcase = request?.showcase;
+    const lines = open.map(thread => {
+      const replies = thread.replies.map(reply => `    - reply: ${reply.body}`).join('\n');
+      return `- [${thread.root.anchorKey}] ${reviewAnchorLabel(thread.root.anchor, showcase)}: ${thread.root.body}${replies ? `\n${replies}` : ''}`;
+    });
+    const prompt = `You are helping a teacher act on review feedback for the project "${request?.projectTitle || 'Untitled project'}".
+
+Open review comments (anchor key in brackets):
+${lines.join('\n')}
+
+Group the feedback into at most 6 themes. For each theme give a short title, the anchor keys it covers, and one concrete next action for the teacher (≤ 25 words). Start with a 1–2 sentence overview.
+
+Return ONLY valid JSON.`;
+
+    try {
+      const summary = await this.summarize(prompt);
+      if (summary) {
+        return { ...summary, openThreads: open.length, source: 'ai' };
+      }
+    } catch (error) {
+      console.warn('[ExpertReviewService] Feedback summary failed, using fallback:', error);
+    }
+    return { ...this.fallbackSummary(open, showcase), openThreads: open.length, source: 'fallback' };
+  }
+
+  private fallbackSummary(open: ReviewThread[], showcase?: ProjectShowcaseV2): ReviewFeedbackSummary {
+    const byAnchor = new Map<string, ReviewThread[]>();
+    open.forEach(thread => {
+      byAnchor.set(thread.root.anchorKey, [...(byAnchor.get(thread.root.anchorKey) ?? []), thread]);
+    });
+    const themes = Array.from(byAnchor.entries())
+      .sort((a, b) => b[1].length - a[1].length)
+      .slice(0, 6)
+      .map(([anchorKey, threads]) => {
+        const latest = threads[threads.length - 1].root.body;
+        return {
+          title: reviewAnchorLabel(threads[0].root.anchor, showcase),
+          anchors: [anchorKey],
+          action: latest.length > 160 ? `${latest.slice(0, 160)}…` : latest
+        };
+      });
+    return {
+      overview: `${open.length} open thread${open.length !== 1 ? 's' : ''} across ${byAnchor.size} part${byAnchor.size !== 1 ? 's' : ''} of the project.`,
+      themes
+    };
+  }
+
+  private isReviewer(request: PeerReviewRequest, user: ReviewUser): boolean {
+    return request.reviewerId === user.id || verifiedEmail(user) === request.reviewerEmail;
+  }
+
+  private async requireUser(): Promise<ReviewUser> {
+    const user = await this.resolveUser();
+    if (!user) {
+      throw new Error('Sign in to use peer review');
+    }
+    return user;
+  }
+
+  private getStore(): Promise<ReviewStore> {
+    if (this.store) {return Promise.resolve(this.store);}
+    if (!this.storePromise) {
+      this.storePromise = import('./ReviewStore')
+        .then(({ createDefaultReviewStore }) => createDefaultReviewStore())
+        .then(store => {
+          this.store = store;
+          return store;
+        });
+    }
+    return this.storePromise;
+  }
+
+  private timestamp(): string {
+    return new Date(this.now()).toISOString();
+  }
+
+  private createId(prefix: string): string {
+    return `${prefix}_${this.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+
   // Evaluation helpers
   private evaluateIdeation(blueprint: BlueprintDoc): number {
     let score = 3; // Base score
@@ -301,6 +706,40 @@ export class ExpertReviewService {
   }
 }
 
+async function defaultReviewUser(): Promise<ReviewUser | undefined> {
+  const { auth } = await import('../../firebase/firebase');
+  const user = auth?.currentUser;
+  if (!user) {return undefined;}
+  return {
+    id: user.uid,
+    name: user.displayName || user.email || undefined,
+    email: user.email || undefined,
+    emailVerified: user.emailVerified,
+    anonymous: user.isAnonymous
+  };
+}
+
+function verifiedEmail(user: ReviewUser): string | null {
+  return user.email && user.emailVerified ? user.email.toLowerCase() : null;
+}
+
+async function summarizeWithAI(prompt: string): Promise<ReviewFeedbackSummary | null> {
+  const { generateStructuredAI, parseLooseJSON } = await import('../../features/chat-mvp/domain/structuredAI');
+  const { data } = await generateStructuredAI({
+    prompt,
+    schema: zReviewFeedbackSummary,
+    expectedFormat: '{ "overview": "...", "themes": [{ "title": "...", "anchors": ["week:0"], "action": "..." }] }',
+    stage: 'DELIVERABLES',
+    wizard: {},
+    heuristic: raw => {
+      const parsed = zReviewFeedbackSummary.safeParse(parseLooseJSON(raw));
+      return parsed.success ? parsed.data : null;
+    },
+    options: { label: 'review_summary', temperature: 0.3, maxTokens: 800 }
+  });
+  return data;
+}
+
 interface Expert {
   id: string;
   name: string;
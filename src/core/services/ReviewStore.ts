@@ -0,0 +1,193 @@
+/**
+ * ReviewStore.ts - Persistence for peer review requests and anchored comments
+ *
+ * Layout (Firestore, see firestore.rules):
+ * - reviewRequests/{requestId}                      → PeerReviewRequest (with showcase snapshot)
+ * - reviewRequests/{requestId}/comments/{commentId} → ReviewComment
+ *
+ * Adapters:
+ * - FirestoreReviewStore: shared between the teacher and the reviewer
+ * - MemoryReviewStore:    tests and offline mode (nothing leaves the device)
+ */
+
+import type { Firestore } from 'firebase/firestore';
+import type { PeerReviewRequest, ReviewComment } from './ExpertReviewService';
+
+export interface ReviewRequestFilter {
+  ownerId?: string;
+  reviewerEmail?: string;
+  projectId?: string;
+}
+
+export interface ReviewStore {
+  readonly name: 'firestore' | 'memory';
+  createRequest(request: PeerReviewRequest): Promise<void>;
+  getRequest(requestId: string): Promise<PeerReviewRequest | null>;
+  updateRequest(requestId: string, patch: Partial<PeerReviewRequest>): Promise<void>;
+  listRequests(filter: ReviewRequestFilter): Promise<PeerReviewRequest[]>;
+  addComment(comment: ReviewComment): Promise<void>;
+  updateComment(requestId: string, commentId: string, patch: Partial<ReviewComment>): Promise<void>;
+  listComments(requestId: string): Promise<ReviewComment[]>;
+  // Calls back with the full comment list on every change; returns an unsubscribe function
+  watchComments(requestId: string, callback: (comments: ReviewComment[]) => void): () => void;
+}
+
+const byCreatedAt = (a: { createdAt: string }, b: { createdAt: string }) => a.createdAt.localeCompare(b.createdAt);
+
+// Firestore rejects undefined fields
+const clean = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export class MemoryReviewStore implements ReviewStore {
+  readonly name = 'memory' as const;
+  private readonly requests = new Map<string, PeerReviewRequest>();
+  private readonly comments = new Map<string, ReviewComment[]>();
+  private readonly watchers = new Map<string, Set<(comments: ReviewComment[]) => void>>();
+
+  async createRequest(request: PeerReviewRequest): Promise<void> {
+    this.requests.set(request.id, clean(request));
+  }
+
+  async getRequest(requestId: string): Promise<PeerReviewRequest | null> {
+    const request = this.requests.get(requestId);
+    return request ? clean(request) : null;
+  }
+
+  async updateRequest(requestId: string, patch: Partial<PeerReviewRequest>): Promise<void> {
+    const request = this.requests.get(requestId);
+    if (!request) {throw new Error(`Review request ${requestId} not found`);}
+    this.requests.set(requestId, clean({ ...request, ...patch }));
+  }
+
+  async listRequests(filter: ReviewRequestFilter): Promise<PeerReviewRequest[]> {
+    return Array.from(this.requests.values())
+      .filter(request =>
+        (!filter.ownerId || request.ownerId === filter.ownerId)
+        && (!filter.reviewerEmail || request.reviewerEmail === filter.reviewerEmail)
+        && (!filter.projectId || request.projectId === filter.projectId))
+      .map(clean)
+      .sort(byCreatedAt);
+  }
+
+  async addComment(comment: ReviewComment): Promise<void> {
+    this.comments.set(comment.requestId, [...(this.comments.get(comment.requestId) ?? []), clean(comment)]);
+    this.emit(comment.requestId);
+  }
+
+  async updateComment(requestId: string, commentId: string, patch: Partial<ReviewComment>): Promise<void> {
+    const list = this.comments.get(requestId) ?? [];
+    if (!list.some(comment => comment.id === commentId)) {throw new Error(`Comment ${commentId} not found`);}
+    this.comments.set(requestId, list.map(comment => (comment.id === commentId ? clean({ ...comment, ...patch }) : comment)));
+    this.emit(requestId);
+  }
+
+  async listComments(requestId: string): Promise<ReviewComment[]> {
+    return (this.comments.get(requestId) ?? []).map(clean).sort(byCreatedAt);
+  }
+
+  watchComments(requestId: string, callback: (comments: ReviewComment[]) => void): () => void {
+    const watchers = this.watchers.get(requestId) ?? new Set();
+    watchers.add(callback);
+    this.watchers.set(requestId, watchers);
+    void this.listComments(requestId).then(callback);
+    return () => {
+      watchers.delete(callback);
+    };
+  }
+
+  private emit(requestId: string) {
+    const watchers = this.watchers.get(requestId);
+    if (!watchers?.size) {return;}
+    void this.listComments(requestId).then(comments => {
+      watchers.forEach(callback => callback(comments));
+    });
+  }
+}
+
+export class FirestoreReviewStore implements ReviewStore {
+  readonly name = 'firestore' as const;
+
+  async createRequest(request: PeerReviewRequest): Promise<void> {
+    const { db, firestore } = await loadFirestore();
+    await firestore.setDoc(firestore.doc(db, 'reviewRequests', request.id), clean(request));
+  }
+
+  async getRequest(requestId: string): Promise<PeerReviewRequest | null> {
+    const { db, firestore } = await loadFirestore();
+    const snapshot = await firestore.getDoc(firestore.doc(db, 'reviewRequests', requestId));
+    return snapshot.exists() ? { ...(snapshot.data() as PeerReviewRequest), id: snapshot.id } : null;
+  }
+
+  async updateRequest(requestId: string, patch: Partial<PeerReviewRequest>): Promise<void> {
+    const { db, firestore } = await loadFirestore();
+    await firestore.updateDoc(firestore.doc(db, 'reviewRequests', requestId), clean(patch));
+  }
+
+  async listRequests(filter: ReviewRequestFilter): Promise<PeerReviewRequest[]> {
+    const { db, firestore } = await loadFirestore();
+    // Equality filters only, so no composite index is needed; sorted client-side
+    const constraints = Object.entries(filter)
+      .filter(([, value]) => Boolean(value))
+      .map(([field, value]) => firestore.where(field, '==', value));
+    const snapshot = await firestore.getDocs(firestore.query(firestore.collection(db, 'reviewRequests'), ...constraints));
+    return snapshot.docs
+      .map(docSnap => ({ ...(docSnap.data() as PeerReviewRequest), id: docSnap.id }))
+      .sort(byCreatedAt);
+  }
+
+  async addComment(comment: ReviewComment): Promise<void> {
+    const { db, firestore } = await loadFirestore();
+    await firestore.setDoc(firestore.doc(db, 'reviewRequests', comment.requestId, 'comments', comment.id), clean(comment));
+  }
+
+  async updateComment(requestId: string, commentId: string, patch: Partial<ReviewComment>): Promise<void> {
+    const { db, firestore } = await loadFirestore();
+    await firestore.updateDoc(firestore.doc(db, 'reviewRequests', requestId, 'comments', commentId), clean(patch));
+  }
+
+  async listComments(requestId: string): Promise<ReviewComment[]> {
+    const { db, firestore } = await loadFirestore();
+    const snapshot = await firestore.getDocs(firestore.collection(db, 'reviewRequests', requestId, 'comments'));
+    return snapshot.docs.map(docSnap => docSnap.data() as ReviewComment).sort(byCreatedAt);
+  }
+
+  watchComments(requestId: string, callback: (comments: ReviewComment[]) => void): () => void {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+    void loadFirestore()
+      .then(({ db, firestore }) => {
+        if (cancelled) {return;}
+        unsubscribe = firestore.onSnapshot(
+          firestore.collection(db, 'reviewRequests', requestId, 'comments'),
+          snapshot => callback(snapshot.docs.map(docSnap => docSnap.data() as ReviewComment).sort(byCreatedAt)),
+          error => console.warn('[ReviewStore] Comment listener failed:', error)
+        );
+      })
+      .catch(error => {
+        console.warn('[ReviewStore] Failed to watch comments:', error);
+      });
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }
+}
+
+async function loadFirestore() {
+  const [firestore, { db }] = await Promise.all([
+    import('firebase/firestore'),
+    import('../../firebase/firebase')
+  ]);
+  if (!db || db.type !== 'firestore') {
+    throw new Error('Firestore is not available');
+  }
+  // ExtendedFirestore widens `type` with 'offline', which the SDK signatures reject
+  return { firestore, db: db as unknown as Firestore };
+}
+
+/**
+ * Firestore when Firebase is configured, otherwise an in-memory store
+ */
+export async function createDefaultReviewStore(): Promise<ReviewStore> {
+  const { db, isOfflineMode } = await import('../../firebase/firebase');
+  return !isOfflineMode && db?.type === 'firestore' ? new FirestoreReviewStore() : new MemoryReviewStore();
+}
@@ -1,24 +1,267 @@
 /**
- * RevisionService.ts - Track changes and maintain history of blueprint edits
+ * RevisionService.ts - Track changes and maintain history of project edits
+ *
+ * Every meaningful save of a project (stage capture, showcase edit, assignment
+ * edit) records a revision: author, timestamp, the sections that changed with a
+ * one-line summary, and a structural diff against the previous revision.
+ *
+ * Storage:
+ * - IndexedDB ('revisions' store in alf-coach-db):
+ *   `index:<projectId>` → RevisionEntry[] (oldest first, capped at 50)
+ *   `snapshot:<revisionId>` → full project snapshot
+ * - Firebase Storage mirror: users/<uid>/projects/<projectId>/snapshots/revisions/<revisionId>.json,
+ *   written on cloud sync so history follows the teacher across devices
+ * - In-memory fallback when IndexedDB is unavailable (tests, private browsing)
+ *
+ * Restoring appends a new 'restore' revision; history is never rewritten.
+ * The start/track/commit API is kept for SOPFlowManager blueprint edits.
  */
 
 import { type BlueprintDoc } from '../types/SOPTypes';
+import { idb } from '../../services/IndexedDBStore';
 
-export interface Revision {
+export type RevisionSnapshot = Record<string, unknown>;
+
+export type RevisionSource = 'stage' | 'showcase' | 'assignment' | 'details' | 'restore' | 'manual';
+
+export type RevisionSection =
+  | 'details'
+  | 'setup'
+  | 'ideation'
+  | 'journey'
+  | 'deliverables'
+  | 'showcase'
+  | 'assignments'
+  | 'other';
+
+export interface ChangeRecord {
+  path: string; // e.g., "ideation.bigIdea" or "showcase.assignments[A1].title"
+  oldValue: unknown;
+  newValue: unknown;
+  action: 'create' | 'update' | 'delete';
+  section?: RevisionSection;
+}
+
+export interface RevisionEntry {
   id: string;
   timestamp: Date;
-  blueprintId: string;
+  blueprintId: string; // project or blueprint id
   changes: ChangeRecord[];
+  changeCount?: number; // total before truncation to MAX_CHANGES
   author?: string;
+  authorName?: string;
   comment?: string;
-  snapshot: BlueprintDoc;
+  parentId?: string | null;
+  source?: RevisionSource;
+  sections?: RevisionSection[];
+  summary?: string;
+  mirroredPath?: string;
 }
 
-export interface ChangeRecord {
-  path: string; // e.g., "ideation.bigIdea"
-  oldValue: any;
-  newValue: any;
-  action: 'create' | 'update' | 'delete';
+export interface Revision extends RevisionEntry {
+  snapshot: RevisionSnapshot;
+}
+
+export interface RevisionAuthor {
+  id: string;
+  name?: string;
+}
+
+export interface RecordRevisionOptions {
+  author?: RevisionAuthor;
+  source?: RevisionSource;
+  comment?: string;
+  // Top-level fields that, when absent from the new snapshot, keep their previous value
+  carryForward?: string[];
+}
+
+export interface RevisionComparison {
+  from: RevisionEntry;
+  to: RevisionEntry;
+  changes: ChangeRecord[];
+  sections: RevisionSection[];
+  summary: string;
+}
+
+export interface RevisionKeyValue {
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+export interface RevisionMirror {
+  upload(userId: string, projectId: string, revision: Revision): Promise<string | null>;
+  trim(userId: string, projectId: string, maxKeep: number): Promise<void>;
+  list(userId: string, projectId: string): Promise<string[]>;
+  download(path: string): Promise<Revision | null>;
+}
+
+export interface RevisionServiceOptions {
+  backend?: RevisionKeyValue;
+  mirror?: RevisionMirror;
+  resolveAuthor?: () => Promise<RevisionAuthor | undefined>;
+  now?: () => number;
+}
+
+export const SECTION_LABELS: Record<RevisionSection, string> = {
+  details: 'Project details',
+  setup: 'Setup',
+  ideation: 'Ideation',
+  journey: 'Journey',
+  deliverables: 'Deliverables',
+  showcase: 'Showcase',
+  assignments: 'Assignments',
+  other: 'Other'
+};
+
+const STORE = 'revisions';
+const MAX_CHANGES = 100;
+const PREVIEW_LENGTH = 280;
+const COALESCE_MS = 60_000;
+
+// Bookkeeping that changes on every save without changing the project itself
+const VOLATILE_FIELDS = new Set([
+  'updatedAt',
+  'createdAt',
+  'lastSyncAt',
+  'syncStatus',
+  'hasPendingChanges',
+  'lastError',
+  'lastOpenedStep',
+  'stage',
+  'currentStage',
+  'stageStatus',
+  'progress',
+  'status',
+  'provisional',
+  'deletedAt',
+  'showcaseRef',
+  'chatHistory',
+  'editHistory',
+  'version',
+  'userId'
+]);
+
+const indexKey = (projectId: string) => `index:${projectId}`;
+const snapshotKey = (revisionId: string) => `snapshot:${revisionId}`;
+
+function createMemoryBackend(): RevisionKeyValue {
+  const data = new Map<string, unknown>();
+  return {
+    async get<T>(key: string) {return (data.has(key) ? data.get(key) as T : null);},
+    async set(key, value) {data.set(key, value);},
+    async remove(key) {data.delete(key);}
+  };
+}
+
+function createIdbBackend(): RevisionKeyValue {
+  return {
+    get: <T>(key: string) => idb.get<T>(STORE, key),
+    set: (key, value) => idb.set(STORE, key, value),
+    remove: (key) => idb.remove(STORE, key)
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasIds(list: unknown[]): boolean {
+  return list.length > 0 && list.every(item => isPlainObject(item) && typeof item.id === 'string' && item.id);
+}
+
+function preview(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length > PREVIEW_LENGTH ? `${value.slice(0, PREVIEW_LENGTH)}…` : value;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const json = JSON.stringify(value);
+    return json.length > PREVIEW_LENGTH ? `${json.slice(0, PREVIEW_LENGTH)}…` : value;
+  }
+  return value;
+}
+
+/**
+ * Strip bookkeeping fields, then JSON round-trip so Dates compare as strings
+ */
+export function toRevisionSnapshot(project: Record<string, unknown>): RevisionSnapshot {
+  const snapshot: RevisionSnapshot = {};
+  Object.entries(project).forEach(([key, value]) => {
+    if (VOLATILE_FIELDS.has(key) || value === undefined) {return;}
+    snapshot[key] = value;
+  });
+  return JSON.parse(JSON.stringify(snapshot));
+}
+
+// ChatMVP stores captured data twice (`ideation.bigIdea` and `ideation: { bigIdea }`);
+// snapshots keep both for restore, diffs only look at the nested copy
+function comparable(snapshot: RevisionSnapshot | null): RevisionSnapshot {
+  if (!snapshot || !isPlainObject(snapshot.capturedData)) {return snapshot ?? {};}
+  return {
+    ...snapshot,
+    capturedData: Object.fromEntries(Object.entries(snapshot.capturedData).filter(([field]) => !field.includes('.')))
+  };
+}
+
+/**
+ * Which part of the project a diff path belongs to
+ */
+export function sectionForPath(path: string): RevisionSection {
+  const [root, child] = path.split(/[.[]/);
+  if (root === 'showcase') {return child === 'assignments' ? 'assignments' : 'showcase';}
+  if (root === 'capturedData' || root === 'projectData') {
+    return child === 'ideation' || child === 'journey' || child === 'deliverables' ? child : 'other';
+  }
+  if (root === 'ideation' || root === 'journey' || root === 'deliverables') {return root;}
+  if (root === 'wizardData' || root === 'wizard') {return 'setup';}
+  if (root === 'title' || root === 'tagline' || root === 'description') {return 'details';}
+  return 'other';
+}
+
+/**
+ * Structural diff. Objects recurse by key; arrays of objects recurse by `id` when
+ * every element has one (so reordering does not read as edits), otherwise by index;
+ * arrays of primitives and leaf values compare whole.
+ */
+export function diffSnapshots(before: unknown, after: unknown): ChangeRecord[] {
+  const changes: ChangeRecord[] = [];
+
+  const record = (path: string, oldValue: unknown, newValue: unknown) => {
+    const action = oldValue === undefined ? 'create' : newValue === undefined ? 'delete' : 'update';
+    changes.push({ path, oldValue: preview(oldValue), newValue: preview(newValue), action, section: sectionForPath(path) });
+  };
+
+  const walk = (a: unknown, b: unknown, path: string) => {
+    if (a === b) {return;}
+    if (isPlainObject(a) && isPlainObject(b)) {
+      new Set([...Object.keys(a), ...Object.keys(b)]).forEach(key => {
+        walk(a[key], b[key], path ? `${path}.${key}` : key);
+      });
+      return;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+      if (hasIds(a) && hasIds(b)) {
+        const before = new Map(a.map(item => [item.id as string, item]));
+        const after = new Map(b.map(item => [item.id as string, item]));
+        new Set([...after.keys(), ...before.keys()]).forEach(id => {
+          walk(before.get(id), after.get(id), `${path}[${id}]`);
+        });
+        return;
+      }
+      if (a.some(isPlainObject) || b.some(isPlainObject)) {
+        for (let index = 0; index < Math.max(a.length, b.length); index++) {
+          walk(a[index], b[index], `${path}[${index}]`);
+        }
+        return;
+      }
+    }
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      record(path, a, b);
+    }
+  };
+
+  walk(before ?? {}, after ?? {}, '');
+  return changes;
 }
 
 export class RevisionService {
@@ -26,24 +269,240 @@ export class RevisionService {
   private currentRevision: Revision | null = null;
   private maxRevisions = 50; // Keep last 50 revisions per blueprint
 
+  private readonly backend: RevisionKeyValue;
+  private readonly mirror?: RevisionMirror;
+  private readonly resolveAuthor: () => Promise<RevisionAuthor | undefined>;
+  private readonly now: () => number;
+  private readonly queues = new Map<string, Promise<unknown>>();
+  private readonly listeners = new Set<(projectId: string) => void>();
+
+  constructor(options: RevisionServiceOptions = {}) {
+    this.backend = options.backend
+      ?? (typeof indexedDB === 'undefined' ? createMemoryBackend() : createIdbBackend());
+    this.mirror = options.mirror;
+    this.resolveAuthor = options.resolveAuthor ?? defaultAuthor;
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  // ============= PROJECT REVISIONS =============
+
+  /**
+   * Record a revision for a project save. Returns null when nothing meaningful
+   * changed. Consecutive saves by the same author to the same sections within a
+   * minute fold into one revision so autosave does not flood the history.
+   */
+  recordRevision(projectId: string, project: Record<string, unknown>, options: RecordRevisionOptions = {}): Promise<RevisionEntry | null> {
+    return this.serialize(projectId, async () => {
+      const history = await this.readIndex(projectId);
+      const last = history[history.length - 1];
+      const lastSnapshot = last ? await this.readSnapshot(last.id) : null;
+
+      const snapshot = toRevisionSnapshot(project);
+      (options.carryForward ?? []).forEach(field => {
+        if (snapshot[field] === undefined && lastSnapshot?.[field] !== undefined) {
+          snapshot[field] = lastSnapshot[field];
+        }
+      });
+
+      const changes = diffSnapshots(comparable(lastSnapshot), comparable(snapshot));
+      if (changes.length === 0) {return null;}
+
+      const author = options.author ?? await this.resolveAuthor().catch(() => undefined);
+      const sections = this.sectionsOf(changes);
+      const source = options.source ?? this.sourceFor(sections);
+      const timestamp = this.now();
+
+      const foldable = last
+        && options.source !== 'restore'
+        && last.source === source
+        && last.author === author?.id
+        && timestamp - new Date(last.timestamp).getTime() < COALESCE_MS
+        && !last.mirroredPath;
+
+      let parentSnapshot = lastSnapshot;
+      let parentId: string | null = last?.id ?? null;
+      if (foldable && last) {
+        parentId = last.parentId ?? null;
+        parentSnapshot = parentId ? await this.readSnapshot(parentId) : null;
+        history.pop();
+        await this.backend.remove(snapshotKey(last.id));
+      }
+
+      const diff = foldable ? diffSnapshots(comparable(parentSnapshot), comparable(snapshot)) : changes;
+      if (diff.length === 0) {
+        await this.backend.set(indexKey(projectId), history);
+        this.notify(projectId);
+        return null;
+      }
+
+      const entry: RevisionEntry = {
+        id: this.createId(),
+        timestamp: new Date(timestamp),
+        blueprintId: projectId,
+        changes: diff.slice(0, MAX_CHANGES),
+        changeCount: diff.length,
+        author: author?.id,
+        authorName: author?.name,
+        comment: options.comment,
+        parentId,
+        source,
+        sections: this.sectionsOf(diff),
+        summary: this.summarizeChanges(diff)
+      };
+
+      history.push(entry);
+      await this.backend.set(snapshotKey(entry.id), snapshot);
+      await this.writeIndex(projectId, history);
+      this.notify(projectId);
+      return entry;
+    });
+  }
+
+  /**
+   * Revision history for a project, oldest first (snapshots are loaded on demand)
+   */
+  listRevisions(projectId: string): Promise<RevisionEntry[]> {
+    return this.serialize(projectId, () => this.readIndex(projectId));
+  }
+
+  /**
+   * A revision with its full project snapshot
+   */
+  async loadRevision(projectId: string, revisionId: string): Promise<Revision | null> {
+    const history = await this.listRevisions(projectId);
+    const entry = history.find(r => r.id === revisionId);
+    if (!entry) {return null;}
+    const snapshot = await this.readSnapshot(revisionId);
+    return snapshot ? { ...entry, snapshot } : null;
+  }
+
+  /**
+   * Diff any two revisions of the same project (older → newer regardless of argument order)
+   */
+  async compareRevisions(projectId: string, firstId: string, secondId: string): Promise<RevisionComparison | null> {
+    const [first, second] = await Promise.all([
+      this.loadRevision(projectId, firstId),
+      this.loadRevision(projectId, secondId)
+    ]);
+    if (!first || !second) {return null;}
+    const [from, to] = new Date(first.timestamp).getTime() <= new Date(second.timestamp).getTime()
+      ? [first, second]
+      : [second, first];
+    const changes = diffSnapshots(comparable(from.snapshot), comparable(to.snapshot));
+    const { snapshot: _from, ...fromEntry } = from;
+    const { snapshot: _to, ...toEntry } = to;
+    return {
+      from: fromEntry,
+      to: toEntry,
+      changes,
+      sections: this.sectionsOf(changes),
+      summary: this.summarizeChanges(changes)
+    };
+  }
+
+  /**
+   * Upload revisions that are not yet in Storage, then trim the mirror to the
+   * local cap. Returns how many were uploaded.
+   */
+  mirrorPending(projectId: string, userId: string): Promise<number> {
+    const mirror = this.mirror;
+    if (!mirror) {return Promise.resolve(0);}
+    return this.serialize(projectId, async () => {
+      const history = await this.readIndex(projectId);
+      let uploaded = 0;
+      for (const entry of history) {
+        if (entry.mirroredPath) {continue;}
+        const snapshot = await this.readSnapshot(entry.id);
+        if (!snapshot) {continue;}
+        const path = await mirror.upload(userId, projectId, { ...entry, snapshot });
+        if (!path) {break;} // offline or unauthorized; retry on next sync
+        entry.mirroredPath = path;
+        uploaded++;
+      }
+      if (uploaded > 0) {
+        await this.backend.set(indexKey(projectId), history);
+        await mirror.trim(userId, projectId, this.maxRevisions);
+      }
+      return uploaded;
+    });
+  }
+
+  /**
+   * Pull revisions recorded on another device from the Storage mirror
+   */
+  importMirrored(projectId: string, userId: string): Promise<number> {
+    const mirror = this.mirror;
+    if (!mirror) {return Promise.resolve(0);}
+    return this.serialize(projectId, async () => {
+      const history = await this.readIndex(projectId);
+      const known = new Set(history.map(r => r.mirroredPath ?? r.id));
+      const paths = (await mirror.list(userId, projectId)).filter(path => !known.has(path));
+      let imported = 0;
+      for (const path of paths) {
+        const revision = await mirror.download(path);
+        if (!revision || history.some(r => r.id === revision.id)) {continue;}
+        const { snapshot, ...entry } = revision;
+        history.push({ ...entry, timestamp: new Date(entry.timestamp), mirroredPath: path });
+        await this.backend.set(snapshotKey(entry.id), snapshot);
+        imported++;
+      }
+      if (imported > 0) {
+        history.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+        await this.writeIndex(projectId, history);
+        this.notify(projectId);
+      }
+      return imported;
+    });
+  }
+
+  /**
+   * Subscribe to history changes; returns an unsubscribe function
+   */
+  subscribe(listener: (projectId: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * One line per section, e.g. "Ideation: Big Idea updated · Assignments: 3 changes"
+   */
+  summarizeChanges(changes: ChangeRecord[]): string {
+    const bySection = new Map<RevisionSection, ChangeRecord[]>();
+    changes.forEach(change => {
+      const section = change.section ?? sectionForPath(change.path);
+      bySection.set(section, [...(bySection.get(section) ?? []), change]);
+    });
+    return Array.from(bySection.entries()).map(([section, list]) => {
+      if (list.length > 1) {return `${SECTION_LABELS[section]}: ${list.length} changes`;}
+      const [change] = list;
+      const verb = change.action === 'create' ? 'added' : change.action === 'delete' ? 'removed' : 'updated';
+      return `${SECTION_LABELS[section]}: ${this.getFieldDisplayName(change.path)} ${verb}`;
+    }).join(' · ');
+  }
+
+  // ============= BLUEPRINT REVISIONS (SOPFlowManager) =============
+
   /**
    * Start tracking changes for a new revision
    */
   startRevision(blueprintId: string, comment?: string): void {
     this.currentRevision = {
-      id: `rev_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: this.createId(),
       timestamp: new Date(),
       blueprintId,
       changes: [],
       comment,
-      snapshot: {} as BlueprintDoc // Will be set when committing
+      source: 'manual',
+      snapshot: {} // Will be set when committing
     };
   }
 
   /**
    * Track a change
    */
-  trackChange(path: string, oldValue: any, newValue: any): void {
+  trackChange(path: string, oldValue: unknown, newValue: unknown): void {
     if (!this.currentRevision) {
       console.warn('No active revision to track changes');
       return;
@@ -54,14 +513,15 @@ export class RevisionService {
       return;
     }
 
-    const action = oldValue === undefined ? 'create' : 
+    const action = oldValue === undefined ? 'create' :
                    newValue === undefined ? 'delete' : 'update';
 
     this.currentRevision.changes.push({
       path,
       oldValue,
       newValue,
-      action
+      action,
+      section: sectionForPath(path)
     });
   }
 
@@ -69,22 +529,22 @@ export class RevisionService {
    * Commit the current revision
    */
   commitRevision(currentSnapshot: BlueprintDoc): void {
-    if (!this.currentRevision || this.currentRevision.changes.length === 0) {
+    const revision = this.currentRevision;
+    if (!revision || revision.changes.length === 0) {
       this.currentRevision = null;
       return;
     }
 
     // Set the snapshot
-    this.currentRevision.snapshot = JSON.parse(JSON.stringify(currentSnapshot));
+    revision.snapshot = JSON.parse(JSON.stringify(currentSnapshot));
+    revision.sections = this.sectionsOf(revision.changes);
+    revision.summary = this.summarizeChanges(revision.changes);
 
     // Add to revisions list
-    const blueprintId = this.currentRevision.blueprintId;
-    if (!this.revisions.has(blueprintId)) {
-      this.revisions.set(blueprintId, []);
-    }
-
-    const revisionList = this.revisions.get(blueprintId)!;
-    revisionList.push(this.currentRevision);
+    const blueprintId = revision.blueprintId;
+    const revisionList = this.revisions.get(blueprintId) ?? [];
+    revisionList.push(revision);
+    this.revisions.set(blueprintId, revisionList);
 
     // Limit revisions
     if (revisionList.length > this.maxRevisions) {
@@ -93,6 +553,19 @@ export class RevisionService {
 
     // Clear current revision
     this.currentRevision = null;
+
+    // Persist alongside project revisions so blueprint history survives reloads
+    const { snapshot, ...entry } = revision;
+    void this.serialize(blueprintId, async () => {
+      const history = await this.readIndex(blueprintId);
+      entry.parentId = history[history.length - 1]?.id ?? null;
+      history.push(entry);
+      await this.backend.set(snapshotKey(entry.id), snapshot);
+      await this.writeIndex(blueprintId, history);
+      this.notify(blueprintId);
+    }).catch(error => {
+      console.warn('[RevisionService] Failed to persist blueprint revision:', error);
+    });
   }
 
   /**
@@ -125,12 +598,12 @@ export class RevisionService {
   /**
    * Get change summary for display
    */
-  getChangeSummary(revision: Revision): string {
+  getChangeSummary(revision: RevisionEntry): string {
     const summary: string[] = [];
-    
+
     revision.changes.forEach(change => {
       const fieldName = this.getFieldDisplayName(change.path);
-      
+
       switch (change.action) {
         case 'create':
           summary.push(`Added ${fieldName}`);
@@ -150,7 +623,7 @@ export class RevisionService {
   /**
    * Get human-readable field name
    */
-  private getFieldDisplayName(path: string): string {
+  getFieldDisplayName(path: string): string {
     const pathMap: Record<string, string> = {
       'wizard.vision': 'Project Vision',
       'wizard.subject': 'Subject',
@@ -163,57 +636,29 @@ export class RevisionService {
       'journey.activities': 'Activities',
       'journey.resources': 'Resources',
       'deliverables.milestones': 'Milestones',
+      'deliverables.artifacts': 'Artifacts',
       'deliverables.rubric': 'Assessment Rubric',
       'deliverables.impact.audience': 'Target Audience',
-      'deliverables.impact.method': 'Presentation Method'
+      'deliverables.impact.method': 'Presentation Method',
+      'showcase.hero.title': 'Showcase Title',
+      'showcase.fullOverview': 'Overview',
+      'showcase.runOfShow': 'Run of Show',
+      'showcase.assignments': 'Assignments'
     };
 
-    return pathMap[path] || path.split('.').pop() || path;
+    const normalized = path.replace(/^capturedData\./, '');
+    const collection = normalized.replace(/\[[^\]]+\].*$/, '');
+    return pathMap[normalized]
+      || (normalized.includes('[') && pathMap[collection])
+      || normalized.split('.').pop()?.replace(/\[[^\]]+\]/g, '')
+      || path;
   }
 
   /**
    * Compare two blueprints and generate changes
    */
   compareBlueprints(oldBlueprint: BlueprintDoc, newBlueprint: BlueprintDoc): ChangeRecord[] {
-    const changes: ChangeRecord[] = [];
-
-    // Helper to recursively compare objects
-    const compareObjects = (obj1: any, obj2: any, path: string) => {
-      // Get all keys from both objects
-      const allKeys = new Set([
-        ...Object.keys(obj1 || {}),
-        ...Object.keys(obj2 || {})
-      ]);
-
-      allKeys.forEach(key => {
-        const newPath = path ? `${path}.${key}` : key;
-        const val1 = obj1?.[key];
-        const val2 = obj2?.[key];
-
-        if (val1 === val2) {return;}
-
-        if (typeof val1 === 'object' && typeof val2 === 'object' && 
-            val1 !== null && val2 !== null && 
-            !Array.isArray(val1) && !Array.isArray(val2)) {
-          // Recursively compare objects
-          compareObjects(val1, val2, newPath);
-        } else if (JSON.stringify(val1) !== JSON.stringify(val2)) {
-          // Values are different
-          const action = val1 === undefined ? 'create' : 
-                        val2 === undefined ? 'delete' : 'update';
-          
-          changes.push({
-            path: newPath,
-            oldValue: val1,
-            newValue: val2,
-            action
-          });
-        }
-      });
-    };
-
-    compareObjects(oldBlueprint, newBlueprint, '');
-    return changes;
+    return diffSnapshots(oldBlueprint, newBlueprint);
   }
 
   /**
@@ -225,12 +670,102 @@ export class RevisionService {
   }
 
   /**
-   * Clear history for a blueprint
+   * Clear history for a blueprint or project (memory and IndexedDB)
    */
-  clearHistory(blueprintId: string): void {
+  clearHistory(blueprintId: string): Promise<void> {
     this.revisions.delete(blueprintId);
+    return this.serialize(blueprintId, async () => {
+      const history = await this.readIndex(blueprintId);
+      await Promise.all(history.map(entry => this.backend.remove(snapshotKey(entry.id))));
+      await this.backend.remove(indexKey(blueprintId));
+      this.notify(blueprintId);
+    });
+  }
+
+  // ============= PRIVATE =============
+
+  private async readIndex(projectId: string): Promise<RevisionEntry[]> {
+    const stored = await this.backend.get<RevisionEntry[]>(indexKey(projectId));
+    return (stored ?? []).map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }));
+  }
+
+  private async writeIndex(projectId: string, history: RevisionEntry[]): Promise<void> {
+    while (history.length > this.maxRevisions) {
+      const removed = history.shift();
+      if (removed) {await this.backend.remove(snapshotKey(removed.id));}
+    }
+    await this.backend.set(indexKey(projectId), history);
+  }
+
+  private readSnapshot(revisionId: string): Promise<RevisionSnapshot | null> {
+    return this.backend.get<RevisionSnapshot>(snapshotKey(revisionId));
   }
+
+  private sectionsOf(changes: ChangeRecord[]): RevisionSection[] {
+    return Array.from(new Set(changes.map(change => change.section ?? sectionForPath(change.path))));
+  }
+
+  private sourceFor(sections: RevisionSection[]): RevisionSource {
+    if (sections.includes('assignments')) {return 'assignment';}
+    if (sections.includes('showcase')) {return 'showcase';}
+    if (sections.some(s => s === 'ideation' || s === 'journey' || s === 'deliverables')) {return 'stage';}
+    return 'details';
+  }
+
+  private createId(): string {
+    return `rev_${this.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+
+  private notify(projectId: string) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(projectId);
+      } catch (error) {
+        console.warn('[RevisionService] Listener failed:', error);
+      }
+    });
+  }
+
+  // Reads and writes for one project run one at a time (IDB awaits interleave otherwise)
+  private serialize<T>(projectId: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(projectId) ?? Promise.resolve();
+    const run = previous.then(operation, operation);
+    this.queues.set(projectId, run.catch(() => undefined));
+    return run;
+  }
+}
+
+async function defaultAuthor(): Promise<RevisionAuthor | undefined> {
+  const { auth } = await import('../../firebase/firebase');
+  const user = auth?.currentUser;
+  if (!user) {return undefined;}
+  return { id: user.uid, name: user.displayName || user.email || undefined };
 }
 
+async function loadCloudBlobService() {
+  const { CloudBlobService } = await import('../../services/CloudBlobService');
+  return CloudBlobService;
+}
+
+// Storage mirror via CloudBlobService (no-ops offline or without Storage configured)
+const storageMirror: RevisionMirror = {
+  async upload(userId, projectId, revision) {
+    const blobs = await loadCloudBlobService();
+    return blobs.uploadSnapshotJSON(userId, projectId, 'revisions', revision, revision.id);
+  },
+  async trim(userId, projectId, maxKeep) {
+    const blobs = await loadCloudBlobService();
+    await blobs.trimSnapshots(userId, projectId, 'revisions', maxKeep);
+  },
+  async list(userId, projectId) {
+    const blobs = await loadCloudBlobService();
+    return blobs.listSnapshots(userId, projectId, 'revisions');
+  },
+  async download(path) {
+    const blobs = await loadCloudBlobService();
+    return blobs.downloadSnapshotJSON<Revision>(path);
+  }
+};
+
 // Singleton instance
-export const revisionService = new RevisionService();
\ No newline at end of file
+export const revisionService = new RevisionService({ mirror: storageMirror });
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  ExpertReviewService,
+  buildReviewThreads,
+  reviewAnchorKey,
+  type ExpertReviewServiceOptions,
+  type ReviewUser
+} from '../ExpertReviewService';
+import { MemoryReviewStore } from '../ReviewStore';
+import type { ProjectShowcaseV2 } from '../../../types/showcaseV2';
+
+const showcase = {
+  id: 'p1',
+  hero: { title: 'River Study' },
+  runOfShow: [{ weekLabel: 'Week 1' }, { weekLabel: 'Weeks 2–3' }],
+  assignments: [{ id: 'A1', title: 'Map the river', rubric: { criteria: [{ name: 'Evidence use' }] } }]
+} as unknown as ProjectShowcaseV2;
+
+type Summarize = NonNullable<ExpertReviewServiceOptions['summarize']>;
+
+const teacher: ReviewUser = { id: 'teacher-1', name: 'Ms. Rivera', email: 'rivera@school.org', emailVerified: true };
+const coach: ReviewUser = { id: 'coach-1', name: 'Coach Lee', email: 'Lee@School.org', emailVerified: true };
+
+describe('ExpertReviewService peer review', () => {
+  let clock: number;
+  let currentUser: ReviewUser | undefined;
+  let summarize: jest.MockedFunction<Summarize>;
+  let service: ExpertReviewService;
+
+  beforeEach(() => {
+    clock = Date.UTC(2026, 0, 5, 15);
+    currentUser = teacher;
+    summarize = jest.fn<Summarize>().mockResolvedValue(null);
+    service = new ExpertReviewService({
+      store: new MemoryReviewStore(),
+      resolveUser: async () => currentUser,
+      summarize,
+      now: () => (clock += 1000)
+    });
+  });
+
+  const requestAsTeacher = () => service.requestPeerReview({
+    projectId: 'p1',
+    showcase,
+    reviewerEmail: ' LEE@school.org ',
+    message: 'Is week 2 too packed?'
+  });
+
+  it('requests a review by email and lets the reviewer claim it', async () => {
+    const request = await requestAsTeacher();
+    expect(request).toMatchObject({ reviewerEmail: 'lee@school.org', status: 'requested', projectTitle: 'River Study' });
+
+    currentUser = coach;
+    expect(await service.listAssignedReviews()).toHaveLength(1);
+    const claimed = await service.startPeerReview(request.id);
+    expect(claimed).toMatchObject({ status: 'in-review', reviewerId: 'coach-1', reviewerName: 'Coach Lee' });
+
+    currentUser = teacher;
+    expect((await service.listRequestedReviews('p1'))[0].status).toBe('in-review');
+    expect(await service.listRequestedReviews('other')).toEqual([]);
+  });
+
+  it('does not match reviewers by an unverified email', async () => {
+    const request = await requestAsTeacher();
+
+    currentUser = { ...coach, emailVerified: false };
+    expect(await service.listAssignedReviews()).toEqual([]);
+    expect(await service.startPeerReview(request.id)).toMatchObject({ status: 'requested' });
+  });
+
+  it('rejects invalid requests', async () => {
+    await expect(service.requestPeerReview({ projectId: 'p1', showcase, reviewerEmail: 'not-an-email' }))
+      .rejects.toThrow('valid reviewer email');
+    await expect(service.requestPeerReview({ projectId: 'p1', showcase, reviewerEmail: 'RIVERA@school.org' }))
+      .rejects.toThrow('other than yourself');
+    currentUser = { id: 'anon', anonymous: true };
+    await expect(requestAsTeacher()).rejects.toThrow('Sign in');
+  });
+
+  it('threads replies under the anchored root and resolves the whole thread', async () => {
+    const request = await requestAsTeacher();
+    currentUser = coach;
+    const root = await service.addComment(request.id, {
+      anchor: { kind: 'criterion', assignmentId: 'A1', criterion: 'Evidence use' },
+      body: 'Add a level descriptor for sources.'
+    });
+    await service.addComment(request.id, { anchor: { kind: 'week', weekIndex: 1 }, body: 'Two weeks feels right.' });
+
+    currentUser = teacher;
+    const reply = await service.addComment(request.id, { anchor: { kind: 'project' }, body: 'Good call.', parentId: root.id });
+    expect(reply).toMatchObject({ parentId: root.id, anchorKey: 'criterion:A1:Evidence use' });
+
+    await service.setThreadResolved(request.id, reply.id, true);
+    const threads = buildReviewThreads(await service.listComments(request.id));
+    expect(threads).toHaveLength(2);
+    expect(threads[0]).toMatchObject({ root: { id: root.id, resolved: true, resolvedBy: 'teacher-1' } });
+    expect(threads[0].replies.map(c => c.body)).toEqual(['Good call.']);
+    expect(threads[1].root.resolved).toBe(false);
+  });
+
+  it('summarizes only open threads and falls back when the AI is unavailable', async () => {
+    const request = await requestAsTeacher();
+    currentUser = coach;
+    const resolved = await service.addComment(request.id, { anchor: { kind: 'week', weekIndex: 0 }, body: 'Fixed already.' });
+    await service.setThreadResolved(request.id, resolved.id, true);
+    await service.addComment(request.id, { anchor: { kind: 'week', weekIndex: 1 }, body: 'Split the field trip prep.' });
+    await service.addComment(request.id, { anchor: { kind: 'week', weekIndex: 1 }, body: 'Add a checkpoint.' });
+
+    const fallback = await service.summarizeOpenFeedback(request.id);
+    expect(fallback).toMatchObject({
+      source: 'fallback',
+      openThreads: 2,
+      themes: [{ title: 'Weeks 2–3', anchors: ['week:1'], action: 'Add a checkpoint.' }]
+    });
+    expect(summarize.mock.calls[0][0]).toContain('[week:1] Weeks 2–3: Split the field trip prep.');
+    expect(summarize.mock.calls[0][0]).not.toContain('Fixed already.');
+
+    summarize.mockResolvedValueOnce({ overview: 'Tighten week 2.', themes: [] });
+    expect(await service.summarizeOpenFeedback(request.id)).toMatchObject({ source: 'ai', overview: 'Tighten week 2.' });
+  });
+
+  it('keys anchors by target', () => {
+    expect(reviewAnchorKey({ kind: 'assignment', assignmentId: 'A1', field: 'evidence' })).toBe('assignment:A1:evidence');
+    expect(reviewAnchorKey({ kind: 'assignment', assignmentId: 'A1' })).toBe('assignment:A1');
+    expect(reviewAnchorKey({ kind: 'project' })).toBe('project');
+  });
+});
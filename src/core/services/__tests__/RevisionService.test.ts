@@ -0,0 +1,146 @@
+import {
+  RevisionService,
+  diffSnapshots,
+  type Revision,
+  type RevisionKeyValue,
+  type RevisionMirror
+} from '../RevisionService';
+
+const createBackend = (): RevisionKeyValue => {
+  const data = new Map<string, unknown>();
+  return {
+    async get<T>(key: string) {return (data.has(key) ? data.get(key) as T : null);},
+    async set(key, value) {data.set(key, JSON.parse(JSON.stringify(value)));},
+    async remove(key) {data.delete(key);}
+  };
+};
+
+const project = (overrides: Record<string, unknown> = {}) => ({
+  id: 'p1',
+  title: 'River Study',
+  updatedAt: new Date(),
+  capturedData: {
+    'ideation.bigIdea': 'Rivers shape towns',
+    ideation: { bigIdea: 'Rivers shape towns' }
+  },
+  showcase: {
+    assignments: [
+      { id: 'A1', title: 'Map the river' },
+      { id: 'A2', title: 'Interview a neighbor' }
+    ]
+  },
+  ...overrides
+});
+
+describe('diffSnapshots', () => {
+  it('matches array items by id so reordering is not an edit', () => {
+    const changes = diffSnapshots(
+      { showcase: { assignments: [{ id: 'A1', title: 'Map' }, { id: 'A2', title: 'Interview' }] } },
+      { showcase: { assignments: [{ id: 'A2', title: 'Interview' }, { id: 'A1', title: 'Map the river' }] } }
+    );
+    expect(changes).toEqual([
+      expect.objectContaining({ path: 'showcase.assignments[A1].title', action: 'update', section: 'assignments' })
+    ]);
+  });
+});
+
+describe('RevisionService', () => {
+  let clock: number;
+  let service: RevisionService;
+
+  beforeEach(() => {
+    clock = 1_000_000;
+    service = new RevisionService({
+      backend: createBackend(),
+      resolveAuthor: async () => ({ id: 'teacher-1', name: 'Ms. Rivera' }),
+      now: () => clock
+    });
+  });
+
+  it('records author, sections and a summary, and skips bookkeeping-only saves', async () => {
+    const first = await service.recordRevision('p1', project());
+    expect(first).toMatchObject({ author: 'teacher-1', authorName: 'Ms. Rivera', parentId: null });
+
+    clock += 120_000;
+    expect(await service.recordRevision('p1', project({ updatedAt: new Date(clock) }))).toBeNull();
+
+    const second = await service.recordRevision('p1', project({
+      capturedData: { 'ideation.bigIdea': 'Rivers connect towns', ideation: { bigIdea: 'Rivers connect towns' } }
+    }));
+    expect(second).toMatchObject({
+      parentId: first?.id,
+      source: 'stage',
+      sections: ['ideation'],
+      summary: 'Ideation: Big Idea updated'
+    });
+    // The flattened ChatMVP key is not reported twice
+    expect(second?.changes.map(c => c.path)).toEqual(['capturedData.ideation.bigIdea']);
+  });
+
+  it('folds rapid saves from the same author into one revision', async () => {
+    await service.recordRevision('p1', project());
+    clock += 120_000;
+    await service.recordRevision('p1', project({ title: 'River Study II' }));
+    clock += 10_000;
+    const folded = await service.recordRevision('p1', project({ title: 'River Study III' }));
+
+    const history = await service.listRevisions('p1');
+    expect(history).toHaveLength(2);
+    expect(folded?.changes).toEqual([
+      expect.objectContaining({ path: 'title', oldValue: 'River Study', newValue: 'River Study III' })
+    ]);
+  });
+
+  it('carries the showcase forward when a save omits it', async () => {
+    await service.recordRevision('p1', project());
+    clock += 120_000;
+    const { showcase: _showcase, ...withoutShowcase } = project({ title: 'Renamed' });
+    const entry = await service.recordRevision('p1', withoutShowcase, { carryForward: ['showcase'] });
+
+    expect(entry?.sections).toEqual(['details']);
+    const revision = await service.loadRevision('p1', entry?.id ?? '');
+    expect(revision?.snapshot.showcase).toMatchObject({ assignments: [{ id: 'A1' }, { id: 'A2' }] });
+  });
+
+  it('compares any two revisions oldest to newest', async () => {
+    const first = await service.recordRevision('p1', project());
+    clock += 120_000;
+    await service.recordRevision('p1', project({ title: 'Second' }));
+    clock += 120_000;
+    const third = await service.recordRevision('p1', project({
+      title: 'Third',
+      showcase: { assignments: [{ id: 'A1', title: 'Map the river' }] }
+    }));
+
+    const comparison = await service.compareRevisions('p1', third?.id ?? '', first?.id ?? '');
+    expect(comparison?.from.id).toBe(first?.id);
+    expect(comparison?.to.id).toBe(third?.id);
+    expect(comparison?.sections).toEqual(['details', 'assignments']);
+    expect(comparison?.changes.find(c => c.path === 'showcase.assignments[A2]')?.action).toBe('delete');
+  });
+
+  it('mirrors unsynced revisions once and imports revisions from other devices', async () => {
+    const remote = new Map<string, Revision>();
+    const mirror: RevisionMirror = {
+      async upload(_userId, projectId, revision) {
+        const path = `users/u1/projects/${projectId}/snapshots/revisions/${revision.id}.json`;
+        remote.set(path, JSON.parse(JSON.stringify(revision)));
+        return path;
+      },
+      async trim() {},
+      async list() {return Array.from(remote.keys());},
+      async download(path) {return remote.get(path) ?? null;}
+    };
+    const laptop = new RevisionService({ backend: createBackend(), mirror, now: () => clock, resolveAuthor: async () => undefined });
+    const tablet = new RevisionService({ backend: createBackend(), mirror, now: () => clock, resolveAuthor: async () => undefined });
+
+    await laptop.recordRevision('p1', project());
+    expect(await laptop.mirrorPending('p1', 'u1')).toBe(1);
+    expect(await laptop.mirrorPending('p1', 'u1')).toBe(0);
+
+    expect(await tablet.importMirrored('p1', 'u1')).toBe(1);
+    const [imported] = await tablet.listRevisions('p1');
+    expect(imported.mirroredPath).toContain('snapshots/revisions/');
+    expect((await tablet.loadRevision('p1', imported.id))?.snapshot.title).toBe('River Study');
+  });
+});
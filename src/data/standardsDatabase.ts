@@ -1,8 +1,13 @@
 /**
  * Standards Database - Dynamically loaded to reduce bundle size
  * This file is separated from components to enable code splitting
+ *
+ * The entries here seed the StandardsCatalog; real frameworks are imported
+ * from CASE/CSV packages (see services/StandardsCatalog).
  */
 
+import { standardsCatalog, type CatalogStandard } from '../services/StandardsCatalog';
+
 export type StandardsFramework = 'NGSS' | 'CCSS-ELA' | 'CCSS-MATH' | 'ISTE' | 'CASEL' | 'NCSS' | 'CUSTOM';
 
 export interface StandardEntry {
@@ -174,65 +179,38 @@ export const STANDARDS_DATABASE: Record<StandardsFramework, StandardEntry[]> = {
   
   CUSTOM: []
 };
+standardsCatalog.registerBuiltins(STANDARDS_DATABASE);
 
-// Helper function to search standards
-export function searchStandards(
-  framework: StandardsFramework,
+/**
+ * Ranked search over one framework in the standards catalog. Imported CASE/CSV
+ * packages (including 'STATE') are loaded on first use; the entries above are
+ * the built-in fallback.
+ */
+export async function searchStandards(
+  framework: StandardsFramework | string,
   query: string,
   gradeLevel?: string,
-  subject?: string
-): StandardEntry[] {
-  const standards = STANDARDS_DATABASE[framework] || [];
-  
-  return standards.filter(standard => {
-    const matchesQuery = !query || 
-      standard.code.toLowerCase().includes(query.toLowerCase()) ||
-      standard.label.toLowerCase().includes(query.toLowerCase()) ||
-      standard.description.toLowerCase().includes(query.toLowerCase());
-    
-    const matchesGrade = !gradeLevel || 
-      standard.gradeLevel.includes(gradeLevel);
-    
-    const matchesSubject = !subject ||
-      standard.subjects.some(s => 
-        s.toLowerCase().includes(subject.toLowerCase())
-      );
-    
-    return matchesQuery && matchesGrade && matchesSubject;
+  subject?: string | string[]
+): Promise<StandardEntry[]> {
+  const results = await standardsCatalog.search(framework, query, {
+    gradeLevel,
+    subjects: subject ? ([] as string[]).concat(subject) : undefined
   });
+  return results.map(toEntry);
 }
 
 // Helper function to get recommended standards
-export function getRecommendedStandards(
+export async function getRecommendedStandards(
   gradeLevel: string,
   subjects: string[]
-): Array<{ framework: StandardsFramework; standards: StandardEntry[] }> {
-  const recommendations = [];
-  
-  for (const [framework, standards] of Object.entries(STANDARDS_DATABASE)) {
-    if (framework === 'CUSTOM') {continue;}
-    
-    const relevant = standards.filter(standard => {
-      const matchesGrade = standard.gradeLevel.includes(gradeLevel) ||
-        standard.gradeLevel.includes('K') && gradeLevel <= '12';
-      
-      const matchesSubject = subjects.some(subject =>
-        standard.subjects.some(s => 
-          s.toLowerCase().includes(subject.toLowerCase()) ||
-          subject.toLowerCase().includes(s.toLowerCase())
-        )
-      );
-      
-      return matchesGrade && matchesSubject;
-    });
-    
-    if (relevant.length > 0) {
-      recommendations.push({
-        framework: framework as StandardsFramework,
-        standards: relevant.slice(0, 3) // Top 3 from each framework
-      });
-    }
-  }
-  
-  return recommendations;
-}
\ No newline at end of file
+): Promise<Array<{ framework: StandardsFramework | string; standards: StandardEntry[] }>> {
+  const recommendations = await standardsCatalog.recommend(gradeLevel, subjects, 3); // Top 3 from each framework
+  return recommendations
+    .filter(rec => rec.framework !== 'CUSTOM')
+    .map(rec => ({ framework: rec.framework, standards: rec.standards.map(toEntry) }));
+}
+
+function toEntry(standard: CatalogStandard): StandardEntry {
+  const { code, label, description, gradeLevel, subjects } = standard;
+  return { code, label, description, gradeLevel, subjects };
+}
@@ -8,12 +8,14 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { UnifiedStorageManager, type UnifiedProjectData } from '../../services/UnifiedStorageManager';
-import { useStageController, telemetry } from './useStageController';
+import { useStageController, telemetry, type SaveEditMeta } from './useStageController';
+import { UndoRedoControls } from '../chat-mvp/components/UndoRedoControls';
 import { useStageAI, type FieldSuggestion } from './hooks/useStageAI';
 import { StageAIAssistant } from './components/StageAIAssistant';
 import { InlineChips } from './components/InlineChips';
 import { isDeliverablesUIComplete } from './completeness';
-import { stageGuide } from '../chat-mvp/domain/stages';
+import { stageGuide, type CapturedData } from '../chat-mvp/domain/stages';
+import { useTranslation } from '../../i18n/useTranslation';
 import { trackEvent } from '../../utils/analytics';
 import {
   Container,
@@ -52,6 +54,10 @@ interface CriterionItem {
   text: string;
 }
 
+// Saved deliverables share the chat capture shape; older saves may lack ids
+type SavedDeliverables = Partial<CapturedData['deliverables']>;
+type SavedItem = Partial<CapturedData['deliverables']['milestones'][number]>;
+
 export function DeliverablesStage() {
   const { id: projectId } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -73,6 +79,49 @@ export function DeliverablesStage() {
     criteria: boolean;
   }>({ milestones: false, artifacts: false, criteria: false });
 
+  // Load saved deliverables into the form (project load, undo/redo)
+  const resetFromDeliverables = (deliverables: SavedDeliverables | undefined) => {
+    const existingMilestones: SavedItem[] = deliverables?.milestones || [];
+    const existingArtifacts: SavedItem[] = deliverables?.artifacts || [];
+    const existingCriteria = deliverables?.rubric?.criteria || [];
+
+    // Convert to UI format with IDs
+    setMilestones(
+      existingMilestones.length > 0
+        ? existingMilestones.map((m, idx) => ({
+            id: m.id || `m${idx + 1}`,
+            name: m.name || ''
+          }))
+        : [
+            { id: 'm1', name: '' },
+            { id: 'm2', name: '' },
+            { id: 'm3', name: '' }
+          ]
+    );
+
+    setArtifacts(
+      existingArtifacts.length > 0
+        ? existingArtifacts.map((a, idx) => ({
+            id: a.id || `a${idx + 1}`,
+            name: a.name || ''
+          }))
+        : [{ id: 'a1', name: '' }]
+    );
+
+    setCriteria(
+      existingCriteria.length > 0
+        ? existingCriteria.map((c, idx) => ({
+            id: `c${idx + 1}`,
+            text: c
+          }))
+        : [
+            { id: 'c1', text: '' },
+            { id: 'c2', text: '' },
+            { id: 'c3', text: '' }
+          ]
+    );
+  };
+
   // Initialize stage controller
   const {
     isSaving,
@@ -80,12 +129,16 @@ export function DeliverablesStage() {
     saveAndContinueLater,
     completeStage,
     canCompleteStage,
-    validationError
+    validationError,
+    editHistory
   } = useStageController({
     projectId: projectId || '',
     stage: 'deliverables',
     blueprint,
-    onBlueprintUpdate: (updated) => setBlueprint(updated)
+    onBlueprintUpdate: (updated) => setBlueprint(updated),
+    onRestore: (restored) => {
+      if (restored.deliverables) {resetFromDeliverables(restored.deliverables);}
+    }
   });
 
   // AI assistant with Quick Actions and field suggestions
@@ -132,45 +185,7 @@ export function DeliverablesStage() {
         if (!cancelled) {
           setBlueprint(project);
           // Initialize form fields from project data
-          const existingMilestones = project.deliverables?.milestones || [];
-          const existingArtifacts = project.deliverables?.artifacts || [];
-          const existingCriteria = project.deliverables?.rubric?.criteria || [];
-
-          // Convert to UI format with IDs
-          setMilestones(
-            existingMilestones.length > 0
-              ? existingMilestones.map((m: any, idx: number) => ({
-                  id: m.id || `m${idx + 1}`,
-                  name: m.name || ''
-                }))
-              : [
-                  { id: 'm1', name: '' },
-                  { id: 'm2', name: '' },
-                  { id: 'm3', name: '' }
-                ]
-          );
-
-          setArtifacts(
-            existingArtifacts.length > 0
-              ? existingArtifacts.map((a: any, idx: number) => ({
-                  id: a.id || `a${idx + 1}`,
-                  name: a.name || ''
-                }))
-              : [{ id: 'a1', name: '' }]
-          );
-
-          setCriteria(
-            existingCriteria.length > 0
-              ? existingCriteria.map((c: string, idx: number) => ({
-                  id: `c${idx + 1}`,
-                  text: c
-                }))
-              : [
-                  { id: 'c1', text: '' },
-                  { id: 'c2', text: '' },
-                  { id: 'c3', text: '' }
-                ]
-          );
+          resetFromDeliverables(project.deliverables);
         }
       } catch (error) {
         console.error('[DeliverablesStage] Failed to load project', error);
@@ -188,7 +203,8 @@ export function DeliverablesStage() {
   const handleDeliverablesChange = (
     updatedMilestones: MilestoneItem[],
     updatedArtifacts: ArtifactItem[],
-    updatedCriteria: CriterionItem[]
+    updatedCriteria: CriterionItem[],
+    edit?: SaveEditMeta
   ) => {
     // Update local state
     setMilestones(updatedMilestones);
@@ -204,7 +220,7 @@ export function DeliverablesStage() {
           criteria: updatedCriteria.map(c => c.text)
         }
       }
-    });
+    }, edit);
   };
 
   // Milestone CRUD operations
@@ -213,33 +229,33 @@ export function DeliverablesStage() {
       id: `m${Date.now()}`,
       name: ''
     };
-    handleDeliverablesChange([...milestones, newMilestone], artifacts, criteria);
+    handleDeliverablesChange([...milestones, newMilestone], artifacts, criteria, { label: 'Add milestone', coalesceKey: null });
   };
 
   const handleRemoveMilestone = (index: number) => {
     if (milestones.length <= 1) return;
     const updated = milestones.filter((_, i) => i !== index);
-    handleDeliverablesChange(updated, artifacts, criteria);
+    handleDeliverablesChange(updated, artifacts, criteria, { label: 'Remove milestone', coalesceKey: null });
   };
 
   const handleMilestoneNameChange = (index: number, name: string) => {
     const updated = [...milestones];
     updated[index] = { ...updated[index], name };
-    handleDeliverablesChange(updated, artifacts, criteria);
+    handleDeliverablesChange(updated, artifacts, criteria, { label: 'Rename milestone', coalesceKey: `deliverables:milestone:${index}` });
   };
 
   const handleMoveMilestoneUp = (index: number) => {
     if (index === 0) return;
     const updated = [...milestones];
     [updated[index - 1], updated[index]] = [updated[index], updated[index - 1]];
-    handleDeliverablesChange(updated, artifacts, criteria);
+    handleDeliverablesChange(updated, artifacts, criteria, { label: 'Move milestone', coalesceKey: null });
   };
 
   const handleMoveMilestoneDown = (index: number) => {
     if (index === milestones.length - 1) return;
     const updated = [...milestones];
     [updated[index], updated[index + 1]] = [updated[index + 1], updated[index]];
-    handleDeliverablesChange(updated, artifacts, criteria);
+    handleDeliverablesChange(updated, artifacts, criteria, { label: 'Move milestone', coalesceKey: null });
   };
 
   // Artifact CRUD operations
@@ -248,33 +264,33 @@ export function DeliverablesStage() {
       id: `a${Date.now()}`,
       name: ''
     };
-    handleDeliverablesChange(milestones, [...artifacts, newArtifact], criteria);
+    handleDeliverablesChange(milestones, [...artifacts, newArtifact], criteria, { label: 'Add artifact', coalesceKey: null });
   };
 
   const handleRemoveArtifact = (index: number) => {
     if (artifacts.length <= 1) return;
     const updated = artifacts.filter((_, i) => i !== index);
-    handleDeliverablesChange(milestones, updated, criteria);
+    handleDeliverablesChange(milestones, updated, criteria, { label: 'Remove artifact', coalesceKey: null });
   };
 
   const handleArtifactNameChange = (index: number, name: string) => {
     const updated = [...artifacts];
     updated[index] = { ...updated[index], name };
-    handleDeliverablesChange(milestones, updated, criteria);
+    handleDeliverablesChange(milestones, updated, criteria, { label: 'Rename artifact', coalesceKey: `deliverables:artifact:${index}` });
   };
 
   const handleMoveArtifactUp = (index: number) => {
     if (index === 0) return;
     const updated = [...artifacts];
     [updated[index - 1], updated[index]] = [updated[index], updated[index - 1]];
-    handleDeliverablesChange(milestones, updated, criteria);
+    handleDeliverablesChange(milestones, updated, criteria, { label: 'Move artifact', coalesceKey: null });
   };
 
   const handleMoveArtifactDown = (index: number) => {
     if (index === artifacts.length - 1) return;
     const updated = [...artifacts];
     [updated[index], updated[index + 1]] = [updated[index + 1], updated[index]];
-    handleDeliverablesChange(milestones, updated, criteria);
+    handleDeliverablesChange(milestones, updated, criteria, { label: 'Move artifact', coalesceKey: null });
   };
 
   // Criterion CRUD operations
@@ -283,33 +299,33 @@ export function DeliverablesStage() {
       id: `c${Date.now()}`,
       text: ''
     };
-    handleDeliverablesChange(milestones, artifacts, [...criteria, newCriterion]);
+    handleDeliverablesChange(milestones, artifacts, [...criteria, newCriterion], { label: 'Add criterion', coalesceKey: null });
   };
 
   const handleRemoveCriterion = (index: number) => {
     if (criteria.length <= 1) return;
     const updated = criteria.filter((_, i) => i !== index);
-    handleDeliverablesChange(milestones, artifacts, updated);
+    handleDeliverablesChange(milestones, artifacts, updated, { label: 'Remove criterion', coalesceKey: null });
   };
 
   const handleCriterionTextChange = (index: number, text: string) => {
     const updated = [...criteria];
     updated[index] = { ...updated[index], text };
-    handleDeliverablesChange(milestones, artifacts, updated);
+    handleDeliverablesChange(milestones, artifacts, updated, { label: 'Edit criterion', coalesceKey: `deliverables:criterion:${index}` });
   };
 
   const handleMoveCriterionUp = (index: number) => {
     if (index === 0) return;
     const updated = [...criteria];
     [updated[index - 1], updated[index]] = [updated[index], updated[index - 1]];
-    handleDeliverablesChange(milestones, artifacts, updated);
+    handleDeliverablesChange(milestones, artifacts, updated, { label: 'Move criterion', coalesceKey: null });
   };
 
   const handleMoveCriterionDown = (index: number) => {
     if (index === criteria.length - 1) return;
     const updated = [...criteria];
     [updated[index], updated[index + 1]] = [updated[index + 1], updated[index]];
-    handleDeliverablesChange(milestones, artifacts, updated);
+    handleDeliverablesChange(milestones, artifacts, updated, { label: 'Move criterion', coalesceKey: null });
   };
 
   // Quick Action result handler
@@ -335,10 +351,10 @@ export function DeliverablesStage() {
 
   const handleQuickActionResult = (result: any) => {
     if (result.type === 'milestones') {
-      const incoming = result.data.map((m: any, idx: number) => ({ id: m.id || `m${Date.now()}-${idx}`, name: normalize(m.name || '') }));
+      const incoming: MilestoneItem[] = result.data.map((m: SavedItem, idx: number) => ({ id: m.id || `m${Date.now()}-${idx}`, name: normalize(m.name || '') }));
       const { next, added, skipped } = dedupeAppend(milestones, incoming, x => x.name || '');
       if (added === 0) { if (window.toast) window.toast.info('No new milestones to add'); return; }
-      handleDeliverablesChange(next, artifacts, criteria);
+      handleDeliverablesChange(next, artifacts, criteria, { label: 'Add suggested milestones', coalesceKey: null });
       trackEvent('ai_suggestion_accepted', {
         stage: 'deliverables',
         action: 'suggest-milestones',
@@ -347,10 +363,10 @@ export function DeliverablesStage() {
       });
       if (window.toast) window.toast.success(`Added ${added} milestone(s)${skipped ? ` (${skipped} skipped)` : ''}`);
     } else if (result.type === 'artifacts') {
-      const incoming = result.data.map((a: any, idx: number) => ({ id: a.id || `a${Date.now()}-${idx}`, name: normalize(a.name || '') }));
+      const incoming: ArtifactItem[] = result.data.map((a: SavedItem, idx: number) => ({ id: a.id || `a${Date.now()}-${idx}`, name: normalize(a.name || '') }));
       const { next, added, skipped } = dedupeAppend(artifacts, incoming, x => x.name || '');
       if (added === 0) { if (window.toast) window.toast.info('No new artifacts to add'); return; }
-      handleDeliverablesChange(milestones, next, criteria);
+      handleDeliverablesChange(milestones, next, criteria, { label: 'Add suggested artifacts', coalesceKey: null });
       trackEvent('ai_suggestion_accepted', {
         stage: 'deliverables',
         action: 'suggest-artifacts',
@@ -359,10 +375,10 @@ export function DeliverablesStage() {
       });
       if (window.toast) window.toast.success(`Added ${added} artifact(s)${skipped ? ` (${skipped} skipped)` : ''}`);
     } else if (result.type === 'criteria') {
-      const incoming = result.data.map((c: { text: string }, idx: number) => ({ id: `c${Date.now()}-${idx}`, text: normalize(c.text) }));
-      const { next, added, skipped } = dedupeAppend(criteria as any, incoming as any, x => (x.text || ''));
+      const incoming: CriterionItem[] = result.data.map((c: { text: string }, idx: number) => ({ id: `c${Date.now()}-${idx}`, text: normalize(c.text) }));
+      const { next, added, skipped } = dedupeAppend(criteria, incoming, x => x.text);
       if (added === 0) { if (window.toast) window.toast.info('No new criteria to add'); return; }
-      handleDeliverablesChange(milestones, artifacts, next as any);
+      handleDeliverablesChange(milestones, artifacts, next, { label: 'Add suggested criteria', coalesceKey: null });
       trackEvent('ai_suggestion_accepted', {
         stage: 'deliverables',
         action: 'write-criteria',
@@ -376,7 +392,7 @@ export function DeliverablesStage() {
         id: criteria[idx]?.id || `c${Date.now()}-${idx}`,
         text: normalize(c.text)
       }));
-      handleDeliverablesChange(milestones, artifacts, tightenedCriteria);
+      handleDeliverablesChange(milestones, artifacts, tightenedCriteria, { label: 'Tighten criteria', coalesceKey: null });
       trackEvent('ai_suggestion_accepted', {
         stage: 'deliverables',
         action: 'tighten-criteria',
@@ -423,7 +439,7 @@ export function DeliverablesStage() {
         id: `m${Date.now()}`,
         name: suggestion.text
       };
-      handleDeliverablesChange([...milestones, newMilestone], artifacts, criteria);
+      handleDeliverablesChange([...milestones, newMilestone], artifacts, criteria, { label: 'Accept suggested milestone', coalesceKey: null });
       setMilestoneSuggestions([]);
       trackEvent('ai_suggestion_accepted', {
         stage: 'deliverables',
@@ -435,7 +451,7 @@ export function DeliverablesStage() {
         id: `a${Date.now()}`,
         name: suggestion.text
       };
-      handleDeliverablesChange(milestones, [...artifacts, newArtifact], criteria);
+      handleDeliverablesChange(milestones, [...artifacts, newArtifact], criteria, { label: 'Accept suggested artifact', coalesceKey: null });
       setArtifactSuggestions([]);
       trackEvent('ai_suggestion_accepted', {
         stage: 'deliverables',
@@ -447,7 +463,7 @@ export function DeliverablesStage() {
         id: `c${Date.now()}`,
         text: suggestion.text
       };
-      handleDeliverablesChange(milestones, artifacts, [...criteria, newCriterion]);
+      handleDeliverablesChange(milestones, artifacts, [...criteria, newCriterion], { label: 'Accept suggested criterion', coalesceKey: null });
       setCriteriaSuggestions([]);
       trackEvent('ai_suggestion_accepted', {
         stage: 'deliverables',
@@ -512,7 +528,8 @@ export function DeliverablesStage() {
   };
 
   // Stage guide
-  const deliverablesGuide = stageGuide('DELIVERABLES');
+  const { locale } = useTranslation();
+  const deliverablesGuide = stageGuide('DELIVERABLES', locale);
 
   if (isLoading) {
     return (
@@ -706,13 +723,23 @@ export function DeliverablesStage() {
                 </div>
               )}
 
-              {/* Autosave indicator */}
-              {isSaving && (
-                <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
-                  <div className="animate-spin w-4 h-4 border-2 border-slate-300 dark:border-slate-600 border-t-slate-600 dark:border-t-slate-300 rounded-full" />
-                  <span>Saving...</span>
-                </div>
-              )}
+              {/* Undo/redo and autosave indicator */}
+              <div className="flex items-center gap-3">
+                <UndoRedoControls
+                  canUndo={editHistory.canUndo}
+                  canRedo={editHistory.canRedo}
+                  undoLabel={editHistory.undoLabel}
+                  redoLabel={editHistory.redoLabel}
+                  onUndo={editHistory.undo}
+                  onRedo={editHistory.redo}
+                />
+                {isSaving && (
+                  <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+                    <div className="animate-spin w-4 h-4 border-2 border-slate-300 dark:border-slate-600 border-t-slate-600 dark:border-t-slate-300 rounded-full" />
+                    <span>Saving...</span>
+                  </div>
+                )}
+              </div>
             </header>
 
             {/* Guardrails for 3/1/3 completion */}
@@ -8,12 +8,14 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { UnifiedStorageManager, type UnifiedProjectData } from '../../services/UnifiedStorageManager';
-import { useStageController } from './useStageController';
+import { useStageController, type SaveEditMeta } from './useStageController';
+import { UndoRedoControls } from '../chat-mvp/components/UndoRedoControls';
 import { useStageAI, type FieldSuggestion } from './hooks/useStageAI';
 import { StageAIAssistant } from './components/StageAIAssistant';
 import { InlineChips } from './components/InlineChips';
 import { isIdeationUIComplete } from './completeness';
 import { stageGuide } from '../chat-mvp/domain/stages';
+import { useTranslation } from '../../i18n/useTranslation';
 import { trackEvent } from '../../utils/analytics';
 import {
   Container,
@@ -32,6 +34,12 @@ import {
   Loader2
 } from 'lucide-react';
 
+const FIELD_LABELS = {
+  bigIdea: 'Big Idea',
+  essentialQuestion: 'Essential Question',
+  challenge: 'Challenge'
+} as const;
+
 export function IdeationStage() {
   const { id: projectId } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -65,12 +73,19 @@ export function IdeationStage() {
     saveAndContinueLater,
     completeStage,
     canCompleteStage,
-    validationError
+    validationError,
+    editHistory
   } = useStageController({
     projectId: projectId || '',
     stage: 'ideation',
     blueprint,
-    onBlueprintUpdate: (updated) => setBlueprint(updated)
+    onBlueprintUpdate: (updated) => setBlueprint(updated),
+    onRestore: (restored) => {
+      if (!restored.ideation) {return;}
+      setBigIdea(restored.ideation.bigIdea || '');
+      setEssentialQuestion(restored.ideation.essentialQuestion || '');
+      setChallenge(restored.ideation.challenge || '');
+    }
   });
 
   // AI assistant with Quick Actions and field suggestions
@@ -136,7 +151,11 @@ export function IdeationStage() {
   }, [projectId, navigate]);
 
   // Autosave on field changes
-  const handleFieldChange = (field: 'bigIdea' | 'essentialQuestion' | 'challenge', value: string) => {
+  const handleFieldChange = (
+    field: 'bigIdea' | 'essentialQuestion' | 'challenge',
+    value: string,
+    edit: SaveEditMeta = { label: `Edit ${FIELD_LABELS[field]}`, coalesceKey: `ideation:${field}` }
+  ) => {
     // Update local state immediately
     switch (field) {
       case 'bigIdea':
@@ -154,9 +173,12 @@ export function IdeationStage() {
     debouncedSave({
       ideation: {
         ...blueprint?.ideation,
+        bigIdea,
+        essentialQuestion,
+        challenge,
         [field]: value
       }
-    });
+    }, edit);
   };
 
   const handleContinueToJourney = () => {
@@ -184,9 +206,12 @@ export function IdeationStage() {
     debouncedSave({
       ideation: {
         ...blueprint?.ideation,
+        bigIdea,
+        essentialQuestion,
+        challenge,
         [field]: text
       }
-    });
+    }, { label: `Accept AI suggestion for ${FIELD_LABELS[field]}`, coalesceKey: null });
 
     // Track acceptance
     trackEvent('ai_suggestion_accepted', {
@@ -272,7 +297,7 @@ export function IdeationStage() {
     suggestion: FieldSuggestion,
     index: number
   ) => {
-    handleFieldChange(field, suggestion.text);
+    handleFieldChange(field, suggestion.text, { label: `Accept suggestion for ${FIELD_LABELS[field]}`, coalesceKey: null });
 
     // Clear suggestions for this field
     if (field === 'bigIdea') {
@@ -324,7 +349,7 @@ export function IdeationStage() {
 
   // Accept refine suggestion
   const handleRefineAccept = (suggestion: string, index: number) => {
-    handleFieldChange('bigIdea', suggestion);
+    handleFieldChange('bigIdea', suggestion, { label: 'Apply Big Idea refinement', coalesceKey: null });
     setRefineSuggestions([]);
 
     trackEvent('ai_suggestion_accepted', {
@@ -409,9 +434,10 @@ export function IdeationStage() {
   }, [bigIdea, essentialQuestion, challenge, blueprint?.wizard?.gradeLevel]);
 
   // Stage guides
-  const bigIdeaGuide = stageGuide('BIG_IDEA');
-  const eqGuide = stageGuide('ESSENTIAL_QUESTION');
-  const challengeGuide = stageGuide('CHALLENGE');
+  const { locale } = useTranslation();
+  const bigIdeaGuide = stageGuide('BIG_IDEA', locale);
+  const eqGuide = stageGuide('ESSENTIAL_QUESTION', locale);
+  const challengeGuide = stageGuide('CHALLENGE', locale);
 
   if (isLoading) {
     return (
@@ -605,13 +631,23 @@ export function IdeationStage() {
                 </div>
               )}
 
-              {/* Autosave indicator */}
-              {isSaving && (
-                <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
-                  <div className="animate-spin w-4 h-4 border-2 border-slate-300 dark:border-slate-600 border-t-slate-600 dark:border-t-slate-300 rounded-full" />
-                  <span>Saving...</span>
-                </div>
-              )}
+              {/* Undo/redo and autosave indicator */}
+              <div className="flex items-center gap-3">
+                <UndoRedoControls
+                  canUndo={editHistory.canUndo}
+                  canRedo={editHistory.canRedo}
+                  undoLabel={editHistory.undoLabel}
+                  redoLabel={editHistory.redoLabel}
+                  onUndo={editHistory.undo}
+                  onRedo={editHistory.redo}
+                />
+                {isSaving && (
+                  <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+                    <div className="animate-spin w-4 h-4 border-2 border-slate-300 dark:border-slate-600 border-t-slate-600 dark:border-t-slate-300 rounded-full" />
+                    <span>Saving...</span>
+                  </div>
+                )}
+              </div>
             </header>
 
             {/* Form fields */}
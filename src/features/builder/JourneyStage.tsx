@@ -13,12 +13,14 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { UnifiedStorageManager, type UnifiedProjectData } from '../../services/UnifiedStorageManager';
-import { useStageController } from './useStageController';
+import { useStageController, type SaveEditMeta } from './useStageController';
+import { UndoRedoControls } from '../chat-mvp/components/UndoRedoControls';
 import { useStageAI, type FieldSuggestion } from './hooks/useStageAI';
 import { StageAIAssistant } from './components/StageAIAssistant';
 import { InlineChips } from './components/InlineChips';
 import { isJourneyUIComplete } from './completeness';
 import { stageGuide } from '../chat-mvp/domain/stages';
+import { useTranslation } from '../../i18n/useTranslation';
 import { trackEvent } from '../../utils/analytics';
 import {
   Container,
@@ -48,6 +50,25 @@ interface Phase {
   checkpoint?: string;
 }
 
+// Phases from saved project data, or 3 empty phases (minimum required)
+function toPhases(journey: UnifiedProjectData['journey']): Phase[] {
+  const existingPhases: Array<Partial<Phase>> = journey?.phases || [];
+  if (existingPhases.length === 0) {
+    return [
+      { id: 'p1', name: '', activities: [] },
+      { id: 'p2', name: '', activities: [] },
+      { id: 'p3', name: '', activities: [] }
+    ];
+  }
+  return existingPhases.map((p, idx) => ({
+    id: p.id || `p${idx + 1}`,
+    name: p.name || '',
+    focus: p.focus,
+    activities: p.activities || [],
+    checkpoint: p.checkpoint
+  }));
+}
+
 export function JourneyStage() {
   const { id: projectId } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -67,12 +88,16 @@ export function JourneyStage() {
     saveAndContinueLater,
     completeStage,
     canCompleteStage,
-    validationError
+    validationError,
+    editHistory
   } = useStageController({
     projectId: projectId || '',
     stage: 'journey',
     blueprint,
-    onBlueprintUpdate: (updated) => setBlueprint(updated)
+    onBlueprintUpdate: (updated) => setBlueprint(updated),
+    onRestore: (restored) => {
+      if (restored.journey) {setPhases(toPhases(restored.journey));}
+    }
   });
 
   // AI assistant with Quick Actions and field suggestions
@@ -116,23 +141,7 @@ export function JourneyStage() {
         if (!cancelled) {
           setBlueprint(project);
           // Initialize phases from project data or create empty array
-          const existingPhases = project.journey?.phases || [];
-          if (existingPhases.length > 0) {
-            setPhases(existingPhases.map((p, idx) => ({
-              id: p.id || `p${idx + 1}`,
-              name: p.name || '',
-              focus: p.focus,
-              activities: p.activities || [],
-              checkpoint: p.checkpoint
-            })));
-          } else {
-            // Start with 3 empty phases (minimum required)
-            setPhases([
-              { id: 'p1', name: '', activities: [] },
-              { id: 'p2', name: '', activities: [] },
-              { id: 'p3', name: '', activities: [] }
-            ]);
-          }
+          setPhases(toPhases(project.journey));
         }
       } catch (error) {
         console.error('[JourneyStage] Failed to load project', error);
@@ -147,7 +156,7 @@ export function JourneyStage() {
   }, [projectId, navigate]);
 
   // Autosave phases when they change
-  const handlePhasesChange = (updatedPhases: Phase[]) => {
+  const handlePhasesChange = (updatedPhases: Phase[], edit?: SaveEditMeta) => {
     setPhases(updatedPhases);
 
     // Trigger debounced save
@@ -163,7 +172,7 @@ export function JourneyStage() {
         })),
         resources: blueprint?.journey?.resources || []
       }
-    });
+    }, edit);
   };
 
   // Add new phase
@@ -173,7 +182,7 @@ export function JourneyStage() {
       name: '',
       activities: []
     };
-    handlePhasesChange([...phases, newPhase]);
+    handlePhasesChange([...phases, newPhase], { label: 'Add phase', coalesceKey: null });
   };
 
   // Remove phase
@@ -183,14 +192,14 @@ export function JourneyStage() {
       return;
     }
     const updatedPhases = phases.filter((_, i) => i !== index);
-    handlePhasesChange(updatedPhases);
+    handlePhasesChange(updatedPhases, { label: 'Remove phase', coalesceKey: null });
   };
 
   // Update phase name
   const handlePhaseNameChange = (index: number, name: string) => {
     const updatedPhases = [...phases];
     updatedPhases[index] = { ...updatedPhases[index], name };
-    handlePhasesChange(updatedPhases);
+    handlePhasesChange(updatedPhases, { label: 'Rename phase', coalesceKey: `journey:name:${index}` });
   };
 
   // Move phase up
@@ -198,7 +207,7 @@ export function JourneyStage() {
     if (index === 0) return;
     const updatedPhases = [...phases];
     [updatedPhases[index - 1], updatedPhases[index]] = [updatedPhases[index], updatedPhases[index - 1]];
-    handlePhasesChange(updatedPhases);
+    handlePhasesChange(updatedPhases, { label: 'Move phase', coalesceKey: null });
   };
 
   // Move phase down
@@ -206,7 +215,7 @@ export function JourneyStage() {
     if (index === phases.length - 1) return;
     const updatedPhases = [...phases];
     [updatedPhases[index], updatedPhases[index + 1]] = [updatedPhases[index + 1], updatedPhases[index]];
-    handlePhasesChange(updatedPhases);
+    handlePhasesChange(updatedPhases, { label: 'Move phase', coalesceKey: null });
   };
 
   const handleContinueToDeliverables = () => {
@@ -225,7 +234,7 @@ export function JourneyStage() {
         name: normalize(name),
         activities: []
       }));
-      handlePhasesChange(newPhases);
+      handlePhasesChange(newPhases, { label: 'Generate phases', coalesceKey: null });
       trackEvent('ai_suggestion_accepted', {
         stage: 'journey',
         action: 'generate-phases',
@@ -237,7 +246,7 @@ export function JourneyStage() {
         ...phase,
         name: normalize(result.data[idx] || phase.name)
       }));
-      handlePhasesChange(updatedPhases);
+      handlePhasesChange(updatedPhases, { label: 'Rename phases', coalesceKey: null });
       trackEvent('ai_suggestion_accepted', {
         stage: 'journey',
         action: 'rename-phases',
@@ -254,7 +263,7 @@ export function JourneyStage() {
         ...updatedPhases[phaseIndex],
         activities: [...(updatedPhases[phaseIndex].activities || []), ...incoming].slice(0, cap)
       };
-      handlePhasesChange(updatedPhases);
+      handlePhasesChange(updatedPhases, { label: 'Add activities', coalesceKey: null });
       trackEvent('ai_suggestion_accepted', {
         stage: 'journey',
         action: 'add-activities',
@@ -338,7 +347,7 @@ export function JourneyStage() {
         return phase;
       });
 
-      handlePhasesChange(updatedPhases);
+      handlePhasesChange(updatedPhases, { label: 'Name phases', coalesceKey: null });
 
       // Show toast
       if (window.toast) {
@@ -395,7 +404,8 @@ export function JourneyStage() {
   }, [phases, isAIAvailable]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Stage guide
-  const journeyGuide = stageGuide('JOURNEY');
+  const { locale } = useTranslation();
+  const journeyGuide = stageGuide('JOURNEY', locale);
 
   if (isLoading) {
     return (
@@ -588,13 +598,23 @@ export function JourneyStage() {
                 </div>
               )}
 
-              {/* Autosave indicator */}
-              {isSaving && (
-                <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
-                  <div className="animate-spin w-4 h-4 border-2 border-slate-300 dark:border-slate-600 border-t-slate-600 dark:border-t-slate-300 rounded-full" />
-                  <span>Saving...</span>
-                </div>
-              )}
+              {/* Undo/redo and autosave indicator */}
+              <div className="flex items-center gap-3">
+                <UndoRedoControls
+                  canUndo={editHistory.canUndo}
+                  canRedo={editHistory.canRedo}
+                  undoLabel={editHistory.undoLabel}
+                  redoLabel={editHistory.redoLabel}
+                  onUndo={editHistory.undo}
+                  onRedo={editHistory.redo}
+                />
+                {isSaving && (
+                  <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+                    <div className="animate-spin w-4 h-4 border-2 border-slate-300 dark:border-slate-600 border-t-slate-600 dark:border-t-slate-300 rounded-full" />
+                    <span>Saving...</span>
+                  </div>
+                )}
+              </div>
 
               {/* Guidance */}
               <div className="squircle-lg bg-purple-50 dark:bg-purple-950/30 border border-purple-200/60 dark:border-purple-800/60 px-6 py-4">
@@ -600,6 +600,72 @@ describe('useStageController', () => {
     });
   });
 
+  // ==========================================================================
+  // Edit History
+  // ==========================================================================
+
+  describe('editHistory', () => {
+    it('undoes an edit, restores the form and saves the earlier value with the stack', async () => {
+      const onRestore = jest.fn();
+      const blueprint = createTestBlueprint({
+        ideation: { bigIdea: 'My own idea' }
+      });
+
+      const { result } = renderHook(
+        () => useStageController({
+          projectId: 'test-project',
+          stage: 'ideation',
+          blueprint,
+          onRestore
+        }),
+        { wrapper }
+      );
+
+      act(() => {
+        result.current.debouncedSave({ ideation: { bigIdea: 'Accepted by accident' } }, { label: 'Accept suggestion' });
+      });
+      expect(result.current.editHistory.undoLabel).toBe('Accept suggestion');
+
+      act(() => {
+        result.current.editHistory.undo();
+      });
+
+      expect(onRestore).toHaveBeenCalledWith({ ideation: { bigIdea: 'My own idea' } });
+      expect(result.current.editHistory.canRedo).toBe(true);
+
+      await waitFor(() => {
+        expect(mockSaveProject).toHaveBeenCalledTimes(1);
+      }, { timeout: 1000 });
+
+      const savedData = mockSaveProject.mock.calls[0][0];
+      expect(savedData.ideation.bigIdea).toBe('My own idea');
+      expect(savedData.editHistory.builder.future[0].label).toBe('Accept suggestion');
+    });
+
+    it('picks up the stack saved with the project', () => {
+      const blueprint = createTestBlueprint({
+        ideation: { bigIdea: 'Now' },
+        editHistory: {
+          builder: {
+            past: [{ id: 'e1', label: 'Edit ideation', source: 'builder', timestamp: 1, before: { ideation: { bigIdea: 'Before' } }, after: { ideation: { bigIdea: 'Now' } } }],
+            future: []
+          }
+        }
+      });
+
+      const { result } = renderHook(
+        () => useStageController({
+          projectId: 'test-project',
+          stage: 'journey',
+          blueprint
+        }),
+        { wrapper }
+      );
+
+      expect(result.current.editHistory).toMatchObject({ canUndo: true, undoLabel: 'Edit ideation' });
+    });
+  });
+
   // ==========================================================================
   // Error Handling
   // ==========================================================================
@@ -6,10 +6,12 @@
  *
  * Feature flag: VITE_FEATURE_STAGE_ASSISTANT=true
  * AI enabled: VITE_GEMINI_ENABLED=true + VITE_GEMINI_API_KEY set
+ * Offline: VITE_AI_PROVIDER=local (or the localAIProvider flag) serves fixtures
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { trackEvent } from '../../../utils/analytics';
+import { getAIProvider } from '../../../ai/providers';
 import type { CapturedData } from '../../chat-mvp/domain/stages';
 
 type StageId = 'ideation' | 'journey' | 'deliverables';
@@ -97,7 +99,9 @@ export function useStageAI({ stage, currentData }: UseStageAIOptions) {
         return false;
       }
 
-      if (!geminiEnabled) {
+      // The local provider needs no proxy, so only Gemini is gated on VITE_GEMINI_ENABLED
+      const provider = getAIProvider();
+      if (!geminiEnabled && provider.name === 'gemini') {
         setError('AI is disabled. VITE_GEMINI_ENABLED must be true');
         return false;
       }
@@ -106,24 +110,27 @@ export function useStageAI({ stage, currentData }: UseStageAIOptions) {
       try {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), 2000);
-        const url = import.meta.env?.VITE_GEMINI_PROXY_URL || '/.netlify/functions/gemini';
-        const res = await fetch(String(url), {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ prompt: 'ping', model: 'gemini-flash-lite-latest', generationConfig: { maxOutputTokens: 4, temperature: 0 } }),
-          signal: controller.signal
-        });
-        clearTimeout(timeoutId);
-        if (!res.ok) throw new Error(`Proxy responded ${res.status}`);
+        try {
+          await provider.generate({
+            prompt: 'ping',
+            model: 'gemini-flash-lite-latest',
+            maxTokens: 4,
+            temperature: 0,
+            label: 'health_check',
+            signal: controller.signal
+          });
+        } finally {
+          clearTimeout(timeoutId);
+        }
 
         // Success!
-        console.log('[useStageAI] AI health check passed');
-        trackEvent('ai_health_check_passed', { stage });
+        console.log(`[useStageAI] AI health check passed (${provider.name})`);
+        trackEvent('ai_health_check_passed', { stage, provider: provider.name });
         return true;
       } catch (aiError) {
         console.error('[useStageAI] AI health check failed:', aiError);
         setError('AI is unavailable or not responding');
-        trackEvent('ai_health_check_failed', { stage, error: String(aiError) });
+        trackEvent('ai_health_check_failed', { stage, provider: provider.name, error: String(aiError) });
         return false;
       }
     } catch (err) {
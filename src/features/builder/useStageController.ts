@@ -6,6 +6,8 @@
  * - Stage gating via existing validate function
  * - Stage transitions (update stageStatus, currentStage, updatedAt)
  * - Telemetry tracking (stage_viewed, stage_autosave, stage_completed)
+ * - Undo/redo of saved edits, shared across the builder stages and saved
+ *   with the project (editHistory.builder)
  *
  * Phase 2 - Infrastructure
  */
@@ -15,6 +17,8 @@ import { useNavigate } from 'react-router-dom';
 import { UnifiedStorageManager, type UnifiedProjectData } from '../../services/UnifiedStorageManager';
 import { deriveStageStatus, getNextStage, getStageRoute, type StageId } from '../../utils/stageStatus';
 import { validate, type CapturedData } from '../chat-mvp/domain/stages';
+import { parseEditHistory, pickSlices, type EditHistory } from '../chat-mvp/domain/editHistory';
+import { useEditHistory } from '../../hooks/useEditHistory';
 
 // ============================================================================
 // Telemetry Service (stub for Phase 2, wire to actual service later)
@@ -71,11 +75,29 @@ export interface UseStageControllerProps {
   stage: StageId;
   blueprint: UnifiedProjectData | null;
   onBlueprintUpdate?: (blueprint: UnifiedProjectData) => void;
+  // Undo/redo put these sections back; reset local form state from them
+  onRestore?: (restored: Partial<UnifiedProjectData>) => void;
+}
+
+export interface SaveEditMeta {
+  label?: string;
+  // Edits with the same key a few seconds apart undo as one step (default: per stage and section)
+  coalesceKey?: string | null;
+}
+
+export interface StageEditHistory {
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
 }
 
 export interface UseStageControllerReturn {
   isSaving: boolean;
-  debouncedSave: (updates: Partial<UnifiedProjectData>) => void;
+  debouncedSave: (updates: Partial<UnifiedProjectData>, edit?: SaveEditMeta) => void;
+  editHistory: StageEditHistory;
   saveAndContinueLater: () => Promise<void>;
   completeStage: (nextStage?: StageId) => Promise<void>;
   canCompleteStage: () => boolean;
@@ -93,10 +115,16 @@ const STAGE_TO_CHATMVP_STAGE: Record<StageId, string> = {
   review: 'DELIVERABLES' // Review doesn't need validation, but map to last stage
 };
 
+type BuilderEditSlices = Pick<UnifiedProjectData, 'ideation' | 'journey' | 'deliverables'>;
+
 // ============================================================================
 // Empty Save Guard
 // ============================================================================
 
+function withHistory(blueprint: UnifiedProjectData, builder: EditHistory | null): Partial<UnifiedProjectData> {
+  return builder ? { editHistory: { ...blueprint.editHistory, builder } } : {};
+}
+
 function hasSubstantiveChanges(blueprint: UnifiedProjectData | null): boolean {
   if (!blueprint) return false;
 
@@ -124,7 +152,8 @@ export function useStageController({
   projectId,
   stage,
   blueprint,
-  onBlueprintUpdate
+  onBlueprintUpdate,
+  onRestore
 }: UseStageControllerProps): UseStageControllerReturn {
   const navigate = useNavigate();
   const [isSaving, setIsSaving] = useState(false);
@@ -136,6 +165,35 @@ export function useStageController({
   const storage = useRef(UnifiedStorageManager.getInstance());
   const stageViewTrackedRef = useRef(false);
 
+  // Sections as last edited on this page; newer than blueprint until the save lands
+  const editedRef = useRef<Partial<UnifiedProjectData>>({});
+  const builderHistoryRef = useRef<EditHistory | null>(null);
+  const historyLoadedForRef = useRef<string | null>(null);
+  const restoreRef = useRef(onRestore);
+  restoreRef.current = onRestore;
+  const saveRef = useRef<(updates: Partial<UnifiedProjectData>) => void>(() => {});
+
+  const history = useEditHistory<BuilderEditSlices>({
+    apply: (slices) => {
+      editedRef.current = { ...editedRef.current, ...slices };
+      restoreRef.current?.(slices);
+      saveRef.current(slices);
+    },
+    onChange: (next) => {
+      builderHistoryRef.current = next as EditHistory;
+    }
+  });
+  const { reset: resetHistory, record: recordHistory } = history;
+
+  // Pick up the stack saved with the project once per project
+  useEffect(() => {
+    if (!blueprint || historyLoadedForRef.current === projectId) {return;}
+    historyLoadedForRef.current = projectId;
+    const saved = parseEditHistory<BuilderEditSlices>(blueprint.editHistory?.builder);
+    builderHistoryRef.current = saved as EditHistory;
+    resetHistory(saved);
+  }, [blueprint, projectId, resetHistory]);
+
   // =========================================================================
   // Telemetry: Track stage view (once per mount)
   // =========================================================================
@@ -185,6 +243,7 @@ export function useStageController({
       const updatedBlueprint = {
         ...blueprint,
         ...pendingUpdatesRef.current,
+        ...withHistory(blueprint, builderHistoryRef.current),
         id: projectId,
         updatedAt: new Date()
       } as UnifiedProjectData;
@@ -229,7 +288,7 @@ export function useStageController({
   // Debounced Autosave (500-800ms)
   // =========================================================================
 
-  const debouncedSave = useCallback(
+  const scheduleSave = useCallback(
     (updates: Partial<UnifiedProjectData>) => {
       // Store pending updates (coalesce across rapid edits)
       pendingUpdatesRef.current = pendingUpdatesRef.current
@@ -257,6 +316,7 @@ export function useStageController({
         const updatedBlueprint = {
           ...blueprint,
           ...updates,
+          ...withHistory(blueprint, builderHistoryRef.current),
           id: projectId,
           updatedAt: new Date()
         } as UnifiedProjectData;
@@ -295,6 +355,29 @@ export function useStageController({
     },
     [blueprint, projectId, stage, onBlueprintUpdate]
   );
+  saveRef.current = scheduleSave;
+
+  // Record the edit for undo (before = last edited or loaded sections), then save
+  const debouncedSave = useCallback(
+    (updates: Partial<UnifiedProjectData>, edit: SaveEditMeta = {}) => {
+      const keys = (Object.keys(updates) as Array<keyof BuilderEditSlices>)
+        .filter(key => key === 'ideation' || key === 'journey' || key === 'deliverables');
+      if (keys.length) {
+        const current = { ...blueprint, ...editedRef.current } as BuilderEditSlices;
+        const coalesceKey = edit.coalesceKey === null ? undefined : edit.coalesceKey ?? `${stage}:${keys.join(',')}`;
+        recordHistory({
+          label: edit.label ?? `Edit ${stage}`,
+          source: 'builder',
+          before: pickSlices(current, keys),
+          after: pickSlices(updates as BuilderEditSlices, keys),
+          ...(coalesceKey ? { coalesceKey } : {})
+        });
+      }
+      editedRef.current = { ...editedRef.current, ...updates };
+      scheduleSave(updates);
+    },
+    [blueprint, stage, recordHistory, scheduleSave]
+  );
 
   // =========================================================================
   // Stage Gating: Validate current stage completion
@@ -532,6 +615,14 @@ export function useStageController({
   return {
     isSaving,
     debouncedSave,
+    editHistory: {
+      undo: () => { history.undo(); },
+      redo: () => { history.redo(); },
+      canUndo: history.canUndo,
+      canRedo: history.canRedo,
+      undoLabel: history.undoLabel,
+      redoLabel: history.redoLabel
+    },
     saveAndContinueLater,
     completeStage,
     canCompleteStage,
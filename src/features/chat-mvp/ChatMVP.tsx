@@ -12,9 +12,11 @@ import { FirebaseStatus } from './components/FirebaseStatus';
 import { WorkingDraftSidebar } from './components/WorkingDraftSidebar';
 import { ResponsiveSidebar, StatusIndicator, type SystemStatus, type ResponsiveSidebarControls } from './components/minimal';
 import { SyncStatusChip } from './components/SyncStatusChip';
+import { UndoRedoControls } from './components/UndoRedoControls';
 import { CompactStageStepper } from './components/CompactStageStepper';
 import { useResponsiveLayout } from './hooks';
 import { trackEvent } from '../../utils/analytics';
+import { telemetry } from '../../services/telemetry';
 import { DeliverablesPreviewCard } from './components/DeliverablesPreviewCard';
 import { JourneyBoard, type JourneyPhaseDraft } from './components/JourneyBoard';
 import { PhaseEditorDrawer } from './components/PhaseEditorDrawer';
@@ -22,7 +24,7 @@ import { DecisionBar } from './components/DecisionBar';
 import { PhaseDetailExpander } from './components/PhaseDetailExpander';
 import { buildStagePrompt, buildCorrectionPrompt, buildSuggestionPrompt } from './domain/prompt';
 import { scoreIdeationSpecificity, nextQuestionFor } from './domain/specificityScorer';
-import { generateAI } from './domain/ai';
+import { generateAI, generateAIStream } from './domain/ai';
 import {
   type CapturedData,
   type Stage,
@@ -42,8 +44,11 @@ import {
   summarizeCaptured
 } from './domain/stages';
 import { assessStageInput } from './domain/inputQuality';
-import { detectIntent, getImmediateAcknowledgment, extractFromConversationalWrapper, type UserIntent } from './domain/intentDetection';
+import { parseEditHistory, pickSlices, type EditSource } from './domain/editHistory';
+import { useEditHistory } from '../../hooks/useEditHistory';
+import { detectIntent, getImmediateAcknowledgment, extractFromConversationalWrapper, buildClarifyingQuestion, type UserIntent } from './domain/intentDetection';
 import { suggestionTracker } from './domain/suggestionTracking';
+import type { SuggestionEvent } from './domain/suggestionRanking';
 import { generateSmartJourney } from './domain/journeyTemplate';
 import {
   initDeliverablesMicroFlow,
@@ -55,12 +60,24 @@ import {
 import { generateCourseDescription, generateTagline, verifyDescriptionQuality } from './domain/courseDescriptionGenerator';
 import { generateProjectShowcase } from './domain/projectShowcaseGenerator';
 import { getPostCaptureCoaching, getStageGuidance } from './domain/coachingResponses';
-import { resolveGradeBand, gradeBandRules, type GradeBandKey, type GradeBandRule } from '../../ai/gradeBandRules';
+import { resolveGradeBand, type GradeBandKey, type GradeBandRule } from '../../ai/gradeBandRules';
+import { getGradeBandRules } from '../../ai/rulePacks';
+import { useRulePacks } from '../../hooks/useRulePacks';
+import { isLocale } from '../../i18n';
+import { useTranslation } from '../../i18n/useTranslation';
 
 type ChatProjectPayload = {
   wizardData?: any | null;
   projectData?: any | null;
   capturedData?: Record<string, unknown> | null;
+  editHistory?: { chat?: unknown } | null;
+};
+
+// ChatMVP state that undo/redo restores
+type ChatEditSlices = {
+  captured: CapturedData;
+  journeyDraft: JourneyPhaseDraft[];
+  deliverablesDraft: DeliverablesMicroState | null;
 };
 
 const stageDisplayNames: Record<Stage, string> = {
@@ -85,6 +102,7 @@ export function ChatMVP({
   const navigate = useNavigate();
   const engine = useChatEngine({ initialMessages: [] });
   const { isMobile } = useResponsiveLayout();
+  const { locale } = useTranslation();
   const [stage, setStage] = useState<Stage>('BIG_IDEA');
   const [stageTurns, setStageTurns] = useState(0);
   const [captured, setCaptured] = useState<CapturedData>(createEmptyCaptured());
@@ -97,9 +115,11 @@ export function ChatMVP({
   const [aiSuggestions, setAiSuggestions] = useState<string[]>([]);
   const [firebaseStatus, setFirebaseStatus] = useState<'online' | 'offline' | 'error'>('online');
   const [suggestionsLoading, setSuggestionsLoading] = useState(false);
+  const [suggestionHistory, setSuggestionHistory] = useState<SuggestionEvent[]>([]);
   const [showWorkingDraft, setShowWorkingDraft] = useState(true); // Working Draft sidebar visibility
   const [conversationHistory, setConversationHistory] = useState<string[]>([]); // Last 5 user inputs for context
   const [deliverablesMicroState, setDeliverablesMicroState] = useState<DeliverablesMicroState | null>(null);
+  const [journeyDraft, setJourneyDraft] = useState<JourneyPhaseDraft[]>([]);
   const [, setMicroFlowActionChips] = useState<string[]>([]); // Retained setter for legacy micro-flow compatibility
   const [mode, setMode] = useState<'drafting' | 'refining' | 'validating'>('drafting');
   const [focus, setFocus] = useState<'ideation' | 'journey' | 'deliverables' | 'overview'>('ideation');
@@ -112,19 +132,87 @@ export function ChatMVP({
   const [deliverablesReceipt, setDeliverablesReceipt] = useState<{ milestoneCount: number; artifactCount: number; criteriaCount: number; timestamp: number } | null>(null);
   const [showPhaseAI, setShowPhaseAI] = useState(false);
   // AI refinement status badges
-  const [journeyAIStatus, setJourneyAIStatus] = useState<'idle' | 'refining' | 'enhanced'>('idle');
-  const [deliverablesAIStatus, setDeliverablesAIStatus] = useState<'idle' | 'refining' | 'enhanced'>('idle');
+  // 'recovered' = AI output failed validation and was salvaged heuristically; worth a closer look
+  const [journeyAIStatus, setJourneyAIStatus] = useState<'idle' | 'refining' | 'enhanced' | 'recovered'>('idle');
+  const [deliverablesAIStatus, setDeliverablesAIStatus] = useState<'idle' | 'refining' | 'enhanced' | 'recovered'>('idle');
   const [completionState, setCompletionState] = useState<'idle' | 'processing' | 'ready' | 'error'>(() => {
     const meta = (projectData?.projectData as any)?.status ?? (projectData as any)?.status;
     return meta === 'ready' ? 'ready' : 'idle';
   });
   const greetingSentRef = useRef(false);
   const nameSuggestionSentRef = useRef(false);
+  const streamAbortRef = useRef<AbortController | null>(null);
   const sidebarControlsRef = useRef<ResponsiveSidebarControls | null>(null);
   const stageIndex = stageOrder.indexOf(stage);
   const projectStatus = useMemo(() => computeStatus(captured), [captured]);
   const journeyV2Enabled = useMemo(() => (import.meta.env.VITE_FEATURE_STUDIO_JOURNEY_V2 ?? 'true') !== 'false', []);
 
+  // Persisted telemetry: one 'stage_transition' per stage change (jump, continue or auto-advance),
+  // with the time spent in the stage being left
+  const stageEnteredRef = useRef<{ stage: Stage; at: number } | null>(null);
+  // Input we last asked "did you mean…?" about; the repeat goes through as-is
+  const lastClarifiedInputRef = useRef<string | null>(null);
+
+  const updateDeliverablesChips = useCallback((state: DeliverablesMicroState | null) => {
+    if (journeyV2Enabled) {
+      setMicroFlowActionChips([]);
+      return;
+    }
+    if (state) {
+      setMicroFlowActionChips(getDeliverablesActionChips(state));
+    } else {
+      setMicroFlowActionChips([]);
+    }
+  }, [journeyV2Enabled]);
+
+  // Undo/redo: commitEdit() records what a capture or draft edit replaced, then applies it
+  const editStateRef = useRef<ChatEditSlices>({ captured, journeyDraft, deliverablesDraft: deliverablesMicroState });
+  editStateRef.current = { captured, journeyDraft, deliverablesDraft: deliverablesMicroState };
+  const applyEditSlices = useCallback((slices: Partial<ChatEditSlices>) => {
+    editStateRef.current = { ...editStateRef.current, ...slices };
+    if (slices.captured) {setCaptured(slices.captured);}
+    if (slices.journeyDraft) {setJourneyDraft(slices.journeyDraft);}
+    if ('deliverablesDraft' in slices) {
+      const draft = slices.deliverablesDraft ?? null;
+      setDeliverablesMicroState(draft);
+      updateDeliverablesChips(draft);
+    }
+  }, [updateDeliverablesChips]);
+  const editHistory = useEditHistory<ChatEditSlices>({
+    apply: (slices, command, direction) => {
+      applyEditSlices(slices);
+      setCompletionState('idle');
+      void import('../../utils/toast')
+        .then(({ showToast }) => showToast(`${direction === 'undo' ? 'Undone' : 'Redone'}: ${command.label}`, 'info', 2000))
+        .catch(() => {});
+    }
+  });
+  const { record: recordEdit, reset: resetEditHistory, history: chatEditHistory } = editHistory;
+  const commitEdit = useCallback((after: Partial<ChatEditSlices>, meta: { label: string; source: EditSource; coalesceKey?: string }) => {
+    const before = pickSlices(editStateRef.current, Object.keys(after) as Array<keyof ChatEditSlices>);
+    recordEdit({ ...meta, before, after });
+    applyEditSlices(after);
+  }, [recordEdit, applyEditSlices]);
+
+  useEffect(() => {
+    if (!initialized) {return;}
+    const previous = stageEnteredRef.current;
+    const now = Date.now();
+    stageEnteredRef.current = { stage, at: now };
+    if (!previous || previous.stage === stage) {return;}
+    telemetry.track({
+      event: 'stage_transition',
+      success: true,
+      latencyMs: now - previous.at,
+      projectId: projectId || 'unsaved',
+      metadata: {
+        fromStage: previous.stage,
+        toStage: stage,
+        direction: stageOrder.indexOf(stage) > stageOrder.indexOf(previous.stage) ? 'forward' : 'back'
+      }
+    });
+  }, [stage, initialized, projectId]);
+
   const wizard = useMemo(() => {
     const w = projectData?.wizardData || {};
     const subjects: string[] = Array.isArray(w.projectContext?.subjects) ? w.projectContext.subjects : (w.subjects || []);
@@ -134,21 +222,20 @@ export function ChatMVP({
       duration: w.projectContext?.timeWindow || w.duration || '',
       location: w.projectContext?.space || w.location || '',
       projectTopic: w.projectTopic || '',
+      studentLanguage: isLocale(w.studentLanguage) ? w.studentLanguage : undefined,
+      rulePackId: typeof w.rulePackId === 'string' ? w.rulePackId : undefined,
       materials: Array.isArray(w.projectContext?.availableMaterials) ? w.projectContext.availableMaterials.join(', ') : w.materials || '',
       pblExperience: w.pblExperience || 'some'
     } as const;
   }, [projectData]);
 
   // Accept suggestion directly (capture + validate + advance or ask follow-up)
-  const acceptSuggestion = useCallback(async (text: string, index?: number) => {
+  const acceptSuggestion = useCallback(async (text: string) => {
     try {
-      const recent = suggestionTracker.getMostRecent(5);
-      if (typeof index === 'number' && recent[index]) {
-        suggestionTracker.recordSelection(recent[index].id);
-      }
+      suggestionTracker.recordChoice(stage, text);
 
       const updatedCaptured = captureStageInput(captured, stage, text);
-      setCaptured(updatedCaptured);
+      commitEdit({ captured: updatedCaptured }, { label: `Accept suggestion for ${stageDisplayNames[stage]}`, source: 'chip_accept' });
 
       const gatingInfo = validate(stage, updatedCaptured);
       // For ideation, guide with targeted follow-up if not complete
@@ -181,14 +268,13 @@ export function ChatMVP({
     } catch (e) {
       console.error('[ChatMVP] acceptSuggestion failed:', e);
     }
-  }, [captured, stage, wizard, autosaveEnabled, engine]);
+  }, [captured, stage, wizard, autosaveEnabled, engine, commitEdit]);
   const deliverablesComplete = useMemo(() => {
     const milestones = captured.deliverables?.milestones?.length ?? 0;
     const artifacts = captured.deliverables?.artifacts?.length ?? 0;
     const criteria = captured.deliverables?.rubric?.criteria?.length ?? 0;
     return milestones >= 3 && artifacts >= 1 && criteria >= 3;
   }, [captured.deliverables]);
-  const [journeyDraft, setJourneyDraft] = useState<JourneyPhaseDraft[]>([]);
   const [journeyEditingPhaseId, setJourneyEditingPhaseId] = useState<string | null>(null);
   const journeyInitializedRef = useRef(false);
   // Footer sizing so the composer never requires a tiny scroll to appear
@@ -208,6 +294,14 @@ export function ChatMVP({
   const gradeBandKey: GradeBandKey | null = useMemo(() => resolveGradeBand(wizard.gradeLevel), [wizard.gradeLevel]);
   const gradeBandLabel = gradeBandKey ?? 'unknown';
 
+  // Snapshot of stored + session outcomes; refreshed per stage so earlier picks count
+  useEffect(() => {
+    suggestionTracker.setContext({ gradeLevel: wizard.gradeLevel });
+    suggestionTracker.getEvents()
+      .then(setSuggestionHistory)
+      .catch(error => console.warn('[ChatMVP] Failed to load suggestion history:', error));
+  }, [wizard.gradeLevel, stage]);
+
   const normalizePhaseDraft = useCallback((phase: Partial<JourneyPhaseDraft> & { name?: string; activities?: string[]; id?: string; focus?: string; checkpoint?: string }, index: number): JourneyPhaseDraft => ({
     id: phase.id || `phase-${index + 1}`,
     name: phase.name?.trim() || `Phase ${index + 1}`,
@@ -228,60 +322,65 @@ export function ChatMVP({
   }, [captured, wizard, normalizePhaseDraft]);
 
   const handleJourneyRename = useCallback((id: string, nextName: string) => {
-    setJourneyDraft(prev => prev.map(phase => (phase.id === id ? { ...phase, name: nextName } : phase)));
-  }, []);
+    const next = editStateRef.current.journeyDraft.map(phase => (phase.id === id ? { ...phase, name: nextName } : phase));
+    commitEdit({ journeyDraft: next }, { label: 'Rename phase', source: 'journey_board', coalesceKey: `rename:${id}` });
+  }, [commitEdit]);
 
   const handleJourneyReorder = useCallback((from: number, to: number) => {
-    setJourneyDraft(prev => {
-      const next = [...prev];
-      const [moved] = next.splice(from, 1);
-      next.splice(to, 0, moved);
-      return next;
-    });
-  }, []);
+    const next = [...editStateRef.current.journeyDraft];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    commitEdit({ journeyDraft: next }, { label: 'Reorder phases', source: 'journey_board' });
+  }, [commitEdit]);
 
   const handleJourneyAddPhase = useCallback(() => {
-    setJourneyDraft(prev => [
-      ...prev,
-      {
-        id: `phase-${Date.now()}`,
-        name: `New phase ${prev.length + 1}`,
-        focus: '',
-        activities: [],
-        checkpoint: ''
-      }
-    ]);
-  }, []);
+    const prev = editStateRef.current.journeyDraft;
+    commitEdit({
+      journeyDraft: [
+        ...prev,
+        {
+          id: `phase-${Date.now()}`,
+          name: `New phase ${prev.length + 1}`,
+          focus: '',
+          activities: [],
+          checkpoint: ''
+        }
+      ]
+    }, { label: 'Add phase', source: 'journey_board' });
+  }, [commitEdit]);
 
   const handleJourneyRemovePhase = useCallback((id: string) => {
-    setJourneyDraft(prev => prev.filter(phase => phase.id !== id));
-  }, []);
+    const next = editStateRef.current.journeyDraft.filter(phase => phase.id !== id);
+    commitEdit({ journeyDraft: next }, { label: 'Remove phase', source: 'journey_board' });
+  }, [commitEdit]);
 
   const handleJourneySelectPhase = useCallback((id: string) => {
     setJourneyEditingPhaseId(id);
   }, []);
 
   const handleJourneySavePhase = useCallback((updated: JourneyPhaseDraft) => {
-    setJourneyDraft(prev => prev.map(phase => (phase.id === updated.id ? { ...updated } : phase)));
+    const next = editStateRef.current.journeyDraft.map(phase => (phase.id === updated.id ? { ...updated } : phase));
+    commitEdit({ journeyDraft: next }, { label: `Edit ${updated.name || 'phase'}`, source: 'phase_editor' });
     setJourneyEditingPhaseId(null);
-  }, []);
+  }, [commitEdit]);
 
   const handleJourneyRegenerate = useCallback(() => {
     if (!window.confirm('Regenerate the journey map with fresh AI suggestions? Your current edits will be replaced.')) {
       return;
     }
     const drafts = buildSuggestedPhases();
-    setJourneyDraft(drafts);
+    commitEdit({ journeyDraft: drafts }, { label: 'Regenerate journey', source: 'journey_board' });
     // Background AI refinement: replace template with AI-specific journey when available
     (async () => {
       const { generateSmartJourneyAI } = await import('./domain/journeyMicroFlow');
       const ai = await generateSmartJourneyAI(captured, wizard);
-      if (ai && ai.length) {
-        const refined = ai.map((p, index) => normalizePhaseDraft({ id: `suggest-${index + 1}`, name: p.name, focus: p.summary, activities: p.activities, checkpoint: '' }, index));
+      if (ai && ai.phases.length) {
+        const refined = ai.phases.map((p, index) => normalizePhaseDraft({ id: `suggest-${index + 1}`, name: p.name, focus: p.summary, activities: p.activities, checkpoint: '' }, index));
         setJourneyDraft(refined);
+        setJourneyAIStatus(ai.path === 'heuristic' ? 'recovered' : 'enhanced');
       }
     })().catch(() => {});
-  }, [buildSuggestedPhases, captured, wizard, normalizePhaseDraft]);
+  }, [buildSuggestedPhases, captured, wizard, normalizePhaseDraft, commitEdit]);
 
   const handleJourneyCustomize = useCallback(() => {
     const first = journeyDraft[0];
@@ -295,17 +394,6 @@ export function ChatMVP({
   ), [journeyDraft]);
 
   const editingPhase = useMemo(() => journeyDraft.find(phase => phase.id === journeyEditingPhaseId) || null, [journeyDraft, journeyEditingPhaseId]);
-  const updateDeliverablesChips = useCallback((state: DeliverablesMicroState | null) => {
-    if (journeyV2Enabled) {
-      setMicroFlowActionChips([]);
-      return;
-    }
-    if (state) {
-      setMicroFlowActionChips(getDeliverablesActionChips(state));
-    } else {
-      setMicroFlowActionChips([]);
-    }
-  }, [journeyV2Enabled]);
 
   const handleJourneyAccept = useCallback(async () => {
     const normalized = journeyDraft.map((phase, index) => normalizePhaseDraft(phase, index));
@@ -321,9 +409,7 @@ export function ChatMVP({
         phases: normalized
       }
     };
-    setCaptured(updatedCaptured);
-
-    setJourneyDraft(normalized);
+    commitEdit({ captured: updatedCaptured, journeyDraft: normalized }, { label: 'Accept journey map', source: 'journey_board' });
     setJourneyEditingPhaseId(null);
     setJourneyReceipt({ phaseCount: normalized.length, timestamp: Date.now() });
     trackEvent('journey_accept', { phaseCount: normalized.length });
@@ -365,12 +451,12 @@ export function ChatMVP({
       const ai = await generateSmartDeliverablesAI(updatedCaptured, wizard);
       if (ai) {
         setDeliverablesMicroState(prev => prev ? { ...prev, suggestedMilestones: ai.suggestedMilestones, suggestedArtifacts: ai.suggestedArtifacts, suggestedCriteria: ai.suggestedCriteria } : prev);
-        setDeliverablesAIStatus('enhanced');
+        setDeliverablesAIStatus(ai.path === 'heuristic' ? 'recovered' : 'enhanced');
       } else {
         setDeliverablesAIStatus('idle');
       }
     })().catch(() => {});
-  }, [journeyDraft, normalizePhaseDraft, captured, wizard, engine, setStage, setStageTurns, setHasInput, setMode, setFocus, setShowKickoffPanel, updateDeliverablesChips, journeyV2Enabled]);
+  }, [journeyDraft, normalizePhaseDraft, captured, wizard, engine, setStage, setStageTurns, setHasInput, setMode, setFocus, setShowKickoffPanel, updateDeliverablesChips, journeyV2Enabled, commitEdit]);
 
   useEffect(() => {
     if (journeyV2Enabled) {
@@ -388,10 +474,10 @@ export function ChatMVP({
               setJourneyAIStatus('refining');
               const { generateSmartJourneyAI } = await import('./domain/journeyMicroFlow');
               const ai = await generateSmartJourneyAI(captured, wizard);
-              if (ai && ai.length) {
-                const refined = ai.map((p, index) => normalizePhaseDraft({ id: `suggest-${index + 1}`, name: p.name, focus: p.summary, activities: p.activities, checkpoint: '' }, index));
+              if (ai && ai.phases.length) {
+                const refined = ai.phases.map((p, index) => normalizePhaseDraft({ id: `suggest-${index + 1}`, name: p.name, focus: p.summary, activities: p.activities, checkpoint: '' }, index));
                 setJourneyDraft(refined);
-                setJourneyAIStatus('enhanced');
+                setJourneyAIStatus(ai.path === 'heuristic' ? 'recovered' : 'enhanced');
               } else {
                 setJourneyAIStatus('idle');
               }
@@ -421,6 +507,11 @@ export function ChatMVP({
     }
   }, [stage]);
 
+  useEffect(() => {
+    // Stop any in-flight streamed reply when leaving the chat
+    return () => streamAbortRef.current?.abort();
+  }, []);
+
   useEffect(() => {
     if (!journeyReceipt) {return;}
     const timeout = setTimeout(() => setJourneyReceipt(null), 8000);
@@ -563,8 +654,19 @@ export function ChatMVP({
         }
       }
 
+      // Undo history is saved with the project so it survives a reload
+      let savedHistory: unknown = projectData?.editHistory?.chat ?? storedProject?.editHistory?.chat;
+      if (!savedHistory && !storedProject && projectId) {
+        try {
+          savedHistory = (await unifiedStorage.loadProject(projectId))?.editHistory?.chat;
+        } catch {
+          // ignore – start with an empty history
+        }
+      }
+
       if (cancelled) {return;}
       setCaptured(hydrated);
+      resetEditHistory(parseEditHistory<ChatEditSlices>(savedHistory));
       const rawStage = (projectData as any)?.stage ?? storedProject?.stage ?? null;
 
       // Priority: 1) Saved stage, 2) Derived from captured data
@@ -594,7 +696,7 @@ export function ChatMVP({
     return () => {
       cancelled = true;
     };
-  }, [projectId, projectData, isMobile]);
+  }, [projectId, projectData, isMobile, resetEditHistory]);
 
   // Surface kickoff guidance on every stage transition until the teacher dismisses it
   useEffect(() => {
@@ -632,18 +734,19 @@ export function ChatMVP({
         stage,
         status,
         capturedData: capturedPayload,
+        editHistory: { chat: chatEditHistory },
         // Set provisional=false once user has captured anything meaningful
         provisional: !hasMeaningfulContent,
         updatedAt: new Date()
       });
     } catch {}
-  }, [projectId, captured, stage]);
+  }, [projectId, captured, stage, chatEditHistory]);
 
   useEffect(() => {
     if (!initialized || !autosaveEnabled) {return;}
     const t = setTimeout(() => { void persist(); }, 1200);
     return () => clearTimeout(t);
-  }, [persist, initialized, autosaveEnabled, captured, stage]);
+  }, [persist, initialized, autosaveEnabled, captured, stage, chatEditHistory]);
 
   // Cloud sync on page hide/close and when coming back online
   useEffect(() => {
@@ -662,12 +765,21 @@ export function ChatMVP({
   }, [projectId]);
 
   const fallbackSuggestions = useMemo(() => {
-    const base = stageSuggestions(stage);
-    const dyn = dynamicSuggestions(stage, { subjects: wizard.subjects, projectTopic: wizard.projectTopic }, captured);
-    return Array.from(new Set([...(dyn || []), ...base])).slice(0, 3);
-  }, [stage, wizard.subjects, wizard.projectTopic, captured]);
-  const suggestions = aiSuggestions.length ? aiSuggestions : fallbackSuggestions;
-  const guide = useMemo(() => stageGuide(stage), [stage]);
+    const base = stageSuggestions(stage, locale);
+    // Topic-aware suggestions are composed in English, so only mix them into an English UI
+    const dyn = locale === 'en' ? dynamicSuggestions(stage, { subjects: wizard.subjects, projectTopic: wizard.projectTopic }, captured) : [];
+    return [...(dyn || []), ...base];
+  }, [stage, wizard.subjects, wizard.projectTopic, captured, locale]);
+  const suggestions = useMemo(
+    () => suggestionTracker.rank(stage, aiSuggestions.length ? aiSuggestions : fallbackSuggestions, 3, suggestionHistory),
+    [stage, aiSuggestions, fallbackSuggestions, suggestionHistory]
+  );
+
+  useEffect(() => {
+    if (!showIdeas || suggestionsLoading || suggestions.length === 0) {return;}
+    suggestionTracker.recordShown(stage, suggestions, aiSuggestions.length ? 'ai' : 'template');
+  }, [showIdeas, suggestionsLoading, suggestions, stage, aiSuggestions.length]);
+  const guide = useMemo(() => stageGuide(stage, locale), [stage, locale]);
   const gating = validate(stage, captured);
   const showGating = hasInput || stage !== 'BIG_IDEA';
 
@@ -679,10 +791,17 @@ export function ChatMVP({
   }), [aiStatus, firebaseStatus]);
 
   const stageSummary = useMemo(() => getStageSummary(stage, captured), [stage, captured]);
+  const { packs: rulePacks, synced: rulePacksSynced } = useRulePacks();
+  const rulePack = useMemo(
+    () => rulePacks.find(pack => pack.id === wizard.rulePackId) ?? null,
+    [rulePacks, wizard.rulePackId]
+  );
+  // The project names a pack that was removed or never reached this deployment
+  const missingRulePackId = rulePacksSynced && wizard.rulePackId && !rulePack ? wizard.rulePackId : null;
   const gradeBandSections = useMemo(() => {
     if (!gradeBandKey) {return [] as GradeGuardrailSection[];}
-    return buildGradeBandSections(stage, gradeBandRules[gradeBandKey]);
-  }, [stage, gradeBandKey]);
+    return buildGradeBandSections(stage, getGradeBandRules(gradeBandKey, rulePack));
+  }, [stage, gradeBandKey, rulePack]);
 
   const handleSidebarControls = useCallback((controls: ResponsiveSidebarControls | null) => {
     sidebarControlsRef.current = controls;
@@ -1210,9 +1329,7 @@ The AI service encountered an issue while generating your professional showcase
             rubric: result.captured!.rubric
           }
         };
-        setCaptured(updatedCaptured);
-        setDeliverablesMicroState(null);
-        updateDeliverablesChips(null);
+        commitEdit({ captured: updatedCaptured, deliverablesDraft: null }, { label: 'Accept deliverables', source: 'deliverables_card' });
         setDeliverablesReceipt({
           milestoneCount: result.captured!.milestones.length,
           artifactCount: result.captured!.artifacts.length,
@@ -1289,7 +1406,7 @@ Your project structure is ready!`,
       default:
         return false;
     }
-  }, [captured, engine, handleProjectCompletion, wizard, stage, updateDeliverablesChips]);
+  }, [captured, engine, handleProjectCompletion, wizard, updateDeliverablesChips, commitEdit]);
 
   const handleDeliverablesQuickCommand = useCallback(async (command: string) => {
     if (!deliverablesMicroState) {return;}
@@ -1299,54 +1416,50 @@ Your project structure is ready!`,
 
   const handleDeliverablesRename = useCallback((section: 'milestones' | 'artifacts' | 'criteria', index: number, text: string) => {
     setCompletionState('idle');
-    setDeliverablesMicroState(prev => {
-      if (!prev) {return prev;}
-      const clone = { ...prev };
-      if (section === 'milestones') {
-        const items = [...clone.suggestedMilestones];
-        items[index] = text;
-        clone.suggestedMilestones = items;
-      } else if (section === 'artifacts') {
-        const items = [...clone.suggestedArtifacts];
-        items[index] = text;
-        clone.suggestedArtifacts = items;
-      } else {
-        const items = [...clone.suggestedCriteria];
-        items[index] = text;
-        clone.suggestedCriteria = items;
-      }
-      updateDeliverablesChips(clone);
-      return clone;
-    });
-  }, [updateDeliverablesChips]);
+    const prev = editStateRef.current.deliverablesDraft;
+    if (!prev) {return;}
+    const clone = { ...prev };
+    if (section === 'milestones') {
+      const items = [...clone.suggestedMilestones];
+      items[index] = text;
+      clone.suggestedMilestones = items;
+    } else if (section === 'artifacts') {
+      const items = [...clone.suggestedArtifacts];
+      items[index] = text;
+      clone.suggestedArtifacts = items;
+    } else {
+      const items = [...clone.suggestedCriteria];
+      items[index] = text;
+      clone.suggestedCriteria = items;
+    }
+    commitEdit({ deliverablesDraft: clone }, { label: `Rename ${section === 'criteria' ? 'criterion' : section.slice(0, -1)}`, source: 'deliverables_card', coalesceKey: `rename:${section}:${index}` });
+  }, [commitEdit]);
 
   const handleDeliverablesReorder = useCallback((section: 'milestones' | 'artifacts' | 'criteria', from: number, to: number) => {
     if (from === to) {return;}
     setCompletionState('idle');
-    setDeliverablesMicroState(prev => {
-        if (!prev) {return prev;}
-        const clone = { ...prev };
-        const reorder = <T,>(arr: T[]) => {
-          const copy = [...arr];
-          const [moved] = copy.splice(from, 1);
-          if (moved === undefined) {return arr;}
-          copy.splice(to, 0, moved);
-          return copy;
-        };
-        if (section === 'milestones') {
-          clone.suggestedMilestones = reorder(clone.suggestedMilestones);
-          clone.workingMilestones = clone.workingMilestones.length ? reorder(clone.workingMilestones) : clone.workingMilestones;
-        } else if (section === 'artifacts') {
-          clone.suggestedArtifacts = reorder(clone.suggestedArtifacts);
-          clone.workingArtifacts = clone.workingArtifacts.length ? reorder(clone.workingArtifacts) : clone.workingArtifacts;
-        } else {
-          clone.suggestedCriteria = reorder(clone.suggestedCriteria);
-          clone.workingCriteria = clone.workingCriteria.length ? reorder(clone.workingCriteria) : clone.workingCriteria;
-        }
-      updateDeliverablesChips(clone);
-      return clone;
-    });
-  }, [updateDeliverablesChips]);
+    const prev = editStateRef.current.deliverablesDraft;
+    if (!prev) {return;}
+    const clone = { ...prev };
+    const reorder = <T,>(arr: T[]) => {
+      const copy = [...arr];
+      const [moved] = copy.splice(from, 1);
+      if (moved === undefined) {return arr;}
+      copy.splice(to, 0, moved);
+      return copy;
+    };
+    if (section === 'milestones') {
+      clone.suggestedMilestones = reorder(clone.suggestedMilestones);
+      clone.workingMilestones = clone.workingMilestones.length ? reorder(clone.workingMilestones) : clone.workingMilestones;
+    } else if (section === 'artifacts') {
+      clone.suggestedArtifacts = reorder(clone.suggestedArtifacts);
+      clone.workingArtifacts = clone.workingArtifacts.length ? reorder(clone.workingArtifacts) : clone.workingArtifacts;
+    } else {
+      clone.suggestedCriteria = reorder(clone.suggestedCriteria);
+      clone.workingCriteria = clone.workingCriteria.length ? reorder(clone.workingCriteria) : clone.workingCriteria;
+    }
+    commitEdit({ deliverablesDraft: clone }, { label: `Reorder ${section}`, source: 'deliverables_card' });
+  }, [commitEdit]);
 
   const handleSend = useCallback(async (text?: string) => {
     if (aiStatus !== 'online') {
@@ -1370,7 +1483,27 @@ Your project structure is ready!`,
     // This ensures "what about, [actual question]" is properly recognized
     const extractedContent = extractFromConversationalWrapper(content);
     const recentSuggestionTexts = suggestionTracker.getRecentTexts(5);
-    const intentResult = detectIntent(extractedContent, recentSuggestionTexts, conversationHistory);
+    const intentResult = detectIntent(extractedContent, recentSuggestionTexts, conversationHistory, {
+      stage,
+      inMicroFlow: Boolean(deliverablesMicroState)
+    });
+
+    // Low confidence between two readings: ask once instead of guessing
+    if (intentResult.needsClarification && lastClarifiedInputRef.current !== content) {
+      lastClarifiedInputRef.current = content;
+      engine.appendMessage({
+        id: String(Date.now() + 1),
+        role: 'assistant',
+        content: buildClarifyingQuestion(intentResult),
+        timestamp: new Date()
+      } as any);
+      return;
+    }
+    lastClarifiedInputRef.current = null;
+
+    if (intentResult.intent === 'substantive_input' || intentResult.intent === 'modify_previous') {
+      suggestionTracker.recordTypedInput(stage, intentResult.extractedValue || extractedContent);
+    }
 
     // Handle immediate acknowledgment for conversational inputs (but NOT for accept_suggestion - coaching handles that)
     const immediateAck = intentResult.intent !== 'accept_suggestion' ? getImmediateAcknowledgment(intentResult.intent) : null;
@@ -1404,7 +1537,7 @@ Your project structure is ready!`,
 
           // Capture the suggestion directly
           const updatedCaptured = captureStageInput(captured, stage, selectedSuggestion);
-          setCaptured(updatedCaptured);
+          commitEdit({ captured: updatedCaptured }, { label: `Accept suggestion for ${stageDisplayNames[stage]}`, source: 'chip_accept' });
 
           // Check if stage is complete to determine message content
           const gatingInfo = validate(stage, updatedCaptured);
@@ -1557,7 +1690,7 @@ Your project structure is ready!`,
         // User wants to modify a previous suggestion
         const modification = intentResult.extractedValue || content;
         const updatedCaptured = captureStageInput(captured, stage, modification);
-        setCaptured(updatedCaptured);
+        commitEdit({ captured: updatedCaptured }, { label: `Edit ${stageDisplayNames[stage]}`, source: 'chat_capture' });
 
         engine.appendMessage({
           id: String(Date.now() + 2),
@@ -1648,7 +1781,7 @@ Your project structure is ready!`,
     // Use extracted content for capture
     const updatedCaptured = captureStageInput(captured, stage, extractedContent);
     const newStatus = computeStatus(updatedCaptured);
-    setCaptured(updatedCaptured);
+    commitEdit({ captured: updatedCaptured }, { label: `Answer for ${stageDisplayNames[stage]}`, source: 'chat_capture' });
 
     const gatingInfo = validate(stage, updatedCaptured);
     // For ideation, if still incomplete, ask a targeted follow-up instead of a generic prompt
@@ -1657,7 +1790,7 @@ Your project structure is ready!`,
       const band = resolveGradeBand(wizard.gradeLevel);
       const follow = nextQuestionFor('CHALLENGE', missing, band);
       const ack = score >= 40 ? 'Nice—this is getting clearer.' : 'Good start.';
-      engine.appendMessage({ id: String(Date.now() + 1), role: 'assistant', content: follow ? `${ack} ${follow.question}` : `${ack} Tell me a bit more so we can lock this in.`, timestamp: new Date() } as any);
+      engine.appendMessage({ id: String(Date.now() + 1), role: 'assistant', content: follow ? `${ack} ${follow.question}` : `${ack} Tell me a bit more so we can lock this in.`, timestamp: new Date() });
       if (follow?.chips?.length) {
         setAiSuggestions(follow.chips);
         setShowIdeas(true);
@@ -1677,17 +1810,37 @@ Your project structure is ready!`,
       stageTurns,
       assessmentHint: assessment.hint || null
     });
-    const ai = await generateAI(prompt, {
+    // Stream the coaching reply into a placeholder message token-by-token
+    streamAbortRef.current?.abort();
+    const streamController = new AbortController();
+    streamAbortRef.current = streamController;
+    const replyId = String(Date.now() + 1);
+    let replyShown = false;
+    const ai = await generateAIStream(prompt, {
       model: 'gemini-2.5-flash-lite',
       history: (engine.state.messages as any[])
         .slice(-6)
         .map((m: any) => ({ role: m.role, content: m.content })),
       systemPrompt: 'You are ALF Coach. Be concise, encouraging, and practical. Always add value: acknowledge → educate → enhance → advance. Avoid code blocks.',
       temperature: 0.6,
-      maxTokens: 400
+      maxTokens: 400,
+      signal: streamController.signal,
+      onToken: (_delta, text) => {
+        if (!replyShown) {
+          replyShown = true;
+          engine.appendMessage({ id: replyId, role: 'assistant', content: text, timestamp: new Date(), metadata: { streaming: true } });
+        } else {
+          engine.updateMessage(replyId, { content: text });
+        }
+      }
     });
-    if (ai) {
-      engine.appendMessage({ id: String(Date.now() + 1), role: 'assistant', content: ai, timestamp: new Date() } as any);
+    if (streamAbortRef.current === streamController) {
+      streamAbortRef.current = null;
+    }
+    if (replyShown) {
+      engine.updateMessage(replyId, { content: ai.text, metadata: { streaming: false, streamStatus: ai.status } });
+    } else if (ai.text) {
+      engine.appendMessage({ id: replyId, role: 'assistant', content: ai.text, timestamp: new Date() });
     }
 
     // Auto‑advance when valid
@@ -1764,7 +1917,7 @@ Your project structure is ready!`,
         await handleProjectCompletion(updatedCaptured);
       }
     }
-  }, [engine, stage, wizard, captured, messageCountInStage, stageTurns, aiStatus, autosaveEnabled, projectId, conversationHistory, handleProjectCompletion, hasWizardName, deliverablesMicroState, deliverablesComplete, journeyV2Enabled, processDeliverablesResult, suppressNextAckUntil, updateDeliverablesChips]);
+  }, [engine, stage, wizard, captured, messageCountInStage, stageTurns, aiStatus, autosaveEnabled, projectId, conversationHistory, handleProjectCompletion, hasWizardName, deliverablesMicroState, deliverablesComplete, journeyV2Enabled, processDeliverablesResult, suppressNextAckUntil, updateDeliverablesChips, commitEdit]);
 
   return (
     <div className="relative flex h-[100dvh] min-h-[100dvh] bg-gray-50 dark:bg-gray-900 overflow-hidden">
@@ -1815,6 +1968,14 @@ Your project structure is ready!`,
                   />
                   <FirebaseStatus />
                 </div>
+                <UndoRedoControls
+                  canUndo={editHistory.canUndo}
+                  canRedo={editHistory.canRedo}
+                  undoLabel={editHistory.undoLabel}
+                  redoLabel={editHistory.redoLabel}
+                  onUndo={() => { editHistory.undo(); }}
+                  onRedo={() => { editHistory.redo(); }}
+                />
                 {/* New consolidated status indicator */}
                 <SyncStatusChip projectId={projectId} />
                 <StatusIndicator status={systemStatus} />
@@ -1866,6 +2027,11 @@ Your project structure is ready!`,
               {aiDetail && <span className="text-rose-500 italic">{aiDetail}</span>}
             </div>
           )}
+          {missingRulePackId && (
+            <div className="mb-3 text-[12px] text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+              School rule pack “{missingRulePackId}” isn’t available, so this project follows the built-in grade band guidance. Ask your school admin to install it.
+            </div>
+          )}
           {showGating && !gating.ok && (
             <>
               <div className="hidden sm:block mb-3 text-[12px] text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
@@ -1893,8 +2059,8 @@ Your project structure is ready!`,
               <>
                 {journeyAIStatus !== 'idle' && (
                   <div className="mb-2">
-                    <span className={`inline-flex items-center gap-1 rounded-full px-2 py-1 text-[10px] font-semibold ${journeyAIStatus==='refining' ? 'bg-ai-100 text-ai-700' : 'bg-emerald-100 text-emerald-700'}`}>
-                      {journeyAIStatus === 'refining' ? 'AI refining… ✨' : 'AI Enhanced ✓'}
+                    <span className={`inline-flex items-center gap-1 rounded-full px-2 py-1 text-[10px] font-semibold ${journeyAIStatus==='refining' ? 'bg-ai-100 text-ai-700' : journeyAIStatus==='recovered' ? 'bg-amber-100 text-amber-700' : 'bg-emerald-100 text-emerald-700'}`}>
+                      {journeyAIStatus === 'refining' ? 'AI refining… ✨' : journeyAIStatus === 'recovered' ? 'AI draft · review details' : 'AI Enhanced ✓'}
                     </span>
                   </div>
                 )}
@@ -1976,8 +2142,8 @@ Your project structure is ready!`,
             {deliverablesMicroState && (
               <div className="mt-2">
                 {deliverablesAIStatus !== 'idle' && (
-                  <span className={`inline-flex items-center gap-1 rounded-full px-2 py-1 text-[10px] font-semibold ${deliverablesAIStatus==='refining' ? 'bg-ai-100 text-ai-700' : 'bg-emerald-100 text-emerald-700'}`}>
-                    {deliverablesAIStatus === 'refining' ? 'AI refining… ✨' : 'AI Enhanced ✓'}
+                  <span className={`inline-flex items-center gap-1 rounded-full px-2 py-1 text-[10px] font-semibold ${deliverablesAIStatus==='refining' ? 'bg-ai-100 text-ai-700' : deliverablesAIStatus==='recovered' ? 'bg-amber-100 text-amber-700' : 'bg-emerald-100 text-emerald-700'}`}>
+                    {deliverablesAIStatus === 'refining' ? 'AI refining… ✨' : deliverablesAIStatus === 'recovered' ? 'AI draft · review details' : 'AI Enhanced ✓'}
                   </span>
                 )}
               </div>
@@ -2063,7 +2229,7 @@ Your project structure is ready!`,
                 Gathering ideas…
               </div>
             ) : suggestions.length > 0 ? (
-              <SuggestionChips items={suggestions} onSelect={(t, i) => { setShowIdeas(false); void acceptSuggestion(t, i); }} />
+              <SuggestionChips items={suggestions} onSelect={(t) => { setShowIdeas(false); void acceptSuggestion(t); }} />
             ) : null}
           </div>
           <InputArea
@@ -2239,7 +2405,8 @@ function StageKickoffPanel({
   gradeBand?: GradeBandKey | null;
   gradeSections?: GradeGuardrailSection[];
 }) {
-  const guide = stageGuide(stage);
+  const { locale } = useTranslation();
+  const guide = stageGuide(stage, locale);
   const next = nextStage(stage);
   const continueLabel = next ? `Continue to ${labels[next]}` : 'Review project';
   // Pitfall hints removed per UX decision to keep panel lean.
@@ -6,6 +6,7 @@ import ChatMVP from '../../chat-mvp/ChatMVP';
 // Stub AI calls to avoid network in tests
 jest.mock('../../chat-mvp/domain/ai', () => ({
   generateAI: async () => '',
+  generateAIStream: async () => ({ text: '', status: 'failed', streamed: false, recovered: false }),
 }));
 
 // Stub components that read import.meta or complex env
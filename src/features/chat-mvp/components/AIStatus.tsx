@@ -1,18 +1,21 @@
 import React, { useEffect, useState } from 'react';
+import { geminiProvider } from '../../../ai/providers';
+import { AI_RATE_LIMIT_ACTION, aiRateLimiter, type QuotaSnapshot } from '../../../utils/rate-limiter';
 
 type Status = 'unknown' | 'checking' | 'online' | 'error';
 
-function parseAIText(data: any): string {
-  try {
-    const parts = data?.candidates?.[0]?.content?.parts;
-    if (Array.isArray(parts) && parts.length) {
-      const joined = parts.map((p: any) => p?.text || '').filter(Boolean).join('\n').trim();
-      if (joined) {return joined;}
-    }
-    if (typeof data?.output_text === 'string') {return data.output_text.trim();}
-    if (typeof data?.text === 'string') {return data.text.trim();}
-  } catch {}
-  return '';
+function formatTokens(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(value >= 10000 ? 0 : 1)}k` : String(value);
+}
+
+function describeBudget(snapshot: QuotaSnapshot, now: number): string | null {
+  if (snapshot.blockedUntil && snapshot.blockedUntil > now) {
+    const seconds = Math.ceil((snapshot.blockedUntil - now) / 1000);
+    const wait = seconds >= 3600 ? `${Math.ceil(seconds / 3600)}h` : seconds >= 60 ? `${Math.ceil(seconds / 60)}m` : `${seconds}s`;
+    return snapshot.reason === 'DAILY_QUOTA_EXCEEDED' ? `Daily budget used · resets in ${wait}` : `Paused · retry in ${wait}`;
+  }
+  if (!snapshot.quota) {return null;}
+  return `Budget: ${formatTokens(snapshot.quota.tokensRemaining)} / ${formatTokens(snapshot.quota.tokensLimit)} tokens`;
 }
 
 export function AIStatus({
@@ -24,6 +27,7 @@ export function AIStatus({
 }) {
   const [status, setStatus] = useState<Status>('unknown');
   const [detail, setDetail] = useState<string>('');
+  const [budget, setBudget] = useState<string | null>(null);
   const flag = (import.meta as any)?.env?.VITE_GEMINI_ENABLED;
   const model = (import.meta as any)?.env?.VITE_GEMINI_MODEL || 'gemini-2.5-flash-lite';
 
@@ -37,21 +41,10 @@ export function AIStatus({
     setStatus('checking');
     const timer = setTimeout(() => controller.abort(), 12000);
 
-    fetch('/.netlify/functions/gemini', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ prompt: 'Status check: reply OK.', model: 'gemini-2.5-flash-lite' }),
-      signal: controller.signal,
-    })
-      .then(async (r) => {
+    geminiProvider
+      .generate({ prompt: 'Status check: reply OK.', model: 'gemini-2.5-flash-lite', signal: controller.signal })
+      .then(({ text }) => {
         if (cancelled) {return;}
-        if (!r.ok) {
-          setStatus('error');
-          setDetail(`Proxy HTTP ${r.status}`);
-          return;
-        }
-        const data = await r.json();
-        const text = parseAIText(data);
         if (text) {
           setStatus('online');
           setDetail('');
@@ -63,7 +56,8 @@ export function AIStatus({
       .catch((e) => {
         if (cancelled) {return;}
         setStatus('error');
-        setDetail((e as Error)?.message || 'Request failed');
+        const httpStatus = (e as { status?: number })?.status;
+        setDetail(httpStatus === 429 ? 'Rate limited' : httpStatus ? `Proxy HTTP ${httpStatus}` : (e as Error)?.message || 'Request failed');
       })
       .finally(() => clearTimeout(timer));
 
@@ -74,6 +68,18 @@ export function AIStatus({
     };
   }, []);
 
+  // Remaining server budget, refreshed on every proxy response and while a 429 wait counts down
+  useEffect(() => {
+    const refresh = (snapshot: QuotaSnapshot) => setBudget(describeBudget(snapshot, Date.now()));
+    refresh(aiRateLimiter.getSnapshot(AI_RATE_LIMIT_ACTION));
+    const unsubscribe = aiRateLimiter.subscribe(() => refresh(aiRateLimiter.getSnapshot(AI_RATE_LIMIT_ACTION)));
+    const tick = setInterval(() => refresh(aiRateLimiter.getSnapshot(AI_RATE_LIMIT_ACTION)), 1000);
+    return () => {
+      unsubscribe();
+      clearInterval(tick);
+    };
+  }, []);
+
   useEffect(() => {
     onStatusChange?.(status, detail);
   }, [status, detail, onStatusChange]);
@@ -93,6 +99,12 @@ export function AIStatus({
       )}
       <span className="text-gray-400">|</span>
       <span>Model: {model}</span>
+      {budget && (
+        <>
+          <span className="text-gray-400">|</span>
+          <span>{budget}</span>
+        </>
+      )}
       {detail && (
         <span className="ml-1 text-gray-500">({detail.slice(0, 60)})</span>
       )}
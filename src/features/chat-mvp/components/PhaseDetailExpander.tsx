@@ -2,7 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { X } from 'lucide-react';
 import { generateAI } from '../domain/ai';
 import type { JourneyPhaseDraft } from './JourneyBoard';
-import { resolveGradeBand, buildGradeBandPrompt } from '../../../ai/gradeBandRules';
+import { buildGradeBandGuidance } from '../../../ai/rulePacks';
 
 export function PhaseDetailExpander({
   open,
@@ -13,7 +13,7 @@ export function PhaseDetailExpander({
 }: {
   open: boolean;
   phase: JourneyPhaseDraft | null;
-  wizard: { subjects?: string[]; gradeLevel?: string; duration?: string; projectTopic?: string };
+  wizard: { subjects?: string[]; gradeLevel?: string; duration?: string; projectTopic?: string; rulePackId?: string };
   onClose: () => void;
   onApply?: (detail: { teacherMoves: string[]; studentTasks: string[]; materials: string[]; checkpoints: string[] }) => void;
 }) {
@@ -28,8 +28,7 @@ export function PhaseDetailExpander({
       setLoading(true);
       setError(null);
       setDetail(null);
-      const band = resolveGradeBand(wizard.gradeLevel);
-      const guardrails = band ? buildGradeBandPrompt(band) : '';
+      const guardrails = buildGradeBandGuidance({ gradeLevel: wizard.gradeLevel, rulePackId: wizard.rulePackId }) ?? '';
       const prompt = `Generate a lesson-level breakdown for this phase.
 
 CONTEXT:
@@ -62,7 +61,7 @@ Return JSON:
       }
     };
     void run();
-  }, [open, phase, wizard.gradeLevel, wizard.subjects, wizard.projectTopic]);
+  }, [open, phase, wizard.gradeLevel, wizard.subjects, wizard.projectTopic, wizard.rulePackId]);
 
   if (!open || !phase) {return null;}
 
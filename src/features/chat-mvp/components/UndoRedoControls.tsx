@@ -0,0 +1,45 @@
+import React from 'react';
+import { Redo2, Undo2 } from 'lucide-react';
+
+type Props = {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+};
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export function UndoRedoControls({ canUndo, canRedo, undoLabel, redoLabel, onUndo, onRedo }: Props) {
+  const mod = isMac ? '⌘' : 'Ctrl+';
+  const button = 'inline-flex h-7 w-7 items-center justify-center rounded-full text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent dark:text-gray-300 dark:hover:bg-gray-800';
+
+  return (
+    <div className="inline-flex items-center gap-0.5" role="group" aria-label="Edit history">
+      <button
+        type="button"
+        className={button}
+        onClick={onUndo}
+        disabled={!canUndo}
+        title={canUndo ? `Undo: ${undoLabel ?? 'last change'} (${mod}Z)` : 'Nothing to undo'}
+        aria-label={canUndo ? `Undo: ${undoLabel ?? 'last change'}` : 'Undo'}
+      >
+        <Undo2 className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        className={button}
+        onClick={onRedo}
+        disabled={!canRedo}
+        title={canRedo ? `Redo: ${redoLabel ?? 'change'} (${isMac ? '⇧⌘Z' : 'Ctrl+Y'})` : 'Nothing to redo'}
+        aria-label={canRedo ? `Redo: ${redoLabel ?? 'change'}` : 'Redo'}
+      >
+        <Redo2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+export default UndoRedoControls;
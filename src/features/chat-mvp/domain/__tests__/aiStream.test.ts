@@ -0,0 +1,127 @@
+import { ReadableStream } from 'node:stream/web';
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { generateAIStream } from '../ai';
+import { telemetry } from '../../../../services/telemetry';
+
+// jsdom has no ReadableStream, so bodies come from node:stream/web
+function streamResponse(body: ReadableStream<Uint8Array>, init: ResponseInit = { status: 200 }): Response {
+  return new Response(body as unknown as BodyInit, init);
+}
+
+function sseResponse(events: string[], opts: { failAfter?: boolean } = {}) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      events.forEach(evt => controller.enqueue(encoder.encode(evt)));
+      if (opts.failAfter) {
+        setTimeout(() => controller.error(new TypeError('network connection lost')), 0);
+      } else {
+        controller.close();
+      }
+    }
+  });
+  return streamResponse(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const chunk = (text: string) => `event: chunk\ndata: ${JSON.stringify({ text })}\n\n`;
+const done = 'event: done\ndata: {"finishReason":"STOP"}\n\n';
+
+function bufferedResponse(text: string) {
+  return new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text }] } }] }), { status: 200 });
+}
+
+describe('generateAIStream', () => {
+  const originalFetch = global.fetch;
+
+  function mockFetch(): jest.MockedFunction<typeof fetch> {
+    const fetchMock = jest.fn<typeof fetch>();
+    global.fetch = fetchMock;
+    return fetchMock;
+  }
+
+  beforeEach(() => {
+    telemetry.clear();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('renders chunks as they arrive and returns the full text', async () => {
+    mockFetch().mockResolvedValue(sseResponse([chunk('Great '), chunk('start! '), chunk('Next step?'), done]));
+    const seen: string[] = [];
+
+    const result = await generateAIStream('Coach me', { onToken: (_d, text) => seen.push(text) });
+
+    expect(seen).toEqual(['Great ', 'Great start! ', 'Great start! Next step?']);
+    expect(result).toEqual({ text: 'Great start! Next step?', status: 'complete', streamed: true, recovered: false });
+
+    const [event] = telemetry.getRecentEvents();
+    expect(event.event).toBe('ai_prompt');
+    expect(event.success).toBe(true);
+    expect(event.metadata).toMatchObject({ streamed: true, chunks: 3, status: 'complete' });
+  });
+
+  test('handles events split across network reads', async () => {
+    mockFetch().mockResolvedValue(sseResponse(['event: chunk\ndata: {"te', 'xt":"Hello"}\n', '\n', done]));
+
+    const result = await generateAIStream('Hi');
+
+    expect(result.text).toBe('Hello');
+  });
+
+  test('continues from partial text after a disconnect', async () => {
+    const fetchMock = mockFetch()
+      .mockResolvedValueOnce(sseResponse([chunk('Students map the ')], { failAfter: true }))
+      .mockResolvedValueOnce(bufferedResponse('watershed first.'));
+    const seen: string[] = [];
+
+    const result = await generateAIStream('Plan week 1', { onToken: (_d, text) => seen.push(text) });
+
+    expect(result).toMatchObject({ text: 'Students map the watershed first.', status: 'complete', recovered: true });
+    expect(seen[seen.length - 1]).toBe('Students map the watershed first.');
+
+    const continuationBody = JSON.parse(String(fetchMock.mock.calls[1][1]?.body));
+    expect(continuationBody.history.map((h: { role: string }) => h.role)).toEqual(['user', 'assistant']);
+    expect(continuationBody.history[1].parts[0].text).toBe('Students map the ');
+
+    const events = telemetry.getRecentEvents().filter(e => e.event === 'ai_prompt');
+    expect(events).toHaveLength(1);
+    expect(events[0].metadata).toMatchObject({ streamed: true, recovered: true });
+  });
+
+  test('keeps partial text when the caller aborts', async () => {
+    const controller = new AbortController();
+    mockFetch().mockImplementation(async () => {
+      const encoder = new TextEncoder();
+      return streamResponse(new ReadableStream<Uint8Array>({
+        start(stream) {
+          stream.enqueue(encoder.encode(chunk('Partial answer')));
+          setTimeout(() => {
+            controller.abort();
+            stream.error(new DOMException('Aborted', 'AbortError'));
+          }, 0);
+        }
+      }));
+    });
+
+    const result = await generateAIStream('Long prompt', { signal: controller.signal });
+
+    expect(result).toMatchObject({ text: 'Partial answer', status: 'aborted', recovered: false });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('falls back to the buffered proxy when streaming is unavailable', async () => {
+    mockFetch()
+      .mockResolvedValueOnce(new Response('Not Found', { status: 404 }))
+      .mockResolvedValueOnce(bufferedResponse('Buffered reply'));
+
+    const result = await generateAIStream('Hi');
+
+    expect(result).toEqual({ text: 'Buffered reply', status: 'complete', streamed: false, recovered: false });
+
+    const events = telemetry.getRecentEvents().filter(e => e.event === 'ai_prompt');
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ success: true, metadata: { streamed: false } });
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  EDIT_HISTORY_LIMIT,
+  createEditHistory,
+  parseEditHistory,
+  pickSlices,
+  recordEdit,
+  redoEdit,
+  undoEdit,
+  type EditHistory
+} from '../editHistory';
+
+type Slices = { bigIdea: string; phases: string[] };
+
+function edit(before: Partial<Slices>, after: Partial<Slices>, coalesceKey?: string) {
+  return { label: 'Edit', source: 'chat_capture' as const, before, after, coalesceKey };
+}
+
+describe('edit history', () => {
+  it('undoes and redoes edits in order', () => {
+    let history: EditHistory<Slices> = createEditHistory();
+    history = recordEdit(history, edit({ bigIdea: '' }, { bigIdea: 'Water in our town' }), { now: 0 });
+    history = recordEdit(history, edit({ bigIdea: 'Water in our town' }, { bigIdea: 'Clean water' }), { now: 1 });
+
+    const first = undoEdit(history);
+    expect(first?.command.before).toEqual({ bigIdea: 'Water in our town' });
+    const second = undoEdit(first!.history);
+    expect(second?.command.before).toEqual({ bigIdea: '' });
+    expect(undoEdit(second!.history)).toBeNull();
+
+    const redone = redoEdit(second!.history);
+    expect(redone?.command.after).toEqual({ bigIdea: 'Water in our town' });
+    expect(redone?.history.future).toHaveLength(1);
+  });
+
+  it('clears redo when a new edit is recorded and ignores no-ops', () => {
+    let history: EditHistory<Slices> = createEditHistory();
+    history = recordEdit(history, edit({ phases: [] }, { phases: ['Launch'] }), { now: 0 });
+    history = undoEdit(history)!.history;
+
+    expect(recordEdit(history, edit({ phases: [] }, { phases: [] }))).toBe(history);
+    expect(recordEdit(history, edit({ phases: [] }, { phases: ['Explore'] })).future).toEqual([]);
+  });
+
+  it('merges typing in one field into a single step', () => {
+    let history: EditHistory<Slices> = createEditHistory();
+    history = recordEdit(history, edit({ bigIdea: '' }, { bigIdea: 'W' }, 'bigIdea'), { now: 0 });
+    history = recordEdit(history, edit({ bigIdea: 'W' }, { bigIdea: 'Water' }, 'bigIdea'), { now: 1000 });
+    history = recordEdit(history, edit({ bigIdea: 'Water' }, { bigIdea: 'Water!' }, 'bigIdea'), { now: 10_000 });
+
+    expect(history.past.map(command => [command.before.bigIdea, command.after.bigIdea])).toEqual([
+      ['', 'Water'],
+      ['Water', 'Water!']
+    ]);
+  });
+
+  it('keeps only the most recent steps', () => {
+    let history: EditHistory<Slices> = createEditHistory();
+    for (let i = 0; i < EDIT_HISTORY_LIMIT + 5; i++) {
+      history = recordEdit(history, edit({ bigIdea: String(i) }, { bigIdea: String(i + 1) }), { now: i });
+    }
+
+    expect(history.past).toHaveLength(EDIT_HISTORY_LIMIT);
+    expect(history.past[0].before.bigIdea).toBe('5');
+  });
+
+  it('picks the slices an edit touches', () => {
+    expect(pickSlices<Slices>({ bigIdea: 'Idea', phases: ['A'] }, ['phases'])).toEqual({ phases: ['A'] });
+  });
+
+  it('round-trips through storage and drops malformed data', () => {
+    const history = recordEdit(createEditHistory<Slices>(), edit({ bigIdea: '' }, { bigIdea: 'Idea' }), { now: 5 });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(parseEditHistory(JSON.parse(JSON.stringify(history)))).toEqual(history);
+    expect(parseEditHistory({ past: [{ label: 'x' }], future: [] })).toEqual(createEditHistory());
+    expect(parseEditHistory(undefined)).toEqual(createEditHistory());
+
+    jest.restoreAllMocks();
+  });
+});
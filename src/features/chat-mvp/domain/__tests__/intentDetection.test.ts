@@ -0,0 +1,134 @@
+import {
+  buildClarifyingQuestion,
+  detectIntent,
+  extractIntentFeatures,
+  type UserIntent
+} from '../intentDetection';
+import { CORPUS_CHIPS, INTENT_CORPUS, type LabeledUtterance } from '../intentCorpus';
+
+// Floors per intent, set to the measured scores so any new miss fails. When a
+// corpus change lowers a score on purpose, lower its floor in the same change.
+const BASELINE: Record<UserIntent, { precision: number; recall: number }> = {
+  accept_suggestion: { precision: 1, recall: 1 },
+  request_alternatives: { precision: 1, recall: 1 },
+  provide_custom: { precision: 1, recall: 1 },
+  request_clarification: { precision: 1, recall: 1 },
+  modify_previous: { precision: 1, recall: 1 },
+  show_progress: { precision: 1, recall: 1 },
+  skip_stage: { precision: 1, recall: 1 },
+  go_back: { precision: 1, recall: 1 },
+  cancel_flow: { precision: 1, recall: 1 },
+  substantive_input: { precision: 1, recall: 1 }
+};
+
+function classify(entry: LabeledUtterance) {
+  return detectIntent(entry.text, entry.chips ? CORPUS_CHIPS[entry.stage] : [], [], {
+    stage: entry.stage,
+    inMicroFlow: entry.inMicroFlow
+  });
+}
+
+function evaluate() {
+  const intents = Object.keys(BASELINE) as UserIntent[];
+  const confusion = new Map<UserIntent, Map<UserIntent, number>>(
+    intents.map(intent => [intent, new Map(intents.map(other => [other, 0]))])
+  );
+  const misses: string[] = [];
+
+  INTENT_CORPUS.forEach(entry => {
+    const predicted = classify(entry).intent;
+    const row = confusion.get(entry.intent);
+    row?.set(predicted, (row.get(predicted) ?? 0) + 1);
+    if (predicted !== entry.intent) {
+      misses.push(`"${entry.text}" (${entry.stage}): expected ${entry.intent}, got ${predicted}`);
+    }
+  });
+
+  const metrics = intents.map(intent => {
+    const truePositives = confusion.get(intent)?.get(intent) ?? 0;
+    const predicted = intents.reduce((sum, actual) => sum + (confusion.get(actual)?.get(intent) ?? 0), 0);
+    const actual = Array.from(confusion.get(intent)?.values() ?? []).reduce((sum, count) => sum + count, 0);
+    return {
+      intent,
+      precision: predicted ? truePositives / predicted : 1,
+      recall: actual ? truePositives / actual : 1,
+      support: actual
+    };
+  });
+
+  return { metrics, misses };
+}
+
+describe('intent classifier corpus', () => {
+  const { metrics, misses } = evaluate();
+
+  it('prints precision and recall per intent', () => {
+    const report = metrics
+      .map(({ intent, precision, recall, support }) =>
+        `${intent.padEnd(22)} precision ${precision.toFixed(2)}  recall ${recall.toFixed(2)}  n=${support}`)
+      .join('\n');
+    // Written straight to stdout so the report shows even where console output is silenced
+    process.stdout.write(`\nIntent corpus (${INTENT_CORPUS.length} utterances)\n${report}${misses.length ? `\n\nMisclassified:\n${misses.join('\n')}` : ''}\n`);
+
+    expect(INTENT_CORPUS.filter(entry => !(entry.intent in BASELINE))).toEqual([]);
+  });
+
+  (Object.keys(BASELINE) as UserIntent[]).forEach(intent => {
+    it(`${intent} stays at or above its baseline`, () => {
+      const metric = metrics.find(item => item.intent === intent);
+
+      expect(metric?.support).toBeGreaterThan(0);
+      expect(metric?.precision).toBeGreaterThanOrEqual(BASELINE[intent].precision);
+      expect(metric?.recall).toBeGreaterThanOrEqual(BASELINE[intent].recall);
+    });
+  });
+
+  it('asks for clarification on few corpus utterances', () => {
+    const unsure = INTENT_CORPUS.filter(entry => classify(entry).needsClarification);
+
+    expect(unsure.length / INTENT_CORPUS.length).toBeLessThan(0.1);
+  });
+});
+
+describe('detectIntent', () => {
+  const chips = CORPUS_CHIPS.JOURNEY;
+
+  it('treats "ok but" replies as edits and extracts the change', () => {
+    const result = detectIntent('ok but make it 3 weeks', chips, [], { stage: 'JOURNEY' });
+
+    expect(result.intent).toBe('modify_previous');
+    expect(result.extractedValue).toBe('make it 3 weeks');
+    expect(result.lastSuggestionIndex).toBe(0);
+  });
+
+  it('resolves which suggestion was picked', () => {
+    expect(detectIntent("let's go with the second one", chips).lastSuggestionIndex).toBe(1);
+    expect(detectIntent('option 3 please', chips).lastSuggestionIndex).toBe(2);
+    expect(detectIntent('Interview experts and build a research wall', chips)).toMatchObject({ intent: 'accept_suggestion', lastSuggestionIndex: 1 });
+  });
+
+  it('does not accept when no suggestions are on screen', () => {
+    expect(detectIntent('the second one', [], [], { stage: 'CHALLENGE' }).intent).not.toBe('accept_suggestion');
+  });
+
+  it('returns the top two intents and a clarifying question', () => {
+    const result = detectIntent('sure, the podcast', chips, [], { stage: 'JOURNEY' });
+
+    expect(result.topIntents).toHaveLength(2);
+    expect(result.topIntents[0].confidence).toBeGreaterThanOrEqual(result.topIntents[1].confidence);
+    expect(buildClarifyingQuestion({ ...result, topIntents: [
+      { intent: 'modify_previous', confidence: 0.4 },
+      { intent: 'substantive_input', confidence: 0.35 }
+    ] })).toBe('Just to check: do you want to adjust the suggestion, or save what you wrote as your answer?');
+  });
+
+  it('exposes its features for debugging', () => {
+    expect(extractIntentFeatures('Can we go back to the big idea?', [], { stage: 'CHALLENGE' })).toEqual(
+      expect.arrayContaining(['first:can', 'b:go_back', 'q', 'other_stage', 'nochips'])
+    );
+  });
+
+  it('treats empty input as substantive with no confidence', () => {
+    expect(detectIntent('   ')).toMatchObject({ intent: 'substantive_input', confidence: 0, needsClarification: false });
+  });
+});
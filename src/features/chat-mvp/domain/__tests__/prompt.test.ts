@@ -1,4 +1,5 @@
 import { buildStagePrompt } from '../prompt';
+import { installRulePack, setRulePackStore } from '../../../../ai/rulePacks';
 import type { Stage } from '../stages';
 
 describe('buildStagePrompt grade-band integration', () => {
@@ -36,3 +37,37 @@ describe('buildStagePrompt grade-band integration', () => {
     expect(prompt).not.toContain('GRADE-BAND GUARDRAILS');
   });
 });
+
+describe('buildStagePrompt rule packs', () => {
+  beforeEach(() => setRulePackStore(null));
+
+  afterEach(() => {
+    setRulePackStore(undefined);
+    localStorage.clear();
+  });
+
+  it('carries the project rule pack into the guardrails', async () => {
+    await installRulePack({
+      schemaVersion: 1,
+      id: 'district',
+      name: 'District policy',
+      version: '1.0.0',
+      allBands: { avoid: ['No student accounts for students under 13.'] }
+    });
+
+    const prompt = buildStagePrompt({
+      stage: 'BIG_IDEA',
+      wizard: { subjects: ['Science'], gradeLevel: 'Middle School (6-8)', rulePackId: 'district' },
+      captured: { ideation: { bigIdea: '', essentialQuestion: '', challenge: '' }, journey: { phases: [], resources: [] }, deliverables: { milestones: [], artifacts: [], rubric: { criteria: [] } } } as any,
+      userInput: '',
+      snapshot: '',
+      gatingReason: null,
+      messageCountInStage: 0,
+      stageTurns: 0,
+      assessmentHint: null
+    });
+
+    expect(prompt).toContain('School rule pack: District policy (v1.0.0)');
+    expect(prompt).toContain('- No student accounts for students under 13.');
+  });
+});
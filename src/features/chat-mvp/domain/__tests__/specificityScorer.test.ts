@@ -0,0 +1,28 @@
+import { nextQuestionFor, scoreIdeationSpecificity } from '../specificityScorer';
+import type { CapturedData } from '../stages';
+
+function withChallenge(challenge: string): CapturedData {
+  return { ideation: { challenge } } as CapturedData;
+}
+
+describe('scoreIdeationSpecificity', () => {
+  it('recognizes band-specific deliverables', () => {
+    const challenge = withChallenge('Paint a mural about our garden');
+
+    expect(scoreIdeationSpecificity('CHALLENGE', challenge, { gradeLevel: 'Pre-K (Ages 3-5)' }).missing).not.toContain('deliverable');
+    expect(scoreIdeationSpecificity('CHALLENGE', withChallenge('Complete a capstone for the shop'), { gradeLevel: 'Post-Secondary / CTE' }).missing).not.toContain('deliverable');
+    expect(scoreIdeationSpecificity('CHALLENGE', withChallenge('Complete a capstone for the shop'), { gradeLevel: '6-8' }).missing).toContain('deliverable');
+  });
+});
+
+describe('nextQuestionFor', () => {
+  it('asks about the first missing slot with chips for the band', () => {
+    expect(nextQuestionFor('CHALLENGE', ['audience', 'metric'], 'Pre-K')).toEqual({
+      question: 'Who is the most specific audience that benefits?',
+      chips: ['Our families', 'The class next door', 'School helpers']
+    });
+    expect(nextQuestionFor('CHALLENGE', ['metric'], 'Post-Secondary')?.chips).toContain('Client sign-off');
+    expect(nextQuestionFor('CHALLENGE', ['deliverable'], null)?.chips).toEqual(['Policy brief', 'Prototype', 'Client presentation']);
+    expect(nextQuestionFor('BIG_IDEA', ['audience'], 'K-2')).toBeNull();
+  });
+});
@@ -0,0 +1,156 @@
+import { generateStructuredAI } from '../structuredAI';
+import { generateSmartJourneyAI } from '../journeyMicroFlow';
+import { generateSmartDeliverablesAI } from '../deliverablesAI';
+import { createEmptyCaptured } from '../stages';
+import { setAIProvider, type AIProvider, type AIRequest } from '../../../../ai/providers';
+import { SUGGESTION_BOUNDS, zDeliverablesSuggestion } from '../../../../types/zod-schemas';
+import { telemetry } from '../../../../services/telemetry';
+
+function scriptedProvider(responses: string[]): AIProvider & { requests: AIRequest[] } {
+  const requests: AIRequest[] = [];
+  return {
+    name: 'local',
+    requests,
+    async generate(request) {
+      requests.push(request);
+      return { text: responses.shift() ?? '', model: 'scripted' };
+    },
+    async stream() { return null; },
+    countTokens: text => text.length
+  };
+}
+
+const wizard = { subjects: ['Science'], gradeLevel: 'Middle School (6-8)', duration: '4 weeks', projectTopic: 'Urban heat islands' };
+
+const validDeliverables = JSON.stringify({
+  milestones: ['Map heat data', 'Interview residents', 'Prototype shade plan'],
+  artifacts: ['Council pitch deck'],
+  criteria: ['Uses temperature evidence', 'Explains trade-offs', 'Communicates to council']
+});
+
+function request(heuristic = jest.fn().mockReturnValue(null)) {
+  return {
+    prompt: 'Generate deliverables',
+    schema: zDeliverablesSuggestion,
+    expectedFormat: '{ "milestones": [], "artifacts": [], "criteria": [] }',
+    stage: 'DELIVERABLES' as const,
+    wizard,
+    heuristic,
+    options: { label: 'deliverables_generation' }
+  };
+}
+
+describe('generateStructuredAI', () => {
+  beforeEach(() => {
+    telemetry.clear();
+  });
+
+  afterEach(() => {
+    setAIProvider(null);
+  });
+
+  it('accepts valid JSON on the first attempt', async () => {
+    const provider = scriptedProvider([validDeliverables]);
+    setAIProvider(provider);
+
+    const result = await generateStructuredAI(request());
+
+    expect(result).toMatchObject({ path: 'schema', attempts: 1, issues: [] });
+    expect(result.data?.artifacts).toEqual(['Council pitch deck']);
+    expect(provider.requests[0].json).toBe(true);
+  });
+
+  it('re-prompts with the validation errors and reports the corrected path', async () => {
+    const provider = scriptedProvider([JSON.stringify({ milestones: ['Only one'], artifacts: [], criteria: [] }), validDeliverables]);
+    setAIProvider(provider);
+
+    const result = await generateStructuredAI(request());
+
+    expect(result).toMatchObject({ path: 'corrected', attempts: 2 });
+    const correction = provider.requests[1].prompt;
+    expect(correction).toContain('Validation errors: milestones: Too small');
+    expect(correction).toContain('Required JSON shape');
+    expect(provider.requests[1].history?.[0]).toEqual({ role: 'user', content: 'Generate deliverables' });
+
+    const event = telemetry.getRecentEvents().find(e => e.event === 'ai_structured');
+    expect(event?.metadata).toEqual({ path: 'corrected', attempts: 2 });
+  });
+
+  it('falls back to the heuristic after exhausting corrections', async () => {
+    setAIProvider(scriptedProvider(['not json', 'still not json', 'Milestones: research, build, share']));
+    const heuristic = jest.fn().mockReturnValue({ milestones: ['research'], artifacts: [], criteria: [] });
+
+    const result = await generateStructuredAI(request(heuristic));
+
+    expect(result.path).toBe('heuristic');
+    expect(result.attempts).toBe(3);
+    expect(heuristic).toHaveBeenCalledWith('Milestones: research, build, share');
+    expect(telemetry.getRecentEvents().find(e => e.event === 'ai_fallback')?.errorCode).toBe('SCHEMA_FAIL');
+  });
+
+  it('reports failure without re-prompting when the provider returns nothing', async () => {
+    const provider = scriptedProvider(['']);
+    setAIProvider(provider);
+
+    const result = await generateStructuredAI(request());
+
+    expect(result).toMatchObject({ data: null, path: 'failed', attempts: 1 });
+    expect(provider.requests).toHaveLength(1);
+  });
+});
+
+describe('journey and deliverables generators', () => {
+  afterEach(() => {
+    setAIProvider(null);
+  });
+
+  it('returns schema-valid phases sized to the project duration', async () => {
+    setAIProvider('local');
+    const result = await generateSmartJourneyAI(createEmptyCaptured(), wizard);
+    const phases = result?.phases;
+
+    expect(result?.path).toBe('schema');
+    expect(phases?.length).toBeGreaterThanOrEqual(3);
+    phases?.forEach(phase => expect(phase.activities.length).toBeGreaterThanOrEqual(2));
+  });
+
+  it('salvages narrative journey text via extractPhasesFromText', async () => {
+    const narrative = 'First students measure schoolyard temperatures. Then they interview neighbors about heat. Finally they pitch shade ideas to the council.';
+    setAIProvider(scriptedProvider([narrative, narrative, narrative]));
+
+    const result = await generateSmartJourneyAI(createEmptyCaptured(), { ...wizard, duration: '3 weeks' });
+
+    expect(result?.path).toBe('heuristic');
+    expect(result?.phases.map(p => p.activities.join(' ').toLowerCase())).toEqual([
+      expect.stringContaining('measure'),
+      expect.stringContaining('interview'),
+      expect.stringContaining('pitch')
+    ]);
+  });
+
+  it('maps deliverables onto suggestion lists', async () => {
+    setAIProvider(scriptedProvider([validDeliverables]));
+
+    const result = await generateSmartDeliverablesAI(createEmptyCaptured(), wizard);
+
+    expect(result).toEqual({
+      suggestedMilestones: ['Map heat data', 'Interview residents', 'Prototype shade plan'],
+      suggestedArtifacts: ['Council pitch deck'],
+      suggestedCriteria: ['Uses temperature evidence', 'Explains trade-offs', 'Communicates to council'],
+      path: 'schema'
+    });
+  });
+
+  it('asks for the list sizes the schema enforces', async () => {
+    const provider = scriptedProvider([validDeliverables]);
+    setAIProvider(provider);
+    const { artifacts, criteria } = SUGGESTION_BOUNDS;
+
+    await generateSmartDeliverablesAI(createEmptyCaptured(), wizard);
+
+    expect(provider.requests[0].prompt).toContain(`Artifacts (${artifacts.min}-${artifacts.max} items)`);
+    expect(provider.requests[0].prompt).toContain(`Rubric Criteria (${criteria.min}-${criteria.max})`);
+    const tooMany = { ...JSON.parse(validDeliverables), artifacts: Array.from({ length: artifacts.max + 1 }, (_, i) => `Artifact ${i + 1}`) };
+    expect(zDeliverablesSuggestion.safeParse(tooMany).success).toBe(false);
+  });
+});
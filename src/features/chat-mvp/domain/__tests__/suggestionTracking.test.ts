@@ -0,0 +1,140 @@
+import { SuggestionTracker, type SuggestionKeyValue } from '../suggestionTracking';
+import {
+  dedupeSuggestions,
+  rankSuggestions,
+  summarizeSuggestionEvents,
+  type SuggestionEvent
+} from '../suggestionRanking';
+
+function memoryBackend(): SuggestionKeyValue & { data: Map<string, unknown> } {
+  const data = new Map<string, unknown>();
+  return {
+    data,
+    async get<T>(key: string) {return (data.has(key) ? data.get(key) as T : null);},
+    async set(key, value) {data.set(key, value);},
+    async remove(key) {data.delete(key);}
+  };
+}
+
+function outcome(type: SuggestionEvent['type'], text: string, extra: Partial<SuggestionEvent> = {}): SuggestionEvent {
+  return { type, stage: 'BIG_IDEA', gradeBand: '6-8', text, source: 'template', timestamp: 0, ...extra };
+}
+
+describe('rankSuggestions', () => {
+  const chips = ['Water quality in our creek', 'Food waste at lunch', 'Safer walking routes to school'];
+
+  it('keeps the original order without history', () => {
+    expect(rankSuggestions(chips, [], { stage: 'BIG_IDEA', gradeBand: '6-8' })).toEqual(chips);
+  });
+
+  it('moves chips like the ones teachers pick to the front', () => {
+    const events = [
+      outcome('selected', 'Safer walking routes to our school'),
+      outcome('ignored', 'Water quality in our creek'),
+      outcome('ignored', 'Water quality in our creek')
+    ];
+
+    expect(rankSuggestions(chips, events, { stage: 'BIG_IDEA', gradeBand: '6-8', limit: 2, now: 60 * 60 * 1000 })).toEqual([
+      'Safer walking routes to school',
+      'Food waste at lunch'
+    ]);
+  });
+
+  it('only learns from the same stage and pushes recent picks back', () => {
+    const events = [outcome('selected', 'Food waste at lunch', { stage: 'CHALLENGE' }), outcome('selected', 'Water quality in our creek', { timestamp: 1000 })];
+
+    expect(rankSuggestions(chips, events, { stage: 'BIG_IDEA', gradeBand: '6-8', now: 2000 })).toEqual([
+      'Food waste at lunch',
+      'Safer walking routes to school',
+      'Water quality in our creek'
+    ]);
+  });
+
+  it('drops repeats and near-repeats', () => {
+    expect(dedupeSuggestions(['Food waste at lunch', 'food waste at lunch!', 'Food waste at our lunch', ' '])).toEqual(['Food waste at lunch']);
+  });
+});
+
+describe('summarizeSuggestionEvents', () => {
+  it('counts outcomes per stage and grade band', () => {
+    const stats = summarizeSuggestionEvents([
+      outcome('shown', 'A'),
+      outcome('shown', 'B'),
+      outcome('selected', 'A'),
+      outcome('ignored', 'B'),
+      outcome('shown', 'A', { gradeBand: '3-5' })
+    ]);
+
+    expect(stats).toEqual([
+      { stage: 'BIG_IDEA', gradeBand: '6-8', shown: 2, selected: 1, modified: 0, ignored: 1, acceptanceRate: 50, topAccepted: ['A'] },
+      { stage: 'BIG_IDEA', gradeBand: '3-5', shown: 1, selected: 0, modified: 0, ignored: 0, acceptanceRate: 0, topAccepted: [] }
+    ]);
+  });
+});
+
+describe('SuggestionTracker', () => {
+  let backend: ReturnType<typeof memoryBackend>;
+  let tracker: SuggestionTracker;
+
+  beforeEach(() => {
+    backend = memoryBackend();
+    tracker = new SuggestionTracker({ backend, resolveUserId: async () => 'teacher-1', now: () => 60 * 60 * 1000 });
+    tracker.setContext({ gradeLevel: 'Middle School (6-8)' });
+  });
+
+  afterEach(() => localStorage.clear());
+
+  it('persists shown, selected and ignored chips per user', async () => {
+    tracker.recordShown('BIG_IDEA', ['A', 'B', 'C']);
+    tracker.recordChoice('BIG_IDEA', 'B');
+
+    const events = await tracker.getEvents();
+    expect(events.map(event => [event.type, event.text])).toEqual([
+      ['shown', 'A'], ['shown', 'B'], ['shown', 'C'],
+      ['selected', 'B'], ['ignored', 'A'], ['ignored', 'C']
+    ]);
+    expect(events[0].gradeBand).toBe('6-8');
+    expect(backend.data.get('events:teacher-1')).toHaveLength(6);
+  });
+
+  it('marks a replaced batch ignored and a reworded chip modified', async () => {
+    tracker.recordShown('CHALLENGE', ['Design a rain garden for the field']);
+    tracker.recordShown('CHALLENGE', ['Pitch shade sails to the principal', 'Map the hottest spots']);
+
+    expect(tracker.recordTypedInput('CHALLENGE', 'Something else entirely')).toBe(false);
+    expect(tracker.recordTypedInput('CHALLENGE', 'Pitch shade sails to the city council')).toBe(true);
+
+    const events = await tracker.getEvents();
+    expect(events.map(event => [event.type, event.text])).toEqual([
+      ['shown', 'Design a rain garden for the field'],
+      ['ignored', 'Design a rain garden for the field'],
+      ['shown', 'Pitch shade sails to the principal'],
+      ['shown', 'Map the hottest spots'],
+      ['modified', 'Pitch shade sails to the principal'],
+      ['ignored', 'Map the hottest spots']
+    ]);
+    expect(events[4].modification).toBe('Pitch shade sails to the city council');
+  });
+
+  it('loads stored history for ranking', async () => {
+    backend.data.set('events:teacher-1', [outcome('selected', 'Food waste at lunch')]);
+
+    await tracker.load();
+
+    expect(tracker.rank('BIG_IDEA', ['Water quality', 'Food waste at lunch'])).toEqual(['Food waste at lunch', 'Water quality']);
+    expect(tracker.rank('BIG_IDEA', ['Food waste at lunch', 'Water quality'], undefined, [outcome('selected', 'Water quality')]))
+      .toEqual(['Water quality', 'Food waste at lunch']);
+  });
+
+  it('stops recording and deletes history when learning is turned off', async () => {
+    tracker.recordShown('BIG_IDEA', ['A', 'B']);
+    tracker.recordChoice('BIG_IDEA', 'A');
+
+    await tracker.setLearningEnabled(false);
+    tracker.recordShown('BIG_IDEA', ['C']);
+
+    expect(tracker.isLearningEnabled()).toBe(false);
+    expect(await tracker.getEvents()).toEqual([]);
+    expect(backend.data.has('events:teacher-1')).toBe(false);
+  });
+});
@@ -1,90 +1,77 @@
 // Minimal AI wrapper for ChatMVP
 import { telemetry, measureAsync } from '../../../services/telemetry';
+import { getAIProvider, AIProviderError, type AIRequest } from '../../../ai/providers';
 
-export async function generateAI(prompt: string, opts?: {
+export interface GenerateAIOptions {
   model?: string;
   history?: Array<{ role: 'user' | 'assistant'; content: string }>;
   systemPrompt?: string;
   temperature?: number;
   maxTokens?: number;
-  label?: string; // for telemetry grouping
-}): Promise<string> {
-  // Use plain import.meta.env so Jest's vite-meta-env transform can rewrite it
-  const enabledFlag = import.meta.env?.VITE_GEMINI_ENABLED;
-  const url = import.meta.env?.VITE_GEMINI_PROXY_URL || '/.netlify/functions/gemini';
-  const envModel = import.meta.env?.VITE_GEMINI_MODEL;
+  label?: string; // for telemetry grouping (and local fixture matching)
+  json?: boolean;  // request a JSON-only response
+}
+
+export interface GenerateAIStreamOptions extends GenerateAIOptions {
+  onToken?: (delta: string, text: string) => void; // raw text so far, for live rendering
+  signal?: AbortSignal;                            // caller-controlled cancel
+  idleTimeoutMs?: number;                          // abort when no chunk arrives (default 20s)
+}
+
+export interface AIStreamResult {
+  text: string; // sanitized final text (partial when interrupted/aborted)
+  status: 'complete' | 'aborted' | 'interrupted' | 'failed';
+  streamed: boolean;   // false when the buffered proxy was used instead
+  recovered: boolean;  // true when a follow-up request filled in after a disconnect
+}
+
+export async function generateAI(prompt: string, opts?: GenerateAIOptions): Promise<string> {
+  return generateBuffered(prompt, opts, false);
+}
+
+/**
+ * Buffered request; followUp marks a stream fallback/continuation so the
+ * provider doesn't count one user action twice against its rate limit. The
+ * streaming caller tracks that action, so follow-ups record no event here.
+ */
+async function generateBuffered(prompt: string, opts: GenerateAIOptions | undefined, followUp: boolean): Promise<string> {
+  const provider = getAIProvider();
+  const request = { ...toProviderRequest(prompt, opts), ...(followUp ? { followUp } : {}) };
 
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), 20000); // 20s
 
   try {
-    const { result: res, latencyMs } = await measureAsync(async () => fetch(String(url), {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        prompt,
-        // Use -latest aliases to auto-update to newest versions (recommended by Google)
-        model: opts?.model || envModel || 'gemini-flash-lite-latest',
-        history: toGeminiHistory(opts?.history || []),
-        systemPrompt: opts?.systemPrompt,
-        generationConfig: {
-          temperature: typeof opts?.temperature === 'number' ? opts?.temperature : 0.6,
-          maxOutputTokens: typeof opts?.maxTokens === 'number' ? opts?.maxTokens : 600
-        }
-      }),
-      signal: controller.signal,
-    }));
-    if (!res.ok) {
-      // Log detailed error info before returning empty string
-      console.error('[AI] HTTP error:', {
-        status: res.status,
-        statusText: res.statusText,
-        url: String(url)
-      });
-
-      // Try to get error details from response
-      try {
-        const errorData = await res.json();
-        console.error('[AI] Error response:', errorData);
-      } catch {
-        // Response not JSON, ignore
-      }
-      telemetry.track({
-        event: 'ai_prompt',
-        success: false,
-        latencyMs,
-        projectId: opts?.label || 'ai',
-        errorCode: `HTTP_${res.status}`,
-        errorMessage: res.statusText,
-        source: undefined,
-        metadata: { model: opts?.model || envModel }
-      });
-      throw new Error(`AI HTTP ${res.status}`);
-    }
-    const data = await res.json();
-    const text = extractText(data);
-    const cleaned = sanitizeAI(text);
+    const { result, latencyMs } = await measureAsync(async () => provider.generate({ ...request, signal: controller.signal }));
+    const cleaned = sanitizeAI(result.text);
+    if (followUp) {return cleaned;}
     telemetry.track({
       event: 'ai_prompt',
       success: Boolean(cleaned),
       latencyMs,
       projectId: opts?.label || 'ai',
       source: undefined,
-      metadata: { model: opts?.model || envModel }
+      metadata: {
+        model: result.model,
+        provider: provider.name,
+        promptTokens: provider.countTokens(`${opts?.systemPrompt || ''}${prompt}`),
+        outputTokens: provider.countTokens(cleaned)
+      }
     });
     return cleaned;
   } catch (e) {
     // Log the actual error instead of silently returning empty
     console.error('[AI] Generation failed:', e instanceof Error ? e.message : String(e));
+    if (followUp) {return '';}
     telemetry.track({
       event: 'ai_prompt',
       success: false,
       latencyMs: 0,
       projectId: opts?.label || 'ai',
-      errorCode: (e as any)?.name || 'ERROR',
-      errorMessage: (e as any)?.message || String(e),
+      errorCode: e instanceof AIProviderError ? e.code : e instanceof Error ? e.name : 'ERROR',
+      errorMessage: e instanceof Error ? e.message : String(e),
       source: undefined,
-      metadata: { model: opts?.model || envModel }
+      metadata: { model: request.model, provider: provider.name }
     });
     return '';
   } finally {
@@ -92,24 +79,146 @@ export async function generateAI(prompt: string, opts?: {
   }
 }
 
-function toGeminiHistory(history: Array<{ role: 'user' | 'assistant'; content: string }>) {
-  if (!history?.length) {return [];}
-  return history.slice(-6).map(m => ({ role: m.role, parts: [{ text: m.content || '' }] }));
-}
+/**
+ * Streaming variant of generateAI over the active provider's stream.
+ * Calls opts.onToken as chunks arrive. On disconnect, keeps the partial text
+ * and asks the buffered endpoint to continue from where the stream stopped.
+ */
+export async function generateAIStream(prompt: string, opts: GenerateAIStreamOptions = {}): Promise<AIStreamResult> {
+  const provider = getAIProvider();
+  const idleTimeoutMs = opts.idleTimeoutMs ?? 20000;
+
+  const controller = new AbortController();
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  const resetIdle = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => controller.abort(), idleTimeoutMs);
+  };
+  const onCallerAbort = () => controller.abort();
+  if (opts.signal?.aborted) {
+    controller.abort();
+  } else {
+    opts.signal?.addEventListener('abort', onCallerAbort);
+  }
+
+  const startTime = Date.now();
+  let firstTokenMs: number | undefined;
+  let chunks = 0;
+  let raw = '';
+  let result: AIStreamResult;
+  let errorCode: string | undefined;
+
+  const emit = (delta: string) => {
+    if (!delta) {return;}
+    raw += delta;
+    opts.onToken?.(delta, raw);
+  };
 
-function extractText(data: any): string {
   try {
-    // Primary: concatenate all parts in first candidate
-    const parts = data?.candidates?.[0]?.content?.parts;
-    if (Array.isArray(parts) && parts.length) {
-      const joined = parts.map((p: any) => p?.text || '').filter(Boolean).join('\n').trim();
-      if (joined) {return joined;}
+    resetIdle();
+    const deltas = await provider.stream({ ...toProviderRequest(prompt, opts), signal: controller.signal });
+
+    if (!deltas) {
+      // Streaming unavailable: use the buffered endpoint instead
+      errorCode = 'STREAM_UNAVAILABLE';
+      clearTimeout(idleTimer);
+      const text = await generateBuffered(prompt, opts, true);
+      emit(text);
+      result = { text, status: text ? 'complete' : 'failed', streamed: false, recovered: false };
+    } else {
+      for await (const delta of deltas) {
+        resetIdle();
+        chunks++;
+        firstTokenMs = firstTokenMs ?? Date.now() - startTime;
+        emit(delta);
+      }
+      result = { text: sanitizeAI(raw), status: 'complete', streamed: true, recovered: false };
     }
-    // Alternative shapes sometimes returned
-    if (typeof data?.output_text === 'string' && data.output_text.trim()) {return data.output_text.trim();}
-    if (typeof data?.text === 'string' && data.text.trim()) {return data.text.trim();}
-  } catch {}
-  return '';
+  } catch (e) {
+    clearTimeout(idleTimer);
+    errorCode = e instanceof Error ? e.name : 'ERROR';
+    if (opts.signal?.aborted) {
+      result = { text: sanitizeAI(raw), status: 'aborted', streamed: true, recovered: false };
+    } else {
+      console.warn('[AI] Stream interrupted:', e instanceof Error ? e.message : String(e));
+      result = await recoverStream(prompt, raw, opts, emit);
+    }
+  } finally {
+    clearTimeout(idleTimer);
+    opts.signal?.removeEventListener('abort', onCallerAbort);
+  }
+
+  telemetry.track({
+    event: 'ai_prompt',
+    success: result.status === 'complete',
+    latencyMs: Date.now() - startTime,
+    projectId: opts.label || 'ai',
+    errorCode: result.status === 'complete' ? undefined : errorCode,
+    source: undefined,
+    metadata: {
+      model: opts.model,
+      provider: provider.name,
+      streamed: result.streamed,
+      status: result.status,
+      chunks,
+      firstTokenMs,
+      recovered: result.recovered,
+      partialChars: raw.length
+    }
+  });
+
+  return result;
+}
+
+/**
+ * After a dropped stream, ask the buffered proxy to finish the answer.
+ * With no partial text this is a plain retry; otherwise a continuation.
+ */
+async function recoverStream(
+  prompt: string,
+  partial: string,
+  opts: GenerateAIStreamOptions,
+  emit: (delta: string) => void
+): Promise<AIStreamResult> {
+  if (!partial) {
+    const text = await generateBuffered(prompt, opts, true);
+    emit(text);
+    return { text, status: text ? 'complete' : 'failed', streamed: true, recovered: Boolean(text) };
+  }
+
+  const continuation = await generateBuffered(
+    'Your previous reply was cut off. Continue exactly where it stopped. Do not repeat any earlier text.',
+    {
+      ...opts,
+      history: [
+        ...(opts.history || []),
+        { role: 'user', content: prompt },
+        { role: 'assistant', content: partial }
+      ]
+    },
+    true
+  );
+
+  if (!continuation) {
+    return { text: sanitizeAI(partial), status: 'interrupted', streamed: true, recovered: false };
+  }
+
+  const joiner = /\s$/.test(partial) || /^\s/.test(continuation) ? '' : ' ';
+  emit(joiner + continuation);
+  return { text: sanitizeAI(partial + joiner + continuation), status: 'complete', streamed: true, recovered: true };
+}
+
+function toProviderRequest(prompt: string, opts?: GenerateAIOptions): AIRequest {
+  return {
+    prompt,
+    model: opts?.model,
+    history: opts?.history?.slice(-6),
+    systemPrompt: opts?.systemPrompt,
+    temperature: opts?.temperature,
+    maxTokens: opts?.maxTokens,
+    json: opts?.json,
+    label: opts?.label
+  };
 }
 
 function sanitizeAI(text: string): string {
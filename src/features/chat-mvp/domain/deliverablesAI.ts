@@ -1,12 +1,13 @@
 /**
  * Deliverables AI Generator (async refinement)
  * Isolated from deliverablesMicroFlow to avoid static+dynamic import mixing in ChatMVP
+ * Output is schema-validated (zDeliverablesSuggestion) with re-prompts before heuristics
  */
 
-import type { CapturedData, WizardContext } from './stages';
-import { resolveGradeBand, buildGradeBandPrompt } from '../../../ai/gradeBandRules';
-import { generateAI } from './ai';
-import { telemetry } from '../../../services/telemetry';
+import { parseDeliverables, type CapturedData, type WizardContext } from './stages';
+import { buildGradeBandGuidance } from '../../../ai/rulePacks';
+import { generateStructuredAI, parseLooseJSON, type StructuredPath } from './structuredAI';
+import { SUGGESTION_BOUNDS, zDeliverablesSuggestion, type DeliverablesSuggestion } from '../../../types/zod-schemas';
 
 export async function generateSmartDeliverablesAI(
   captured: CapturedData,
@@ -15,9 +16,10 @@ export async function generateSmartDeliverablesAI(
   suggestedMilestones: string[];
   suggestedArtifacts: string[];
   suggestedCriteria: string[];
+  path: StructuredPath;            // 'heuristic' when the lists were salvaged from invalid output
 } | null> {
-  const band = resolveGradeBand(wizard.gradeLevel);
-  const guardrails = band ? buildGradeBandPrompt(band) : '';
+  const guardrails = buildGradeBandGuidance(wizard) ?? '';
+  const { milestones, artifacts, criteria } = SUGGESTION_BOUNDS;
   const journey = (captured.journey?.phases || [])
     .map((p, i) => `${i + 1}. ${p.name}\n   Activities: ${(p.activities || []).join('; ')}`)
     .join('\n');
@@ -42,9 +44,9 @@ ${guardrails}
 
 GENERATE:
 
-1. Milestones (${(captured.journey?.phases || []).length} items, one per phase) that reference specific phase activities.
-2. Artifacts (2-3 items) students produce for the Challenge audience.
-3. Rubric Criteria (4-6) assessing Big Idea understanding and Challenge quality.
+1. Milestones (${Math.max(milestones.min, (captured.journey?.phases || []).length)} items, one per phase) that reference specific phase activities.
+2. Artifacts (${artifacts.min}-${artifacts.max} items) students produce for the Challenge audience.
+3. Rubric Criteria (${criteria.min}-${criteria.max}) assessing Big Idea understanding and Challenge quality.
 
 OUTPUT FORMAT (JSON):
 {
@@ -55,33 +57,62 @@ OUTPUT FORMAT (JSON):
 
 Return ONLY valid JSON.`;
 
-  try {
-    const response = await generateAI(prompt, {
+  const { data, path } = await generateStructuredAI({
+    prompt,
+    schema: zDeliverablesSuggestion,
+    expectedFormat: `{ "milestones": string[${milestones.min}+], "artifacts": string[${artifacts.min}-${artifacts.max}], "criteria": string[${criteria.min}-${criteria.max}] }`,
+    stage: 'DELIVERABLES',
+    wizard,
+    heuristic: heuristicDeliverables,
+    options: {
       model: 'gemini-flash-latest',
       temperature: 0.6,
       maxTokens: 600,
       label: 'deliverables_generation'
-    });
-    const parsed = JSON.parse(response);
-    if (parsed && (parsed.milestones || parsed.artifacts || parsed.criteria)) {
-      return {
-        suggestedMilestones: Array.isArray(parsed.milestones) ? parsed.milestones : [],
-        suggestedArtifacts: Array.isArray(parsed.artifacts) ? parsed.artifacts : [],
-        suggestedCriteria: Array.isArray(parsed.criteria) ? parsed.criteria : []
-      };
     }
-  } catch (error: any) {
-    console.error('[deliverablesAI] AI generation failed, using fallback', error);
-    telemetry.track({
-      event: 'ai_fallback',
-      success: false,
-      latencyMs: 0,
-      projectId: 'deliverables',
-      errorCode: 'PARSE_FAIL',
-      errorMessage: error?.message,
-      source: undefined
-    });
+  });
+
+  if (!data) {
+    console.error(`[deliverablesAI] AI generation failed (${path}), using template`);
+    return null;
+  }
+
+  console.log(`[deliverablesAI] Deliverables generated via ${path} path`);
+  return {
+    suggestedMilestones: data.milestones,
+    suggestedArtifacts: data.artifacts,
+    suggestedCriteria: data.criteria,
+    path
+  };
+}
+
+/**
+ * Lenient recovery when structured output keeps failing validation:
+ * accept loosely-shaped JSON (objects or rubric.criteria), else the
+ * same list classifier used for teacher-typed deliverables.
+ */
+function heuristicDeliverables(raw: string): DeliverablesSuggestion | null {
+  const loose = parseLooseJSON(raw) as any;
+  const names = (value: unknown): string[] => (Array.isArray(value) ? value : [])
+    .map(item => (typeof item === 'string' ? item : item?.name || item?.title || ''))
+    .map(item => String(item).trim())
+    .filter(Boolean);
+
+  if (loose && typeof loose === 'object' && !Array.isArray(loose)) {
+    const milestones = names(loose.milestones);
+    const artifacts = names(loose.artifacts);
+    const criteria = names(loose.criteria ?? loose.rubric?.criteria);
+    if (milestones.length || artifacts.length || criteria.length) {
+      return { milestones, artifacts, criteria };
+    }
   }
-  return null;
+
+  const parsed = parseDeliverables(raw);
+  if (!parsed.milestones.length && !parsed.artifacts.length) {return null;}
+  return {
+    milestones: parsed.milestones.map(m => m.name),
+    artifacts: parsed.artifacts.map(a => a.name),
+    criteria: parsed.rubric.criteria
+  };
 }
 
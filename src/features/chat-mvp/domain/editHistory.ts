@@ -0,0 +1,175 @@
+/**
+ * Edit History
+ *
+ * Command-based undo/redo for project edits. Each command records the slices
+ * of state it changed (e.g. `captured`, `journeyDraft` in ChatMVP or
+ * `ideation`, `journey` in the builder) before and after the change, so
+ * undo/redo only put back what that edit touched:
+ *
+ * - Undo applies `before`, redo applies `after`
+ * - Recording a new edit clears the redo stack
+ * - Edits sharing a coalesceKey within a few seconds (typing in one field)
+ *   merge into one step
+ * - No-op edits are dropped, and the stack keeps the last 50 steps so it
+ *   stays small enough to save with the project
+ *
+ * Histories are plain JSON; parseEditHistory() validates what comes back
+ * from storage and falls back to an empty history.
+ */
+
+import { z } from 'zod';
+
+export type EditSource =
+  | 'chat_capture'
+  | 'chip_accept'
+  | 'journey_board'
+  | 'phase_editor'
+  | 'deliverables_card'
+  | 'builder';
+
+export type EditSlices = Record<string, unknown>;
+
+export interface EditCommand<S extends EditSlices = EditSlices> {
+  id: string;
+  label: string;
+  source: EditSource;
+  timestamp: number;
+  before: Partial<S>;
+  after: Partial<S>;
+  coalesceKey?: string;
+}
+
+export interface EditHistory<S extends EditSlices = EditSlices> {
+  past: EditCommand<S>[];
+  future: EditCommand<S>[];
+}
+
+export interface EditInput<S extends EditSlices = EditSlices> {
+  label: string;
+  source: EditSource;
+  before: Partial<S>;
+  after: Partial<S>;
+  coalesceKey?: string;
+}
+
+export interface RecordEditOptions {
+  now?: number;
+  limit?: number;
+}
+
+export const EDIT_HISTORY_LIMIT = 50;
+const COALESCE_MS = 3000;
+
+const zEditCommand = z.object({
+  id: z.string(),
+  label: z.string(),
+  source: z.enum(['chat_capture', 'chip_accept', 'journey_board', 'phase_editor', 'deliverables_card', 'builder']),
+  timestamp: z.number(),
+  before: z.record(z.string(), z.unknown()),
+  after: z.record(z.string(), z.unknown()),
+  coalesceKey: z.string().optional()
+});
+
+const zEditHistory = z.object({
+  past: z.array(zEditCommand),
+  future: z.array(zEditCommand)
+});
+
+export function createEditHistory<S extends EditSlices = EditSlices>(): EditHistory<S> {
+  return { past: [], future: [] };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Copy the named slices out of a state object, for a command's `before`.
+ */
+export function pickSlices<S extends EditSlices>(state: S, keys: Array<keyof S>): Partial<S> {
+  const picked: Partial<S> = {};
+  keys.forEach(key => {
+    picked[key] = state[key];
+  });
+  return picked;
+}
+
+/**
+ * Push an edit onto the history. Returns the same history for no-op edits.
+ */
+export function recordEdit<S extends EditSlices>(
+  history: EditHistory<S>,
+  input: EditInput<S>,
+  options: RecordEditOptions = {}
+): EditHistory<S> {
+  if (sameValue(input.before, input.after)) {return history;}
+
+  const now = options.now ?? Date.now();
+  const limit = options.limit ?? EDIT_HISTORY_LIMIT;
+  const last = history.past[history.past.length - 1];
+
+  if (
+    input.coalesceKey &&
+    last?.coalesceKey === input.coalesceKey &&
+    history.future.length === 0 &&
+    now - last.timestamp < COALESCE_MS
+  ) {
+    const merged: EditCommand<S> = { ...last, after: { ...last.after, ...input.after }, timestamp: now };
+    const past = sameValue(merged.before, merged.after)
+      ? history.past.slice(0, -1)
+      : [...history.past.slice(0, -1), merged];
+    return { past, future: [] };
+  }
+
+  const command: EditCommand<S> = {
+    id: `edit-${now}-${history.past.length}`,
+    label: input.label,
+    source: input.source,
+    timestamp: now,
+    before: input.before,
+    after: input.after,
+    ...(input.coalesceKey ? { coalesceKey: input.coalesceKey } : {})
+  };
+
+  return { past: [...history.past, command].slice(-limit), future: [] };
+}
+
+/**
+ * Step back one edit. Apply `command.before` to restore the earlier state.
+ */
+export function undoEdit<S extends EditSlices>(history: EditHistory<S>): { history: EditHistory<S>; command: EditCommand<S> } | null {
+  const command = history.past[history.past.length - 1];
+  if (!command) {return null;}
+  return {
+    command,
+    history: { past: history.past.slice(0, -1), future: [command, ...history.future] }
+  };
+}
+
+/**
+ * Re-apply the last undone edit. Apply `command.after`.
+ */
+export function redoEdit<S extends EditSlices>(history: EditHistory<S>): { history: EditHistory<S>; command: EditCommand<S> } | null {
+  const [command, ...future] = history.future;
+  if (!command) {return null;}
+  return {
+    command,
+    history: { past: [...history.past, command], future }
+  };
+}
+
+/**
+ * Validate a stored history; anything malformed becomes an empty history.
+ */
+export function parseEditHistory<S extends EditSlices = EditSlices>(raw: unknown): EditHistory<S> {
+  if (!raw) {return createEditHistory<S>();}
+  const parsed = zEditHistory.safeParse(raw);
+  if (!parsed.success) {
+    console.warn('[editHistory] Ignoring an invalid stored edit history');
+    return createEditHistory<S>();
+  }
+  return {
+    past: parsed.data.past.slice(-EDIT_HISTORY_LIMIT),
+    future: parsed.data.future.slice(0, EDIT_HISTORY_LIMIT)
+  } as EditHistory<S>;
+}
@@ -0,0 +1,244 @@
+/**
+ * Labeled teacher utterances for the intent classifier
+ *
+ * Hand-labeled teacher phrasing for every UserIntent, including replies the
+ * old regex chain got wrong ("ok but make it 3 weeks"). Each entry records
+ * what the teacher meant, the stage they were in, and whether suggestion
+ * chips were on screen (`chips: true` means the stage's CORPUS_CHIPS had
+ * just been shown).
+ *
+ * The precision/recall harness in __tests__/intentDetection.test.ts runs the
+ * classifier over every entry. When you add phrasing that misfires, add it
+ * here with the right label first, then adjust the feature weights.
+ */
+
+import type { Stage } from './stages';
+import type { UserIntent } from './intentDetection';
+
+export interface LabeledUtterance {
+  text: string;
+  intent: UserIntent;
+  stage: Stage;
+  chips?: boolean;
+  inMicroFlow?: boolean;
+}
+
+export const CORPUS_CHIPS: Record<Stage, string[]> = {
+  BIG_IDEA: [
+    'Communities depend on healthy waterways',
+    'Design choices shape how people move through a city',
+    'Stories preserve what a community values'
+  ],
+  ESSENTIAL_QUESTION: [
+    'How can we make our creek safe to play in again?',
+    'How might we make walking to school safer?',
+    'Whose stories are missing from our town history?'
+  ],
+  CHALLENGE: [
+    'Design a rain garden for the school courtyard',
+    'Pitch a safer crosswalk plan to the city council',
+    'Record an oral history podcast with local elders'
+  ],
+  JOURNEY: [
+    'Launch with a neighborhood walk and photo log',
+    'Interview experts and build a research wall',
+    'Prototype, test with users and revise'
+  ],
+  DELIVERABLES: [
+    'A public exhibition night for families',
+    'A written proposal with a budget',
+    'A short documentary shared online'
+  ]
+};
+
+export const INTENT_CORPUS: LabeledUtterance[] = [
+  // ---------- accept_suggestion ----------
+  { text: 'yes', intent: 'accept_suggestion', stage: 'BIG_IDEA', chips: true },
+  { text: 'yep', intent: 'accept_suggestion', stage: 'CHALLENGE', chips: true },
+  { text: 'yeah that one', intent: 'accept_suggestion', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'sure', intent: 'accept_suggestion', stage: 'JOURNEY', chips: true },
+  { text: 'ok', intent: 'accept_suggestion', stage: 'BIG_IDEA', chips: true },
+  { text: 'okay sounds good', intent: 'accept_suggestion', stage: 'CHALLENGE', chips: true },
+  { text: 'Sounds good!', intent: 'accept_suggestion', stage: 'DELIVERABLES', chips: true },
+  { text: 'perfect', intent: 'accept_suggestion', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'love it', intent: 'accept_suggestion', stage: 'BIG_IDEA', chips: true },
+  { text: 'that works', intent: 'accept_suggestion', stage: 'JOURNEY', chips: true },
+  { text: 'that works for me', intent: 'accept_suggestion', stage: 'CHALLENGE', chips: true },
+  { text: "let's go with the second one", intent: 'accept_suggestion', stage: 'BIG_IDEA', chips: true },
+  { text: "Let's use the first one", intent: 'accept_suggestion', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'I like the third one', intent: 'accept_suggestion', stage: 'CHALLENGE', chips: true },
+  { text: 'i love the first suggestion', intent: 'accept_suggestion', stage: 'BIG_IDEA', chips: true },
+  { text: 'the second one', intent: 'accept_suggestion', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'Option 2 please', intent: 'accept_suggestion', stage: 'CHALLENGE', chips: true },
+  { text: 'number 3', intent: 'accept_suggestion', stage: 'DELIVERABLES', chips: true },
+  { text: "I'll take the last one", intent: 'accept_suggestion', stage: 'JOURNEY', chips: true },
+  { text: 'use that', intent: 'accept_suggestion', stage: 'BIG_IDEA', chips: true },
+  { text: 'go with the first', intent: 'accept_suggestion', stage: 'CHALLENGE', chips: true },
+  { text: 'great, use that one', intent: 'accept_suggestion', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'the podcast one is great', intent: 'accept_suggestion', stage: 'CHALLENGE', chips: true },
+  { text: "That's good, let's keep it", intent: 'accept_suggestion', stage: 'BIG_IDEA', chips: true },
+  { text: 'Design a rain garden for the school courtyard', intent: 'accept_suggestion', stage: 'CHALLENGE', chips: true },
+  { text: 'How might we make walking to school safer', intent: 'accept_suggestion', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'yes the exhibition night', intent: 'accept_suggestion', stage: 'DELIVERABLES', chips: true },
+  { text: 'first one is perfect', intent: 'accept_suggestion', stage: 'JOURNEY', chips: true },
+
+  // ---------- request_alternatives ----------
+  { text: 'other ideas?', intent: 'request_alternatives', stage: 'BIG_IDEA', chips: true },
+  { text: 'more options please', intent: 'request_alternatives', stage: 'CHALLENGE', chips: true },
+  { text: 'can I see different ones', intent: 'request_alternatives', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'give me some more', intent: 'request_alternatives', stage: 'BIG_IDEA', chips: true },
+  { text: 'show me new suggestions', intent: 'request_alternatives', stage: 'JOURNEY', chips: true },
+  { text: 'something else', intent: 'request_alternatives', stage: 'CHALLENGE', chips: true },
+  { text: 'none of these fit my class', intent: 'request_alternatives', stage: 'BIG_IDEA', chips: true },
+  { text: "these don't really work for us, try again", intent: 'request_alternatives', stage: 'DELIVERABLES', chips: true },
+  { text: 'not quite, anything else?', intent: 'request_alternatives', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'different options please', intent: 'request_alternatives', stage: 'CHALLENGE', chips: true },
+  { text: 'how about something different', intent: 'request_alternatives', stage: 'BIG_IDEA', chips: true },
+  { text: 'can you suggest a few more', intent: 'request_alternatives', stage: 'JOURNEY', chips: true },
+  { text: 'another set please', intent: 'request_alternatives', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'I need some other choices', intent: 'request_alternatives', stage: 'CHALLENGE', chips: true },
+  { text: 'refresh the ideas', intent: 'request_alternatives', stage: 'BIG_IDEA', chips: true },
+  { text: 'give me alternatives that are less science heavy', intent: 'request_alternatives', stage: 'CHALLENGE', chips: true },
+  { text: 'Do you have any other challenge ideas', intent: 'request_alternatives', stage: 'CHALLENGE', chips: true },
+  { text: 'nah, more', intent: 'request_alternatives', stage: 'DELIVERABLES', chips: true },
+
+  // ---------- provide_custom ----------
+  { text: 'I have my own idea', intent: 'provide_custom', stage: 'BIG_IDEA', chips: true },
+  { text: "I'd rather write my own", intent: 'provide_custom', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'let me type my own big idea', intent: 'provide_custom', stage: 'BIG_IDEA' },
+  { text: 'I already have a challenge in mind', intent: 'provide_custom', stage: 'CHALLENGE' },
+  { text: 'I want to use my own question', intent: 'provide_custom', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: "I'll write it myself", intent: 'provide_custom', stage: 'CHALLENGE', chips: true },
+  { text: 'can I put in my own', intent: 'provide_custom', stage: 'DELIVERABLES', chips: true },
+  { text: 'I have something in mind already', intent: 'provide_custom', stage: 'BIG_IDEA' },
+  { text: 'my own version please', intent: 'provide_custom', stage: 'JOURNEY', chips: true },
+  { text: "None of those, I'll come up with mine", intent: 'provide_custom', stage: 'BIG_IDEA', chips: true },
+
+  // ---------- request_clarification ----------
+  { text: 'what do you mean by big idea?', intent: 'request_clarification', stage: 'BIG_IDEA' },
+  { text: "I'm confused", intent: 'request_clarification', stage: 'ESSENTIAL_QUESTION' },
+  { text: 'help', intent: 'request_clarification', stage: 'CHALLENGE' },
+  { text: 'huh?', intent: 'request_clarification', stage: 'BIG_IDEA' },
+  { text: '???', intent: 'request_clarification', stage: 'JOURNEY' },
+  { text: 'how do I write a good essential question?', intent: 'request_clarification', stage: 'ESSENTIAL_QUESTION' },
+  { text: 'can you explain that again', intent: 'request_clarification', stage: 'CHALLENGE' },
+  { text: 'any examples?', intent: 'request_clarification', stage: 'BIG_IDEA' },
+  { text: "what's the difference between a big idea and an essential question", intent: 'request_clarification', stage: 'ESSENTIAL_QUESTION' },
+  { text: "I'm stuck", intent: 'request_clarification', stage: 'CHALLENGE' },
+  { text: "not sure what you're asking for", intent: 'request_clarification', stage: 'BIG_IDEA' },
+  { text: 'what should I put here', intent: 'request_clarification', stage: 'JOURNEY' },
+  { text: 'I need help thinking of a challenge', intent: 'request_clarification', stage: 'CHALLENGE' },
+  { text: 'Can you give me an example for 2nd grade', intent: 'request_clarification', stage: 'BIG_IDEA' },
+  { text: 'wait, what is a deliverable exactly', intent: 'request_clarification', stage: 'DELIVERABLES' },
+  { text: 'how long should each phase be?', intent: 'request_clarification', stage: 'JOURNEY' },
+  { text: "I don't get it", intent: 'request_clarification', stage: 'ESSENTIAL_QUESTION' },
+  { text: 'what does authentic audience mean', intent: 'request_clarification', stage: 'CHALLENGE' },
+  { text: 'why does it need to be open ended?', intent: 'request_clarification', stage: 'ESSENTIAL_QUESTION' },
+  { text: 'lost here, can you guide me', intent: 'request_clarification', stage: 'JOURNEY' },
+
+  // ---------- modify_previous ----------
+  { text: 'ok but make it 3 weeks', intent: 'modify_previous', stage: 'JOURNEY', chips: true },
+  { text: 'the first one but shorter', intent: 'modify_previous', stage: 'BIG_IDEA', chips: true },
+  { text: 'I like that but make it about our river', intent: 'modify_previous', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'same idea but for 4th graders', intent: 'modify_previous', stage: 'CHALLENGE', chips: true },
+  { text: 'use the second one except with a podcast instead of a video', intent: 'modify_previous', stage: 'DELIVERABLES', chips: true },
+  { text: 'change it to focus on recycling', intent: 'modify_previous', stage: 'BIG_IDEA', chips: true },
+  { text: 'make it simpler', intent: 'modify_previous', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'yes but swap the city council for the school board', intent: 'modify_previous', stage: 'CHALLENGE', chips: true },
+  { text: 'the third one, but less formal', intent: 'modify_previous', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'sounds good, just make the language kid friendly', intent: 'modify_previous', stage: 'BIG_IDEA', chips: true },
+  { text: 'tweak that so it mentions families', intent: 'modify_previous', stage: 'DELIVERABLES', chips: true },
+  { text: 'adjust the second one to include math', intent: 'modify_previous', stage: 'CHALLENGE', chips: true },
+  { text: 'that but with a local focus', intent: 'modify_previous', stage: 'BIG_IDEA', chips: true },
+  { text: 'make it longer, like 6 weeks', intent: 'modify_previous', stage: 'JOURNEY', chips: true },
+  { text: 'Change the wording to be more student friendly', intent: 'modify_previous', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'love it, but can it be a bit shorter', intent: 'modify_previous', stage: 'ESSENTIAL_QUESTION', chips: true },
+
+  // ---------- show_progress ----------
+  { text: 'what do we have so far?', intent: 'show_progress', stage: 'JOURNEY' },
+  { text: 'show me my progress', intent: 'show_progress', stage: 'CHALLENGE' },
+  { text: 'what have I captured', intent: 'show_progress', stage: 'DELIVERABLES' },
+  { text: 'can I see the draft', intent: 'show_progress', stage: 'JOURNEY' },
+  { text: 'recap please', intent: 'show_progress', stage: 'CHALLENGE' },
+  { text: 'summary so far', intent: 'show_progress', stage: 'DELIVERABLES' },
+  { text: 'where are we at', intent: 'show_progress', stage: 'ESSENTIAL_QUESTION' },
+  { text: 'show what we saved', intent: 'show_progress', stage: 'BIG_IDEA' },
+  { text: 'remind me what my big idea was', intent: 'show_progress', stage: 'CHALLENGE' },
+  { text: 'what have we done so far', intent: 'show_progress', stage: 'JOURNEY' },
+
+  // ---------- skip_stage ----------
+  { text: 'skip', intent: 'skip_stage', stage: 'ESSENTIAL_QUESTION' },
+  { text: "let's move on", intent: 'skip_stage', stage: 'CHALLENGE' },
+  { text: 'next', intent: 'skip_stage', stage: 'JOURNEY' },
+  { text: "I'll come back to this later", intent: 'skip_stage', stage: 'DELIVERABLES' },
+  { text: 'can we skip this part for now', intent: 'skip_stage', stage: 'ESSENTIAL_QUESTION' },
+  { text: 'pass for now', intent: 'skip_stage', stage: 'CHALLENGE' },
+  { text: 'move on to the next step', intent: 'skip_stage', stage: 'BIG_IDEA' },
+  { text: 'skip this stage', intent: 'skip_stage', stage: 'JOURNEY' },
+  { text: "I'll do this later", intent: 'skip_stage', stage: 'DELIVERABLES' },
+  { text: 'leave it blank for now', intent: 'skip_stage', stage: 'ESSENTIAL_QUESTION' },
+
+  // ---------- go_back ----------
+  { text: 'go back', intent: 'go_back', stage: 'CHALLENGE' },
+  { text: 'can we go back to the big idea', intent: 'go_back', stage: 'ESSENTIAL_QUESTION' },
+  { text: 'undo that', intent: 'go_back', stage: 'JOURNEY' },
+  { text: 'previous step', intent: 'go_back', stage: 'DELIVERABLES' },
+  { text: 'I want to change the essential question', intent: 'go_back', stage: 'CHALLENGE' },
+  { text: 'back to the last step please', intent: 'go_back', stage: 'JOURNEY' },
+  { text: 'revert the last change', intent: 'go_back', stage: 'CHALLENGE' },
+  { text: 'let me edit my big idea again', intent: 'go_back', stage: 'JOURNEY' },
+  { text: 'return to the challenge', intent: 'go_back', stage: 'DELIVERABLES' },
+  { text: 'take me back', intent: 'go_back', stage: 'ESSENTIAL_QUESTION' },
+
+  // ---------- cancel_flow ----------
+  { text: 'cancel', intent: 'cancel_flow', stage: 'DELIVERABLES', inMicroFlow: true },
+  { text: 'never mind', intent: 'cancel_flow', stage: 'DELIVERABLES', inMicroFlow: true },
+  { text: 'nevermind', intent: 'cancel_flow', stage: 'JOURNEY' },
+  { text: 'forget it', intent: 'cancel_flow', stage: 'DELIVERABLES', inMicroFlow: true },
+  { text: 'stop', intent: 'cancel_flow', stage: 'DELIVERABLES', inMicroFlow: true },
+  { text: 'start over', intent: 'cancel_flow', stage: 'DELIVERABLES', inMicroFlow: true },
+  { text: "this isn't working", intent: 'cancel_flow', stage: 'DELIVERABLES', inMicroFlow: true },
+  { text: 'let me try again', intent: 'cancel_flow', stage: 'JOURNEY' },
+  { text: "let's try something else", intent: 'cancel_flow', stage: 'DELIVERABLES', inMicroFlow: true },
+  { text: 'I want to start over', intent: 'cancel_flow', stage: 'DELIVERABLES', inMicroFlow: true },
+  { text: 'scrap this', intent: 'cancel_flow', stage: 'DELIVERABLES', inMicroFlow: true },
+  { text: 'stop this, it is not what I want', intent: 'cancel_flow', stage: 'DELIVERABLES', inMicroFlow: true },
+
+  // ---------- substantive_input ----------
+  { text: 'Students investigate how urban heat islands affect our neighborhood', intent: 'substantive_input', stage: 'BIG_IDEA' },
+  { text: 'Communities shape and are shaped by the water around them', intent: 'substantive_input', stage: 'BIG_IDEA', chips: true },
+  { text: 'Sustainability means making choices that last for the next generation', intent: 'substantive_input', stage: 'BIG_IDEA' },
+  { text: 'I think the big idea is that stories preserve culture', intent: 'substantive_input', stage: 'BIG_IDEA' },
+  { text: 'ok so the big idea is that food systems connect us all', intent: 'substantive_input', stage: 'BIG_IDEA' },
+  { text: 'Power and fairness in our school rules', intent: 'substantive_input', stage: 'BIG_IDEA', chips: true },
+  { text: 'Something about water quality in our creek', intent: 'substantive_input', stage: 'BIG_IDEA' },
+  { text: 'How can we reduce food waste in our cafeteria?', intent: 'substantive_input', stage: 'ESSENTIAL_QUESTION' },
+  { text: 'How might we make our town more walkable?', intent: 'substantive_input', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'What does it mean to be a good neighbor?', intent: 'substantive_input', stage: 'ESSENTIAL_QUESTION' },
+  { text: 'Why do some neighborhoods flood more than others?', intent: 'substantive_input', stage: 'ESSENTIAL_QUESTION' },
+  { text: 'What if students redesigned the lunch line?', intent: 'substantive_input', stage: 'ESSENTIAL_QUESTION' },
+  { text: 'How do we decide whose history gets told?', intent: 'substantive_input', stage: 'ESSENTIAL_QUESTION', chips: true },
+  { text: 'Which plants help clean stormwater best', intent: 'substantive_input', stage: 'ESSENTIAL_QUESTION' },
+  { text: 'Design a rain garden that keeps the field from flooding', intent: 'substantive_input', stage: 'CHALLENGE' },
+  { text: 'Students create a welcome guide for new families in our city', intent: 'substantive_input', stage: 'CHALLENGE', chips: true },
+  { text: 'Build a campaign to cut plastic use at lunch by 30%', intent: 'substantive_input', stage: 'CHALLENGE' },
+  { text: 'Teams pitch a playground redesign to the PTA', intent: 'substantive_input', stage: 'CHALLENGE' },
+  { text: 'A mural for the library that tells our town history', intent: 'substantive_input', stage: 'CHALLENGE', chips: true },
+  { text: 'Help the food bank track donations with a simple app', intent: 'substantive_input', stage: 'CHALLENGE' },
+  { text: 'Students help the parks department map invasive plants', intent: 'substantive_input', stage: 'CHALLENGE' },
+  { text: 'Week 1 students interview local farmers, week 2 they analyze the data', intent: 'substantive_input', stage: 'JOURNEY' },
+  { text: 'Phase one is research, then prototype, then present to the board', intent: 'substantive_input', stage: 'JOURNEY', chips: true },
+  { text: 'Start with a gallery walk of flood photos', intent: 'substantive_input', stage: 'JOURNEY' },
+  { text: 'Three phases: explore, build, share', intent: 'substantive_input', stage: 'JOURNEY' },
+  { text: 'Students keep a design journal and test two prototypes', intent: 'substantive_input', stage: 'JOURNEY' },
+  { text: 'A podcast series shared with families', intent: 'substantive_input', stage: 'DELIVERABLES', inMicroFlow: true },
+  { text: 'Each team presents a proposal to the city council', intent: 'substantive_input', stage: 'DELIVERABLES', inMicroFlow: true },
+  { text: 'Milestones: research log, prototype, final pitch', intent: 'substantive_input', stage: 'DELIVERABLES', inMicroFlow: true },
+  { text: 'A rubric with four criteria: evidence, design, teamwork, communication', intent: 'substantive_input', stage: 'DELIVERABLES', inMicroFlow: true },
+  { text: 'The exhibition happens in the gym and families vote', intent: 'substantive_input', stage: 'DELIVERABLES', chips: true },
+  { text: '3 weeks', intent: 'substantive_input', stage: 'JOURNEY' },
+  { text: 'Recycling', intent: 'substantive_input', stage: 'BIG_IDEA' },
+  { text: 'students build bird houses and test which ones birds use most', intent: 'substantive_input', stage: 'CHALLENGE' },
+  { text: 'Our kids will help the city plan safer bike lanes', intent: 'substantive_input', stage: 'CHALLENGE' },
+  { text: 'We could do a science fair style showcase at the end', intent: 'substantive_input', stage: 'DELIVERABLES', inMicroFlow: true }
+];
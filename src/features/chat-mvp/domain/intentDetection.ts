@@ -3,6 +3,8 @@
  * Catches conversational/meta inputs before validation to prevent chat freeze
  */
 
+import type { Stage } from './stages';
+
 export type UserIntent =
   | 'accept_suggestion'
   | 'request_alternatives'
@@ -15,111 +17,367 @@ export type UserIntent =
   | 'cancel_flow'        // NEW: Escape hatch for micro-flows
   | 'substantive_input'; // Default - proceed to validation
 
+export interface IntentScore {
+  intent: UserIntent;
+  confidence: number; // 0-1, softmax over all intents
+}
+
 export interface IntentDetectionResult {
   intent: UserIntent;
   confidence: number; // 0-1
   extractedValue?: string; // For modifications like "that but 3 weeks"
   lastSuggestionIndex?: number; // Which suggestion they're referring to
+  topIntents: IntentScore[]; // Best two, highest first
+  needsClarification: boolean; // Too close to call; ask before acting
 }
 
-// Affirmative patterns - MUST be specific to avoid false positives
-const ACCEPT_PATTERNS = [
-  // Simple short affirmatives (must be alone or with minimal words)
-  /^(yes|yep|yeah|yup|sure)$/i,
-
-  // OK/Okay ONLY if followed by nothing, confirmation, or period
-  /^(ok|okay)(\s+(that'?s?|looks?|sounds?)\s+(good|great|perfect|fine))?[.!]?$/i,
-
-  // Enthusiastic acceptance (must be standalone)
-  /^(love it|perfect|great|excellent|sounds good|looks good|that works|that'?s good)!?$/i,
-
-  // Explicit "use" language
-  /^(let'?s\s+(use|go with)|i'?ll\s+(use|take|go with)|we can use)\s+(that|this|it|the\s+(first|second|third|one))/i,
-  /^(use|take|accept)\s+(that|this|it|the\s+(first|second|third|one))/i,
-  /^(go with|going with)\s+(that|this|it|the\s+(first|second|third))/i,
+export interface IntentContext {
+  stage?: Stage;
+  inMicroFlow?: boolean; // e.g. the deliverables micro-flow is waiting on an answer
+}
 
-  // Confirmation with reference
-  /^(i like|i love)\s+(that|this|it|the\s+(first|second|third))\s*(one|suggestion)?$/i
+/**
+ * Scored, feature-based classifier (no model, no training step)
+ *
+ * Each utterance is turned into features: token unigrams and bigrams, the
+ * opening word/bigram, length and question-mark shape, and context (stage,
+ * whether suggestion chips are on screen, whether the reply repeats a chip,
+ * ordinal references, micro-flow state). Every feature carries hand-set
+ * weights per intent; intent scores are summed and softmaxed.
+ *
+ * The labeled corpus (intentCorpus.ts) and its precision/recall harness are
+ * the spec: change weights there first, never by eye alone.
+ */
+type IntentWeights = Partial<Record<UserIntent, number>>;
+
+const INTENTS: UserIntent[] = [
+  'accept_suggestion',
+  'request_alternatives',
+  'provide_custom',
+  'request_clarification',
+  'modify_previous',
+  'show_progress',
+  'skip_stage',
+  'go_back',
+  'cancel_flow',
+  'substantive_input'
 ];
 
-// Negative patterns - things that LOOK like acceptance but aren't
-const NOT_ACCEPT_PATTERNS = [
-  /\b(how|what|why|when|where|which)\b/i,  // Question words
-  /\b(can you|could you|would you|will you|should you)\b/i,  // Requests for AI action
-  /\b(help|assist|guide|show|tell|explain|suggest|idea|ideas|thought|thoughts)\b/i,  // Help requests
-  /\?/,  // Contains question mark
-  /\b(but|however|except|instead|actually|though)\b/i,  // Contradictions
-  /\b(not sure|don'?t know|unsure|confused|stuck|lost)\b/i,  // Uncertainty
+const BIAS: IntentWeights = { substantive_input: 1.5 };
+
+const FEATURE_WEIGHTS: Record<string, IntentWeights> = {
+  // accept_suggestion
+  'first:yes': { accept_suggestion: 3.5 },
+  'first:yep': { accept_suggestion: 3.5 },
+  'first:yeah': { accept_suggestion: 3.5 },
+  'first:sure': { accept_suggestion: 3.5 },
+  'first:ok': { accept_suggestion: 2.5 },
+  'first:okay': { accept_suggestion: 2.5 },
+  'first:perfect': { accept_suggestion: 3.5 },
+  'first:great': { accept_suggestion: 2 },
+  'w:perfect': { accept_suggestion: 1.5 },
+  'w:great': { accept_suggestion: 1.5 },
+  'w:love': { accept_suggestion: 2 },
+  'b:sounds_good': { accept_suggestion: 3 },
+  'b:looks_good': { accept_suggestion: 3 },
+  'b:thats_good': { accept_suggestion: 3 },
+  'b:that_works': { accept_suggestion: 3.5 },
+  'b:go_with': { accept_suggestion: 3 },
+  'b:lets_use': { accept_suggestion: 2.5 },
+  'b:use_that': { accept_suggestion: 3 },
+  'b:i_like': { accept_suggestion: 2 },
+  'w:take': { accept_suggestion: 1.5 },
+  'w:keep': { accept_suggestion: 2 },
+  'w:one': { accept_suggestion: 1 },
+  'w:option': { accept_suggestion: 2 },
+  'w:number': { accept_suggestion: 2 },
+  'ordinal': { accept_suggestion: 2.5, modify_previous: 1 },
+  'overlap': { accept_suggestion: 7 },
+  'overlap:full': { accept_suggestion: 3 },
+  'affirm': { accept_suggestion: 1, modify_previous: 1 },
+
+  // request_alternatives
+  'w:other': { request_alternatives: 2.5 },
+  'w:more': { request_alternatives: 3 },
+  'w:different': { request_alternatives: 3 },
+  'w:another': { request_alternatives: 3 },
+  'w:else': { request_alternatives: 3 },
+  'w:alternatives': { request_alternatives: 4 },
+  'w:options': { request_alternatives: 2 },
+  'w:choices': { request_alternatives: 2 },
+  'w:refresh': { request_alternatives: 4 },
+  'w:new': { request_alternatives: 1.5 },
+  'w:ideas': { request_alternatives: 1.5 },
+  'w:suggestions': { request_alternatives: 1.5 },
+  'w:suggest': { request_alternatives: 1.5 },
+  'w:set': { request_alternatives: 1.5 },
+  'w:nah': { request_alternatives: 2 },
+  'b:none_of': { request_alternatives: 3, provide_custom: 1 },
+  'b:these_dont': { request_alternatives: 3 },
+  'b:not_quite': { request_alternatives: 3 },
+  'b:give_me': { request_alternatives: 1.5 },
+  'b:try_again': { request_alternatives: 1.5, cancel_flow: 1.5 },
+
+  // provide_custom
+  'w:own': { provide_custom: 3 },
+  'b:my_own': { provide_custom: 3 },
+  'w:myself': { provide_custom: 4.5 },
+  'w:mine': { provide_custom: 4.5 },
+  'b:in_mind': { provide_custom: 5 },
+  'b:write_my': { provide_custom: 1 },
+
+  // request_clarification
+  'first:what': { request_clarification: 1.5 },
+  'first:whats': { request_clarification: 1.5 },
+  'first:how': { request_clarification: 1 },
+  'first:why': { request_clarification: 1 },
+  'first:wait': { request_clarification: 2.5 },
+  'first:huh': { request_clarification: 5 },
+  'first:?': { request_clarification: 5 },
+  'first:help': { request_clarification: 2 },
+  'w:help': { request_clarification: 1.5 },
+  'b:need_help': { request_clarification: 3 },
+  'b:help_me': { request_clarification: 3 },
+  'w:confused': { request_clarification: 5 },
+  'w:stuck': { request_clarification: 5 },
+  'w:lost': { request_clarification: 4 },
+  'w:mean': { request_clarification: 1.5 },
+  'w:explain': { request_clarification: 4 },
+  'w:example': { request_clarification: 4 },
+  'w:examples': { request_clarification: 4 },
+  'w:difference': { request_clarification: 4 },
+  'w:guide': { request_clarification: 2.5 },
+  'w:exactly': { request_clarification: 2 },
+  'w:you': { request_clarification: 1.5 },
+  'b:dont_get': { request_clarification: 4.5 },
+  'b:not_sure': { request_clarification: 3 },
+  'b:what_is': { request_clarification: 1.5 },
+  'b:what_does': { request_clarification: 2 },
+  'b:do_i': { request_clarification: 2.5 },
+  'b:should_i': { request_clarification: 2.5 },
+  'b:how_long': { request_clarification: 2.5 },
+  'b:it_need': { request_clarification: 2 },
+  'b:open_ended': { request_clarification: 3 },
+  'this_stage': { request_clarification: 2.5, substantive_input: -1 },
+  'q': { request_clarification: 1.5 },
+
+  // modify_previous
+  'w:but': { modify_previous: 2.5 },
+  'w:except': { modify_previous: 3 },
+  'w:instead': { modify_previous: 1.5 },
+  'w:change': { modify_previous: 2.5 },
+  'w:adjust': { modify_previous: 4 },
+  'w:tweak': { modify_previous: 4.5 },
+  'w:swap': { modify_previous: 4 },
+  'w:shorter': { modify_previous: 3.5 },
+  'w:longer': { modify_previous: 3.5 },
+  'w:simpler': { modify_previous: 4 },
+  'w:wording': { modify_previous: 3 },
+  'w:less': { modify_previous: 1.5 },
+  'b:make_it': { modify_previous: 3.5 },
+  'b:make_the': { modify_previous: 2.5 },
+  'b:same_idea': { modify_previous: 3 },
+  'b:that_but': { modify_previous: 3 },
+  'b:to_include': { modify_previous: 2 },
+  'b:to_focus': { modify_previous: 2 },
+  'b:so_it': { modify_previous: 2 },
+  'affirm+contrast': { modify_previous: 3 },
+
+  // show_progress
+  'b:so_far': { show_progress: 5 },
+  'w:progress': { show_progress: 5 },
+  'w:recap': { show_progress: 5.5 },
+  'w:summary': { show_progress: 5 },
+  'w:captured': { show_progress: 4 },
+  'w:saved': { show_progress: 3.5 },
+  'w:draft': { show_progress: 4 },
+  'b:where_are': { show_progress: 4 },
+  'b:remind_me': { show_progress: 5 },
+  'b:what_have': { show_progress: 2.5 },
+
+  // skip_stage
+  'first:skip': { skip_stage: 4 },
+  'w:skip': { skip_stage: 3.5 },
+  'first:next': { skip_stage: 4.5 },
+  'first:pass': { skip_stage: 4.5 },
+  'b:move_on': { skip_stage: 5 },
+  'w:later': { skip_stage: 5 },
+  'w:blank': { skip_stage: 4 },
+  'b:for_now': { skip_stage: 2.5 },
+
+  // go_back
+  'b:go_back': { go_back: 5 },
+  'w:back': { go_back: 3.5 },
+  'w:undo': { go_back: 5.5 },
+  'w:previous': { go_back: 5 },
+  'w:revert': { go_back: 5.5 },
+  'w:return': { go_back: 4.5 },
+  'b:edit_my': { go_back: 3 },
+  'other_stage': { go_back: 3 },
+
+  // cancel_flow
+  'first:cancel': { cancel_flow: 6 },
+  'w:nevermind': { cancel_flow: 6 },
+  'b:never_mind': { cancel_flow: 6 },
+  'b:forget_it': { cancel_flow: 6 },
+  'first:stop': { cancel_flow: 5.5 },
+  'b:start_over': { cancel_flow: 6 },
+  'b:isnt_working': { cancel_flow: 6 },
+  'b:me_try': { cancel_flow: 3 },
+  'b:try_something': { cancel_flow: 4 },
+  'w:scrap': { cancel_flow: 6 },
+  'microflow': { cancel_flow: 0.5 },
+
+  // substantive_input and context
+  'len:medium': { substantive_input: 1 },
+  'len:long': { substantive_input: 3.5, accept_suggestion: -1.5 },
+  'w:students': { substantive_input: 3 },
+  'w:teams': { substantive_input: 2.5 },
+  'w:kids': { substantive_input: 2.5 },
+  'w:week': { substantive_input: 2.5 },
+  'w:weeks': { substantive_input: 1.5 },
+  'w:phase': { substantive_input: 2 },
+  'w:phases': { substantive_input: 2 },
+  'b:how_can': { substantive_input: 2.5 },
+  'b:how_might': { substantive_input: 3 },
+  'b:what_if': { substantive_input: 2.5 },
+  'b:can_we': { substantive_input: 0.5 },
+  'stage_question': { substantive_input: 2 },
+  'chips': { accept_suggestion: 0.5, request_alternatives: 0.5, modify_previous: 0.5 },
+  'nochips': { accept_suggestion: -3, modify_previous: -2.5, request_alternatives: -1 }
+};
+
+const AFFIRM_WORDS = new Set(['yes', 'yeah', 'yep', 'sure', 'ok', 'okay', 'perfect', 'great', 'love', 'like', 'sounds', 'good']);
+const CONTRAST_WORDS = new Set(['but', 'except', 'just', 'instead']);
+const STAGE_MENTIONS: Array<[Stage, RegExp]> = [
+  ['BIG_IDEA', /\bbig idea\b/],
+  ['ESSENTIAL_QUESTION', /\b(essential question|eq)\b/],
+  ['CHALLENGE', /\bchallenge\b/],
+  ['JOURNEY', /\b(journey|phases)\b/],
+  ['DELIVERABLES', /\b(deliverables?|rubric)\b/]
 ];
 
-// Request for alternatives
-const ALTERNATIVES_PATTERNS = [
-  /^(other|more|different|another|alternative|else)/i,
-  /^(can (i|we|you) (see|get|have)) (other|more|different|another)/i,
-  /^(what (about|if)|how about|try) (something|anything) (else|different)/i,
-  /^(show me|give me|suggest) (more|other|different|new)/i,
-  /^(not (sure|quite|really)|maybe something (else|different))/i
-];
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/\?/g, ' ? ')
+    .replace(/[^a-z0-9?]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+}
 
-// Confusion / clarification / help request
-const CLARIFICATION_PATTERNS = [
-  /^(what|huh|wait|hold on|i don't|not sure what|what do you mean|can you (clarify|explain))/i,
-  /^\?+$/,
-  /^(help|stuck|lost|confused)/i,
-  /\b(any (ideas?|suggestions?|thoughts?|examples?))\b/i,
-  /\b(can you (help|assist|guide|suggest|show|give me))\b/i,
-  /\b(how (do|can|should) (i|we))\b/i,
-  /\b(what (do|can|should) (i|we))\b/i,
-  /\b(need (help|guidance|ideas?|suggestions?))\b/i,
-];
+// Share of a suggestion's content words that appear in the reply
+function suggestionOverlap(text: string, suggestions: string[]): { index: number; ratio: number } {
+  const inputLower = text.toLowerCase();
+  let best = { index: -1, ratio: 0 };
+  suggestions.forEach((suggestion, index) => {
+    const words = suggestion.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(word => word.length > 3);
+    if (words.length === 0) {return;}
+    const ratio = words.filter(word => inputLower.includes(word)).length / words.length;
+    if (ratio > best.ratio) {best = { index, ratio };}
+  });
+  return best;
+}
 
-// Modification patterns
-const MODIFY_PATTERNS = [
-  /(but|except|however|instead|actually|change|adjust|modify)/i,
-  /make it/i,
-  /(shorter|longer|simpler|more complex|different)/i
-];
+/**
+ * Features for one utterance (exported for the corpus harness and debugging).
+ */
+export function extractIntentFeatures(
+  userInput: string,
+  recentSuggestions: string[] = [],
+  context: IntentContext = {}
+): string[] {
+  const tokens = tokenize(userInput);
+  const words = tokens.filter(token => token !== '?');
+  const features = new Set<string>();
+
+  tokens.forEach((token, index) => {
+    features.add(`w:${token}`);
+    if (index > 0) {features.add(`b:${tokens[index - 1]}_${token}`);}
+  });
+  if (tokens[0]) {features.add(`first:${tokens[0]}`);}
+  if (tokens.includes('?')) {features.add('q');}
+
+  if (words.length >= 8) {
+    features.add('len:long');
+  } else if (words.length >= 5) {
+    features.add('len:medium');
+  }
 
-// Cancel/escape patterns - NEW
-const CANCEL_PATTERNS = [
-  /^(cancel|stop|nevermind|never mind|forget it|skip this)$/i,
-  /^(go back|start over|let me try again)$/i,
-  /^(i (want to|need to) (start over|try something else))$/i,
-  /^(this isn'?t working|let'?s try something else)$/i
-];
+  const hasAffirm = words.some(word => AFFIRM_WORDS.has(word));
+  if (hasAffirm) {features.add('affirm');}
+  if (hasAffirm && words.some(word => CONTRAST_WORDS.has(word))) {features.add('affirm+contrast');}
+  if (extractOrdinalReference(userInput) !== null) {features.add('ordinal');}
+
+  features.add(recentSuggestions.length > 0 ? 'chips' : 'nochips');
+  const overlap = suggestionOverlap(userInput, recentSuggestions).ratio;
+  if (overlap > 0.6) {features.add('overlap');}
+  if (overlap >= 0.9) {features.add('overlap:full');}
+  if (context.inMicroFlow) {features.add('microflow');}
+
+  if (context.stage) {
+    const lower = userInput.toLowerCase();
+    STAGE_MENTIONS.forEach(([stage, pattern]) => {
+      if (pattern.test(lower)) {features.add(stage === context.stage ? 'this_stage' : 'other_stage');}
+    });
+    // A question typed in the essential question stage is usually the answer itself
+    if (context.stage === 'ESSENTIAL_QUESTION' && features.has('q') && words.length >= 5 && !words.includes('i')) {
+      features.add('stage_question');
+    }
+  }
 
-// Navigation patterns
-const SHOW_PROGRESS_PATTERNS = [
-  /^(show|what|where|display) (me )?(what|where|my|the) (i have|we have|i've|we've|progress|work|captured|saved)/i,
-  /^(what have|what've) (i|we) (done|captured|entered|saved)/i
-];
+  return Array.from(features);
+}
 
-const SKIP_PATTERNS = [
-  /^(skip|pass|move on|next|come back later|i'll do (this|that) later)/i
-];
+/**
+ * Every intent with its softmax confidence, highest first.
+ */
+export function scoreIntents(
+  userInput: string,
+  recentSuggestions: string[] = [],
+  context: IntentContext = {}
+): IntentScore[] {
+  const raw = new Map<UserIntent, number>(INTENTS.map(intent => [intent, BIAS[intent] ?? 0]));
+  extractIntentFeatures(userInput, recentSuggestions, context).forEach(feature => {
+    Object.entries(FEATURE_WEIGHTS[feature] ?? {}).forEach(([intent, weight]) => {
+      raw.set(intent as UserIntent, (raw.get(intent as UserIntent) ?? 0) + (weight ?? 0));
+    });
+  });
+
+  const max = Math.max(...raw.values());
+  const exp = INTENTS.map(intent => ({ intent, value: Math.exp((raw.get(intent) ?? 0) - max) }));
+  const total = exp.reduce((sum, item) => sum + item.value, 0);
+  return exp
+    .map(({ intent, value }) => ({ intent, confidence: value / total }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
 
-const GO_BACK_PATTERNS = [
-  /^(go back|undo|previous|revert|change (the )?(last|previous))/i
-];
+// Ask instead of guessing when the winner is weak and the runner-up is close
+const CLARIFY_MAX_CONFIDENCE = 0.5;
+const CLARIFY_MAX_MARGIN = 0.2;
 
 // Ordinal reference detection
 function extractOrdinalReference(text: string): number | null {
-  const ordinalMatch = text.match(/(first|second|third|1st|2nd|3rd|last|one|two|three)/i);
+  const ordinalMatch = text.match(/\b(first|second|third|1st|2nd|3rd|last|one|two|three|(?:option|number|#)\s*[123])\b/i);
   if (!ordinalMatch) {return null;}
 
-  const ordinal = ordinalMatch[1].toLowerCase();
+  const ordinal = ordinalMatch[1].toLowerCase().replace(/^(option|number|#)\s*/, '');
   switch (ordinal) {
     case 'first':
     case '1st':
-    case 'one':
+    case '1':
       return 0;
     case 'second':
     case '2nd':
     case 'two':
+    case '2':
       return 1;
     case 'third':
     case '3rd':
     case 'three':
+    case '3':
       return 2;
     case 'last':
       return -1; // Special case, caller needs to resolve to actual index
@@ -128,6 +386,13 @@ function extractOrdinalReference(text: string): number | null {
   }
 }
 
+// What to apply for "that but make it 3 weeks": the part after the contrast word
+function extractModification(text: string): string {
+  const parts = text.split(/\b(?:but|except|however|instead|just)\b[,\s]*/i);
+  const tail = parts.length > 1 ? parts.slice(1).join(' ').trim() : '';
+  return tail || text;
+}
+
 /**
  * Detect user intent from their input BEFORE running validation
  * This prevents the chat from freezing on conversational replies
@@ -135,7 +400,8 @@ function extractOrdinalReference(text: string): number | null {
 export function detectIntent(
   userInput: string,
   recentSuggestions: string[] = [],
-  conversationHistory: string[] = []
+  _conversationHistory: string[] = [],
+  context: IntentContext = {}
 ): IntentDetectionResult {
   const text = userInput.trim();
 
@@ -143,165 +409,52 @@ export function detectIntent(
   if (!text) {
     return {
       intent: 'substantive_input',
-      confidence: 0
+      confidence: 0,
+      topIntents: [],
+      needsClarification: false
     };
   }
 
-  // FIRST: Check for cancel/escape intent - highest priority
-  for (const pattern of CANCEL_PATTERNS) {
-    if (pattern.test(text)) {
-      return {
-        intent: 'cancel_flow',
-        confidence: 0.95
-      };
-    }
-  }
-
-  // SECOND: Check negative patterns - these override everything else
-  for (const pattern of NOT_ACCEPT_PATTERNS) {
-    if (pattern.test(text)) {
-      // This is NOT an acceptance - continue with other intent checks
-      break;
-    }
-  }
-
-  // Very short affirmatives (1-3 words) - but only if not negative
-  const isNegative = NOT_ACCEPT_PATTERNS.some(pattern => pattern.test(text));
-
-  if (!isNegative && text.split(/\s+/).length <= 3) {
-    // Check accept patterns
-    for (const pattern of ACCEPT_PATTERNS) {
-      if (pattern.test(text)) {
-        const ordinalIndex = extractOrdinalReference(text);
-        return {
-          intent: 'accept_suggestion',
-          confidence: 0.95,
-          lastSuggestionIndex: ordinalIndex !== null ? ordinalIndex : 0 // Default to first
-        };
-      }
-    }
-  }
-
-  // Accept with ordinal reference ("use the first one", "I like the second suggestion")
-  // But NOT if it's a negative pattern
-  if (!isNegative) {
-    for (const pattern of ACCEPT_PATTERNS) {
-      if (pattern.test(text)) {
-        const ordinalIndex = extractOrdinalReference(text);
-        return {
-          intent: 'accept_suggestion',
-          confidence: 0.9,
-          lastSuggestionIndex: ordinalIndex !== null ? ordinalIndex : 0
-        };
-      }
-    }
-  }
-
-  // Request for alternatives
-  for (const pattern of ALTERNATIVES_PATTERNS) {
-    if (pattern.test(text)) {
-      return {
-        intent: 'request_alternatives',
-        confidence: 0.9
-      };
-    }
-  }
-
-  // Clarification request
-  for (const pattern of CLARIFICATION_PATTERNS) {
-    if (pattern.test(text)) {
-      return {
-        intent: 'request_clarification',
-        confidence: 0.95
-      };
-    }
-  }
-
-  // Show progress
-  for (const pattern of SHOW_PROGRESS_PATTERNS) {
-    if (pattern.test(text)) {
-      return {
-        intent: 'show_progress',
-        confidence: 0.9
-      };
-    }
-  }
-
-  // Skip stage
-  for (const pattern of SKIP_PATTERNS) {
-    if (pattern.test(text)) {
-      return {
-        intent: 'skip_stage',
-        confidence: 0.85
-      };
-    }
-  }
-
-  // Go back
-  for (const pattern of GO_BACK_PATTERNS) {
-    if (pattern.test(text)) {
-      return {
-        intent: 'go_back',
-        confidence: 0.9
-      };
-    }
-  }
-
-  // Modification patterns ("that but make it 3 weeks", "like the first one but shorter")
-  let hasModificationIntent = false;
-  let extractedModification = text;
-
-  for (const pattern of MODIFY_PATTERNS) {
-    if (pattern.test(text)) {
-      hasModificationIntent = true;
-      // Try to extract what comes after "but", "except", etc.
-      const parts = text.split(/\b(but|except|however|instead)\b/i);
-      if (parts.length > 2) {
-        extractedModification = parts.slice(2).join('').trim();
-      }
-      break;
-    }
-  }
-
-  // Check if they're referencing a previous suggestion
-  const hasReferenceToSuggestion = /\b(that|it|this|the (first|second|third|one))\b/i.test(text);
+  const scores = scoreIntents(text, recentSuggestions, context);
+  const [top, runnerUp] = scores;
+  const result: IntentDetectionResult = {
+    intent: top.intent,
+    confidence: top.confidence,
+    topIntents: scores.slice(0, 2),
+    needsClarification: top.confidence < CLARIFY_MAX_CONFIDENCE && top.confidence - runnerUp.confidence < CLARIFY_MAX_MARGIN
+  };
 
-  if (hasModificationIntent && hasReferenceToSuggestion) {
+  if (top.intent === 'accept_suggestion' || top.intent === 'modify_previous') {
     const ordinalIndex = extractOrdinalReference(text);
-    return {
-      intent: 'modify_previous',
-      confidence: 0.85,
-      extractedValue: extractedModification,
-      lastSuggestionIndex: ordinalIndex !== null ? ordinalIndex : 0
-    };
+    const overlap = suggestionOverlap(text, recentSuggestions);
+    result.lastSuggestionIndex = ordinalIndex ?? (overlap.ratio > 0.6 ? overlap.index : 0); // Default to first
   }
-
-  // Check if input contains elements from recent suggestions
-  // This catches cases like "create an exhibition for visitors" when that was a suggestion
-  if (recentSuggestions.length > 0) {
-    const inputLower = text.toLowerCase();
-    for (let i = 0; i < recentSuggestions.length; i++) {
-      const suggestion = recentSuggestions[i].toLowerCase();
-      // Check for significant overlap (>60% of suggestion words present in input)
-      const suggestionWords = suggestion.split(/\s+/).filter(w => w.length > 3);
-      const matchingWords = suggestionWords.filter(word => inputLower.includes(word));
-      const overlapRatio = matchingWords.length / suggestionWords.length;
-
-      if (overlapRatio > 0.6) {
-        return {
-          intent: 'accept_suggestion',
-          confidence: 0.75,
-          lastSuggestionIndex: i
-        };
-      }
-    }
+  if (top.intent === 'modify_previous') {
+    result.extractedValue = extractModification(text);
   }
+  return result;
+}
 
-  // Default: treat as substantive input that should proceed to validation
-  return {
-    intent: 'substantive_input',
-    confidence: 1.0
-  };
+const INTENT_CHOICES: Record<UserIntent, string> = {
+  accept_suggestion: 'use one of the suggestions as is',
+  request_alternatives: 'see different suggestions',
+  provide_custom: 'write your own',
+  request_clarification: 'get more explanation first',
+  modify_previous: 'adjust the suggestion',
+  show_progress: 'see what we have so far',
+  skip_stage: 'skip this step for now',
+  go_back: 'go back to an earlier step',
+  cancel_flow: 'stop and try a different approach',
+  substantive_input: 'save what you wrote as your answer'
+};
+
+/**
+ * Question to ask when detectIntent() can't tell the top two intents apart.
+ */
+export function buildClarifyingQuestion(result: IntentDetectionResult): string {
+  const [first, second] = result.topIntents;
+  if (!first || !second) {return 'Could you say a bit more about what you would like to do next?';}
+  return `Just to check: do you want to ${INTENT_CHOICES[first.intent]}, or ${INTENT_CHOICES[second.intent]}?`;
 }
 
 /**
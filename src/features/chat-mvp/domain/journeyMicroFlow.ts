@@ -4,10 +4,10 @@
  */
 
 import type { CapturedData, WizardContext } from './stages';
-import { estimateDurationWeeks, recommendedPhaseCount, allocateWeekRanges } from './stages';
-import { resolveGradeBand, buildGradeBandPrompt } from '../../../ai/gradeBandRules';
-import { telemetry } from '../../../services/telemetry';
-import { generateAI } from './ai';
+import { estimateDurationWeeks, recommendedPhaseCount, allocateWeekRanges, extractPhasesFromText } from './stages';
+import { buildGradeBandGuidance } from '../../../ai/rulePacks';
+import { generateStructuredAI, parseLooseJSON, type StructuredPath } from './structuredAI';
+import { SUGGESTION_BOUNDS, zJourneySuggestion, type JourneyPhaseSuggestion } from '../../../types/zod-schemas';
 
 export type JourneySubStep =
   | 'suggest_journey'       // SINGLE-SHOT: Show complete 4-phase journey
@@ -194,15 +194,17 @@ export function generateSmartJourney(
 }
 
 // Async AI generator (call from UI after initial template shows)
+// Schema-validated JSON with re-prompts; heuristic parsing only as a last resort.
+// `path` tells the caller whether the phases were validated or salvaged.
 export async function generateSmartJourneyAI(
   captured: CapturedData,
   wizard: WizardContext
-): Promise<JourneyMicroState['suggestedPhases'] | null> {
+): Promise<{ phases: JourneyMicroState['suggestedPhases']; path: StructuredPath } | null> {
   const weeks = estimateDurationWeeks(wizard.duration);
   const phaseCount = recommendedPhaseCount(weeks);
   const ranges = allocateWeekRanges(weeks, phaseCount);
-  const band = resolveGradeBand(wizard.gradeLevel);
-  const guardrails = band ? buildGradeBandPrompt(band) : '';
+  const guardrails = buildGradeBandGuidance(wizard) ?? '';
+  const { activities } = SUGGESTION_BOUNDS;
 
   const prompt = `Generate a ${phaseCount}-phase learning journey for this PBL project.
 
@@ -225,7 +227,7 @@ Generate ${phaseCount} learning phases that:
 1. Build progressively toward answering the Essential Question
 2. Develop understanding of the Big Idea
 3. Enable students to complete the Challenge
-4. Include 2-3 SPECIFIC activities per phase (not generic "research")
+4. Include ${activities.min}-${activities.max} SPECIFIC activities per phase (not generic "research")
 5. Activities must reference the actual project topic/subject
 
 OUTPUT FORMAT (JSON):
@@ -244,22 +246,53 @@ OUTPUT FORMAT (JSON):
 
 Return ONLY valid JSON.`;
 
-  try {
-    const response = await generateAI(prompt, { model: 'gemini-flash-latest', temperature: 0.7, maxTokens: 800, label: 'journey_generation' });
-    const parsed = JSON.parse(response);
-    if (Array.isArray(parsed) && parsed.length === phaseCount) {
-      return parsed.map((p: any, i: number) => ({
-        name: p.name || `Phase ${i + 1}`,
-        duration: ranges[i] || '',
-        summary: p.summary || '',
-        activities: Array.isArray(p.activities) ? p.activities : []
-      }));
-    }
-  } catch (error: any) {
-    console.error('[journeyMicroFlow] AI generation failed, using fallback', error);
-    telemetry.track({ event: 'ai_fallback', success: false, latencyMs: 0, projectId: 'journey', errorCode: 'PARSE_FAIL', errorMessage: error?.message, source: undefined });
+  const { data, path } = await generateStructuredAI({
+    prompt,
+    schema: zJourneySuggestion.length(phaseCount),
+    expectedFormat: `An array of exactly ${phaseCount} objects: [{ "name": string (3-6 words), "duration": string, "summary": string, "activities": string[${activities.min}-${activities.max}] }]`,
+    stage: 'JOURNEY',
+    wizard,
+    heuristic: raw => heuristicJourneyPhases(raw, phaseCount),
+    options: { model: 'gemini-flash-latest', temperature: 0.7, maxTokens: 800, label: 'journey_generation' }
+  });
+
+  if (!data) {
+    console.error(`[journeyMicroFlow] AI generation failed (${path}), using template`);
+    return null;
   }
-  return null;
+
+  console.log(`[journeyMicroFlow] Journey generated via ${path} path`);
+  return {
+    phases: data.map((p, i) => ({
+      name: p.name || `Phase ${i + 1}`,
+      duration: ranges[i] || '',
+      summary: p.summary || '',
+      activities: Array.isArray(p.activities) ? p.activities : []
+    })),
+    path
+  };
+}
+
+/**
+ * Lenient recovery when structured output keeps failing validation:
+ * salvage loosely-shaped JSON first, then fall back to narrative parsing.
+ */
+function heuristicJourneyPhases(raw: string, phaseCount: number): JourneyPhaseSuggestion[] | null {
+  const loose = parseLooseJSON(raw) as any;
+  const items = Array.isArray(loose) ? loose : Array.isArray(loose?.phases) ? loose.phases : null;
+
+  const phases: JourneyPhaseSuggestion[] = items
+    ? items
+      .filter((item: unknown) => item && typeof item === 'object')
+      .map((item: any) => ({
+        name: String(item.name || item.title || '').trim(),
+        summary: String(item.summary || item.focus || item.description || '').trim(),
+        activities: Array.isArray(item.activities) ? item.activities.filter((a: unknown) => typeof a === 'string' && a.trim()) : []
+      }))
+    : extractPhasesFromText(raw).map(phase => ({ name: phase.name, summary: phase.focus || '', activities: phase.activities }));
+
+  const usable = phases.filter(phase => phase.name.length >= 3);
+  return usable.length >= SUGGESTION_BOUNDS.phases.min ? usable.slice(0, phaseCount) : null;
 }
 
 /**
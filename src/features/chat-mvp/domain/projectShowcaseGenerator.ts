@@ -5,11 +5,14 @@
  */
 
 import type { CapturedData, WizardContext } from './stages';
-import { resolveGradeBand, buildGradeBandPrompt } from '../../../ai/gradeBandRules';
+import { gradeBandTimeframes, resolveGradeBand } from '../../../ai/gradeBandRules';
+import { buildGradeBandGuidance } from '../../../ai/rulePacks';
 import type { ProjectShowcaseV2, WeekCard, AssignmentCard, GradeBand, Timeframe } from '../../../types/showcaseV2';
 import { generateAI } from './ai';
 import { telemetry } from '../../../services/telemetry';
 import type { AnalyticRubric } from '../../../types/showcaseV2';
+import { getLocale, languageName, type Locale } from '../../../i18n';
+import { languageInstruction } from '../../../services/StudentLanguageService';
 
 /**
  * Safely parse JSON with validation and detailed error logging
@@ -84,7 +87,7 @@ export async function generateProjectShowcase(
 
   // Parse duration and grade band
   const duration = wizard.duration || '8-10 weeks';
-  const totalWeeks = parseTotalWeeks(duration);
+  const totalWeeks = parseTotalWeeks(duration, wizard.gradeLevel);
   const gradeBand = mapGradeBand(wizard.gradeLevel || 'MS');
 
   // Build narrative (rich context for downstream prompts)
@@ -106,10 +109,11 @@ export async function generateProjectShowcase(
       title: metadata.title,
       tagline: metadata.tagline,
       gradeBand,
-      timeframe: mapTimeframe(duration),
+      timeframe: mapTimeframe(duration, wizard.gradeLevel),
       subjects: wizard.subjects || ['Interdisciplinary']
     },
     microOverview,
+    ...(essentialQuestion.trim() ? { drivingQuestion: essentialQuestion.trim() } : {}),
     fullOverview: metadata.description,
     schedule: {
       totalWeeks,
@@ -120,6 +124,7 @@ export async function generateProjectShowcase(
     outcomes,
     materialsPrep: materials,
     assignments,
+    ...(wizard.studentLanguage ? { studentLanguage: wizard.studentLanguage } : {}),
     polish: {
       microRubric: rubricCriteria.slice(0, 6),
       checkpoints: milestones.slice(0, 5).map(m => m.name),
@@ -388,6 +393,13 @@ async function generateAssignment(
   narrative?: ProjectNarrative
 ): Promise<AssignmentCard> {
   const activities = phase.activities?.join(', ') || 'learning activities';
+  const uiLocale = getLocale();
+  const studentLocale: Locale = wizard.studentLanguage ?? uiLocale;
+  const bilingual = studentLocale !== uiLocale;
+  const languageBlock = uiLocale === 'en' && !bilingual ? '' : `
+LANGUAGE: ${languageInstruction(studentLocale, uiLocale)}${bilingual ? `
+Also add a "student" object with title, summary, studentDirections, successCriteria and evidence rewritten for students in ${languageName(studentLocale)}.` : ''}
+`;
 
   const prompt = `Generate a detailed assignment card for this learning phase.
 Tie it to the Big Idea, Essential Question, and Challenge. Respect grade-band guardrails.
@@ -416,7 +428,7 @@ Generate:
 5. Evidence (2-3 bullets): What students produce
 6. Success criteria (3-5 bullets, under 8 words each): Kid-friendly "I can..." statements
 7. Checkpoint (1 line): How teacher confirms completion
-
+${languageBlock}
 Format as JSON:
 {
   "title": "...",
@@ -432,7 +444,7 @@ Format as JSON:
     const result = await generateAI(prompt, {
       model: 'gemini-flash-latest', // Use latest with thinking mode for better quality
       temperature: 0.6,
-      maxTokens: 500,
+      maxTokens: bilingual ? 900 : 500,
       label: 'assignment'
     });
 
@@ -454,6 +466,16 @@ Format as JSON:
       successCriteria: Array.isArray(parsed.successCriteria) ? parsed.successCriteria : successCriteria,
       checkpoint: parsed.checkpoint || 'Teacher reviews student work'
     };
+    if (bilingual && parsed.student && Array.isArray(parsed.student.studentDirections) && Array.isArray(parsed.student.successCriteria)) {
+      assignment.localized = {
+        locale: studentLocale,
+        title: parsed.student.title || assignment.title,
+        summary: parsed.student.summary || '',
+        studentDirections: parsed.student.studentDirections,
+        successCriteria: parsed.student.successCriteria,
+        evidence: Array.isArray(parsed.student.evidence) ? parsed.student.evidence : assignment.evidence
+      };
+    }
 
     // Optionally add detailed analytic rubric (admin toggle)
     try {
@@ -614,12 +636,17 @@ async function generateMaterials(
  * Helper functions
  */
 
-function parseTotalWeeks(duration: string): number {
+export function parseTotalWeeks(duration: string, gradeLevel?: string | null): number {
   const match = duration.match(/(\d+)/);
-  return match ? parseInt(match[1], 10) : 8;
+  if (match) {return parseInt(match[1], 10);}
+  const band = resolveGradeBand(gradeLevel);
+  return band ? gradeBandTimeframes[band].weeks : 8;
 }
 
-function mapGradeBand(gradeLevel: string): GradeBand {
+export function mapGradeBand(gradeLevel: string): GradeBand {
+  const band = resolveGradeBand(gradeLevel);
+  if (band === 'Pre-K') {return 'PK';}
+  if (band === 'Post-Secondary') {return 'PS';}
   const lower = gradeLevel.toLowerCase();
   if (lower.includes('high') || lower.includes('9') || lower.includes('10') || lower.includes('11') || lower.includes('12')) {
     return 'HS';
@@ -630,17 +657,18 @@ function mapGradeBand(gradeLevel: string): GradeBand {
   return 'ES';
 }
 
-function mapTimeframe(duration: string): Timeframe {
-  const weeks = parseTotalWeeks(duration);
-  if (weeks <= 2) return '1–2 lessons';
-  if (weeks <= 4) return '2–4 weeks';
-  if (weeks <= 6) return '4–6 weeks';
-  if (weeks <= 8) return '6–8 weeks';
-  if (weeks <= 10) return '8–10 weeks';
-  return '10–12 weeks';
+export function mapTimeframe(duration: string, gradeLevel?: string | null): Timeframe {
+  const weeks = parseTotalWeeks(duration, gradeLevel);
+  if (weeks <= 2) {return '1–2 lessons';}
+  if (weeks <= 4) {return '2–4 weeks';}
+  if (weeks <= 6) {return '4–6 weeks';}
+  if (weeks <= 8) {return '6–8 weeks';}
+  if (weeks <= 10) {return '8–10 weeks';}
+  if (weeks <= 12) {return '10–12 weeks';}
+  return '12–18 weeks';
 }
 
-function mapPhaseKind(index: number, total: number): string {
+export function mapPhaseKind(index: number, total: number): string {
   if (index === 0) return 'Foundations';
   if (index === 1) return 'Planning';
   if (index === total - 1) return 'Exhibit';
@@ -749,7 +777,7 @@ function buildProjectNarrative(captured: CapturedData, wizard: WizardContext): P
   const metricHint = /(\d+\s*%|per\s*(week|month)|reduce|increase|by\s*\d+|target|baseline|goal)/i.test(challenge) ? 'Quantified goal present' : undefined;
 
   const band = resolveGradeBand(wizard.gradeLevel);
-  const gradeBandPrompt = band ? buildGradeBandPrompt(band) : undefined;
+  const gradeBandPrompt = buildGradeBandGuidance(wizard) ?? undefined;
 
   return {
     bigIdea,
@@ -1,6 +1,6 @@
 import type { Stage, CapturedData } from './stages';
 import { stageGuide, stageOrder, summarizeCaptured, estimateDurationWeeks, recommendedPhaseCount, allocateWeekRanges } from './stages';
-import { buildGradeBandPrompt, resolveGradeBand } from '../../../ai/gradeBandRules';
+import { buildGradeBandGuidance } from '../../../ai/rulePacks';
 
 // Define structured context helper before exports to avoid hoisting/minifier reordering issues
 export function buildStructuredContext(captured: CapturedData | undefined, wizard: {
@@ -10,6 +10,7 @@ export function buildStructuredContext(captured: CapturedData | undefined, wizar
   location?: string;
   projectTopic?: string;
   materials?: string;
+  rulePackId?: string;
 }): string {
   const bigIdea = captured?.ideation?.bigIdea || '(not yet set)';
   const eq = captured?.ideation?.essentialQuestion || '(not yet set)';
@@ -23,8 +24,7 @@ export function buildStructuredContext(captured: CapturedData | undefined, wizar
   const phases = captured?.journey?.phases || [];
   const phaseLines = phases.map((p, i) => `  ${i + 1}. ${p.name} — activities: ${(p.activities || []).join('; ')}`).join('\n');
 
-  const resolved = resolveGradeBand(wizard.gradeLevel);
-  const gradeLines = resolved ? buildGradeBandPrompt(resolved) : null;
+  const gradeLines = buildGradeBandGuidance(wizard);
 
   return [
     'PROJECT CONTEXT',
@@ -53,6 +53,7 @@ interface BuildStagePromptArgs {
     location?: string;
     projectTopic?: string;
     materials?: string;
+    rulePackId?: string;
   };
   captured?: CapturedData;
   userInput: string;
@@ -204,8 +205,7 @@ export function buildStagePrompt({
   const subjects = wizard.subjects?.length ? wizard.subjects.join(', ') : 'Not specified';
   const duration = wizard.duration || 'Not specified';
   const gradeLevel = wizard.gradeLevel || 'Not specified';
-  const resolvedGradeBand = resolveGradeBand(wizard.gradeLevel);
-  const gradeBandGuidance = resolvedGradeBand ? buildGradeBandPrompt(resolvedGradeBand) : null;
+  const gradeBandGuidance = buildGradeBandGuidance(wizard);
   const location = wizard.location || 'Not specified';
   const topic = wizard.projectTopic || 'Not specified';
   const materials = wizard.materials || 'Not specified';
@@ -289,18 +289,31 @@ interface BuildCorrectionPromptArgs {
     gradeLevel?: string;
     duration?: string;
     projectTopic?: string;
+    rulePackId?: string;
   };
   userInput: string;
   reason: string;
+  expectedFormat?: string; // When set, userInput is our own JSON output that failed validation
 }
 
-export function buildCorrectionPrompt({ stage, wizard, userInput, reason }: BuildCorrectionPromptArgs): string {
+export function buildCorrectionPrompt({ stage, wizard, userInput, reason, expectedFormat }: BuildCorrectionPromptArgs): string {
   const config = STAGE_COACHING[stage];
   const subjects = wizard.subjects?.length ? wizard.subjects.join(', ') : 'their subject area';
   const grade = wizard.gradeLevel || 'their students';
   const topic = wizard.projectTopic || 'the project focus';
-  const resolvedGradeBand = resolveGradeBand(wizard.gradeLevel);
-  const gradeBandGuidance = resolvedGradeBand ? buildGradeBandPrompt(resolvedGradeBand) : null;
+  const gradeBandGuidance = buildGradeBandGuidance(wizard);
+
+  if (expectedFormat) {
+    return [
+      'You are ALF Coach repairing your own structured output for an educator.',
+      `Stage: ${stage}.`,
+      `Context: Subjects ${subjects}; Grade ${grade}; Topic ${topic}.`,
+      `Previous response:\n${userInput.trim() || '(blank)'}`,
+      `Validation errors: ${reason}.`,
+      `Required JSON shape:\n${expectedFormat}`,
+      'Return ONLY the corrected JSON. Keep every valid item, fix only what the validation errors describe, and do not add commentary or code fences.'
+    ].join('\n\n');
+  }
 
   return [
     'You are ALF Coach. Offer constructive, respectful guidance to a fellow educator.',
@@ -326,6 +339,7 @@ export function buildSuggestionPrompt({
     gradeLevel?: string;
     duration?: string;
     projectTopic?: string;
+    rulePackId?: string;
   };
   captured: CapturedData;
 }): string {
@@ -334,8 +348,7 @@ export function buildSuggestionPrompt({
   const grade = wizard.gradeLevel || 'your students';
   const topic = wizard.projectTopic || 'your project focus';
   const snapshot = summarizeCaptured({ wizard, captured, stage });
-  const resolvedGradeBand = resolveGradeBand(wizard.gradeLevel);
-  const gradeBandGuidance = resolvedGradeBand ? buildGradeBandPrompt(resolvedGradeBand) : null;
+  const gradeBandGuidance = buildGradeBandGuidance(wizard);
   const structured = buildStructuredContext(captured, wizard);
 
   return [
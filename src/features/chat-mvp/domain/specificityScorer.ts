@@ -14,10 +14,12 @@ function hasAudience(text: string, band: GradeBandKey | null): boolean {
     'principal', 'librarian', 'custodian', 'coordinator', 'club', 'committee', 'agency', 'department',
   ];
   const bandHints: Record<GradeBandKey, string[]> = {
+    'Pre-K': ['families', 'friends', 'class', 'teachers', 'visitors'],
     'K-2': ['families', 'classmates', 'school', 'grade'],
     '3-5': ['families', 'classmates', 'school', 'grade', 'librarian', 'custodian'],
     '6-8': ['student government', 'council', 'principal', 'community'],
-    '9-12': ['city council', 'department', 'nonprofit', 'clients']
+    '9-12': ['city council', 'department', 'nonprofit', 'clients'],
+    'Post-Secondary': ['employer', 'client', 'advisory board', 'industry partner', 'small business', 'patients', 'customers']
   };
   const tokens = text.toLowerCase();
   if (common.some(w => tokens.includes(w))) {return true;}
@@ -33,12 +35,18 @@ function hasDeliverable(text: string, band: GradeBandKey | null): boolean {
   ];
   const tokens = text.toLowerCase();
   if (nouns.some(n => tokens.includes(n))) {return true;}
+  if (band === 'Pre-K') {
+    return /(mural|block|garden|photo board|big ?book|song|open house|documentation)/i.test(tokens);
+  }
   if (band === 'K-2') {
     return /(poster|storybook|gallery|show|song|model|class museum)/i.test(tokens);
   }
   if (band === '3-5') {
     return /(poster|video|prototype|installation|how-?to|guide|slideshow)/i.test(tokens);
   }
+  if (band === 'Post-Secondary') {
+    return /(capstone|deliverable|service plan|build|design|certification|credential|business plan|case study)/i.test(tokens);
+  }
   return false;
 }
 
@@ -78,39 +86,42 @@ export function scoreIdeationSpecificity(stage: 'BIG_IDEA' | 'ESSENTIAL_QUESTION
   return { score: Math.min(100, score), missing };
 }
 
+// Chips per missing slot; a project without a resolvable band gets the 9-12 chips
+const CHALLENGE_CHIPS: Record<IdeationSlot, Record<GradeBandKey, string[]>> = {
+  audience: {
+    'Pre-K': ['Our families', 'The class next door', 'School helpers'],
+    'K-2': ['Families', 'Our grade level', 'Classmates'],
+    '3-5': ['Families', 'School librarian', 'Custodian team'],
+    '6-8': ['Student government', 'Facilities manager', 'PTA'],
+    '9-12': ['Facilities director', 'City council committee', 'Local nonprofit partner'],
+    'Post-Secondary': ['Employer partner', 'Program advisory board', 'Local small business']
+  },
+  deliverable: {
+    'Pre-K': ['Class mural', 'Block city', 'Photo story for families'],
+    'K-2': ['Class museum', 'Storybook', 'Photo gallery'],
+    '3-5': ['Explainer poster', 'How-to guide', 'Prototype'],
+    '6-8': ['Video PSA', 'Prototype', 'Action plan'],
+    '9-12': ['Policy brief', 'Prototype', 'Client presentation'],
+    'Post-Secondary': ['Client deliverable', 'Technical build', 'Capstone portfolio']
+  },
+  metric: {
+    'Pre-K': ['Show 3 families', 'Try it 3 times', 'Photos before and after'],
+    'K-2': ['Count X for 3 days', 'Share with 2 classes', '3-photo reflection'],
+    '3-5': ['Survey 30 peers', 'Reduce waste by 15%', '2 feedback cycles'],
+    '6-8': ['Reduce by 20%', 'Reach 100 viewers', 'Weekly data log'],
+    '9-12': ['Reduce by 30%', 'Reach 200+ audience', 'Pre/post metric'],
+    'Post-Secondary': ['Client sign-off', 'Meets industry standard', 'Skills checklist passed']
+  }
+};
+
+const SLOT_QUESTIONS: Record<IdeationSlot, string> = {
+  audience: 'Who is the most specific audience that benefits?',
+  deliverable: 'What tangible thing will students produce?',
+  metric: 'How will success be measured?'
+};
+
 export function nextQuestionFor(stage: 'BIG_IDEA' | 'ESSENTIAL_QUESTION' | 'CHALLENGE', missing: IdeationSlot[], band: GradeBandKey | null): { question: string; chips: string[] } | null {
   if (stage !== 'CHALLENGE' || missing.length === 0) {return null;}
   const m = missing[0];
-  if (m === 'audience') {
-    const chips = band === 'K-2'
-      ? ['Families', 'Our grade level', 'Classmates']
-      : band === '3-5'
-        ? ['Families', 'School librarian', 'Custodian team']
-        : band === '6-8'
-          ? ['Student government', 'Facilities manager', 'PTA']
-          : ['Facilities director', 'City council committee', 'Local nonprofit partner'];
-    return { question: 'Who is the most specific audience that benefits?', chips };
-  }
-  if (m === 'deliverable') {
-    const chips = band === 'K-2'
-      ? ['Class museum', 'Storybook', 'Photo gallery']
-      : band === '3-5'
-        ? ['Explainer poster', 'How-to guide', 'Prototype']
-        : band === '6-8'
-          ? ['Video PSA', 'Prototype', 'Action plan']
-          : ['Policy brief', 'Prototype', 'Client presentation'];
-    return { question: 'What tangible thing will students produce?', chips };
-  }
-  if (m === 'metric') {
-    const chips = band === 'K-2'
-      ? ['Count X for 3 days', 'Share with 2 classes', '3-photo reflection']
-      : band === '3-5'
-        ? ['Survey 30 peers', 'Reduce waste by 15%', '2 feedback cycles']
-        : band === '6-8'
-          ? ['Reduce by 20%', 'Reach 100 viewers', 'Weekly data log']
-          : ['Reduce by 30%', 'Reach 200+ audience', 'Pre/post metric'];
-    return { question: 'How will success be measured?', chips };
-  }
-  return null;
+  return { question: SLOT_QUESTIONS[m], chips: CHALLENGE_CHIPS[m][band ?? '9-12'] };
 }
-
@@ -1,4 +1,6 @@
 // Minimal stage domain for ChatMVP
+import { DEFAULT_LOCALE, translate, translateList, type Locale } from '../../../i18n';
+
 export type Stage = 'BIG_IDEA' | 'ESSENTIAL_QUESTION' | 'CHALLENGE' | 'JOURNEY' | 'DELIVERABLES';
 
 export interface CapturedData {
@@ -24,6 +26,8 @@ export type WizardContext = {
   duration?: string;
   location?: string;
   projectTopic?: string;
+  studentLanguage?: Locale;
+  rulePackId?: string; // school rule pack (ai/rulePacks) chosen for the project
 };
 
 const SMALL_WORDS = new Set(['and', 'or', 'the', 'to', 'for', 'with', 'of', 'in', 'on', 'at', 'a', 'an']);
@@ -260,74 +264,18 @@ export function nextStage(current: Stage): Stage | null {
   return stageOrder[i + 1];
 }
 
-export function stageGuide(stage: Stage): { what: string; why: string; tip: string } {
-  switch (stage) {
-    case 'BIG_IDEA':
-      return {
-        what: 'Define the Big Idea — a transferable concept that anchors the project.',
-        why: 'It keeps work meaningful and coherent, and guides every decision that follows.',
-        tip: 'Write a short, strong concept; we can refine language later.'
-      };
-    case 'ESSENTIAL_QUESTION':
-      return {
-        what: 'Shape an Essential Question that invites sustained inquiry.',
-        why: 'A powerful EQ drives curiosity and connects the Big Idea to action.',
-        tip: 'Make it open-ended, debate-worthy, and tied to your Big Idea.'
-      };
-    case 'CHALLENGE':
-      return {
-        what: 'Define an authentic Challenge for a real audience.',
-        why: 'It creates purpose and raises quality by bringing work to the world.',
-        tip: 'Name the audience and outcome; keep scope achievable in your timeframe.'
-      };
-    case 'JOURNEY':
-      return {
-        what: 'Outline phases (Analyze → Brainstorm → Prototype → Evaluate) with key activities.',
-        why: 'A clear journey builds momentum and manages complexity.',
-        tip: '3–4 phases are enough. One or two activities per phase.'
-      };
-    case 'DELIVERABLES':
-      return {
-        what: 'List final artifacts, 3+ milestones, and a simple rubric.',
-        why: 'Clarity on outcomes and quality supports student success.',
-        tip: 'Aim for 1–3 artifacts, 3+ milestones, and 3–6 rubric criteria.'
-      };
-  }
-}
-
-export function stageSuggestions(stage: Stage): string[] {
-  switch (stage) {
-    case 'BIG_IDEA':
-      return [
-        'How systems change over time',
-        'How innovation emerges from constraints',
-        'The relationship between people and place'
-      ];
-    case 'ESSENTIAL_QUESTION':
-      return [
-        'How might we reduce local waste?',
-        'What makes a solution fair for everyone?',
-        'How do policies shape everyday choices?'
-      ];
-    case 'CHALLENGE':
-      return [
-        'Design an evidence-based proposal for city council',
-        'Prototype a solution for a school exhibition',
-        'Produce a community resource to shift behaviors'
-      ];
-    case 'JOURNEY':
-      return [
-        'List 3–4 phases (Analyze → Brainstorm → Prototype → Evaluate)',
-        'Add 1–2 activities to each phase',
-        'Name 3 helpful resources'
-      ];
-    case 'DELIVERABLES':
-      return [
-        'List 3+ milestones with names',
-        'Name 1–3 final artifacts',
-        'List 3–6 rubric criteria'
-      ];
-  }
+// Guides and starter suggestions come from the UI catalogs; prompts keep the
+// English default so the model always sees the same instructions
+export function stageGuide(stage: Stage, locale: Locale = DEFAULT_LOCALE): { what: string; why: string; tip: string } {
+  return {
+    what: translate(locale, `stages.${stage}.what`),
+    why: translate(locale, `stages.${stage}.why`),
+    tip: translate(locale, `stages.${stage}.tip`)
+  };
+}
+
+export function stageSuggestions(stage: Stage, locale: Locale = DEFAULT_LOCALE): string[] {
+  return translateList(locale, `stages.${stage}.suggestions`);
 }
 
 
@@ -613,7 +561,7 @@ function classifyDeliverableItem(item: string): 'milestone' | 'artifact' | 'crit
   return 'milestone';
 }
 
-function parseDeliverables(value: string) {
+export function parseDeliverables(value: string) {
   const items = parseList(value);
   const milestones: { name: string }[] = [];
   const artifacts: { name: string }[] = [];
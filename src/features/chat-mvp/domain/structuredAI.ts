@@ -0,0 +1,136 @@
+/**
+ * Structured AI Output
+ *
+ * Requests JSON from the active provider and validates it against a zod schema.
+ *
+ * Paths (on the result and in telemetry metadata.path; 'ai_structured' events
+ * for schema/corrected, 'ai_fallback' for heuristic/failed):
+ * - 'schema'    first response validated
+ * - 'corrected' a re-prompt with the validation errors produced valid JSON
+ * - 'heuristic' all attempts failed validation; the caller's lenient parser recovered data
+ * - 'failed'    nothing usable (including transport failures)
+ */
+
+import type { z } from 'zod';
+import { generateAI, type GenerateAIOptions } from './ai';
+import { buildCorrectionPrompt } from './prompt';
+import type { Stage, WizardContext } from './stages';
+import { telemetry } from '../../../services/telemetry';
+
+export type StructuredPath = 'schema' | 'corrected' | 'heuristic' | 'failed';
+
+export interface StructuredAIRequest<T> {
+  prompt: string;
+  schema: z.ZodType<T>;
+  expectedFormat: string;          // JSON shape shown to the model on correction
+  stage: Stage;
+  wizard: WizardContext;
+  heuristic: (raw: string) => T | null;
+  maxCorrections?: number;         // Re-prompts after the first attempt (default 2)
+  options?: Omit<GenerateAIOptions, 'json'>;
+}
+
+export interface StructuredAIResult<T> {
+  data: T | null;
+  path: StructuredPath;
+  attempts: number;                // Model calls made
+  issues: string[];                // Validation errors from the last rejected attempt
+}
+
+const DEFAULT_MAX_CORRECTIONS = 2;
+
+/**
+ * Human-readable zod issues, e.g. "[1].activities: Too small: expected array to have >=2 items".
+ */
+export function formatSchemaIssues(error: z.ZodError): string[] {
+  return error.issues.slice(0, 8).map(issue => {
+    const path = issue.path.reduce<string>((acc, key) => (
+      typeof key === 'number' ? `${acc}[${key}]` : acc ? `${acc}.${String(key)}` : String(key)
+    ), '');
+    return `${path || '(root)'}: ${issue.message}`;
+  });
+}
+
+/**
+ * Parse JSON, tolerating prose around a single array/object.
+ */
+export function parseLooseJSON(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    const block = raw.match(/(\[[\s\S]*\]|\{[\s\S]*\})/);
+    if (!block) {return undefined;}
+    try {
+      return JSON.parse(block[1]);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+function validate<T>(schema: z.ZodType<T>, raw: string): { data: T } | { issues: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    return { issues: [`(root): response is not valid JSON (${e instanceof Error ? e.message : String(e)})`] };
+  }
+  const result = schema.safeParse(parsed);
+  return result.success ? { data: result.data } : { issues: formatSchemaIssues(result.error) };
+}
+
+export async function generateStructuredAI<T>(request: StructuredAIRequest<T>): Promise<StructuredAIResult<T>> {
+  const maxCorrections = request.maxCorrections ?? DEFAULT_MAX_CORRECTIONS;
+  const label = request.options?.label || 'structured';
+  const started = Date.now();
+
+  let raw = await generateAI(request.prompt, { ...request.options, json: true });
+  let lastRaw = raw; // Last non-empty response, for the heuristic if a re-prompt fails outright
+  let attempts = 1;
+  let issues: string[] = [];
+  let outcome: StructuredAIResult<T> | null = null;
+
+  while (raw) {
+    const checked = validate(request.schema, raw);
+    if ('data' in checked) {
+      outcome = { data: checked.data, path: attempts === 1 ? 'schema' : 'corrected', attempts, issues: [] };
+      break;
+    }
+    issues = checked.issues;
+    if (attempts > maxCorrections) {break;}
+
+    console.warn(`[StructuredAI] ${label} failed validation (attempt ${attempts}), re-prompting`, issues);
+    const correction = buildCorrectionPrompt({
+      stage: request.stage,
+      wizard: request.wizard,
+      userInput: raw,
+      reason: issues.join('; '),
+      expectedFormat: request.expectedFormat
+    });
+    raw = await generateAI(correction, {
+      ...request.options,
+      json: true,
+      history: [{ role: 'user', content: request.prompt }]
+    });
+    attempts++;
+    lastRaw = raw || lastRaw;
+  }
+
+  if (!outcome) {
+    const recovered = lastRaw ? request.heuristic(lastRaw) : null;
+    outcome = { data: recovered, path: recovered ? 'heuristic' : 'failed', attempts, issues };
+  }
+
+  telemetry.track({
+    event: outcome.path === 'schema' || outcome.path === 'corrected' ? 'ai_structured' : 'ai_fallback',
+    success: outcome.data !== null,
+    latencyMs: Date.now() - started,
+    projectId: label,
+    errorCode: outcome.path === 'failed' ? 'STRUCTURED_FAIL' : outcome.path === 'heuristic' ? 'SCHEMA_FAIL' : undefined,
+    errorMessage: outcome.issues.length ? outcome.issues.join('; ') : undefined,
+    source: undefined,
+    metadata: { path: outcome.path, attempts: outcome.attempts }
+  });
+
+  return outcome;
+}
@@ -0,0 +1,190 @@
+/**
+ * Suggestion Ranking
+ *
+ * Learns from what teachers do with suggestion chips. Each chip that is shown
+ * ends up selected, modified (picked or typed, then reworded) or ignored
+ * (a sibling was picked, or a fresh batch replaced it). Those outcomes are
+ * scored per stage and grade band:
+ *
+ * - Outcomes for the same text count fully; similar texts (token overlap)
+ *   count by how similar they are, so AI wording changes still learn
+ * - Outcomes from another grade band count half
+ * - Scores are smoothed toward one pick in three (a typical batch), so one
+ *   ignored chip doesn't bury a suggestion
+ *
+ * rankSuggestions() drops duplicates and near-duplicates, then reorders by
+ * score (ties keep the original order) and pushes chips the teacher already
+ * picked in the last 10 minutes to the back.
+ */
+
+import type { Stage } from './stages';
+import type { GradeBandKey } from '../../../ai/gradeBandRules';
+
+export type SuggestionEventType = 'shown' | 'selected' | 'modified' | 'ignored';
+export type SuggestionSource = 'ai' | 'template';
+
+export interface SuggestionEvent {
+  type: SuggestionEventType;
+  stage: Stage;
+  gradeBand: GradeBandKey | null;
+  text: string;
+  source: SuggestionSource;
+  timestamp: number;
+  modification?: string;
+}
+
+export interface SuggestionStats {
+  stage: Stage;
+  gradeBand: GradeBandKey | null;
+  shown: number;
+  selected: number;
+  modified: number;
+  ignored: number;
+  acceptanceRate: number; // 0-100, selected + modified over resolved
+  topAccepted: string[];
+}
+
+export interface RankOptions {
+  stage: Stage;
+  gradeBand: GradeBandKey | null;
+  limit?: number;
+  now?: number;
+}
+
+const OUTCOME_VALUE: Partial<Record<SuggestionEventType, number>> = {
+  selected: 1,
+  modified: 0.75,
+  ignored: 0
+};
+
+const SIMILAR_THRESHOLD = 0.5;
+const DUPLICATE_THRESHOLD = 0.8;
+const PRIOR_WEIGHT = 2;
+const PRIOR = 1 / 3;
+const OTHER_BAND_WEIGHT = 0.5;
+const RECENT_PICK_MS = 10 * 60 * 1000;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'our', 'your', 'their', 'how', 'what',
+  'can', 'will', 'are', 'was', 'who', 'why', 'they', 'them', 'about', 'its', 'has', 'have', 'use'
+]);
+
+export function normalizeSuggestion(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[“”"‘’'`]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function tokens(text: string): Set<string> {
+  return new Set(normalizeSuggestion(text).split(' ').filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+}
+
+/**
+ * Token overlap (Jaccard) between two suggestions, 1 for the same normalized text.
+ */
+export function suggestionSimilarity(a: string, b: string): number {
+  if (normalizeSuggestion(a) === normalizeSuggestion(b)) {return 1;}
+  const left = tokens(a);
+  const right = tokens(b);
+  if (left.size === 0 || right.size === 0) {return 0;}
+  let shared = 0;
+  left.forEach(word => {
+    if (right.has(word)) {shared++;}
+  });
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Drop repeats and near-repeats, keeping the first wording.
+ */
+export function dedupeSuggestions(texts: string[]): string[] {
+  const kept: string[] = [];
+  texts.forEach(text => {
+    if (!text.trim()) {return;}
+    if (kept.some(existing => suggestionSimilarity(existing, text) >= DUPLICATE_THRESHOLD)) {return;}
+    kept.push(text);
+  });
+  return kept;
+}
+
+/**
+ * Smoothed acceptance score (0-1) for one suggestion given past outcomes.
+ */
+export function scoreSuggestion(text: string, events: SuggestionEvent[], options: Pick<RankOptions, 'stage' | 'gradeBand'>): number {
+  let value = 0;
+  let weight = 0;
+
+  events.forEach(event => {
+    const outcome = OUTCOME_VALUE[event.type];
+    if (event.stage !== options.stage || outcome === undefined) {return;}
+    const similarity = suggestionSimilarity(text, event.text);
+    if (similarity < SIMILAR_THRESHOLD) {return;}
+    const bandWeight = event.gradeBand === options.gradeBand ? 1 : OTHER_BAND_WEIGHT;
+    value += outcome * similarity * bandWeight;
+    weight += similarity * bandWeight;
+  });
+
+  return (value + PRIOR * PRIOR_WEIGHT) / (weight + PRIOR_WEIGHT);
+}
+
+/**
+ * De-duplicate and reorder chips by how often similar ones were accepted.
+ */
+export function rankSuggestions(texts: string[], events: SuggestionEvent[], options: RankOptions): string[] {
+  const unique = dedupeSuggestions(texts);
+  const now = options.now ?? Date.now();
+  const recentPicks = events.filter(event =>
+    event.stage === options.stage &&
+    (event.type === 'selected' || event.type === 'modified') &&
+    now - event.timestamp < RECENT_PICK_MS
+  );
+
+  const ranked = unique
+    .map((text, index) => ({
+      text,
+      index,
+      repeat: recentPicks.some(event => normalizeSuggestion(event.text) === normalizeSuggestion(text)),
+      score: scoreSuggestion(text, events, options)
+    }))
+    .sort((a, b) => Number(a.repeat) - Number(b.repeat) || b.score - a.score || a.index - b.index)
+    .map(item => item.text);
+
+  return typeof options.limit === 'number' ? ranked.slice(0, options.limit) : ranked;
+}
+
+/**
+ * Counts per stage and grade band for the debug dashboard.
+ */
+export function summarizeSuggestionEvents(events: SuggestionEvent[]): SuggestionStats[] {
+  const groups = new Map<string, SuggestionStats & { accepted: Map<string, { text: string; count: number }> }>();
+
+  events.forEach(event => {
+    const key = `${event.stage}|${event.gradeBand ?? ''}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { stage: event.stage, gradeBand: event.gradeBand, shown: 0, selected: 0, modified: 0, ignored: 0, acceptanceRate: 0, topAccepted: [], accepted: new Map() };
+      groups.set(key, group);
+    }
+    group[event.type]++;
+    if (event.type === 'selected' || event.type === 'modified') {
+      const textKey = normalizeSuggestion(event.text);
+      const entry = group.accepted.get(textKey) ?? { text: event.text, count: 0 };
+      entry.count++;
+      group.accepted.set(textKey, entry);
+    }
+  });
+
+  return Array.from(groups.values()).map(({ accepted, ...stats }) => {
+    const resolved = stats.selected + stats.modified + stats.ignored;
+    return {
+      ...stats,
+      acceptanceRate: resolved ? Math.round(((stats.selected + stats.modified) / resolved) * 100) : 0,
+      topAccepted: Array.from(accepted.values())
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 3)
+        .map(entry => entry.text)
+    };
+  });
+}
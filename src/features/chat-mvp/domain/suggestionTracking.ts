@@ -2,9 +2,27 @@
  * Suggestion Tracking System
  * Stores lightbulb suggestions separately from chat history
  * Allows direct capture without validation
+ *
+ * Learning:
+ * - Chips the teacher sees are recorded as 'shown'; each batch later resolves
+ *   to one 'selected'/'modified' chip and 'ignored' siblings
+ * - Events are persisted per user ('suggestions' store in alf-coach-db,
+ *   key `events:<userId>`, newest 1000 kept) and feed rankSuggestions()
+ * - Teachers can opt out; opting out stops recording and deletes the history
  */
 
 import type { Stage } from './stages';
+import { idb } from '../../../services/IndexedDBStore';
+import { resolveGradeBand, type GradeBandKey } from '../../../ai/gradeBandRules';
+import {
+  normalizeSuggestion,
+  rankSuggestions,
+  suggestionSimilarity,
+  summarizeSuggestionEvents,
+  type SuggestionEvent,
+  type SuggestionSource,
+  type SuggestionStats
+} from './suggestionRanking';
 
 export interface TrackedSuggestion {
   id: string;
@@ -21,12 +39,73 @@ export interface SuggestionSelection {
   userModification?: string;
 }
 
-class SuggestionTracker {
+export interface SuggestionKeyValue {
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+export interface SuggestionTrackerOptions {
+  backend?: SuggestionKeyValue;
+  resolveUserId?: () => Promise<string | undefined>;
+  maxEvents?: number;
+  now?: () => number;
+}
+
+interface ShownBatch {
+  texts: string[];
+  source: SuggestionSource;
+}
+
+const STORE = 'suggestions';
+const ANONYMOUS_USER = 'anonymous';
+const OPT_OUT_KEY = 'alf_suggestion_learning';
+// A typed answer this close to a shown chip counts as a reworded pick
+const MODIFIED_THRESHOLD = 0.5;
+
+const historyKey = (userId: string) => `events:${userId}`;
+
+function createMemoryBackend(): SuggestionKeyValue {
+  const data = new Map<string, unknown>();
+  return {
+    async get<T>(key: string) {return (data.has(key) ? data.get(key) as T : null);},
+    async set(key, value) {data.set(key, value);},
+    async remove(key) {data.delete(key);}
+  };
+}
+
+function createIdbBackend(): SuggestionKeyValue {
+  return {
+    get: <T>(key: string) => idb.get<T>(STORE, key),
+    set: (key, value) => idb.set(STORE, key, value),
+    remove: (key) => idb.remove(STORE, key)
+  };
+}
+
+export class SuggestionTracker {
   private suggestions: Map<string, TrackedSuggestion> = new Map();
   private recentSuggestionsByStage: Map<Stage, string[]> = new Map();
   private selections: SuggestionSelection[] = [];
   private maxHistoryPerStage = 10; // Keep last 10 suggestions per stage
 
+  private readonly backend: SuggestionKeyValue;
+  private readonly resolveUserId: () => Promise<string | undefined>;
+  private readonly maxEvents: number;
+  private readonly now: () => number;
+  private events: SuggestionEvent[] = [];
+  private loadedUserId: string | null = null;
+  private shownByStage: Map<Stage, ShownBatch> = new Map();
+  private gradeBand: GradeBandKey | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: SuggestionTrackerOptions = {}) {
+    this.backend = options.backend
+      ?? (typeof indexedDB === 'undefined' ? createMemoryBackend() : createIdbBackend());
+    this.resolveUserId = options.resolveUserId ?? defaultUserId;
+    this.maxEvents = options.maxEvents ?? 1000;
+    this.now = options.now ?? Date.now;
+  }
+
   /**
    * Track a new suggestion
    */
@@ -108,6 +187,26 @@ class SuggestionTracker {
     if (this.selections.length > 20) {
       this.selections.shift();
     }
+
+    const suggestion = this.suggestions.get(suggestionId);
+    if (suggestion) {
+      this.resolveShown(suggestion.stage, suggestion.text, userModification, suggestion.source);
+    }
+  }
+
+  /**
+   * Record a chip picked from the UI by its text (chips are not always tracked by id)
+   */
+  recordChoice(stage: Stage, text: string, userModification?: string) {
+    const key = normalizeSuggestion(text);
+    const tracked = (this.recentSuggestionsByStage.get(stage) || [])
+      .map(id => this.suggestions.get(id))
+      .find(suggestion => suggestion && normalizeSuggestion(suggestion.text) === key);
+    if (tracked) {
+      this.recordSelection(tracked.id, userModification);
+    } else {
+      this.resolveShown(stage, text, userModification);
+    }
   }
 
   /**
@@ -139,7 +238,157 @@ class SuggestionTracker {
     this.suggestions.clear();
     this.recentSuggestionsByStage.clear();
     this.selections = [];
+    this.shownByStage.clear();
+  }
+
+  // ---------- Learning ----------
+
+  /**
+   * Grade band for events recorded from now on
+   */
+  setContext(context: { gradeLevel?: string | null }) {
+    this.gradeBand = resolveGradeBand(context.gradeLevel);
+  }
+
+  isLearningEnabled(): boolean {
+    return typeof localStorage === 'undefined' || localStorage.getItem(OPT_OUT_KEY) !== 'off';
+  }
+
+  /**
+   * Opt in or out. Opting out also deletes the stored history.
+   */
+  setLearningEnabled(enabled: boolean): Promise<void> {
+    if (enabled) {
+      localStorage.removeItem(OPT_OUT_KEY);
+      return Promise.resolve();
+    }
+    localStorage.setItem(OPT_OUT_KEY, 'off');
+    this.shownByStage.clear();
+    return this.clearHistory();
+  }
+
+  /**
+   * Chips the teacher can see. Replacing a batch for the same stage before
+   * anything was picked marks the previous chips ignored.
+   */
+  recordShown(stage: Stage, texts: string[], source: SuggestionSource = 'template') {
+    if (!this.isLearningEnabled() || texts.length === 0) {return;}
+    const previous = this.shownByStage.get(stage);
+    if (previous && previous.texts.join('\n') === texts.join('\n')) {return;}
+    const events = previous ? previous.texts.map(text => this.event('ignored', stage, text, previous.source)) : [];
+    this.shownByStage.set(stage, { texts: [...texts], source });
+    this.append([...events, ...texts.map(text => this.event('shown', stage, text, source))]);
   }
+
+  /**
+   * A typed answer that rewords a shown chip counts as 'modified'.
+   * Returns true when it matched a chip.
+   */
+  recordTypedInput(stage: Stage, text: string): boolean {
+    const batch = this.shownByStage.get(stage);
+    if (!batch) {return false;}
+    const match = batch.texts
+      .map(chip => ({ chip, similarity: suggestionSimilarity(chip, text) }))
+      .sort((a, b) => b.similarity - a.similarity)[0];
+    if (!match || match.similarity < MODIFIED_THRESHOLD) {return false;}
+    this.resolveShown(stage, match.chip, text, batch.source);
+    return true;
+  }
+
+  /**
+   * Reorder and de-duplicate chips using the loaded history (or a snapshot
+   * from getEvents()). Without learning (or history) this only drops duplicates.
+   */
+  rank(stage: Stage, texts: string[], limit?: number, history: SuggestionEvent[] = this.events): string[] {
+    const events = this.isLearningEnabled() ? history : [];
+    return rankSuggestions(texts, events, { stage, gradeBand: this.gradeBand, limit, now: this.now() });
+  }
+
+  /**
+   * Load the current user's history; call again after sign-in changes.
+   */
+  load(): Promise<void> {
+    return this.serialize(() => this.loadUnqueued());
+  }
+
+  getEvents(): Promise<SuggestionEvent[]> {
+    return this.serialize(async () => {
+      await this.loadUnqueued();
+      return [...this.events];
+    });
+  }
+
+  async getStats(): Promise<SuggestionStats[]> {
+    return summarizeSuggestionEvents(await this.getEvents());
+  }
+
+  clearHistory(): Promise<void> {
+    return this.serialize(async () => {
+      await this.loadUnqueued();
+      this.events = [];
+      await this.backend.remove(historyKey(this.loadedUserId ?? ANONYMOUS_USER));
+    });
+  }
+
+  // Private helper methods
+
+  private event(type: SuggestionEvent['type'], stage: Stage, text: string, source: SuggestionSource, modification?: string): SuggestionEvent {
+    return {
+      type,
+      stage,
+      gradeBand: this.gradeBand,
+      text,
+      source,
+      timestamp: this.now(),
+      ...(modification ? { modification } : {})
+    };
+  }
+
+  private resolveShown(stage: Stage, text: string, userModification?: string, source?: SuggestionSource) {
+    if (!this.isLearningEnabled()) {return;}
+    const batch = this.shownByStage.get(stage);
+    const key = normalizeSuggestion(text);
+    const modified = Boolean(userModification) && normalizeSuggestion(userModification ?? '') !== key;
+    const chosen = this.event(modified ? 'modified' : 'selected', stage, text, source ?? batch?.source ?? 'template', modified ? userModification : undefined);
+    let ignored: SuggestionEvent[] = [];
+    if (batch?.texts.some(chip => normalizeSuggestion(chip) === key)) {
+      ignored = batch.texts.filter(chip => normalizeSuggestion(chip) !== key).map(chip => this.event('ignored', stage, chip, batch.source));
+      this.shownByStage.delete(stage);
+    }
+    this.append([chosen, ...ignored]);
+  }
+
+  private append(events: SuggestionEvent[]) {
+    if (events.length === 0) {return;}
+    this.events = [...this.events, ...events].slice(-this.maxEvents);
+    void this.serialize(async () => {
+      await this.loadUnqueued();
+      await this.backend.set(historyKey(this.loadedUserId ?? ANONYMOUS_USER), this.events);
+    }).catch(error => {
+      console.warn('[SuggestionTracker] Failed to persist suggestion history:', error);
+    });
+  }
+
+  private async loadUnqueued(): Promise<void> {
+    const userId = (await this.resolveUserId().catch(() => undefined)) ?? ANONYMOUS_USER;
+    if (this.loadedUserId === userId) {return;}
+    const stored = (await this.backend.get<SuggestionEvent[]>(historyKey(userId)).catch(() => null)) ?? [];
+    // Events recorded before the first load belong to this user; a different user starts fresh
+    this.events = (this.loadedUserId === null ? [...stored, ...this.events] : stored).slice(-this.maxEvents);
+    this.loadedUserId = userId;
+  }
+
+  // IDB reads and writes interleave across awaits; run one operation at a time
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(operation, operation);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+async function defaultUserId(): Promise<string | undefined> {
+  const { auth } = await import('../../../firebase/firebase');
+  return auth?.currentUser?.uid;
 }
 
 // Singleton instance
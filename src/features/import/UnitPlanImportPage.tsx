@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth.js';
+import {
+  UNIT_PLAN_FIELD_LABELS,
+  confidenceLevel,
+  unitPlanImportService,
+  type ConfidenceLevel,
+  type UnitPlanDraft,
+  type UnitPlanField
+} from '../../services/UnitPlanImportService';
+
+const ACCEPT = '.docx,.pdf,.md,.markdown,.txt';
+
+const levelStyles: Record<ConfidenceLevel, { label: string; className: string }> = {
+  high: { label: 'High confidence', className: 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300' },
+  medium: { label: 'Check this', className: 'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
+  low: { label: 'Not found', className: 'bg-rose-50 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300' }
+};
+
+const inputClass = 'w-full rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const ConfidenceBadge: React.FC<{ value: number }> = ({ value }) => {
+  const style = levelStyles[confidenceLevel(value)];
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`} title={`${Math.round(value * 100)}%`}>
+      {value >= 1 ? 'Edited' : style.label}
+    </span>
+  );
+};
+
+/**
+ * Upload an existing unit plan, review what was detected (with confidence per
+ * field) and create a project from it.
+ */
+const UnitPlanImportPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { userId } = useAuth();
+  const [draft, setDraft] = useState<UnitPlanDraft | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {return;}
+    setIsAnalyzing(true);
+    setError(null);
+    setDraft(null);
+    try {
+      setDraft(await unitPlanImportService.importFile(file));
+    } catch (err) {
+      console.error('[UnitPlanImport] Failed to read unit plan', err);
+      setError(err instanceof Error ? err.message : 'Could not read this file. Please try another.');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const update = <K extends UnitPlanField>(field: K, value: UnitPlanDraft[K]) => {
+    setDraft(prev => (prev ? { ...prev, [field]: value, confidence: { ...prev.confidence, [field]: 1 } } : prev));
+  };
+
+  const handleCreate = async () => {
+    if (!draft) {return;}
+    setIsCreating(true);
+    setError(null);
+    try {
+      const { route } = await unitPlanImportService.createProject(draft, userId || 'anonymous');
+      void navigate(route);
+    } catch (err) {
+      console.error('[UnitPlanImport] Failed to create project', err);
+      setError('Could not save the project. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const fieldLabel = (field: UnitPlanField) => (
+    <div className="flex items-center justify-between gap-2">
+      <label className="text-sm font-medium text-slate-700 dark:text-slate-200" htmlFor={`import-${field}`}>
+        {UNIT_PLAN_FIELD_LABELS[field]}
+      </label>
+      {draft && <ConfidenceBadge value={draft.confidence[field]} />}
+    </div>
+  );
+
+  const textField = (field: 'title' | 'gradeLevel' | 'duration' | 'projectTopic') => draft && (
+    <div className="space-y-2">
+      {fieldLabel(field)}
+      <input id={`import-${field}`} type="text" value={draft[field]} onChange={event => update(field, event.target.value)} className={inputClass} />
+    </div>
+  );
+
+  const areaField = (field: 'bigIdea' | 'essentialQuestion' | 'challenge') => draft && (
+    <div className="space-y-2">
+      {fieldLabel(field)}
+      <textarea id={`import-${field}`} rows={2} value={draft[field]} onChange={event => update(field, event.target.value)} className={inputClass} />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50/30 dark:from-slate-900 dark:via-slate-900 dark:to-blue-900/10">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-16 space-y-8">
+        <header className="text-center space-y-3">
+          <h1 className="text-4xl font-semibold text-slate-900 dark:text-white">Import a unit plan</h1>
+          <p className="text-lg text-slate-600 dark:text-slate-300">
+            Start from a plan you already have. Upload a Word document, a PDF or a Markdown file.
+          </p>
+        </header>
+
+        <section className="bg-white/90 dark:bg-slate-900/80 border border-slate-200/70 dark:border-slate-700 rounded-2xl shadow-sm p-6 space-y-3">
+          <label className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-full bg-primary-600 text-white text-sm font-medium shadow hover:bg-primary-500 transition cursor-pointer">
+            <input type="file" accept={ACCEPT} onChange={event => { void handleFile(event); }} className="sr-only" disabled={isAnalyzing} />
+            {isAnalyzing ? 'Reading your plan…' : draft ? 'Choose a different file' : 'Choose a file'}
+          </label>
+          <p className="text-xs text-slate-500">
+            Scanned PDFs have no text to read; export the plan from Word or Google Docs instead.
+          </p>
+          {draft && (
+            <p className="text-sm text-slate-600 dark:text-slate-300">
+              Read <span className="font-medium">{draft.fileName}</span>
+              {draft.method === 'heuristic' ? ' using its headings and labels (AI mapping unavailable).' : '.'} Check each field before creating the project.
+            </p>
+          )}
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+        </section>
+
+        {draft && (
+          <section className="bg-white/90 dark:bg-slate-900/80 border border-slate-200/70 dark:border-slate-700 rounded-2xl shadow-sm p-6 space-y-6">
+            <h2 className="text-xl font-semibold text-slate-900 dark:text-white">What we found</h2>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {textField('title')}
+              <div className="space-y-2">
+                {fieldLabel('subjects')}
+                <input
+                  id="import-subjects"
+                  type="text"
+                  value={draft.subjects.join(', ')}
+                  onChange={event => update('subjects', event.target.value.split(',').map(item => item.trim()).filter(Boolean))}
+                  className={inputClass}
+                />
+              </div>
+              {textField('gradeLevel')}
+              {textField('duration')}
+            </div>
+            {textField('projectTopic')}
+            {areaField('bigIdea')}
+            {areaField('essentialQuestion')}
+            {areaField('challenge')}
+
+            <div className="space-y-2">
+              {fieldLabel('phases')}
+              {draft.phases.length ? (
+                <ol className="space-y-2">
+                  {draft.phases.map((phase, index) => (
+                    <li key={index} className="rounded-xl border border-slate-200 dark:border-slate-700 p-3 text-sm">
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="font-medium text-slate-800 dark:text-slate-100">{phase.name}</p>
+                        <button
+                          type="button"
+                          onClick={() => update('phases', draft.phases.filter((_, position) => position !== index))}
+                          className="text-xs text-slate-500 hover:text-rose-600"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      {phase.focus && phase.focus !== phase.name && <p className="text-slate-600 dark:text-slate-300">{phase.focus}</p>}
+                      {phase.activities.length > 0 && (
+                        <p className="text-xs text-slate-500">{phase.activities.length} activit{phase.activities.length === 1 ? 'y' : 'ies'}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-sm text-slate-500">No phases found. You can plan the journey after creating the project.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {fieldLabel('assignments')}
+              {draft.assignments.length ? (
+                <ul className="space-y-2">
+                  {draft.assignments.map((item, index) => (
+                    <li key={index} className="rounded-xl border border-slate-200 dark:border-slate-700 p-3 text-sm">
+                      <div className="flex items-start justify-between gap-2">
+                        <p className="font-medium text-slate-800 dark:text-slate-100">{item.title}</p>
+                        <button
+                          type="button"
+                          onClick={() => update('assignments', draft.assignments.filter((_, position) => position !== index))}
+                          className="text-xs text-slate-500 hover:text-rose-600"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      {item.summary && <p className="text-slate-600 dark:text-slate-300">{item.summary}</p>}
+                      {item.phaseIndex !== undefined && draft.phases[item.phaseIndex] && (
+                        <p className="text-xs text-slate-500">In {draft.phases[item.phaseIndex].name}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-500">No assignments found. You can add them in the deliverables stage.</p>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => { void handleCreate(); }}
+                disabled={isCreating}
+                className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-full bg-emerald-600 text-white text-sm font-medium shadow hover:bg-emerald-500 transition disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                {isCreating ? 'Creating…' : 'Create project'}
+              </button>
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UnitPlanImportPage;
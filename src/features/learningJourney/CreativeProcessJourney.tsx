@@ -37,6 +37,7 @@ import {
   ChevronUp,
   Info
 } from 'lucide-react';
+import { toGradeLevel, type GradeLevel } from './types';
 
 // Types for the Creative Process phases
 export type PhaseType = 'ANALYZE' | 'BRAINSTORM' | 'PROTOTYPE' | 'EVALUATE';
@@ -95,7 +96,7 @@ export interface CreativePhase {
 
 export interface CreativeProcessJourneyData {
   projectDuration: number; // in weeks
-  gradeLevel: 'elementary' | 'middle' | 'high';
+  gradeLevel: GradeLevel;
   subject: string;
   bigIdea: string;
   essentialQuestion: string;
@@ -313,6 +314,48 @@ const DEFAULT_PHASES: Omit<CreativePhase, 'duration' | 'objectives' | 'activitie
 // Grade-level specific examples and scaffolding
 const getGradeLevelExamples = (gradeLevel: string, phaseType: PhaseType) => {
   const examples = {
+    early: {
+      ANALYZE: {
+        objectives: [
+          'Notice what lives in our garden bed',
+          'Talk about what we see, hear, and touch'
+        ],
+        activities: [
+          { name: 'Garden Walk', duration: '15 minutes', description: 'Look for bugs, leaves, and worms with magnifying glasses' },
+          { name: 'Show and Tell', duration: '10 minutes', description: 'Share one thing we found while the teacher writes our words' }
+        ]
+      },
+      BRAINSTORM: {
+        objectives: [
+          'Imagine a home for the garden bugs',
+          'Share ideas by drawing and building'
+        ],
+        activities: [
+          { name: 'Bug House Drawings', duration: '15 minutes', description: 'Draw a home a bug might like' },
+          { name: 'Block Play', duration: '20 minutes', description: 'Build bug homes in the block center' }
+        ]
+      },
+      PROTOTYPE: {
+        objectives: [
+          'Make a bug house together',
+          'Try it out in the garden'
+        ],
+        activities: [
+          { name: 'Build Together', duration: '2 center times', description: 'Fill a box with sticks, leaves, and bark' },
+          { name: 'Check Our Bug House', duration: '10 minutes each day', description: 'Look for visitors and take photos' }
+        ]
+      },
+      EVALUATE: {
+        objectives: [
+          'Show our bug house to families',
+          'Remember what we did'
+        ],
+        activities: [
+          { name: 'Family Visit', duration: '20 minutes', description: 'Walk families to the garden and show the bug house' },
+          { name: 'Photo Story', duration: '15 minutes', description: 'Put photos in order and tell the story with the teacher' }
+        ]
+      }
+    },
     elementary: {
       ANALYZE: {
         objectives: [
@@ -462,13 +505,60 @@ const getGradeLevelExamples = (gradeLevel: string, phaseType: PhaseType) => {
           { name: 'Strategic Planning', duration: '2 days', description: 'Create detailed implementation plan for scaling' }
         ]
       }
+    },
+    postsecondary: {
+      ANALYZE: {
+        objectives: [
+          'Gather client requirements for a small-business energy retrofit',
+          'Audit current equipment against code and efficiency standards',
+          'Document constraints: budget, schedule, and permits'
+        ],
+        activities: [
+          { name: 'Client Intake Meeting', duration: '1 session', description: 'Interview the business owner and capture requirements in a brief' },
+          { name: 'Site Audit', duration: '1 week', description: 'Measure loads and inspect equipment with the lab instructor' },
+          { name: 'Code Review', duration: '2 sessions', description: 'Check applicable building and electrical codes' }
+        ]
+      },
+      BRAINSTORM: {
+        objectives: [
+          'Develop retrofit options that meet the client brief',
+          'Compare options on cost, payback, and install time',
+          'Select a recommendation with the client'
+        ],
+        activities: [
+          { name: 'Options Workshop', duration: '1 session', description: 'Generate and sketch three retrofit options in teams' },
+          { name: 'Cost Estimate', duration: '1 week', description: 'Price materials and labor using supplier quotes' },
+          { name: 'Client Review', duration: '1 session', description: 'Present options to the client and agree on one' }
+        ]
+      },
+      PROTOTYPE: {
+        objectives: [
+          'Produce install drawings and a work plan',
+          'Build and test a mock-up in the lab',
+          'Revise to meet inspection criteria'
+        ],
+        activities: [
+          { name: 'Technical Drawings', duration: '1 week', description: 'Create drawings and a bill of materials to industry standard' },
+          { name: 'Lab Mock-up', duration: '2 weeks', description: 'Install and test the system on a training board' },
+          { name: 'Instructor Inspection', duration: '1 session', description: 'Pass a simulated inspection and fix findings' }
+        ]
+      },
+      EVALUATE: {
+        objectives: [
+          'Deliver a client-ready proposal',
+          'Collect client and employer feedback',
+          'Map the work to credential competencies'
+        ],
+        activities: [
+          { name: 'Client Handoff', duration: '1 session', description: 'Present the final proposal and drawings to the client' },
+          { name: 'Advisory Board Review', duration: '1 session', description: 'Industry partners score the work against their standards' },
+          { name: 'Competency Portfolio', duration: '1 week', description: 'Add evidence to the credential portfolio with a reflection' }
+        ]
+      }
     }
   };
 
-  const level = gradeLevel.toLowerCase().includes('elementary') ? 'elementary' :
-                gradeLevel.toLowerCase().includes('middle') ? 'middle' : 'high';
-  
-  return examples[level][phaseType];
+  return examples[toGradeLevel(gradeLevel, 'high')][phaseType];
 };
 
 // Main Component
@@ -499,8 +589,7 @@ export const CreativeProcessJourney: React.FC<CreativeProcessJourneyProps> = ({
 
   const [journeyData, setJourneyData] = useState<CreativeProcessJourneyData>({
     projectDuration,
-    gradeLevel: gradeLevel.toLowerCase().includes('elementary') ? 'elementary' :
-                gradeLevel.toLowerCase().includes('middle') ? 'middle' : 'high',
+    gradeLevel: toGradeLevel(gradeLevel, 'high'),
     subject,
     bigIdea,
     essentialQuestion,
@@ -126,6 +126,25 @@ interface AITutorProps {
 
 // AI response templates by grade level and context
 const AI_RESPONSE_TEMPLATES = {
+  early: {
+    encouragement: [
+      "Look what you made! Tell me about it.",
+      "You kept trying. That's how builders work!",
+      "I love your idea! What could we add?",
+      "You noticed something new. Show a friend!"
+    ],
+    hint: [
+      "Let's look together: {hint}",
+      "It's a little like this: {analogy}",
+      "What happens if we turn it around?",
+      "Remember when we played with {concept}?"
+    ],
+    question_response: [
+      "Great question! Let's find out together.",
+      "Hmm, what do you think?",
+      "Let's look closely and see!"
+    ]
+  },
   elementary: {
     encouragement: [
       "Great job exploring that idea! What else could you try?",
@@ -182,6 +201,25 @@ const AI_RESPONSE_TEMPLATES = {
       "Your question demonstrates critical thinking about complex issues.",
       "That's exactly the kind of inquiry that leads to breakthrough thinking."
     ]
+  },
+  postsecondary: {
+    encouragement: [
+      "This is the kind of work a client or employer would sign off on.",
+      "Your approach reflects professional practice in the field.",
+      "You're connecting the project to real industry constraints. Keep going.",
+      "Your documentation would hold up in a workplace review."
+    ],
+    hint: [
+      "Check this against the industry standard: {hint}",
+      "How would a practitioner handle {context}?",
+      "Which requirement from the client brief does this address?",
+      "What would a {expert_role} flag in a review of this?"
+    ],
+    question_response: [
+      "Good question. That's one to raise with your industry partner too.",
+      "Let's work it through the way it's done on the job.",
+      "That question goes to the core requirements of the project."
+    ]
   }
 };
 
@@ -297,6 +335,13 @@ export const AITutor: React.FC<AITutorProps> = ({
 
     // Identify gaps based on grade level expectations
     const expectedLevels: Record<GradeLevel, Record<string, number>> = {
+      early: {
+        creativity: 50,
+        critical_thinking: 35,
+        collaboration: 50,
+        communication: 40,
+        persistence: 45
+      },
       elementary: {
         creativity: 60,
         critical_thinking: 50,
@@ -317,6 +362,13 @@ export const AITutor: React.FC<AITutorProps> = ({
         collaboration: 75,
         communication: 75,
         persistence: 80
+      },
+      postsecondary: {
+        creativity: 80,
+        critical_thinking: 80,
+        collaboration: 80,
+        communication: 80,
+        persistence: 85
       }
     };
 
@@ -895,14 +947,18 @@ function getSkillInterventions(skill: string, gap: number): string[] {
 function getSkillResources(skill: string, gradeLevel: GradeLevel): string[] {
   const resources: Record<string, Record<GradeLevel, string[]>> = {
     creativity: {
+      early: ['Open-ended loose parts', 'Dress-up and pretend play corner', 'Big paper and chunky crayons'],
       elementary: ['Art supplies for idea sketching', 'Building blocks for 3D thinking', 'Story cubes for inspiration'],
       middle: ['Mind mapping tools', 'Design thinking worksheets', 'Creative problem-solving games'],
-      high: ['Innovation frameworks', 'TRIZ methodology resources', 'Case studies of creative solutions']
+      high: ['Innovation frameworks', 'TRIZ methodology resources', 'Case studies of creative solutions'],
+      postsecondary: ['Industry design briefs', 'Professional portfolio examples', 'Client case studies from the field']
     },
     critical_thinking: {
+      early: ['Sorting and matching games', 'Picture-based "what happens next" cards', 'Simple pattern blocks'],
       elementary: ['Question starter cards', 'Simple logic puzzles', 'Cause and effect games'],
       middle: ['Argument mapping tools', 'Logic puzzle books', 'Debate topics'],
-      high: ['Formal logic resources', 'Cognitive bias awareness', 'Research methodology guides']
+      high: ['Formal logic resources', 'Cognitive bias awareness', 'Research methodology guides'],
+      postsecondary: ['Industry standards and codes', 'Troubleshooting and root-cause guides', 'Professional ethics cases']
     }
   };
   
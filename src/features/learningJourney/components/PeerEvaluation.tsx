@@ -115,6 +115,11 @@ interface PeerEvaluationProps {
 
 // Peer evaluation categories with grade-appropriate language
 const EVALUATION_CATEGORIES: Record<GradeLevel, Array<{ key: string; label: string; description: string }>> = {
+  early: [
+    { key: 'sharing', label: 'Sharing', description: 'Did they share with friends?' },
+    { key: 'helping', label: 'Helping', description: 'Did they help a friend?' },
+    { key: 'trying', label: 'Trying', description: 'Did they keep trying?' }
+  ],
   elementary: [
     { key: 'teamwork', label: 'Teamwork', description: 'How well did they work with others?' },
     { key: 'ideas', label: 'Ideas', description: 'Did they share good ideas?' },
@@ -135,6 +140,13 @@ const EVALUATION_CATEGORIES: Record<GradeLevel, Array<{ key: string; label: stri
     { key: 'communication', label: 'Communication', description: 'Professional and effective dialogue' },
     { key: 'accountability', label: 'Accountability', description: 'Ownership and responsibility' },
     { key: 'leadership', label: 'Leadership', description: 'Strategic thinking and influence' }
+  ],
+  postsecondary: [
+    { key: 'collaboration', label: 'Collaboration', description: 'Workplace-ready teamwork' },
+    { key: 'technical', label: 'Technical Skill', description: 'Work meets industry standards' },
+    { key: 'communication', label: 'Communication', description: 'Clear with teammates and clients' },
+    { key: 'accountability', label: 'Accountability', description: 'Meets deadlines and commitments' },
+    { key: 'professionalism', label: 'Professionalism', description: 'Conduct expected on the job' }
   ]
 };
 
@@ -185,6 +197,12 @@ const RECOGNITION_TYPES: Array<{
 
 // Feedback prompts by grade level
 const FEEDBACK_PROMPTS: Record<GradeLevel, Record<PeerFeedback['type'], string>> = {
+  early: {
+    strength: 'I liked when you...',
+    improvement: 'Next time you could...',
+    question: 'Can you show me...',
+    suggestion: 'Let\'s try...'
+  },
   elementary: {
     strength: 'Something they did really well was...',
     improvement: 'Next time they could try...',
@@ -202,6 +220,12 @@ const FEEDBACK_PROMPTS: Record<GradeLevel, Record<PeerFeedback['type'], string>>
     improvement: 'Constructive feedback for improvement...',
     question: 'Critical question to explore...',
     suggestion: 'Strategic recommendation...'
+  },
+  postsecondary: {
+    strength: 'What would stand out to an employer...',
+    improvement: 'To meet the industry standard...',
+    question: 'How would you handle this on the job...',
+    suggestion: 'A professional practice to adopt...'
   }
 };
 
@@ -237,7 +237,7 @@ const TEMPLATES: Template[] = [
     description: 'Artistic exploration and creative expression',
     category: 'Arts & Humanities',
     icon: Library,
-    gradeLevel: ['elementary', 'middle', 'high'],
+    gradeLevel: ['elementary', 'middle', 'high', 'postsecondary'],
     subjects: ['Visual Arts', 'Music', 'Drama', 'Creative Writing'],
     phases: {
       ANALYZE: {
@@ -385,6 +385,11 @@ const generateAISuggestions = (
   deliverables: Omit<PhaseDeliverable, 'id'>[];
 } => {
   const gradeLevelMap = {
+    early: {
+      complexity: 'concrete',
+      duration: 'shorter',
+      vocabulary: 'everyday'
+    },
     elementary: {
       complexity: 'simple',
       duration: 'shorter',
@@ -399,6 +404,11 @@ const generateAISuggestions = (
       complexity: 'complex',
       duration: 'longer',
       vocabulary: 'advanced'
+    },
+    postsecondary: {
+      complexity: 'industry-level',
+      duration: 'longer',
+      vocabulary: 'professional'
     }
   };
 
@@ -418,7 +428,7 @@ const generateAISuggestions = (
           description: `Explore foundational concepts at ${gradeLevel} level`,
           duration: level.duration === 'shorter' ? '1 class period' : '2 class periods',
           resources: ['Grade-appropriate resources', 'Research tools'],
-          studentChoice: gradeLevel !== 'elementary'
+          studentChoice: gradeLevel !== 'early' && gradeLevel !== 'elementary'
         }
       ],
       deliverables: [
@@ -29,7 +29,8 @@ import {
   type CreativePhase, 
   type PhaseObjective, 
   type PhaseActivity, 
-  type PhaseDeliverable 
+  type PhaseDeliverable,
+  type GradeLevel
 } from '../types';
 
 interface PhasePanelProps {
@@ -38,7 +39,7 @@ interface PhasePanelProps {
   isExpanded: boolean;
   isCurrent: boolean;
   isComplete: boolean;
-  gradeLevel: 'elementary' | 'middle' | 'high';
+  gradeLevel: GradeLevel;
   examples: any; // Will be properly typed in next iteration
   iterationCount: number;
   onToggle: () => void;
@@ -274,6 +274,31 @@ const REPORT_TEMPLATES: ReportTemplate[] = [
 
 // Grade-level specific templates
 const GRADE_LEVEL_TEMPLATES: Record<GradeLevel, Partial<ReportTemplate>[]> = {
+  early: [
+    {
+      id: 'early-learning-story',
+      name: 'Learning Story',
+      description: 'Photo-based story of what the child explored, shared with families',
+      sections: [
+        {
+          id: 'what-we-explored',
+          name: 'What We Explored',
+          description: 'Photos and the child\'s own words from each part of the project',
+          required: true,
+          dataSource: 'progress',
+          visualizations: ['text', 'timeline']
+        },
+        {
+          id: 'growing-skills',
+          name: 'Growing Skills',
+          description: 'Observed steps in sharing, talking and trying again',
+          required: true,
+          dataSource: 'assessments',
+          visualizations: ['badge', 'text']
+        }
+      ]
+    }
+  ],
   elementary: [
     {
       id: 'elementary-progress',
@@ -348,6 +373,31 @@ const GRADE_LEVEL_TEMPLATES: Record<GradeLevel, Partial<ReportTemplate>[]> = {
         }
       ]
     }
+  ],
+  postsecondary: [
+    {
+      id: 'postsecondary-competency',
+      name: 'Competency Record',
+      description: 'Industry-aligned record of demonstrated competencies for program review and job applications',
+      sections: [
+        {
+          id: 'competencies',
+          name: 'Demonstrated Competencies',
+          description: 'Program outcomes and credential skills evidenced in the project',
+          required: true,
+          dataSource: 'assessments',
+          visualizations: ['table', 'badge']
+        },
+        {
+          id: 'client-feedback',
+          name: 'Client & Employer Feedback',
+          description: 'Evaluations from industry partners and peers',
+          required: true,
+          dataSource: 'peers',
+          visualizations: ['text']
+        }
+      ]
+    }
   ]
 };
 
@@ -88,6 +88,12 @@ interface RubricBuilderProps {
 
 // Default performance levels with grade-appropriate language
 const PERFORMANCE_LEVELS: Record<GradeLevel, Record<PerformanceLevel, { label: string; color: string; points: number }>> = {
+  early: {
+    exemplary: { label: 'Wow!', color: 'green', points: 4 },
+    proficient: { label: 'I Did It!', color: 'blue', points: 3 },
+    developing: { label: 'With a Helper', color: 'yellow', points: 2 },
+    beginning: { label: 'Just Starting', color: 'gray', points: 1 }
+  },
   elementary: {
     exemplary: { label: 'Amazing!', color: 'green', points: 4 },
     proficient: { label: 'Great Job!', color: 'blue', points: 3 },
@@ -105,6 +111,12 @@ const PERFORMANCE_LEVELS: Record<GradeLevel, Record<PerformanceLevel, { label: s
     proficient: { label: 'Proficient', color: 'blue', points: 3 },
     developing: { label: 'Developing', color: 'yellow', points: 2 },
     beginning: { label: 'Emerging', color: 'gray', points: 1 }
+  },
+  postsecondary: {
+    exemplary: { label: 'Exceeds Industry Standard', color: 'green', points: 4 },
+    proficient: { label: 'Meets Industry Standard', color: 'blue', points: 3 },
+    developing: { label: 'Approaching Standard', color: 'yellow', points: 2 },
+    beginning: { label: 'Not Yet Competent', color: 'gray', points: 1 }
   }
 };
 
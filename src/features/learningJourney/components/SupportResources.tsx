@@ -80,7 +80,7 @@ const RESOURCES: Resource[] = [
     description: 'Learn how to conduct thorough research and avoid common pitfalls that lead to iterations.',
     type: 'guide',
     phase: 'ANALYZE',
-    gradeLevel: ['middle', 'high'],
+    gradeLevel: ['middle', 'high', 'postsecondary'],
     duration: '15 min read',
     difficulty: 'intermediate',
     tags: ['research', 'planning', 'analysis'],
@@ -94,7 +94,7 @@ const RESOURCES: Resource[] = [
     description: 'A structured template to clearly define your problem before moving forward.',
     type: 'worksheet',
     phase: 'ANALYZE',
-    gradeLevel: ['elementary', 'middle', 'high'],
+    gradeLevel: ['elementary', 'middle', 'high', 'postsecondary'],
     difficulty: 'beginner',
     tags: ['problem-solving', 'planning'],
     downloadUrl: '/templates/problem-definition.pdf',
@@ -108,7 +108,7 @@ const RESOURCES: Resource[] = [
     description: 'Video tutorial on knowing when you have enough information to proceed.',
     type: 'video',
     phase: 'ANALYZE',
-    gradeLevel: ['high'],
+    gradeLevel: ['high', 'postsecondary'],
     duration: '12 min',
     difficulty: 'advanced',
     tags: ['decision-making', 'efficiency'],
@@ -125,7 +125,7 @@ const RESOURCES: Resource[] = [
     description: 'Master various brainstorming methods to generate innovative solutions.',
     type: 'guide',
     phase: 'BRAINSTORM',
-    gradeLevel: ['middle', 'high'],
+    gradeLevel: ['middle', 'high', 'postsecondary'],
     duration: '20 min read',
     difficulty: 'intermediate',
     tags: ['creativity', 'ideation', 'collaboration'],
@@ -139,7 +139,7 @@ const RESOURCES: Resource[] = [
     description: 'Template for systematically evaluating and prioritizing ideas.',
     type: 'template',
     phase: 'BRAINSTORM',
-    gradeLevel: ['middle', 'high'],
+    gradeLevel: ['middle', 'high', 'postsecondary'],
     difficulty: 'intermediate',
     tags: ['evaluation', 'decision-making'],
     downloadUrl: '/templates/idea-matrix.xlsx',
@@ -155,7 +155,7 @@ const RESOURCES: Resource[] = [
     description: 'Build quick, testable prototypes without overcommitting resources.',
     type: 'guide',
     phase: 'PROTOTYPE',
-    gradeLevel: ['high'],
+    gradeLevel: ['high', 'postsecondary'],
     duration: '25 min read',
     difficulty: 'advanced',
     tags: ['prototyping', 'testing', 'iteration'],
@@ -169,7 +169,7 @@ const RESOURCES: Resource[] = [
     description: 'Learn effective testing strategies to identify issues early.',
     type: 'video',
     phase: 'PROTOTYPE',
-    gradeLevel: ['middle', 'high'],
+    gradeLevel: ['middle', 'high', 'postsecondary'],
     duration: '18 min',
     difficulty: 'intermediate',
     tags: ['testing', 'feedback', 'improvement'],
@@ -186,7 +186,7 @@ const RESOURCES: Resource[] = [
     description: 'Structured reflection template to capture learnings and improvements.',
     type: 'worksheet',
     phase: 'EVALUATE',
-    gradeLevel: ['elementary', 'middle', 'high'],
+    gradeLevel: ['elementary', 'middle', 'high', 'postsecondary'],
     difficulty: 'beginner',
     tags: ['reflection', 'assessment', 'learning'],
     downloadUrl: '/templates/reflection-framework.pdf',
@@ -202,7 +202,7 @@ const RESOURCES: Resource[] = [
     description: 'Clear criteria for deciding when iteration is necessary vs. moving forward.',
     type: 'guide',
     phase: 'all',
-    gradeLevel: ['middle', 'high'],
+    gradeLevel: ['middle', 'high', 'postsecondary'],
     iterationType: 'quick_loop',
     duration: '10 min read',
     difficulty: 'intermediate',
@@ -217,7 +217,7 @@ const RESOURCES: Resource[] = [
     description: 'Strategies for handling significant project changes without losing momentum.',
     type: 'video',
     phase: 'all',
-    gradeLevel: ['high'],
+    gradeLevel: ['high', 'postsecondary'],
     iterationType: 'major_pivot',
     duration: '22 min',
     difficulty: 'advanced',
@@ -233,7 +233,7 @@ const RESOURCES: Resource[] = [
     description: 'Ensure your iteration is well-planned and time-boxed.',
     type: 'template',
     phase: 'all',
-    gradeLevel: ['elementary', 'middle', 'high'],
+    gradeLevel: ['elementary', 'middle', 'high', 'postsecondary'],
     iterationType: 'complete_restart',
     difficulty: 'beginner',
     tags: ['planning', 'iteration', 'checklist'],
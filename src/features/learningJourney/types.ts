@@ -7,11 +7,12 @@
 
 import { ReactElement } from 'react';
 import { type LucideIcon } from 'lucide-react';
+import { resolveGradeBand, type GradeBandKey } from '../../ai/gradeBandRules';
 
 // Core phase types
 export type PhaseType = 'ANALYZE' | 'BRAINSTORM' | 'PROTOTYPE' | 'EVALUATE';
 
-export type GradeLevel = 'elementary' | 'middle' | 'high';
+export type GradeLevel = 'early' | 'elementary' | 'middle' | 'high' | 'postsecondary'; // early = Pre-K, postsecondary = college/CTE
 
 // Phase components
 export interface PhaseObjective {
@@ -221,6 +222,12 @@ export const PHASE_COLORS = {
 } as const;
 
 export const GRADE_LEVEL_CONFIG = {
+  early: {
+    minProjectDuration: 1,
+    maxProjectDuration: 3,
+    defaultActivitiesPerPhase: 2,
+    complexityLevel: 'basic'
+  },
   elementary: {
     minProjectDuration: 2,
     maxProjectDuration: 4,
@@ -238,6 +245,12 @@ export const GRADE_LEVEL_CONFIG = {
     maxProjectDuration: 12,
     defaultActivitiesPerPhase: 5,
     complexityLevel: 'advanced'
+  },
+  postsecondary: {
+    minProjectDuration: 4,
+    maxProjectDuration: 18,
+    defaultActivitiesPerPhase: 5,
+    complexityLevel: 'advanced'
   }
 } as const;
 
@@ -247,7 +260,26 @@ export const isPhaseType = (value: any): value is PhaseType => {
 };
 
 export const isGradeLevel = (value: any): value is GradeLevel => {
-  return ['elementary', 'middle', 'high'].includes(value);
+  return ['early', 'elementary', 'middle', 'high', 'postsecondary'].includes(value);
+};
+
+const BAND_GRADE_LEVELS: Record<GradeBandKey, GradeLevel> = {
+  'Pre-K': 'early',
+  'K-2': 'elementary',
+  '3-5': 'elementary',
+  '6-8': 'middle',
+  '9-12': 'high',
+  'Post-Secondary': 'postsecondary'
+};
+
+/**
+ * Journey level for a wizard grade level ("Pre-K (Ages 3-5)", "9-12"…) or a
+ * stored level; the fallback when neither resolves.
+ */
+export const toGradeLevel = (value: unknown, fallback: GradeLevel = 'middle'): GradeLevel => {
+  if (isGradeLevel(value)) {return value;}
+  const band = typeof value === 'string' ? resolveGradeBand(value) : null;
+  return band ? BAND_GRADE_LEVELS[band] : fallback;
 };
 
 export const isValidPhase = (phase: any): phase is CreativePhase => {
@@ -4,6 +4,7 @@ import type { QuickSparkResult, QuickSparkInput } from './QuickSparkPrompt';
 import { generateQuickSpark } from './QuickSparkPrompt';
 import { convertToProject } from './QuickSparkActions';
 import type { UnifiedProject } from '../../types/project';
+import { GRADE_BAND_KEYS } from '../../ai/gradeBandRules';
 
 interface FormState {
   subject: string;
@@ -17,8 +18,6 @@ const INITIAL_FORM: FormState = {
   topic: '',
 };
 
-const gradeOptions = ['K-2', '3-5', '6-8', '9-12'];
-
 const QuickSpark: React.FC = () => {
   const [form, setForm] = useState<FormState>(INITIAL_FORM);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -116,7 +115,7 @@ const QuickSpark: React.FC = () => {
                 onChange={handleChange}
                 className="w-full rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
               >
-                {gradeOptions.map(option => (
+                {GRADE_BAND_KEYS.map(option => (
                   <option key={option} value={option}>
                     {option}
                   </option>
@@ -5,6 +5,16 @@ import { useBlueprintDoc } from '../../hooks/useBlueprintDoc';
 import { type WizardData, type JourneyData, getJourneyData } from '../../types/blueprint';
 import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
 import { getAllSampleBlueprints } from '../../utils/sampleBlueprints';
+import { StandardsAlignmentPanel } from '../../components/hero/StandardsAlignmentPanel';
+import WordExportButtons from '../showcase/components/WordExportButtons';
+import PolishPanel from '../showcase/PolishPanel';
+import { ProjectRevisionsPanel } from '../../components/ProjectRevisionsPanel';
+import { PeerReviewRequestPanel } from '../../components/PeerReviewRequestPanel';
+import { ProjectSharePanel } from '../../components/ProjectSharePanel';
+import { ProjectCalendarPanel } from '../../components/ProjectCalendarPanel';
+import { LessonPlansPanel } from '../../components/hero/LessonPlansPanel';
+import { StudentLanguagePanel } from '../../components/hero/StudentLanguagePanel';
+import { FamilyKitPanel } from '../../components/hero/FamilyKitPanel';
 import { unifiedStorage } from '../../services/UnifiedStorageManager';
 import { deriveStageStatus, getStageRoute } from '../../utils/stageStatus';
 import { type EnhancedHeroProjectData } from '../../services/HeroProjectTransformer';
@@ -51,7 +61,8 @@ import {
   BarChart3,
   MessageCircle,
   Share2,
-  Download
+  Download,
+  Mail
 } from 'lucide-react';
 
 interface CollapsiblePanelProps {
@@ -382,6 +393,9 @@ export default function ReviewScreen() {
   const [isLoadingHero, setIsLoadingHero] = useState(true);
   const [heroError, setHeroError] = useState<Error | null>(null);
   const [rawProjectData, setRawProjectData] = useState<any>(null);
+  // Bumped after a revision restore to reload the project
+  const [reloadKey, setReloadKey] = useState(0);
+  const [showPolish, setShowPolish] = useState(false);
 
   // For pre-built hero projects, we need to get the sample data directly
   const isPrebuiltHero = id?.startsWith('hero-');
@@ -417,6 +431,15 @@ export default function ReviewScreen() {
     }
   }, [id, navigate]);
 
+  // Standards alignment decisions and lesson plans live on the showcase; persist them with the project
+  const handleShowcaseChange = React.useCallback((updated: ProjectShowcaseV2) => {
+    setRawProjectData((prev: any) => ({ ...(prev || {}), showcase: updated }));
+    if (!id || isPrebuiltHero) {return;}
+    unifiedStorage.saveProject({ id, showcase: updated }).catch(error => {
+      console.error('[ReviewScreen] Failed to save showcase changes:', error);
+    });
+  }, [id, isPrebuiltHero]);
+
   // Load enhanced hero project data for educator projects
   useEffect(() => {
     if (isPrebuiltHero || !id) {
@@ -590,7 +613,7 @@ export default function ReviewScreen() {
     };
 
     loadHeroData();
-  }, [id, isPrebuiltHero]);
+  }, [id, isPrebuiltHero, reloadKey]);
 
   // Combine the data sources based on project type
   const blueprint = isPrebuiltHero ? prebuiltHeroData : firestoreBlueprint;
@@ -1223,6 +1246,117 @@ export default function ReviewScreen() {
               )}
             </div>
           </CollapsiblePanel>
+
+          {/* Standards Alignment */}
+          {persistedShowcase && (persistedShowcase.runOfShow?.length || persistedShowcase.assignments?.length) ? (
+            <CollapsiblePanel
+              title="Standards Alignment"
+              subtitle="Which weeks teach and which assignments assess each standard"
+              icon={Target}
+              variant="primary"
+              badge="Standards"
+              defaultOpen={false}
+            >
+              <StandardsAlignmentPanel showcase={persistedShowcase} onChange={handleShowcaseChange} />
+            </CollapsiblePanel>
+          ) : null}
+
+          {/* Student language */}
+          {id && !isPrebuiltHero && persistedShowcase?.assignments?.length ? (
+            <CollapsiblePanel
+              title="Student Language"
+              subtitle="Write handouts and family letters in your students' language"
+              icon={Globe}
+              variant="coral"
+              defaultOpen={false}
+            >
+              <StudentLanguagePanel showcase={persistedShowcase} onChange={handleShowcaseChange} />
+            </CollapsiblePanel>
+          ) : null}
+
+          {/* Family communication */}
+          {id && !isPrebuiltHero && persistedShowcase?.runOfShow?.length ? (
+            <CollapsiblePanel
+              title="Family Communication"
+              subtitle="Letters home, permission slips and an exhibition invitation"
+              icon={Mail}
+              variant="coral"
+              badge="Families"
+              defaultOpen={false}
+            >
+              <FamilyKitPanel showcase={persistedShowcase} onChange={handleShowcaseChange} />
+            </CollapsiblePanel>
+          ) : null}
+
+          {/* Daily lesson plans */}
+          {persistedShowcase?.runOfShow?.length ? (
+            <CollapsiblePanel
+              title="Lesson Plans"
+              subtitle="Expand a week card into day-by-day lessons"
+              icon={Clock}
+              variant="primary"
+              badge="Daily"
+              defaultOpen={false}
+            >
+              <LessonPlansPanel showcase={persistedShowcase} onChange={handleShowcaseChange} />
+            </CollapsiblePanel>
+          ) : null}
+
+          {/* Calendar */}
+          {id && !isPrebuiltHero && persistedShowcase?.runOfShow?.length ? (
+            <CollapsiblePanel
+              title="Calendar"
+              subtitle="Map each week and due date onto your school calendar"
+              icon={Calendar}
+              variant="primary"
+              badge="Schedule"
+              defaultOpen={false}
+            >
+              <ProjectCalendarPanel projectId={id} showcase={persistedShowcase} />
+            </CollapsiblePanel>
+          ) : null}
+
+          {/* Peer Review */}
+          {id && !isPrebuiltHero && persistedShowcase ? (
+            <CollapsiblePanel
+              title="Peer Review"
+              subtitle="Ask a coach or colleague for anchored feedback"
+              icon={Users}
+              variant="primary"
+              badge="Review"
+              defaultOpen={false}
+            >
+              <PeerReviewRequestPanel projectId={id} showcase={persistedShowcase} />
+            </CollapsiblePanel>
+          ) : null}
+
+          {/* Sharing */}
+          {id && !isPrebuiltHero && persistedShowcase ? (
+            <CollapsiblePanel
+              title="Share"
+              subtitle="Read-only link, invited colleagues or the public gallery"
+              icon={Share2}
+              variant="primary"
+              badge="Share"
+              defaultOpen={false}
+            >
+              <ProjectSharePanel projectId={id} showcase={persistedShowcase} />
+            </CollapsiblePanel>
+          ) : null}
+
+          {/* Revision History */}
+          {id && !isPrebuiltHero ? (
+            <CollapsiblePanel
+              title="Revision History"
+              subtitle="Compare any two saves or restore an earlier version"
+              icon={Clock}
+              variant="primary"
+              badge="History"
+              defaultOpen={false}
+            >
+              <ProjectRevisionsPanel projectId={id} onRestored={() => setReloadKey(key => key + 1)} />
+            </CollapsiblePanel>
+          ) : null}
         </div>
 
         {/* Enhanced Action Section */}
@@ -1236,6 +1370,40 @@ export default function ReviewScreen() {
             <h3 className="text-2xl font-bold text-gray-900 mb-2">Ready to Bring This Vision to Life?</h3>
             <p className="text-gray-600">Take the next step in your project-based learning journey</p>
           </div>
+
+          {persistedShowcase?.assignments?.length ? (
+            showPolish ? (
+              <div className="mb-6">
+                <PolishPanel
+                  showcase={persistedShowcase}
+                  onChange={id && !isPrebuiltHero ? handleShowcaseChange : undefined}
+                  onClose={() => setShowPolish(false)}
+                />
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowPolish(true)}
+                className="inline-flex items-center gap-2 mb-4 px-4 py-2 rounded-xl bg-white border border-slate-200 text-sm font-medium text-slate-700 hover:bg-slate-50"
+              >
+                <CheckCircle className="w-4 h-4" />
+                Check before exporting
+              </button>
+            )
+          ) : null}
+
+          {persistedShowcase?.assignments?.length ? (
+            <WordExportButtons showcase={persistedShowcase} className="justify-center mb-6" />
+          ) : null}
+
+          {id && !isPrebuiltHero && persistedShowcase?.assignments?.length ? (
+            <button
+              onClick={() => { void navigate(`/app/project/${id}/student`); }}
+              className="inline-flex items-center gap-2 mb-6 px-4 py-2 rounded-xl bg-white border border-slate-200 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              <Eye className="w-4 h-4" />
+              Student view
+            </button>
+          ) : null}
           
           <div className="flex flex-col sm:flex-row justify-center gap-4">
             <motion.button
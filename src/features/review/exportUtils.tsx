@@ -2,6 +2,14 @@ import TurndownService from 'turndown';
 import { type BlueprintDoc } from '../../hooks/useBlueprintDoc';
 import { uploadBytes, ref, getDownloadURL } from 'firebase/storage';
 import { storage } from '../../firebase/firebase';
+import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
+import { buildCommonCartridge, validateCartridgeManifest } from '../../utils/commonCartridge';
+import { zipStored } from '../../utils/zip';
+import { DOCX_MIME_TYPE, packDocx } from '../../utils/docx';
+import { buildShowcaseDocument, type DocxEdition } from '../../utils/showcaseDocx';
+import { buildCalendarIcs, type ProjectCalendar } from '../../utils/schoolCalendar';
+import { familyKitToEmails, letterParts } from '../../services/FamilyKitService';
+import { buildStudentSite, renderStudentSiteHtml, type StudentSiteOptions } from '../../utils/studentSite';
 
 // Note: React-PDF renderer is dynamically imported within exportToPDF
 
@@ -326,3 +334,188 @@ export async function exportToPDF(blueprint: BlueprintDoc): Promise<void> {
     throw error;
   }
 }
+
+/**
+ * Export a finished showcase as an IMS Common Cartridge 1.3 (.imscc) package
+ * for Canvas, Schoology and Google Classroom. The manifest is validated before
+ * download so a broken package never reaches the LMS importer.
+ */
+export async function exportToCommonCartridge(showcase: ProjectShowcaseV2): Promise<Blob> {
+  try {
+    const { manifest, files } = buildCommonCartridge(showcase);
+    const validation = validateCartridgeManifest(manifest, files);
+    if (!validation.valid) {
+      throw new Error(`Common Cartridge manifest is invalid: ${validation.errors.join('; ')}`);
+    }
+
+    const blob = new Blob([zipStored(files)], { type: 'application/zip' });
+
+    const localUrl = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = localUrl;
+    a.download = `${showcase.id || 'project'}.imscc`;
+    a.click();
+    URL.revokeObjectURL(localUrl);
+
+    return blob;
+  } catch (error) {
+    console.error('Export to Common Cartridge failed:', error);
+    throw error;
+  }
+}
+
+const DOCX_FILE_SUFFIXES: Record<DocxEdition, string> = {
+  teacher: 'teacher-edition',
+  handouts: 'student-handouts',
+  bilingual: 'bilingual-handouts',
+  lessons: 'lesson-plans',
+  family: 'family-letters'
+};
+
+/**
+ * Export a showcase as an editable Word document: the teacher edition (full
+ * blueprint with week and rubric tables), the student handouts (one
+ * assignment per page run), the daily lesson plans or the family letters.
+ */
+export async function exportToDocx(showcase: ProjectShowcaseV2, edition: DocxEdition): Promise<Blob> {
+  try {
+    const { blocks, metadata } = buildShowcaseDocument(showcase, edition);
+    const blob = new Blob([packDocx(blocks, metadata)], { type: DOCX_MIME_TYPE });
+
+    const localUrl = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = localUrl;
+    a.download = `${showcase.id || 'project'}-${DOCX_FILE_SUFFIXES[edition]}.docx`;
+    a.click();
+    URL.revokeObjectURL(localUrl);
+
+    return blob;
+  } catch (error) {
+    console.error('Export to Word failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Export a scheduled project as an .ics file with every lesson, checkpoint
+ * and assignment due date, for Google Calendar, Outlook or Apple Calendar.
+ */
+export function exportToCalendar(showcase: ProjectShowcaseV2, calendar: ProjectCalendar): Blob {
+  try {
+    const blob = new Blob([buildCalendarIcs(showcase, calendar)], { type: 'text/calendar;charset=utf-8' });
+
+    const localUrl = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = localUrl;
+    a.download = `${showcase.id || 'project'}-calendar.ics`;
+    a.click();
+    URL.revokeObjectURL(localUrl);
+
+    return blob;
+  } catch (error) {
+    console.error('Export to calendar failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Export the family communication kit as a print-ready PDF, one letter per
+ * page. Uses the built-in Helvetica so accented letters print without a
+ * font download.
+ */
+export async function exportFamilyKitToPDF(showcase: ProjectShowcaseV2): Promise<Blob> {
+  try {
+    const letters = showcase.familyKit?.letters || [];
+    if (!letters.length) {
+      throw new Error('No family letters to export');
+    }
+    const { Document, Page, Text, StyleSheet, pdf } = await import('@react-pdf/renderer');
+
+    const styles = StyleSheet.create({
+      page: { flexDirection: 'column', backgroundColor: '#ffffff', padding: 48, fontFamily: 'Helvetica' },
+      subject: { fontSize: 16, marginBottom: 16, fontFamily: 'Helvetica-Bold', color: '#1e1b4b' },
+      paragraph: { fontSize: 12, marginBottom: 10, lineHeight: 1.4, color: '#374151' },
+      listItem: { fontSize: 12, marginBottom: 4, marginLeft: 12, lineHeight: 1.4, color: '#374151' }
+    });
+
+    const pdfDoc = (
+      <Document title={`${showcase.hero.title} — Family Letters`}>
+        {letters.map((letter, letterIndex) => (
+          <Page key={letterIndex} size="LETTER" style={styles.page}>
+            <Text style={styles.subject}>{letter.subject}</Text>
+            {letterParts(letter.body).map((part, partIndex) => (
+              part.type === 'bullets'
+                ? part.items.map((item, itemIndex) => (
+                  <Text key={`${partIndex}-${itemIndex}`} style={styles.listItem}>• {item}</Text>
+                ))
+                : <Text key={partIndex} style={styles.paragraph}>{part.lines.join('\n')}</Text>
+            ))}
+          </Page>
+        ))}
+      </Document>
+    );
+
+    const blob = await pdf(pdfDoc).toBlob();
+
+    const localUrl = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = localUrl;
+    a.download = `${showcase.id || 'project'}-family-letters.pdf`;
+    a.click();
+    URL.revokeObjectURL(localUrl);
+
+    return blob;
+  } catch (error) {
+    console.error('Export family letters to PDF failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Export the family communication kit as plain-text email bodies, ready to
+ * paste into a school messaging tool.
+ */
+export function exportFamilyKitEmails(showcase: ProjectShowcaseV2): Blob {
+  try {
+    if (!showcase.familyKit?.letters.length) {
+      throw new Error('No family letters to export');
+    }
+    const blob = new Blob([familyKitToEmails(showcase.familyKit)], { type: 'text/plain;charset=utf-8' });
+
+    const localUrl = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = localUrl;
+    a.download = `${showcase.id || 'project'}-family-emails.txt`;
+    a.click();
+    URL.revokeObjectURL(localUrl);
+
+    return blob;
+  } catch (error) {
+    console.error('Export family emails failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Export the student site as one self-contained HTML file that opens offline
+ * (e.g. from a Chromebook's Downloads folder). Only student-facing fields are
+ * included; see buildStudentSite().
+ */
+export function exportStudentSite(showcase: ProjectShowcaseV2, options: StudentSiteOptions = {}): Blob {
+  try {
+    const html = renderStudentSiteHtml(buildStudentSite(showcase, options));
+    const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
+
+    const localUrl = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = localUrl;
+    a.download = `${showcase.id || 'project'}-student-site.html`;
+    a.click();
+    URL.revokeObjectURL(localUrl);
+
+    return blob;
+  } catch (error) {
+    console.error('Export student site failed:', error);
+    throw error;
+  }
+}
@@ -4,10 +4,55 @@
  */
 
 import { type EnhancedBlueprintDoc } from '../../types/blueprint';
+import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
+import type { DocxEdition } from '../../utils/showcaseDocx';
+import type { ProjectCalendar } from '../../utils/schoolCalendar';
+import type { StudentSiteOptions } from '../../utils/studentSite';
+import { SAFE_FIX_RULES, ShowcaseLintError, fixShowcase } from '../../utils/showcaseLint';
+import { telemetry } from '../../services/telemetry';
 
 // Use the enhanced blueprint type
 type BlueprintDoc = EnhancedBlueprintDoc;
 
+/**
+ * Run an export and record an 'export_used' event (format, outcome, latency).
+ * `run` may add to metadata (see preflight); it is read when the event is sent.
+ */
+async function tracked<T>(format: string, projectId: string | undefined, run: () => Promise<T>, metadata: Record<string, unknown> = {}): Promise<T> {
+  const startTime = Date.now();
+  try {
+    const result = await run();
+    telemetry.track({ event: 'export_used', success: true, latencyMs: Date.now() - startTime, projectId: projectId || 'unknown', metadata: { format, ...metadata } });
+    return result;
+  } catch (error) {
+    telemetry.track({
+      event: 'export_used',
+      success: false,
+      latencyMs: Date.now() - startTime,
+      projectId: projectId || 'unknown',
+      errorCode: error instanceof ShowcaseLintError ? 'LINT_ERRORS' : 'EXPORT_FAILED',
+      errorMessage: error instanceof Error ? error.message : String(error),
+      metadata: { format, ...metadata }
+    });
+    throw error;
+  }
+}
+
+/**
+ * Lint a showcase before it is exported: apply the safe fixes (whitespace,
+ * links to missing assignments) to the exported copy and refuse to export
+ * while errors remain. Runs inside tracked() so refusals are counted too;
+ * lint counts go into the export event's metadata.
+ */
+function preflight(showcase: ProjectShowcaseV2, metadata: Record<string, unknown>): ProjectShowcaseV2 {
+  const { showcase: fixed, report } = fixShowcase(showcase, SAFE_FIX_RULES);
+  Object.assign(metadata, { lintErrors: report.errorCount, lintWarnings: report.warningCount, lintInfo: report.infoCount });
+  if (report.errorCount > 0) {
+    throw new ShowcaseLintError(report);
+  }
+  return fixed;
+}
+
 /**
  * Export to Markdown - lightweight, no external dependencies
  */
@@ -16,8 +61,10 @@ export async function exportToMarkdown(blueprint: BlueprintDoc): Promise<void> {
     throw new Error('Downloads disabled');
   }
   // Markdown export doesn't need heavy libraries
-  const { exportToMarkdown: originalExport } = await import('./exportUtils');
-  return originalExport(blueprint);
+  return tracked('markdown', blueprint.id, async () => {
+    const { exportToMarkdown: originalExport } = await import('./exportUtils');
+    return originalExport(blueprint);
+  });
 }
 
 /**
@@ -36,14 +83,16 @@ export async function exportToPDF(blueprint: BlueprintDoc): Promise<void> {
   document.body.appendChild(loadingToast);
   
   try {
-    // Dynamically import the heavy PDF export function
-    const { exportToPDF: originalExport } = await import('./exportUtils');
-    
-    // Remove loading indicator
-    loadingToast.remove();
-    
-    // Call the original export function
-    return await originalExport(blueprint);
+    return await tracked('pdf', blueprint.id, async () => {
+      // Dynamically import the heavy PDF export function
+      const { exportToPDF: originalExport } = await import('./exportUtils');
+
+      // Remove loading indicator
+      loadingToast.remove();
+
+      // Call the original export function
+      return originalExport(blueprint);
+    });
   } catch (error) {
     loadingToast.remove();
     console.error('[PDF Export] Failed to load PDF libraries:', error);
@@ -51,12 +100,98 @@ export async function exportToPDF(blueprint: BlueprintDoc): Promise<void> {
   }
 }
 
+/**
+ * Export to IMS Common Cartridge (.imscc) for LMS import - no heavy libraries
+ */
+export async function exportToCommonCartridge(showcase: ProjectShowcaseV2): Promise<void> {
+  if (import.meta.env?.VITE_ENABLE_DOWNLOADS !== 'true') {
+    throw new Error('Downloads disabled');
+  }
+  const metadata: Record<string, unknown> = {};
+  await tracked('imscc', showcase.id, async () => {
+    const checked = preflight(showcase, metadata);
+    const { exportToCommonCartridge: originalExport } = await import('./exportUtils');
+    await originalExport(checked);
+  }, metadata);
+}
+
+/**
+ * Export to Word (.docx) - teacher edition, student handouts, lesson plans or family letters, no heavy libraries
+ */
+export async function exportToDocx(showcase: ProjectShowcaseV2, edition: DocxEdition): Promise<void> {
+  if (import.meta.env?.VITE_ENABLE_DOWNLOADS !== 'true') {
+    throw new Error('Downloads disabled');
+  }
+  const metadata: Record<string, unknown> = { edition };
+  await tracked('docx', showcase.id, async () => {
+    const checked = preflight(showcase, metadata);
+    const { exportToDocx: originalExport } = await import('./exportUtils');
+    await originalExport(checked, edition);
+  }, metadata);
+}
+
+/**
+ * Export a scheduled project to iCalendar (.ics) - no heavy libraries
+ */
+export async function exportToCalendar(showcase: ProjectShowcaseV2, calendar: ProjectCalendar): Promise<void> {
+  if (import.meta.env?.VITE_ENABLE_DOWNLOADS !== 'true') {
+    throw new Error('Downloads disabled');
+  }
+  await tracked('ics', showcase.id, async () => {
+    const { exportToCalendar: originalExport } = await import('./exportUtils');
+    originalExport(showcase, calendar);
+  }, { weeks: calendar.weeks.length });
+}
+
+/**
+ * Export the family letters to PDF - lazy loads PDF libraries only when needed
+ */
+export async function exportFamilyKitToPDF(showcase: ProjectShowcaseV2): Promise<void> {
+  if (import.meta.env?.VITE_PDF_EXPORT_ENABLED !== 'true') {
+    throw new Error('PDF export is disabled');
+  }
+  await tracked('pdf', showcase.id, async () => {
+    const { exportFamilyKitToPDF: originalExport } = await import('./exportUtils');
+    await originalExport(showcase);
+  }, { edition: 'family', letters: showcase.familyKit?.letters.length ?? 0 });
+}
+
+/**
+ * Export the family letters as plain-text email bodies - no heavy libraries
+ */
+export async function exportFamilyKitEmails(showcase: ProjectShowcaseV2): Promise<void> {
+  if (import.meta.env?.VITE_ENABLE_DOWNLOADS !== 'true') {
+    throw new Error('Downloads disabled');
+  }
+  await tracked('txt', showcase.id, async () => {
+    const { exportFamilyKitEmails: originalExport } = await import('./exportUtils');
+    originalExport(showcase);
+  }, { edition: 'family', letters: showcase.familyKit?.letters.length ?? 0 });
+}
+
+/**
+ * Export the student site as a self-contained offline HTML file - no heavy libraries
+ */
+export async function exportStudentSite(showcase: ProjectShowcaseV2, options: StudentSiteOptions = {}): Promise<void> {
+  if (import.meta.env?.VITE_ENABLE_DOWNLOADS !== 'true') {
+    throw new Error('Downloads disabled');
+  }
+  const metadata: Record<string, unknown> = { scheduled: Boolean(options.calendar) };
+  await tracked('html', showcase.id, async () => {
+    const checked = preflight(showcase, metadata);
+    const { exportStudentSite: originalExport } = await import('./exportUtils');
+    originalExport(checked, options);
+  }, metadata);
+}
+
 /**
  * Export to Google Docs - lazy loads when needed
  */
 export async function exportToGoogleDocs(blueprint: BlueprintDoc): Promise<void> {
-  const { exportToGoogleDocs: originalExport } = await import('./exportUtils');
-  return originalExport(blueprint);
+  return tracked('google_docs', blueprint.id, async () => {
+    const { exportToGoogleDocs: originalExport } = await import('./exportUtils');
+    return originalExport(blueprint);
+  });
 }
 
 /**
@@ -67,15 +202,17 @@ export async function exportBlueprintData(blueprint: BlueprintDoc): Promise<void
     throw new Error('Downloads disabled');
   }
   // This is just JSON, no heavy libraries needed
-  const dataStr = JSON.stringify(blueprint, null, 2);
-  const dataBlob = new Blob([dataStr], { type: 'application/json' });
-  const url = URL.createObjectURL(dataBlob);
-  
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `blueprint-${blueprint.id || 'export'}-${Date.now()}.json`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  return tracked('json', blueprint.id, async () => {
+    const dataStr = JSON.stringify(blueprint, null, 2);
+    const dataBlob = new Blob([dataStr], { type: 'application/json' });
+    const url = URL.createObjectURL(dataBlob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `blueprint-${blueprint.id || 'export'}-${Date.now()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  });
 }
@@ -0,0 +1,202 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GRADE_BAND_KEYS, buildGradeBandPrompt, type GradeBandKey } from '../../ai/gradeBandRules';
+import {
+  EXAMPLE_RULE_PACK,
+  RulePackError,
+  buildGradeBandGuidance,
+  canManageRulePacks,
+  installRulePack,
+  removeRulePack,
+  type RulePack
+} from '../../ai/rulePacks';
+import { useRulePacks } from '../../hooks/useRulePacks';
+
+const cardClass = 'bg-white/90 dark:bg-slate-900/80 border border-slate-200/70 dark:border-slate-700 rounded-2xl shadow-sm p-6 space-y-4';
+const selectClass = 'rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+function bandsCovered(pack: RulePack): string {
+  const bands = Object.keys(pack.bands);
+  return [pack.allBands ? 'all bands' : null, ...bands].filter(Boolean).join(', ') || 'no rules';
+}
+
+/**
+ * Admin page for school rule packs: upload and validate pack JSON, manage
+ * installed packs and preview the grade band guidance prompts will carry.
+ * Teachers without the admin claim see the installed packs read-only.
+ */
+const RulePackAdminPage: React.FC = () => {
+  const { packs, refresh } = useRulePacks();
+  const [canManage, setCanManage] = useState<boolean | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<{ message: string; issues: string[] } | null>(null);
+  const [previewPackId, setPreviewPackId] = useState('');
+  const [previewBand, setPreviewBand] = useState<GradeBandKey | ''>('6-8');
+
+  // Re-read on every render so an upload shows up right away
+  const preview = buildGradeBandGuidance({ gradeLevel: previewBand, rulePackId: previewPackId });
+  const defaultLines = useMemo(
+    () => new Set(previewBand ? buildGradeBandPrompt(previewBand).split('\n') : []),
+    [previewBand]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    canManageRulePacks()
+      .then(allowed => { if (!cancelled) {setCanManage(allowed);} })
+      .catch(err => {
+        console.warn('[RulePackAdmin] Could not check admin access', err);
+        if (!cancelled) {setCanManage(false);}
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {return;}
+    setMessage(null);
+    setError(null);
+    try {
+      const { pack, replaced } = await installRulePack(await file.text());
+      await refresh();
+      setPreviewPackId(pack.id);
+      setMessage(replaced
+        ? `Updated ${pack.name} from ${replaced.version} to ${pack.version}.`
+        : `Installed ${pack.name} ${pack.version}.`);
+    } catch (err) {
+      console.error('[RulePackAdmin] Failed to install rule pack', err);
+      setError(err instanceof RulePackError
+        ? { message: err.message, issues: err.issues }
+        : { message: 'Could not install this rule pack.', issues: [] });
+    }
+  };
+
+  const handleRemove = async (pack: RulePack) => {
+    setMessage(null);
+    setError(null);
+    try {
+      await removeRulePack(pack.id);
+      await refresh();
+      if (previewPackId === pack.id) {setPreviewPackId('');}
+      setMessage(`Removed ${pack.name}. Projects that used it fall back to the built-in guidance.`);
+    } catch (err) {
+      console.error('[RulePackAdmin] Failed to remove rule pack', err);
+      setError({ message: `Could not remove ${pack.name}.`, issues: [] });
+    }
+  };
+
+  const downloadExample = () => {
+    const blob = new Blob([`${JSON.stringify(EXAMPLE_RULE_PACK, null, 2)}\n`], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${EXAMPLE_RULE_PACK.id}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50/30 dark:from-slate-900 dark:via-slate-900 dark:to-blue-900/10">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-16 space-y-8">
+        <header className="text-center space-y-3">
+          <h1 className="text-4xl font-semibold text-slate-900 dark:text-white">School rule packs</h1>
+          <p className="text-lg text-slate-600 dark:text-slate-300">
+            Add your school’s safety policy and grade band expectations to the coaching and generated materials.
+          </p>
+        </header>
+
+        {canManage === false && (
+          <section className={cardClass}>
+            <p className="text-sm text-slate-600 dark:text-slate-300">
+              Only school administrators can install or remove rule packs. Ask yours to add your district’s pack; it then shows up for every teacher.
+            </p>
+          </section>
+        )}
+
+        {canManage && (
+          <section className={cardClass}>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-full bg-primary-600 text-white text-sm font-medium shadow hover:bg-primary-500 transition cursor-pointer">
+                <input type="file" accept=".json,application/json" onChange={event => { void handleUpload(event); }} className="sr-only" />
+                Upload rule pack
+              </label>
+              <button type="button" onClick={downloadExample} className="text-sm font-medium text-primary-600 hover:text-primary-700">
+                Download an example
+              </button>
+            </div>
+            <p className="text-xs text-slate-500">
+              Rule packs are JSON files with <code>schemaVersion</code>, <code>id</code>, <code>name</code> and <code>version</code>.
+              Rules in <code>allBands</code> apply to every grade band; <code>bands</code> adds rules for one band.
+              Lists are added to the built-in rules unless named in <code>replace</code>.
+            </p>
+            {message && <p className="text-sm text-emerald-700 dark:text-emerald-300">{message}</p>}
+            {error && (
+              <div className="text-sm text-rose-600 space-y-1">
+                <p>{error.message}</p>
+                {error.issues.length > 0 && (
+                  <ul className="list-disc pl-6 font-mono text-xs">
+                    {error.issues.map(issue => <li key={issue}>{issue}</li>)}
+                  </ul>
+                )}
+              </div>
+            )}
+          </section>
+        )}
+
+        <section className={cardClass}>
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Installed</h2>
+          {packs.length ? (
+            <ul className="space-y-2">
+              {packs.map(pack => (
+                <li key={pack.id} className="rounded-xl border border-slate-200 dark:border-slate-700 p-3 text-sm flex items-start justify-between gap-3">
+                  <div>
+                    <p className="font-medium text-slate-800 dark:text-slate-100">
+                      {pack.name} <span className="text-slate-500 font-normal">v{pack.version} · {pack.id}</span>
+                    </p>
+                    {pack.description && <p className="text-slate-600 dark:text-slate-300">{pack.description}</p>}
+                    <p className="text-xs text-slate-500">Covers {bandsCovered(pack)}{pack.author ? ` · by ${pack.author}` : ''}</p>
+                  </div>
+                  {canManage && (
+                    <button type="button" onClick={() => { void handleRemove(pack); }} className="text-xs text-slate-500 hover:text-rose-600">
+                      Remove
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500">No rule packs yet. Projects use the built-in grade band guidance.</p>
+          )}
+        </section>
+
+        <section className={cardClass}>
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Prompt preview</h2>
+          <div className="flex flex-wrap gap-3">
+            <select value={previewPackId} onChange={event => setPreviewPackId(event.target.value)} className={selectClass} aria-label="Rule pack">
+              <option value="">Built-in guidance only</option>
+              {packs.map(pack => <option key={pack.id} value={pack.id}>{pack.name}</option>)}
+            </select>
+            <select value={previewBand} onChange={event => setPreviewBand(event.target.value as GradeBandKey | '')} className={selectClass} aria-label="Grade band">
+              {GRADE_BAND_KEYS.map(band => <option key={band} value={band}>{band}</option>)}
+              <option value="">Unspecified</option>
+            </select>
+          </div>
+          {preview ? (
+            <pre className="whitespace-pre-wrap text-xs leading-relaxed rounded-xl bg-slate-50 dark:bg-slate-800 p-4 text-slate-700 dark:text-slate-200">
+              {preview.split('\n').map((line, index) => (
+                <span key={index} className={previewPackId && !defaultLines.has(line) ? 'block text-emerald-700 dark:text-emerald-300' : 'block'}>
+                  {line}
+                </span>
+              ))}
+            </pre>
+          ) : (
+            <p className="text-sm text-slate-500">No grade band guidance is added for this combination.</p>
+          )}
+          {previewPackId && <p className="text-xs text-slate-500">Highlighted lines come from the rule pack.</p>}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default RulePackAdminPage;
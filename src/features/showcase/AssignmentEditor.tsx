@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import type { AssignmentCard, UnifiedProject } from '../../types/project';
 import { loadUnified, saveUnifiedProject } from '../../services/ShowcaseStorage';
+import { fixAssignment, lintAssignment, type LintSeverity } from '../../utils/showcaseLint';
 
 interface AssignmentEditorState {
   project: UnifiedProject | null;
@@ -36,6 +37,12 @@ const listLabels: Record<keyof Pick<AssignmentCard, 'studentDirections' | 'teach
   successCriteria: 'Success criteria',
 };
 
+const severityClasses: Record<LintSeverity, string> = {
+  error: 'text-red-600',
+  warning: 'text-amber-600',
+  info: 'text-slate-500',
+};
+
 const toText = (items: string[]): string => items.join('\n');
 
 const fromText = (value: string): string[] =>
@@ -143,18 +150,7 @@ const AssignmentEditor: React.FC = () => {
     });
   };
 
-  const limitWarnings = useMemo(() => {
-    return assignments.map(assignment => {
-      const warnings: string[] = [];
-      (Object.keys(listLimits) as Array<keyof typeof listLimits>).forEach(key => {
-        const items = assignment[key] || [];
-        if (items.length > listLimits[key]) {
-          warnings.push(`${listLabels[key]} has ${items.length} items (recommended ≤ ${listLimits[key]}).`);
-        }
-      });
-      return warnings;
-    });
-  }, [assignments]);
+  const lintReports = useMemo(() => assignments.map(assignment => lintAssignment(assignment)), [assignments]);
 
   const handleSave = async () => {
     if (!state.project) {return;}
@@ -333,12 +329,22 @@ const AssignmentEditor: React.FC = () => {
                 </div>
               </div>
 
-              {limitWarnings[index]?.length > 0 && (
-                <ul className="list-disc pl-6 text-xs text-amber-600 space-y-1">
-                  {limitWarnings[index].map((warning, warningIdx) => (
-                    <li key={warningIdx}>{warning}</li>
-                  ))}
-                </ul>
+              {lintReports[index]?.issues.length > 0 && (
+                <div className="space-y-2">
+                  <ul className="list-disc pl-6 text-xs space-y-1">
+                    {lintReports[index].issues.map((issue, issueIdx) => (
+                      <li key={issueIdx} className={severityClasses[issue.severity]}>{issue.message}</li>
+                    ))}
+                  </ul>
+                  {lintReports[index].fixableCount > 0 && (
+                    <button
+                      onClick={() => updateAssignment(index, fixAssignment(assignment))}
+                      className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                    >
+                      Fix {lintReports[index].fixableCount} automatically
+                    </button>
+                  )}
+                </div>
               )}
             </section>
           ))}
@@ -1,12 +1,42 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
+import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
+import { fixShowcase, getLintRule, lintShowcase, type LintIssue, type LintSeverity } from '../../utils/showcaseLint';
 
 interface PolishPanelProps {
+  showcase: ProjectShowcaseV2;
+  onChange?: (updated: ProjectShowcaseV2) => void;
   onClose: () => void;
 }
 
-const PolishPanel: React.FC<PolishPanelProps> = ({ onClose }) => {
+const severityStyles: Record<LintSeverity, { label: string; className: string }> = {
+  error: { label: 'Error', className: 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+  warning: { label: 'Warning', className: 'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
+  info: { label: 'Tip', className: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300' },
+};
+
+function groupByRule(issues: LintIssue[]): Array<[string, LintIssue[]]> {
+  const groups = new Map<string, LintIssue[]>();
+  issues.forEach(issue => groups.set(issue.ruleId, [...(groups.get(issue.ruleId) || []), issue]));
+  return Array.from(groups.entries());
+}
+
+/**
+ * Live project check: runs the showcase linter on every change, groups the
+ * issues by rule and offers each rule's auto-fix when the project is editable.
+ */
+const PolishPanel: React.FC<PolishPanelProps> = ({ showcase, onChange, onClose }) => {
+  const [showTips, setShowTips] = useState(false);
+  const report = useMemo(() => lintShowcase(showcase), [showcase]);
+  const visible = showTips ? report.issues : report.issues.filter(issue => issue.severity !== 'info');
+  const groups = groupByRule(visible);
+
+  const applyFix = (ruleIds?: string[]) => {
+    if (!onChange) {return;}
+    onChange(fixShowcase(showcase, ruleIds).showcase);
+  };
+
   return (
-    <section className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-sm p-6 space-y-4">
+    <section className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-sm p-6 space-y-4 text-left">
       <div className="flex items-center justify-between">
         <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Polish checklist</h2>
         <button
@@ -18,7 +48,63 @@ const PolishPanel: React.FC<PolishPanelProps> = ({ onClose }) => {
         </button>
       </div>
 
-      <div className="space-y-3 text-sm text-slate-700 dark:text-slate-300">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+        <span>
+          {report.errorCount} error{report.errorCount === 1 ? '' : 's'} · {report.warningCount} warning{report.warningCount === 1 ? '' : 's'} · {report.infoCount} tip{report.infoCount === 1 ? '' : 's'}
+        </span>
+        {report.infoCount > 0 && (
+          <button type="button" onClick={() => setShowTips(value => !value)} className="text-primary-600 hover:text-primary-700">
+            {showTips ? 'Hide tips' : 'Show tips'}
+          </button>
+        )}
+        {onChange && report.fixableCount > 0 && (
+          <button
+            type="button"
+            onClick={() => applyFix()}
+            className="ml-auto px-3 py-1.5 rounded-lg bg-primary-600 text-white font-medium hover:bg-primary-700"
+          >
+            Fix {report.fixableCount} automatically
+          </button>
+        )}
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-emerald-700 dark:text-emerald-300">
+          {report.issues.length ? 'Only tips left. The project meets every limit.' : 'No issues found. The project meets every limit.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {groups.map(([ruleId, issues]) => {
+            const rule = getLintRule(ruleId);
+            const fixable = issues.some(issue => issue.fixable);
+            const style = severityStyles[issues[0].severity];
+            return (
+              <div key={ruleId} className="rounded-xl border border-slate-200 dark:border-slate-700 p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`}>{style.label}</span>
+                  <span className="text-sm font-medium text-slate-800 dark:text-slate-100">{rule?.description ?? ruleId}</span>
+                  {onChange && fixable && (
+                    <button
+                      type="button"
+                      onClick={() => applyFix([ruleId])}
+                      className="ml-auto text-xs font-medium text-primary-600 hover:text-primary-700"
+                    >
+                      Fix
+                    </button>
+                  )}
+                </div>
+                <ul className="list-disc pl-6 text-sm text-slate-600 dark:text-slate-300 space-y-1">
+                  {issues.map((issue, index) => (
+                    <li key={`${issue.path}-${index}`}>{issue.message}</li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-3 text-sm text-slate-700 dark:text-slate-300 border-t border-slate-200 dark:border-slate-700 pt-4">
         <div>
           <p className="font-medium">Standards</p>
           <p>Add or attach standards when you are ready to share broadly.</p>
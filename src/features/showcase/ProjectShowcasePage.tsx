@@ -1,22 +1,58 @@
 import React, { useMemo } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { getProjectV2 } from '../../utils/showcaseV2-registry';
-import RunOfShowCard from './components/RunOfShowCard';
-import AssignmentPanel from './components/AssignmentPanel';
-import PlanningNotesCard from './components/PlanningNotesCard';
-import { scrollToElement } from './utils/scrollToElement';
+import type { AssignmentCard } from '../../types/showcaseV2';
+import {
+  ASSIGNMENT_FIELD_LABELS,
+  type ReviewAnchor,
+  type ReviewAssignmentField
+} from '../../core/services/ExpertReviewService';
+import { usePeerReview } from '../../hooks/usePeerReview';
+import ShowcaseView from './components/ShowcaseView';
+import WordExportButtons from './components/WordExportButtons';
+import AnchoredComments from './components/AnchoredComments';
+import PeerReviewBanner from './components/PeerReviewBanner';
+import { ProjectRevisionsPanel } from '../../components/ProjectRevisionsPanel';
+
+// Assignment + each field it has + each rubric criterion
+function assignmentAnchors(assignment: AssignmentCard): ReviewAnchor[] {
+  const fields = (Object.keys(ASSIGNMENT_FIELD_LABELS) as ReviewAssignmentField[])
+    .filter(field => {
+      const value = assignment[field];
+      return Array.isArray(value) ? value.length > 0 : Boolean(value);
+    })
+    .map((field): ReviewAnchor => ({ kind: 'assignment', assignmentId: assignment.id, field }));
+  const criteria = (assignment.rubric?.criteria ?? [])
+    .map((criterion): ReviewAnchor => ({ kind: 'criterion', assignmentId: assignment.id, criterion: criterion.name }));
+  return [{ kind: 'assignment', assignmentId: assignment.id }, ...fields, ...criteria];
+}
 
 export default function ProjectShowcasePage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const data = useMemo(() => (id ? getProjectV2(id) : undefined), [id]);
+  const [searchParams] = useSearchParams();
+  // ?review=<requestId> renders the snapshot a teacher shared for peer review, with comments
+  const reviewId = searchParams.get('review');
+  const review = usePeerReview(reviewId);
+  const registryData = useMemo(() => (id ? getProjectV2(id) : undefined), [id]);
+  const data = review.request?.showcase ?? registryData;
+
+  if (reviewId && review.loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-950 text-sm text-gray-500 dark:text-gray-400">
+        Loading review…
+      </div>
+    );
+  }
 
   if (!id || !data) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-950 text-gray-600 dark:text-gray-200">
         <div className="rounded-2xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-6 py-5 shadow-sm text-center space-y-3">
           <div className="text-lg font-semibold">Showcase project not found</div>
-          <p className="text-sm text-gray-500 dark:text-gray-400">The project you’re looking for may have been moved or renamed.</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {review.error?.message ?? 'The project you’re looking for may have been moved or renamed.'}
+          </p>
           <button className="px-4 py-2 rounded-xl bg-primary-600 text-white text-sm font-medium" onClick={() => navigate('/app/samples')}>
             Back to Showcase
           </button>
@@ -25,207 +61,50 @@ export default function ProjectShowcasePage() {
     );
   }
 
-  const { hero, microOverview, fullOverview, schedule, runOfShow, outcomes, materialsPrep, assignments, polish, planningNotes } = data;
-
-  const scrollToAssignment = (assignmentId: string) => {
-    scrollToElement(`assignment-${assignmentId}`, {
-      highlightClasses: ['ring-2', 'ring-primary-500', 'ring-offset-4', 'dark:ring-offset-slate-900'],
-      highlightDurationMs: 2000
-    });
-  };
+  const reviewing = Boolean(reviewId && review.request);
+  const comments = (anchors: ReviewAnchor[], defaultOpen = false) => (
+    <AnchoredComments
+      anchors={anchors}
+      threads={review.threads}
+      showcase={data}
+      onAdd={review.addComment}
+      onReply={review.reply}
+      onResolve={review.setResolved}
+      defaultOpen={defaultOpen}
+    />
+  );
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50/20 dark:from-[#040b1a] dark:via-[#040b1a] dark:to-[#0a1628] text-slate-900 dark:text-slate-100">
-      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 pt-24 sm:pt-28 pb-20">
-        {hero.image && (
-          <div className="mb-8 overflow-hidden squircle-card border border-slate-200/50 dark:border-slate-700/50 shadow-[0_16px_48px_rgba(15,23,42,0.12)] dark:shadow-[0_24px_60px_rgba(0,0,0,0.5)]">
-            <img src={hero.image} alt={`${hero.title} hero visual`} className="w-full h-52 sm:h-64 md:h-72 object-cover" />
-          </div>
-        )}
-
-        <header className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-10">
-          <div className="space-y-2">
-            <h1 className="text-3xl sm:text-4xl font-semibold tracking-tight text-slate-900 dark:text-slate-50">{hero.title}</h1>
-            <p className="text-slate-600 dark:text-slate-300 text-sm sm:text-base">{hero.tagline}</p>
-            {fullOverview && (
-              <p className="text-sm sm:text-base leading-relaxed text-slate-600 dark:text-slate-300">
-                {fullOverview}
-              </p>
-            )}
-            <div className="flex flex-wrap gap-2 text-xs sm:text-sm text-slate-500 dark:text-slate-300">
-              <span className="inline-flex items-center gap-1 rounded-full border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-1">{hero.gradeBand}</span>
-              <span className="inline-flex items-center gap-1 rounded-full border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-1">{hero.timeframe}</span>
-              {hero.subjects.map((subject) => (
-                <span key={subject} className="inline-flex items-center gap-1 rounded-full border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-1">
-                  {subject}
-                </span>
-              ))}
-            </div>
-          </div>
-          <div className="flex flex-wrap items-center gap-2">
-            <button className="px-4 py-2 rounded-xl bg-gray-100 text-sm font-medium text-gray-700 hover:bg-gray-200 dark:bg-slate-800 dark:text-slate-200 dark:hover:bg-slate-700" onClick={() => navigate('/app/samples')}>
-              Back to Showcase
-            </button>
-          </div>
-        </header>
-
-        <section className="bg-white/95 dark:bg-slate-900/95 backdrop-blur-lg squircle-card border border-slate-200/50 dark:border-slate-700/50 shadow-[0_8px_24px_rgba(15,23,42,0.08)] dark:shadow-[0_12px_32px_rgba(0,0,0,0.4)] p-6 sm:p-8 mb-10 space-y-5">
-          <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50">Arc at a glance</h2>
-          <ul className="space-y-2 text-slate-700 dark:text-slate-300 text-sm sm:text-base">
-            {microOverview.map((item, index) => (
-              <li key={index} className="leading-relaxed">• {item}</li>
-            ))}
-          </ul>
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm text-slate-600 dark:text-slate-300">
-            <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/90 dark:bg-slate-900/70 px-4 py-3">
-              <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500">Total weeks</div>
-              <div className="text-base font-semibold text-slate-900 dark:text-slate-100">{schedule.totalWeeks}</div>
-            </div>
-            <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/90 dark:bg-slate-900/70 px-4 py-3">
-              <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500">Lessons / week</div>
-              <div className="text-base font-semibold text-slate-900 dark:text-slate-100">{schedule.lessonsPerWeek}</div>
-            </div>
-            <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/90 dark:bg-slate-900/70 px-4 py-3">
-              <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500">Lesson length</div>
-              <div className="text-base font-semibold text-slate-900 dark:text-slate-100">{schedule.lessonLengthMin} minutes</div>
-            </div>
-          </div>
-        </section>
-
-        {planningNotes && (
-          <section className="mb-10">
-            <PlanningNotesCard notes={planningNotes} />
-          </section>
-        )}
-
-        <section className="mb-10 space-y-4">
-          <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50">Run of show</h2>
-          <div className="space-y-3">
-            {runOfShow.map((card, index) => (
-              <RunOfShowCard key={`${card.weekLabel}-${index}`} card={card} onAssignmentClick={scrollToAssignment} />
-            ))}
-          </div>
-        </section>
-
-        <section className="mb-10 space-y-4">
-          <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50">Assignments</h2>
-          <AssignmentPanel assignments={assignments} runOfShow={runOfShow} />
-        </section>
-
-        <section className="mb-10 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-slate-600 dark:text-slate-300">
-          <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm">
-            <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-2">Core outcomes</div>
-            <ul className="space-y-1 leading-snug">
-              {outcomes.core.map((item, idx) => <li key={idx}>• {item}</li>)}
-            </ul>
-          </div>
-          <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm">
-            <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-2">Extended outcomes</div>
-            <ul className="space-y-1 leading-snug">
-              {outcomes.extras.map((item, idx) => <li key={idx}>• {item}</li>)}
-            </ul>
-          </div>
-          <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm">
-            <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-2">Authentic audiences</div>
-            <ul className="space-y-1 leading-snug">
-              {outcomes.audiences.map((item, idx) => <li key={idx}>• {item}</li>)}
-            </ul>
-          </div>
-        </section>
-
-        <section className="mb-8 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-slate-600 dark:text-slate-300">
-          <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm">
-            <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-2">Core kit</div>
-            <ul className="space-y-1 leading-snug">
-              {materialsPrep.coreKit.map((item, idx) => <li key={idx}>• {item}</li>)}
-            </ul>
-          </div>
-          <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm">
-            <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-2">No-tech fallback</div>
-            <ul className="space-y-1 leading-snug">
-              {materialsPrep.noTechFallback.map((item, idx) => <li key={idx}>• {item}</li>)}
-            </ul>
-          </div>
-        </section>
-
-        {polish?.microRubric?.length || polish?.checkpoints?.length ? (
-          <section className="mb-10 squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm text-sm text-slate-600 dark:text-slate-300">
-            <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50 mb-2">Polish</h2>
-            {polish.microRubric?.length ? (
-              <div className="mb-3">
-                <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-1">Micro rubric</div>
-                <ul className="space-y-1 leading-snug">
-                  {polish.microRubric.map((item, idx) => <li key={idx}>• {item}</li>)}
-                </ul>
-              </div>
-            ) : null}
-            {polish.checkpoints?.length ? (
-              <div>
-                <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-1">Checkpoints</div>
-                <ul className="space-y-1 leading-snug">
-                  {polish.checkpoints.map((item, idx) => <li key={idx}>• {item}</li>)}
-                </ul>
-              </div>
-            ) : null}
-          </section>
-        ) : null}
-
-        {data.exhibition?.format || (Array.isArray(data.exhibition?.audience) && data.exhibition?.audience.length) ? (
-          <section className="mb-10 squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm text-sm text-slate-600 dark:text-slate-300">
-            <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50 mb-2">Exhibition</h2>
-            {data.exhibition?.format && <p>Format: {data.exhibition.format}</p>}
-            {data.exhibition?.audience && (
-              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
-                Audience: {Array.isArray(data.exhibition.audience) ? data.exhibition.audience.join(', ') : data.exhibition.audience}
-              </p>
-            )}
-          </section>
-        ) : null}
-
-        {data.communications?.length ? (
-          <section className="mb-10 squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm text-sm text-slate-600 dark:text-slate-300">
-            <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50 mb-2">Communications</h2>
-            <ul className="space-y-1 leading-snug">
-              {data.communications.map((c, idx) => (
-                <li key={idx}>{c.audience ? `${c.audience}: ` : ''}{c.subject || c.title || 'Message'}</li>
-              ))}
-            </ul>
-          </section>
-        ) : null}
-
-        {data.standards?.length ? (
-          <section className="mb-10 squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm text-sm text-slate-600 dark:text-slate-300">
-            <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50 mb-2">Standards</h2>
-            <div className="flex flex-wrap gap-2">
-              {data.standards.slice(0, 16).map((standard, idx) => (
-                <span key={idx} className="inline-flex items-center rounded-full border border-slate-200 dark:border-slate-700 px-3 py-1 bg-white dark:bg-slate-900/70 text-xs">
-                  {standard.code || standard.id || standard.name}
-                </span>
-              ))}
-            </div>
-          </section>
-        ) : null}
-
-        {data.roles?.length ? (
-          <section className="mb-10 squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm text-sm text-slate-600 dark:text-slate-300">
-            <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50 mb-2">Roles & Supports</h2>
-            <div className="flex flex-wrap gap-2">
-              {data.roles.map((role, idx) => (
-                <span key={idx} className="inline-flex items-center rounded-full border border-slate-200 dark:border-slate-700 px-3 py-1 bg-white dark:bg-slate-900/70 text-xs">
-                  {role.name}
-                </span>
-              ))}
-            </div>
-          </section>
-        ) : null}
-
-        {planningNotes && (
-          <section className="mb-16 squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm text-sm text-slate-600 dark:text-slate-300">
-            <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50 mb-2">Planning notes</h2>
-            <p className="leading-relaxed">{planningNotes}</p>
-          </section>
-        )}
-      </div>
-    </div>
+    <ShowcaseView
+      data={data}
+      actions={(
+        <>
+          <WordExportButtons showcase={data} />
+          <button className="px-4 py-2 rounded-xl bg-white border border-slate-200 text-sm font-medium text-slate-700 hover:bg-slate-50 dark:bg-slate-900 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800" onClick={() => { void navigate(`/app/showcase/${id}/student`); }}>
+            Student view
+          </button>
+          <button className="px-4 py-2 rounded-xl bg-gray-100 text-sm font-medium text-gray-700 hover:bg-gray-200 dark:bg-slate-800 dark:text-slate-200 dark:hover:bg-slate-700" onClick={() => navigate('/app/samples')}>
+            Back to Showcase
+          </button>
+        </>
+      )}
+      banner={reviewing && review.request ? (
+        <PeerReviewBanner
+          request={review.request}
+          openCount={review.openCount}
+          onStatusChange={review.setStatus}
+          onSummarize={review.summarize}
+        >
+          {comments([{ kind: 'project' }], true)}
+        </PeerReviewBanner>
+      ) : null}
+      renderWeekFooter={reviewing ? index => comments([{ kind: 'week', weekIndex: index }]) : undefined}
+      renderAssignmentFooter={reviewing ? assignment => comments(assignmentAnchors(assignment)) : undefined}
+    >
+      {/* Library projects are read-only; history only appears once a copy has been edited */}
+      <section className="mb-16">
+        <ProjectRevisionsPanel projectId={review.request?.projectId ?? data.id} readOnly hideWhenEmpty />
+      </section>
+    </ShowcaseView>
   );
 }
@@ -0,0 +1,100 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { shareService, type SharedProject } from '../../services/ShareService';
+
+export default function SharedGalleryPage() {
+  const [publicShares, setPublicShares] = useState<SharedProject[]>([]);
+  const [sharedWithMe, setSharedWithMe] = useState<SharedProject[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([shareService.listPublicGallery(), shareService.listSharedWithMe()])
+      .then(([gallery, invited]) => {
+        if (cancelled) {return;}
+        setPublicShares(gallery);
+        setSharedWithMe(invited.filter(share => !share.isPublic));
+      })
+      .catch(error => {
+        console.warn('[SharedGalleryPage] Failed to load shared projects:', error);
+      })
+      .finally(() => {
+        if (!cancelled) {setLoading(false);}
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {return publicShares;}
+    return publicShares.filter(share =>
+      [share.title, share.tagline, share.gradeBand, ...share.subjects]
+        .some(value => value?.toLowerCase().includes(needle)));
+  }, [publicShares, query]);
+
+  const renderCard = (share: SharedProject) => (
+    <li key={share.slug}>
+      <Link
+        to={`/app/shared/${encodeURIComponent(share.slug)}`}
+        className="block h-full squircle-card border border-slate-200/60 dark:border-slate-700/60 bg-white/95 dark:bg-slate-900/95 p-5 hover:shadow-[0_8px_24px_rgba(15,23,42,0.08)] transition-shadow"
+      >
+        <div className="text-base font-semibold text-slate-900 dark:text-slate-50">{share.title}</div>
+        {share.tagline && <p className="mt-1 text-sm text-slate-600 dark:text-slate-300 line-clamp-2">{share.tagline}</p>}
+        <div className="mt-3 flex flex-wrap gap-2 text-xs text-slate-500 dark:text-slate-400">
+          {share.gradeBand && <span className="rounded-full border border-slate-200 dark:border-slate-700 px-2 py-0.5">{share.gradeBand}</span>}
+          {share.subjects.map(subject => (
+            <span key={subject} className="rounded-full border border-slate-200 dark:border-slate-700 px-2 py-0.5">{subject}</span>
+          ))}
+        </div>
+        {share.ownerName && <div className="mt-3 text-xs text-slate-400">Shared by {share.ownerName}</div>}
+      </Link>
+    </li>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50/20 dark:from-[#040b1a] dark:via-[#040b1a] dark:to-[#0a1628] text-slate-900 dark:text-slate-100">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 pt-24 sm:pt-28 pb-20 space-y-10">
+        <header className="space-y-3">
+          <h1 className="text-3xl sm:text-4xl font-semibold tracking-tight text-slate-900 dark:text-slate-50">Community gallery</h1>
+          <p className="text-slate-600 dark:text-slate-300 text-sm sm:text-base">
+            Projects other teachers have shared publicly. Open one to read it, or duplicate it into your own workspace to adapt it.
+          </p>
+          <input
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search by title, subject or grade band"
+            aria-label="Search shared projects"
+            className="w-full sm:w-96 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-4 py-2 text-sm"
+          />
+        </header>
+
+        {loading ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">Loading shared projects…</p>
+        ) : (
+          <>
+            {sharedWithMe.length > 0 && (
+              <section className="space-y-4">
+                <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50">Shared with you</h2>
+                <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">{sharedWithMe.map(renderCard)}</ul>
+              </section>
+            )}
+            <section className="space-y-4">
+              {sharedWithMe.length > 0 && <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50">Public projects</h2>}
+              {filtered.length > 0 ? (
+                <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">{filtered.map(renderCard)}</ul>
+              ) : (
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                  {query ? 'No shared projects match that search.' : 'No projects have been shared publicly yet.'}
+                </p>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
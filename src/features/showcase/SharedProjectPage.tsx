@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import ShowcaseView from './components/ShowcaseView';
+import { shareService, type SharedProject } from '../../services/ShareService';
+
+export default function SharedProjectPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const [share, setShare] = useState<SharedProject | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [duplicating, setDuplicating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!slug) {
+      setLoading(false);
+      return undefined;
+    }
+    let cancelled = false;
+    setLoading(true);
+    shareService.getShared(slug)
+      .then(loaded => {
+        if (!cancelled) {setShare(loaded);}
+      })
+      .catch(err => {
+        console.warn('[SharedProjectPage] Failed to load shared project:', err);
+      })
+      .finally(() => {
+        if (!cancelled) {setLoading(false);}
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  const duplicate = async () => {
+    if (!slug) {return;}
+    setDuplicating(true);
+    setError(null);
+    try {
+      const projectId = await shareService.duplicateIntoWorkspace(slug);
+      void navigate(`/app/project/${projectId}/preview`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not copy this project');
+      setDuplicating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-950 text-sm text-gray-500 dark:text-gray-400">
+        Loading shared project…
+      </div>
+    );
+  }
+
+  if (!share) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-950 text-gray-600 dark:text-gray-200">
+        <div className="rounded-2xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-6 py-5 shadow-sm text-center space-y-3">
+          <div className="text-lg font-semibold">Shared project not available</div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            The link may have been revoked, or it was shared with a different account.
+          </p>
+          <button className="px-4 py-2 rounded-xl bg-primary-600 text-white text-sm font-medium" onClick={() => { void navigate('/app/gallery'); }}>
+            Browse the gallery
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <ShowcaseView
+      data={share.showcase}
+      actions={(
+        <>
+          <button
+            type="button"
+            disabled={duplicating}
+            onClick={() => { void duplicate(); }}
+            className="px-4 py-2 rounded-xl bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-50"
+          >
+            {duplicating ? 'Copying…' : 'Duplicate into my projects'}
+          </button>
+          <button className="px-4 py-2 rounded-xl bg-gray-100 text-sm font-medium text-gray-700 hover:bg-gray-200 dark:bg-slate-800 dark:text-slate-200 dark:hover:bg-slate-700" onClick={() => { void navigate('/app/gallery'); }}>
+            Gallery
+          </button>
+        </>
+      )}
+      banner={(
+        <div className="mb-10 space-y-2 text-sm text-slate-600 dark:text-slate-300">
+          <p>
+            Shared {share.ownerName ? `by ${share.ownerName} ` : ''}· read-only copy, last updated {new Date(share.updatedAt).toLocaleDateString()}
+          </p>
+          {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+      )}
+    />
+  );
+}
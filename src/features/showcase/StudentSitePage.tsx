@@ -0,0 +1,258 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Download, Loader2 } from 'lucide-react';
+import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
+import { getProjectV2 } from '../../utils/showcaseV2-registry';
+import { buildProjectCalendar, type ProjectCalendar } from '../../utils/schoolCalendar';
+import { buildStudentSite, type StudentSite, type StudentSiteWeek } from '../../utils/studentSite';
+import { sanitizeShowcase } from '../../utils/sanitize';
+import { ShowcaseLintError } from '../../utils/showcaseLint';
+import { translate, type MessageKey, type MessageParams } from '../../i18n';
+import { unifiedStorage } from '../../services/UnifiedStorageManager';
+import { exportStudentSite } from '../review/exportUtilsLazy';
+
+interface LoadedProject {
+  showcase: ProjectShowcaseV2;
+  calendar: ProjectCalendar | null;
+}
+
+function WeekDetails({ site, week }: { site: StudentSite; week: StudentSiteWeek }) {
+  const m = (key: MessageKey, params?: MessageParams) => translate(site.locale, key, params);
+  const titles = new Map(site.assignments.map(assignment => [assignment.id, assignment.title]));
+  const linked = week.assignmentIds.filter(id => titles.has(id));
+  return (
+    <>
+      <div className="text-sm text-slate-500 dark:text-slate-400">
+        {m('studentSite.weekOf', { week: week.label, total: site.totalWeeks })}
+        {week.dateLabel ? ` · ${week.dateLabel}` : ''}
+      </div>
+      <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">{week.focus}</h3>
+      {week.doing.length > 0 && (
+        <>
+          <h4 className="mt-3 font-medium text-slate-700 dark:text-slate-300">{m('studentSite.doing')}</h4>
+          <ul className="list-disc pl-6">
+            {week.doing.map((item, index) => <li key={index}>{item}</li>)}
+          </ul>
+        </>
+      )}
+      {linked.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-3">
+          {linked.map(id => (
+            <a key={id} href={`#assignment-${id}`} className="text-primary-700 dark:text-primary-300 underline">
+              {titles.get(id)}
+            </a>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+/**
+ * Student view of a project: driving question, this week, and assignment
+ * directions and success criteria only. Works for library projects and the
+ * teacher's own projects (with their school calendar, when scheduled).
+ */
+export default function StudentSitePage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const registryShowcase = useMemo(() => (id ? getProjectV2(id) : undefined), [id]);
+  const [loaded, setLoaded] = useState<LoadedProject | null>(null);
+  const [loading, setLoading] = useState(!registryShowcase);
+  const [pinnedWeek, setPinnedWeek] = useState<number | undefined>(undefined);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id || registryShowcase) {
+      setLoading(false);
+      return undefined;
+    }
+    let cancelled = false;
+    setLoading(true);
+    unifiedStorage.loadProject(id)
+      .then(project => {
+        if (cancelled || !project?.showcase) {return;}
+        const showcase: ProjectShowcaseV2 = sanitizeShowcase(project.showcase);
+        let calendar: ProjectCalendar | null = null;
+        if (project.calendar) {
+          try {
+            calendar = buildProjectCalendar(showcase, project.calendar);
+          } catch (err) {
+            console.warn('[StudentSitePage] Could not schedule project:', err);
+          }
+        }
+        setLoaded({ showcase, calendar });
+      })
+      .catch(err => {
+        console.warn('[StudentSitePage] Failed to load project:', err);
+      })
+      .finally(() => {
+        if (!cancelled) {setLoading(false);}
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, registryShowcase]);
+
+  const showcase = registryShowcase ?? loaded?.showcase ?? null;
+  const calendar = loaded?.calendar ?? null;
+  const site = useMemo(
+    () => (showcase ? buildStudentSite(showcase, { calendar, weekIndex: pinnedWeek }) : null),
+    [showcase, calendar, pinnedWeek]
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-950 text-sm text-gray-500 dark:text-gray-400">
+        Loading student view…
+      </div>
+    );
+  }
+
+  if (!showcase || !site) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-950 text-gray-600 dark:text-gray-200">
+        <div className="rounded-2xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-6 py-5 shadow-sm text-center space-y-3">
+          <div className="text-lg font-semibold">Project not found</div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            The project you’re looking for may have been moved or deleted.
+          </p>
+          <button className="px-4 py-2 rounded-xl bg-primary-600 text-white text-sm font-medium" onClick={() => { void navigate('/app/dashboard'); }}>
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const m = (key: MessageKey, params?: MessageParams) => translate(site.locale, key, params);
+  const current = site.weeks[site.currentWeekIndex];
+  const canDownload = import.meta.env?.VITE_ENABLE_DOWNLOADS === 'true';
+
+  const download = async () => {
+    setDownloading(true);
+    setError(null);
+    try {
+      await exportStudentSite(showcase, { calendar, weekIndex: pinnedWeek });
+    } catch (err) {
+      console.error('[StudentSitePage] Student site export failed:', err);
+      setError(err instanceof ShowcaseLintError ? err.message : 'Could not create the offline site. Please try again.');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-950">
+      {/* Teacher toolbar; not part of the exported site */}
+      <div className="print-hidden border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+        <div className="max-w-3xl mx-auto px-4 py-3 flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => { void navigate(-1); }}
+            className="inline-flex items-center gap-1 text-sm text-slate-600 dark:text-slate-300 hover:text-slate-900"
+          >
+            <ArrowLeft className="w-4 h-4" /> Back
+          </button>
+          <span className="text-sm text-slate-500 dark:text-slate-400">Student view · grades {site.gradeBand}</span>
+          <label className="ml-auto flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+            This week
+            <select
+              value={site.currentWeekIndex}
+              onChange={(event) => setPinnedWeek(Number(event.target.value))}
+              className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-2 py-1 text-sm"
+            >
+              {site.weeks.map(week => (
+                <option key={week.index} value={week.index}>{week.label}</option>
+              ))}
+            </select>
+          </label>
+          {canDownload && (
+            <button
+              onClick={() => { void download(); }}
+              disabled={downloading}
+              className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-60"
+            >
+              {downloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              Offline site (.html)
+            </button>
+          )}
+          {error && <p className="w-full text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+      </div>
+
+      <main lang={site.locale} className="max-w-3xl mx-auto px-4 py-8 text-lg text-slate-800 dark:text-slate-200">
+        <header>
+          <h1 className="text-3xl font-bold text-slate-900 dark:text-slate-100">{site.title}</h1>
+          {site.tagline && <p className="text-slate-600 dark:text-slate-400">{site.tagline}</p>}
+        </header>
+
+        {site.drivingQuestion && (
+          <section className="mt-6 p-5 rounded-2xl bg-primary-50 dark:bg-primary-900/20 border-2 border-primary-200 dark:border-primary-800">
+            <h2 className="text-base font-semibold text-primary-800 dark:text-primary-200">{m('studentSite.drivingQuestion')}</h2>
+            <p className="text-2xl font-semibold text-slate-900 dark:text-slate-100">{site.drivingQuestion}</p>
+          </section>
+        )}
+
+        {current && (
+          <section className="mt-8">
+            <h2 className="text-xl font-semibold mb-3">{m('studentSite.thisWeek')}</h2>
+            <div className="p-5 rounded-xl bg-white dark:bg-slate-900 border-2 border-primary-400">
+              <WeekDetails site={site} week={current} />
+            </div>
+          </section>
+        )}
+
+        {site.assignments.length > 0 && (
+          <section className="mt-8">
+            <h2 className="text-xl font-semibold mb-3">{m('studentSite.assignments')}</h2>
+            <div className="space-y-3">
+              {site.assignments.map(assignment => (
+                <article
+                  key={assignment.id}
+                  id={`assignment-${assignment.id}`}
+                  className="p-5 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700"
+                >
+                  <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">{assignment.title}</h3>
+                  {assignment.summary && <p>{assignment.summary}</p>}
+                  {assignment.directions.length > 0 && (
+                    <>
+                      <h4 className="mt-3 font-medium">{m('handout.whatToDo')}</h4>
+                      <ol className="list-decimal pl-6">
+                        {assignment.directions.map((item, index) => <li key={index}>{item}</li>)}
+                      </ol>
+                    </>
+                  )}
+                  {assignment.successCriteria.length > 0 && (
+                    <>
+                      <h4 className="mt-3 font-medium">{m('handout.success')}</h4>
+                      <ul className="list-disc pl-6">
+                        {assignment.successCriteria.map((item, index) => <li key={index}>{item}</li>)}
+                      </ul>
+                    </>
+                  )}
+                </article>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {site.weeks.length > 0 && (
+          <section className="mt-8">
+            <h2 className="text-xl font-semibold mb-3">{m('studentSite.plan')}</h2>
+            <ol className="space-y-3">
+              {site.weeks.map(week => (
+                <li
+                  key={week.index}
+                  className={`p-5 rounded-xl bg-white dark:bg-slate-900 border ${week.index === site.currentWeekIndex ? 'border-2 border-primary-400' : 'border-slate-200 dark:border-slate-700'}`}
+                >
+                  <WeekDetails site={site} week={week} />
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
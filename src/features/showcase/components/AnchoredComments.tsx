@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import type { ProjectShowcaseV2 } from '../../../types/showcaseV2';
+import {
+  reviewAnchorKey,
+  reviewAnchorLabel,
+  type ReviewAnchor,
+  type ReviewThread
+} from '../../../core/services/ExpertReviewService';
+
+interface AnchoredCommentsProps {
+  // First anchor is the default target for new comments; the rest are offered in a picker
+  anchors: ReviewAnchor[];
+  threads: ReviewThread[];
+  showcase: ProjectShowcaseV2;
+  onAdd: (anchor: ReviewAnchor, body: string) => Promise<void>;
+  onReply: (commentId: string, body: string) => Promise<void>;
+  onResolve: (commentId: string, resolved: boolean) => Promise<void>;
+  defaultOpen?: boolean;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function AnchoredComments({
+  anchors,
+  threads,
+  showcase,
+  onAdd,
+  onReply,
+  onResolve,
+  defaultOpen = false
+}: AnchoredCommentsProps) {
+  const [open, setOpen] = useState(defaultOpen);
+  const [anchorIndex, setAnchorIndex] = useState(0);
+  const [draft, setDraft] = useState('');
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [showResolved, setShowResolved] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const keys = new Set(anchors.map(reviewAnchorKey));
+  const anchored = threads.filter(thread => keys.has(thread.root.anchorKey));
+  const openThreads = anchored.filter(thread => !thread.root.resolved);
+  const visible = showResolved ? anchored : openThreads;
+  const resolvedCount = anchored.length - openThreads.length;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submit = () => run(async () => {
+    await onAdd(anchors[anchorIndex] ?? anchors[0], draft);
+    setDraft('');
+  });
+
+  const submitReply = (commentId: string) => run(async () => {
+    await onReply(commentId, replyDrafts[commentId] ?? '');
+    setReplyDrafts(prev => ({ ...prev, [commentId]: '' }));
+  });
+
+  return (
+    <div className="border-t border-slate-200/60 dark:border-slate-700/60 pt-3">
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        aria-expanded={open}
+        className="inline-flex items-center gap-2 text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-primary-700 dark:hover:text-primary-300"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M21 12c0 4.418-4.03 8-9 8a9.86 9.86 0 01-4-.83L3 20l1.4-3.72A7.6 7.6 0 013 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+        </svg>
+        {openThreads.length > 0
+          ? `${openThreads.length} open comment${openThreads.length !== 1 ? 's' : ''}`
+          : 'Comment'}
+        {resolvedCount > 0 && <span className="text-xs text-slate-400">({resolvedCount} resolved)</span>}
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          {visible.map(({ root, replies }) => (
+            <div
+              key={root.id}
+              className={`rounded-xl border px-4 py-3 text-sm ${
+                root.resolved
+                  ? 'border-slate-200/60 dark:border-slate-700/60 bg-slate-50 dark:bg-slate-800/40 opacity-75'
+                  : 'border-amber-200 dark:border-amber-800/60 bg-amber-50/60 dark:bg-amber-950/20'
+              }`}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                  {reviewAnchorLabel(root.anchor, showcase)}
+                </span>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => { void run(() => onResolve(root.id, !root.resolved)); }}
+                  className="text-xs font-medium text-primary-700 dark:text-primary-300 hover:underline disabled:opacity-50"
+                >
+                  {root.resolved ? 'Reopen' : 'Resolve'}
+                </button>
+              </div>
+              {[root, ...replies].map(comment => (
+                <div key={comment.id} className={comment.parentId ? 'mt-2 pl-3 border-l-2 border-slate-200 dark:border-slate-700' : ''}>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">
+                    <span className="font-semibold text-slate-700 dark:text-slate-200">{comment.authorName || 'Reviewer'}</span>
+                    {' · '}{formatTime(comment.createdAt)}
+                  </div>
+                  <p className="whitespace-pre-wrap text-slate-700 dark:text-slate-300 leading-relaxed">{comment.body}</p>
+                </div>
+              ))}
+              {!root.resolved && (
+                <div className="mt-2 flex gap-2">
+                  <input
+                    value={replyDrafts[root.id] ?? ''}
+                    onChange={event => setReplyDrafts(prev => ({ ...prev, [root.id]: event.target.value }))}
+                    placeholder="Reply…"
+                    aria-label="Reply to comment"
+                    className="flex-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-1.5 text-sm"
+                  />
+                  <button
+                    type="button"
+                    disabled={busy || !(replyDrafts[root.id] ?? '').trim()}
+                    onClick={() => { void submitReply(root.id); }}
+                    className="px-3 py-1.5 rounded-lg bg-slate-800 text-white text-xs font-medium disabled:opacity-50"
+                  >
+                    Reply
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {resolvedCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowResolved(prev => !prev)}
+              className="text-xs text-slate-500 dark:text-slate-400 hover:underline"
+            >
+              {showResolved ? 'Hide resolved' : `Show ${resolvedCount} resolved`}
+            </button>
+          )}
+
+          <div className="space-y-2">
+            {anchors.length > 1 && (
+              <select
+                value={anchorIndex}
+                onChange={event => setAnchorIndex(Number(event.target.value))}
+                aria-label="Comment on"
+                className="w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-1.5 text-sm"
+              >
+                {anchors.map((anchor, index) => (
+                  <option key={reviewAnchorKey(anchor)} value={index}>
+                    {reviewAnchorLabel(anchor, showcase)}
+                  </option>
+                ))}
+              </select>
+            )}
+            <textarea
+              value={draft}
+              onChange={event => setDraft(event.target.value)}
+              rows={3}
+              placeholder="Leave feedback…"
+              aria-label="New comment"
+              className="w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-2 text-sm"
+            />
+            {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+            <button
+              type="button"
+              disabled={busy || !draft.trim()}
+              onClick={() => { void submit(); }}
+              className="px-4 py-2 rounded-xl bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-50"
+            >
+              Add comment
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
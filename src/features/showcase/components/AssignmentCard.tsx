@@ -5,9 +5,10 @@ import { getAssignmentColor } from '../utils/phaseColors';
 interface AssignmentCardProps {
   assignment: AssignmentCardType;
   weeksUsedIn: string[];
+  footer?: React.ReactNode; // e.g. review comments
 }
 
-export default function AssignmentCard({ assignment, weeksUsedIn }: AssignmentCardProps) {
+export default function AssignmentCard({ assignment, weeksUsedIn, footer }: AssignmentCardProps) {
   const [showAIDetails, setShowAIDetails] = useState(false);
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({});
 
@@ -265,6 +266,7 @@ export default function AssignmentCard({ assignment, weeksUsedIn }: AssignmentCa
             </div>
           </div>
         )}
+        {footer}
       </div>
     </div>
   );
@@ -6,9 +6,10 @@ import { buildAssignmentWeekMap, getWeeksForAssignment } from '../utils/weekAssi
 interface AssignmentPanelProps {
   assignments: AssignmentCardType[];
   runOfShow: WeekCard[];
+  renderFooter?: (assignment: AssignmentCardType) => React.ReactNode;
 }
 
-export default function AssignmentPanel({ assignments, runOfShow }: AssignmentPanelProps) {
+export default function AssignmentPanel({ assignments, runOfShow, renderFooter }: AssignmentPanelProps) {
   const assignmentWeekMap = useMemo(() => buildAssignmentWeekMap(runOfShow), [runOfShow]);
 
   if (!assignments || assignments.length === 0) {
@@ -22,6 +23,7 @@ export default function AssignmentPanel({ assignments, runOfShow }: AssignmentPa
           key={assignment.id}
           assignment={assignment}
           weeksUsedIn={getWeeksForAssignment(assignment.id, assignmentWeekMap)}
+          footer={renderFooter?.(assignment)}
         />
       ))}
     </div>
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type {
+  FeedbackSummary,
+  PeerReviewRequest,
+  PeerReviewStatus
+} from '../../../core/services/ExpertReviewService';
+
+interface PeerReviewBannerProps {
+  request: PeerReviewRequest;
+  openCount: number;
+  onStatusChange: (status: PeerReviewStatus) => Promise<void>;
+  onSummarize: () => Promise<FeedbackSummary | null>;
+  children?: React.ReactNode; // project-level comments
+}
+
+const STATUS_LABELS: Record<PeerReviewStatus, string> = {
+  requested: 'Requested',
+  'in-review': 'In review',
+  completed: 'Review complete',
+  declined: 'Declined'
+};
+
+export default function PeerReviewBanner({ request, openCount, onStatusChange, onSummarize, children }: PeerReviewBannerProps) {
+  const [summary, setSummary] = useState<FeedbackSummary | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="mb-10 squircle-card border border-primary-200 dark:border-primary-800/60 bg-primary-50/70 dark:bg-primary-950/20 px-5 py-5 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+        <div className="space-y-1">
+          <div className="text-xs uppercase tracking-wide font-semibold text-primary-700 dark:text-primary-300">
+            Peer review · {STATUS_LABELS[request.status]}
+          </div>
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-50">
+            {request.ownerName ? `${request.ownerName} asked for feedback` : 'Feedback requested'}
+          </h2>
+          {request.message && (
+            <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">“{request.message}”</p>
+          )}
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            {openCount} open thread{openCount !== 1 ? 's' : ''}. Use the comment links on any week or assignment to anchor feedback.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            disabled={busy || openCount === 0}
+            onClick={() => { void run(async () => setSummary(await onSummarize())); }}
+            className="px-4 py-2 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-slate-50 disabled:opacity-50"
+          >
+            Summarize open feedback
+          </button>
+          {request.status !== 'completed' && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => { void run(() => onStatusChange('completed')); }}
+              className="px-4 py-2 rounded-xl bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-50"
+            >
+              Mark review complete
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {summary && (
+        <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-4 py-3 text-sm space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-semibold text-slate-900 dark:text-slate-100">Open feedback summary</span>
+            <span className="text-xs text-slate-400">{summary.source === 'ai' ? 'AI summary' : 'Grouped by location'}</span>
+          </div>
+          <p className="text-slate-700 dark:text-slate-300">{summary.overview}</p>
+          {summary.themes.length > 0 && (
+            <ul className="space-y-1">
+              {summary.themes.map((theme, index) => (
+                <li key={index} className="text-slate-700 dark:text-slate-300">
+                  <span className="font-medium">{theme.title}:</span> {theme.action}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {children}
+    </section>
+  );
+}
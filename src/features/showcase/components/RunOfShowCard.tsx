@@ -7,9 +7,10 @@ import CheckpointAlert from './CheckpointAlert';
 interface RunOfShowCardProps {
   card: WeekCard;
   onAssignmentClick: (assignmentId: string) => void;
+  footer?: React.ReactNode; // e.g. review comments
 }
 
-export default function RunOfShowCard({ card, onAssignmentClick }: RunOfShowCardProps) {
+export default function RunOfShowCard({ card, onAssignmentClick, footer }: RunOfShowCardProps) {
   const phaseColor = getPhaseColor(card.kind);
   return (
     <div
@@ -124,6 +125,7 @@ export default function RunOfShowCard({ card, onAssignmentClick }: RunOfShowCard
         </div>
 
         {card.checkpoint && card.checkpoint.length > 0 && <CheckpointAlert checkpoints={card.checkpoint} />}
+        {footer}
       </div>
     </div>
   );
@@ -0,0 +1,244 @@
+import React from 'react';
+import type { AssignmentCard, ProjectShowcaseV2 } from '../../../types/showcaseV2';
+import RunOfShowCard from './RunOfShowCard';
+import AssignmentPanel from './AssignmentPanel';
+import PlanningNotesCard from './PlanningNotesCard';
+import { scrollToElement } from '../utils/scrollToElement';
+import { useTranslation } from '../../../i18n/useTranslation';
+
+interface ShowcaseViewProps {
+  data: ProjectShowcaseV2;
+  actions?: React.ReactNode;  // header buttons
+  banner?: React.ReactNode;   // between the header and "Arc at a glance"
+  renderWeekFooter?: (weekIndex: number) => React.ReactNode;
+  renderAssignmentFooter?: (assignment: AssignmentCard) => React.ReactNode;
+  children?: React.ReactNode; // after the last section
+}
+
+/**
+ * Read-only rendering of a ProjectShowcaseV2, shared by the library, review and share pages
+ */
+export default function ShowcaseView({
+  data,
+  actions,
+  banner,
+  renderWeekFooter,
+  renderAssignmentFooter,
+  children
+}: ShowcaseViewProps) {
+  const { t } = useTranslation();
+  const { hero, microOverview, fullOverview, schedule, runOfShow, outcomes, materialsPrep, assignments, polish, planningNotes } = data;
+
+  const scrollToAssignment = (assignmentId: string) => {
+    scrollToElement(`assignment-${assignmentId}`, {
+      highlightClasses: ['ring-2', 'ring-primary-500', 'ring-offset-4', 'dark:ring-offset-slate-900'],
+      highlightDurationMs: 2000
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50/20 dark:from-[#040b1a] dark:via-[#040b1a] dark:to-[#0a1628] text-slate-900 dark:text-slate-100">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 pt-24 sm:pt-28 pb-20">
+        {hero.image && (
+          <div className="mb-8 overflow-hidden squircle-card border border-slate-200/50 dark:border-slate-700/50 shadow-[0_16px_48px_rgba(15,23,42,0.12)] dark:shadow-[0_24px_60px_rgba(0,0,0,0.5)]">
+            <img src={hero.image} alt={`${hero.title} hero visual`} className="w-full h-52 sm:h-64 md:h-72 object-cover" />
+          </div>
+        )}
+
+        <header className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-10">
+          <div className="space-y-2">
+            <h1 className="text-3xl sm:text-4xl font-semibold tracking-tight text-slate-900 dark:text-slate-50">{hero.title}</h1>
+            <p className="text-slate-600 dark:text-slate-300 text-sm sm:text-base">{hero.tagline}</p>
+            {fullOverview && (
+              <p className="text-sm sm:text-base leading-relaxed text-slate-600 dark:text-slate-300">
+                {fullOverview}
+              </p>
+            )}
+            <div className="flex flex-wrap gap-2 text-xs sm:text-sm text-slate-500 dark:text-slate-300">
+              <span className="inline-flex items-center gap-1 rounded-full border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-1">{hero.gradeBand}</span>
+              <span className="inline-flex items-center gap-1 rounded-full border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-1">{hero.timeframe}</span>
+              {hero.subjects.map((subject) => (
+                <span key={subject} className="inline-flex items-center gap-1 rounded-full border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-1">
+                  {subject}
+                </span>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {actions}
+          </div>
+        </header>
+
+        {banner}
+
+        <section className="bg-white/95 dark:bg-slate-900/95 backdrop-blur-lg squircle-card border border-slate-200/50 dark:border-slate-700/50 shadow-[0_8px_24px_rgba(15,23,42,0.08)] dark:shadow-[0_12px_32px_rgba(0,0,0,0.4)] p-6 sm:p-8 mb-10 space-y-5">
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50">{t('showcase.arcAtAGlance')}</h2>
+          <ul className="space-y-2 text-slate-700 dark:text-slate-300 text-sm sm:text-base">
+            {microOverview.map((item, index) => (
+              <li key={index} className="leading-relaxed">• {item}</li>
+            ))}
+          </ul>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm text-slate-600 dark:text-slate-300">
+            <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/90 dark:bg-slate-900/70 px-4 py-3">
+              <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500">{t('showcase.totalWeeks')}</div>
+              <div className="text-base font-semibold text-slate-900 dark:text-slate-100">{schedule.totalWeeks}</div>
+            </div>
+            <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/90 dark:bg-slate-900/70 px-4 py-3">
+              <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500">{t('showcase.lessonsPerWeek')}</div>
+              <div className="text-base font-semibold text-slate-900 dark:text-slate-100">{schedule.lessonsPerWeek}</div>
+            </div>
+            <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/90 dark:bg-slate-900/70 px-4 py-3">
+              <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500">{t('showcase.lessonLength')}</div>
+              <div className="text-base font-semibold text-slate-900 dark:text-slate-100">{schedule.lessonLengthMin} minutes</div>
+            </div>
+          </div>
+        </section>
+
+        {planningNotes && (
+          <section className="mb-10">
+            <PlanningNotesCard notes={planningNotes} />
+          </section>
+        )}
+
+        <section className="mb-10 space-y-4">
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50">{t('showcase.runOfShow')}</h2>
+          <div className="space-y-3">
+            {runOfShow.map((card, index) => (
+              <RunOfShowCard
+                key={`${card.weekLabel}-${index}`}
+                card={card}
+                onAssignmentClick={scrollToAssignment}
+                footer={renderWeekFooter?.(index)}
+              />
+            ))}
+          </div>
+        </section>
+
+        <section className="mb-10 space-y-4">
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50">{t('showcase.assignments')}</h2>
+          <AssignmentPanel
+            assignments={assignments}
+            runOfShow={runOfShow}
+            renderFooter={renderAssignmentFooter}
+          />
+        </section>
+
+        <section className="mb-10 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-slate-600 dark:text-slate-300">
+          <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm">
+            <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-2">{t('showcase.coreOutcomes')}</div>
+            <ul className="space-y-1 leading-snug">
+              {outcomes.core.map((item, idx) => <li key={idx}>• {item}</li>)}
+            </ul>
+          </div>
+          <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm">
+            <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-2">{t('showcase.extendedOutcomes')}</div>
+            <ul className="space-y-1 leading-snug">
+              {outcomes.extras.map((item, idx) => <li key={idx}>• {item}</li>)}
+            </ul>
+          </div>
+          <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm">
+            <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-2">{t('showcase.audiences')}</div>
+            <ul className="space-y-1 leading-snug">
+              {outcomes.audiences.map((item, idx) => <li key={idx}>• {item}</li>)}
+            </ul>
+          </div>
+        </section>
+
+        <section className="mb-8 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-slate-600 dark:text-slate-300">
+          <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm">
+            <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-2">{t('showcase.coreKit')}</div>
+            <ul className="space-y-1 leading-snug">
+              {materialsPrep.coreKit.map((item, idx) => <li key={idx}>• {item}</li>)}
+            </ul>
+          </div>
+          <div className="squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm">
+            <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-2">{t('showcase.noTechFallback')}</div>
+            <ul className="space-y-1 leading-snug">
+              {materialsPrep.noTechFallback.map((item, idx) => <li key={idx}>• {item}</li>)}
+            </ul>
+          </div>
+        </section>
+
+        {polish?.microRubric?.length || polish?.checkpoints?.length ? (
+          <section className="mb-10 squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm text-sm text-slate-600 dark:text-slate-300">
+            <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50 mb-2">{t('showcase.polish')}</h2>
+            {polish.microRubric?.length ? (
+              <div className="mb-3">
+                <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-1">{t('showcase.microRubric')}</div>
+                <ul className="space-y-1 leading-snug">
+                  {polish.microRubric.map((item, idx) => <li key={idx}>• {item}</li>)}
+                </ul>
+              </div>
+            ) : null}
+            {polish.checkpoints?.length ? (
+              <div>
+                <div className="text-xs uppercase tracking-wide text-slate-400 dark:text-slate-500 mb-1">{t('showcase.checkpoints')}</div>
+                <ul className="space-y-1 leading-snug">
+                  {polish.checkpoints.map((item, idx) => <li key={idx}>• {item}</li>)}
+                </ul>
+              </div>
+            ) : null}
+          </section>
+        ) : null}
+
+        {data.exhibition?.format || (Array.isArray(data.exhibition?.audience) && data.exhibition?.audience.length) ? (
+          <section className="mb-10 squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm text-sm text-slate-600 dark:text-slate-300">
+            <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50 mb-2">{t('showcase.exhibition')}</h2>
+            {data.exhibition?.format && <p>Format: {data.exhibition.format}</p>}
+            {data.exhibition?.audience && (
+              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                Audience: {Array.isArray(data.exhibition.audience) ? data.exhibition.audience.join(', ') : data.exhibition.audience}
+              </p>
+            )}
+          </section>
+        ) : null}
+
+        {data.communications?.length ? (
+          <section className="mb-10 squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm text-sm text-slate-600 dark:text-slate-300">
+            <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50 mb-2">{t('showcase.communications')}</h2>
+            <ul className="space-y-1 leading-snug">
+              {data.communications.map((c, idx) => (
+                <li key={idx}>{c.audience ? `${c.audience}: ` : ''}{c.subject || c.title || 'Message'}</li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+
+        {data.standards?.length ? (
+          <section className="mb-10 squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm text-sm text-slate-600 dark:text-slate-300">
+            <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50 mb-2">{t('showcase.standards')}</h2>
+            <div className="flex flex-wrap gap-2">
+              {data.standards.slice(0, 16).map((standard, idx) => (
+                <span key={idx} className="inline-flex items-center rounded-full border border-slate-200 dark:border-slate-700 px-3 py-1 bg-white dark:bg-slate-900/70 text-xs">
+                  {standard.code || standard.id || standard.name}
+                </span>
+              ))}
+            </div>
+          </section>
+        ) : null}
+
+        {data.roles?.length ? (
+          <section className="mb-10 squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm text-sm text-slate-600 dark:text-slate-300">
+            <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50 mb-2">{t('showcase.roles')}</h2>
+            <div className="flex flex-wrap gap-2">
+              {data.roles.map((role, idx) => (
+                <span key={idx} className="inline-flex items-center rounded-full border border-slate-200 dark:border-slate-700 px-3 py-1 bg-white dark:bg-slate-900/70 text-xs">
+                  {role.name}
+                </span>
+              ))}
+            </div>
+          </section>
+        ) : null}
+
+        {planningNotes && (
+          <section className="mb-16 squircle-pure border border-slate-200/50 dark:border-slate-700/50 bg-white/95 dark:bg-slate-900/90 backdrop-blur-sm px-4 py-4 shadow-sm text-sm text-slate-600 dark:text-slate-300">
+            <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-50 mb-2">{t('showcase.planningNotes')}</h2>
+            <p className="leading-relaxed">{planningNotes}</p>
+          </section>
+        )}
+
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import type { ProjectShowcaseV2 } from '../../../types/showcaseV2';
+import type { DocxEdition } from '../../../utils/showcaseDocx';
+import { ShowcaseLintError } from '../../../utils/showcaseLint';
+import { exportToDocx } from '../../review/exportUtilsLazy';
+
+interface WordExportButtonsProps {
+  showcase: ProjectShowcaseV2;
+  className?: string;
+}
+
+function isAvailable(edition: DocxEdition, showcase: ProjectShowcaseV2): boolean {
+  if (edition === 'lessons') {return Boolean(showcase.lessonPlans?.length);}
+  if (edition === 'bilingual') {return showcase.assignments.some(assignment => assignment.localized);}
+  if (edition === 'family') {return Boolean(showcase.familyKit?.letters.length);}
+  return true;
+}
+
+const EDITIONS: Array<{ edition: DocxEdition; label: string }> = [
+  { edition: 'teacher', label: 'Teacher edition (.docx)' },
+  { edition: 'handouts', label: 'Student handouts (.docx)' },
+  { edition: 'bilingual', label: 'Bilingual handouts (.docx)' },
+  { edition: 'lessons', label: 'Lesson plans (.docx)' },
+  { edition: 'family', label: 'Family letters (.docx)' }
+];
+
+export default function WordExportButtons({ showcase, className = '' }: WordExportButtonsProps) {
+  const [pending, setPending] = useState<DocxEdition | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (import.meta.env?.VITE_ENABLE_DOWNLOADS !== 'true') {
+    return null;
+  }
+
+  const download = async (edition: DocxEdition) => {
+    setPending(edition);
+    setError(null);
+    try {
+      await exportToDocx(showcase, edition);
+    } catch (e) {
+      console.error('[WordExportButtons] Word export failed:', e);
+      setError(e instanceof ShowcaseLintError ? e.message : 'Could not create the Word document. Please try again.');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      {EDITIONS.filter(({ edition }) => isAvailable(edition, showcase)).map(({ edition, label }) => (
+        <button
+          key={edition}
+          onClick={() => { void download(edition); }}
+          disabled={pending !== null}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-white border border-slate-200 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-60 dark:bg-slate-900 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800"
+        >
+          {pending === edition ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+          {label}
+        </button>
+      ))}
+      {error && <p className="w-full text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -4,60 +4,92 @@ import { Icon } from '../../design-system';
 import type { IconName } from '../../design-system/components/Icon';
 import { StageRoadmapPreview } from './components/StageRoadmapPreview';
 import { trackEvent } from '../../utils/analytics';
+import { telemetry } from '../../services/telemetry';
 import { UnifiedStorageManager, type UnifiedProjectData } from '../../services/UnifiedStorageManager';
 import { showToast } from '../../utils/toast';
 import { v4 as uuidv4 } from 'uuid';
+import { LOCALES, localeLabel, type Locale, type MessageKey } from '../../i18n';
+import { useTranslation } from '../../i18n/useTranslation';
+import { useRulePacks } from '../../hooks/useRulePacks';
+import { gradeBandTimeframes, resolveGradeBand } from '../../ai/gradeBandRules';
 
 type SubjectKey = string; // supports built-ins and custom (e.g., "custom:Ocean Literacy")
 
-const SUBJECTS: Array<{ key: SubjectKey; label: string; gradient: string; bg: string; border: string; iconName: IconName }> = [
-  { key: 'science', label: 'Science', gradient: 'subject-gradient-science', bg: 'subject-bg-science', border: 'subject-border-science', iconName: 'flask' },
-  { key: 'technology', label: 'Technology', gradient: 'subject-gradient-technology', bg: 'subject-bg-technology', border: 'subject-border-technology', iconName: 'code' },
-  { key: 'engineering', label: 'Engineering', gradient: 'subject-gradient-engineering', bg: 'subject-bg-engineering', border: 'subject-border-engineering', iconName: 'tools' },
-  { key: 'mathematics', label: 'Mathematics', gradient: 'subject-gradient-mathematics', bg: 'subject-bg-mathematics', border: 'subject-border-mathematics', iconName: 'calculator' },
-  { key: 'social-studies', label: 'Social Studies', gradient: 'subject-gradient-social-studies', bg: 'subject-bg-social-studies', border: 'subject-border-social-studies', iconName: 'globe' },
-  { key: 'language-arts', label: 'Language Arts', gradient: 'subject-gradient-language-arts', bg: 'subject-bg-language-arts', border: 'subject-border-language-arts', iconName: 'book' },
-  { key: 'arts', label: 'Arts', gradient: 'subject-gradient-arts', bg: 'subject-bg-arts', border: 'subject-border-arts', iconName: 'palette' },
-  { key: 'music', label: 'Music', gradient: 'subject-gradient-music', bg: 'subject-bg-music', border: 'subject-border-music', iconName: 'audio' },
-  { key: 'health', label: 'Health & PE', gradient: 'subject-gradient-health', bg: 'subject-bg-health', border: 'subject-border-health', iconName: 'heart' },
-  { key: 'interdisciplinary', label: 'Interdisciplinary', gradient: 'subject-gradient-interdisciplinary', bg: 'subject-bg-interdisciplinary', border: 'subject-border-interdisciplinary', iconName: 'layers' }
+const SUBJECTS: Array<{ key: SubjectKey; labelKey: MessageKey; gradient: string; bg: string; border: string; iconName: IconName }> = [
+  { key: 'science', labelKey: 'wizard.subjects.science', gradient: 'subject-gradient-science', bg: 'subject-bg-science', border: 'subject-border-science', iconName: 'flask' },
+  { key: 'technology', labelKey: 'wizard.subjects.technology', gradient: 'subject-gradient-technology', bg: 'subject-bg-technology', border: 'subject-border-technology', iconName: 'code' },
+  { key: 'engineering', labelKey: 'wizard.subjects.engineering', gradient: 'subject-gradient-engineering', bg: 'subject-bg-engineering', border: 'subject-border-engineering', iconName: 'tools' },
+  { key: 'mathematics', labelKey: 'wizard.subjects.mathematics', gradient: 'subject-gradient-mathematics', bg: 'subject-bg-mathematics', border: 'subject-border-mathematics', iconName: 'calculator' },
+  { key: 'social-studies', labelKey: 'wizard.subjects.social-studies', gradient: 'subject-gradient-social-studies', bg: 'subject-bg-social-studies', border: 'subject-border-social-studies', iconName: 'globe' },
+  { key: 'language-arts', labelKey: 'wizard.subjects.language-arts', gradient: 'subject-gradient-language-arts', bg: 'subject-bg-language-arts', border: 'subject-border-language-arts', iconName: 'book' },
+  { key: 'arts', labelKey: 'wizard.subjects.arts', gradient: 'subject-gradient-arts', bg: 'subject-bg-arts', border: 'subject-border-arts', iconName: 'palette' },
+  { key: 'music', labelKey: 'wizard.subjects.music', gradient: 'subject-gradient-music', bg: 'subject-bg-music', border: 'subject-border-music', iconName: 'audio' },
+  { key: 'health', labelKey: 'wizard.subjects.health', gradient: 'subject-gradient-health', bg: 'subject-bg-health', border: 'subject-border-health', iconName: 'heart' },
+  { key: 'interdisciplinary', labelKey: 'wizard.subjects.interdisciplinary', gradient: 'subject-gradient-interdisciplinary', bg: 'subject-bg-interdisciplinary', border: 'subject-border-interdisciplinary', iconName: 'layers' }
 ];
 
-const AGE_GROUPS = ['Early Primary (K‑2)', 'Primary (3‑5)', 'Middle School (6‑8)', 'High School (9‑12)'];
+// Stored values stay English — grade band resolution parses them
+const AGE_GROUPS: Array<{ value: string; labelKey: MessageKey }> = [
+  { value: 'Pre-K (Ages 3‑5)', labelKey: 'wizard.ageGroups.preK' },
+  { value: 'Early Primary (K‑2)', labelKey: 'wizard.ageGroups.earlyPrimary' },
+  { value: 'Primary (3‑5)', labelKey: 'wizard.ageGroups.primary' },
+  { value: 'Middle School (6‑8)', labelKey: 'wizard.ageGroups.middle' },
+  { value: 'High School (9‑12)', labelKey: 'wizard.ageGroups.high' },
+  { value: 'Post-Secondary / CTE', labelKey: 'wizard.ageGroups.postSecondary' }
+];
 
-const DURATIONS = [
-  { key: 'project', label: 'Single Project (1–2 weeks)' },
-  { key: 'unit', label: 'Multi‑week Unit (3–6 weeks)' },
-  { key: 'quarter', label: 'Quarter (8–10 weeks)' },
-  { key: 'semester', label: 'Semester (16+ weeks)' }
+const DURATIONS: Array<{ key: string; labelKey: MessageKey }> = [
+  { key: 'project', labelKey: 'wizard.durations.project' },
+  { key: 'unit', labelKey: 'wizard.durations.unit' },
+  { key: 'quarter', labelKey: 'wizard.durations.quarter' },
+  { key: 'semester', labelKey: 'wizard.durations.semester' }
 ];
 
 export default function IntakeWizardMinimal() {
   const navigate = useNavigate();
+  const { t, locale } = useTranslation();
   const [step, setStep] = useState(1);
   const [selectedSubjects, setSelectedSubjects] = useState<SubjectKey[]>([]);
   const [primarySubject, setPrimarySubject] = useState<SubjectKey | null>(null);
   const [ageGroup, setAgeGroup] = useState('');
   const [classSize, setClassSize] = useState('');
   const [duration, setDuration] = useState('unit');
+  const [durationChosen, setDurationChosen] = useState(false);
+  const [studentLanguage, setStudentLanguage] = useState<Locale>(locale);
+  const { packs: rulePacks } = useRulePacks();
+  const [rulePackId, setRulePackId] = useState('');
   const [customSubject, setCustomSubject] = useState('');
   const [initialIdea, setInitialIdea] = useState('');
   const [projectName, setProjectName] = useState('');
   const [isLaunching, setIsLaunching] = useState(false);
   const reviewLoggedRef = useRef(false);
+  const completedRef = useRef(false);
+  const progressRef = useRef({ step: 1, subjectCount: 0, hasAgeGroup: false, hasTopicSeed: false });
 
   const subjectLabel = (key: SubjectKey) => {
     if (!key) {return '';}
     if (key.startsWith('custom:')) {return key.replace('custom:', '');}
-    return SUBJECTS.find((s) => s.key === key)?.label || key;
+    const subject = SUBJECTS.find((s) => s.key === key);
+    return subject ? t(subject.labelKey) : key;
   };
 
+  const optionLabel = (option?: { labelKey: MessageKey }) => (option ? t(option.labelKey) : '—');
+
   const canNext = useMemo(() => {
     if (step === 1) {return selectedSubjects.length > 0;}
     if (step === 2) {return Boolean(ageGroup);}
     return true;
   }, [step, selectedSubjects.length, ageGroup]);
 
+  // Until the teacher picks a duration, follow the band's usual length
+  const selectAgeGroup = (value: string) => {
+    setAgeGroup(value);
+    const band = resolveGradeBand(value);
+    if (band && !durationChosen) {
+      setDuration(gradeBandTimeframes[band].duration);
+    }
+  };
+
   const toggleSubject = (key: SubjectKey) => {
     setSelectedSubjects((prev) => {
       const exists = prev.includes(key);
@@ -100,6 +132,8 @@ export default function IntakeWizardMinimal() {
         primarySubject: primarySubject || selectedSubjects[0] || '',
         gradeLevel: ageGroup || '',
         duration: duration || 'unit',
+        studentLanguage,
+        ...(rulePackId ? { rulePackId } : {}),
         pblExperience: 'some',
         vision: 'balanced',
         subject: primarySubject || selectedSubjects[0] || '',
@@ -174,15 +208,52 @@ export default function IntakeWizardMinimal() {
       console.log(`[IntakeWizard] Created project ${projectId}, navigating to ideation`);
 
       // Navigate immediately after successful save verification (no setTimeout needed)
+      completedRef.current = true;
       navigate(`/app/projects/${projectId}/ideation`);
     } catch (error) {
       console.error('[IntakeWizard] Failed to create project', error);
       setIsLaunching(false);
       // Non-blocking user feedback
-      showToast('Failed to create project. Please try again.', 'error');
+      showToast(t('wizard.createFailed'), 'error');
     }
   };
 
+  useEffect(() => {
+    progressRef.current = {
+      step,
+      subjectCount: selectedSubjects.length,
+      hasAgeGroup: Boolean(ageGroup),
+      hasTopicSeed: Boolean(initialIdea.trim())
+    };
+  }, [step, selectedSubjects.length, ageGroup, initialIdea]);
+
+  // Persisted telemetry: leaving the wizard (route change or closing the tab) before a
+  // project is created counts as one abandonment, tagged with how far the teacher got
+  useEffect(() => {
+    const startedAt = Date.now();
+    let reported = false;
+    const reportAbandonment = (reason: 'navigated_away' | 'page_hidden') => {
+      if (completedRef.current || reported) {return;}
+      reported = true;
+      telemetry.track({
+        event: 'wizard_abandoned',
+        success: false,
+        latencyMs: Date.now() - startedAt,
+        projectId: 'wizard',
+        metadata: { reason, ...progressRef.current }
+      });
+    };
+    const handlePageHide = () => {
+      reportAbandonment('page_hidden');
+      void telemetry.flush();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      reportAbandonment('navigated_away');
+    };
+  }, []);
+
   useEffect(() => {
     if (step === 3) {
       if (!reviewLoggedRef.current) {
@@ -218,13 +289,13 @@ export default function IntakeWizardMinimal() {
           <div className="space-y-6">
             <header className="space-y-2">
               <h1 className="text-[24px] sm:text-[26px] font-semibold text-gray-900 dark:text-gray-100">
-                Choose subject focus
+                {t('wizard.subjectStep.title')}
               </h1>
               <p className="text-sm text-gray-600 dark:text-gray-400">
-                Select one or more areas. Mark a primary if interdisciplinary.
+                {t('wizard.subjectStep.subtitle')}
               </p>
               <p className="text-xs text-gray-500 dark:text-gray-400">
-                Spotlight STEAM by starting with Science, Technology, Engineering, or Mathematics—then layer in the humanities to round out the experience.
+                {t('wizard.subjectStep.steam')}
               </p>
             </header>
 
@@ -253,9 +324,9 @@ export default function IntakeWizardMinimal() {
                     title={
                       selected
                         ? isPrimary
-                          ? 'Primary subject'
-                          : 'Selected — right‑click to set primary'
-                        : 'Select'
+                          ? t('wizard.subjectStep.primarySubject')
+                          : t('wizard.subjectStep.selectedHint')
+                        : t('wizard.subjectStep.select')
                     }
                   >
                     <div
@@ -265,21 +336,21 @@ export default function IntakeWizardMinimal() {
                       <Icon name={s.iconName} size="lg" className="text-white/95" />
                     </div>
                     <div className="font-semibold text-[16px] text-gray-900 dark:text-gray-100">
-                      {s.label}
+                      {t(s.labelKey)}
                     </div>
-                    {isPrimary && <span className="subject-primary-badge">Primary</span>}
+                    {isPrimary && <span className="subject-primary-badge">{t('wizard.subjectStep.primary')}</span>}
                   </button>
                 );
               })}
 
               <div className="rounded-2xl border border-dashed border-gray-300 dark:border-gray-600 p-5 bg-white/60 dark:bg-gray-900/60">
-                <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">Add Custom Subject</div>
+                <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">{t('wizard.subjectStep.addCustom')}</div>
                 <div className="flex items-center gap-3">
                   <input
                     value={customSubject}
                     onChange={(e) => setCustomSubject(e.target.value.slice(0, 40))}
-                    placeholder="e.g., Media Arts"
-                    aria-label="Add custom subject"
+                    placeholder={t('wizard.subjectStep.customPlaceholder')}
+                    aria-label={t('wizard.subjectStep.addCustom')}
                     maxLength={40}
                     className="flex-1 h-11 rounded-xl border border-gray-300 dark:border-gray-600 bg-white/60 dark:bg-gray-900/60 px-3 text-sm placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500/60"
                   />
@@ -295,11 +366,11 @@ export default function IntakeWizardMinimal() {
                       }
                       setCustomSubject('');
                     }}
-                    aria-label="Add custom subject"
+                    aria-label={t('wizard.subjectStep.addCustom')}
                     className="px-4 h-11 rounded-xl bg-primary-600 text-white text-sm font-medium disabled:opacity-50"
                     disabled={!customSubject.trim()}
                   >
-                    Add
+                    {t('wizard.subjectStep.add')}
                   </button>
                 </div>
                 <div className="mt-3 flex flex-wrap gap-2">
@@ -319,7 +390,7 @@ export default function IntakeWizardMinimal() {
 
             <div className="mt-2 text-xs text-gray-500 dark:text-gray-400 flex items-center gap-2">
               <span className="inline-flex h-2 w-2 rounded-full bg-gray-300" aria-hidden />
-              Right‑click or long-press a selected subject to set it as primary.
+              {t('wizard.subjectStep.primaryHint')}
             </div>
 
             <div className="mt-8 flex justify-end">
@@ -328,7 +399,7 @@ export default function IntakeWizardMinimal() {
                 onClick={() => setStep(2)}
                 className="px-6 h-12 rounded-2xl bg-primary-600 text-white text-[15px] font-semibold disabled:opacity-50 disabled:bg-gray-300"
               >
-                Next
+                {t('common.next')}
               </button>
             </div>
           </div>
@@ -337,28 +408,28 @@ export default function IntakeWizardMinimal() {
         {step === 2 && (
           <div className="space-y-6">
             <header className="space-y-2">
-              <h2 className="text-[24px] font-semibold text-gray-900 dark:text-gray-100">Class context</h2>
+              <h2 className="text-[24px] font-semibold text-gray-900 dark:text-gray-100">{t('wizard.contextStep.title')}</h2>
               <p className="text-sm text-gray-600 dark:text-gray-400">
-                This helps tailor the project scale and supports.
+                {t('wizard.contextStep.subtitle')}
               </p>
             </header>
 
             <div className="space-y-6">
-              {/* Age Range - 2x2 Grid on Desktop */}
+              {/* Age Range - 2 column grid on Desktop */}
               <div>
-                <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2.5">Age range</div>
+                <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2.5">{t('wizard.contextStep.ageRange')}</div>
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-2.5">
                   {AGE_GROUPS.map((a) => (
                     <button
-                      key={a}
-                      onClick={() => setAgeGroup(a)}
+                      key={a.value}
+                      onClick={() => selectAgeGroup(a.value)}
                       className={`h-12 px-4 rounded-full text-[14px] font-medium border inline-flex items-center justify-center transition-all ${
-                        ageGroup === a
+                        ageGroup === a.value
                           ? 'bg-primary-50 text-primary-700 border-primary-200 ring-2 ring-primary-200/70 shadow-[0_10px_20px_rgba(59,130,246,0.15)]'
                           : 'bg-white/60 dark:bg-gray-900/60 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 hover:shadow-sm'
                       }`}
                     >
-                      {a}
+                      {t(a.labelKey)}
                     </button>
                   ))}
                 </div>
@@ -366,38 +437,89 @@ export default function IntakeWizardMinimal() {
 
               {/* Project Duration - 2x2 Grid on Desktop */}
               <div>
-                <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2.5">Project duration</div>
+                <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2.5">{t('wizard.contextStep.duration')}</div>
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-2.5">
                   {DURATIONS.map((d) => (
                     <button
                       key={d.key}
-                      onClick={() => setDuration(d.key)}
+                      onClick={() => {
+                        setDuration(d.key);
+                        setDurationChosen(true);
+                      }}
                       className={`h-12 px-4 rounded-full text-[14px] font-medium border inline-flex items-center justify-center transition-all ${
                         duration === d.key
                           ? 'bg-primary-50 text-primary-700 border-primary-200 ring-2 ring-primary-200/70 shadow-[0_10px_20px_rgba(59,130,246,0.15)]'
                           : 'bg-white/60 dark:bg-gray-900/60 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 hover:shadow-sm'
                       }`}
                     >
-                      {d.label}
+                      {t(d.labelKey)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Student Language - drives student-facing generation only */}
+              <div>
+                <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2.5">{t('wizard.contextStep.studentLanguage')}</div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2.5">
+                  {LOCALES.map((l) => (
+                    <button
+                      key={l.code}
+                      onClick={() => setStudentLanguage(l.code)}
+                      className={`h-12 px-4 rounded-full text-[14px] font-medium border inline-flex items-center justify-center transition-all ${
+                        studentLanguage === l.code
+                          ? 'bg-primary-50 text-primary-700 border-primary-200 ring-2 ring-primary-200/70 shadow-[0_10px_20px_rgba(59,130,246,0.15)]'
+                          : 'bg-white/60 dark:bg-gray-900/60 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 hover:shadow-sm'
+                      }`}
+                    >
+                      {l.label}
                     </button>
                   ))}
                 </div>
+                <p className="mt-2 text-[11px] text-gray-500 dark:text-gray-400">
+                  {t('wizard.contextStep.studentLanguageHint', { uiLanguage: localeLabel(locale) })}
+                </p>
               </div>
 
+              {/* School rule pack - only when an admin has installed one */}
+              {rulePacks.length > 0 && (
+                <div>
+                  <div className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2.5">{t('wizard.contextStep.rulePack')}</div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2.5">
+                    {[{ id: '', name: t('wizard.contextStep.rulePackNone') }, ...rulePacks].map((pack) => (
+                      <button
+                        key={pack.id || 'none'}
+                        onClick={() => setRulePackId(pack.id)}
+                        className={`h-12 px-4 rounded-full text-[14px] font-medium border inline-flex items-center justify-center transition-all ${
+                          rulePackId === pack.id
+                            ? 'bg-primary-50 text-primary-700 border-primary-200 ring-2 ring-primary-200/70 shadow-[0_10px_20px_rgba(59,130,246,0.15)]'
+                            : 'bg-white/60 dark:bg-gray-900/60 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 hover:shadow-sm'
+                        }`}
+                      >
+                        {pack.name}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-[11px] text-gray-500 dark:text-gray-400">
+                    {t('wizard.contextStep.rulePackHint')}
+                  </p>
+                </div>
+              )}
+
               {/* Class Size - Progressive Disclosure */}
               <details className="group">
                 <summary className="cursor-pointer list-none text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-primary-600 dark:hover:text-primary-400 transition-colors flex items-center gap-2">
                   <svg className="w-4 h-4 transition-transform group-open:rotate-90" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                   </svg>
-                  Add class size (optional)
+                  {t('wizard.contextStep.addClassSize')}
                 </summary>
                 <div className="mt-2.5">
                   <input
                     value={classSize}
                     onChange={(e) => setClassSize(e.target.value)}
-                    placeholder="e.g., 28"
-                    aria-label="Class size"
+                    placeholder={t('wizard.contextStep.classSizePlaceholder')}
+                    aria-label={t('wizard.contextStep.classSize')}
                     inputMode="numeric"
                     className="w-full sm:w-48 h-12 rounded-2xl border border-gray-300 dark:border-gray-600 bg-white/60 dark:bg-gray-900/60 px-4 text-[15px] placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500/60 shadow-inner"
                   />
@@ -410,14 +532,14 @@ export default function IntakeWizardMinimal() {
                 onClick={() => setStep(1)}
                 className="px-6 h-12 rounded-2xl bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 text-[15px] font-medium hover:bg-gray-200/90"
               >
-                Back
+                {t('common.back')}
               </button>
               <button
                 disabled={!canNext}
                 onClick={() => setStep(3)}
                 className="px-6 h-12 rounded-2xl bg-primary-600 text-white text-[15px] font-semibold disabled:opacity-50 disabled:bg-gray-300"
               >
-                Review selections
+                {t('wizard.contextStep.review')}
               </button>
             </div>
           </div>
@@ -426,20 +548,20 @@ export default function IntakeWizardMinimal() {
         {step === 3 && (
           <div className="space-y-6">
             <header className="space-y-2">
-              <h2 className="text-[24px] font-semibold text-gray-900 dark:text-gray-100">Review</h2>
+              <h2 className="text-[24px] font-semibold text-gray-900 dark:text-gray-100">{t('wizard.reviewStep.title')}</h2>
               <p className="text-sm text-gray-600 dark:text-gray-400">
-                We’ll tailor suggestions to your context. You can adjust anything later.
+                {t('wizard.reviewStep.subtitle')}
               </p>
             </header>
 
             {/* Context Summary Banner */}
             <div className="rounded-2xl border border-primary-200 dark:border-primary-700/60 bg-gradient-to-br from-primary-50/70 to-white dark:from-primary-900/20 dark:to-gray-900/60 p-5 shadow-sm">
               <div className="text-xs uppercase tracking-wide font-semibold text-primary-700 dark:text-primary-300 mb-3">
-                Your Context
+                {t('wizard.reviewStep.yourContext')}
               </div>
               <div className="flex flex-wrap gap-4 text-sm">
                 <div className="flex items-center gap-2">
-                  <span className="text-gray-600 dark:text-gray-400">Subjects:</span>
+                  <span className="text-gray-600 dark:text-gray-400">{t('wizard.reviewStep.subjects')}</span>
                   <span className="font-medium text-gray-900 dark:text-gray-100">
                     {selectedSubjects.length > 0
                       ? selectedSubjects.map(subjectLabel).join(', ')
@@ -447,25 +569,37 @@ export default function IntakeWizardMinimal() {
                   </span>
                 </div>
                 <div className="flex items-center gap-2">
-                  <span className="text-gray-600 dark:text-gray-400">Age:</span>
-                  <span className="font-medium text-gray-900 dark:text-gray-100">{ageGroup || '—'}</span>
+                  <span className="text-gray-600 dark:text-gray-400">{t('wizard.reviewStep.age')}</span>
+                  <span className="font-medium text-gray-900 dark:text-gray-100">
+                    {optionLabel(AGE_GROUPS.find((a) => a.value === ageGroup))}
+                  </span>
                 </div>
                 {classSize && (
                   <div className="flex items-center gap-2">
-                    <span className="text-gray-600 dark:text-gray-400">Class size:</span>
+                    <span className="text-gray-600 dark:text-gray-400">{t('wizard.reviewStep.classSize')}</span>
                     <span className="font-medium text-gray-900 dark:text-gray-100">{classSize}</span>
                   </div>
                 )}
                 <div className="flex items-center gap-2">
-                  <span className="text-gray-600 dark:text-gray-400">Duration:</span>
+                  <span className="text-gray-600 dark:text-gray-400">{t('wizard.reviewStep.duration')}</span>
                   <span className="font-medium text-gray-900 dark:text-gray-100">
-                    {DURATIONS.find((d) => d.key === duration)?.label || '—'}
+                    {optionLabel(DURATIONS.find((d) => d.key === duration))}
                   </span>
                 </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-gray-600 dark:text-gray-400">{t('wizard.reviewStep.studentLanguage')}</span>
+                  <span className="font-medium text-gray-900 dark:text-gray-100">{localeLabel(studentLanguage)}</span>
+                </div>
+                {rulePackId && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-gray-600 dark:text-gray-400">{t('wizard.reviewStep.rulePack')}</span>
+                    <span className="font-medium text-gray-900 dark:text-gray-100">{rulePacks.find((pack) => pack.id === rulePackId)?.name}</span>
+                  </div>
+                )}
               </div>
               {primarySubject && (
                 <div className="mt-2 text-xs text-gray-600 dark:text-gray-400">
-                  Primary focus: {subjectLabel(primarySubject)}
+                  {t('wizard.reviewStep.primaryFocus', { subject: subjectLabel(primarySubject) })}
                 </div>
               )}
             </div>
@@ -475,44 +609,44 @@ export default function IntakeWizardMinimal() {
               <div className="rounded-2xl border border-gray-200 dark:border-gray-700 p-5 bg-white/65 dark:bg-gray-900/60 shadow-sm space-y-4">
                 <div>
                   <div className="text-xs uppercase tracking-wide text-gray-700 dark:text-gray-300 flex items-center gap-2 mb-2">
-                    Project name
+                    {t('wizard.reviewStep.projectName')}
                     <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600">
-                      Optional
+                      {t('common.optional')}
                     </span>
                   </div>
                   <input
                     value={projectName}
                     onChange={(e) => setProjectName(e.target.value.slice(0, 80))}
-                    placeholder="We'll suggest names after the Big Idea"
-                    aria-label="Project name"
+                    placeholder={t('wizard.reviewStep.projectNamePlaceholder')}
+                    aria-label={t('wizard.reviewStep.projectName')}
                     maxLength={80}
                     className="w-full h-11 rounded-xl border border-gray-300 dark:border-gray-600 bg-white/60 dark:bg-gray-900/60 px-3 text-sm placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500/60"
                   />
                   <p className="mt-2 text-[11px] text-gray-500 dark:text-gray-400">
-                    Skip this for now—we'll generate name ideas once the Big Idea is set.
+                    {t('wizard.reviewStep.projectNameHint')}
                   </p>
                 </div>
 
                 <div>
                   <div className="text-xs uppercase tracking-wide text-gray-700 dark:text-gray-300 flex items-center gap-2 mb-2">
-                    Working topic or theme
+                    {t('wizard.reviewStep.topic')}
                     <span className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium bg-rose-100 text-rose-700 border border-rose-200">
-                      Required
+                      {t('common.required')}
                     </span>
                   </div>
                   <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">
-                    A rough starting point (e.g., "renewable energy"). We'll turn this into a pedagogically rich Big Idea next.
+                    {t('wizard.reviewStep.topicHint')}
                   </p>
                   <textarea
                     value={initialIdea}
                     onChange={(e) => setInitialIdea(e.target.value.slice(0, 200))}
-                    placeholder="e.g., Community storytelling through local history"
-                    aria-label="Working idea or theme"
+                    placeholder={t('wizard.reviewStep.topicPlaceholder')}
+                    aria-label={t('wizard.reviewStep.topicLabel')}
                     maxLength={200}
                     rows={3}
                     className="w-full rounded-xl border border-gray-300 dark:border-gray-600 bg-white/60 dark:bg-gray-900/60 px-3 py-2 text-sm placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500/60"
                   />
-                  <div className="mt-1 text-[10px] text-gray-500 dark:text-gray-400">Max 200 characters</div>
+                  <div className="mt-1 text-[10px] text-gray-500 dark:text-gray-400">{t('wizard.reviewStep.maxCharacters', { count: 200 })}</div>
                 </div>
               </div>
 
@@ -525,7 +659,7 @@ export default function IntakeWizardMinimal() {
                   onClick={() => setStep(2)}
                   className="px-6 h-12 rounded-2xl bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 text-[15px] font-medium hover:bg-gray-200/90"
                 >
-                  Back
+                  {t('common.back')}
                 </button>
                 <div className="flex flex-col gap-2 sm:items-end">
                   <button
@@ -533,10 +667,10 @@ export default function IntakeWizardMinimal() {
                     disabled={isLaunching || !initialIdea.trim()}
                     className="px-6 h-12 rounded-2xl bg-primary-600 text-white text-[15px] font-semibold hover:bg-primary-700 disabled:opacity-50 disabled:bg-gray-300"
                   >
-                    {isLaunching ? 'Preparing…' : 'Design Your Project'}
+                    {isLaunching ? t('wizard.reviewStep.preparing') : t('wizard.reviewStep.launch')}
                   </button>
                   <p className="text-xs text-gray-500 dark:text-gray-400 text-center sm:text-right">
-                    Next: co-design in five short steps (Big Idea → Deliverables)
+                    {t('wizard.reviewStep.nextHint')}
                   </p>
                 </div>
               </div>
@@ -549,8 +683,8 @@ export default function IntakeWizardMinimal() {
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-white/80 backdrop-blur-md dark:bg-gray-900/80" aria-live="polite">
           <div className="flex flex-col items-center gap-3 text-center">
             <div className="h-12 w-12 rounded-full border-2 border-primary-200 border-t-primary-600 animate-spin" aria-hidden />
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Context captured</h3>
-            <p className="text-sm text-gray-600 dark:text-gray-400">Opening the design workspace…</p>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{t('wizard.launching.title')}</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">{t('wizard.launching.subtitle')}</p>
           </div>
         </div>
       )}
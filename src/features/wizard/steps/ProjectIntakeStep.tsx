@@ -55,7 +55,7 @@ export const ProjectIntakeStep: React.FC<StepComponentProps> = ({
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   // Common options
-  const gradeLevels = ['K-2', '3-5', '6-8', '9-12', 'Mixed'];
+  const gradeLevels = ['Pre-K', 'K-2', '3-5', '6-8', '9-12', 'Post-Secondary', 'Mixed'];
   const subjectOptions = [
     {
       id: 'science',
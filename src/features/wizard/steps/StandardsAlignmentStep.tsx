@@ -1,29 +1,35 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { Book, Search, Plus, X, Check, Info } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Book, Search, Plus, X, Check, Info, Upload } from 'lucide-react';
 import { type StepComponentProps } from '../types';
 import { type StandardsAlignment, type StandardsFramework } from '../wizardSchema';
 import { type Tier } from '../../../types/alf';
+import type { StandardEntry, searchStandards } from '../../../data/standardsDatabase';
 
-// Standards database will be loaded dynamically
-let STANDARDS_DATABASE: any = null;
-let standardsLoading = false;
-let standardsLoadPromise: Promise<any> | null = null;
+// Standards module (and its catalog) will be loaded dynamically
+type StandardsModule = { searchStandards: typeof searchStandards };
+let standardsModule: StandardsModule | null = null;
+let standardsLoadPromise: Promise<StandardsModule> | null = null;
 
-// Lazy load the standards database
+// Lazy load the standards module
 const loadStandardsDatabase = async () => {
-  if (STANDARDS_DATABASE) {return STANDARDS_DATABASE;}
+  if (standardsModule) {return standardsModule;}
   if (standardsLoadPromise) {return standardsLoadPromise;}
   
-  standardsLoading = true;
   standardsLoadPromise = import('../../../data/standardsDatabase').then(module => {
-    STANDARDS_DATABASE = module.STANDARDS_DATABASE;
-    standardsLoading = false;
-    return STANDARDS_DATABASE;
+    standardsModule = module;
+    return module;
   });
   
   return standardsLoadPromise;
 };
 
+const toCatalogFramework = (framework: StandardsFramework) =>
+  framework === 'CCSS_ELA' ? 'CCSS-ELA' :
+  framework === 'CCSS_Math' ? 'CCSS-MATH' :
+  framework === 'State' ? 'STATE' :
+  framework === 'Custom' ? 'CUSTOM' :
+  framework;
+
 export const StandardsAlignmentStep: React.FC<StepComponentProps> = ({
   data,
   onUpdate,
@@ -45,49 +51,54 @@ export const StandardsAlignmentStep: React.FC<StepComponentProps> = ({
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [standardsLoaded, setStandardsLoaded] = useState(false);
-  const [standardsDatabase, setStandardsDatabase] = useState<any>(null);
+  const [availableStandards, setAvailableStandards] = useState<StandardEntry[]>([]);
+  const [catalogVersion, setCatalogVersion] = useState(0);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
   
-  // Load standards database on mount
+  // Load standards module on mount
   useEffect(() => {
-    loadStandardsDatabase().then(db => {
-      setStandardsDatabase(db);
-      setStandardsLoaded(true);
-    });
+    loadStandardsDatabase().then(() => setStandardsLoaded(true));
   }, []);
 
-  // Filter standards based on grade level and subjects from project context
-  const availableStandards = useMemo(() => {
-    if (!standardsDatabase) {return [];}
-    
-    const frameworkKey = selectedFramework === 'CCSS_ELA' ? 'CCSS-ELA' : 
-                        selectedFramework === 'CCSS_Math' ? 'CCSS-MATH' :
-                        selectedFramework === 'State' ? 'STATE' :
-                        selectedFramework === 'Custom' ? 'CUSTOM' :
-                        selectedFramework;
-    
-    const standards = standardsDatabase[frameworkKey] || [];
+  // Ranked catalog search filtered by grade level and subjects from project context
+  useEffect(() => {
+    if (!standardsLoaded || !standardsModule) {return;}
+    let cancelled = false;
     const gradeLevel = data.projectContext?.gradeLevel || '';
     const subjects = data.projectContext?.subjects || [];
-    
-    return standards.filter((standard: any) => {
-      // Check grade level match
-      const gradeMatch = !gradeLevel || standard.gradeLevel.some((gl: string) => 
-        gl === gradeLevel || gradeLevel === 'Mixed'
-      );
-      
-      // Check subject match
-      const subjectMatch = subjects.length === 0 || 
-        standard.subjects.some((s: string) => subjects.includes(s));
-      
-      // Check search query
-      const searchMatch = !searchQuery || 
-        standard.label.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        standard.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        standard.code.toLowerCase().includes(searchQuery.toLowerCase());
-      
-      return gradeMatch && subjectMatch && searchMatch;
-    });
-  }, [selectedFramework, data.projectContext, searchQuery, standardsDatabase]);
+
+    standardsModule
+      .searchStandards(
+        toCatalogFramework(selectedFramework),
+        searchQuery,
+        gradeLevel === 'Mixed' ? undefined : gradeLevel,
+        subjects.length ? subjects : undefined
+      )
+      .then(results => {
+        if (!cancelled) {setAvailableStandards(results);}
+      })
+      .catch(error => {
+        console.error('[StandardsAlignmentStep] Standards search failed:', error);
+        if (!cancelled) {setAvailableStandards([]);}
+      });
+
+    return () => { cancelled = true; };
+  }, [selectedFramework, data.projectContext, searchQuery, standardsLoaded, catalogVersion]);
+
+  // Import a CASE package (.json) or state standards (.csv) into the catalog
+  const importStandardsFile = async (file: File) => {
+    try {
+      const { standardsCatalog } = await import('../../../services/StandardsCatalog');
+      const text = await file.text();
+      const result = file.name.toLowerCase().endsWith('.csv')
+        ? await standardsCatalog.importCSV(text, { framework: 'STATE', title: file.name.replace(/\.csv$/i, '') })
+        : await standardsCatalog.importCASE(JSON.parse(text));
+      setImportStatus(`Imported ${result.imported} standards into ${result.framework}`);
+      setCatalogVersion(v => v + 1);
+    } catch (error) {
+      setImportStatus(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
 
   // Add or remove a standard
   const toggleStandard = (standard: typeof availableStandards[0]) => {
@@ -214,6 +225,27 @@ export const StandardsAlignmentStep: React.FC<StepComponentProps> = ({
         />
       </div>
 
+      {/* Import standards package */}
+      <div className="flex items-center gap-3 text-sm">
+        <label className="flex items-center gap-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 px-3 py-2 rounded-lg transition-colors cursor-pointer">
+          <Upload className="w-4 h-4" />
+          Import standards (CASE JSON or CSV)
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) {void importStandardsFile(file);}
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {importStatus && (
+          <span className="text-slate-500 dark:text-slate-400">{importStatus}</span>
+        )}
+      </div>
+
       {/* Available Standards */}
       <div className="space-y-3">
         <div className="flex items-center justify-between">
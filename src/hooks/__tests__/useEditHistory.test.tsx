@@ -0,0 +1,75 @@
+import React, { type ReactNode } from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { useBackspaceNavigation } from '../useBackspaceNavigation';
+import { useEditHistory } from '../useEditHistory';
+
+type Slices = { bigIdea: string };
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <MemoryRouter initialEntries={['/app/project/p1']}>{children}</MemoryRouter>
+);
+
+function press(key: string, options: KeyboardEventInit = {}, target: EventTarget = document.body) {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...options });
+  act(() => { target.dispatchEvent(event); });
+  return event;
+}
+
+function setup() {
+  const apply = jest.fn();
+  const onChange = jest.fn();
+  const hook = renderHook(() => {
+    useBackspaceNavigation();
+    return useEditHistory<Slices>({ apply, onChange });
+  }, { wrapper });
+  act(() => {
+    hook.result.current.record({ label: 'Accept suggestion', source: 'chip_accept', before: { bigIdea: 'Mine' }, after: { bigIdea: 'Suggested' } });
+  });
+  return { ...hook, apply, onChange };
+}
+
+describe('useEditHistory', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('applies the earlier slices on undo and the later ones on redo', () => {
+    const { result, apply, onChange } = setup();
+
+    expect(result.current.undoLabel).toBe('Accept suggestion');
+    act(() => { result.current.undo(); });
+    expect(apply).toHaveBeenLastCalledWith({ bigIdea: 'Mine' }, expect.objectContaining({ label: 'Accept suggestion' }), 'undo');
+    expect(result.current).toMatchObject({ canUndo: false, canRedo: true });
+
+    act(() => { result.current.redo(); });
+    expect(apply).toHaveBeenLastCalledWith({ bigIdea: 'Suggested' }, expect.anything(), 'redo');
+    expect(onChange).toHaveBeenCalledTimes(3);
+  });
+
+  it('routes Cmd/Ctrl+Z and Ctrl+Y through the app key listener', () => {
+    const { apply } = setup();
+
+    expect(press('z', { metaKey: true }).defaultPrevented).toBe(true);
+    expect(apply).toHaveBeenLastCalledWith({ bigIdea: 'Mine' }, expect.anything(), 'undo');
+
+    press('y', { ctrlKey: true });
+    expect(apply).toHaveBeenLastCalledWith({ bigIdea: 'Suggested' }, expect.anything(), 'redo');
+  });
+
+  it('leaves text undo to the browser inside fields', () => {
+    const { apply } = setup();
+    const textarea = document.createElement('textarea');
+    document.body.appendChild(textarea);
+    textarea.focus();
+
+    expect(press('z', { ctrlKey: true }, textarea).defaultPrevented).toBe(false);
+    expect(apply).not.toHaveBeenCalled();
+
+    textarea.remove();
+  });
+});
@@ -2,40 +2,72 @@
  * useBackspaceNavigation - Custom hook to prevent accidental backspace navigation
  * This prevents the critical issue where users pressing backspace outside of input
  * fields causes browser navigation that leads to asset loading errors and crashes
+ *
+ * The same document-level listener routes Cmd/Ctrl+Z (undo) and
+ * Shift+Cmd/Ctrl+Z or Ctrl+Y (redo) to the project edit history registered via
+ * registerHistoryShortcuts(). Inside text fields the browser's own text undo wins.
  */
 
 import { useEffect, useCallback } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 
+export interface HistoryShortcutHandlers {
+  undo: () => void;
+  redo: () => void;
+}
+
+// Most recently mounted editor wins (e.g. a builder stage over the app shell)
+const historyHandlers: HistoryShortcutHandlers[] = [];
+
+export function registerHistoryShortcuts(handlers: HistoryShortcutHandlers): () => void {
+  historyHandlers.push(handlers);
+  return () => {
+    const index = historyHandlers.lastIndexOf(handlers);
+    if (index !== -1) {historyHandlers.splice(index, 1);}
+  };
+}
+
+function isTextEntry(element: HTMLElement | null): boolean {
+  return Boolean(element && (
+    element.tagName === 'INPUT' ||
+    element.tagName === 'TEXTAREA' ||
+    element.contentEditable === 'true' ||
+    element.isContentEditable
+  ));
+}
+
+function historyShortcut(event: KeyboardEvent): 'undo' | 'redo' | null {
+  if (!(event.metaKey || event.ctrlKey) || event.altKey) {return null;}
+  const key = event.key.toLowerCase();
+  if (key === 'z') {return event.shiftKey ? 'redo' : 'undo';}
+  if (key === 'y' && event.ctrlKey && !event.shiftKey) {return 'redo';}
+  return null;
+}
+
 export const useBackspaceNavigation = () => {
   const navigate = useNavigate();
   const location = useLocation();
 
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
+    const shortcut = historyShortcut(event);
+    if (shortcut) {
+      const handlers = historyHandlers[historyHandlers.length - 1];
+      if (!handlers || isTextEntry(event.target as HTMLElement) || isTextEntry(document.activeElement as HTMLElement)) {return;}
+      event.preventDefault();
+      handlers[shortcut]();
+      return;
+    }
+
     // Only prevent backspace navigation, not other keys
     if (event.key !== 'Backspace') {return;}
 
-    const target = event.target as HTMLElement;
-    
     // Allow backspace in input fields and contenteditable elements
-    if (
-      target.tagName === 'INPUT' ||
-      target.tagName === 'TEXTAREA' ||
-      target.contentEditable === 'true' ||
-      target.isContentEditable
-    ) {
+    if (isTextEntry(event.target as HTMLElement)) {
       return;
     }
 
     // Allow backspace if the input is focused (even if event.target is different)
-    const activeElement = document.activeElement as HTMLElement;
-    if (
-      activeElement &&
-      (activeElement.tagName === 'INPUT' ||
-       activeElement.tagName === 'TEXTAREA' ||
-       activeElement.contentEditable === 'true' ||
-       activeElement.isContentEditable)
-    ) {
+    if (isTextEntry(document.activeElement as HTMLElement)) {
       return;
     }
 
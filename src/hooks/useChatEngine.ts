@@ -3,15 +3,22 @@
 // First pass: keep responsibilities minimal to integrate gradually.
 
 import { useCallback, useEffect, useReducer, useRef } from 'react';
+import type { AIStreamResult } from '../features/chat-mvp/domain/ai';
 
 export type Role = 'user' | 'assistant' | 'system';
 
+export interface ChatMessageMetadata {
+  streaming?: boolean;                      // reply is still arriving token by token
+  streamStatus?: AIStreamResult['status'];  // how the stream ended
+  [key: string]: unknown;
+}
+
 export interface ChatMessage {
   id: string;
   role: Role;
   content: string;
   timestamp: Date;
-  metadata?: Record<string, unknown>;
+  metadata?: ChatMessageMetadata;
 }
 
 interface State {
@@ -24,6 +31,7 @@ interface State {
 type Action =
   | { type: 'set_input'; value: string }
   | { type: 'append_message'; message: ChatMessage }
+  | { type: 'update_message'; id: string; patch: Partial<ChatMessage> }
   | { type: 'set_messages'; messages: ChatMessage[] }
   | { type: 'set_typing'; value: boolean }
   | { type: 'toggle_suggestions'; value?: boolean };
@@ -34,6 +42,11 @@ function reducer(state: State, action: Action): State {
       return { ...state, input: action.value };
     case 'append_message':
       return { ...state, messages: [...state.messages, action.message] };
+    case 'update_message':
+      return {
+        ...state,
+        messages: state.messages.map(m => (m.id === action.id ? { ...m, ...action.patch } : m))
+      };
     case 'set_messages':
       return { ...state, messages: action.messages };
     case 'set_typing':
@@ -61,6 +74,10 @@ export function useChatEngine(opts: UseChatEngineOptions = {}) {
 
   const setInput = useCallback((v: string) => dispatch({ type: 'set_input', value: v }), []);
   const appendMessage = useCallback((m: ChatMessage) => dispatch({ type: 'append_message', message: m }), []);
+  const updateMessage = useCallback(
+    (id: string, patch: Partial<ChatMessage>) => dispatch({ type: 'update_message', id, patch }),
+    []
+  );
   const setMessages = useCallback((arr: ChatMessage[]) => dispatch({ type: 'set_messages', messages: arr }), []);
   const setTyping = useCallback((v: boolean) => dispatch({ type: 'set_typing', value: v }), []);
   const toggleSuggestions = useCallback((v?: boolean) => dispatch({ type: 'toggle_suggestions', value: v }), []);
@@ -95,6 +112,7 @@ export function useChatEngine(opts: UseChatEngineOptions = {}) {
     setInput,
     setMessages,
     appendMessage,
+    updateMessage,
     setTyping,
     toggleSuggestions,
     clearInput,
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  createEditHistory,
+  recordEdit,
+  redoEdit,
+  undoEdit,
+  type EditCommand,
+  type EditHistory,
+  type EditInput,
+  type EditSlices
+} from '../features/chat-mvp/domain/editHistory';
+import { registerHistoryShortcuts } from './useBackspaceNavigation';
+
+export type EditDirection = 'undo' | 'redo';
+
+interface UseEditHistoryOptions<S extends EditSlices> {
+  // Put the given slices back into component state (never re-record them)
+  apply: (slices: Partial<S>, command: EditCommand<S>, direction: EditDirection) => void;
+  // Called whenever the stack changes, e.g. to save it with the project
+  onChange?: (history: EditHistory<S>) => void;
+  // Listen for Cmd/Ctrl+Z while mounted (default true)
+  shortcuts?: boolean;
+}
+
+interface UseEditHistoryReturn<S extends EditSlices> {
+  history: EditHistory<S>;
+  record: (input: EditInput<S>) => void;
+  undo: () => EditCommand<S> | null;
+  redo: () => EditCommand<S> | null;
+  reset: (history: EditHistory<S>) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+/**
+ * Undo/redo stack for one editing surface (ChatMVP, a builder stage).
+ * Keyboard shortcuts go through useBackspaceNavigation's document listener.
+ */
+export function useEditHistory<S extends EditSlices>({
+  apply,
+  onChange,
+  shortcuts = true
+}: UseEditHistoryOptions<S>): UseEditHistoryReturn<S> {
+  const [history, setHistory] = useState<EditHistory<S>>(() => createEditHistory<S>());
+  // Ref copy so several edits in one tick build on each other
+  const historyRef = useRef(history);
+  const applyRef = useRef(apply);
+  const onChangeRef = useRef(onChange);
+  applyRef.current = apply;
+  onChangeRef.current = onChange;
+
+  const commit = useCallback((next: EditHistory<S>, notify = true) => {
+    if (next === historyRef.current) {return;}
+    historyRef.current = next;
+    setHistory(next);
+    if (notify) {onChangeRef.current?.(next);}
+  }, []);
+
+  const record = useCallback((input: EditInput<S>) => {
+    commit(recordEdit(historyRef.current, input));
+  }, [commit]);
+
+  const undo = useCallback(() => {
+    const result = undoEdit(historyRef.current);
+    if (!result) {return null;}
+    commit(result.history);
+    applyRef.current(result.command.before, result.command, 'undo');
+    return result.command;
+  }, [commit]);
+
+  const redo = useCallback(() => {
+    const result = redoEdit(historyRef.current);
+    if (!result) {return null;}
+    commit(result.history);
+    applyRef.current(result.command.after, result.command, 'redo');
+    return result.command;
+  }, [commit]);
+
+  // Replace the stack without saving it back, e.g. after loading the project
+  const reset = useCallback((next: EditHistory<S>) => {
+    commit(next, false);
+  }, [commit]);
+
+  useEffect(() => {
+    if (!shortcuts) {return undefined;}
+    return registerHistoryShortcuts({ undo: () => { undo(); }, redo: () => { redo(); } });
+  }, [shortcuts, undo, redo]);
+
+  return {
+    history,
+    record,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[0]?.label ?? null
+  };
+}
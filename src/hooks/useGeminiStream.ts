@@ -1,6 +1,7 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { type SuggestionCard } from '../core/types/SOPTypes';
-// Removed GoogleGenerativeAI import - now using secure Netlify function
+import { generateAIStream } from '../features/chat-mvp/domain/ai';
+// Removed GoogleGenerativeAI import - now using secure Netlify function (streaming variant)
 
 interface GeminiMessage {
   role: 'user' | 'model' | 'system';
@@ -14,7 +15,9 @@ interface GeminiResponse {
 
 interface UseGeminiStreamReturn {
   sendMessage: (messages: GeminiMessage[]) => Promise<GeminiResponse>;
+  abort: () => void;
   isStreaming: boolean;
+  response: string; // Partial text while streaming, final text afterwards
   error: Error | null;
 }
 
@@ -30,6 +33,12 @@ async function sleep(ms: number): Promise<void> {
 export function useGeminiStream(): UseGeminiStreamReturn {
   const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<Error | null>(null);
+  const [response, setResponse] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const abort = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
 
   const sendMessage = useCallback(async (messages: GeminiMessage[]): Promise<GeminiResponse> => {
     setIsStreaming(true);
@@ -41,36 +50,40 @@ export function useGeminiStream(): UseGeminiStreamReturn {
       // Retry logic with exponential backoff
       for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
         try {
-          // Convert messages to history format for Netlify function
-          const conversationHistory = messages.map(msg => ({
-            role: msg.role === 'system' ? 'user' : msg.role,
-            parts: [{ text: msg.parts }]
+          // System messages become the system prompt; the last message is the prompt
+          const systemPrompt = messages
+            .filter(msg => msg.role === 'system')
+            .map(msg => msg.parts)
+            .join('\n') || undefined;
+          const conversation = messages.filter(msg => msg.role !== 'system');
+          const lastMessage = conversation[conversation.length - 1];
+          const prompt = lastMessage?.parts || '';
+          const history = conversation.slice(0, -1).map(msg => ({
+            role: msg.role === 'model' ? 'assistant' as const : 'user' as const,
+            content: msg.parts
           }));
 
-          // Extract the prompt from the last message
-          const lastMessage = messages[messages.length - 1];
-          const prompt = lastMessage.parts;
-
-          const response = await fetch('/.netlify/functions/gemini', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ 
-              prompt: prompt,
-              history: conversationHistory.slice(0, -1) // Don't include the current message in history
-            })
+          const controller = new AbortController();
+          abortRef.current = controller;
+          setResponse('');
+
+          const result = await generateAIStream(prompt, {
+            history,
+            systemPrompt,
+            signal: controller.signal,
+            label: 'gemini_stream_hook',
+            onToken: (_delta, partial) => setResponse(partial)
           });
 
-          if (!response.ok) {
-            throw new Error(`API Error ${response.status}`);
+          if (result.status === 'failed') {
+            throw new Error('Failed to get response from Gemini stream');
           }
 
-          const data = await response.json();
-          
-          let text = '';
-          if (data.candidates?.[0]?.content?.parts?.[0]?.text) {
-            text = data.candidates[0].content.parts[0].text;
-          } else {
-            throw new Error('Invalid response format from Netlify function');
+          const text = result.text;
+          setResponse(text);
+
+          if (result.status === 'aborted') {
+            return { text };
           }
 
           // Extract suggestions with flexible parsing for different AI models
@@ -174,13 +187,16 @@ export function useGeminiStream(): UseGeminiStreamReturn {
       setError(finalError);
       throw finalError;
     } finally {
+      abortRef.current = null;
       setIsStreaming(false);
     }
   }, []);
 
   return {
     sendMessage,
+    abort,
     isStreaming,
+    response,
     error
   };
 }
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  buildReviewThreads,
+  expertReviewService,
+  type FeedbackSummary,
+  type PeerReviewRequest,
+  type PeerReviewStatus,
+  type ReviewAnchor,
+  type ReviewComment,
+  type ReviewThread
+} from '../core/services/ExpertReviewService';
+
+interface UsePeerReviewReturn {
+  request: PeerReviewRequest | null;
+  threads: ReviewThread[];
+  openCount: number;
+  loading: boolean;
+  error: Error | null;
+  addComment: (anchor: ReviewAnchor, body: string) => Promise<void>;
+  reply: (commentId: string, body: string) => Promise<void>;
+  setResolved: (commentId: string, resolved: boolean) => Promise<void>;
+  setStatus: (status: PeerReviewStatus) => Promise<void>;
+  summarize: () => Promise<FeedbackSummary | null>;
+}
+
+/**
+ * One peer review request with live comments. Opening a request as the
+ * reviewer claims it (status moves from 'requested' to 'in-review').
+ */
+export function usePeerReview(requestId: string | null | undefined): UsePeerReviewReturn {
+  const [request, setRequest] = useState<PeerReviewRequest | null>(null);
+  const [comments, setComments] = useState<ReviewComment[]>([]);
+  const [loading, setLoading] = useState(Boolean(requestId));
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!requestId) {
+      setRequest(null);
+      setComments([]);
+      setLoading(false);
+      return undefined;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    expertReviewService.startPeerReview(requestId)
+      .then(loaded => {
+        if (cancelled) {return;}
+        setRequest(loaded);
+        setError(loaded ? null : new Error('Review request not found or not shared with you'));
+      })
+      .catch(err => {
+        if (!cancelled) {setError(err instanceof Error ? err : new Error(String(err)));}
+      })
+      .finally(() => {
+        if (!cancelled) {setLoading(false);}
+      });
+
+    const unsubscribe = expertReviewService.watchComments(requestId, next => {
+      if (!cancelled) {setComments(next);}
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [requestId]);
+
+  const threads = useMemo(() => buildReviewThreads(comments), [comments]);
+  const openCount = threads.filter(thread => !thread.root.resolved).length;
+
+  const addComment = useCallback(async (anchor: ReviewAnchor, body: string) => {
+    if (!requestId) {return;}
+    await expertReviewService.addComment(requestId, { anchor, body });
+  }, [requestId]);
+
+  const reply = useCallback(async (commentId: string, body: string) => {
+    if (!requestId) {return;}
+    await expertReviewService.addComment(requestId, { anchor: { kind: 'project' }, body, parentId: commentId });
+  }, [requestId]);
+
+  const setResolved = useCallback(async (commentId: string, resolved: boolean) => {
+    if (!requestId) {return;}
+    await expertReviewService.setThreadResolved(requestId, commentId, resolved);
+  }, [requestId]);
+
+  const setStatus = useCallback(async (status: PeerReviewStatus) => {
+    if (!requestId) {return;}
+    await expertReviewService.setPeerReviewStatus(requestId, status);
+    setRequest(prev => (prev ? { ...prev, status } : prev));
+  }, [requestId]);
+
+  const summarize = useCallback(async () => {
+    if (!requestId) {return null;}
+    return expertReviewService.summarizeOpenFeedback(requestId);
+  }, [requestId]);
+
+  return { request, threads, openCount, loading, error, addComment, reply, setResolved, setStatus, summarize };
+}
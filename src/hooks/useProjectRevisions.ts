@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  revisionService,
+  type RevisionComparison,
+  type RevisionEntry
+} from '../core/services/RevisionService';
+import { unifiedStorage } from '../services/UnifiedStorageManager';
+
+interface UseProjectRevisionsReturn {
+  revisions: RevisionEntry[];
+  loading: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+  compare: (firstId: string, secondId: string) => Promise<RevisionComparison | null>;
+  restore: (revisionId: string) => Promise<boolean>;
+}
+
+/**
+ * Revision history for one project: local IndexedDB history, plus revisions
+ * mirrored to Storage from other devices when signed in.
+ */
+export function useProjectRevisions(projectId: string | undefined): UseProjectRevisionsReturn {
+  const [revisions, setRevisions] = useState<RevisionEntry[]>([]);
+  const [loading, setLoading] = useState(Boolean(projectId));
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!projectId) {
+      setRevisions([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      setRevisions(await revisionService.listRevisions(projectId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    void refresh();
+    if (!projectId) {return undefined;}
+
+    const unsubscribe = revisionService.subscribe(changedId => {
+      if (changedId === projectId) {void refresh();}
+    });
+
+    // Pull history recorded on other devices; listeners refresh when anything arrives
+    void import('../firebase/firebase')
+      .then(({ auth }) => {
+        const userId = auth?.currentUser?.uid;
+        return userId ? revisionService.importMirrored(projectId, userId) : 0;
+      })
+      .catch(err => {
+        console.warn('[useProjectRevisions] Failed to import mirrored revisions:', err);
+      });
+
+    return unsubscribe;
+  }, [projectId, refresh]);
+
+  const compare = useCallback((firstId: string, secondId: string) => {
+    if (!projectId) {return Promise.resolve(null);}
+    return revisionService.compareRevisions(projectId, firstId, secondId);
+  }, [projectId]);
+
+  const restore = useCallback(async (revisionId: string) => {
+    if (!projectId) {return false;}
+    const revision = await revisionService.loadRevision(projectId, revisionId);
+    if (!revision) {return false;}
+
+    // Sections are replaced wholesale so fields added after this revision do not survive the restore
+    await unifiedStorage.saveProject(
+      { ...revision.snapshot, id: projectId },
+      {
+        replace: true,
+        revision: {
+          source: 'restore',
+          comment: `Restored revision from ${new Date(revision.timestamp).toLocaleString()}`
+        }
+      }
+    );
+    return true;
+  }, [projectId]);
+
+  return { revisions, loading, error, refresh, compare, restore };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { listRulePacks, syncRulePacks, type RulePack } from '../ai/rulePacks';
+
+interface UseRulePacksReturn {
+  packs: RulePack[];
+  // True once the shared packs were fetched (or the fetch failed and the local copy stands)
+  synced: boolean;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * School rule packs: the local copy right away, then the shared set.
+ */
+export function useRulePacks(): UseRulePacksReturn {
+  const [packs, setPacks] = useState<RulePack[]>(() => listRulePacks());
+  const [synced, setSynced] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setPacks(await syncRulePacks());
+    } catch (err) {
+      console.warn('[useRulePacks] Failed to sync rule packs:', err);
+      setPacks(listRulePacks());
+    } finally {
+      setSynced(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { packs, synced, refresh };
+}
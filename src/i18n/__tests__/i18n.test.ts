@@ -0,0 +1,53 @@
+import { en } from '../catalogs/en';
+import { es } from '../catalogs/es';
+import { getLocale, setLocale, subscribeLocale, translate, translateList, type MessageKey } from '../index';
+
+function leafPaths(node: unknown, prefix = ''): string[] {
+  if (typeof node === 'string' || Array.isArray(node)) {return [prefix];}
+  return Object.entries(node as Record<string, unknown>).flatMap(([key, value]) =>
+    leafPaths(value, prefix ? `${prefix}.${key}` : key)
+  );
+}
+
+describe('translate', () => {
+  it('looks up dotted keys and interpolates parameters', () => {
+    expect(translate('en', 'wizard.reviewStep.maxCharacters', { count: 200 })).toBe('Max 200 characters');
+    expect(translate('es', 'wizard.reviewStep.maxCharacters', { count: 200 })).toBe('Máximo 200 caracteres');
+    expect(translate('en', 'handout.checkIt', {})).toBe('Check it: {text}');
+  });
+
+  it('reads lists such as stage suggestions', () => {
+    expect(translateList('es', 'stages.BIG_IDEA.suggestions')).toHaveLength(3);
+    expect(translateList('en', 'stages.JOURNEY.suggestions')[0]).toContain('Analyze');
+  });
+
+  it('keeps the Spanish catalog complete and placeholder-compatible', () => {
+    expect(leafPaths(es)).toEqual(leafPaths(en));
+    const placeholders = (message: string) => (message.match(/\{\w+\}/g) || []).sort();
+    leafPaths(en).forEach(path => {
+      const key = path as MessageKey;
+      expect(placeholders(translate('es', key))).toEqual(placeholders(translate('en', key)));
+    });
+  });
+});
+
+describe('UI locale', () => {
+  afterEach(() => {
+    setLocale('en');
+  });
+
+  it('persists the choice and notifies subscribers', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeLocale(listener);
+
+    setLocale('es');
+    expect(getLocale()).toBe('es');
+    expect(localStorage.getItem('alf-ui-locale')).toBe('es');
+    expect(document.documentElement.lang).toBe('es');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    setLocale('en');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * English UI catalog — the source of truth for message keys.
+ * Every other catalog is typed against this shape.
+ */
+
+export const en = {
+  common: {
+    language: 'Language',
+    back: 'Back',
+    next: 'Next',
+    optional: 'Optional',
+    required: 'Required'
+  },
+  header: {
+    howAlfWorks: 'How ALF Works',
+    howItWorks: 'How It Works',
+    projectShowcase: 'Project Showcase',
+    studioDashboard: 'Studio Dashboard',
+    backToGallery: 'Back to Gallery',
+    communityGallery: 'Community Gallery',
+    rulePacks: 'School Rule Packs',
+    signIn: 'Sign In',
+    signOut: 'Sign Out',
+    guestUser: 'Guest User',
+    user: 'User',
+    openMenu: 'Open navigation menu',
+    closeMenu: 'Close navigation menu'
+  },
+  wizard: {
+    subjects: {
+      science: 'Science',
+      technology: 'Technology',
+      engineering: 'Engineering',
+      mathematics: 'Mathematics',
+      'social-studies': 'Social Studies',
+      'language-arts': 'Language Arts',
+      arts: 'Arts',
+      music: 'Music',
+      health: 'Health & PE',
+      interdisciplinary: 'Interdisciplinary'
+    },
+    ageGroups: {
+      preK: 'Pre‑K (ages 3–5)',
+      earlyPrimary: 'Early Primary (K‑2)',
+      primary: 'Primary (3‑5)',
+      middle: 'Middle School (6‑8)',
+      high: 'High School (9‑12)',
+      postSecondary: 'Post‑secondary / CTE'
+    },
+    durations: {
+      project: 'Single Project (1–2 weeks)',
+      unit: 'Multi‑week Unit (3–6 weeks)',
+      quarter: 'Quarter (8–10 weeks)',
+      semester: 'Semester (16+ weeks)'
+    },
+    subjectStep: {
+      title: 'Choose subject focus',
+      subtitle: 'Select one or more areas. Mark a primary if interdisciplinary.',
+      steam: 'Spotlight STEAM by starting with Science, Technology, Engineering, or Mathematics—then layer in the humanities to round out the experience.',
+      primarySubject: 'Primary subject',
+      selectedHint: 'Selected — right‑click to set primary',
+      select: 'Select',
+      primary: 'Primary',
+      addCustom: 'Add Custom Subject',
+      customPlaceholder: 'e.g., Media Arts',
+      add: 'Add',
+      primaryHint: 'Right‑click or long-press a selected subject to set it as primary.'
+    },
+    contextStep: {
+      title: 'Class context',
+      subtitle: 'This helps tailor the project scale and supports.',
+      ageRange: 'Age range',
+      duration: 'Project duration',
+      studentLanguage: 'Student materials language',
+      studentLanguageHint: 'Assignments and family letters are also written in this language; your planning stays in {uiLanguage}.',
+      rulePack: 'School rule pack',
+      rulePackNone: 'Built-in guidance only',
+      rulePackHint: 'Coaching and generated materials follow the pack’s local policy for this grade band.',
+      addClassSize: 'Add class size (optional)',
+      classSize: 'Class size',
+      classSizePlaceholder: 'e.g., 28',
+      review: 'Review selections'
+    },
+    reviewStep: {
+      title: 'Review',
+      subtitle: 'We’ll tailor suggestions to your context. You can adjust anything later.',
+      yourContext: 'Your Context',
+      subjects: 'Subjects:',
+      age: 'Age:',
+      classSize: 'Class size:',
+      duration: 'Duration:',
+      studentLanguage: 'Student language:',
+      rulePack: 'Rule pack:',
+      primaryFocus: 'Primary focus: {subject}',
+      projectName: 'Project name',
+      projectNamePlaceholder: "We'll suggest names after the Big Idea",
+      projectNameHint: "Skip this for now—we'll generate name ideas once the Big Idea is set.",
+      topic: 'Working topic or theme',
+      topicHint: 'A rough starting point (e.g., "renewable energy"). We\'ll turn this into a pedagogically rich Big Idea next.',
+      topicPlaceholder: 'e.g., Community storytelling through local history',
+      topicLabel: 'Working idea or theme',
+      maxCharacters: 'Max {count} characters',
+      preparing: 'Preparing…',
+      launch: 'Design Your Project',
+      nextHint: 'Next: co-design in five short steps (Big Idea → Deliverables)'
+    },
+    launching: {
+      title: 'Context captured',
+      subtitle: 'Opening the design workspace…'
+    },
+    createFailed: 'Failed to create project. Please try again.'
+  },
+  stages: {
+    BIG_IDEA: {
+      what: 'Define the Big Idea — a transferable concept that anchors the project.',
+      why: 'It keeps work meaningful and coherent, and guides every decision that follows.',
+      tip: 'Write a short, strong concept; we can refine language later.',
+      suggestions: [
+        'How systems change over time',
+        'How innovation emerges from constraints',
+        'The relationship between people and place'
+      ]
+    },
+    ESSENTIAL_QUESTION: {
+      what: 'Shape an Essential Question that invites sustained inquiry.',
+      why: 'A powerful EQ drives curiosity and connects the Big Idea to action.',
+      tip: 'Make it open-ended, debate-worthy, and tied to your Big Idea.',
+      suggestions: [
+        'How might we reduce local waste?',
+        'What makes a solution fair for everyone?',
+        'How do policies shape everyday choices?'
+      ]
+    },
+    CHALLENGE: {
+      what: 'Define an authentic Challenge for a real audience.',
+      why: 'It creates purpose and raises quality by bringing work to the world.',
+      tip: 'Name the audience and outcome; keep scope achievable in your timeframe.',
+      suggestions: [
+        'Design an evidence-based proposal for city council',
+        'Prototype a solution for a school exhibition',
+        'Produce a community resource to shift behaviors'
+      ]
+    },
+    JOURNEY: {
+      what: 'Outline phases (Analyze → Brainstorm → Prototype → Evaluate) with key activities.',
+      why: 'A clear journey builds momentum and manages complexity.',
+      tip: '3–4 phases are enough. One or two activities per phase.',
+      suggestions: [
+        'List 3–4 phases (Analyze → Brainstorm → Prototype → Evaluate)',
+        'Add 1–2 activities to each phase',
+        'Name 3 helpful resources'
+      ]
+    },
+    DELIVERABLES: {
+      what: 'List final artifacts, 3+ milestones, and a simple rubric.',
+      why: 'Clarity on outcomes and quality supports student success.',
+      tip: 'Aim for 1–3 artifacts, 3+ milestones, and 3–6 rubric criteria.',
+      suggestions: [
+        'List 3+ milestones with names',
+        'Name 1–3 final artifacts',
+        'List 3–6 rubric criteria'
+      ]
+    }
+  },
+  showcase: {
+    arcAtAGlance: 'Arc at a glance',
+    totalWeeks: 'Total weeks',
+    lessonsPerWeek: 'Lessons / week',
+    lessonLength: 'Lesson length',
+    runOfShow: 'Run of show',
+    assignments: 'Assignments',
+    coreOutcomes: 'Core outcomes',
+    extendedOutcomes: 'Extended outcomes',
+    audiences: 'Authentic audiences',
+    coreKit: 'Core kit',
+    noTechFallback: 'No-tech fallback',
+    polish: 'Polish',
+    microRubric: 'Micro rubric',
+    checkpoints: 'Checkpoints',
+    exhibition: 'Exhibition',
+    communications: 'Communications',
+    standards: 'Standards',
+    roles: 'Roles & Supports',
+    planningNotes: 'Planning notes'
+  },
+  studentLanguage: {
+    title: 'Student language',
+    description: 'Student directions, success criteria and family letters are written in this language. Teacher-facing text stays in {uiLanguage}.',
+    generate: 'Write student materials in {language}',
+    regenerate: 'Rewrite in {language}',
+    working: 'Writing…',
+    ready: '{count} of {total} assignments are ready in {language}.',
+    failed: 'Could not write the student materials right now. Try again in a moment.'
+  },
+  // Family letters are written in the student language, not the UI language
+  familyKit: {
+    greeting: 'Dear families,',
+    signOff: 'Thank you,',
+    teacherName: '[Teacher name]',
+    kickoff: {
+      subject: 'Our new project: {title}',
+      intro: 'Our class is starting a new project called "{title}". {tagline}',
+      length: 'It will run for about {weeks} weeks.',
+      learnHeading: 'What your child will learn:',
+      audience: 'At the end, students will share their work with {audiences}.',
+      home: 'At home, ask your child what they worked on today. Talking about it helps them remember.'
+    },
+    weekly: {
+      subject: '{week} update: {focus}',
+      intro: 'This week in "{title}" we are working on: {focus}',
+      studentsHeading: 'What students are doing:',
+      dueHeading: 'What students will finish:',
+      ask: 'Ask your child: "{question}"',
+      defaultQuestion: 'What did you learn this week?'
+    },
+    volunteer: {
+      subject: 'Can you help with "{title}"?',
+      intro: 'Our class is working on a project called "{title}". We are looking for family and community members who can help.',
+      waysHeading: 'You could:',
+      ways: [
+        'Visit the class to talk about your work or experience',
+        'Answer student questions by email or video call',
+        'Give feedback on student work',
+        'Help at our final exhibition'
+      ],
+      expertise: 'We would especially like to hear from people who know about {subjects}.',
+      reply: 'If you can help, please reply and tell us how you would like to take part.'
+    },
+    materials: {
+      subject: 'Materials from home for "{title}"',
+      intro: 'Our project uses some everyday materials. If you have any of these at home, we would be glad to use them:',
+      noBuy: 'Please only send what you already have. There is no need to buy anything.',
+      label: 'Please put your child\'s name on anything you would like back.'
+    },
+    permission: {
+      subject: 'Permission slip: fieldwork for "{title}"',
+      intro: 'As part of "{title}", students will do fieldwork outside the classroom.',
+      whenHeading: 'When and what:',
+      safetyHeading: 'How we will keep students safe:',
+      returnBy: 'Please sign and return the form below by: ____________',
+      form: [
+        'Student name: ______________________',
+        '[ ] I give permission for my child to take part in the fieldwork.',
+        '[ ] I do not give permission. Please plan another activity for my child.',
+        'Parent or guardian signature: ______________________',
+        'Emergency phone number: ______________________',
+        'Date: ____________'
+      ]
+    },
+    invitation: {
+      subject: 'You are invited: "{title}" exhibition',
+      intro: 'Students have been working hard on "{title}". Please join us as they share what they made.',
+      showing: 'Students will present: {work}',
+      details: 'Date: ____________   Time: ____________   Place: ____________',
+      audience: 'We are also inviting {audiences}.',
+      rsvp: 'Please let us know if you can come. Younger brothers and sisters are welcome.'
+    }
+  },
+  // Student site strings use the student language, like handouts
+  studentSite: {
+    drivingQuestion: 'Our driving question',
+    thisWeek: 'This week',
+    weekOf: '{week} of {total}',
+    doing: 'What we are doing',
+    plan: 'Our project plan',
+    assignments: 'Assignments',
+    offline: 'Saved for offline use on {date}'
+  },
+  // Student handouts are printed in the student language, not the UI language
+  handout: {
+    name: 'Name:',
+    date: 'Date:',
+    whatToDo: 'What to do',
+    success: 'What success looks like',
+    turnIn: 'What to turn in',
+    checkIn: 'Check in with your teacher',
+    usingAI: 'Using AI (optional)',
+    checkIt: 'Check it: {text}',
+    withoutAI: 'Without AI: {text}',
+    staySafe: 'Stay safe',
+    scoring: 'How you will be scored',
+    criterion: 'Criterion',
+    levels: {
+      exemplary: 'Exemplary',
+      proficient: 'Proficient',
+      developing: 'Developing',
+      beginning: 'Beginning'
+    }
+  }
+};
+
+export type Catalog = typeof en;
@@ -0,0 +1,288 @@
+/**
+ * Spanish UI catalog
+ */
+
+import type { Catalog } from './en';
+
+export const es: Catalog = {
+  common: {
+    language: 'Idioma',
+    back: 'Atrás',
+    next: 'Siguiente',
+    optional: 'Opcional',
+    required: 'Obligatorio'
+  },
+  header: {
+    howAlfWorks: 'Cómo funciona ALF',
+    howItWorks: 'Cómo funciona',
+    projectShowcase: 'Proyectos de muestra',
+    studioDashboard: 'Panel del estudio',
+    backToGallery: 'Volver a la galería',
+    communityGallery: 'Galería de la comunidad',
+    rulePacks: 'Reglas de la escuela',
+    signIn: 'Iniciar sesión',
+    signOut: 'Cerrar sesión',
+    guestUser: 'Invitado',
+    user: 'Usuario',
+    openMenu: 'Abrir el menú de navegación',
+    closeMenu: 'Cerrar el menú de navegación'
+  },
+  wizard: {
+    subjects: {
+      science: 'Ciencias',
+      technology: 'Tecnología',
+      engineering: 'Ingeniería',
+      mathematics: 'Matemáticas',
+      'social-studies': 'Estudios sociales',
+      'language-arts': 'Lengua y literatura',
+      arts: 'Artes',
+      music: 'Música',
+      health: 'Salud y educación física',
+      interdisciplinary: 'Interdisciplinario'
+    },
+    ageGroups: {
+      preK: 'Preescolar (3–5 años)',
+      earlyPrimary: 'Primeros grados (K‑2)',
+      primary: 'Primaria (3‑5)',
+      middle: 'Secundaria (6‑8)',
+      high: 'Preparatoria (9‑12)',
+      postSecondary: 'Educación superior / técnica'
+    },
+    durations: {
+      project: 'Proyecto corto (1–2 semanas)',
+      unit: 'Unidad de varias semanas (3–6 semanas)',
+      quarter: 'Trimestre (8–10 semanas)',
+      semester: 'Semestre (16+ semanas)'
+    },
+    subjectStep: {
+      title: 'Elige las materias',
+      subtitle: 'Selecciona una o más áreas. Marca una principal si es interdisciplinario.',
+      steam: 'Destaca STEAM empezando por Ciencias, Tecnología, Ingeniería o Matemáticas y suma las humanidades para completar la experiencia.',
+      primarySubject: 'Materia principal',
+      selectedHint: 'Seleccionada: clic derecho para marcarla como principal',
+      select: 'Seleccionar',
+      primary: 'Principal',
+      addCustom: 'Agregar otra materia',
+      customPlaceholder: 'p. ej., Artes mediáticas',
+      add: 'Agregar',
+      primaryHint: 'Haz clic derecho o mantén presionada una materia seleccionada para marcarla como principal.'
+    },
+    contextStep: {
+      title: 'Contexto de la clase',
+      subtitle: 'Esto ayuda a ajustar la escala del proyecto y los apoyos.',
+      ageRange: 'Rango de edad',
+      duration: 'Duración del proyecto',
+      studentLanguage: 'Idioma de los materiales del estudiante',
+      studentLanguageHint: 'Las tareas y las cartas a las familias también se escriben en este idioma; tu planificación sigue en {uiLanguage}.',
+      rulePack: 'Paquete de reglas de la escuela',
+      rulePackNone: 'Solo la guía incorporada',
+      rulePackHint: 'El acompañamiento y los materiales generados siguen la política local del paquete para este nivel.',
+      addClassSize: 'Agregar tamaño del grupo (opcional)',
+      classSize: 'Tamaño del grupo',
+      classSizePlaceholder: 'p. ej., 28',
+      review: 'Revisar selección'
+    },
+    reviewStep: {
+      title: 'Revisión',
+      subtitle: 'Ajustaremos las sugerencias a tu contexto. Puedes cambiar todo más adelante.',
+      yourContext: 'Tu contexto',
+      subjects: 'Materias:',
+      age: 'Edad:',
+      classSize: 'Tamaño del grupo:',
+      duration: 'Duración:',
+      studentLanguage: 'Idioma del estudiante:',
+      rulePack: 'Paquete de reglas:',
+      primaryFocus: 'Enfoque principal: {subject}',
+      projectName: 'Nombre del proyecto',
+      projectNamePlaceholder: 'Te sugeriremos nombres después de la Gran Idea',
+      projectNameHint: 'Puedes omitirlo por ahora; generaremos ideas de nombre cuando tengas la Gran Idea.',
+      topic: 'Tema de trabajo',
+      topicHint: 'Un punto de partida aproximado (p. ej., "energía renovable"). Luego lo convertiremos en una Gran Idea con sentido pedagógico.',
+      topicPlaceholder: 'p. ej., Relatos de la comunidad a través de la historia local',
+      topicLabel: 'Idea o tema de trabajo',
+      maxCharacters: 'Máximo {count} caracteres',
+      preparing: 'Preparando…',
+      launch: 'Diseña tu proyecto',
+      nextHint: 'Después: codiseña en cinco pasos cortos (Gran Idea → Productos)'
+    },
+    launching: {
+      title: 'Contexto guardado',
+      subtitle: 'Abriendo el espacio de diseño…'
+    },
+    createFailed: 'No se pudo crear el proyecto. Inténtalo de nuevo.'
+  },
+  stages: {
+    BIG_IDEA: {
+      what: 'Define la Gran Idea: un concepto transferible que ancla el proyecto.',
+      why: 'Mantiene el trabajo significativo y coherente, y orienta cada decisión posterior.',
+      tip: 'Escribe un concepto breve y sólido; podemos pulir la redacción después.',
+      suggestions: [
+        'Cómo cambian los sistemas con el tiempo',
+        'Cómo surge la innovación a partir de las limitaciones',
+        'La relación entre las personas y el lugar'
+      ]
+    },
+    ESSENTIAL_QUESTION: {
+      what: 'Formula una Pregunta Esencial que invite a una indagación sostenida.',
+      why: 'Una buena pregunta despierta la curiosidad y conecta la Gran Idea con la acción.',
+      tip: 'Hazla abierta, debatible y ligada a tu Gran Idea.',
+      suggestions: [
+        '¿Cómo podríamos reducir los residuos locales?',
+        '¿Qué hace que una solución sea justa para todos?',
+        '¿Cómo influyen las políticas en las decisiones diarias?'
+      ]
+    },
+    CHALLENGE: {
+      what: 'Define un Reto auténtico para un público real.',
+      why: 'Le da propósito al trabajo y eleva la calidad al llevarlo al mundo.',
+      tip: 'Nombra al público y el resultado; mantén un alcance realista para tu calendario.',
+      suggestions: [
+        'Diseñar una propuesta basada en evidencia para el concejo municipal',
+        'Crear un prototipo de solución para una exposición escolar',
+        'Producir un recurso comunitario para cambiar hábitos'
+      ]
+    },
+    JOURNEY: {
+      what: 'Describe las fases (Analizar → Idear → Prototipar → Evaluar) con actividades clave.',
+      why: 'Un recorrido claro genera impulso y ayuda a manejar la complejidad.',
+      tip: 'Bastan 3–4 fases, con una o dos actividades cada una.',
+      suggestions: [
+        'Enumera 3–4 fases (Analizar → Idear → Prototipar → Evaluar)',
+        'Agrega 1–2 actividades a cada fase',
+        'Nombra 3 recursos útiles'
+      ]
+    },
+    DELIVERABLES: {
+      what: 'Enumera los productos finales, 3 o más hitos y una rúbrica sencilla.',
+      why: 'La claridad sobre resultados y calidad favorece el éxito de los estudiantes.',
+      tip: 'Apunta a 1–3 productos, 3 o más hitos y 3–6 criterios de rúbrica.',
+      suggestions: [
+        'Enumera 3 o más hitos con nombre',
+        'Nombra 1–3 productos finales',
+        'Enumera 3–6 criterios de rúbrica'
+      ]
+    }
+  },
+  showcase: {
+    arcAtAGlance: 'El proyecto de un vistazo',
+    totalWeeks: 'Semanas en total',
+    lessonsPerWeek: 'Clases / semana',
+    lessonLength: 'Duración de la clase',
+    runOfShow: 'Secuencia semanal',
+    assignments: 'Tareas',
+    coreOutcomes: 'Aprendizajes centrales',
+    extendedOutcomes: 'Aprendizajes ampliados',
+    audiences: 'Públicos auténticos',
+    coreKit: 'Materiales básicos',
+    noTechFallback: 'Alternativa sin tecnología',
+    polish: 'Calidad',
+    microRubric: 'Microrrúbrica',
+    checkpoints: 'Puntos de control',
+    exhibition: 'Exposición',
+    communications: 'Comunicaciones',
+    standards: 'Estándares',
+    roles: 'Roles y apoyos',
+    planningNotes: 'Notas de planificación'
+  },
+  studentLanguage: {
+    title: 'Idioma del estudiante',
+    description: 'Las instrucciones, los criterios de éxito y las cartas a las familias se escriben en este idioma. El texto para el docente sigue en {uiLanguage}.',
+    generate: 'Escribir los materiales del estudiante en {language}',
+    regenerate: 'Reescribir en {language}',
+    working: 'Escribiendo…',
+    ready: '{count} de {total} tareas están listas en {language}.',
+    failed: 'No se pudieron escribir los materiales del estudiante. Inténtalo de nuevo en un momento.'
+  },
+  familyKit: {
+    greeting: 'Estimadas familias:',
+    signOff: 'Gracias,',
+    teacherName: '[Nombre del maestro o maestra]',
+    kickoff: {
+      subject: 'Nuestro nuevo proyecto: {title}',
+      intro: 'Nuestra clase empieza un nuevo proyecto llamado "{title}". {tagline}',
+      length: 'Durará unas {weeks} semanas.',
+      learnHeading: 'Lo que su hijo o hija aprenderá:',
+      audience: 'Al final, los estudiantes presentarán su trabajo a {audiences}.',
+      home: 'En casa, pregúntele a su hijo o hija en qué trabajó hoy. Hablar de ello le ayuda a recordar.'
+    },
+    weekly: {
+      subject: 'Novedades de {week}: {focus}',
+      intro: 'Esta semana en "{title}" estamos trabajando en: {focus}',
+      studentsHeading: 'Lo que hacen los estudiantes:',
+      dueHeading: 'Lo que los estudiantes terminarán:',
+      ask: 'Pregúntele a su hijo o hija: "{question}"',
+      defaultQuestion: '¿Qué aprendiste esta semana?'
+    },
+    volunteer: {
+      subject: '¿Puede ayudarnos con "{title}"?',
+      intro: 'Nuestra clase trabaja en un proyecto llamado "{title}". Buscamos familiares y miembros de la comunidad que puedan ayudar.',
+      waysHeading: 'Usted podría:',
+      ways: [
+        'Visitar la clase para hablar de su trabajo o experiencia',
+        'Responder preguntas de los estudiantes por correo o videollamada',
+        'Dar comentarios sobre el trabajo de los estudiantes',
+        'Ayudar en nuestra exposición final'
+      ],
+      expertise: 'Nos gustaría especialmente conocer a personas que sepan de {subjects}.',
+      reply: 'Si puede ayudar, responda a este mensaje y díganos cómo le gustaría participar.'
+    },
+    materials: {
+      subject: 'Materiales de casa para "{title}"',
+      intro: 'Nuestro proyecto usa algunos materiales cotidianos. Si tiene alguno de estos en casa, nos encantaría usarlos:',
+      noBuy: 'Envíe solo lo que ya tenga. No hace falta comprar nada.',
+      label: 'Escriba el nombre de su hijo o hija en lo que quiera que le devolvamos.'
+    },
+    permission: {
+      subject: 'Permiso: trabajo de campo para "{title}"',
+      intro: 'Como parte de "{title}", los estudiantes harán trabajo de campo fuera del salón.',
+      whenHeading: 'Cuándo y qué:',
+      safetyHeading: 'Cómo cuidaremos a los estudiantes:',
+      returnBy: 'Firme y devuelva el formulario de abajo antes del: ____________',
+      form: [
+        'Nombre del estudiante: ______________________',
+        '[ ] Doy permiso para que mi hijo o hija participe en el trabajo de campo.',
+        '[ ] No doy permiso. Por favor planee otra actividad para mi hijo o hija.',
+        'Firma del padre, madre o tutor: ______________________',
+        'Teléfono de emergencia: ______________________',
+        'Fecha: ____________'
+      ]
+    },
+    invitation: {
+      subject: 'Están invitados: exposición de "{title}"',
+      intro: 'Los estudiantes han trabajado mucho en "{title}". Acompáñenos mientras comparten lo que hicieron.',
+      showing: 'Los estudiantes presentarán: {work}',
+      details: 'Fecha: ____________   Hora: ____________   Lugar: ____________',
+      audience: 'También invitamos a {audiences}.',
+      rsvp: 'Avísenos si puede venir. Los hermanos menores son bienvenidos.'
+    }
+  },
+  studentSite: {
+    drivingQuestion: 'Nuestra pregunta guía',
+    thisWeek: 'Esta semana',
+    weekOf: '{week} de {total}',
+    doing: 'Lo que estamos haciendo',
+    plan: 'El plan de nuestro proyecto',
+    assignments: 'Tareas',
+    offline: 'Guardado para usar sin conexión el {date}'
+  },
+  handout: {
+    name: 'Nombre:',
+    date: 'Fecha:',
+    whatToDo: 'Qué hacer',
+    success: 'Cómo se ve el éxito',
+    turnIn: 'Qué entregar',
+    checkIn: 'Revisa con tu maestro o maestra',
+    usingAI: 'Uso de IA (opcional)',
+    checkIt: 'Verifícalo: {text}',
+    withoutAI: 'Sin IA: {text}',
+    staySafe: 'Cuídate',
+    scoring: 'Cómo se evaluará tu trabajo',
+    criterion: 'Criterio',
+    levels: {
+      exemplary: 'Ejemplar',
+      proficient: 'Competente',
+      developing: 'En desarrollo',
+      beginning: 'Inicial'
+    }
+  }
+};
@@ -0,0 +1,129 @@
+/**
+ * Minimal i18n layer
+ *
+ * Catalogs are plain typed objects (see ./catalogs). Keys are dotted paths
+ * into the English catalog, so a typo in a key is a type error. Missing
+ * translations fall back to English, then to the key itself.
+ *
+ * The UI locale lives at module level (persisted to localStorage) so that
+ * non-React code such as stage guides can read it; React components use
+ * `useTranslation` which re-renders on change.
+ */
+
+import { en, type Catalog } from './catalogs/en';
+import { es } from './catalogs/es';
+
+export type Locale = 'en' | 'es';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALES: ReadonlyArray<{ code: Locale; label: string; englishName: string }> = [
+  { code: 'en', label: 'English', englishName: 'English' },
+  { code: 'es', label: 'Español', englishName: 'Spanish' }
+];
+
+const CATALOGS: Record<Locale, Catalog> = { en, es };
+
+const STORAGE_KEY = 'alf-ui-locale';
+
+type Join<K extends string, P extends string> = `${K}.${P}`;
+
+type PathsOf<T, Leaf> = {
+  [K in keyof T & string]: T[K] extends Leaf
+    ? K
+    : T[K] extends readonly unknown[]
+      ? never
+      : T[K] extends object
+        ? Join<K, PathsOf<T[K], Leaf>>
+        : never;
+}[keyof T & string];
+
+/** Dotted path to a single message, e.g. `wizard.contextStep.title`. */
+export type MessageKey = PathsOf<Catalog, string>;
+
+/** Dotted path to a list of messages, e.g. `stages.BIG_IDEA.suggestions`. */
+export type ListKey = PathsOf<Catalog, string[]>;
+
+export type MessageParams = Record<string, string | number>;
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in CATALOGS;
+}
+
+/** English name of a locale, for prompts ("Write in Spanish"). */
+export function languageName(locale: Locale): string {
+  return LOCALES.find(entry => entry.code === locale)?.englishName ?? locale;
+}
+
+/** Native label of a locale, for pickers and UI copy. */
+export function localeLabel(locale: Locale): string {
+  return LOCALES.find(entry => entry.code === locale)?.label ?? locale;
+}
+
+function lookup(catalog: Catalog, key: string): unknown {
+  return key.split('.').reduce<unknown>(
+    (node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined),
+    catalog
+  );
+}
+
+function interpolate(message: string, params?: MessageParams): string {
+  if (!params) {return message;}
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  const message = lookup(CATALOGS[locale], key) ?? lookup(en, key);
+  return typeof message === 'string' ? interpolate(message, params) : key;
+}
+
+export function translateList(locale: Locale, key: ListKey): string[] {
+  const list = lookup(CATALOGS[locale], key) ?? lookup(en, key);
+  return Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function detectLocale(): Locale {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (isLocale(stored)) {return stored;}
+  } catch {
+    // Storage can be unavailable (private mode); fall through to the browser language
+  }
+  const browser = typeof navigator !== 'undefined' ? navigator.language?.slice(0, 2).toLowerCase() : undefined;
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+}
+
+let currentLocale: Locale = detectLocale();
+const listeners = new Set<() => void>();
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+export function setLocale(locale: Locale): void {
+  if (locale === currentLocale) {return;}
+  currentLocale = locale;
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Non-fatal: the choice just won't survive a reload
+  }
+  if (typeof document !== 'undefined') {
+    document.documentElement.lang = locale;
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Translate in the current UI locale. */
+export function t(key: MessageKey, params?: MessageParams): string {
+  return translate(currentLocale, key, params);
+}
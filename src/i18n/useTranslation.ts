@@ -0,0 +1,27 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  getLocale,
+  setLocale,
+  subscribeLocale,
+  translate,
+  translateList,
+  type ListKey,
+  type MessageKey,
+  type MessageParams
+} from './index';
+
+/**
+ * React binding for the UI locale. No provider is needed; every component
+ * using the hook re-renders when the locale changes.
+ */
+export function useTranslation() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale, getLocale);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    [locale]
+  );
+  const tList = useCallback((key: ListKey) => translateList(locale, key), [locale]);
+
+  return { t, tList, locale, setLocale };
+}
@@ -38,10 +38,9 @@ export function AiSetup() {
     try {
       const controller = new AbortController();
       const timeoutId = window.setTimeout(() => controller.abort(), 2000);
+      // Health probe: works signed out and does not call Gemini
       const res = await fetch('/.netlify/functions/gemini', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt: 'ping', model: 'gemini-flash-lite-latest', generationConfig: { maxOutputTokens: 4, temperature: 0 } }),
+        method: 'GET',
         signal: controller.signal
       });
       window.clearTimeout(timeoutId);
@@ -2,19 +2,23 @@
  * Telemetry Debug Dashboard
  *
  * Real-time monitoring of cloud-first architecture performance.
- * Shows success rates, latency, cache hits, errors, and recent events.
+ * Shows success rates, latency, cache hits, errors, and recent events,
+ * plus cross-session rates from the persisted telemetry store and what
+ * suggestion chips teachers pick (with the suggestion-learning opt-out).
  *
  * Access: /app/debug/telemetry
  * Only visible when VITE_REVIEW_DEBUG=true
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { telemetry, type TelemetryEvent } from '../services/telemetry';
+import { telemetry, type PersistedTelemetryStats, type TelemetryEvent } from '../services/telemetry';
 import { syncStatusManager } from '../services/SyncStatusManager';
 import { offlineSnapshotService } from '../services/OfflineSnapshotService';
 import { cloudProjectService } from '../services/CloudProjectService';
 import { featureFlags } from '../config/featureFlags';
+import { suggestionTracker } from '../features/chat-mvp/domain/suggestionTracking';
+import type { SuggestionStats } from '../features/chat-mvp/domain/suggestionRanking';
 import {
   Activity,
   TrendingUp,
@@ -28,7 +32,10 @@ import {
   Trash2,
   ArrowLeft,
   Zap,
-  WifiOff
+  WifiOff,
+  History,
+  Upload,
+  Lightbulb
 } from 'lucide-react';
 
 export default function DebugTelemetry() {
@@ -41,6 +48,22 @@ export default function DebugTelemetry() {
   const [narrativeOnly, setNarrativeOnly] = useState<boolean>(() => typeof localStorage !== 'undefined' && localStorage.getItem('alf_ai_narrative_only') === 'true');
   const [fullRubric, setFullRubric] = useState<boolean>(() => typeof localStorage !== 'undefined' && localStorage.getItem('alf_ai_full_rubric') === 'true');
   const [aiMetrics, setAIMetrics] = useState(telemetry.getAIMetrics());
+  const [persisted, setPersisted] = useState<PersistedTelemetryStats | null>(null);
+  const [suggestionStats, setSuggestionStats] = useState<SuggestionStats[]>([]);
+  const [suggestionLearning, setSuggestionLearning] = useState(() => suggestionTracker.isLearningEnabled());
+
+  const refreshPersisted = useCallback(() => {
+    telemetry.getPersistedStats().then(setPersisted).catch(error => {
+      console.warn('[DebugTelemetry] Failed to read persisted telemetry:', error);
+    });
+    suggestionTracker.getStats().then(setSuggestionStats).catch(error => {
+      console.warn('[DebugTelemetry] Failed to read suggestion history:', error);
+    });
+  }, []);
+
+  useEffect(() => {
+    refreshPersisted();
+  }, [refreshPersisted]);
 
   // Auto-refresh every 2 seconds
   useEffect(() => {
@@ -52,13 +75,14 @@ export default function DebugTelemetry() {
       setSyncCounts(syncStatusManager.getStatusCounts());
       setSnapshotStats(offlineSnapshotService.getStats());
       setAIMetrics(telemetry.getAIMetrics());
+      refreshPersisted();
     }, 2000);
 
     return () => clearInterval(interval);
-  }, [autoRefresh]);
+  }, [autoRefresh, refreshPersisted]);
 
-  const handleExport = () => {
-    const json = telemetry.export();
+  const handleExport = async () => {
+    const json = await telemetry.exportAll();
     const blob = new Blob([json], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -68,6 +92,12 @@ export default function DebugTelemetry() {
     URL.revokeObjectURL(url);
   };
 
+  const handleUpload = async () => {
+    const sent = await telemetry.upload();
+    refreshPersisted();
+    import('../utils/toast').then(m => m.showToast(`Uploaded ${sent} telemetry events`, 'success')).catch(() => {});
+  };
+
   const handleClearCache = () => {
     if (confirm('Clear cloud project cache? This will force reload from cloud on next access.')) {
       cloudProjectService.clearCache();
@@ -80,9 +110,22 @@ export default function DebugTelemetry() {
       telemetry.clear();
       setStats(telemetry.getStats());
       setEvents(telemetry.getRecentEvents(20));
+      setPersisted(null);
+      refreshPersisted();
     }
   };
 
+  const handleSuggestionLearning = async (enabled: boolean) => {
+    setSuggestionLearning(enabled);
+    await suggestionTracker.setLearningEnabled(enabled);
+    refreshPersisted();
+  };
+
+  const handleClearSuggestions = async () => {
+    await suggestionTracker.clearHistory();
+    refreshPersisted();
+  };
+
   const getSuccessRateColor = (rate: number) => {
     if (rate >= 99.5) {return 'text-success-600';}
     if (rate >= 95) {return 'text-warning-600';}
@@ -149,7 +192,15 @@ export default function DebugTelemetry() {
             </label>
 
             <button
-              onClick={handleExport}
+              onClick={() => { void handleUpload(); }}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+            >
+              <Upload className="w-4 h-4" />
+              Upload
+            </button>
+
+            <button
+              onClick={() => { void handleExport(); }}
               className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
             >
               <Download className="w-4 h-4" />
@@ -245,7 +296,7 @@ export default function DebugTelemetry() {
               {stats.avgLoadLatency}ms
             </div>
             <div className="text-xs text-gray-500 mt-1">
-              Target: {'<'}500ms
+              p50 {stats.loadLatency.p50}ms · p95 {stats.loadLatency.p95}ms · Target: {'<'}500ms
             </div>
           </div>
         </div>
@@ -275,6 +326,123 @@ export default function DebugTelemetry() {
           </div>
         </div>
 
+        {/* All Sessions (persisted store) */}
+        {persisted && (
+          <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+              <History className="w-5 h-5" />
+              All Sessions
+              <span className="text-sm font-normal text-gray-500">
+                {persisted.totalEvents} events · {persisted.sessions} sessions
+                {persisted.oldestTimestamp ? ` · since ${new Date(persisted.oldestTimestamp).toLocaleDateString()}` : ''}
+              </span>
+            </h2>
+            <div className="grid grid-cols-4 gap-6">
+              <div>
+                <div className="text-sm text-gray-600">Save Failures</div>
+                <div className={`text-2xl font-bold ${getSuccessRateColor(persisted.saveSuccessRate)}`}>
+                  {100 - persisted.saveSuccessRate}%
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  p50 {persisted.saveLatency.p50}ms · p95 {persisted.saveLatency.p95}ms
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-600">Load Latency</div>
+                <div className={`text-2xl font-bold ${getLatencyColor(persisted.loadLatency.p95)}`}>
+                  {persisted.loadLatency.p95}ms
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  p95 · p50 {persisted.loadLatency.p50}ms
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-600">AI Fallback Rate</div>
+                <div className="text-2xl font-bold text-warning-600">{persisted.aiFallbackRate}%</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  AI p50 {persisted.aiLatency.p50}ms · p95 {persisted.aiLatency.p95}ms
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-600">Upload Queue</div>
+                <div className="text-2xl font-bold text-primary-600">{persisted.pendingUpload}</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {persisted.dropped} rotated out before upload
+                </div>
+              </div>
+            </div>
+            {Object.keys(persisted.exportsByFormat).length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {Object.entries(persisted.exportsByFormat).map(([format, count]) => (
+                  <span key={format} className="px-2 py-1 bg-gray-100 rounded text-xs text-gray-700">
+                    {format}: {count}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Suggestion Learning */}
+        <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Lightbulb className="w-5 h-5" />
+              Suggestion Learning
+            </h2>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 cursor-pointer text-sm">
+                <input
+                  type="checkbox"
+                  checked={suggestionLearning}
+                  onChange={(e) => { void handleSuggestionLearning(e.target.checked); }}
+                />
+                <span>Learn from chip choices</span>
+              </label>
+              <button
+                onClick={() => { void handleClearSuggestions(); }}
+                className="text-sm text-gray-600 hover:text-error-700"
+              >
+                Clear history
+              </button>
+            </div>
+          </div>
+          {!suggestionLearning ? (
+            <p className="text-sm text-gray-500">Learning is off. Chips keep their default order and nothing is recorded.</p>
+          ) : suggestionStats.length === 0 ? (
+            <p className="text-sm text-gray-500">No suggestion activity recorded yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 px-3 text-gray-600 font-medium">Stage</th>
+                  <th className="text-left py-2 px-3 text-gray-600 font-medium">Grade Band</th>
+                  <th className="text-right py-2 px-3 text-gray-600 font-medium">Shown</th>
+                  <th className="text-right py-2 px-3 text-gray-600 font-medium">Selected</th>
+                  <th className="text-right py-2 px-3 text-gray-600 font-medium">Modified</th>
+                  <th className="text-right py-2 px-3 text-gray-600 font-medium">Ignored</th>
+                  <th className="text-right py-2 px-3 text-gray-600 font-medium">Accepted</th>
+                  <th className="text-left py-2 px-3 text-gray-600 font-medium">Top Picks</th>
+                </tr>
+              </thead>
+              <tbody>
+                {suggestionStats.map(row => (
+                  <tr key={`${row.stage}-${row.gradeBand ?? 'none'}`} className="border-b border-gray-100">
+                    <td className="py-2 px-3 text-gray-900 font-mono text-xs">{row.stage}</td>
+                    <td className="py-2 px-3 text-gray-700">{row.gradeBand ?? 'n/a'}</td>
+                    <td className="py-2 px-3 text-right text-gray-700">{row.shown}</td>
+                    <td className="py-2 px-3 text-right text-gray-700">{row.selected}</td>
+                    <td className="py-2 px-3 text-right text-gray-700">{row.modified}</td>
+                    <td className="py-2 px-3 text-right text-gray-700">{row.ignored}</td>
+                    <td className="py-2 px-3 text-right font-semibold text-primary-600">{row.acceptanceRate}%</td>
+                    <td className="py-2 px-3 text-xs text-gray-600">{row.topAccepted.join(' · ') || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
         {/* Sync Status & Snapshot Stats */}
         <div className="grid grid-cols-2 gap-6 mb-8">
           {/* Sync Status Counts */}
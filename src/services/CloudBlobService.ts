@@ -1,5 +1,8 @@
 import { storage, auth, isOfflineMode } from '../firebase/firebase';
-import { ref, uploadString, getDownloadURL, listAll, deleteObject } from 'firebase/storage';
+import { ref, uploadString, getDownloadURL, listAll, deleteObject, type FirebaseStorage } from 'firebase/storage';
+
+// Snapshot folders: periodic blob snapshots plus the revision history mirror (RevisionService)
+export type SnapshotKind = 'showcase' | 'hero' | 'revisions';
 
 export type CloudBlobPointer = {
   storage: 'cloud';
@@ -14,17 +17,23 @@ function ensurePath(userId: string, projectId: string, kind: 'showcase' | 'hero'
   return `${base}/${kind}.json`;
 }
 
-function ensureSnapshotFolder(userId: string, projectId: string, kind: 'showcase' | 'hero') {
+function ensureSnapshotFolder(userId: string, projectId: string, kind: SnapshotKind) {
   return `users/${userId}/projects/${projectId}/snapshots/${kind}`;
 }
 
+// The Firebase bucket, or null offline (the offline stub only mimics part of the API)
+function cloudStorage(): FirebaseStorage | null {
+  return isOfflineMode || !storage ? null : storage as FirebaseStorage;
+}
+
 export const CloudBlobService = {
   async uploadJSON(userId: string, projectId: string, kind: 'showcase' | 'hero', data: unknown): Promise<CloudBlobPointer | null> {
     try {
-      if (isOfflineMode || !storage) { return null; }
+      const bucket = cloudStorage();
+      if (!bucket) { return null; }
       const json = typeof data === 'string' ? data : JSON.stringify(data);
       const path = ensurePath(userId, projectId, kind);
-      const r = ref(storage as any, path);
+      const r = ref(bucket, path);
       await uploadString(r, json, 'raw');
       let downloadURL: string | undefined;
       try { downloadURL = await getDownloadURL(r); } catch {}
@@ -43,8 +52,9 @@ export const CloudBlobService = {
   ,
   async downloadJSON(pointer: CloudBlobPointer): Promise<any | null> {
     try {
-      if (isOfflineMode || !storage) { return null; }
-      const url = pointer.downloadURL || await getDownloadURL(ref(storage as any, pointer.path));
+      const bucket = cloudStorage();
+      if (!bucket) { return null; }
+      const url = pointer.downloadURL || await getDownloadURL(ref(bucket, pointer.path));
       const res = await fetch(url, { cache: 'no-store' });
       if (!res.ok) { return null; }
       return await res.json();
@@ -53,14 +63,16 @@ export const CloudBlobService = {
     }
   }
   ,
-  async uploadSnapshotJSON(userId: string, projectId: string, kind: 'showcase' | 'hero', data: unknown): Promise<string | null> {
+  async uploadSnapshotJSON(userId: string, projectId: string, kind: SnapshotKind, data: unknown, name?: string): Promise<string | null> {
     try {
-      if (isOfflineMode || !storage) { return null; }
+      const bucket = cloudStorage();
+      if (!bucket) { return null; }
       const json = typeof data === 'string' ? data : JSON.stringify(data);
-      const ts = new Date().toISOString().replace(/[:.]/g, '-');
+      // Default name is an ISO timestamp; callers passing a name must keep it sortable by age
+      const ts = name || new Date().toISOString().replace(/[:.]/g, '-');
       const folder = ensureSnapshotFolder(userId, projectId, kind);
       const path = `${folder}/${ts}.json`;
-      const r = ref(storage as any, path);
+      const r = ref(bucket, path);
       await uploadString(r, json, 'raw');
       return path;
     } catch (e) {
@@ -69,11 +81,28 @@ export const CloudBlobService = {
     }
   }
   ,
-  async trimSnapshots(userId: string, projectId: string, kind: 'showcase' | 'hero', maxKeep: number = 10): Promise<void> {
+  async listSnapshots(userId: string, projectId: string, kind: SnapshotKind): Promise<string[]> {
+    try {
+      const bucket = cloudStorage();
+      if (!bucket) { return []; }
+      const listing = await listAll(ref(bucket, ensureSnapshotFolder(userId, projectId, kind)));
+      return (listing.items || []).map(item => item.fullPath).sort();
+    } catch (e) {
+      console.warn('[CloudBlobService] Snapshot listing failed:', (e as Error).message);
+      return [];
+    }
+  }
+  ,
+  async downloadSnapshotJSON<T = unknown>(path: string): Promise<T | null> {
+    return CloudBlobService.downloadJSON({ storage: 'cloud', path, sizeKB: 0, uploadedAt: '' });
+  }
+  ,
+  async trimSnapshots(userId: string, projectId: string, kind: SnapshotKind, maxKeep: number = 10): Promise<void> {
     try {
-      if (isOfflineMode || !storage) { return; }
+      const bucket = cloudStorage();
+      if (!bucket) { return; }
       const folder = ensureSnapshotFolder(userId, projectId, kind);
-      const r = ref(storage as any, folder);
+      const r = ref(bucket, folder);
       const listing = await listAll(r);
       const items = listing.items || [];
       if (items.length <= maxKeep) { return; }
@@ -150,12 +150,21 @@ class CloudStorageAdapter {
             `local rev ${conflict.localRev} vs cloud rev ${conflict.cloudRev}`
           );
 
-          // Prompt user for resolution
-          const resolution = await conflictResolver.promptUserResolution(
+          // Three-way merge; only true field conflicts reach the user
+          const resolution = await conflictResolver.resolveConflict(
+            projectId,
             sanitizedShowcase,
-            conflict.cloudData
+            conflict
           );
 
+          if (resolution.action === 'cancel') {
+            syncStatusManager.setConflict(projectId, conflict.cloudRev ?? 0);
+            return {
+              success: false,
+              error: { code: 'CONFLICT', message: 'Conflict resolution cancelled' }
+            };
+          }
+
           if (resolution.action === 'use_cloud') {
             // User chose cloud version - load and cache it
             syncStatusManager.setStatus(projectId, 'synced', {
@@ -169,9 +178,19 @@ class CloudStorageAdapter {
               rev: conflict.cloudRev
             });
 
+            void conflictResolver.recordMergeBase(projectId, conflict.cloudData, conflict.cloudRev ?? 0);
+
             return { success: true, rev: conflict.cloudRev };
           }
 
+          if (resolution.action === 'merge' && resolution.mergedData) {
+            // Save the merged document on top of the cloud revision
+            return this.saveProject(
+              { ...projectData, showcase: resolution.mergedData, rev: conflict.cloudRev },
+              { ...options, forceOverwrite: true }
+            );
+          }
+
           // User chose local version - proceed with save (force overwrite)
           console.log('[CloudStorageAdapter] User chose local version, forcing save');
         }
@@ -244,10 +263,11 @@ class CloudStorageAdapter {
           });
       }
 
-      // PHASE 4: Update sync status
+      // PHASE 4: Update sync status and merge base
       syncStatusManager.setStatus(projectId, 'synced', {
         rev: cloudResult.rev
       });
+      void conflictResolver.recordMergeBase(projectId, sanitizedShowcase, cloudResult.rev);
 
       // Track telemetry
       telemetry.track({
@@ -356,6 +376,11 @@ class CloudStorageAdapter {
           // Cache in localStorage
           this.saveToLocalStorage(projectId, projectData);
 
+          // Cloud copy is the new common ancestor for conflict merges
+          if (cloudResult.metadata?.rev) {
+            void conflictResolver.recordMergeBase(projectId, cloudResult.showcase, cloudResult.metadata.rev);
+          }
+
           telemetry.track({
             event: 'load_project',
             success: true,
@@ -12,14 +12,27 @@
  * Resolution Strategies:
  * - use_local: Keep local changes, overwrite cloud (force push)
  * - use_cloud: Discard local changes, use cloud version
- * - merge: Attempt automatic merge (if possible)
- * - manual: Show user a diff view and let them decide
+ * - merge: Three-way merge against the last synced base (see ShowcaseMerge)
+ * - manual: Show user a side-by-side diff of true field conflicts
+ *
+ * Merge Base:
+ * - LargeObjectStore merge base (written after every successful sync)
+ * - Offline snapshot (last known good cloud save) as fallback
+ * - Without a base, every differing field is treated as a conflict
  */
 
 import { getDoc, doc } from 'firebase/firestore';
 import { ref, getDownloadURL } from 'firebase/storage';
 import { db, storage, auth } from '../firebase/firebase';
 import { telemetry } from './telemetry';
+import { LargeObjectStore } from './LargeObjectStore';
+import { offlineSnapshotService } from './OfflineSnapshotService';
+import {
+  mergeShowcases,
+  type MergeChoices,
+  type ShowcaseFieldConflict,
+  type ShowcaseMergeResult
+} from './ShowcaseMerge';
 import type { ProjectShowcaseV2 } from '../types/showcaseV2';
 
 export type ConflictResolutionAction = 'use_local' | 'use_cloud' | 'merge' | 'cancel';
@@ -27,9 +40,29 @@ export type ConflictResolutionAction = 'use_local' | 'use_cloud' | 'merge' | 'ca
 export interface ConflictResolution {
   action: ConflictResolutionAction;
   mergedData?: any;
-  forceOverwrite?: boolean;  // Set to true for use_local
+  forceOverwrite?: boolean;  // Set to true for use_local and merge
+  autoMerged?: boolean;      // True when merge needed no user input
 }
 
+/**
+ * Request handed to the merge UI when true field conflicts remain
+ */
+export interface MergePromptRequest {
+  projectId: string;
+  conflicts: ShowcaseFieldConflict[];
+  autoResolved: number;
+  cloudUpdatedAt?: Date;
+}
+
+/**
+ * Merge UI answer: per-conflict choices, or a whole-document action
+ */
+export type MergePromptResponse =
+  | { action: 'merge'; choices: MergeChoices }
+  | { action: 'use_local' | 'use_cloud' | 'cancel' };
+
+export type MergePromptHandler = (request: MergePromptRequest) => Promise<MergePromptResponse>;
+
 export interface ConflictInfo {
   hasConflict: boolean;
   cloudRev?: number;
@@ -39,6 +72,168 @@ export interface ConflictInfo {
 }
 
 export class ConflictResolver {
+  private mergePrompt: MergePromptHandler | null = null;
+
+  /**
+   * Register the UI that shows side-by-side field conflicts.
+   * Returns an unregister function.
+   */
+  setMergePrompt(handler: MergePromptHandler): () => void {
+    this.mergePrompt = handler;
+    return () => {
+      if (this.mergePrompt === handler) {
+        this.mergePrompt = null;
+      }
+    };
+  }
+
+  /**
+   * Load the common ancestor for a three-way merge
+   *
+   * @param projectId - Project ID
+   * @param localRev - Local revision (base must not be newer)
+   * @returns Base showcase or null if none is known
+   */
+  async loadMergeBase(
+    projectId: string,
+    localRev?: number
+  ): Promise<ProjectShowcaseV2 | null> {
+    const isUsable = (rev?: number) =>
+      localRev === undefined || rev === undefined || rev <= localRev;
+
+    try {
+      const stored = await LargeObjectStore.loadMergeBase(projectId);
+      if (stored?.showcase && isUsable(stored.rev)) {
+        return stored.showcase;
+      }
+    } catch (error) {
+      console.warn('[ConflictResolver] Merge base unavailable in IDB:', error);
+    }
+
+    const snapshot = await offlineSnapshotService.loadSnapshot(projectId);
+    if (snapshot.showcase && isUsable(snapshot.rev)) {
+      return snapshot.showcase;
+    }
+
+    return null;
+  }
+
+  /**
+   * Record the version both sides agree on after a successful sync
+   */
+  async recordMergeBase(
+    projectId: string,
+    showcase: ProjectShowcaseV2,
+    rev: number
+  ): Promise<void> {
+    try {
+      await LargeObjectStore.saveMergeBase(projectId, showcase, rev);
+    } catch (error) {
+      console.warn('[ConflictResolver] Failed to record merge base:', error);
+    }
+  }
+
+  /**
+   * Three-way merge of local and cloud showcases against the stored base
+   *
+   * @param projectId - Project ID
+   * @param localData - Local version
+   * @param cloudData - Cloud version
+   * @param options - Local revision and per-conflict choices
+   * @returns Merge result with remaining field conflicts
+   */
+  async threeWayMerge(
+    projectId: string,
+    localData: ProjectShowcaseV2,
+    cloudData: ProjectShowcaseV2,
+    options: { localRev?: number; choices?: MergeChoices } = {}
+  ): Promise<ShowcaseMergeResult & { hasBase: boolean }> {
+    const base = await this.loadMergeBase(projectId, options.localRev);
+    const result = mergeShowcases(base, localData, cloudData, options.choices);
+    return { ...result, hasBase: Boolean(base) };
+  }
+
+  /**
+   * Resolve a detected conflict: auto-merge non-overlapping edits and
+   * only ask the user about fields both devices changed.
+   *
+   * @param projectId - Project ID
+   * @param localData - Local version
+   * @param conflictInfo - Result of detectConflict
+   * @returns Resolution (merge carries the merged showcase)
+   */
+  async resolveConflict(
+    projectId: string,
+    localData: ProjectShowcaseV2,
+    conflictInfo: ConflictInfo
+  ): Promise<ConflictResolution> {
+    const startTime = Date.now();
+    const cloudData = conflictInfo.cloudData as ProjectShowcaseV2;
+    const merge = await this.threeWayMerge(projectId, localData, cloudData, {
+      localRev: conflictInfo.localRev
+    });
+
+    const trackResolution = (resolution: ConflictResolution) => {
+      telemetry.track({
+        event: 'conflict_detected',
+        success: resolution.action !== 'cancel',
+        latencyMs: Date.now() - startTime,
+        projectId,
+        metadata: {
+          resolution: resolution.action,
+          autoMerged: Boolean(resolution.autoMerged),
+          autoResolved: merge.autoResolved,
+          fieldConflicts: merge.conflicts.length,
+          hasBase: merge.hasBase
+        }
+      });
+      return resolution;
+    };
+
+    if (merge.conflicts.length === 0) {
+      console.log(
+        `[ConflictResolver] Auto-merged ${merge.autoResolved} change(s) for ${projectId.slice(0, 8)}`
+      );
+      return trackResolution({
+        action: 'merge',
+        mergedData: merge.merged,
+        forceOverwrite: true,
+        autoMerged: true
+      });
+    }
+
+    if (!this.mergePrompt) {
+      return trackResolution(
+        await this.promptUserResolution(localData, cloudData, conflictInfo)
+      );
+    }
+
+    const response = await this.mergePrompt({
+      projectId,
+      conflicts: merge.conflicts,
+      autoResolved: merge.autoResolved,
+      cloudUpdatedAt: conflictInfo.cloudUpdatedAt
+    });
+
+    if (response.action !== 'merge') {
+      return trackResolution({
+        action: response.action,
+        forceOverwrite: response.action === 'use_local'
+      });
+    }
+
+    const resolved = await this.threeWayMerge(projectId, localData, cloudData, {
+      localRev: conflictInfo.localRev,
+      choices: response.choices
+    });
+
+    return trackResolution({
+      action: 'merge',
+      mergedData: resolved.merged,
+      forceOverwrite: true
+    });
+  }
+
   /**
    * Detect if there's a conflict between local and cloud versions
    *
@@ -121,8 +316,8 @@ export class ConflictResolver {
   /**
    * Prompt user to resolve conflict
    *
-   * In a real implementation, this would show a modal with diff view.
-   * For now, we'll use a simple confirm dialog.
+   * Whole-document fallback used when no merge UI is registered
+   * (see setMergePrompt). Uses a simple confirm dialog.
    *
    * @param localData - Local version of data
    * @param cloudData - Cloud version of data
@@ -134,9 +329,6 @@ export class ConflictResolver {
     cloudData: any,
     conflictInfo: ConflictInfo
   ): Promise<ConflictResolution> {
-    // In a real app, show a proper modal with diff viewer
-    // For MVP, use browser confirm dialog
-
     const cloudDate = conflictInfo.cloudUpdatedAt
       ? new Date(conflictInfo.cloudUpdatedAt).toLocaleString()
       : 'unknown';
@@ -163,23 +355,26 @@ export class ConflictResolver {
   /**
    * Attempt automatic merge of local and cloud data
    *
-   * This is a simple field-level merge. For complex conflicts,
-   * manual resolution is better.
+   * Three-way field-level merge. Returns null when both sides changed
+   * the same field, since those need manual resolution.
    *
    * @param localData - Local version
    * @param cloudData - Cloud version
+   * @param baseData - Common ancestor (optional)
    * @returns Merged data or null if auto-merge not possible
    */
   attemptAutoMerge(
     localData: any,
-    cloudData: any
+    cloudData: any,
+    baseData?: any
   ): any | null {
     try {
-      // Simple strategy: merge at top level, cloud wins on conflicts
-      const merged = {
-        ...cloudData,
-        ...localData
-      };
+      const { merged, conflicts } = mergeShowcases(baseData, localData, cloudData);
+
+      if (conflicts.length > 0) {
+        console.log(`[ConflictResolver] Auto-merge blocked by ${conflicts.length} field conflict(s)`);
+        return null;
+      }
 
       console.log('[ConflictResolver] Auto-merge successful');
       return merged;
@@ -197,7 +392,14 @@ export class ConflictResolver {
    * @param cloudData - Cloud version
    * @returns Human-readable diff summary
    */
-  createDiffSummary(localData: any, cloudData: any): string {
+  createDiffSummary(localData: any, cloudData: any, baseData?: any): string {
+    if (baseData) {
+      const { conflicts } = mergeShowcases(baseData, localData, cloudData);
+      return conflicts.length > 0
+        ? conflicts.map(conflict => `• ${conflict.label} changed on both devices`).join('\n')
+        : 'No conflicting changes detected';
+    }
+
     const diffs: string[] = [];
 
     // Compare top-level fields
@@ -256,7 +458,7 @@ export const conflictResolver = new ConflictResolver();
  * const handleSave = async () => {
  *   const conflict = await conflictResolver.detectConflict(id, localRev);
  *   if (conflict.hasConflict) {
- *     const resolution = await resolveConflict(localData, conflict.cloudData, conflict);
+ *     const resolution = await resolveConflict(id, localData, conflict);
  *     // Handle resolution
  *   }
  * };
@@ -264,27 +466,12 @@ export const conflictResolver = new ConflictResolver();
  */
 export function useConflictResolver() {
   const resolveConflict = async (
-    localData: any,
-    cloudData: any,
+    projectId: string,
+    localData: ProjectShowcaseV2,
     conflictInfo: ConflictInfo
   ): Promise<ConflictResolution> => {
-    // Try auto-merge first
-    const merged = conflictResolver.attemptAutoMerge(localData, cloudData);
-
-    if (merged) {
-      // Auto-merge successful - confirm with user
-      const useAutoMerge = confirm(
-        'Changes detected on another device. Auto-merge is available.\n\n' +
-        'OK: Use merged version\nCancel: Choose manually'
-      );
-
-      if (useAutoMerge) {
-        return { action: 'merge', mergedData: merged };
-      }
-    }
-
-    // Fall back to manual resolution
-    return conflictResolver.promptUserResolution(localData, cloudData, conflictInfo);
+    // Three-way merge first; the registered merge UI handles true conflicts
+    return conflictResolver.resolveConflict(projectId, localData, conflictInfo);
   };
 
   return { resolveConflict };
@@ -80,14 +80,9 @@ class ConnectionStatusService {
     }
 
     try {
-      // Simple health check to the Netlify function with minimal payload
+      // GET is the proxy's health probe: no sign-in needed, no Gemini call, no quota spent
       const response = await fetch(proxyUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          prompt: 'health check',
-          history: []
-        }),
+        method: 'GET',
         signal: AbortSignal.timeout(10000) // 10 second timeout for slower connections
       });
 
@@ -0,0 +1,382 @@
+/**
+ * Family Kit Service
+ *
+ * Builds the letters home for a project from its hero, outcomes and
+ * runOfShow:
+ * - a kickoff letter
+ * - one weekly update per week card, tied to that week's focus
+ * - a volunteer / expert request
+ * - a materials-from-home request (only when the core kit lists materials)
+ * - a permission slip, only when the project includes fieldwork
+ *   (a 'FieldworkLoop' week card or assignment safety notes)
+ * - an exhibition invitation
+ *
+ * Letters are written in the project's student language and at its reading
+ * level (showcase.readingLevel). The model drafts them (schema-validated with
+ * zFamilyKit); letters it skips, and every letter when it is unavailable,
+ * come from the catalog templates. The permission form itself always comes
+ * from the template so signature lines never vary.
+ *
+ * Persistence:
+ * - The kit lives on showcase.familyKit, letters keyed by kind (+ weekIndex)
+ * - Regenerating never overwrites a letter the teacher has edited
+ */
+
+import type {
+  FamilyCommunicationKit,
+  FamilyLetter,
+  FamilyLetterKind,
+  ProjectShowcaseV2,
+  ReadingLevel
+} from '../types/showcaseV2';
+import { languageName, translate, translateList, type Locale, type MessageKey, type MessageParams } from '../i18n';
+import { resolveStudentLanguage } from './StudentLanguageService';
+import { generateStructuredAI, parseLooseJSON } from '../features/chat-mvp/domain/structuredAI';
+import { zFamilyKit, type FamilyKitSuggestion } from '../types/zod-schemas';
+
+export const DEFAULT_READING_LEVEL: ReadingLevel = 'standard';
+
+const MAX_SUBJECT_LENGTH = 80;
+const MAX_MATERIALS = 8;
+
+const READING_LEVEL_GUIDANCE: Record<ReadingLevel, string> = {
+  easy: 'about a grade 4–5 reading level: sentences under 12 words, everyday words, no school jargon',
+  standard: 'about a grade 6–8 reading level: sentences under 18 words, explain any school terms',
+  detailed: 'about a grade 9–11 reading level: fuller explanations of what students learn and why it matters'
+};
+
+export const FAMILY_LETTER_LABELS: Record<FamilyLetterKind, string> = {
+  kickoff: 'Kickoff letter',
+  'weekly-update': 'Weekly update',
+  'volunteer-request': 'Volunteer & expert request',
+  'materials-request': 'Materials from home',
+  'permission-slip': 'Permission slip',
+  'exhibition-invitation': 'Exhibition invitation'
+};
+
+export function letterKey(letter: Pick<FamilyLetter, 'kind' | 'weekIndex'>): string {
+  return letter.kind === 'weekly-update' ? `${letter.kind}:${letter.weekIndex ?? 0}` : letter.kind;
+}
+
+function truncate(value: string, max: number): string {
+  const trimmed = value.trim();
+  return trimmed.length > max ? `${trimmed.slice(0, max - 1).trimEnd()}…` : trimmed;
+}
+
+function listPhrase(items: string[]): string {
+  const filtered = items.map(item => item.trim()).filter(Boolean);
+  if (filtered.length <= 1) {return filtered[0] || '';}
+  return `${filtered.slice(0, -1).join(', ')} & ${filtered[filtered.length - 1]}`;
+}
+
+function bullets(items: Array<string | undefined>): string {
+  return items.filter((item): item is string => Boolean(item?.trim())).map(item => `- ${item.trim()}`).join('\n');
+}
+
+/** Paragraphs separated by blank lines; empty parts are dropped. */
+function compose(parts: Array<string | false | undefined>): string {
+  return parts.filter((part): part is string => Boolean(part && part.trim())).join('\n\n');
+}
+
+/**
+ * Week cards that take students out of the classroom, plus any assignment
+ * safety notes. A permission slip is needed when either is non-empty.
+ */
+export function detectFieldwork(showcase: ProjectShowcaseV2): { weeks: number[]; safety: string[] } {
+  const weeks = (showcase.runOfShow || [])
+    .map((week, index) => (week.kind === 'FieldworkLoop' ? index : -1))
+    .filter(index => index >= 0);
+  const safety = Array.from(new Set((showcase.assignments || []).flatMap(assignment => assignment.safety || []).filter(Boolean)));
+  return { weeks, safety };
+}
+
+export function needsPermissionSlip(showcase: ProjectShowcaseV2): boolean {
+  const { weeks, safety } = detectFieldwork(showcase);
+  return weeks.length > 0 || safety.length > 0;
+}
+
+/** The letters a project gets, in order, before any text is written. */
+export function plannedLetters(showcase: ProjectShowcaseV2): Array<Pick<FamilyLetter, 'kind' | 'weekIndex'>> {
+  const planned: Array<Pick<FamilyLetter, 'kind' | 'weekIndex'>> = [{ kind: 'kickoff' }];
+  (showcase.runOfShow || []).forEach((_, weekIndex) => planned.push({ kind: 'weekly-update', weekIndex }));
+  planned.push({ kind: 'volunteer-request' });
+  if (showcase.materialsPrep?.coreKit?.length) {planned.push({ kind: 'materials-request' });}
+  if (needsPermissionSlip(showcase)) {planned.push({ kind: 'permission-slip' });}
+  planned.push({ kind: 'exhibition-invitation' });
+  return planned;
+}
+
+function permissionForm(locale: Locale): string {
+  return translateList(locale, 'familyKit.permission.form').join('\n');
+}
+
+function templateLetter(
+  showcase: ProjectShowcaseV2,
+  planned: Pick<FamilyLetter, 'kind' | 'weekIndex'>,
+  locale: Locale,
+  level: ReadingLevel
+): FamilyLetter {
+  const m = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+  const title = showcase.hero?.title || '';
+  const audiences = listPhrase((showcase.outcomes?.audiences || []).slice(0, 3));
+  const signOff = `${m('familyKit.signOff')}\n${m('familyKit.teacherName')}`;
+  const letter = (subject: string, parts: Array<string | false | undefined>): FamilyLetter => ({
+    ...planned,
+    subject: truncate(subject, MAX_SUBJECT_LENGTH),
+    body: compose([m('familyKit.greeting'), ...parts, signOff]),
+    source: 'template'
+  });
+
+  switch (planned.kind) {
+    case 'kickoff': {
+      const outcomes = level === 'detailed'
+        ? [...(showcase.outcomes?.core || []), ...(showcase.outcomes?.extras || []).slice(0, 3)]
+        : (showcase.outcomes?.core || []).slice(0, level === 'easy' ? 1 : 3);
+      return letter(m('familyKit.kickoff.subject', { title }), [
+        m('familyKit.kickoff.intro', { title, tagline: showcase.hero?.tagline || '' }).trim(),
+        showcase.schedule?.totalWeeks ? m('familyKit.kickoff.length', { weeks: showcase.schedule.totalWeeks }) : undefined,
+        level === 'detailed' && (showcase.microOverview || []).join(' '),
+        outcomes.length > 0 && `${m('familyKit.kickoff.learnHeading')}\n${bullets(outcomes)}`,
+        audiences && m('familyKit.kickoff.audience', { audiences }),
+        m('familyKit.kickoff.home')
+      ]);
+    }
+    case 'weekly-update': {
+      const week = showcase.runOfShow?.[planned.weekIndex ?? 0];
+      const focus = week?.focus || '';
+      const studentLines = (week?.students || []).slice(0, level === 'easy' ? 2 : 4);
+      return letter(m('familyKit.weekly.subject', { week: week?.weekLabel || '', focus }), [
+        m('familyKit.weekly.intro', { title, focus }),
+        studentLines.length > 0 && `${m('familyKit.weekly.studentsHeading')}\n${bullets(studentLines)}`,
+        level !== 'easy' && week?.deliverables?.length ? `${m('familyKit.weekly.dueHeading')}\n${bullets(week.deliverables)}` : undefined,
+        m('familyKit.weekly.ask', { question: focus.trim().endsWith('?') ? focus.trim() : m('familyKit.weekly.defaultQuestion') })
+      ]);
+    }
+    case 'volunteer-request': {
+      const subjects = listPhrase(showcase.hero?.subjects || []);
+      return letter(m('familyKit.volunteer.subject', { title }), [
+        m('familyKit.volunteer.intro', { title }),
+        `${m('familyKit.volunteer.waysHeading')}\n${bullets(translateList(locale, 'familyKit.volunteer.ways'))}`,
+        subjects && m('familyKit.volunteer.expertise', { subjects }),
+        m('familyKit.volunteer.reply')
+      ]);
+    }
+    case 'materials-request':
+      return letter(m('familyKit.materials.subject', { title }), [
+        `${m('familyKit.materials.intro')}\n${bullets((showcase.materialsPrep?.coreKit || []).slice(0, MAX_MATERIALS))}`,
+        m('familyKit.materials.noBuy'),
+        m('familyKit.materials.label')
+      ]);
+    case 'permission-slip': {
+      const { weeks, safety } = detectFieldwork(showcase);
+      const when = weeks
+        .map(index => showcase.runOfShow[index])
+        .map(week => `${week.weekLabel}: ${week.focus}`);
+      return letter(m('familyKit.permission.subject', { title }), [
+        m('familyKit.permission.intro', { title }),
+        when.length > 0 && `${m('familyKit.permission.whenHeading')}\n${bullets(when)}`,
+        safety.length > 0 && `${m('familyKit.permission.safetyHeading')}\n${bullets(safety)}`,
+        m('familyKit.permission.returnBy'),
+        permissionForm(locale)
+      ]);
+    }
+    case 'exhibition-invitation': {
+      const work = listPhrase((showcase.assignments || []).slice(-2).map(assignment => assignment.title));
+      return letter(m('familyKit.invitation.subject', { title }), [
+        m('familyKit.invitation.intro', { title }),
+        work && m('familyKit.invitation.showing', { work }),
+        m('familyKit.invitation.details'),
+        audiences && m('familyKit.invitation.audience', { audiences }),
+        m('familyKit.invitation.rsvp')
+      ]);
+    }
+  }
+}
+
+/**
+ * Deterministic kit in the project's student language and reading level.
+ */
+export function buildTemplateFamilyKit(showcase: ProjectShowcaseV2): FamilyCommunicationKit {
+  const locale = resolveStudentLanguage(showcase);
+  const readingLevel = showcase.readingLevel ?? DEFAULT_READING_LEVEL;
+  return {
+    locale,
+    readingLevel,
+    letters: plannedLetters(showcase).map(planned => templateLetter(showcase, planned, locale, readingLevel))
+  };
+}
+
+/**
+ * Put a freshly generated kit in place, keeping every letter the teacher has
+ * edited (matched by kind and week).
+ */
+export function replaceFamilyKit(showcase: ProjectShowcaseV2, kit: FamilyCommunicationKit): ProjectShowcaseV2 {
+  const edited = new Map(
+    (showcase.familyKit?.letters || [])
+      .filter(letter => letter.source === 'teacher')
+      .map(letter => [letterKey(letter), letter])
+  );
+  return {
+    ...showcase,
+    familyKit: { ...kit, letters: kit.letters.map(letter => edited.get(letterKey(letter)) ?? letter) }
+  };
+}
+
+export function updateFamilyLetter(showcase: ProjectShowcaseV2, updated: FamilyLetter): ProjectShowcaseV2 {
+  if (!showcase.familyKit) {return showcase;}
+  const key = letterKey(updated);
+  return {
+    ...showcase,
+    familyKit: {
+      ...showcase.familyKit,
+      letters: showcase.familyKit.letters.map(letter =>
+        letterKey(letter) === key ? { ...updated, subject: truncate(updated.subject, MAX_SUBJECT_LENGTH), source: 'teacher' } : letter
+      )
+    }
+  };
+}
+
+export type LetterPart = { type: 'paragraph'; lines: string[] } | { type: 'bullets'; items: string[] };
+
+/**
+ * A letter body as paragraphs and bullet lists, for the Word and PDF
+ * exports. Consecutive "- " lines form one list.
+ */
+export function letterParts(body: string): LetterPart[] {
+  const parts: LetterPart[] = [];
+  body.split(/\n\s*\n/).forEach(block => {
+    let current: LetterPart | null = null;
+    block.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+      const bullet = line.startsWith('- ');
+      if (bullet && current?.type === 'bullets') {
+        current.items.push(line.slice(2).trim());
+      } else if (!bullet && current?.type === 'paragraph') {
+        current.lines.push(line);
+      } else {
+        current = bullet ? { type: 'bullets', items: [line.slice(2).trim()] } : { type: 'paragraph', lines: [line] };
+        parts.push(current);
+      }
+    });
+  });
+  return parts;
+}
+
+/** Plain-text email: subject line, blank line, body. */
+export function letterToEmail(letter: FamilyLetter): string {
+  return `Subject: ${letter.subject}\n\n${letter.body}\n`;
+}
+
+export function familyKitToEmails(kit: FamilyCommunicationKit): string {
+  return kit.letters.map(letterToEmail).join('\n----------\n\n');
+}
+
+function fromSuggestion(
+  suggestion: FamilyKitSuggestion['letters'][number],
+  template: FamilyLetter,
+  locale: Locale
+): FamilyLetter {
+  const body = template.kind === 'permission-slip' && !suggestion.body.includes(translateList(locale, 'familyKit.permission.form')[0])
+    ? compose([suggestion.body, permissionForm(locale)])
+    : suggestion.body;
+  return {
+    ...template,
+    subject: truncate(suggestion.subject, MAX_SUBJECT_LENGTH),
+    body,
+    source: 'ai'
+  };
+}
+
+export class FamilyKitService {
+  /**
+   * Generate the kit and return the showcase with it in place.
+   */
+  async generate(showcase: ProjectShowcaseV2): Promise<ProjectShowcaseV2> {
+    return replaceFamilyKit(showcase, await this.generateKit(showcase));
+  }
+
+  async generateKit(showcase: ProjectShowcaseV2): Promise<FamilyCommunicationKit> {
+    const template = buildTemplateFamilyKit(showcase);
+
+    let suggestion: FamilyKitSuggestion | null = null;
+    try {
+      suggestion = await this.askModel(showcase, template);
+    } catch (error) {
+      console.warn('[FamilyKitService] Model unavailable, using template letters:', error);
+    }
+
+    const suggested = new Map((suggestion?.letters || []).map(letter => [letterKey(letter), letter]));
+    const letters = template.letters.map(letter => {
+      const match = suggested.get(letterKey(letter));
+      return match ? fromSuggestion(match, letter, template.locale) : letter;
+    });
+    console.log(`[FamilyKitService] Wrote ${letters.length} letters (${suggestion ? 'ai' : 'template'})`);
+    return { ...template, letters };
+  }
+
+  private async askModel(showcase: ProjectShowcaseV2, template: FamilyCommunicationKit): Promise<FamilyKitSuggestion | null> {
+    const list = (items: string[] | undefined) => (items || []).filter(Boolean).join('; ') || 'none';
+    const weeks = (showcase.runOfShow || [])
+      .map((week, index) => `- weekIndex ${index} (${week.weekLabel}, ${week.kind}): ${week.focus} | students: ${list(week.students)} | due: ${list(week.deliverables)}`)
+      .join('\n');
+    const letters = plannedLetters(showcase)
+      .map(planned => (planned.kind === 'weekly-update' ? `${planned.kind} (weekIndex ${planned.weekIndex})` : planned.kind))
+      .join(', ');
+    const { safety } = detectFieldwork(showcase);
+
+    const prompt = `Write the letters home to families for a PBL project.
+
+PROJECT:
+- Title: ${showcase.hero?.title || ''}
+- Tagline: ${showcase.hero?.tagline || ''}
+- Grade band: ${showcase.hero?.gradeBand || ''}
+- Subjects: ${(showcase.hero?.subjects || []).join(', ')}
+- Overview: ${(showcase.microOverview || []).join(' ')}
+- Core outcomes: ${list(showcase.outcomes?.core)}
+- Audiences: ${list(showcase.outcomes?.audiences)}
+- Materials: ${list(showcase.materialsPrep?.coreKit)}
+- Safety notes: ${list(safety)}
+
+WEEK CARDS:
+${weeks || 'none'}
+
+LETTERS TO WRITE: ${letters}
+
+RULES:
+- Write every letter in ${languageName(template.locale)}, for families, at ${READING_LEVEL_GUIDANCE[template.readingLevel]}
+- Warm and specific to this project; no educational jargon
+- Weekly updates describe that week's focus and end with one question families can ask at home
+- Leave dates, times and places as blanks (____________); sign off as ${translate(template.locale, 'familyKit.teacherName')}
+- Body is plain text: blank lines between paragraphs, "- " for bullets, no markdown
+- Do not write the permission form itself; it is added after the letter
+
+OUTPUT FORMAT (JSON):
+{
+  "letters": [
+    { "kind": "weekly-update", "weekIndex": 0, "subject": "...", "body": "..." }
+  ]
+}
+
+Return ONLY valid JSON.`;
+
+    const { data } = await generateStructuredAI({
+      prompt,
+      schema: zFamilyKit,
+      expectedFormat: '{ "letters": [{ "kind": "kickoff", "subject": "...", "body": "..." }] }',
+      stage: 'DELIVERABLES',
+      wizard: {
+        subjects: showcase.hero?.subjects,
+        gradeLevel: showcase.hero?.gradeBand,
+        projectTopic: showcase.hero?.title
+      },
+      heuristic: raw => {
+        const parsed = zFamilyKit.safeParse(parseLooseJSON(raw));
+        return parsed.success ? parsed.data : null;
+      },
+      options: { label: 'family_kit', temperature: 0.5, maxTokens: 4000 }
+    });
+
+    return data;
+  }
+}
+
+export const familyKitService = new FamilyKitService();
@@ -7,6 +7,7 @@ import { JSONResponseParser } from '../utils/json-response-parser';
 import { enforceResponseLength, determineResponseContext, addLengthConstraintToPrompt } from '../utils/response-length-control';
 import { ResponseContext } from '../types/chat';
 import { connectionStatus } from './ConnectionStatusService';
+import { getAIProvider, AIProviderError, type AIGenerateResult } from '../ai/providers';
 
 // Type definitions for the service
 export type ProjectStage = 'Ideation' | 'Curriculum' | 'Assignments';
@@ -122,9 +123,6 @@ export class GeminiServiceError extends Error {
   }
 }
 
-// Use secure Netlify function endpoint instead of direct API calls
-const API_URL_BASE: string = (import.meta as any)?.env?.VITE_GEMINI_PROXY_URL || '/.netlify/functions/gemini';
-
 // --- Rate Limiting Configuration ---
 let lastRequestTime = 0;
 const MIN_REQUEST_INTERVAL = 1000; // 1 second between requests
@@ -361,39 +359,15 @@ const generateContextualFallback = (stage: ProjectStage): string => {
 };
 
 /**
- * Validates and parses the Gemini API response
- * @param response - Raw fetch response
- * @returns Parsed API response
+ * Validates the provider's raw completion text
+ * @param result - Provider generate() result
+ * @returns Non-empty response text
  */
-const validateGeminiAPIResponse = async (response: Response): Promise<string> => {
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(`API Error ${response.status}: ${errorBody}`);
-  }
-
-  const result: unknown = await response.json();
-  
-  // Type guard for Gemini API response structure
-  if (!isObject(result) || 
-      !isArray(result.candidates) || 
-      result.candidates.length === 0) {
-    throw new Error("Invalid response structure from Gemini API");
-  }
-
-  const candidate = result.candidates[0];
-  if (!isObject(candidate) || 
-      !isObject(candidate.content) || 
-      !isArray(candidate.content.parts) ||
-      candidate.content.parts.length === 0) {
-    throw new Error("Invalid response structure from Gemini API");
-  }
-
-  const part = candidate.content.parts[0];
-  if (!isObject(part) || !isString(part.text)) {
+const validateProviderResult = (result: AIGenerateResult): string => {
+  if (!isString(result.text) || result.text.trim().length === 0) {
     throw new Error("Invalid response structure from Gemini API");
   }
-
-  return part.text;
+  return result.text;
 };
 
 /**
@@ -1537,9 +1511,10 @@ export const generateJsonResponse = async (
   history: ChatMessage[], 
   systemPrompt: string
 ): Promise<AIResponse> => {
+  const provider = getAIProvider();
   // Short-circuit when Gemini proxy is not enabled to avoid network errors/timeouts
   const geminiEnabled = (import.meta as any)?.env?.VITE_GEMINI_ENABLED === 'true';
-  if (!geminiEnabled) {
+  if (!geminiEnabled && provider.name === 'gemini') {
     const stage = inferStageFromPrompt(systemPrompt);
     const fallback = ResponseHealer.heal({
       chatResponse: `Let's keep momentum without AI calls. Share a quick thought, and I'll help shape your ${stage.toLowerCase()} with concrete next steps.`
@@ -1572,29 +1547,36 @@ export const generateJsonResponse = async (
       // Route models: use full 2.5 Flash for heavy thinking tasks (standards, rubric, deliverables, recaps)
       const upperPrompt = sanitizeString(systemPrompt).toUpperCase();
       const isHeavy = upperPrompt.includes('STANDARD') || upperPrompt.includes('RUBRIC') || upperPrompt.includes('DELIVER') || upperPrompt.includes('SUMMARY') || upperPrompt.includes('RECAP');
-      const payload = {
-        prompt: sanitizeString(systemPrompt),
-        history: conversationHistory,
-        model: isHeavy ? 'gemini-2.5-flash' : 'gemini-2.5-flash-lite'
-      };
 
-      console.log(`Attempt ${attempt}: Sending request to Netlify function`);
-      
-      const response = await fetch(API_URL_BASE, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-        signal: AbortSignal.timeout(30000) // 30 second timeout
-      });
-      
-      // Check for 429 rate limit immediately
-      if (response.status === 429) {
-        console.log('Rate limited - 429 response');
-        connectionStatus.reportGeminiError(new Error('Rate limited'));
-        throw new Error('Rate limit 429');
+      console.log(`Attempt ${attempt}: Sending request via ${provider.name} provider`);
+
+      let result: AIGenerateResult;
+      try {
+        result = await provider.generate({
+          prompt: sanitizeString(systemPrompt),
+          history: conversationHistory.map(msg => ({
+            role: msg.role === 'model' ? 'assistant' as const : 'user' as const,
+            content: msg.parts.map(part => part.text).join('\n')
+          })),
+          model: isHeavy ? 'gemini-2.5-flash' : 'gemini-2.5-flash-lite',
+          // Match the proxy defaults this call relied on before JSON mode
+          temperature: 0.7,
+          maxTokens: 1024,
+          json: true,
+          label: 'gemini_service_json',
+          signal: AbortSignal.timeout(30000) // 30 second timeout
+        });
+      } catch (providerError) {
+        // Check for 429 rate limit immediately
+        if (providerError instanceof AIProviderError && providerError.status === 429) {
+          console.log('Rate limited - 429 response');
+          connectionStatus.reportGeminiError(new Error('Rate limited'));
+          throw new Error('Rate limit 429');
+        }
+        throw providerError;
       }
 
-      const responseText = await validateGeminiAPIResponse(response);
+      const responseText = validateProviderResult(result);
       console.log(`Raw AI Response (Attempt ${attempt}):`, responseText);
 
       // Report success to connection status
@@ -11,8 +11,8 @@ type IDBConfig = {
 
 const DEFAULT_CONFIG: IDBConfig = {
   dbName: 'alf-coach-db',
-  version: 1,
-  stores: ['showcase', 'blobs']
+  version: 5,
+  stores: ['showcase', 'blobs', 'standards', 'telemetry', 'revisions', 'suggestions']
 };
 
 function openDB(config: IDBConfig = DEFAULT_CONFIG): Promise<IDBDatabase> {
@@ -1,4 +1,5 @@
 import { idb } from './IndexedDBStore';
+import type { ProjectShowcaseV2 } from '../types/showcaseV2';
 
 /**
  * LargeObjectStore: opinionated helper for storing large JSON payloads
@@ -30,6 +31,22 @@ export const LargeObjectStore = {
   async removeShowcase(projectId: string): Promise<void> {
     const key = `alf_showcase_${projectId}`;
     try { await idb.remove('showcase', key); } catch {}
+    try { await idb.remove('showcase', `alf_showcase_base_${projectId}`); } catch { /* best-effort */ }
+  },
+
+  /**
+   * Merge base: the last showcase this device saw in sync with the cloud.
+   * Used as the common ancestor for three-way conflict merges.
+   */
+  async saveMergeBase(projectId: string, payload: ProjectShowcaseV2, rev: number): Promise<void> {
+    const key = `alf_showcase_base_${projectId}`;
+    await idb.set('showcase', key, JSON.stringify({ rev, showcase: payload }));
+  },
+
+  async loadMergeBase(projectId: string): Promise<{ rev: number; showcase: ProjectShowcaseV2 } | null> {
+    const raw = await idb.get<string>('showcase', `alf_showcase_base_${projectId}`);
+    if (!raw) { return null; }
+    try { return JSON.parse(raw); } catch { return null; }
   }
 };
 
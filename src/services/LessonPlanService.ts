@@ -0,0 +1,413 @@
+/**
+ * Lesson Plan Service
+ *
+ * Expands a runOfShow WeekCard into day-by-day lesson plans: one plan per
+ * lesson (lessonsPerWeek × the calendar weeks the card spans), each with
+ * objectives, a warm-up, timed segments that fill exactly lessonLengthMin,
+ * materials, an exit ticket and differentiation notes.
+ *
+ * Generation:
+ * - The model writes titles, objectives, segments and differentiation for
+ *   the whole week (schema-validated with zWeekLessonPlans)
+ * - Materials always come from materialsPrep.coreKit and exit tickets from
+ *   the formative assessment question bank for the week's phase, so both
+ *   match what the teacher has already prepared
+ * - Segment minutes are re-apportioned to the period length whatever the
+ *   model returns, and lessons it skipped fall back to the template
+ * - When the model is unavailable the deterministic template is used
+ *
+ * Persistence:
+ * - Plans live on showcase.lessonPlans keyed by (weekIndex, lesson)
+ * - Regenerating a week replaces only that week's plans and never
+ *   overwrites a lesson the teacher has edited
+ */
+
+import type {
+  DailyLessonPlan,
+  LessonSegment,
+  LessonSegmentKind,
+  PhaseKind,
+  ProjectShowcaseV2,
+  WeekCard
+} from '../types/showcaseV2';
+import { DEFAULT_EXIT_TICKET_QUESTIONS, PBLStage } from '../types/FormativeAssessmentTypes';
+import { weekSpan } from '../utils/schoolCalendar';
+import { generateStructuredAI, parseLooseJSON } from '../features/chat-mvp/domain/structuredAI';
+import { zWeekLessonPlans, type WeekLessonPlansSuggestion } from '../types/zod-schemas';
+
+const MAX_MATERIALS = 8;
+const MAX_TITLE_LENGTH = 80;
+
+// Share of the period each template segment gets, in lesson order
+const SEGMENT_WEIGHTS: Array<[LessonSegmentKind, number]> = [
+  ['warm-up', 10],
+  ['mini-lesson', 20],
+  ['work-time', 50],
+  ['share', 10],
+  ['exit-ticket', 10]
+];
+
+const PHASE_STAGES: Record<PhaseKind, PBLStage> = {
+  Foundations: PBLStage.BIG_IDEA,
+  Planning: PBLStage.ESSENTIAL_QUESTION,
+  FieldworkLoop: PBLStage.JOURNEY,
+  Build: PBLStage.JOURNEY,
+  Exhibit: PBLStage.DELIVERABLES,
+  Extension: PBLStage.REFLECTION
+};
+
+const PHASE_EXTENSIONS: Record<PhaseKind, string> = {
+  Foundations: 'Write a follow-up question the class should investigate',
+  Planning: 'Draft a backup plan and explain when you would switch',
+  FieldworkLoop: 'Collect a second data source and compare the two',
+  Build: 'Test one design change and record what happened',
+  Exhibit: 'Prepare an answer to the hardest question your audience might ask',
+  Extension: 'Propose how the project could continue beyond the unit'
+};
+
+function lowerFirst(value: string): string {
+  return value ? `${value[0].toLowerCase()}${value.slice(1)}` : value;
+}
+
+function upperFirst(value: string): string {
+  return value ? `${value[0].toUpperCase()}${value.slice(1)}` : value;
+}
+
+function truncate(value: string, max: number): string {
+  const trimmed = value.trim();
+  return trimmed.length > max ? `${trimmed.slice(0, max - 1).trimEnd()}…` : trimmed;
+}
+
+/**
+ * Split `total` minutes by `weights` so the parts are whole numbers that add
+ * up exactly (largest remainder). Every part gets at least a minute when the
+ * total allows it.
+ */
+export function apportionMinutes(weights: number[], total: number): number[] {
+  if (!weights.length) {return [];}
+  const minutes = Math.max(0, Math.round(total));
+  const positive = weights.map(weight => (Number.isFinite(weight) && weight > 0 ? weight : 0));
+  const safe = positive.some(Boolean) ? positive : weights.map(() => 1);
+  const sum = safe.reduce((acc, weight) => acc + weight, 0);
+  const exact = safe.map(weight => weight * minutes / sum);
+  const parts = exact.map(value => Math.floor(value));
+  let left = minutes - parts.reduce((acc, value) => acc + value, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (left > 0) {
+        parts[index]++;
+        left--;
+      }
+    });
+  // Borrow from the longest part so no segment ends up with zero minutes
+  if (minutes >= parts.length) {
+    parts.forEach((value, index) => {
+      if (value > 0) {return;}
+      parts[parts.indexOf(Math.max(...parts))]--;
+      parts[index] = 1;
+    });
+  }
+  return parts;
+}
+
+/**
+ * Rescale segment minutes so they fill the period exactly, keeping their
+ * relative lengths.
+ */
+export function fitSegmentsToPeriod(segments: LessonSegment[], lengthMin: number): LessonSegment[] {
+  const minutes = apportionMinutes(segments.map(segment => segment.minutes), lengthMin);
+  return segments.map((segment, index) => ({ ...segment, minutes: minutes[index] }));
+}
+
+export function lessonCountForWeek(showcase: ProjectShowcaseV2, weekIndex: number): number {
+  const week = showcase.runOfShow?.[weekIndex];
+  if (!week) {return 0;}
+  const perWeek = Math.min(7, Math.max(1, Math.round(showcase.schedule?.lessonsPerWeek || 1)));
+  return perWeek * weekSpan(week.weekLabel || '');
+}
+
+/**
+ * Exit ticket prompts for a lesson: one reflection question from the phase's
+ * question bank (rotating through the lessons) and the confidence check.
+ */
+export function exitTicketFor(kind: PhaseKind, lesson: number): string[] {
+  const questions = DEFAULT_EXIT_TICKET_QUESTIONS[PHASE_STAGES[kind] ?? PBLStage.JOURNEY] || [];
+  const open = questions.filter(question => question.type !== 'confidence');
+  const confidence = questions.find(question => question.type === 'confidence');
+  return [
+    open.length ? open[(lesson - 1) % open.length].text : '',
+    confidence?.text || ''
+  ].filter(Boolean);
+}
+
+function rotate(items: string[] | undefined, lesson: number, fallback: string): string {
+  const filtered = (items || []).filter(Boolean);
+  return filtered.length ? filtered[(lesson - 1) % filtered.length] : fallback;
+}
+
+function templateSegments(week: WeekCard, lesson: number, count: number, lengthMin: number, exitTicket: string[]): LessonSegment[] {
+  const task = rotate(week.students, lesson, week.focus);
+  const move = rotate(week.teacher, lesson, `Model today's focus: ${week.focus}`);
+  const last = lesson === count;
+  const checkpoint = last ? week.checkpoint?.find(Boolean) : undefined;
+  const deliverable = last ? week.deliverables?.find(Boolean) : undefined;
+  const minutes = apportionMinutes(SEGMENT_WEIGHTS.map(([, weight]) => weight), lengthMin);
+
+  const segments: LessonSegment[] = [
+    {
+      kind: 'warm-up',
+      title: 'Warm-up',
+      minutes: 0,
+      grouping: 'pairs',
+      teacher: 'Post the prompt and listen in on pairs',
+      students: lesson > 1
+        ? 'Turn and talk: what did we figure out last lesson?'
+        : week.focus.trim().endsWith('?')
+          ? `Turn and talk: ${week.focus.trim()}`
+          : `Turn and talk: what do you already know about ${lowerFirst(week.focus)}?`
+    },
+    {
+      kind: 'mini-lesson',
+      title: 'Mini-lesson',
+      minutes: 0,
+      grouping: 'whole class',
+      teacher: move,
+      students: 'Take notes and ask clarifying questions'
+    },
+    {
+      kind: 'work-time',
+      title: truncate(upperFirst(task), 60),
+      minutes: 0,
+      grouping: 'small groups',
+      teacher: 'Confer with groups and note who needs support',
+      students: task
+    },
+    {
+      kind: 'share',
+      title: checkpoint ? 'Checkpoint' : 'Share out',
+      minutes: 0,
+      grouping: 'whole class',
+      teacher: checkpoint ? `Check: ${checkpoint}` : 'Invite two groups to share progress',
+      students: deliverable ? `Share ${lowerFirst(deliverable)}` : 'Share one win and one open question'
+    },
+    {
+      kind: 'exit-ticket',
+      title: 'Exit ticket',
+      minutes: 0,
+      grouping: 'individual',
+      teacher: 'Collect responses to plan the next lesson',
+      students: exitTicket[0] || 'Answer the exit ticket'
+    }
+  ];
+  return segments.map((segment, index) => ({ ...segment, minutes: minutes[index] }));
+}
+
+/**
+ * Deterministic plans for one week card, used as the fallback and as the
+ * frame the model's plans are fitted into.
+ */
+export function buildTemplateLessonPlans(showcase: ProjectShowcaseV2, weekIndex: number): DailyLessonPlan[] {
+  const week = showcase.runOfShow?.[weekIndex];
+  if (!week) {return [];}
+  const count = lessonCountForWeek(showcase, weekIndex);
+  const lengthMin = showcase.schedule?.lessonLengthMin || 50;
+  const materials = (showcase.materialsPrep?.coreKit || []).filter(Boolean).slice(0, MAX_MATERIALS);
+
+  return Array.from({ length: count }, (_, offset): DailyLessonPlan => {
+    const lesson = offset + 1;
+    const task = rotate(week.students, lesson, week.focus);
+    const deliverable = lesson === count ? week.deliverables?.find(Boolean) : undefined;
+    const exitTicket = exitTicketFor(week.kind, lesson);
+    return {
+      weekIndex,
+      lesson,
+      title: truncate(upperFirst(lesson === 1 ? week.focus : task), MAX_TITLE_LENGTH),
+      objectives: [
+        `Students will ${lowerFirst(task)}`,
+        deliverable
+          ? `Students will complete ${lowerFirst(deliverable)}`
+          : `Students will explain how today's work connects to ${lowerFirst(week.focus)}`
+      ],
+      segments: templateSegments(week, lesson, count, lengthMin, exitTicket),
+      materials,
+      exitTicket,
+      differentiation: {
+        support: ['Provide a worked example and sentence starters', 'Break work time into a checklist with time stamps'],
+        extension: [PHASE_EXTENSIONS[week.kind] || PHASE_EXTENSIONS.Build],
+        multilingual: ['Pre-teach key vocabulary with visuals', 'Allow planning talk in any language before sharing']
+      },
+      source: 'template'
+    };
+  });
+}
+
+/**
+ * Fit the model's lesson onto the template frame: the warm-up leads, the
+ * exit ticket closes, and the minutes fill the period exactly.
+ */
+function fromSuggestion(
+  suggested: WeekLessonPlansSuggestion['lessons'][number],
+  template: DailyLessonPlan,
+  lengthMin: number
+): DailyLessonPlan {
+  const segments: LessonSegment[] = suggested.segments.map(segment => ({
+    kind: segment.kind,
+    title: truncate(segment.title, 60),
+    minutes: segment.minutes,
+    grouping: segment.grouping,
+    teacher: segment.teacher,
+    students: segment.students
+  }));
+  const warmUp = template.segments.find(segment => segment.kind === 'warm-up');
+  const exitTicket = template.segments.find(segment => segment.kind === 'exit-ticket');
+  const middle = segments.filter(segment => segment.kind !== 'warm-up' && segment.kind !== 'exit-ticket');
+  const closing = segments.find(segment => segment.kind === 'exit-ticket') || exitTicket;
+  const ordered = [
+    segments.find(segment => segment.kind === 'warm-up') || warmUp,
+    ...middle,
+    closing && { ...closing, students: template.exitTicket[0] || closing.students }
+  ].filter((segment): segment is LessonSegment => Boolean(segment));
+  const differentiation = suggested.differentiation;
+
+  return {
+    ...template,
+    title: truncate(suggested.title, MAX_TITLE_LENGTH),
+    objectives: suggested.objectives,
+    segments: fitSegmentsToPeriod(ordered, lengthMin),
+    differentiation: {
+      support: differentiation.support.length ? differentiation.support : template.differentiation.support,
+      extension: differentiation.extension.length ? differentiation.extension : template.differentiation.extension,
+      multilingual: differentiation.multilingual.length ? differentiation.multilingual : template.differentiation.multilingual
+    },
+    source: 'ai'
+  };
+}
+
+/**
+ * Swap in new plans for one week, keeping every other week's plans and any
+ * lesson in this week the teacher has edited.
+ */
+export function replaceWeekPlans(showcase: ProjectShowcaseV2, weekIndex: number, plans: DailyLessonPlan[]): ProjectShowcaseV2 {
+  const existing = showcase.lessonPlans || [];
+  const others = existing.filter(plan => plan.weekIndex !== weekIndex);
+  const edited = new Map(existing
+    .filter(plan => plan.weekIndex === weekIndex && plan.source === 'teacher')
+    .map(plan => [plan.lesson, plan]));
+  return {
+    ...showcase,
+    lessonPlans: [...others, ...plans.map(plan => edited.get(plan.lesson) ?? plan)]
+      .sort((a, b) => a.weekIndex - b.weekIndex || a.lesson - b.lesson)
+  };
+}
+
+/**
+ * Save a teacher's edits to one plan; edited plans are marked as teacher-owned.
+ */
+export function updateLessonPlan(showcase: ProjectShowcaseV2, updated: DailyLessonPlan): ProjectShowcaseV2 {
+  return {
+    ...showcase,
+    lessonPlans: (showcase.lessonPlans || []).map(plan => (
+      plan.weekIndex === updated.weekIndex && plan.lesson === updated.lesson ? { ...updated, source: 'teacher' } : plan
+    ))
+  };
+}
+
+export class LessonPlanService {
+  /**
+   * Generate plans for one week and return the showcase with them in place.
+   */
+  async planWeek(showcase: ProjectShowcaseV2, weekIndex: number): Promise<ProjectShowcaseV2> {
+    return replaceWeekPlans(showcase, weekIndex, await this.generateWeek(showcase, weekIndex));
+  }
+
+  async generateWeek(showcase: ProjectShowcaseV2, weekIndex: number): Promise<DailyLessonPlan[]> {
+    const week = showcase.runOfShow?.[weekIndex];
+    if (!week) {
+      throw new Error(`No week card at index ${weekIndex}`);
+    }
+    const templates = buildTemplateLessonPlans(showcase, weekIndex);
+    const lengthMin = showcase.schedule?.lessonLengthMin || 50;
+
+    let suggestion: WeekLessonPlansSuggestion | null = null;
+    try {
+      suggestion = await this.askModel(showcase, week, templates.length, lengthMin);
+    } catch (error) {
+      console.warn('[LessonPlanService] Model unavailable, using template plans:', error);
+    }
+
+    const plans = templates.map((template, index) => {
+      const suggested = suggestion?.lessons[index];
+      return suggested ? fromSuggestion(suggested, template, lengthMin) : template;
+    });
+    console.log(`[LessonPlanService] Planned ${plans.length} lessons for ${week.weekLabel} (${suggestion ? 'ai' : 'template'})`);
+    return plans;
+  }
+
+  private async askModel(
+    showcase: ProjectShowcaseV2,
+    week: WeekCard,
+    count: number,
+    lengthMin: number
+  ): Promise<WeekLessonPlansSuggestion | null> {
+    const list = (items: string[] | undefined) => (items || []).filter(Boolean).join('; ') || 'none';
+    const prompt = `Write day-by-day lesson plans for one week card of a PBL project.
+
+PROJECT:
+- Title: ${showcase.hero?.title || ''}
+- Grade band: ${showcase.hero?.gradeBand || ''}
+- Subjects: ${(showcase.hero?.subjects || []).join(', ')}
+
+WEEK CARD (${week.weekLabel}, ${week.kind}):
+- Focus: ${week.focus}
+- Teacher moves: ${list(week.teacher)}
+- Students: ${list(week.students)}
+- Deliverables: ${list(week.deliverables)}
+- Checkpoint: ${list(week.checkpoint)}
+
+MATERIALS ON HAND: ${list(showcase.materialsPrep?.coreKit)}
+
+Write exactly ${count} lessons of ${lengthMin} minutes, in order. Each lesson:
+- 1 to 3 objectives starting "Students will"
+- Segments in order: warm-up, then mini-lesson / work-time / share as needed, then exit-ticket; minutes add up to ${lengthMin}
+- Teacher and student lines: 20 words max each; grouping is individual, pairs, small groups or whole class
+- Differentiation: support, extension and multilingual notes, 1–2 each
+Build toward the deliverables and checkpoint by the last lesson.
+
+OUTPUT FORMAT (JSON):
+{
+  "lessons": [
+    {
+      "title": "...",
+      "objectives": ["Students will ..."],
+      "segments": [{ "kind": "warm-up", "title": "...", "minutes": 5, "grouping": "pairs", "teacher": "...", "students": "..." }],
+      "differentiation": { "support": ["..."], "extension": ["..."], "multilingual": ["..."] }
+    }
+  ]
+}
+
+Return ONLY valid JSON.`;
+
+    const { data } = await generateStructuredAI({
+      prompt,
+      schema: zWeekLessonPlans,
+      expectedFormat: '{ "lessons": [{ "title": "...", "objectives": ["..."], "segments": [{ "kind": "warm-up", "title": "...", "minutes": 5, "grouping": "pairs", "teacher": "...", "students": "..." }], "differentiation": { "support": [], "extension": [], "multilingual": [] } }] }',
+      stage: 'DELIVERABLES',
+      wizard: {
+        subjects: showcase.hero?.subjects,
+        gradeLevel: showcase.hero?.gradeBand,
+        projectTopic: showcase.hero?.title
+      },
+      heuristic: raw => {
+        const parsed = zWeekLessonPlans.safeParse(parseLooseJSON(raw));
+        return parsed.success ? parsed.data : null;
+      },
+      options: { label: 'lesson_plans', temperature: 0.4, maxTokens: 3000 }
+    });
+
+    return data;
+  }
+}
+
+export const lessonPlanService = new LessonPlanService();
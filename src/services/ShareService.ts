@@ -0,0 +1,349 @@
+/**
+ * ShareService.ts - Read-only project links, per-email sharing and the public gallery
+ *
+ * Projects live privately under users/{uid}/projects. Sharing publishes a
+ * sanitized copy of the showcase to sharedProjects/{slug}; the slug is 128
+ * random bits, so a link is only discoverable when the owner makes it public.
+ * Re-sharing the same project refreshes the copy and keeps the link.
+ *
+ * Invited emails are kept apart from the copy (one ShareInvite per email), so
+ * readers of a public link or the gallery never see who else was invited.
+ */
+
+import { sanitizeStrict } from '../utils/sanitize';
+import type { ProjectShowcaseV2 } from '../types/showcaseV2';
+import type { UnifiedProjectData } from './UnifiedStorageManager';
+import type { ShareInvite, ShareStore } from './ShareStore';
+
+export interface SharedProject {
+  slug: string;
+  projectId: string;
+  ownerId: string;
+  ownerName?: string;  // display name only; never an email
+  title: string;
+  tagline?: string;
+  gradeBand?: string;
+  subjects: string[];
+  isPublic: boolean;   // listed in the gallery and readable by anyone with the link
+  showcase: ProjectShowcaseV2;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The owner's view of a share, with the invite list
+export interface OwnedShare extends SharedProject {
+  sharedWith: string[]; // lower-cased emails that may open a private link
+}
+
+export interface ShareUser {
+  id: string;
+  name?: string;
+  email?: string;
+  emailVerified?: boolean; // Firestore rules only open private links for a verified email
+  anonymous?: boolean;
+}
+
+export interface ShareProjectInput {
+  projectId: string;
+  showcase: ProjectShowcaseV2;
+  isPublic?: boolean;
+  sharedWith?: string[];
+}
+
+export interface ShareSettings {
+  isPublic?: boolean;
+  sharedWith?: string[];
+}
+
+export interface ShareServiceOptions {
+  store?: ShareStore;
+  resolveUser?: () => Promise<ShareUser | undefined>;
+  saveProject?: (project: Partial<UnifiedProjectData>) => Promise<string>;
+  now?: () => number;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_INVITES = 50;
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'", '&nbsp;': ' ' };
+
+// sanitizeStrict strips markup but returns HTML-escaped text; React escapes again on render
+const plainText = (value: string) =>
+  sanitizeStrict(value).replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => ENTITIES[entity]);
+
+function sanitizeValue<T>(value: T): T {
+  if (typeof value === 'string') {return plainText(value) as T;}
+  if (Array.isArray(value)) {return value.map(sanitizeValue) as T;}
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, sanitizeValue(entry)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Public copy of a showcase: markup stripped from every string, teacher-only
+ * planning notes and unreviewed standards links dropped, and local image
+ * data (data:/blob: URLs) removed
+ */
+export function toPublicShowcase(showcase: ProjectShowcaseV2, slug: string): ProjectShowcaseV2 {
+  const { planningNotes: _planningNotes, standardsAlignment, ...rest } = showcase;
+  const copy = sanitizeValue(JSON.parse(JSON.stringify(rest)) as Omit<ProjectShowcaseV2, 'planningNotes' | 'standardsAlignment'>);
+  const accepted = sanitizeValue((standardsAlignment ?? []).filter(link => link.status === 'accepted'));
+  const image = showcase.hero?.image;
+  return {
+    ...copy,
+    id: slug,
+    hero: {
+      ...copy.hero,
+      image: image && /^https?:\/\//i.test(image) ? image : undefined
+    },
+    ...(accepted.length ? { standardsAlignment: accepted } : {})
+  };
+}
+
+/**
+ * 128-bit random slug, base64url encoded (22 characters)
+ */
+export function createShareSlug(): string {
+  const bytes = new Uint8Array(16);
+  globalThis.crypto.getRandomValues(bytes);
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function shareLink(slug: string): string {
+  return `${window.location.origin}/app/shared/${encodeURIComponent(slug)}`;
+}
+
+export class ShareService {
+  private store: ShareStore | null;
+  private storePromise: Promise<ShareStore> | null = null;
+  private readonly resolveUser: () => Promise<ShareUser | undefined>;
+  private readonly saveProject: (project: Partial<UnifiedProjectData>) => Promise<string>;
+  private readonly now: () => number;
+
+  constructor(options: ShareServiceOptions = {}) {
+    this.store = options.store ?? null;
+    this.resolveUser = options.resolveUser ?? defaultShareUser;
+    this.saveProject = options.saveProject ?? saveToWorkspace;
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  /**
+   * Publish (or refresh) the read-only copy of a project; one link per project
+   */
+  async shareProject(input: ShareProjectInput): Promise<OwnedShare> {
+    const user = await this.requireUser();
+    if (user.anonymous) {
+      throw new Error('Sign in with an account to share a project');
+    }
+    const store = await this.getStore();
+    const [existing] = await store.list({ ownerId: user.id, projectId: input.projectId });
+    const timestamp = this.timestamp();
+    const slug = existing?.slug ?? createShareSlug();
+    const showcase = toPublicShowcase(input.showcase, slug);
+    const sharedWith = input.sharedWith ? normalizeEmails(input.sharedWith, user) : null;
+
+    const share: SharedProject = {
+      slug,
+      projectId: input.projectId,
+      ownerId: user.id,
+      ownerName: publicName(user),
+      title: showcase.hero?.title || 'Untitled project',
+      tagline: showcase.hero?.tagline || undefined,
+      gradeBand: showcase.hero?.gradeBand,
+      subjects: showcase.hero?.subjects ?? [],
+      isPublic: input.isPublic ?? existing?.isPublic ?? false,
+      showcase,
+      createdAt: existing?.createdAt ?? timestamp,
+      updatedAt: timestamp
+    };
+    await store.put(share);
+    if (sharedWith) {await store.setInvites(share, sharedWith);}
+    return { ...share, sharedWith: sharedWith ?? await this.invitedEmails(store, user, slug) };
+  }
+
+  /**
+   * Change who can open a link without republishing the content
+   */
+  async updateSharing(slug: string, settings: ShareSettings): Promise<OwnedShare> {
+    const { user, share } = await this.requireOwnShare(slug);
+    const store = await this.getStore();
+    const sharedWith = settings.sharedWith ? normalizeEmails(settings.sharedWith, user) : null;
+    const patch: Partial<SharedProject> = {
+      ...(settings.isPublic !== undefined ? { isPublic: settings.isPublic } : {}),
+      updatedAt: this.timestamp()
+    };
+    await store.update(slug, patch);
+    if (sharedWith) {await store.setInvites(share, sharedWith);}
+    return { ...share, ...patch, sharedWith: sharedWith ?? await this.invitedEmails(store, user, slug) };
+  }
+
+  /**
+   * Delete the shared copy; the link stops working for everyone
+   */
+  async revokeShare(slug: string): Promise<void> {
+    await this.requireOwnShare(slug);
+    await (await this.getStore()).delete(slug);
+  }
+
+  /**
+   * A shared project the current visitor may read, or null
+   */
+  async getShared(slug: string): Promise<SharedProject | null> {
+    const store = await this.getStore();
+    const share = await store.get(slug);
+    if (!share) {return null;}
+    if (share.isPublic) {return share;}
+    const user = await this.resolveUser();
+    if (user && share.ownerId === user.id) {return share;}
+    const email = user && verifiedEmail(user);
+    return email && (await store.listInvites({ slug, email })).length ? share : null;
+  }
+
+  async listMyShares(projectId?: string): Promise<OwnedShare[]> {
+    const user = await this.resolveUser();
+    if (!user) {return [];}
+    const store = await this.getStore();
+    const [shares, invites] = await Promise.all([
+      store.list({ ownerId: user.id, projectId }),
+      store.listInvites({ ownerId: user.id })
+    ]);
+    return shares.map(share => ({ ...share, sharedWith: emailsFor(invites, share.slug) }));
+  }
+
+  async listSharedWithMe(): Promise<SharedProject[]> {
+    const user = await this.resolveUser();
+    const email = user && verifiedEmail(user);
+    if (!email) {return [];}
+    const store = await this.getStore();
+    const invites = await store.listInvites({ email });
+    const shares = await Promise.all(invites.map(invite => store.get(invite.slug)));
+    return shares
+      .filter((share): share is SharedProject => Boolean(share))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async listPublicGallery(): Promise<SharedProject[]> {
+    return (await this.getStore()).list({ isPublic: true });
+  }
+
+  /**
+   * Deep-copy a shared project into the current user's workspace; returns the new project id
+   */
+  async duplicateIntoWorkspace(slug: string): Promise<string> {
+    const user = await this.requireUser();
+    const share = await this.getShared(slug);
+    if (!share) {
+      throw new Error('This shared project is no longer available');
+    }
+
+    const id = `project_${this.now()}_${Math.random().toString(36).slice(2, 10)}`;
+    const showcase: ProjectShowcaseV2 = { ...JSON.parse(JSON.stringify(share.showcase)), id };
+    const { hero } = showcase;
+    return this.saveProject({
+      id,
+      title: hero?.title || share.title,
+      tagline: hero?.tagline,
+      description: showcase.fullOverview || showcase.microOverview?.[0],
+      userId: user.id,
+      showcase,
+      wizardData: {
+        gradeLevel: hero?.gradeBand,
+        subjects: hero?.subjects ?? [],
+        duration: hero?.timeframe,
+        projectTopic: hero?.title
+      },
+      projectData: { sharedFrom: { slug, ownerName: share.ownerName } },
+      status: 'ready',
+      stage: 'COMPLETED',
+      source: 'import',
+      provisional: false
+    });
+  }
+
+  private async requireUser(): Promise<ShareUser> {
+    const user = await this.resolveUser();
+    if (!user) {
+      throw new Error('Sign in to continue');
+    }
+    return user;
+  }
+
+  private async requireOwnShare(slug: string): Promise<{ user: ShareUser; share: SharedProject }> {
+    const user = await this.requireUser();
+    const share = await (await this.getStore()).get(slug);
+    if (!share || share.ownerId !== user.id) {
+      throw new Error('Only the owner can change this shared project');
+    }
+    return { user, share };
+  }
+
+  private async invitedEmails(store: ShareStore, owner: ShareUser, slug: string): Promise<string[]> {
+    return emailsFor(await store.listInvites({ slug, ownerId: owner.id }), slug);
+  }
+
+  private async getStore(): Promise<ShareStore> {
+    if (this.store) {return this.store;}
+    if (!this.storePromise) {
+      this.storePromise = import('./ShareStore')
+        .then(({ createDefaultShareStore }) => createDefaultShareStore())
+        .then(store => (this.store = store));
+    }
+    return this.storePromise;
+  }
+
+  private timestamp(): string {
+    return new Date(this.now()).toISOString();
+  }
+}
+
+function normalizeEmails(emails: string[], owner: ShareUser): string[] {
+  const normalized = Array.from(new Set(emails.map(email => email.trim().toLowerCase()).filter(Boolean)));
+  const invalid = normalized.find(email => !EMAIL_PATTERN.test(email));
+  if (invalid) {
+    throw new Error(`"${invalid}" is not a valid email`);
+  }
+  const ownEmail = owner.email?.toLowerCase();
+  const invited = normalized.filter(email => email !== ownEmail);
+  if (invited.length > MAX_INVITES) {
+    throw new Error(`Share with at most ${MAX_INVITES} people`);
+  }
+  return invited;
+}
+
+function emailsFor(invites: ShareInvite[], slug: string): string[] {
+  return invites.filter(invite => invite.slug === slug).map(invite => invite.email);
+}
+
+// Shown on public pages, so a name that is really an email address is left out
+function publicName(user: ShareUser): string | undefined {
+  const name = user.name?.trim();
+  return name && !name.includes('@') ? name : undefined;
+}
+
+async function defaultShareUser(): Promise<ShareUser | undefined> {
+  const { auth } = await import('../firebase/firebase');
+  const user = auth?.currentUser;
+  if (!user) {return undefined;}
+  return {
+    id: user.uid,
+    name: user.displayName || undefined,
+    email: user.email || undefined,
+    emailVerified: user.emailVerified,
+    anonymous: user.isAnonymous
+  };
+}
+
+function verifiedEmail(user: ShareUser): string | null {
+  return user.email && user.emailVerified ? user.email.toLowerCase() : null;
+}
+
+async function saveToWorkspace(project: Partial<UnifiedProjectData>): Promise<string> {
+  const { unifiedStorage } = await import('./UnifiedStorageManager');
+  return unifiedStorage.saveProject(project);
+}
+
+export const shareService = new ShareService();
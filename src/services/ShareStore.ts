@@ -0,0 +1,200 @@
+/**
+ * ShareStore.ts - Persistence for shared read-only project copies
+ *
+ * Layout (Firestore, see firestore.rules):
+ * - sharedProjects/{slug}       → SharedProject (sanitized showcase copy, no emails)
+ * - shareInvites/{slug}:{email} → ShareInvite, readable by the owner and that invitee only
+ *
+ * Adapters:
+ * - FirestoreShareStore: readable by link (public), by invited emails, and by the owner
+ * - MemoryShareStore:    tests and offline mode (links only work on this device)
+ */
+
+import type { Firestore } from 'firebase/firestore';
+import type { SharedProject } from './ShareService';
+
+export interface ShareFilter {
+  ownerId?: string;
+  projectId?: string;
+  isPublic?: boolean;
+}
+
+export interface ShareInvite {
+  slug: string;
+  ownerId: string;
+  email: string; // lower-cased
+}
+
+export interface InviteFilter {
+  slug?: string;
+  ownerId?: string;
+  email?: string;
+}
+
+export interface ShareStore {
+  readonly name: 'firestore' | 'memory';
+  put(share: SharedProject): Promise<void>;
+  get(slug: string): Promise<SharedProject | null>;
+  update(slug: string, patch: Partial<SharedProject>): Promise<void>;
+  delete(slug: string): Promise<void>;
+  list(filter: ShareFilter): Promise<SharedProject[]>;
+  // Replace the invite list of one share
+  setInvites(share: Pick<SharedProject, 'slug' | 'ownerId'>, emails: string[]): Promise<void>;
+  listInvites(filter: InviteFilter): Promise<ShareInvite[]>;
+}
+
+const byUpdatedAtDesc = (a: SharedProject, b: SharedProject) => b.updatedAt.localeCompare(a.updatedAt);
+
+const inviteId = (slug: string, email: string) => `${slug}:${email}`;
+
+// Firestore rejects undefined fields
+const clean = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export class MemoryShareStore implements ShareStore {
+  readonly name = 'memory' as const;
+  private readonly shares = new Map<string, SharedProject>();
+  private readonly invites = new Map<string, ShareInvite>();
+
+  async put(share: SharedProject): Promise<void> {
+    this.shares.set(share.slug, clean(share));
+  }
+
+  async get(slug: string): Promise<SharedProject | null> {
+    const share = this.shares.get(slug);
+    return share ? clean(share) : null;
+  }
+
+  async update(slug: string, patch: Partial<SharedProject>): Promise<void> {
+    const share = this.shares.get(slug);
+    if (!share) {throw new Error(`Shared project ${slug} not found`);}
+    this.shares.set(slug, clean({ ...share, ...patch }));
+  }
+
+  async delete(slug: string): Promise<void> {
+    this.shares.delete(slug);
+    this.removeInvites(slug);
+  }
+
+  async list(filter: ShareFilter): Promise<SharedProject[]> {
+    return Array.from(this.shares.values())
+      .filter(share =>
+        (!filter.ownerId || share.ownerId === filter.ownerId)
+        && (!filter.projectId || share.projectId === filter.projectId)
+        && (filter.isPublic === undefined || share.isPublic === filter.isPublic))
+      .map(clean)
+      .sort(byUpdatedAtDesc);
+  }
+
+  async setInvites(share: Pick<SharedProject, 'slug' | 'ownerId'>, emails: string[]): Promise<void> {
+    this.removeInvites(share.slug);
+    emails.forEach(email => this.invites.set(inviteId(share.slug, email), { slug: share.slug, ownerId: share.ownerId, email }));
+  }
+
+  async listInvites(filter: InviteFilter): Promise<ShareInvite[]> {
+    return Array.from(this.invites.values())
+      .filter(invite =>
+        (!filter.slug || invite.slug === filter.slug)
+        && (!filter.ownerId || invite.ownerId === filter.ownerId)
+        && (!filter.email || invite.email === filter.email))
+      .map(clean);
+  }
+
+  private removeInvites(slug: string): void {
+    Array.from(this.invites.entries())
+      .filter(([, invite]) => invite.slug === slug)
+      .forEach(([id]) => this.invites.delete(id));
+  }
+}
+
+export class FirestoreShareStore implements ShareStore {
+  readonly name = 'firestore' as const;
+
+  async put(share: SharedProject): Promise<void> {
+    const { db, firestore } = await loadFirestore();
+    await firestore.setDoc(firestore.doc(db, 'sharedProjects', share.slug), clean(share));
+  }
+
+  async get(slug: string): Promise<SharedProject | null> {
+    const { db, firestore } = await loadFirestore();
+    try {
+      const snapshot = await firestore.getDoc(firestore.doc(db, 'sharedProjects', slug));
+      return snapshot.exists() ? { ...(snapshot.data() as SharedProject), slug: snapshot.id } : null;
+    } catch (error) {
+      // Rules deny reads of private shares to everyone else; treat that like a missing link
+      if ((error as { code?: string })?.code === 'permission-denied') {return null;}
+      throw error;
+    }
+  }
+
+  async update(slug: string, patch: Partial<SharedProject>): Promise<void> {
+    const { db, firestore } = await loadFirestore();
+    await firestore.updateDoc(firestore.doc(db, 'sharedProjects', slug), clean(patch));
+  }
+
+  async delete(slug: string): Promise<void> {
+    const { db, firestore } = await loadFirestore();
+    const share = await this.get(slug);
+    if (share) {await this.setInvites(share, []);}
+    await firestore.deleteDoc(firestore.doc(db, 'sharedProjects', slug));
+  }
+
+  async list(filter: ShareFilter): Promise<SharedProject[]> {
+    const { db, firestore } = await loadFirestore();
+    // Equality filters only, so no composite index is needed; sorted client-side
+    const constraints = [
+      ...(filter.ownerId ? [firestore.where('ownerId', '==', filter.ownerId)] : []),
+      ...(filter.projectId ? [firestore.where('projectId', '==', filter.projectId)] : []),
+      ...(filter.isPublic !== undefined ? [firestore.where('isPublic', '==', filter.isPublic)] : [])
+    ];
+    const snapshot = await firestore.getDocs(firestore.query(firestore.collection(db, 'sharedProjects'), ...constraints));
+    return snapshot.docs
+      .map(docSnap => ({ ...(docSnap.data() as SharedProject), slug: docSnap.id }))
+      .sort(byUpdatedAtDesc);
+  }
+
+  async setInvites(share: Pick<SharedProject, 'slug' | 'ownerId'>, emails: string[]): Promise<void> {
+    const { db, firestore } = await loadFirestore();
+    const current = await this.listInvites({ slug: share.slug, ownerId: share.ownerId });
+    const batch = firestore.writeBatch(db);
+    current
+      .filter(invite => !emails.includes(invite.email))
+      .forEach(invite => batch.delete(firestore.doc(db, 'shareInvites', inviteId(invite.slug, invite.email))));
+    emails.forEach(email => {
+      const invite: ShareInvite = { slug: share.slug, ownerId: share.ownerId, email };
+      batch.set(firestore.doc(db, 'shareInvites', inviteId(share.slug, email)), invite);
+    });
+    await batch.commit();
+  }
+
+  async listInvites(filter: InviteFilter): Promise<ShareInvite[]> {
+    const { db, firestore } = await loadFirestore();
+    // Rules only allow queries pinned to the caller: ownerId for owners, email for invitees
+    const constraints = [
+      ...(filter.slug ? [firestore.where('slug', '==', filter.slug)] : []),
+      ...(filter.ownerId ? [firestore.where('ownerId', '==', filter.ownerId)] : []),
+      ...(filter.email ? [firestore.where('email', '==', filter.email)] : [])
+    ];
+    const snapshot = await firestore.getDocs(firestore.query(firestore.collection(db, 'shareInvites'), ...constraints));
+    return snapshot.docs.map(docSnap => docSnap.data() as ShareInvite);
+  }
+}
+
+async function loadFirestore() {
+  const [firestore, { db }] = await Promise.all([
+    import('firebase/firestore'),
+    import('../firebase/firebase')
+  ]);
+  if (!db || db.type !== 'firestore') {
+    throw new Error('Firestore is not available');
+  }
+  // ExtendedFirestore widens `type` with 'offline', which the SDK signatures reject
+  return { firestore, db: db as unknown as Firestore };
+}
+
+/**
+ * Firestore when Firebase is configured, otherwise an in-memory store
+ */
+export async function createDefaultShareStore(): Promise<ShareStore> {
+  const { db, isOfflineMode } = await import('../firebase/firebase');
+  return !isOfflineMode && db?.type === 'firestore' ? new FirestoreShareStore() : new MemoryShareStore();
+}
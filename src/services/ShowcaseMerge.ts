@@ -0,0 +1,349 @@
+/**
+ * Showcase Merge
+ *
+ * Field-level three-way merge for ProjectShowcaseV2 documents.
+ * Compares a common ancestor (base) with the local and cloud versions and
+ * only surfaces conflicts where both sides changed the same field differently.
+ *
+ * Identity Rules:
+ * - runOfShow[] weeks are matched by position (week card 2), so renaming or
+ *   renumbering a week is a field edit rather than a delete + add
+ * - assignments[] are matched by id ("A1")
+ * - rubric criteria are matched by name
+ * - standardsAlignment[] links are matched by id ("MS-ESS3-3@week:0")
+ * - lessonPlans[] are matched by week index and lesson number ("0:2")
+ * - every other array (bullets, tags) is treated as a single value
+ *
+ * Resolution:
+ * - Only one side changed a field → take that side
+ * - Both sides made the same change → take it once
+ * - Both sides changed it differently → conflict (local wins until the user chooses)
+ * - One side deleted an item the other side edited → conflict
+ *
+ * The merge is deterministic, so applying user choices is just re-running it
+ * with a `choices` map keyed by conflict path.
+ */
+
+import type {
+  AnalyticRubric,
+  AssignmentCard,
+  DailyLessonPlan,
+  FamilyLetter,
+  ProjectShowcaseV2,
+  StandardAlignmentLink,
+  WeekCard
+} from '../types/showcaseV2';
+
+export type MergeSide = 'local' | 'cloud';
+
+export interface ShowcaseFieldConflict {
+  path: string;          // Stable id, e.g. "assignments[A2].summary"
+  label: string;         // Human-readable, e.g. "Assignment A2 › summary"
+  base: unknown;
+  local: unknown;
+  cloud: unknown;
+}
+
+export interface ShowcaseMergeResult {
+  merged: ProjectShowcaseV2;
+  conflicts: ShowcaseFieldConflict[];
+  autoResolved: number;  // Fields taken from one side without a conflict
+}
+
+export type MergeChoices = Record<string, MergeSide>;
+
+type KeyedArraySpec = {
+  keyOf: (item: unknown, index: number) => string;
+  labelOf: (key: string) => string;
+};
+
+/**
+ * Items come from stored documents, so any field may be missing.
+ */
+function keyed<T>(spec: {
+  keyOf: (item: Partial<T> | undefined, index: number) => string;
+  labelOf: (key: string) => string;
+}): KeyedArraySpec {
+  return spec as KeyedArraySpec;
+}
+
+/**
+ * Arrays merged item-by-item. Paths use `*` for the keyed segment.
+ */
+const KEYED_ARRAYS: Record<string, KeyedArraySpec> = {
+  runOfShow: keyed<WeekCard>({
+    keyOf: (_week, index) => `#${index + 1}`,
+    labelOf: key => `Week card ${key.slice(1)}`
+  }),
+  assignments: keyed<AssignmentCard>({
+    keyOf: (assignment, index) => (typeof assignment?.id === 'string' && assignment.id.trim()) || `#${index + 1}`,
+    labelOf: key => `Assignment ${key}`
+  }),
+  'assignments.*.rubric.criteria': keyed<AnalyticRubric['criteria'][number]>({
+    keyOf: (criterion, index) => (typeof criterion?.name === 'string' && criterion.name.trim()) || `#${index + 1}`,
+    labelOf: key => `Criterion "${key}"`
+  }),
+  standardsAlignment: keyed<StandardAlignmentLink>({
+    keyOf: (link, index) => (typeof link?.id === 'string' && link.id.trim()) || `#${index + 1}`,
+    labelOf: key => `Standard link ${key}`
+  }),
+  lessonPlans: keyed<DailyLessonPlan>({
+    keyOf: (plan, index) => (Number.isInteger(plan?.weekIndex) && Number.isInteger(plan?.lesson) ? `${plan?.weekIndex}:${plan?.lesson}` : `#${index + 1}`),
+    labelOf: key => {
+      const [week, lesson] = key.split(':');
+      return lesson ? `Lesson plan (week card ${Number(week) + 1}, lesson ${lesson})` : `Lesson plan ${key}`;
+    }
+  }),
+  'familyKit.letters': keyed<FamilyLetter>({
+    keyOf: (letter, index) => {
+      if (typeof letter?.kind !== 'string') {return `#${index + 1}`;}
+      return letter.kind === 'weekly-update' ? `${letter.kind}:${letter.weekIndex ?? 0}` : letter.kind;
+    },
+    labelOf: key => {
+      const [kind, week] = key.split(':');
+      return week ? `Family letter (${kind}, week card ${Number(week) + 1})` : `Family letter (${kind})`;
+    }
+  })
+};
+
+const DELETED = Symbol('deleted');
+
+interface MergeContext {
+  conflicts: ShowcaseFieldConflict[];
+  choices: MergeChoices;
+  autoResolved: number;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) { return true; }
+  if (a === undefined || b === undefined) { return false; }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function joinLabel(parent: string, key: string): string {
+  return parent ? `${parent} › ${key}` : key;
+}
+
+/**
+ * Record a conflict and return the value for the chosen side.
+ */
+function resolveConflict(
+  ctx: MergeContext,
+  path: string,
+  label: string,
+  base: unknown,
+  local: unknown,
+  cloud: unknown
+): unknown {
+  ctx.conflicts.push({
+    path,
+    label,
+    base: clone(base),
+    local: clone(local),
+    cloud: clone(cloud)
+  });
+  return ctx.choices[path] === 'cloud' ? cloud : local;
+}
+
+function mergeValue(
+  ctx: MergeContext,
+  shape: string,
+  path: string,
+  label: string,
+  base: unknown,
+  local: unknown,
+  cloud: unknown
+): unknown {
+  if (isEqual(local, cloud)) { return clone(local); }
+  if (isEqual(base, local)) { ctx.autoResolved++; return clone(cloud); }
+  if (isEqual(base, cloud)) { ctx.autoResolved++; return clone(local); }
+
+  const spec = KEYED_ARRAYS[shape];
+  if (spec && Array.isArray(local) && Array.isArray(cloud)) {
+    return mergeKeyedArray(ctx, spec, shape, path, label, Array.isArray(base) ? base : [], local, cloud);
+  }
+
+  if (isPlainObject(local) && isPlainObject(cloud)) {
+    return mergeObject(ctx, shape, path, label, isPlainObject(base) ? base : {}, local, cloud);
+  }
+
+  return clone(resolveConflict(ctx, path, label, base, local, cloud));
+}
+
+function mergeObject(
+  ctx: MergeContext,
+  shape: string,
+  path: string,
+  label: string,
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+  cloud: Record<string, unknown>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(local), ...Object.keys(cloud)]);
+
+  keys.forEach(key => {
+    const value = mergeValue(
+      ctx,
+      joinPath(shape, key),
+      joinPath(path, key),
+      joinLabel(label, key),
+      base[key],
+      local[key],
+      cloud[key]
+    );
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  });
+
+  return result;
+}
+
+function indexByKey(items: unknown[], spec: KeyedArraySpec): Map<string, unknown> {
+  const map = new Map<string, unknown>();
+  items.forEach((item, index) => {
+    const key = spec.keyOf(item, index);
+    // Duplicate keys (e.g. two "Week 3" cards) fall back to position
+    map.set(map.has(key) ? `${key}#${index + 1}` : key, item);
+  });
+  return map;
+}
+
+/**
+ * Order keys by local order, inserting cloud-only keys after their
+ * nearest preceding cloud neighbour that is already placed.
+ */
+function orderKeys(localKeys: string[], cloudKeys: string[]): string[] {
+  const ordered = [...localKeys];
+  cloudKeys.forEach((key, index) => {
+    if (ordered.includes(key)) { return; }
+    let insertAt = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const anchor = ordered.indexOf(cloudKeys[i]);
+      if (anchor !== -1) {
+        insertAt = anchor + 1;
+        break;
+      }
+    }
+    ordered.splice(insertAt, 0, key);
+  });
+  return ordered;
+}
+
+function mergeKeyedArray(
+  ctx: MergeContext,
+  spec: KeyedArraySpec,
+  shape: string,
+  path: string,
+  label: string,
+  base: unknown[],
+  local: unknown[],
+  cloud: unknown[]
+): unknown[] {
+  const baseMap = indexByKey(base, spec);
+  const localMap = indexByKey(local, spec);
+  const cloudMap = indexByKey(cloud, spec);
+  const keys = orderKeys([...localMap.keys()], [...cloudMap.keys()]);
+  const parentLabel = label.split(' › ').slice(0, -1).join(' › ');
+  const result: unknown[] = [];
+
+  keys.forEach(key => {
+    const itemPath = `${path}[${key}]`;
+    const itemLabel = joinLabel(parentLabel, spec.labelOf(key));
+    const itemShape = `${shape}.*`;
+    const inBase = baseMap.has(key);
+    const inLocal = localMap.has(key);
+    const inCloud = cloudMap.has(key);
+    const baseItem = baseMap.get(key);
+
+    let value: unknown;
+
+    if (inLocal && inCloud) {
+      value = mergeValue(ctx, itemShape, itemPath, itemLabel, baseItem, localMap.get(key), cloudMap.get(key));
+    } else if (!inBase) {
+      // Added on one side only
+      ctx.autoResolved++;
+      value = clone(inLocal ? localMap.get(key) : cloudMap.get(key));
+    } else {
+      // Deleted on one side: honour the delete unless the other side edited the item
+      const survivor = inLocal ? localMap.get(key) : cloudMap.get(key);
+      if (isEqual(baseItem, survivor)) {
+        ctx.autoResolved++;
+        value = DELETED;
+      } else {
+        const chosen = resolveConflict(
+          ctx,
+          itemPath,
+          itemLabel,
+          baseItem,
+          inLocal ? survivor : null,
+          inCloud ? survivor : null
+        );
+        value = chosen === null ? DELETED : clone(chosen);
+      }
+    }
+
+    if (value !== DELETED && value !== undefined) {
+      result.push(value);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Three-way merge of showcase documents.
+ *
+ * @param base - Common ancestor (last synced version), or null if unknown
+ * @param local - Version edited on this device
+ * @param cloud - Version currently in the cloud
+ * @param choices - Per-conflict side selections (defaults to local)
+ */
+export function mergeShowcases(
+  base: ProjectShowcaseV2 | null | undefined,
+  local: ProjectShowcaseV2,
+  cloud: ProjectShowcaseV2,
+  choices: MergeChoices = {}
+): ShowcaseMergeResult {
+  const ctx: MergeContext = { conflicts: [], choices, autoResolved: 0 };
+  const merged = mergeValue(
+    ctx,
+    '',
+    '',
+    '',
+    base ?? {},
+    local,
+    cloud
+  ) as ProjectShowcaseV2;
+
+  return {
+    merged,
+    conflicts: ctx.conflicts,
+    autoResolved: ctx.autoResolved
+  };
+}
+
+/**
+ * Format a conflicting value for side-by-side display.
+ */
+export function formatConflictValue(value: unknown): string {
+  if (value === undefined || value === null) { return '(removed)'; }
+  if (typeof value === 'string') { return value; }
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value.map(item => `• ${item}`).join('\n');
+  }
+  return JSON.stringify(value, null, 2);
+}
@@ -0,0 +1,347 @@
+/**
+ * Standards Alignment Service
+ *
+ * Proposes standard codes for every week (taught), assignment and analytic
+ * rubric criterion (assessed) of a ProjectShowcaseV2, and turns the teacher's
+ * accepted links into a taught-vs-assessed coverage matrix.
+ *
+ * Proposals:
+ * - Candidates come from the StandardsCatalog (ranked search per target), so
+ *   the model can only pick codes that exist in an imported/built-in framework
+ * - The model's choices are schema-validated (zStandardsAlignmentSuggestion)
+ * - When the model is unavailable, the top catalog matches are proposed instead
+ *
+ * Persistence:
+ * - Links live on showcase.standardsAlignment and travel with the showcase
+ * - Re-running a pass keeps every accepted/rejected decision and never
+ *   re-proposes a rejected link
+ */
+
+import type {
+  AlignmentStatus,
+  AlignmentTarget,
+  GradeBand,
+  ProjectShowcaseV2,
+  StandardAlignmentLink
+} from '../types/showcaseV2';
+import { standardsCatalog, type CatalogStandard } from './StandardsCatalog';
+import { generateStructuredAI, parseLooseJSON } from '../features/chat-mvp/domain/structuredAI';
+import { zStandardsAlignmentSuggestion, type StandardsAlignmentSuggestion } from '../types/zod-schemas';
+
+export interface AlignmentTargetInfo {
+  key: string;
+  target: AlignmentTarget;
+  label: string;           // "Week 1", "A1: Heat map", "A1 › Evidence use"
+  text: string;            // What the target teaches or assesses, for matching
+}
+
+export interface AlignmentProposalOptions {
+  frameworks?: string[];   // Catalog ids; defaults to frameworks matching hero.subjects
+  maxPerTarget?: number;   // Default 3
+}
+
+export interface CoverageRow {
+  code: string;
+  framework?: string;
+  label?: string;
+  taught: number[];        // runOfShow indexes
+  assessed: string[];      // assignment ids (criterion links count toward their assignment)
+  status: 'taught-and-assessed' | 'taught-only' | 'assessed-only';
+}
+
+export interface CoverageMatrix {
+  weeks: Array<{ index: number; label: string }>;
+  assignments: Array<{ id: string; title: string }>;
+  rows: CoverageRow[];
+  summary: { taughtAndAssessed: number; taughtOnly: number; assessedOnly: number };
+}
+
+const DEFAULT_MAX_PER_TARGET = 3;
+const CANDIDATES_PER_TARGET = 4;
+const MAX_CANDIDATES = 40;
+
+const GRADE_BAND_LEVELS: Record<GradeBand, string> = {
+  PK: 'pre-k',
+  ES: 'elementary',
+  MS: 'middle',
+  HS: 'high',
+  PS: 'post-secondary'
+};
+
+export function alignmentTargetKey(target: AlignmentTarget): string {
+  switch (target.kind) {
+    case 'week': return `week:${target.weekIndex}`;
+    case 'assignment': return `assignment:${target.assignmentId}`;
+    case 'criterion': return `criterion:${target.assignmentId}:${target.criterion}`;
+  }
+}
+
+function linkId(code: string, target: AlignmentTarget): string {
+  return `${code}@${alignmentTargetKey(target)}`;
+}
+
+/**
+ * Every week, assignment and rubric criterion that can carry a standard.
+ */
+export function listAlignmentTargets(showcase: ProjectShowcaseV2): AlignmentTargetInfo[] {
+  const targets: AlignmentTargetInfo[] = [];
+
+  (showcase.runOfShow || []).forEach((week, weekIndex) => {
+    const target: AlignmentTarget = { kind: 'week', weekIndex };
+    targets.push({
+      key: alignmentTargetKey(target),
+      target,
+      label: week.weekLabel || `Week ${weekIndex + 1}`,
+      text: [week.focus, ...(week.students || []), ...(week.deliverables || [])].join('. ')
+    });
+  });
+
+  (showcase.assignments || []).forEach(assignment => {
+    const target: AlignmentTarget = { kind: 'assignment', assignmentId: assignment.id };
+    targets.push({
+      key: alignmentTargetKey(target),
+      target,
+      label: `${assignment.id}: ${assignment.title}`,
+      text: [assignment.title, assignment.summary, ...(assignment.evidence || []), ...(assignment.successCriteria || [])].join('. ')
+    });
+
+    (assignment.rubric?.criteria || []).forEach(criterion => {
+      const criterionTarget: AlignmentTarget = { kind: 'criterion', assignmentId: assignment.id, criterion: criterion.name };
+      targets.push({
+        key: alignmentTargetKey(criterionTarget),
+        target: criterionTarget,
+        label: `${assignment.id} › ${criterion.name}`,
+        text: [criterion.name, criterion.levels?.proficient].filter(Boolean).join('. ')
+      });
+    });
+  });
+
+  return targets;
+}
+
+/**
+ * Keep teacher decisions and teacher-added links; replace stale proposals.
+ */
+export function mergeAlignmentProposals(
+  existing: StandardAlignmentLink[] = [],
+  proposals: StandardAlignmentLink[]
+): StandardAlignmentLink[] {
+  const decided = existing.filter(link => link.status !== 'proposed' || link.source === 'teacher');
+  const decidedIds = new Set(decided.map(link => link.id));
+  return [...decided, ...proposals.filter(link => !decidedIds.has(link.id))];
+}
+
+export function setAlignmentStatus(
+  showcase: ProjectShowcaseV2,
+  linkId: string,
+  status: AlignmentStatus
+): ProjectShowcaseV2 {
+  return {
+    ...showcase,
+    standardsAlignment: (showcase.standardsAlignment || []).map(link => (
+      link.id === linkId ? { ...link, status } : link
+    ))
+  };
+}
+
+/**
+ * Accepted links as a standards × (weeks, assignments) matrix.
+ */
+export function buildCoverageMatrix(showcase: ProjectShowcaseV2): CoverageMatrix {
+  const rows = new Map<string, CoverageRow>();
+
+  (showcase.standardsAlignment || [])
+    .filter(link => link.status === 'accepted')
+    .forEach(link => {
+      const row = rows.get(link.code) ?? {
+        code: link.code,
+        framework: link.framework,
+        label: link.label,
+        taught: [],
+        assessed: [],
+        status: 'taught-only' as const
+      };
+      if (link.target.kind === 'week') {
+        if (!row.taught.includes(link.target.weekIndex)) {row.taught.push(link.target.weekIndex);}
+      } else if (!row.assessed.includes(link.target.assignmentId)) {
+        row.assessed.push(link.target.assignmentId);
+      }
+      rows.set(link.code, row);
+    });
+
+  const ordered = Array.from(rows.values())
+    .map((row): CoverageRow => ({
+      ...row,
+      taught: row.taught.sort((a, b) => a - b),
+      status: row.taught.length && row.assessed.length
+        ? 'taught-and-assessed'
+        : row.taught.length ? 'taught-only' : 'assessed-only'
+    }))
+    .sort((a, b) => a.code.localeCompare(b.code));
+
+  return {
+    weeks: (showcase.runOfShow || []).map((week, index) => ({ index, label: week.weekLabel || `Week ${index + 1}` })),
+    assignments: (showcase.assignments || []).map(a => ({ id: a.id, title: a.title })),
+    rows: ordered,
+    summary: {
+      taughtAndAssessed: ordered.filter(r => r.status === 'taught-and-assessed').length,
+      taughtOnly: ordered.filter(r => r.status === 'taught-only').length,
+      assessedOnly: ordered.filter(r => r.status === 'assessed-only').length
+    }
+  };
+}
+
+export class StandardsAlignmentService {
+  /**
+   * Run an alignment pass and return the showcase with merged proposals.
+   */
+  async proposeAlignments(showcase: ProjectShowcaseV2, options: AlignmentProposalOptions = {}): Promise<ProjectShowcaseV2> {
+    const proposals = await this.generateProposals(showcase, options);
+    return {
+      ...showcase,
+      standardsAlignment: mergeAlignmentProposals(showcase.standardsAlignment, proposals)
+    };
+  }
+
+  async generateProposals(showcase: ProjectShowcaseV2, options: AlignmentProposalOptions = {}): Promise<StandardAlignmentLink[]> {
+    const maxPerTarget = options.maxPerTarget ?? DEFAULT_MAX_PER_TARGET;
+    const targets = listAlignmentTargets(showcase);
+    if (!targets.length) {return [];}
+
+    const gradeLevel = GRADE_BAND_LEVELS[showcase.hero?.gradeBand] || undefined;
+    const frameworks = options.frameworks?.length
+      ? options.frameworks
+      : await this.defaultFrameworks(showcase.hero?.subjects || []);
+
+    // Ranked catalog matches per target double as the candidate list and the fallback
+    const matches = new Map<string, CatalogStandard[]>();
+    const candidates = new Map<string, CatalogStandard>();
+    for (const info of targets) {
+      const perTarget: CatalogStandard[] = [];
+      for (const framework of frameworks) {
+        perTarget.push(...await standardsCatalog.search(framework, info.text, { gradeLevel, limit: CANDIDATES_PER_TARGET }));
+      }
+      matches.set(info.key, perTarget);
+      perTarget.forEach(standard => {
+        if (candidates.size < MAX_CANDIDATES && !candidates.has(standard.code)) {candidates.set(standard.code, standard);}
+      });
+    }
+    if (!candidates.size) {
+      console.warn('[StandardsAlignmentService] No catalog candidates for', frameworks);
+      return [];
+    }
+
+    const suggestion = await this.askModel(showcase, targets, Array.from(candidates.values()));
+    const targetByKey = new Map(targets.map(info => [info.key, info]));
+    const links: StandardAlignmentLink[] = [];
+    const perTargetCount = new Map<string, number>();
+
+    const push = (key: string, standard: CatalogStandard, rationale: string, confidence: number, source: StandardAlignmentLink['source']) => {
+      const info = targetByKey.get(key);
+      if (!info || (perTargetCount.get(key) ?? 0) >= maxPerTarget) {return;}
+      const id = linkId(standard.code, info.target);
+      if (links.some(link => link.id === id)) {return;}
+      perTargetCount.set(key, (perTargetCount.get(key) ?? 0) + 1);
+      links.push({
+        id,
+        code: standard.code,
+        framework: standard.framework,
+        label: standard.label,
+        target: info.target,
+        rationale,
+        confidence: Math.max(0, Math.min(1, confidence)),
+        status: 'proposed',
+        source
+      });
+    };
+
+    if (suggestion) {
+      suggestion.alignments
+        .slice()
+        .sort((a, b) => b.confidence - a.confidence)
+        .forEach(item => {
+          const standard = candidates.get(item.code.trim());
+          if (standard) {push(item.target.trim(), standard, item.rationale.trim(), item.confidence, 'ai');}
+        });
+    } else {
+      matches.forEach((standards, key) => {
+        standards.slice(0, maxPerTarget).forEach((standard, rank) => {
+          push(key, standard, `Shares key terms with "${standard.label}".`, 0.5 - rank * 0.1, 'catalog');
+        });
+      });
+    }
+
+    console.log(`[StandardsAlignmentService] Proposed ${links.length} links across ${targets.length} targets (${suggestion ? 'ai' : 'catalog'})`);
+    return links;
+  }
+
+  private async defaultFrameworks(subjects: string[]): Promise<string[]> {
+    const frameworks = (await standardsCatalog.listFrameworks()).filter(meta => meta.id !== 'CUSTOM');
+    const wanted = subjects.map(s => s.toLowerCase());
+    const matching = frameworks.filter(meta => meta.subjects.some(subject => {
+      const lower = subject.toLowerCase();
+      return wanted.some(w => lower.includes(w) || w.includes(lower));
+    }));
+    return (matching.length ? matching : frameworks).map(meta => meta.id);
+  }
+
+  private async askModel(
+    showcase: ProjectShowcaseV2,
+    targets: AlignmentTargetInfo[],
+    candidates: CatalogStandard[]
+  ): Promise<StandardsAlignmentSuggestion | null> {
+    const targetLines = targets
+      .map(info => `${info.key} — ${info.label}: ${info.text.slice(0, 220)}`)
+      .join('\n');
+    const candidateLines = candidates
+      .map(s => `${s.framework} ${s.code} — ${s.label}: ${s.description.slice(0, 160)}`)
+      .join('\n');
+
+    const prompt = `Align this PBL project to academic standards.
+
+PROJECT:
+- Title: ${showcase.hero?.title || ''}
+- Tagline: ${showcase.hero?.tagline || ''}
+- Grade band: ${showcase.hero?.gradeBand || ''}
+- Subjects: ${(showcase.hero?.subjects || []).join(', ')}
+
+TARGETS (week:* are taught; assignment:* and criterion:* are assessed):
+${targetLines}
+
+CANDIDATE STANDARDS (use only these codes):
+${candidateLines}
+
+For each target, propose up to 3 standards it genuinely teaches or assesses. Skip targets with no real fit.
+Rationale: one sentence, 25 words max, naming the activity or evidence. Confidence: 0 to 1.
+
+OUTPUT FORMAT (JSON):
+{
+  "alignments": [
+    { "target": "week:0", "code": "...", "rationale": "...", "confidence": 0.8 }
+  ]
+}
+
+Return ONLY valid JSON.`;
+
+    const { data } = await generateStructuredAI({
+      prompt,
+      schema: zStandardsAlignmentSuggestion,
+      expectedFormat: '{ "alignments": [{ "target": "week:0", "code": "...", "rationale": "...", "confidence": 0.8 }] }',
+      stage: 'DELIVERABLES',
+      wizard: {
+        subjects: showcase.hero?.subjects,
+        gradeLevel: showcase.hero?.gradeBand,
+        projectTopic: showcase.hero?.title
+      },
+      heuristic: raw => {
+        const parsed = zStandardsAlignmentSuggestion.safeParse(parseLooseJSON(raw));
+        return parsed.success ? parsed.data : null;
+      },
+      options: { label: 'standards_alignment', temperature: 0.3, maxTokens: 1500 }
+    });
+
+    return data;
+  }
+}
+
+export const standardsAlignmentService = new StandardsAlignmentService();
@@ -0,0 +1,602 @@
+/**
+ * Standards Catalog
+ *
+ * IndexedDB-backed catalog of academic standards, fed by importers for
+ * 1EdTech CASE packages (JSON) and a simple CSV format for state standards.
+ * The hand-written STANDARDS_DATABASE is registered as built-in seed data.
+ *
+ * Storage ('standards' store in alf-coach-db):
+ * - 'manifest'            → CatalogFrameworkMeta[] for imported frameworks
+ * - 'framework:{id}'      → { meta, standards } for one framework
+ *
+ * Loading:
+ * - The manifest and built-in seed standards load once, on first use
+ * - Frameworks load lazily on first search
+ * - Each loaded framework gets grade/subject indexes and a term index
+ * - Without IndexedDB (tests, private mode) imports live in memory only
+ *
+ * Search:
+ * - Ranked by code match, then TF-IDF over label (x3) and description (x1)
+ * - The last query term also matches as a prefix for type-ahead
+ */
+
+import { idb } from './IndexedDBStore';
+
+export type CatalogSource = 'builtin' | 'case' | 'csv';
+
+export interface CatalogStandard {
+  id: string;
+  framework: string;
+  code: string;
+  label: string;
+  description: string;
+  gradeLevel: string[];
+  subjects: string[];
+}
+
+export interface CatalogFrameworkMeta {
+  id: string;
+  title: string;
+  source: CatalogSource;
+  count: number;
+  grades: string[];
+  subjects: string[];
+  version?: string;
+  importedAt?: number;
+}
+
+export interface CatalogSearchOptions {
+  gradeLevel?: string;
+  subjects?: string[];
+  limit?: number;
+}
+
+export interface CatalogImportOptions {
+  framework?: string;    // Catalog id, e.g. 'NGSS' or 'TX-TEKS' (derived when omitted)
+  title?: string;
+  subjects?: string[];   // Applied when the package has none
+}
+
+export interface CatalogImportResult {
+  framework: string;
+  imported: number;
+  skipped: number;
+}
+
+// Subset of the CASE 1.0 CFPackage shape that the importer reads
+interface CFItem {
+  identifier: string;
+  humanCodingScheme?: string;
+  fullStatement?: string;
+  abbreviatedStatement?: string;
+  CFItemType?: string;
+  educationLevel?: string[];
+  subject?: string[];
+}
+
+interface CFAssociation {
+  associationType?: string;
+  originNodeURI?: { identifier?: string };
+  destinationNodeURI?: { identifier?: string };
+}
+
+interface CFPackage {
+  CFDocument?: { title?: string; version?: string; adoptionStatus?: string; subject?: string[] };
+  CFItems?: CFItem[];
+  CFAssociations?: CFAssociation[];
+}
+
+interface StoredFramework {
+  meta: CatalogFrameworkMeta;
+  standards: CatalogStandard[];
+}
+
+interface FrameworkIndex extends StoredFramework {
+  terms: Map<string, Map<number, number>>;  // term → (standard index → weighted frequency)
+  byGrade: Map<string, Set<number>>;
+  bySubject: Map<string, Set<number>>;
+}
+
+const STORE = 'standards';
+const MANIFEST_KEY = 'manifest';
+const LABEL_WEIGHT = 3;
+const DESCRIPTION_WEIGHT = 1;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'into', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'their', 'to', 'use', 'using', 'with'
+]);
+
+const GRADE_ORDER = ['PK', 'K', '1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'];
+
+const GRADE_BANDS: Array<[RegExp, string[]]> = [
+  [/pre-?k|preschool/i, ['PK']],
+  [/kinder/i, ['K']],
+  [/elementary|primary/i, GRADE_ORDER.slice(1, 7)],
+  [/middle/i, ['6', '7', '8']],
+  [/high/i, ['9', '10', '11', '12']]
+];
+
+function tokenize(text: string): string[] {
+  return String(text || '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(token => (token.length > 4 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+function normalizeGrade(raw: string): string | null {
+  const value = String(raw || '').trim().toUpperCase();
+  if (!value) {return null;}
+  if (value === 'KG' || value === 'K' || value === 'KINDERGARTEN') {return 'K';}
+  if (value === 'PK' || value === 'PRE-K' || value === 'PREK') {return 'PK';}
+  const numeric = value.replace(/^GRADE\s*/, '').replace(/^0+(?=\d)/, '');
+  return GRADE_ORDER.includes(numeric) ? numeric : null;
+}
+
+/**
+ * Expand "6-8", "K–2", "9;10", "Middle School (6-8)" or "7" to grade codes.
+ */
+export function expandGrades(raw?: string | string[]): string[] {
+  if (!raw) {return [];}
+  const parts = Array.isArray(raw) ? raw : String(raw).split(/[;,|/]/);
+  const grades = new Set<string>();
+
+  parts.forEach(part => {
+    const range = part.match(/(pk|k|\d{1,2})\s*[-–—]\s*(k|\d{1,2})/i);
+    if (range) {
+      const start = GRADE_ORDER.indexOf(normalizeGrade(range[1]) || '');
+      const end = GRADE_ORDER.indexOf(normalizeGrade(range[2]) || '');
+      if (start !== -1 && end >= start) {
+        GRADE_ORDER.slice(start, end + 1).forEach(g => grades.add(g));
+        return;
+      }
+    }
+    const single = normalizeGrade(part);
+    if (single) {
+      grades.add(single);
+      return;
+    }
+    GRADE_BANDS.forEach(([pattern, band]) => {
+      if (pattern.test(part)) {band.forEach(g => grades.add(g));}
+    });
+  });
+
+  return GRADE_ORDER.filter(g => grades.has(g));
+}
+
+function uniqueSorted(values: string[], order?: string[]): string[] {
+  const unique = Array.from(new Set(values.filter(Boolean)));
+  return order ? unique.sort((a, b) => order.indexOf(a) - order.indexOf(b)) : unique.sort();
+}
+
+function buildMeta(id: string, title: string, source: CatalogSource, standards: CatalogStandard[], extra: Partial<CatalogFrameworkMeta> = {}): CatalogFrameworkMeta {
+  return {
+    id,
+    title,
+    source,
+    count: standards.length,
+    grades: uniqueSorted(standards.flatMap(s => s.gradeLevel), GRADE_ORDER),
+    subjects: uniqueSorted(standards.flatMap(s => s.subjects)),
+    ...extra
+  };
+}
+
+function buildIndex(stored: StoredFramework): FrameworkIndex {
+  const terms = new Map<string, Map<number, number>>();
+  const byGrade = new Map<string, Set<number>>();
+  const bySubject = new Map<string, Set<number>>();
+
+  const addTerms = (text: string, index: number, weight: number) => {
+    tokenize(text).forEach(term => {
+      const postings = terms.get(term) ?? new Map<number, number>();
+      postings.set(index, (postings.get(index) ?? 0) + weight);
+      terms.set(term, postings);
+    });
+  };
+  const addTo = (map: Map<string, Set<number>>, key: string, index: number) => {
+    const set = map.get(key) ?? new Set<number>();
+    set.add(index);
+    map.set(key, set);
+  };
+
+  stored.standards.forEach((standard, index) => {
+    addTerms(standard.label, index, LABEL_WEIGHT);
+    addTerms(standard.description, index, DESCRIPTION_WEIGHT);
+    standard.gradeLevel.forEach(grade => addTo(byGrade, grade, index));
+    standard.subjects.forEach(subject => addTo(bySubject, subject.toLowerCase(), index));
+  });
+
+  return { ...stored, terms, byGrade, bySubject };
+}
+
+/**
+ * Minimal RFC 4180 CSV reader (quoted fields, escaped quotes, CRLF).
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {i++;}
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+/**
+ * Map a CASE document title to a catalog id for well-known frameworks.
+ */
+function deriveFrameworkId(title: string, fallback: string): string {
+  const lower = title.toLowerCase();
+  if (lower.includes('next generation science')) {return 'NGSS';}
+  if (lower.includes('common core') && /math/.test(lower)) {return 'CCSS-MATH';}
+  if (lower.includes('common core') && /(english|literacy|ela)/.test(lower)) {return 'CCSS-ELA';}
+  const slug = title.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+  return slug || fallback;
+}
+
+export class StandardsCatalog {
+  private builtins = new Map<string, StoredFramework>();
+  private imported = new Map<string, CatalogFrameworkMeta>();
+  private loaded = new Map<string, FrameworkIndex>();
+  private pending = new Map<string, Promise<FrameworkIndex | null>>();
+  private memoryStore = new Map<string, StoredFramework>();  // Used when IndexedDB is unavailable
+  private manifestPromise: Promise<void> | null = null;
+
+  /**
+   * Register hand-written seed standards. Imported frameworks with the same id win.
+   */
+  registerBuiltins(database: Record<string, Array<Omit<CatalogStandard, 'id' | 'framework'>>>): void {
+    Object.entries(database).forEach(([framework, entries]) => {
+      if (!entries.length) {return;}
+      const standards = entries.map(entry => ({ ...entry, id: `${framework}:${entry.code}`, framework }));
+      this.builtins.set(framework, { meta: buildMeta(framework, framework, 'builtin', standards), standards });
+      if (!this.imported.has(framework)) {
+        this.loaded.delete(framework);
+      }
+    });
+  }
+
+  async listFrameworks(): Promise<CatalogFrameworkMeta[]> {
+    await this.loadManifest();
+    const metas = new Map<string, CatalogFrameworkMeta>();
+    this.builtins.forEach((stored, id) => metas.set(id, stored.meta));
+    this.imported.forEach((meta, id) => metas.set(id, meta));
+    return Array.from(metas.values());
+  }
+
+  /**
+   * Import a 1EdTech CASE package (CFPackage JSON, as served by /CFPackages/{id}).
+   */
+  async importCASE(pkg: unknown, options: CatalogImportOptions = {}): Promise<CatalogImportResult> {
+    const root = ((pkg as { CFPackage?: CFPackage } | null)?.CFPackage ?? pkg) as CFPackage | null;
+    const document = root?.CFDocument;
+    const items = Array.isArray(root?.CFItems) ? root.CFItems : [];
+    if (!document || !items.length) {
+      throw new Error('Not a CASE package: expected CFDocument and CFItems');
+    }
+
+    const title = options.title || document.title || 'Imported standards';
+    const framework = options.framework || deriveFrameworkId(String(document.title || ''), 'CASE');
+    const docSubjects: string[] = Array.isArray(document.subject) ? document.subject : options.subjects || [];
+
+    // isChildOf associations give us parents for labels and inherited grades
+    const byId = new Map<string, CFItem>(items.map(item => [item.identifier, item]));
+    const parentOf = new Map<string, string>();
+    (Array.isArray(root?.CFAssociations) ? root.CFAssociations : []).forEach(assoc => {
+      const child = assoc?.originNodeURI?.identifier;
+      const parent = assoc?.destinationNodeURI?.identifier;
+      if (assoc?.associationType === 'isChildOf' && child && parent) {
+        parentOf.set(child, parent);
+      }
+    });
+    const ancestors = (id: string): CFItem[] => {
+      const chain: CFItem[] = [];
+      let current = parentOf.get(id);
+      let parent = current ? byId.get(current) : undefined;
+      while (parent && chain.length < 10) {
+        chain.push(parent);
+        current = parentOf.get(parent.identifier);
+        parent = current ? byId.get(current) : undefined;
+      }
+      return chain;
+    };
+
+    const coded = items.filter(item => item?.humanCodingScheme && item?.fullStatement);
+    const candidates = coded.length ? coded : items.filter(item => item?.fullStatement);
+    const standards: CatalogStandard[] = [];
+
+    candidates.forEach(item => {
+      const lineage = ancestors(item.identifier);
+      const code = String(item.humanCodingScheme || item.identifier).trim();
+      const grades = expandGrades(item.educationLevel ?? lineage.find(a => a.educationLevel)?.educationLevel);
+      const parentStatement = lineage.find(a => a.fullStatement)?.fullStatement;
+      standards.push({
+        id: `${framework}:${code}`,
+        framework,
+        code,
+        label: String(item.abbreviatedStatement || parentStatement || item.CFItemType || code).trim(),
+        description: String(item.fullStatement).trim(),
+        gradeLevel: grades,
+        subjects: Array.isArray(item.subject) && item.subject.length ? item.subject : docSubjects
+      });
+    });
+
+    await this.saveFramework(framework, title, 'case', standards, document.version || document.adoptionStatus);
+    return { framework, imported: standards.length, skipped: items.length - standards.length };
+  }
+
+  /**
+   * Import state standards from CSV with a header row:
+   *   code,label,description,grades,subjects
+   * grades accepts "6-8" or "6;7;8"; subjects are ';'-separated.
+   */
+  async importCSV(text: string, options: CatalogImportOptions = {}): Promise<CatalogImportResult> {
+    const rows = parseCSV(text);
+    const header = (rows.shift() || []).map(cell => cell.trim().toLowerCase());
+    const column = (...names: string[]) => header.findIndex(h => names.includes(h));
+    const cols = {
+      code: column('code', 'id', 'standard'),
+      label: column('label', 'title', 'strand'),
+      description: column('description', 'statement', 'text'),
+      grades: column('grades', 'grade', 'gradelevel', 'grade_level'),
+      subjects: column('subjects', 'subject')
+    };
+    if (cols.code === -1 || cols.description === -1) {
+      throw new Error('CSV needs at least "code" and "description" columns');
+    }
+
+    const framework = options.framework || 'STATE';
+    const standards: CatalogStandard[] = [];
+    let skipped = 0;
+
+    rows.forEach(row => {
+      const code = (row[cols.code] || '').trim();
+      const description = (row[cols.description] || '').trim();
+      if (!code || !description) {
+        skipped++;
+        return;
+      }
+      const subjects = cols.subjects === -1 ? [] : (row[cols.subjects] || '').split(/[;|]/).map(s => s.trim()).filter(Boolean);
+      standards.push({
+        id: `${framework}:${code}`,
+        framework,
+        code,
+        label: (cols.label === -1 ? '' : (row[cols.label] || '').trim()) || code,
+        description,
+        gradeLevel: cols.grades === -1 ? [] : expandGrades(row[cols.grades]),
+        subjects: subjects.length ? subjects : options.subjects || []
+      });
+    });
+
+    await this.saveFramework(framework, options.title || framework, 'csv', standards);
+    return { framework, imported: standards.length, skipped };
+  }
+
+  async removeFramework(framework: string): Promise<void> {
+    await this.loadManifest();
+    this.imported.delete(framework);
+    this.loaded.delete(framework);
+    this.memoryStore.delete(framework);
+    await this.persist(async () => {
+      await idb.remove(STORE, `framework:${framework}`);
+      await idb.set(STORE, MANIFEST_KEY, Array.from(this.imported.values()));
+    });
+  }
+
+  /**
+   * Ranked search within one framework.
+   */
+  async search(framework: string, query: string, options: CatalogSearchOptions = {}): Promise<CatalogStandard[]> {
+    const index = await this.loadFramework(framework);
+    if (!index) {return [];}
+
+    const candidates = this.filterCandidates(index, options);
+    const terms = tokenize(query);
+    const trimmed = query.trim().toLowerCase();
+
+    if (!trimmed) {
+      const ordered = Array.from(candidates).sort((a, b) => a - b).map(i => index.standards[i]);
+      return options.limit ? ordered.slice(0, options.limit) : ordered;
+    }
+
+    const scores = new Map<number, number>();
+    const bump = (i: number, amount: number) => {
+      if (candidates.has(i)) {scores.set(i, (scores.get(i) ?? 0) + amount);}
+    };
+
+    index.standards.forEach((standard, i) => {
+      const code = standard.code.toLowerCase();
+      if (code === trimmed) {bump(i, 100);}
+      else if (code.startsWith(trimmed) || code.endsWith(trimmed)) {bump(i, 40);}
+      else if (trimmed.length >= 3 && code.includes(trimmed)) {bump(i, 15);}
+    });
+
+    const total = index.standards.length;
+    terms.forEach((term, position) => {
+      const isLast = position === terms.length - 1;
+      const matches: Array<[string, number]> = index.terms.has(term)
+        ? [[term, 1]]
+        : isLast ? Array.from(index.terms.keys()).filter(t => t.startsWith(term)).map(t => [t, 0.5]) : [];
+
+      matches.forEach(([matched, factor]) => {
+        const postings = index.terms.get(matched);
+        if (!postings) {return;}
+        const idf = Math.log(1 + total / postings.size);
+        postings.forEach((weight, i) => bump(i, idf * weight * factor));
+      });
+    });
+
+    const ranked = Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+      .map(([i]) => index.standards[i]);
+
+    return options.limit ? ranked.slice(0, options.limit) : ranked;
+  }
+
+  /**
+   * Standards matching grade + subjects across every framework whose
+   * manifest entry overlaps, loading only those frameworks.
+   */
+  async recommend(gradeLevel: string, subjects: string[], perFramework = 3): Promise<Array<{ framework: string; standards: CatalogStandard[] }>> {
+    const grades = expandGrades(gradeLevel);
+    const wanted = subjects.map(s => s.toLowerCase());
+    const frameworks = (await this.listFrameworks()).filter(meta => {
+      const gradeOverlap = !grades.length || !meta.grades.length || meta.grades.some(g => grades.includes(g));
+      const subjectOverlap = meta.subjects.some(s => wanted.some(w => s.toLowerCase().includes(w) || w.includes(s.toLowerCase())));
+      return gradeOverlap && subjectOverlap;
+    });
+
+    const results: Array<{ framework: string; standards: CatalogStandard[] }> = [];
+    for (const meta of frameworks) {
+      const standards = await this.search(meta.id, '', { gradeLevel, subjects, limit: perFramework });
+      if (standards.length) {
+        results.push({ framework: meta.id, standards });
+      }
+    }
+    return results;
+  }
+
+  private filterCandidates(index: FrameworkIndex, options: CatalogSearchOptions): Set<number> {
+    let candidates = new Set(index.standards.map((_, i) => i));
+
+    const grades = expandGrades(options.gradeLevel);
+    if (grades.length) {
+      const byGrade = new Set<number>();
+      grades.forEach(g => index.byGrade.get(g)?.forEach(i => byGrade.add(i)));
+      // Standards without grade metadata apply to every grade
+      index.standards.forEach((s, i) => { if (!s.gradeLevel.length) {byGrade.add(i);} });
+      candidates = new Set(Array.from(candidates).filter(i => byGrade.has(i)));
+    }
+
+    const subjects = (options.subjects || []).map(s => s.toLowerCase()).filter(Boolean);
+    if (subjects.length) {
+      const bySubject = new Set<number>();
+      index.bySubject.forEach((set, subject) => {
+        if (subjects.some(w => subject.includes(w) || w.includes(subject))) {
+          set.forEach(i => bySubject.add(i));
+        }
+      });
+      candidates = new Set(Array.from(candidates).filter(i => bySubject.has(i)));
+    }
+
+    return candidates;
+  }
+
+  private async loadFramework(framework: string): Promise<FrameworkIndex | null> {
+    const cached = this.loaded.get(framework);
+    if (cached) {return cached;}
+    const inflight = this.pending.get(framework);
+    if (inflight) {return inflight;}
+
+    const load = (async () => {
+      await this.loadManifest();
+      let stored: StoredFramework | null = null;
+      if (this.imported.has(framework)) {
+        stored = this.memoryStore.get(framework) ?? await this.read(`framework:${framework}`);
+      }
+      stored = stored ?? this.builtins.get(framework) ?? null;
+      const index = stored ? buildIndex(stored) : null;
+      if (index) {this.loaded.set(framework, index);}
+      return index;
+    })();
+
+    this.pending.set(framework, load);
+    try {
+      return await load;
+    } finally {
+      this.pending.delete(framework);
+    }
+  }
+
+  private async saveFramework(framework: string, title: string, source: CatalogSource, standards: CatalogStandard[], version?: string): Promise<void> {
+    if (!standards.length) {
+      throw new Error(`No standards found to import for ${framework}`);
+    }
+    await this.loadManifest();
+
+    const meta = buildMeta(framework, title, source, standards, { version, importedAt: Date.now() });
+    const stored: StoredFramework = { meta, standards };
+    this.imported.set(framework, meta);
+    this.loaded.set(framework, buildIndex(stored));
+
+    const persisted = await this.persist(async () => {
+      await idb.set(STORE, `framework:${framework}`, stored);
+      await idb.set(STORE, MANIFEST_KEY, Array.from(this.imported.values()));
+    });
+    if (!persisted) {
+      this.memoryStore.set(framework, stored);
+    }
+    console.log(`[StandardsCatalog] Imported ${standards.length} ${framework} standards from ${source.toUpperCase()}`);
+  }
+
+  private loadManifest(): Promise<void> {
+    if (!this.manifestPromise) {
+      const manifest = this.read<CatalogFrameworkMeta[]>(MANIFEST_KEY).then(metas => {
+        (metas || []).forEach(meta => {
+          if (!this.imported.has(meta.id)) {this.imported.set(meta.id, meta);}
+        });
+      });
+      // The seed module registers itself on import; load it here so callers
+      // that never touch data/standardsDatabase still see the built-ins
+      const builtins = import('../data/standardsDatabase').then(
+        () => undefined,
+        error => console.warn('[StandardsCatalog] Built-in standards failed to load:', error)
+      );
+      this.manifestPromise = Promise.all([manifest, builtins]).then(() => undefined);
+    }
+    return this.manifestPromise;
+  }
+
+  private async read<T>(key: string): Promise<T | null> {
+    if (typeof indexedDB === 'undefined') {return null;}
+    try {
+      return await idb.get<T>(STORE, key);
+    } catch (error) {
+      console.warn('[StandardsCatalog] IndexedDB read failed:', error);
+      return null;
+    }
+  }
+
+  private async persist(write: () => Promise<void>): Promise<boolean> {
+    if (typeof indexedDB === 'undefined') {return false;}
+    try {
+      await write();
+      return true;
+    } catch (error) {
+      console.warn('[StandardsCatalog] IndexedDB write failed, keeping catalog in memory:', error);
+      return false;
+    }
+  }
+}
+
+export const standardsCatalog = new StandardsCatalog();
@@ -0,0 +1,156 @@
+/**
+ * Student Language Service
+ *
+ * A project has two languages:
+ * - the UI language (teacher-facing text: setup, checkpoints, planning)
+ * - the student language (directions, success criteria, evidence, family
+ *   letters), set per project as showcase.studentLanguage
+ *
+ * When they differ, each assignment carries a `localized` copy of its
+ * student-facing fields. Handouts print that copy; the bilingual export
+ * prints both side by side. The card's own fields are never overwritten,
+ * so switching the student language back is lossless.
+ */
+
+import type { AssignmentCard, LocalizedStudentText, ProjectShowcaseV2 } from '../types/showcaseV2';
+import { getLocale, languageName, type Locale } from '../i18n';
+import { generateStructuredAI, parseLooseJSON } from '../features/chat-mvp/domain/structuredAI';
+import { zStudentLanguageAssignments, type StudentAssignmentText } from '../types/zod-schemas';
+
+export function resolveStudentLanguage(showcase: ProjectShowcaseV2, uiLocale: Locale = getLocale()): Locale {
+  return showcase.studentLanguage ?? uiLocale;
+}
+
+/**
+ * Prompt lines that keep teacher-facing and student-facing text in their
+ * own languages. Shared by every generator that writes for both audiences.
+ */
+export function languageInstruction(studentLocale: Locale, uiLocale: Locale = getLocale()): string {
+  const teacher = languageName(uiLocale);
+  const student = languageName(studentLocale);
+  if (teacher === student) {
+    return `Write everything in ${teacher}.`;
+  }
+  return `Write teacher-facing text in ${teacher}. Write student- and family-facing text in ${student}, in plain language a ${student}-speaking family would use at home.`;
+}
+
+/**
+ * Student-facing fields of an assignment in the requested language, falling
+ * back to the card's own text when no localized copy exists for it.
+ */
+export function studentText(assignment: AssignmentCard, locale: Locale): Omit<LocalizedStudentText, 'locale'> {
+  if (assignment.localized?.locale === locale) {
+    const { locale: _locale, ...text } = assignment.localized;
+    return text;
+  }
+  return {
+    title: assignment.title,
+    summary: assignment.summary,
+    studentDirections: assignment.studentDirections,
+    successCriteria: assignment.successCriteria,
+    evidence: assignment.evidence
+  };
+}
+
+export function hasStudentText(assignment: AssignmentCard, locale: Locale): boolean {
+  return assignment.localized?.locale === locale;
+}
+
+export function applyStudentText(
+  showcase: ProjectShowcaseV2,
+  locale: Locale,
+  texts: StudentAssignmentText[]
+): ProjectShowcaseV2 {
+  const byId = new Map(texts.map(text => [text.id, text]));
+  return {
+    ...showcase,
+    studentLanguage: locale,
+    assignments: showcase.assignments.map(assignment => {
+      const text = byId.get(assignment.id);
+      if (!text) {return assignment;}
+      return {
+        ...assignment,
+        localized: {
+          locale,
+          title: text.title,
+          summary: text.summary,
+          studentDirections: text.studentDirections,
+          successCriteria: text.successCriteria,
+          evidence: text.evidence.length ? text.evidence : assignment.evidence
+        }
+      };
+    })
+  };
+}
+
+export class StudentLanguageService {
+  /**
+   * Write every assignment's student-facing fields in `locale` and set it as
+   * the project's student language. There is no offline fallback for a
+   * translation, so this throws when the model returns nothing usable.
+   */
+  async localizeShowcase(showcase: ProjectShowcaseV2, locale: Locale): Promise<ProjectShowcaseV2> {
+    if (!showcase.assignments.length) {
+      return { ...showcase, studentLanguage: locale };
+    }
+
+    const { data } = await generateStructuredAI({
+      prompt: this.buildPrompt(showcase, locale),
+      schema: zStudentLanguageAssignments,
+      expectedFormat: '{ "assignments": [{ "id": "A1", "title": "...", "summary": "...", "studentDirections": ["..."], "successCriteria": ["..."], "evidence": ["..."] }] }',
+      stage: 'DELIVERABLES',
+      wizard: {
+        subjects: showcase.hero?.subjects,
+        gradeLevel: showcase.hero?.gradeBand,
+        projectTopic: showcase.hero?.title
+      },
+      heuristic: raw => {
+        const parsed = zStudentLanguageAssignments.safeParse(parseLooseJSON(raw));
+        return parsed.success ? parsed.data : null;
+      },
+      options: { label: 'student_language', temperature: 0.3, maxTokens: 2500 }
+    });
+
+    if (!data) {
+      throw new Error(`Could not write student materials in ${languageName(locale)}`);
+    }
+    console.log(`[StudentLanguageService] Localized ${data.assignments.length} assignments to ${locale}`);
+    return applyStudentText(showcase, locale, data.assignments);
+  }
+
+  private buildPrompt(showcase: ProjectShowcaseV2, locale: Locale): string {
+    const language = languageName(locale);
+    const cards = showcase.assignments.map(assignment => ({
+      id: assignment.id,
+      title: assignment.title,
+      summary: assignment.summary,
+      studentDirections: assignment.studentDirections,
+      successCriteria: assignment.successCriteria,
+      evidence: assignment.evidence
+    }));
+
+    return `Rewrite the student-facing text of these PBL assignment cards in ${language}.
+
+PROJECT: ${showcase.hero?.title || ''} (grade band ${showcase.hero?.gradeBand || ''})
+
+RULES:
+- Write for students in this grade band, not a word-for-word translation
+- Keep the same number of directions and success criteria, in the same order
+- Success criteria stay first-person "I can" statements in ${language}
+- Keep each card's id unchanged
+
+ASSIGNMENTS:
+${JSON.stringify(cards, null, 2)}
+
+OUTPUT FORMAT (JSON):
+{
+  "assignments": [
+    { "id": "A1", "title": "...", "summary": "...", "studentDirections": ["..."], "successCriteria": ["..."], "evidence": ["..."] }
+  ]
+}
+
+Return ONLY valid JSON.`;
+  }
+}
+
+export const studentLanguageService = new StudentLanguageService();
@@ -0,0 +1,65 @@
+/**
+ * Telemetry Sinks
+ *
+ * Destinations for batched telemetry uploads. The telemetry service reads
+ * pending events from TelemetryStore and hands them to one sink; a batch is
+ * only marked uploaded once `send` resolves.
+ *
+ * - HttpTelemetrySink:   POSTs to the Netlify `telemetry` function
+ * - MemoryTelemetrySink: collects batches in memory (tests, local debugging)
+ */
+
+import type { TelemetryEvent } from './telemetry';
+
+export interface TelemetrySink {
+  readonly name: string;
+  send(events: TelemetryEvent[]): Promise<void>;
+}
+
+export const DEFAULT_TELEMETRY_ENDPOINT = '/.netlify/functions/telemetry';
+
+export class HttpTelemetrySink implements TelemetrySink {
+  readonly name = 'http';
+
+  constructor(private readonly endpoint: string = DEFAULT_TELEMETRY_ENDPOINT) {}
+
+  async send(events: TelemetryEvent[]): Promise<void> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ events }),
+      // Lets the final flush on pagehide complete after the tab goes away
+      keepalive: true
+    });
+    if (!response.ok) {
+      throw new Error(`Telemetry upload failed (HTTP ${response.status})`);
+    }
+  }
+}
+
+export class MemoryTelemetrySink implements TelemetrySink {
+  readonly name = 'memory';
+  readonly batches: TelemetryEvent[][] = [];
+  failNext = 0;
+
+  async send(events: TelemetryEvent[]): Promise<void> {
+    if (this.failNext > 0) {
+      this.failNext--;
+      throw new Error('Telemetry sink unavailable');
+    }
+    this.batches.push(events.map(event => ({ ...event })));
+  }
+
+  get events(): TelemetryEvent[] {
+    return this.batches.flat();
+  }
+}
+
+/**
+ * Sink chosen from env: uploads are opt-in via VITE_TELEMETRY_UPLOAD=true,
+ * VITE_TELEMETRY_ENDPOINT overrides the function URL.
+ */
+export function createDefaultTelemetrySink(): TelemetrySink | null {
+  if (import.meta.env?.VITE_TELEMETRY_UPLOAD !== 'true') {return null;}
+  return new HttpTelemetrySink(import.meta.env?.VITE_TELEMETRY_ENDPOINT || DEFAULT_TELEMETRY_ENDPOINT);
+}
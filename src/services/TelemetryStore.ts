@@ -0,0 +1,195 @@
+/**
+ * Telemetry Store
+ *
+ * Durable, bounded log of telemetry events so save-failure and AI-fallback
+ * rates can be measured across sessions, not just the current tab.
+ *
+ * Layout ('telemetry' store in alf-coach-db):
+ * - `meta`       → { nextSeq, firstSegment, uploadedSeq, dropped }
+ * - `segment:N`  → events with seq in [N * segmentSize, (N + 1) * segmentSize)
+ *
+ * Rotation:
+ * - At most `maxSegments` segments are kept; the oldest is dropped whole
+ * - Events rotated out before upload are counted in `dropped`
+ *
+ * Falls back to an in-memory map when IndexedDB is unavailable (tests, SSR,
+ * private browsing) so callers never have to branch.
+ */
+
+import { idb } from './IndexedDBStore';
+import type { TelemetryEvent } from './telemetry';
+
+export interface StoredTelemetryEvent extends TelemetryEvent {
+  seq: number;
+}
+
+export interface TelemetryStoreMeta {
+  nextSeq: number;
+  firstSegment: number;
+  uploadedSeq: number;
+  dropped: number;
+}
+
+export interface TelemetryKeyValue {
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+export interface TelemetryStoreOptions {
+  backend?: TelemetryKeyValue;
+  segmentSize?: number;
+  maxSegments?: number;
+}
+
+const STORE = 'telemetry';
+const META_KEY = 'meta';
+const EMPTY_META: TelemetryStoreMeta = { nextSeq: 0, firstSegment: 0, uploadedSeq: 0, dropped: 0 };
+
+export function createMemoryBackend(): TelemetryKeyValue {
+  const data = new Map<string, unknown>();
+  return {
+    async get<T>(key: string) {return (data.has(key) ? data.get(key) as T : null);},
+    async set(key, value) {data.set(key, value);},
+    async remove(key) {data.delete(key);}
+  };
+}
+
+function createIdbBackend(): TelemetryKeyValue {
+  return {
+    get: <T>(key: string) => idb.get<T>(STORE, key),
+    set: (key, value) => idb.set(STORE, key, value),
+    remove: (key) => idb.remove(STORE, key)
+  };
+}
+
+const segmentKey = (index: number) => `segment:${index}`;
+
+export class TelemetryStore {
+  private readonly backend: TelemetryKeyValue;
+  private readonly segmentSize: number;
+  private readonly maxSegments: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: TelemetryStoreOptions = {}) {
+    this.backend = options.backend
+      ?? (typeof indexedDB === 'undefined' ? createMemoryBackend() : createIdbBackend());
+    this.segmentSize = options.segmentSize ?? 200;
+    this.maxSegments = options.maxSegments ?? 25;
+  }
+
+  /**
+   * Append events in order, rotating out the oldest segments past the cap.
+   */
+  append(events: TelemetryEvent[]): Promise<void> {
+    if (events.length === 0) {return Promise.resolve();}
+    return this.serialize(async () => {
+      const meta = await this.readMeta();
+      const touched = new Map<number, StoredTelemetryEvent[]>();
+
+      for (const event of events) {
+        const seq = meta.nextSeq++;
+        const index = Math.floor(seq / this.segmentSize);
+        let segment = touched.get(index);
+        if (!segment) {
+          segment = (await this.backend.get<StoredTelemetryEvent[]>(segmentKey(index))) ?? [];
+          touched.set(index, segment);
+        }
+        segment.push({ ...event, seq });
+      }
+
+      for (const [index, segment] of touched) {
+        await this.backend.set(segmentKey(index), segment);
+      }
+
+      const lastSegment = Math.floor((meta.nextSeq - 1) / this.segmentSize);
+      while (lastSegment - meta.firstSegment + 1 > this.maxSegments) {
+        const rotatedEnd = (meta.firstSegment + 1) * this.segmentSize;
+        if (meta.uploadedSeq < rotatedEnd) {
+          meta.dropped += rotatedEnd - Math.max(meta.uploadedSeq, meta.firstSegment * this.segmentSize);
+          meta.uploadedSeq = rotatedEnd;
+        }
+        await this.backend.remove(segmentKey(meta.firstSegment));
+        meta.firstSegment++;
+      }
+
+      await this.backend.set(META_KEY, meta);
+    });
+  }
+
+  /**
+   * Every retained event, oldest first.
+   */
+  readAll(): Promise<StoredTelemetryEvent[]> {
+    return this.serialize(async () => {
+      const meta = await this.readMeta();
+      return this.readRange(meta, meta.firstSegment * this.segmentSize, Infinity);
+    });
+  }
+
+  /**
+   * Up to `limit` events that have not been uploaded yet, oldest first.
+   */
+  readPending(limit: number): Promise<StoredTelemetryEvent[]> {
+    return this.serialize(async () => {
+      const meta = await this.readMeta();
+      return this.readRange(meta, meta.uploadedSeq, limit);
+    });
+  }
+
+  /**
+   * Mark everything up to and including `seq` as delivered to the sink.
+   */
+  markUploaded(seq: number): Promise<void> {
+    return this.serialize(async () => {
+      const meta = await this.readMeta();
+      meta.uploadedSeq = Math.max(meta.uploadedSeq, seq + 1);
+      await this.backend.set(META_KEY, meta);
+    });
+  }
+
+  getMeta(): Promise<TelemetryStoreMeta> {
+    return this.serialize(() => this.readMeta());
+  }
+
+  clear(): Promise<void> {
+    return this.serialize(async () => {
+      const meta = await this.readMeta();
+      const lastSegment = Math.floor(Math.max(meta.nextSeq - 1, 0) / this.segmentSize);
+      for (let index = meta.firstSegment; index <= lastSegment; index++) {
+        await this.backend.remove(segmentKey(index));
+      }
+      await this.backend.remove(META_KEY);
+    });
+  }
+
+  // Private helper methods
+
+  private async readMeta(): Promise<TelemetryStoreMeta> {
+    return { ...EMPTY_META, ...(await this.backend.get<TelemetryStoreMeta>(META_KEY)) };
+  }
+
+  private async readRange(meta: TelemetryStoreMeta, fromSeq: number, limit: number): Promise<StoredTelemetryEvent[]> {
+    const result: StoredTelemetryEvent[] = [];
+    if (meta.nextSeq === 0) {return result;}
+    const lastSegment = Math.floor((meta.nextSeq - 1) / this.segmentSize);
+    const startSegment = Math.max(meta.firstSegment, Math.floor(fromSeq / this.segmentSize));
+
+    for (let index = startSegment; index <= lastSegment && result.length < limit; index++) {
+      const segment = (await this.backend.get<StoredTelemetryEvent[]>(segmentKey(index))) ?? [];
+      for (const event of segment) {
+        if (event.seq < fromSeq) {continue;}
+        result.push(event);
+        if (result.length >= limit) {break;}
+      }
+    }
+    return result;
+  }
+
+  // IDB reads and writes interleave across awaits; run one operation at a time
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(operation, operation);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
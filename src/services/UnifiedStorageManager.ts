@@ -8,6 +8,10 @@ import { v4 as uuidv4 } from 'uuid';
 import type { HeroProjectTransformer, EnhancedHeroProjectData, TransformationLevel, TransformationContext } from './HeroProjectTransformer';
 import type { LargeRef } from './LargeObjectStore';
 import { LargeObjectStore } from './LargeObjectStore';
+import { revisionService, type RecordRevisionOptions } from '../core/services/RevisionService';
+import type { CalendarSettings } from '../utils/schoolCalendar';
+import type { EditHistory } from '../features/chat-mvp/domain/editHistory';
+import { migrateShowcaseGradeBand } from '../utils/gradeBandMigration';
 
 // Unified project data interface
 export interface UnifiedProjectData {
@@ -39,6 +43,8 @@ export interface UnifiedProjectData {
   journey?: Record<string, any>;
   deliverables?: Record<string, any>;
   chatHistory?: Array<any>;
+  // Undo/redo stacks per editing surface (features/chat-mvp/domain/editHistory)
+  editHistory?: { chat?: EditHistory; builder?: EditHistory };
 
   // Metadata
   stage?: string;
@@ -53,6 +59,7 @@ export interface UnifiedProjectData {
   provisional?: boolean; // Whether this is a temporary/draft project not yet confirmed
   completedAt?: Date; // When the project was completed (all stages done)
   description?: string; // Course description for display
+  calendar?: CalendarSettings; // Start date, lesson days and days off for scheduling runOfShow
 
   // Stage tracking (for segmented builder flow)
   currentStage?: 'ideation' | 'journey' | 'deliverables' | 'review';
@@ -79,8 +86,13 @@ export interface StorageOptions {
   // Cloud sync throttling
   idleCloudSyncDelayMs?: number; // idle delay before cloud sync when dirty
   minCloudSyncIntervalMs?: number; // minimum interval between cloud syncs while dirty
-  snapshotIntervalMs?: number; // interval for snapshotting large blobs
-  maxSnapshots?: number; // number of snapshots to retain in Storage
+}
+
+export interface SaveProjectOptions {
+  // Labels the revision this save records (e.g. restores); derived from the diff otherwise
+  revision?: Omit<RecordRevisionOptions, 'carryForward'>;
+  // Replace nested sections (capturedData, journey, ...) instead of merging them; used by restores
+  replace?: boolean;
 }
 
 const DEFAULT_OPTIONS: StorageOptions = {
@@ -107,14 +119,11 @@ export class UnifiedStorageManager {
   private lastCloudSyncAt = new Map<string, number>();
   private idleTimers = new Map<string, number>();
   private periodicTimers = new Map<string, number>();
-  private snapshotLastAt = new Map<string, number>();
 
   private constructor(private options: StorageOptions = DEFAULT_OPTIONS) {
     // Fill defaults for new options
     this.options.idleCloudSyncDelayMs = this.options.idleCloudSyncDelayMs ?? 5000;
     this.options.minCloudSyncIntervalMs = this.options.minCloudSyncIntervalMs ?? 20000;
-    this.options.snapshotIntervalMs = this.options.snapshotIntervalMs ?? 120000;
-    this.options.maxSnapshots = this.options.maxSnapshots ?? 10;
 
     // Global listeners to flush when we can
     if (typeof window !== 'undefined') {
@@ -142,9 +151,10 @@ export class UnifiedStorageManager {
   }
 
   /**
-   * Save project data with guaranteed persistence
+   * Save project data with guaranteed persistence.
+   * Content changes also record a revision (RevisionService); bookkeeping-only saves do not.
    */
-  async saveProject(projectData: Partial<UnifiedProjectData>): Promise<string> {
+  async saveProject(projectData: Partial<UnifiedProjectData>, options: SaveProjectOptions = {}): Promise<string> {
     try {
       // Generate ID if not provided
       const id = projectData.id || this.generateProjectId();
@@ -178,6 +188,9 @@ export class UnifiedStorageManager {
             syncStatus: projectData.syncStatus || 'local'
           } as UnifiedProjectData;
 
+      const merge = (current?: Record<string, any>, next?: Record<string, any>) =>
+        options.replace && next ? { ...next } : { ...(current || {}), ...(next || {}) };
+
       let unifiedData: UnifiedProjectData = {
         ...base,
         ...projectData,
@@ -189,17 +202,22 @@ export class UnifiedStorageManager {
         updatedAt: new Date(),
         version: base.version || '3.0',
         syncStatus: projectData.syncStatus || base.syncStatus || 'local',
-        wizardData: { ...(base.wizardData || {}), ...(projectData.wizardData || {}) },
-        projectData: { ...(base.projectData || {}), ...(projectData.projectData || {}) },
+        wizardData: merge(base.wizardData, projectData.wizardData),
+        projectData: merge(base.projectData, projectData.projectData),
         showcase: projectData.showcase ? { ...projectData.showcase } : base.showcase,
-        capturedData: { ...(base.capturedData || {}), ...(projectData.capturedData || {}) },
-        ideation: { ...(base.ideation || {}), ...(projectData.ideation || {}) },
-        journey: { ...(base.journey || {}), ...(projectData.journey || {}) },
-        deliverables: { ...(base.deliverables || {}), ...(projectData.deliverables || {}) },
+        capturedData: merge(base.capturedData, projectData.capturedData),
+        ideation: merge(base.ideation, projectData.ideation),
+        journey: merge(base.journey, projectData.journey),
+        deliverables: merge(base.deliverables, projectData.deliverables),
         chatHistory: projectData.chatHistory || base.chatHistory || [],
+        // Chat and builder save their own stacks; keep the other one
+        ...(projectData.editHistory ? { editHistory: { ...(base.editHistory || {}), ...projectData.editHistory } } : {}),
         provisional: typeof projectData.provisional === 'boolean' ? projectData.provisional : base.provisional
       };
 
+      // Revision snapshot keeps the showcase inline; saves without one inherit the previous
+      const revisionSnapshot: Record<string, any> = { ...unifiedData };
+
       // Offload large showcase to IDB (keeps localStorage lean and reliable)
       if (this.options.storeShowcaseInIDB && unifiedData.showcase) {
         try {
@@ -239,6 +257,13 @@ export class UnifiedStorageManager {
       // Save to localStorage with retry logic
       await this.saveToLocalStorage(id, unifiedData);
 
+      // Revision history is best-effort; never fail a save over it
+      revisionService
+        .recordRevision(id, revisionSnapshot, { ...options.revision, carryForward: ['showcase'] })
+        .catch(error => {
+          console.warn(`[UnifiedStorageManager] Failed to record revision for ${id}:`, error);
+        });
+
       // Update project index
       const indexMetadata = this.buildIndexMetadata(unifiedData);
       await this.updateProjectIndex(id, indexMetadata);
@@ -325,28 +350,10 @@ export class UnifiedStorageManager {
       // Clear dirty if sync succeeded
       this.dirtyProjects.delete(projectId);
 
-      // Consider snapshotting large blob periodically
-      const snapInterval = this.options.snapshotIntervalMs || 120000;
-      const lastSnap = this.snapshotLastAt.get(projectId) || 0;
-      if (Date.now() - lastSnap >= snapInterval) {
-        this.snapshotLastAt.set(projectId, Date.now());
-        const { auth } = await import('../firebase/firebase');
-        if (auth?.currentUser?.uid) {
-          // Try to snapshot showcase (if present or retrievable)
-          let showcaseObj: any = (data as any).showcase;
-          if (!showcaseObj && data.showcaseRef) {
-            try { showcaseObj = await LargeObjectStore.loadShowcase(data.showcaseRef); } catch {}
-          }
-          if (showcaseObj) {
-            try {
-              const { CloudBlobService } = await import('./CloudBlobService');
-              await CloudBlobService.uploadSnapshotJSON(auth.currentUser.uid, projectId, 'showcase', showcaseObj);
-              await CloudBlobService.trimSnapshots(auth.currentUser.uid, projectId, 'showcase', this.options.maxSnapshots || 10);
-            } catch (e) {
-              console.warn('[UnifiedStorageManager] Snapshot attempt failed', (e as Error).message);
-            }
-          }
-        }
+      // Mirror new revisions to Storage so history is browsable from any device
+      const { auth } = await import('../firebase/firebase');
+      if (auth?.currentUser?.uid) {
+        await revisionService.mirrorPending(projectId, auth.currentUser.uid);
       }
     } catch (e) {
       // Non-fatal; will try again later
@@ -459,7 +466,7 @@ export class UnifiedStorageManager {
           }
         }
         console.log(`[UnifiedStorageManager] Project loaded from primary storage: ${projectId}`);
-        return data;
+        return migrateShowcaseGradeBand(data);
       }
 
       // Try legacy formats
@@ -0,0 +1,592 @@
+/**
+ * Unit Plan Import Service
+ *
+ * Turns a teacher's existing unit plan (.docx, text PDF or Markdown; see
+ * utils/unitPlanText) into a new project:
+ * - wizard context: title, subjects, grade level, duration, topic
+ * - ideation: big idea, essential question, challenge
+ * - journey phases with activities and checkpoints
+ * - assignments with directions, evidence and success criteria
+ *
+ * The model maps the text (schema-validated with zUnitPlanImport) and rates
+ * its confidence per field; a heading/label parser fills whatever the model
+ * leaves empty, and everything when it is unavailable. Confidence is then
+ * checked against the source: values found verbatim are trusted more than
+ * values the model inferred.
+ *
+ * createProject() saves a UnifiedProjectData with source 'import'. When the
+ * plan has phases and assignments it also gets a showcase, so the teacher
+ * lands on the review screen; otherwise on the first incomplete stage.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { AssignmentCard, PhaseKind, ProjectShowcaseV2, WeekCard } from '../types/showcaseV2';
+import { unifiedStorage, type UnifiedProjectData } from './UnifiedStorageManager';
+import { generateStructuredAI, parseLooseJSON } from '../features/chat-mvp/domain/structuredAI';
+import { mapGradeBand, mapPhaseKind, mapTimeframe, parseTotalWeeks } from '../features/chat-mvp/domain/projectShowcaseGenerator';
+import { zUnitPlanImport, type UnitPlanImportSuggestion } from '../types/zod-schemas';
+import { extractUnitPlanText, type UnitPlanFormat } from '../utils/unitPlanText';
+import { fixShowcase } from '../utils/showcaseLint';
+import { getStageRoute, type StageId } from '../utils/stageStatus';
+
+export type UnitPlanField =
+  | 'title'
+  | 'subjects'
+  | 'gradeLevel'
+  | 'duration'
+  | 'projectTopic'
+  | 'bigIdea'
+  | 'essentialQuestion'
+  | 'challenge'
+  | 'phases'
+  | 'assignments';
+
+export const UNIT_PLAN_FIELD_LABELS: Record<UnitPlanField, string> = {
+  title: 'Title',
+  subjects: 'Subjects',
+  gradeLevel: 'Grade level',
+  duration: 'Duration',
+  projectTopic: 'Topic',
+  bigIdea: 'Big idea',
+  essentialQuestion: 'Essential question',
+  challenge: 'Challenge',
+  phases: 'Journey phases',
+  assignments: 'Assignments'
+};
+
+const FIELDS = Object.keys(UNIT_PLAN_FIELD_LABELS) as UnitPlanField[];
+
+export interface ImportedPhase {
+  name: string;
+  focus: string;
+  activities: string[];
+  checkpoint?: string;
+}
+
+export interface ImportedAssignment {
+  title: string;
+  summary: string;
+  studentDirections: string[];
+  evidence: string[];
+  successCriteria: string[];
+  phaseIndex?: number;
+}
+
+export interface UnitPlanValues {
+  title: string;
+  subjects: string[];
+  gradeLevel: string;
+  duration: string;
+  projectTopic: string;
+  bigIdea: string;
+  essentialQuestion: string;
+  challenge: string;
+  phases: ImportedPhase[];
+  assignments: ImportedAssignment[];
+}
+
+export interface UnitPlanDraft extends UnitPlanValues {
+  fileName: string;
+  format: UnitPlanFormat;
+  method: 'ai' | 'heuristic';
+  confidence: Record<UnitPlanField, number>; // 0–1 per field
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export function confidenceLevel(value: number): ConfidenceLevel {
+  if (value >= 0.75) {return 'high';}
+  if (value >= 0.45) {return 'medium';}
+  return 'low';
+}
+
+const MAX_PROMPT_CHARS = 24000;
+const LABELED = 0.85;
+const PATTERN = 0.5;
+
+// ---------- Heading / label parser ----------
+
+const LABELS: Array<[Exclude<UnitPlanField, 'phases' | 'assignments'>, RegExp]> = [
+  ['title', /^(?:unit|project|lesson)?\s*(?:title|name)$/i],
+  ['subjects', /^(?:subjects?|content areas?|disciplines?|course)$/i],
+  ['gradeLevel', /^(?:grades?|grade levels?|grade band|level|year)$/i],
+  ['duration', /^(?:duration|length|time ?frame|timeline|pacing)$/i],
+  ['projectTopic', /^(?:topic|theme|unit focus)$/i],
+  ['bigIdea', /^(?:big ideas?|enduring understandings?|key concepts?|central idea)$/i],
+  ['essentialQuestion', /^(?:essential questions?|driving questions?|guiding questions?)$/i],
+  ['challenge', /^(?:challenge|performance task|final (?:product|project|task)|summative (?:task|assessment)|culminating (?:task|project))$/i]
+];
+
+const SUBJECT_WORDS = ['Science', 'Math', 'Mathematics', 'English', 'ELA', 'Social Studies', 'History', 'Art', 'Music', 'Technology', 'Engineering', 'Health', 'Geography', 'Civics', 'Economics', 'Spanish', 'Computer Science'];
+
+const PHASE_LINE = /^(?:week|weeks|phase|stage|part|module|unit)\s*(\d+(?:\s*[-–]\s*\d+)?)\b\s*[:.\-–—]?\s*(.*)$/i;
+const ASSIGNMENT_LINE = /^(?:assignment|task|assessment|project task|activity)\s*(?:\d+|[A-Z])?\s*[:.\-–—]\s*(.+)$/i;
+const BULLET = /^(?:[-*•▪◦]|\d+[.)])\s+/;
+const SUBLIST: Array<[RegExp, 'studentDirections' | 'evidence' | 'successCriteria']> = [
+  [/^(?:directions|steps|student directions|procedure|instructions)$/i, 'studentDirections'],
+  [/^(?:evidence|products?|deliverables?|students will submit)$/i, 'evidence'],
+  [/^(?:success criteria|criteria|look[- ]fors|i can statements?)$/i, 'successCriteria']
+];
+
+function cleanLine(line: string): string {
+  return line.replace(/^#+\s*/, '').replace(/\*\*|__/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function splitList(value: string): string[] {
+  return value.split(/\s*[,;/]\s*|\s+and\s+/).map(item => item.trim()).filter(Boolean);
+}
+
+function emptyValues(): UnitPlanValues {
+  return {
+    title: '',
+    subjects: [],
+    gradeLevel: '',
+    duration: '',
+    projectTopic: '',
+    bigIdea: '',
+    essentialQuestion: '',
+    challenge: '',
+    phases: [],
+    assignments: []
+  };
+}
+
+function emptyConfidence(): Record<UnitPlanField, number> {
+  return Object.fromEntries(FIELDS.map(field => [field, 0])) as Record<UnitPlanField, number>;
+}
+
+/**
+ * Read labeled fields ("Essential Question: …", a heading followed by a
+ * line), "Week N" / "Phase N" sections and "Assignment N:" sections.
+ */
+export function parseUnitPlanText(text: string): UnitPlanValues & { confidence: Record<UnitPlanField, number> } {
+  const values = emptyValues();
+  const confidence = emptyConfidence();
+  const lines = text.split('\n').map(line => line.trim());
+
+  const setLabeled = (field: Exclude<UnitPlanField, 'phases' | 'assignments'>, value: string) => {
+    if (!value || confidence[field] >= LABELED) {return;}
+    if (field === 'subjects') {
+      values.subjects = splitList(value);
+    } else {
+      values[field] = value;
+    }
+    confidence[field] = LABELED;
+  };
+
+  let phase: ImportedPhase | null = null;
+  let assignment: ImportedAssignment | null = null;
+  let assignmentList: 'studentDirections' | 'evidence' | 'successCriteria' = 'studentDirections';
+  let pendingLabel: Exclude<UnitPlanField, 'phases' | 'assignments'> | null = null;
+
+  lines.forEach(raw => {
+    if (!raw) {return;}
+    const isHeading = raw.startsWith('#');
+    const line = cleanLine(raw);
+    const bullet = BULLET.test(line);
+    const item = line.replace(BULLET, '').trim();
+
+    if (pendingLabel) {
+      setLabeled(pendingLabel, item);
+      pendingLabel = null;
+      return;
+    }
+
+    const assignmentMatch = line.match(ASSIGNMENT_LINE);
+    if (assignmentMatch && !bullet) {
+      assignment = { title: assignmentMatch[1].trim(), summary: '', studentDirections: [], evidence: [], successCriteria: [] };
+      if (values.phases.length) {assignment.phaseIndex = values.phases.length - 1;}
+      values.assignments.push(assignment);
+      assignmentList = 'studentDirections';
+      return;
+    }
+
+    const phaseMatch = line.match(PHASE_LINE);
+    if (phaseMatch && !bullet && (isHeading || line.length <= 90)) {
+      const rest = phaseMatch[2].trim();
+      phase = { name: rest ? `${line.slice(0, line.length - rest.length).replace(/[\s:.\-–—]+$/, '')}: ${rest}` : line, focus: rest, activities: [] };
+      values.phases.push(phase);
+      assignment = null;
+      return;
+    }
+
+    const labeled = line.match(/^([^:|]{2,40}?)\s*[:|]\s*(.*)$/);
+    const label = (labeled ? labeled[1] : line).replace(BULLET, '').trim();
+    const labelValue = labeled ? labeled[2].trim() : '';
+
+    if (assignment) {
+      const sublist = SUBLIST.find(([pattern]) => pattern.test(label));
+      if (sublist) {
+        assignmentList = sublist[1];
+        if (labelValue) {assignment[assignmentList].push(...splitList(labelValue));}
+        return;
+      }
+      if (bullet) {
+        const target = /^(i|we)\s+can\b/i.test(item) ? 'successCriteria' : assignmentList;
+        assignment[target].push(item);
+        return;
+      }
+      if (!isHeading && !assignment.summary) {
+        assignment.summary = line;
+        return;
+      }
+    }
+
+    const field = LABELS.find(([, pattern]) => pattern.test(label))?.[0];
+    if (field) {
+      if (labelValue) {
+        setLabeled(field, labelValue);
+      } else if (isHeading || line.endsWith(':') || !labeled) {
+        pendingLabel = field;
+      }
+      return;
+    }
+
+    if (phase) {
+      if (/^checkpoint$/i.test(label) && labelValue) {
+        phase.checkpoint = labelValue;
+      } else if (bullet) {
+        phase.activities.push(item);
+      } else if (!phase.focus && !isHeading) {
+        phase.focus = line;
+      }
+      return;
+    }
+
+    if (isHeading && !values.title) {
+      values.title = line;
+      confidence.title = PATTERN;
+    }
+  });
+
+  // Fallbacks from patterns anywhere in the text
+  const firstLine = lines.find(Boolean);
+  if (!values.title && firstLine && firstLine.length <= 120) {
+    values.title = cleanLine(firstLine);
+    confidence.title = 0.4;
+  }
+  if (!values.gradeLevel) {
+    const grade = text.match(/\bgrades?\s*(K|\d{1,2})(?:\s*(?:-|–|to)\s*(\d{1,2}))?\b/i);
+    if (grade) {
+      values.gradeLevel = grade[2] ? `Grades ${grade[1].toUpperCase()}–${grade[2]}` : `Grade ${grade[1].toUpperCase()}`;
+      confidence.gradeLevel = PATTERN;
+    }
+  }
+  if (!values.duration) {
+    const weeks = text.match(/\b(\d{1,2})(?:\s*(?:-|–|to)\s*(\d{1,2}))?\s*weeks?\b/i);
+    if (weeks) {
+      values.duration = `${weeks[2] || weeks[1]} weeks`;
+      confidence.duration = PATTERN;
+    } else if (values.phases.length && /^week/i.test(values.phases[0].name)) {
+      values.duration = `${values.phases.length} weeks`;
+      confidence.duration = 0.4;
+    }
+  }
+  if (!values.essentialQuestion) {
+    const question = lines.map(cleanLine).map(line => line.replace(BULLET, '')).find(line => line.endsWith('?') && line.length >= 15 && line.length <= 200);
+    if (question) {
+      values.essentialQuestion = question;
+      confidence.essentialQuestion = PATTERN;
+    }
+  }
+  if (!values.subjects.length) {
+    const found = SUBJECT_WORDS.filter(subject => new RegExp(`\\b${subject}\\b`, 'i').test(text));
+    if (found.length) {
+      values.subjects = found.slice(0, 3);
+      confidence.subjects = 0.4;
+    }
+  }
+  if (!values.projectTopic && values.title) {
+    values.projectTopic = values.title;
+    confidence.projectTopic = 0.4;
+  }
+  if (values.phases.length) {confidence.phases = values.phases.length >= 2 ? 0.7 : PATTERN;}
+  if (values.assignments.length) {confidence.assignments = 0.65;}
+
+  return { ...values, confidence };
+}
+
+// ---------- Confidence ----------
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}?]+/gu, ' ').trim();
+}
+
+function grounded(value: string, source: string): boolean {
+  const needle = normalize(value);
+  return Boolean(needle) && source.includes(needle);
+}
+
+function isEmpty(values: UnitPlanValues, field: UnitPlanField): boolean {
+  const value = values[field];
+  return Array.isArray(value) ? value.length === 0 : !value.trim();
+}
+
+/**
+ * Confidence for model output: 0 when empty, at least 0.8 when the value is
+ * in the text as written, at most 0.7 when the model had to infer it.
+ */
+export function calibrateConfidence(values: UnitPlanValues, reported: Record<string, number>, text: string): Record<UnitPlanField, number> {
+  const source = normalize(text);
+  return Object.fromEntries(FIELDS.map(field => {
+    if (isEmpty(values, field)) {return [field, 0];}
+    const base = reported[field] ?? 0.6;
+    let found: boolean;
+    if (field === 'phases') {
+      found = values.phases.filter(phase => grounded(phase.focus || phase.name, source)).length * 2 >= values.phases.length;
+    } else if (field === 'assignments') {
+      found = values.assignments.filter(item => grounded(item.title, source)).length * 2 >= values.assignments.length;
+    } else if (field === 'subjects') {
+      found = values.subjects.every(subject => grounded(subject, source));
+    } else {
+      found = grounded(values[field], source);
+    }
+    return [field, Math.round((found ? Math.max(base, 0.8) : Math.min(base, 0.7)) * 100) / 100];
+  })) as Record<UnitPlanField, number>;
+}
+
+// ---------- Project building ----------
+
+function weekSpans(totalWeeks: number, count: number): number[] {
+  if (!count) {return [];}
+  const base = Math.max(1, Math.floor(totalWeeks / count));
+  const spans = Array.from({ length: count }, () => base);
+  let extra = Math.max(0, totalWeeks - base * count);
+  for (let i = count - 1; extra > 0; i = (i - 1 + count) % count, extra--) {spans[i]++;}
+  return spans;
+}
+
+/**
+ * A showcase assembled from the imported plan as written; nothing is
+ * generated. Unplaced assignments are linked by the linter's re-link fix.
+ */
+export function buildImportedShowcase(draft: UnitPlanValues, id: string): ProjectShowcaseV2 {
+  const totalWeeks = /\d/.test(draft.duration) ? parseTotalWeeks(draft.duration) : Math.max(draft.phases.length, 1);
+  const assignments: AssignmentCard[] = draft.assignments.map((item, index) => ({
+    id: `A${index + 1}`,
+    title: item.title,
+    summary: item.summary,
+    studentDirections: item.studentDirections,
+    teacherSetup: [],
+    evidence: item.evidence,
+    successCriteria: item.successCriteria
+  }));
+
+  let cursor = 1;
+  const runOfShow: WeekCard[] = draft.phases.map((phase, index) => {
+    const span = weekSpans(totalWeeks, draft.phases.length)[index];
+    const weekLabel = span === 1 ? `Week ${cursor}` : `Weeks ${cursor}–${cursor + span - 1}`;
+    cursor += span;
+    const linked = draft.assignments
+      .map((item, position) => ({ item, id: `A${position + 1}` }))
+      .filter(({ item }) => item.phaseIndex === index);
+    return {
+      weekLabel,
+      kind: mapPhaseKind(index, draft.phases.length) as PhaseKind,
+      focus: phase.focus || phase.name,
+      teacher: [],
+      students: phase.activities,
+      deliverables: linked.map(({ item }) => item.title),
+      ...(phase.checkpoint ? { checkpoint: [phase.checkpoint] } : {}),
+      assignments: linked.map(link => link.id)
+    };
+  });
+
+  const showcase: ProjectShowcaseV2 = {
+    id,
+    version: '2.0.0',
+    hero: {
+      title: draft.title || 'Imported Unit',
+      tagline: draft.bigIdea || draft.projectTopic,
+      gradeBand: mapGradeBand(draft.gradeLevel || 'MS'),
+      timeframe: mapTimeframe(draft.duration || `${totalWeeks} weeks`),
+      subjects: draft.subjects.length ? draft.subjects : ['Interdisciplinary']
+    },
+    microOverview: [draft.bigIdea, draft.challenge].filter(Boolean),
+    ...(draft.essentialQuestion ? { drivingQuestion: draft.essentialQuestion } : {}),
+    schedule: { totalWeeks, lessonsPerWeek: 3, lessonLengthMin: 55 },
+    runOfShow,
+    outcomes: { core: draft.challenge ? [draft.challenge] : [], extras: [], audiences: [] },
+    materialsPrep: { coreKit: [], noTechFallback: [] },
+    assignments
+  };
+  return fixShowcase(showcase, ['whitespace', 'orphan-assignment']).showcase;
+}
+
+/**
+ * The project record for an imported plan, with stage status from what was found.
+ */
+export function buildImportedProject(draft: UnitPlanDraft, id: string, userId = 'anonymous'): UnifiedProjectData {
+  const now = new Date();
+  const phaseId = (index: number) => `phase-${index + 1}`;
+  const ideation = { bigIdea: draft.bigIdea, essentialQuestion: draft.essentialQuestion, challenge: draft.challenge };
+  const journey = {
+    phases: draft.phases.map((phase, index) => ({
+      id: phaseId(index),
+      name: phase.name,
+      focus: phase.focus,
+      activities: phase.activities,
+      ...(phase.checkpoint ? { checkpoint: phase.checkpoint } : {})
+    })),
+    resources: [] as string[]
+  };
+  const deliverables = {
+    milestones: draft.phases
+      .map((phase, index) => (phase.checkpoint ? { id: `milestone-${index + 1}`, name: phase.checkpoint, phaseId: phaseId(index) } : null))
+      .filter(Boolean),
+    artifacts: draft.assignments.map((item, index) => ({
+      id: `artifact-${index + 1}`,
+      name: item.title,
+      ...(item.phaseIndex !== undefined ? { phaseId: phaseId(item.phaseIndex) } : {})
+    })),
+    rubric: { criteria: [] as string[] }
+  };
+
+  const stageStatus = {
+    ideation: ideation.bigIdea && ideation.essentialQuestion && ideation.challenge ? 'complete' : 'in_progress',
+    journey: journey.phases.length ? 'complete' : 'not_started',
+    deliverables: deliverables.artifacts.length ? 'complete' : 'not_started'
+  } as const;
+  const complete = Object.values(stageStatus).every(status => status === 'complete');
+  const currentStage: StageId = complete
+    ? 'review'
+    : (['ideation', 'journey', 'deliverables'] as const).find(stage => stageStatus[stage] !== 'complete') ?? 'ideation';
+
+  return {
+    id,
+    title: draft.title || 'Imported Unit',
+    userId,
+    createdAt: now,
+    updatedAt: now,
+    version: '1.0',
+    source: 'import',
+    description: draft.bigIdea || undefined,
+    wizardData: {
+      entryPoint: 'import',
+      projectName: draft.title,
+      projectTopic: draft.projectTopic || draft.title,
+      learningGoals: draft.bigIdea,
+      subjects: draft.subjects,
+      primarySubject: draft.subjects[0] || '',
+      subject: draft.subjects[0] || '',
+      gradeLevel: draft.gradeLevel,
+      ageGroup: draft.gradeLevel,
+      duration: draft.duration,
+      importedFrom: { fileName: draft.fileName, format: draft.format, method: draft.method },
+      metadata: { createdAt: now, lastModified: now, version: '3.0', wizardCompleted: true, skippedFields: [] as string[] }
+    },
+    capturedData: { ideation, journey, deliverables },
+    ideation,
+    journey,
+    deliverables,
+    ...(complete ? { showcase: buildImportedShowcase(draft, id) } : {}),
+    currentStage,
+    stageStatus,
+    status: complete ? 'ready' : 'draft',
+    provisional: false,
+    syncStatus: 'local'
+  };
+}
+
+// ---------- Service ----------
+
+export class UnitPlanImportService {
+  /**
+   * Extract the text of an uploaded file and map it to a draft for review.
+   */
+  async importFile(file: File): Promise<UnitPlanDraft> {
+    const { format, text } = await extractUnitPlanText(file.name, new Uint8Array(await file.arrayBuffer()));
+    return this.analyze(text, file.name, format);
+  }
+
+  async analyze(text: string, fileName: string, format: UnitPlanFormat): Promise<UnitPlanDraft> {
+    const parsed = parseUnitPlanText(text);
+
+    let suggestion: UnitPlanImportSuggestion | null = null;
+    try {
+      suggestion = await this.askModel(text);
+    } catch (error) {
+      console.warn('[UnitPlanImportService] Model unavailable, using the heading parser:', error);
+    }
+
+    if (!suggestion) {
+      console.log(`[UnitPlanImportService] Mapped ${fileName} (heuristic)`);
+      return { ...parsed, fileName, format, method: 'heuristic' };
+    }
+
+    const { confidence: reported, ...mapped } = suggestion;
+    const values: UnitPlanValues = { ...mapped };
+    // Fields the model left empty come from the parser, with the parser's confidence
+    const fromParser = FIELDS.filter(field => isEmpty(values, field) && !isEmpty(parsed, field));
+    fromParser.forEach(field => {
+      (values as unknown as Record<UnitPlanField, unknown>)[field] = parsed[field];
+    });
+    const confidence = calibrateConfidence(values, reported, text);
+    fromParser.forEach(field => {
+      confidence[field] = parsed.confidence[field];
+    });
+
+    console.log(`[UnitPlanImportService] Mapped ${fileName} (ai, ${fromParser.length} fields from parser)`);
+    return { ...values, confidence, fileName, format, method: 'ai' };
+  }
+
+  /**
+   * Save the reviewed draft as a new project; returns its id and where to go next.
+   */
+  async createProject(draft: UnitPlanDraft, userId = 'anonymous'): Promise<{ id: string; route: string }> {
+    const id = `bp_${Date.now()}_${uuidv4().slice(0, 8)}`;
+    const project = buildImportedProject(draft, id, userId);
+    await unifiedStorage.saveProject(project);
+    return { id, route: getStageRoute(id, project.currentStage ?? 'ideation') };
+  }
+
+  private async askModel(text: string): Promise<UnitPlanImportSuggestion | null> {
+    const excerpt = text.length > MAX_PROMPT_CHARS ? `${text.slice(0, MAX_PROMPT_CHARS)}\n[…truncated]` : text;
+    const prompt = `Map a teacher's existing unit plan onto a project-based learning project.
+
+UNIT PLAN (extracted text; "#" lines were headings, "- " lines bullets):
+"""
+${excerpt}
+"""
+
+FIELDS:
+- title, subjects, gradeLevel (e.g. "Grade 7", "Grades 9–10"), duration (e.g. "4 weeks"), projectTopic
+- bigIdea: the enduring understanding, one sentence
+- essentialQuestion: the driving/essential question, as a question
+- challenge: the culminating task or product students create for an audience
+- phases: the plan's weeks, phases or stages in order, each with name, focus (one line), activities (short student actions) and an optional checkpoint
+- assignments: graded tasks or products, each with title, summary (≤ 25 words), studentDirections, evidence, successCriteria ("I can …") and phaseIndex (0-based phase it belongs to)
+- confidence: 0–1 for each field above, by field name
+
+RULES:
+- Use the plan's own wording wherever it has it; do not invent content the plan does not support
+- Leave a field empty ("" or []) when the plan does not cover it, and give it confidence 0
+- Lower the confidence when you had to infer or rephrase a value
+
+OUTPUT FORMAT (JSON):
+{
+  "title": "...", "subjects": ["..."], "gradeLevel": "...", "duration": "...", "projectTopic": "...",
+  "bigIdea": "...", "essentialQuestion": "...", "challenge": "...",
+  "phases": [{ "name": "...", "focus": "...", "activities": ["..."], "checkpoint": "..." }],
+  "assignments": [{ "title": "...", "summary": "...", "studentDirections": ["..."], "evidence": ["..."], "successCriteria": ["..."], "phaseIndex": 0 }],
+  "confidence": { "title": 0.9, "essentialQuestion": 0.6 }
+}`;
+
+    const { data } = await generateStructuredAI({
+      prompt,
+      schema: zUnitPlanImport,
+      expectedFormat: '{ "title": "...", "phases": [], "assignments": [], "confidence": {} }',
+      stage: 'BIG_IDEA',
+      wizard: {},
+      heuristic: raw => {
+        const parsed = zUnitPlanImport.safeParse(parseLooseJSON(raw));
+        return parsed.success ? parsed.data : null;
+      },
+      options: { label: 'unit_plan_import', temperature: 0.2, maxTokens: 6000 }
+    });
+
+    return data;
+  }
+}
+
+export const unitPlanImportService = new UnitPlanImportService();
@@ -0,0 +1,167 @@
+import {
+  FamilyKitService,
+  buildTemplateFamilyKit,
+  detectFieldwork,
+  familyKitToEmails,
+  letterParts,
+  plannedLetters,
+  replaceFamilyKit,
+  updateFamilyLetter
+} from '../FamilyKitService';
+import { setAIProvider, type AIProvider, type AIRequest } from '../../ai/providers';
+import { fleschKincaidGrade } from '../../utils/readability';
+import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
+
+function scriptedProvider(responses: string[]): AIProvider & { requests: AIRequest[] } {
+  const requests: AIRequest[] = [];
+  return {
+    name: 'local',
+    requests,
+    async generate(request) {
+      requests.push(request);
+      return { text: responses.shift() ?? '', model: 'scripted' };
+    },
+    async stream() { return null; },
+    countTokens: text => text.length
+  };
+}
+
+const showcase = {
+  id: 'heat',
+  version: '2',
+  hero: { title: 'Urban Heat', tagline: 'Cool the block.', gradeBand: 'MS', timeframe: '2–4 weeks', subjects: ['Science', 'Math'] },
+  microOverview: ['Students map the hottest blocks near school and design shade that cools them.'],
+  schedule: { totalWeeks: 3, lessonsPerWeek: 3, lessonLengthMin: 45 },
+  runOfShow: [
+    { weekLabel: 'Week 1', kind: 'Foundations', focus: 'Why are some blocks hotter?', teacher: [], students: ['Log surface temperatures', 'Sketch a block map'], deliverables: ['Heat log'] },
+    { weekLabel: 'Week 2', kind: 'FieldworkLoop', focus: 'Measure heat around the block', teacher: [], students: ['Take readings outside'], deliverables: ['Data table'] },
+    { weekLabel: 'Week 3', kind: 'Exhibit', focus: 'Pitch shade designs', teacher: [], students: ['Rehearse the pitch'], deliverables: ['Pitch deck'] }
+  ],
+  outcomes: {
+    core: ['Explain how surfaces store heat', 'Use data to compare blocks', 'Propose a shade design'],
+    extras: ['Estimate shade costs'],
+    audiences: ['City planners', 'Neighbors']
+  },
+  materialsPrep: { coreKit: ['Cardboard tubes', 'Old sheets'], noTechFallback: [] },
+  assignments: [
+    { id: 'A1', title: 'Heat Map', summary: '', studentDirections: [], teacherSetup: [], evidence: [], successCriteria: [], safety: ['Stay on the sidewalk with a partner'] },
+    { id: 'A2', title: 'Shade Pitch', summary: '', studentDirections: [], teacherSetup: [], evidence: [], successCriteria: [] }
+  ]
+} as unknown as ProjectShowcaseV2;
+
+const indoor = {
+  ...showcase,
+  runOfShow: showcase.runOfShow.filter(week => week.kind !== 'FieldworkLoop'),
+  materialsPrep: { coreKit: [], noTechFallback: [] },
+  assignments: showcase.assignments.map(assignment => ({ ...assignment, safety: undefined }))
+} as ProjectShowcaseV2;
+
+describe('buildTemplateFamilyKit', () => {
+  it('writes every letter from the project with a weekly update per week card', () => {
+    const kit = buildTemplateFamilyKit(showcase);
+
+    expect(kit.locale).toBe('en');
+    expect(kit.readingLevel).toBe('standard');
+    expect(kit.letters.map(letter => letter.kind)).toEqual([
+      'kickoff', 'weekly-update', 'weekly-update', 'weekly-update',
+      'volunteer-request', 'materials-request', 'permission-slip', 'exhibition-invitation'
+    ]);
+    expect(kit.letters.every(letter => letter.source === 'template')).toBe(true);
+
+    const [kickoff, week1, week2] = kit.letters;
+    expect(kickoff.subject).toBe('Our new project: Urban Heat');
+    expect(kickoff.body).toContain('- Propose a shade design');
+    expect(kickoff.body).toContain('City planners & Neighbors');
+    expect(week1.subject).toBe('Week 1 update: Why are some blocks hotter?');
+    expect(week1.body).toContain('Ask your child: "Why are some blocks hotter?"');
+    expect(week2.body).toContain('Ask your child: "What did you learn this week?"');
+    expect(kit.letters[5].body).toContain('- Old sheets');
+  });
+
+  it('adds a permission slip only when the project has fieldwork', () => {
+    expect(detectFieldwork(showcase)).toEqual({ weeks: [1], safety: ['Stay on the sidewalk with a partner'] });
+    const slip = buildTemplateFamilyKit(showcase).letters.find(letter => letter.kind === 'permission-slip');
+    expect(slip?.body).toContain('- Week 2: Measure heat around the block');
+    expect(slip?.body).toContain('Parent or guardian signature: ______________________');
+
+    expect(plannedLetters(indoor).map(letter => letter.kind)).toEqual([
+      'kickoff', 'weekly-update', 'weekly-update', 'volunteer-request', 'exhibition-invitation'
+    ]);
+  });
+
+  it('follows the reading level and student language', () => {
+    const easy = buildTemplateFamilyKit({ ...showcase, readingLevel: 'easy' }).letters[0];
+    const detailed = buildTemplateFamilyKit({ ...showcase, readingLevel: 'detailed' }).letters[0];
+    expect(easy.body).not.toContain('Use data to compare blocks');
+    expect(detailed.body).toContain('- Estimate shade costs');
+    expect(fleschKincaidGrade(easy.body)).toBeLessThan(fleschKincaidGrade(detailed.body));
+
+    const spanish = buildTemplateFamilyKit({ ...showcase, studentLanguage: 'es' });
+    expect(spanish.locale).toBe('es');
+    expect(spanish.letters[0].body.startsWith('Estimadas familias')).toBe(true);
+  });
+});
+
+describe('family kit helpers', () => {
+  it('keeps teacher-edited letters when the kit is regenerated', () => {
+    const withKit = replaceFamilyKit(showcase, buildTemplateFamilyKit(showcase));
+    const edited = updateFamilyLetter(withKit, { ...withKit.familyKit!.letters[2], body: 'See you at the park on Friday, everyone!' });
+    const regenerated = replaceFamilyKit(edited, buildTemplateFamilyKit(showcase));
+
+    expect(regenerated.familyKit!.letters[2]).toMatchObject({ source: 'teacher', body: 'See you at the park on Friday, everyone!' });
+    expect(regenerated.familyKit!.letters[1].source).toBe('template');
+  });
+
+  it('splits a body into paragraphs and bullet lists', () => {
+    expect(letterParts('Hello,\n\nYou could:\n- Visit\n- Email\nThanks\n\n\nBye')).toEqual([
+      { type: 'paragraph', lines: ['Hello,'] },
+      { type: 'paragraph', lines: ['You could:'] },
+      { type: 'bullets', items: ['Visit', 'Email'] },
+      { type: 'paragraph', lines: ['Thanks'] },
+      { type: 'paragraph', lines: ['Bye'] }
+    ]);
+  });
+
+  it('formats plain-text emails with a subject line', () => {
+    const emails = familyKitToEmails(buildTemplateFamilyKit(indoor));
+    expect(emails.startsWith('Subject: Our new project: Urban Heat\n\nDear families,')).toBe(true);
+    expect(emails.match(/^Subject: /gm)).toHaveLength(5);
+  });
+});
+
+describe('FamilyKitService', () => {
+  const service = new FamilyKitService();
+
+  afterEach(() => setAIProvider(null));
+
+  it('uses the model letters and fills the rest from templates', async () => {
+    const provider = scriptedProvider([JSON.stringify({
+      letters: [
+        { kind: 'kickoff', subject: 'Welcome to Urban Heat!', body: 'Dear families, we are about to study heat on our block.' },
+        { kind: 'weekly-update', weekIndex: 2, subject: 'Pitch week', body: 'Students are getting ready to pitch shade designs.' },
+        { kind: 'permission-slip', subject: 'Fieldwork walk', body: 'We will walk around the block to take readings.' }
+      ]
+    })]);
+    setAIProvider(provider);
+
+    const kit = await service.generateKit({ ...showcase, studentLanguage: 'es', readingLevel: 'easy' });
+
+    expect(provider.requests[0].prompt).toContain('Write every letter in Spanish');
+    expect(provider.requests[0].prompt).toContain('grade 4–5');
+    expect(kit.letters[0]).toMatchObject({ subject: 'Welcome to Urban Heat!', source: 'ai' });
+    expect(kit.letters[3]).toMatchObject({ kind: 'weekly-update', weekIndex: 2, source: 'ai' });
+    expect(kit.letters[1].source).toBe('template');
+    const slip = kit.letters.find(letter => letter.kind === 'permission-slip')!;
+    expect(slip.source).toBe('ai');
+    expect(slip.body).toContain('Firma del padre, madre o tutor');
+  });
+
+  it('falls back to template letters when the model is unavailable', async () => {
+    setAIProvider(scriptedProvider([]));
+
+    const kit = await service.generateKit(indoor);
+
+    expect(kit.letters).toHaveLength(5);
+    expect(kit.letters.every(letter => letter.source === 'template')).toBe(true);
+  });
+});
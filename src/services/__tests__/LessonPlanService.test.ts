@@ -0,0 +1,150 @@
+import {
+  LessonPlanService,
+  apportionMinutes,
+  buildTemplateLessonPlans,
+  fitSegmentsToPeriod,
+  replaceWeekPlans,
+  updateLessonPlan
+} from '../LessonPlanService';
+import { setAIProvider, type AIProvider, type AIRequest } from '../../ai/providers';
+import { DEFAULT_EXIT_TICKET_QUESTIONS, PBLStage } from '../../types/FormativeAssessmentTypes';
+import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
+
+function scriptedProvider(responses: string[]): AIProvider & { requests: AIRequest[] } {
+  const requests: AIRequest[] = [];
+  return {
+    name: 'local',
+    requests,
+    async generate(request) {
+      requests.push(request);
+      return { text: responses.shift() ?? '', model: 'scripted' };
+    },
+    async stream() { return null; },
+    countTokens: text => text.length
+  };
+}
+
+const showcase = {
+  id: 'heat',
+  version: '2',
+  hero: { title: 'Urban Heat', tagline: 'Cool the block', gradeBand: 'MS', timeframe: '2–4 weeks', subjects: ['Science'] },
+  microOverview: [],
+  schedule: { totalWeeks: 3, lessonsPerWeek: 3, lessonLengthMin: 45 },
+  runOfShow: [
+    {
+      weekLabel: 'Week 1',
+      kind: 'Foundations',
+      focus: 'Why are some blocks hotter?',
+      teacher: ['Launch with a heat photo', 'Model a sensor reading'],
+      students: ['Log surface temperatures', 'Sketch a block map'],
+      deliverables: ['Heat log'],
+      checkpoint: ['Log has 10 readings']
+    },
+    { weekLabel: 'Weeks 2–3', kind: 'Build', focus: 'Design shade prototypes', teacher: [], students: ['Test materials'], deliverables: ['Prototype'] }
+  ],
+  outcomes: { core: [], extras: [], audiences: [] },
+  materialsPrep: { coreKit: ['IR thermometers', 'Clipboards', 'Block map'], noTechFallback: [] },
+  assignments: []
+} as unknown as ProjectShowcaseV2;
+
+describe('apportionMinutes', () => {
+  it('splits whole minutes that add up exactly', () => {
+    expect(apportionMinutes([10, 20, 50, 10, 10], 45)).toEqual([5, 9, 23, 4, 4]);
+    expect(apportionMinutes([1, 1, 1], 50).reduce((a, b) => a + b, 0)).toBe(50);
+    expect(apportionMinutes([0, 0], 9)).toEqual([5, 4]);
+    expect(apportionMinutes([1, 98, 1], 10)).toEqual([1, 8, 1]);
+  });
+});
+
+describe('buildTemplateLessonPlans', () => {
+  it('expands a week card into lessonsPerWeek lessons that fill the period', () => {
+    const plans = buildTemplateLessonPlans(showcase, 0);
+
+    expect(plans).toHaveLength(3);
+    plans.forEach(plan => {
+      expect(plan.segments.reduce((sum, segment) => sum + segment.minutes, 0)).toBe(45);
+      expect(plan.segments[0].kind).toBe('warm-up');
+      expect(plan.segments[plan.segments.length - 1].kind).toBe('exit-ticket');
+      expect(plan.materials).toEqual(['IR thermometers', 'Clipboards', 'Block map']);
+      expect(plan.source).toBe('template');
+    });
+    expect(plans[1].objectives[0]).toBe('Students will sketch a block map');
+    expect(plans[2].objectives[1]).toBe('Students will complete heat log');
+    expect(plans[2].segments.find(segment => segment.kind === 'share')?.teacher).toBe('Check: Log has 10 readings');
+  });
+
+  it('uses the exit ticket bank for the week phase', () => {
+    const bank = DEFAULT_EXIT_TICKET_QUESTIONS[PBLStage.BIG_IDEA];
+    const [first, second] = buildTemplateLessonPlans(showcase, 0);
+
+    expect(first.exitTicket).toEqual([bank[0].text, bank[2].text]);
+    expect(second.exitTicket[0]).toBe(bank[1].text);
+  });
+
+  it('counts every calendar week a card spans', () => {
+    expect(buildTemplateLessonPlans(showcase, 1)).toHaveLength(6);
+    expect(buildTemplateLessonPlans(showcase, 5)).toEqual([]);
+  });
+});
+
+describe('lesson plan edits', () => {
+  it('replaces one week and keeps lessons the teacher edited', () => {
+    const planned = replaceWeekPlans(replaceWeekPlans(showcase, 1, buildTemplateLessonPlans(showcase, 1)), 0, buildTemplateLessonPlans(showcase, 0));
+    expect(planned.lessonPlans?.map(plan => `${plan.weekIndex}:${plan.lesson}`).slice(0, 4)).toEqual(['0:1', '0:2', '0:3', '1:1']);
+
+    const edited = updateLessonPlan(planned, { ...planned.lessonPlans![1], title: 'Mapping day' });
+    expect(edited.lessonPlans![1]).toMatchObject({ title: 'Mapping day', source: 'teacher' });
+    expect(edited.lessonPlans).toHaveLength(9);
+
+    const regenerated = replaceWeekPlans(edited, 0, buildTemplateLessonPlans(showcase, 0));
+    expect(regenerated.lessonPlans![1].title).toBe('Mapping day');
+  });
+
+  it('fits edited segments back to the period length', () => {
+    const [plan] = buildTemplateLessonPlans(showcase, 0);
+    const segments = fitSegmentsToPeriod(plan.segments.map(segment => ({ ...segment, minutes: segment.minutes * 2 })), 45);
+    expect(segments.reduce((sum, segment) => sum + segment.minutes, 0)).toBe(45);
+  });
+});
+
+describe('LessonPlanService', () => {
+  afterEach(() => {
+    setAIProvider(null);
+  });
+
+  it('fits the model\'s lessons to the period and keeps local materials and exit tickets', async () => {
+    const provider = scriptedProvider([JSON.stringify({
+      lessons: [
+        {
+          title: 'Heat hunt',
+          objectives: ['Students will measure surface heat'],
+          segments: [
+            { kind: 'mini-lesson', title: 'Sensor demo', minutes: 15, grouping: 'whole class', teacher: 'Demo the thermometer', students: 'Predict readings' },
+            { kind: 'work-time', title: 'Schoolyard readings', minutes: 30, grouping: 'small groups', teacher: 'Rotate between zones', students: 'Log ten readings' }
+          ],
+          differentiation: { support: ['Pre-filled log template'] }
+        }
+      ]
+    })]);
+    setAIProvider(provider);
+
+    const plans = await new LessonPlanService().generateWeek(showcase, 0);
+
+    expect(plans).toHaveLength(3);
+    expect(plans[0]).toMatchObject({ title: 'Heat hunt', source: 'ai', materials: ['IR thermometers', 'Clipboards', 'Block map'] });
+    expect(plans[0].segments.map(segment => segment.kind)).toEqual(['warm-up', 'mini-lesson', 'work-time', 'exit-ticket']);
+    expect(plans[0].segments.reduce((sum, segment) => sum + segment.minutes, 0)).toBe(45);
+    expect(plans[0].differentiation.support).toEqual(['Pre-filled log template']);
+    expect(plans[0].differentiation.multilingual.length).toBeGreaterThan(0);
+    expect(plans[1].source).toBe('template');
+    expect(provider.requests[0].prompt).toContain('Write exactly 3 lessons of 45 minutes');
+  });
+
+  it('falls back to the template when the model is unavailable', async () => {
+    setAIProvider(scriptedProvider(['']));
+
+    const updated = await new LessonPlanService().planWeek(showcase, 0);
+
+    expect(updated.lessonPlans).toEqual(buildTemplateLessonPlans(showcase, 0));
+  });
+});
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ShareService, createShareSlug, toPublicShowcase, type ShareServiceOptions, type ShareUser } from '../ShareService';
+import { MemoryShareStore } from '../ShareStore';
+import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
+
+const showcase = {
+  id: 'p1',
+  hero: {
+    title: 'River <b>Study</b>',
+    tagline: 'Rivers & people',
+    gradeBand: 'MS',
+    timeframe: '4–6 weeks',
+    subjects: ['Science'],
+    image: 'data:image/png;base64,AAAA'
+  },
+  microOverview: ['Students <script>alert(1)</script>map the river.'],
+  runOfShow: [],
+  assignments: [{ id: 'A1', title: 'Map the river' }],
+  planningNotes: 'Call the parks department first.',
+  standardsAlignment: [
+    { id: 'MS-ESS2-1@week:0', code: 'MS-ESS2-1', target: { kind: 'week', weekIndex: 0 }, rationale: '', confidence: 0.8, status: 'accepted', source: 'ai' },
+    { id: 'MS-LS2-4@week:0', code: 'MS-LS2-4', target: { kind: 'week', weekIndex: 0 }, rationale: '', confidence: 0.4, status: 'proposed', source: 'ai' }
+  ]
+} as unknown as ProjectShowcaseV2;
+
+type SaveProject = NonNullable<ShareServiceOptions['saveProject']>;
+
+const teacher: ShareUser = { id: 'teacher-1', name: 'Ms. Rivera', email: 'rivera@school.org', emailVerified: true };
+const colleague: ShareUser = { id: 'colleague-1', name: 'Mr. Lee', email: 'Lee@School.org', emailVerified: true };
+const stranger: ShareUser = { id: 'stranger-1', email: 'someone@else.org', emailVerified: true };
+
+describe('ShareService', () => {
+  let currentUser: ShareUser | undefined;
+  let saveProject: jest.MockedFunction<SaveProject>;
+  let service: ShareService;
+
+  beforeEach(() => {
+    let clock = Date.UTC(2026, 0, 5, 15);
+    currentUser = teacher;
+    saveProject = jest.fn<SaveProject>(async project => project.id ?? '');
+    service = new ShareService({
+      store: new MemoryShareStore(),
+      resolveUser: async () => currentUser,
+      saveProject,
+      now: () => (clock += 1000)
+    });
+  });
+
+  it('creates unguessable url-safe slugs', () => {
+    const slug = createShareSlug();
+    expect(slug).toMatch(/^[A-Za-z0-9_-]{22}$/);
+    expect(createShareSlug()).not.toBe(slug);
+  });
+
+  it('publishes a sanitized copy without teacher-only content', () => {
+    const copy = toPublicShowcase(showcase, 'slug-1');
+    expect(copy.id).toBe('slug-1');
+    expect(copy.hero.title).toBe('River Study');
+    expect(copy.hero.tagline).toBe('Rivers & people');
+    expect(copy.hero.image).toBeUndefined();
+    expect(copy.microOverview[0]).toBe('Students map the river.');
+    expect(copy.planningNotes).toBeUndefined();
+    expect(copy.standardsAlignment?.map(link => link.code)).toEqual(['MS-ESS2-1']);
+  });
+
+  it('keeps one link per project and limits private links to invited emails', async () => {
+    const share = await service.shareProject({ projectId: 'p1', showcase, sharedWith: [' LEE@school.org ', 'rivera@school.org'] });
+    expect(share.sharedWith).toEqual(['lee@school.org']);
+
+    const refreshed = await service.shareProject({ projectId: 'p1', showcase });
+    expect(refreshed.slug).toBe(share.slug);
+    expect(refreshed.sharedWith).toEqual(['lee@school.org']);
+    expect(refreshed.createdAt).toBe(share.createdAt);
+
+    currentUser = colleague;
+    expect(await service.getShared(share.slug)).toMatchObject({ title: 'River Study' });
+    expect(await service.listSharedWithMe()).toHaveLength(1);
+    currentUser = { ...colleague, emailVerified: false };
+    expect(await service.getShared(share.slug)).toBeNull();
+    expect(await service.listSharedWithMe()).toEqual([]);
+    currentUser = stranger;
+    expect(await service.getShared(share.slug)).toBeNull();
+    currentUser = undefined;
+    expect(await service.getShared(share.slug)).toBeNull();
+    expect(await service.listPublicGallery()).toEqual([]);
+  });
+
+  it('lists public shares in the gallery and lets only the owner change or revoke them', async () => {
+    const share = await service.shareProject({ projectId: 'p1', showcase, isPublic: true, sharedWith: ['lee@school.org'] });
+    expect((await service.listMyShares('p1'))[0].sharedWith).toEqual(['lee@school.org']);
+
+    currentUser = undefined;
+    expect(await service.getShared(share.slug)).not.toHaveProperty('sharedWith');
+    const gallery = await service.listPublicGallery();
+    expect(gallery.map(item => item.slug)).toEqual([share.slug]);
+    expect(JSON.stringify(gallery)).not.toContain('lee@school.org');
+
+    currentUser = stranger;
+    await expect(service.updateSharing(share.slug, { isPublic: false })).rejects.toThrow('Only the owner');
+    await expect(service.revokeShare(share.slug)).rejects.toThrow('Only the owner');
+
+    currentUser = teacher;
+    await expect(service.updateSharing(share.slug, { sharedWith: ['not-an-email'] })).rejects.toThrow('not a valid email');
+    await service.revokeShare(share.slug);
+    currentUser = stranger;
+    expect(await service.getShared(share.slug)).toBeNull();
+    expect(await service.listPublicGallery()).toEqual([]);
+  });
+
+  it('never publishes an email as the owner name', async () => {
+    currentUser = { ...teacher, name: 'rivera@school.org' };
+    const share = await service.shareProject({ projectId: 'p1', showcase, isPublic: true });
+
+    currentUser = undefined;
+    expect((await service.getShared(share.slug))?.ownerName).toBeUndefined();
+  });
+
+  it('rejects sharing from anonymous accounts', async () => {
+    currentUser = { id: 'anon', anonymous: true };
+    await expect(service.shareProject({ projectId: 'p1', showcase })).rejects.toThrow('Sign in');
+  });
+
+  it('duplicates a shared project into the viewer workspace as a deep copy', async () => {
+    const share = await service.shareProject({ projectId: 'p1', showcase, isPublic: true });
+    currentUser = stranger;
+    const projectId = await service.duplicateIntoWorkspace(share.slug);
+
+    const saved = saveProject.mock.calls[0][0];
+    expect(saved).toMatchObject({
+      id: projectId,
+      userId: 'stranger-1',
+      title: 'River Study',
+      source: 'import',
+      projectData: { sharedFrom: { slug: share.slug, ownerName: 'Ms. Rivera' } }
+    });
+    const copy = saved.showcase as ProjectShowcaseV2;
+    expect(copy.id).toBe(projectId);
+    copy.hero.title = 'Edited';
+    expect((await service.getShared(share.slug))?.showcase.hero.title).toBe('River Study');
+  });
+});
@@ -0,0 +1,193 @@
+import { mergeShowcases } from '../ShowcaseMerge';
+import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
+
+function makeShowcase(): ProjectShowcaseV2 {
+  return {
+    id: 'p1',
+    version: '2.0.0',
+    hero: {
+      title: 'River Restoration',
+      tagline: 'Students restore a local creek',
+      gradeBand: 'MS',
+      timeframe: '4–6 weeks',
+      subjects: ['Science']
+    },
+    microOverview: ['Students investigate creek health.'],
+    schedule: { totalWeeks: 2, lessonsPerWeek: 3, lessonLengthMin: 50 },
+    runOfShow: [
+      {
+        weekLabel: 'Week 1',
+        kind: 'Foundations',
+        focus: 'Map the watershed',
+        teacher: ['Launch with site photos'],
+        students: ['Sketch the watershed'],
+        deliverables: ['Watershed map'],
+        assignments: ['A1']
+      },
+      {
+        weekLabel: 'Week 2',
+        kind: 'FieldworkLoop',
+        focus: 'Sample water quality',
+        teacher: ['Model sampling protocol'],
+        students: ['Collect samples'],
+        deliverables: ['Data table'],
+        assignments: ['A2']
+      }
+    ],
+    outcomes: { core: ['Explain watershed health'], extras: [], audiences: ['City council'] },
+    materialsPrep: { coreKit: ['Test kits'], noTechFallback: [] },
+    assignments: [
+      {
+        id: 'A1',
+        title: 'Watershed Map',
+        summary: 'Map the creek watershed.',
+        studentDirections: ['Trace the creek'],
+        teacherSetup: ['Print base maps'],
+        evidence: ['Annotated map'],
+        successCriteria: ['I label inflows'],
+        rubric: {
+          criteria: [
+            {
+              name: 'Accuracy',
+              levels: { exemplary: 'All features', proficient: 'Most features', developing: 'Some features', beginning: 'Few features' }
+            },
+            {
+              name: 'Clarity',
+              levels: { exemplary: 'Very clear', proficient: 'Clear', developing: 'Unclear', beginning: 'Confusing' }
+            }
+          ]
+        }
+      },
+      {
+        id: 'A2',
+        title: 'Water Sampling',
+        summary: 'Collect and record samples.',
+        studentDirections: ['Collect three samples'],
+        teacherSetup: ['Prepare kits'],
+        evidence: ['Data table'],
+        successCriteria: ['I record units']
+      }
+    ]
+  };
+}
+
+describe('mergeShowcases', () => {
+  test('auto-resolves edits to different weeks and assignments', () => {
+    const base = makeShowcase();
+    const local = makeShowcase();
+    const cloud = makeShowcase();
+
+    local.runOfShow[0].focus = 'Map the watershed and its inflows';
+    cloud.runOfShow[1].focus = 'Sample and compare water quality';
+    cloud.assignments[1].summary = 'Collect, record and compare samples.';
+
+    const result = mergeShowcases(base, local, cloud);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged.runOfShow[0].focus).toBe('Map the watershed and its inflows');
+    expect(result.merged.runOfShow[1].focus).toBe('Sample and compare water quality');
+    expect(result.merged.assignments[1].summary).toBe('Collect, record and compare samples.');
+    expect(result.autoResolved).toBeGreaterThanOrEqual(3);
+  });
+
+  test('keeps assignments and weeks added on either device', () => {
+    const base = makeShowcase();
+    const local = makeShowcase();
+    const cloud = makeShowcase();
+
+    local.assignments.push({ ...base.assignments[1], id: 'A3', title: 'Council Pitch' });
+    cloud.runOfShow.push({ ...base.runOfShow[1], weekLabel: 'Week 3', focus: 'Present findings' });
+
+    const result = mergeShowcases(base, local, cloud);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged.assignments.map(a => a.id)).toEqual(['A1', 'A2', 'A3']);
+    expect(result.merged.runOfShow.map(w => w.weekLabel)).toEqual(['Week 1', 'Week 2', 'Week 3']);
+  });
+
+  test('treats a renamed week as an edit to that week card', () => {
+    const base = makeShowcase();
+    const local = makeShowcase();
+    const cloud = makeShowcase();
+
+    local.runOfShow[1].weekLabel = 'Weeks 2–3';
+    cloud.runOfShow[1].focus = 'Sample and compare water quality';
+
+    const result = mergeShowcases(base, local, cloud);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged.runOfShow).toHaveLength(2);
+    expect(result.merged.runOfShow[1]).toMatchObject({ weekLabel: 'Weeks 2–3', focus: 'Sample and compare water quality' });
+  });
+
+  test('merges rubric criteria independently within one assignment', () => {
+    const base = makeShowcase();
+    const local = makeShowcase();
+    const cloud = makeShowcase();
+
+    local.assignments[0].rubric!.criteria[0].levels.proficient = 'Most features, labeled';
+    cloud.assignments[0].rubric!.criteria[1].levels.exemplary = 'Clear to any reader';
+
+    const result = mergeShowcases(base, local, cloud);
+    const criteria = result.merged.assignments[0].rubric!.criteria;
+
+    expect(result.conflicts).toEqual([]);
+    expect(criteria[0].levels.proficient).toBe('Most features, labeled');
+    expect(criteria[1].levels.exemplary).toBe('Clear to any reader');
+  });
+
+  test('surfaces only the field both devices changed', () => {
+    const base = makeShowcase();
+    const local = makeShowcase();
+    const cloud = makeShowcase();
+
+    local.assignments[0].title = 'Watershed Field Map';
+    cloud.assignments[0].title = 'Creek Watershed Map';
+    cloud.hero.tagline = 'Students restore and monitor a local creek';
+
+    const result = mergeShowcases(base, local, cloud);
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({
+      path: 'assignments[A1].title',
+      label: 'Assignment A1 › title',
+      base: 'Watershed Map',
+      local: 'Watershed Field Map',
+      cloud: 'Creek Watershed Map'
+    });
+    expect(result.merged.assignments[0].title).toBe('Watershed Field Map');
+    expect(result.merged.hero.tagline).toBe('Students restore and monitor a local creek');
+
+    const resolved = mergeShowcases(base, local, cloud, { 'assignments[A1].title': 'cloud' });
+    expect(resolved.merged.assignments[0].title).toBe('Creek Watershed Map');
+  });
+
+  test('honours deletes of untouched items and flags delete-vs-edit', () => {
+    const base = makeShowcase();
+    const local = makeShowcase();
+    const cloud = makeShowcase();
+
+    local.assignments = local.assignments.filter(a => a.id !== 'A2');
+    const deleted = mergeShowcases(base, local, cloud);
+    expect(deleted.conflicts).toEqual([]);
+    expect(deleted.merged.assignments.map(a => a.id)).toEqual(['A1']);
+
+    cloud.assignments[1].summary = 'Edited on the Chromebook';
+    const contested = mergeShowcases(base, local, cloud);
+    expect(contested.conflicts.map(c => c.path)).toEqual(['assignments[A2]']);
+    expect(contested.merged.assignments.map(a => a.id)).toEqual(['A1']);
+
+    const kept = mergeShowcases(base, local, cloud, { 'assignments[A2]': 'cloud' });
+    expect(kept.merged.assignments[1].summary).toBe('Edited on the Chromebook');
+  });
+
+  test('treats every difference as a conflict when no base is known', () => {
+    const local = makeShowcase();
+    const cloud = makeShowcase();
+    cloud.hero.title = 'Creek Restoration';
+
+    const result = mergeShowcases(null, local, cloud);
+
+    expect(result.conflicts.map(c => c.path)).toEqual(['hero.title']);
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  StandardsAlignmentService,
+  buildCoverageMatrix,
+  listAlignmentTargets,
+  mergeAlignmentProposals,
+  setAlignmentStatus
+} from '../StandardsAlignmentService';
+import { standardsCatalog } from '../StandardsCatalog';
+import { mergeShowcases } from '../ShowcaseMerge';
+import { setAIProvider, type AIProvider, type AIRequest } from '../../ai/providers';
+import type { ProjectShowcaseV2, StandardAlignmentLink } from '../../types/showcaseV2';
+
+function scriptedProvider(responses: string[]): AIProvider & { requests: AIRequest[] } {
+  const requests: AIRequest[] = [];
+  return {
+    name: 'local',
+    requests,
+    async generate(request) {
+      requests.push(request);
+      return { text: responses.shift() ?? '', model: 'scripted' };
+    },
+    async stream() { return null; },
+    countTokens: text => text.length
+  };
+}
+
+const showcase = {
+  id: 'heat',
+  version: '2',
+  hero: { title: 'Urban Heat', tagline: 'Cool the block', gradeBand: 'MS', timeframe: '2–4 weeks', subjects: ['Science'] },
+  microOverview: [],
+  schedule: { totalWeeks: 2, lessonsPerWeek: 3, lessonLengthMin: 50 },
+  runOfShow: [
+    { weekLabel: 'Week 1', kind: 'Foundations', focus: 'Monitor human impact on the schoolyard environment', teacher: [], students: ['Log surface temperatures'], deliverables: [] },
+    { weekLabel: 'Week 2', kind: 'Build', focus: 'Design shade prototypes', teacher: [], students: ['Test materials'], deliverables: ['Prototype'] }
+  ],
+  outcomes: { core: [], extras: [], audiences: [] },
+  materialsPrep: { coreKit: [], noTechFallback: [] },
+  assignments: [
+    {
+      id: 'A1',
+      title: 'Heat map brief',
+      summary: 'Explain rising temperatures with evidence',
+      studentDirections: [],
+      teacherSetup: [],
+      evidence: ['Temperature data table'],
+      successCriteria: [],
+      rubric: {
+        criteria: [{ name: 'Evidence use', levels: { exemplary: '', proficient: 'Cites temperature evidence', developing: '', beginning: '' } }]
+      }
+    }
+  ]
+} as unknown as ProjectShowcaseV2;
+
+function link(code: string, target: StandardAlignmentLink['target'], status: StandardAlignmentLink['status']): StandardAlignmentLink {
+  const key = target.kind === 'week' ? `week:${target.weekIndex}` : target.kind === 'assignment' ? `assignment:${target.assignmentId}` : `criterion:${target.assignmentId}:${target.criterion}`;
+  return { id: `${code}@${key}`, code, target, rationale: 'fits', confidence: 0.8, status, source: 'ai' };
+}
+
+describe('listAlignmentTargets', () => {
+  it('covers weeks, assignments and rubric criteria', () => {
+    expect(listAlignmentTargets(showcase).map(t => t.key)).toEqual([
+      'week:0',
+      'week:1',
+      'assignment:A1',
+      'criterion:A1:Evidence use'
+    ]);
+  });
+});
+
+describe('StandardsAlignmentService with only built-in standards', () => {
+  afterEach(() => {
+    setAIProvider(null);
+  });
+
+  it('proposes built-in codes before any framework is imported', async () => {
+    setAIProvider(scriptedProvider(['']));
+
+    const links = await new StandardsAlignmentService().generateProposals(showcase);
+
+    expect(links.map(l => l.framework)).toContain('NGSS');
+    expect(links.every(l => l.source === 'catalog')).toBe(true);
+  });
+});
+
+describe('StandardsAlignmentService', () => {
+  beforeAll(async () => {
+    await standardsCatalog.importCSV([
+      'code,label,description,grades,subjects',
+      'MS-ESS3-3,Human impact,Apply scientific principles to design a method for monitoring and minimizing a human impact on the environment,6-8,Science',
+      'MS-ESS3-5,Global temperatures,Ask questions to clarify evidence of the factors that have caused the rise in global temperatures,6-8,Science',
+      'MS-ETS1-1,Engineering design,Define the criteria and constraints of a design problem,6-8,Science;Engineering'
+    ].join('\n'), { framework: 'TEST-SCI' });
+  });
+
+  afterEach(() => {
+    setAIProvider(null);
+  });
+
+  it('keeps only catalog codes for known targets from the model', async () => {
+    const provider = scriptedProvider([JSON.stringify({
+      alignments: [
+        { target: 'week:0', code: 'MS-ESS3-3', rationale: 'Students monitor schoolyard heat.', confidence: 0.9 },
+        { target: 'criterion:A1:Evidence use', code: 'MS-ESS3-5', rationale: 'Criterion scores temperature evidence.', confidence: 0.7 },
+        { target: 'week:0', code: 'MADE-UP-1', rationale: 'Hallucinated code.', confidence: 0.9 },
+        { target: 'week:9', code: 'MS-ESS3-3', rationale: 'Unknown target.', confidence: 0.9 }
+      ]
+    })]);
+    setAIProvider(provider);
+
+    const links = await new StandardsAlignmentService().generateProposals(showcase, { frameworks: ['TEST-SCI'] });
+
+    expect(links.map(l => l.id)).toEqual(['MS-ESS3-3@week:0', 'MS-ESS3-5@criterion:A1:Evidence use']);
+    expect(links[0]).toMatchObject({ framework: 'TEST-SCI', label: 'Human impact', status: 'proposed', source: 'ai', confidence: 0.9 });
+    expect(provider.requests[0].prompt).toContain('MS-ESS3-3 — Human impact');
+  });
+
+  it('falls back to catalog matches when the model is unavailable', async () => {
+    setAIProvider(scriptedProvider(['']));
+
+    const links = await new StandardsAlignmentService().generateProposals(showcase, { frameworks: ['TEST-SCI'], maxPerTarget: 1 });
+
+    expect(links.find(l => l.target.kind === 'week' && l.target.weekIndex === 0)?.code).toBe('MS-ESS3-3');
+    expect(links.every(l => l.source === 'catalog' && l.status === 'proposed')).toBe(true);
+  });
+});
+
+describe('alignment decisions', () => {
+  it('keeps decisions and drops rejected links from new proposals', () => {
+    const existing = [
+      link('MS-ESS3-3', { kind: 'week', weekIndex: 0 }, 'accepted'),
+      link('MS-ETS1-1', { kind: 'week', weekIndex: 0 }, 'rejected'),
+      link('MS-ESS3-5', { kind: 'week', weekIndex: 1 }, 'proposed')
+    ];
+    const proposals = [
+      link('MS-ESS3-3', { kind: 'week', weekIndex: 0 }, 'proposed'),
+      link('MS-ETS1-1', { kind: 'week', weekIndex: 0 }, 'proposed'),
+      link('MS-ETS1-1', { kind: 'week', weekIndex: 1 }, 'proposed')
+    ];
+
+    expect(mergeAlignmentProposals(existing, proposals).map(l => `${l.id}:${l.status}`)).toEqual([
+      'MS-ESS3-3@week:0:accepted',
+      'MS-ETS1-1@week:0:rejected',
+      'MS-ETS1-1@week:1:proposed'
+    ]);
+  });
+
+  it('builds a taught vs. assessed matrix from accepted links', () => {
+    let aligned: ProjectShowcaseV2 = {
+      ...showcase,
+      standardsAlignment: [
+        link('MS-ESS3-3', { kind: 'week', weekIndex: 0 }, 'proposed'),
+        link('MS-ESS3-3', { kind: 'criterion', assignmentId: 'A1', criterion: 'Evidence use' }, 'accepted'),
+        link('MS-ETS1-1', { kind: 'week', weekIndex: 1 }, 'accepted'),
+        link('MS-ESS3-5', { kind: 'assignment', assignmentId: 'A1' }, 'accepted'),
+        link('MS-ESS3-5', { kind: 'week', weekIndex: 1 }, 'rejected')
+      ]
+    };
+    aligned = setAlignmentStatus(aligned, 'MS-ESS3-3@week:0', 'accepted');
+
+    const matrix = buildCoverageMatrix(aligned);
+
+    expect(matrix.rows).toEqual([
+      expect.objectContaining({ code: 'MS-ESS3-3', taught: [0], assessed: ['A1'], status: 'taught-and-assessed' }),
+      expect.objectContaining({ code: 'MS-ESS3-5', taught: [], assessed: ['A1'], status: 'assessed-only' }),
+      expect.objectContaining({ code: 'MS-ETS1-1', taught: [1], assessed: [], status: 'taught-only' })
+    ]);
+    expect(matrix.summary).toEqual({ taughtAndAssessed: 1, taughtOnly: 1, assessedOnly: 1 });
+  });
+
+  it('merges accept/reject decisions link by link across devices', () => {
+    const proposed = [
+      link('MS-ESS3-3', { kind: 'week', weekIndex: 0 }, 'proposed'),
+      link('MS-ETS1-1', { kind: 'week', weekIndex: 1 }, 'proposed')
+    ];
+    const base = { ...showcase, standardsAlignment: proposed };
+    const local = setAlignmentStatus(base, 'MS-ESS3-3@week:0', 'accepted');
+    const cloud = setAlignmentStatus(base, 'MS-ETS1-1@week:1', 'rejected');
+
+    const { merged, conflicts } = mergeShowcases(base, local, cloud);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.standardsAlignment?.map(l => l.status)).toEqual(['accepted', 'rejected']);
+  });
+});
@@ -0,0 +1,140 @@
+import { StandardsCatalog, expandGrades, parseCSV } from '../StandardsCatalog';
+import { searchStandards, getRecommendedStandards } from '../../data/standardsDatabase';
+
+const casePackage = {
+  CFDocument: { identifier: 'doc-1', title: 'Next Generation Science Standards', version: '2013' },
+  CFItems: [
+    { identifier: 'ms-ess3', fullStatement: 'Earth and Human Activity', CFItemType: 'Topic', educationLevel: ['06', '07', '08'] },
+    {
+      identifier: 'ms-ess3-3',
+      humanCodingScheme: 'MS-ESS3-3',
+      fullStatement: 'Apply scientific principles to design a method for monitoring and minimizing a human impact on the environment.',
+      subject: ['Science']
+    },
+    {
+      identifier: 'ms-ess3-5',
+      humanCodingScheme: 'MS-ESS3-5',
+      abbreviatedStatement: 'Global temperatures',
+      fullStatement: 'Ask questions to clarify evidence of the factors that have caused the rise in global temperatures over the past century.',
+      educationLevel: ['KG', '01'],
+      subject: ['Science']
+    }
+  ],
+  CFAssociations: [
+    { associationType: 'isChildOf', originNodeURI: { identifier: 'ms-ess3-3' }, destinationNodeURI: { identifier: 'ms-ess3' } },
+    { associationType: 'isChildOf', originNodeURI: { identifier: 'ms-ess3-5' }, destinationNodeURI: { identifier: 'ms-ess3' } }
+  ]
+};
+
+const stateCSV = [
+  'code,label,description,grades,subjects',
+  'TX.6.1,Scientific inquiry,"Plan and conduct investigations, including ""fair tests""",6-8,Science',
+  'TX.6.2,Water cycle,Model how water moves through the environment,6;7,Science;Geography',
+  'TX.9.1,Civic participation,Evaluate how citizens influence local government,9-12,Social Studies',
+  ',Missing code,Skipped row,6,Science'
+].join('\n');
+
+describe('StandardsCatalog importers', () => {
+  it('imports CASE items with parent labels and inherited grades', async () => {
+    const catalog = new StandardsCatalog();
+    const result = await catalog.importCASE({ CFPackage: casePackage });
+
+    expect(result).toEqual({ framework: 'NGSS', imported: 2, skipped: 1 });
+    const [standard] = await catalog.search('NGSS', 'MS-ESS3-3');
+    expect(standard).toMatchObject({
+      code: 'MS-ESS3-3',
+      label: 'Earth and Human Activity',
+      gradeLevel: ['6', '7', '8'],
+      subjects: ['Science']
+    });
+
+    const [normalized] = await catalog.search('NGSS', 'MS-ESS3-5');
+    expect(normalized.gradeLevel).toEqual(['K', '1']);
+  });
+
+  it('rejects payloads that are not CASE packages', async () => {
+    await expect(new StandardsCatalog().importCASE({ hello: 'world' })).rejects.toThrow('Not a CASE package');
+  });
+
+  it('imports state standards from CSV and reports skipped rows', async () => {
+    const catalog = new StandardsCatalog();
+    const result = await catalog.importCSV(stateCSV, { title: 'Texas TEKS' });
+
+    expect(result).toEqual({ framework: 'STATE', imported: 3, skipped: 1 });
+    const all = await catalog.search('STATE', '');
+    expect(all[0].description).toBe('Plan and conduct investigations, including "fair tests"');
+    expect(all[1]).toMatchObject({ gradeLevel: ['6', '7'], subjects: ['Science', 'Geography'] });
+
+    const frameworks = await catalog.listFrameworks();
+    expect(frameworks.find(f => f.id === 'STATE')).toMatchObject({ title: 'Texas TEKS', source: 'csv', count: 3 });
+  });
+});
+
+describe('StandardsCatalog search', () => {
+  let catalog: StandardsCatalog;
+
+  beforeEach(async () => {
+    catalog = new StandardsCatalog();
+    await catalog.importCSV(stateCSV);
+  });
+
+  it('ranks label matches above description matches', async () => {
+    await catalog.importCSV([
+      'code,label,description,grades,subjects',
+      'A.1,Energy transfer,Describe how systems change over time,6,Science',
+      'A.2,Systems thinking,Explain energy flow between organisms,6,Science'
+    ].join('\n'), { framework: 'RANK' });
+
+    const results = await catalog.search('RANK', 'energy');
+    expect(results.map(s => s.code)).toEqual(['A.1', 'A.2']);
+  });
+
+  it('matches the last term as a prefix for type-ahead', async () => {
+    const results = await catalog.search('STATE', 'wat');
+    expect(results.map(s => s.code)).toEqual(['TX.6.2']);
+  });
+
+  it('filters by grade band and subject indexes', async () => {
+    expect((await catalog.search('STATE', '', { gradeLevel: 'High School (9-12)' })).map(s => s.code)).toEqual(['TX.9.1']);
+    expect((await catalog.search('STATE', '', { gradeLevel: '8', subjects: ['Science'] })).map(s => s.code)).toEqual(['TX.6.1']);
+  });
+
+  it('lets an imported framework replace the built-in seed', async () => {
+    catalog.registerBuiltins({ NGSS: [{ code: 'OLD-1', label: 'Seed', description: 'Seed entry', gradeLevel: ['6'], subjects: ['Science'] }] });
+    expect((await catalog.search('NGSS', '')).map(s => s.code)).toEqual(['OLD-1']);
+
+    await catalog.importCASE(casePackage);
+    expect((await catalog.search('NGSS', '')).map(s => s.code)).toEqual(['MS-ESS3-3', 'MS-ESS3-5']);
+
+    await catalog.removeFramework('NGSS');
+    expect((await catalog.search('NGSS', '')).map(s => s.code)).toEqual(['OLD-1']);
+  });
+});
+
+describe('expandGrades', () => {
+  it('understands ranges, lists and band names', () => {
+    expect(expandGrades('K-2')).toEqual(['K', '1', '2']);
+    expect(expandGrades('9;10')).toEqual(['9', '10']);
+    expect(expandGrades('middle')).toEqual(['6', '7', '8']);
+    expect(expandGrades('Mixed')).toEqual([]);
+  });
+
+  it('parses quoted CSV fields', () => {
+    expect(parseCSV('a,"b,c"\r\n"d ""e""",f')).toEqual([['a', 'b,c'], ['d "e"', 'f']]);
+  });
+});
+
+describe('standardsDatabase API', () => {
+  it('searches the built-in seed through the catalog', async () => {
+    const results = await searchStandards('NGSS', 'engineering design', '4');
+    expect(results[0].code).toBe('3-5-ETS1-1');
+  });
+
+  it('recommends standards per framework for grade and subjects', async () => {
+    const recommendations = await getRecommendedStandards('7', ['Science']);
+    const ngss = recommendations.find(r => r.framework === 'NGSS');
+    expect(ngss?.standards.length).toBeGreaterThan(0);
+    expect(ngss?.standards.length).toBeLessThanOrEqual(3);
+    ngss?.standards.forEach(s => expect(s.gradeLevel).toContain('7'));
+  });
+});
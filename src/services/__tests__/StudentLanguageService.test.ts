@@ -0,0 +1,106 @@
+import {
+  StudentLanguageService,
+  applyStudentText,
+  languageInstruction,
+  resolveStudentLanguage,
+  studentText
+} from '../StudentLanguageService';
+import { setAIProvider, type AIProvider, type AIRequest } from '../../ai/providers';
+import type { AssignmentCard, ProjectShowcaseV2 } from '../../types/showcaseV2';
+
+function scriptedProvider(responses: string[]): AIProvider & { requests: AIRequest[] } {
+  const requests: AIRequest[] = [];
+  return {
+    name: 'local',
+    requests,
+    async generate(request) {
+      requests.push(request);
+      return { text: responses.shift() ?? '', model: 'scripted' };
+    },
+    async stream() { return null; },
+    countTokens: text => text.length
+  };
+}
+
+const card = (id: string, title: string): AssignmentCard => ({
+  id,
+  title,
+  summary: `${title} summary`,
+  studentDirections: ['Measure surface temps'],
+  teacherSetup: ['Calibrate thermometers'],
+  evidence: ['Data table'],
+  successCriteria: ['I can explain heat patterns'],
+  checkpoint: 'Log has 10 readings'
+});
+
+const showcase = {
+  id: 'heat',
+  version: '2',
+  hero: { title: 'Urban Heat', tagline: 'Cool the block', gradeBand: 'MS', timeframe: '2–4 weeks', subjects: ['Science'] },
+  microOverview: [],
+  schedule: { totalWeeks: 2, lessonsPerWeek: 3, lessonLengthMin: 45 },
+  runOfShow: [],
+  outcomes: { core: [], extras: [], audiences: [] },
+  materialsPrep: { coreKit: [], noTechFallback: [] },
+  assignments: [card('A1', 'Heat map'), card('A2', 'Route pitch')]
+} as ProjectShowcaseV2;
+
+describe('student language helpers', () => {
+  it('defaults the student language to the UI language', () => {
+    expect(resolveStudentLanguage(showcase, 'en')).toBe('en');
+    expect(resolveStudentLanguage({ ...showcase, studentLanguage: 'es' }, 'en')).toBe('es');
+  });
+
+  it('names both audiences in the prompt instruction only when they differ', () => {
+    expect(languageInstruction('en', 'en')).toBe('Write everything in English.');
+    expect(languageInstruction('es', 'en')).toContain('teacher-facing text in English');
+    expect(languageInstruction('es', 'en')).toContain('family-facing text in Spanish');
+  });
+
+  it('keeps the card text and adds a localized copy', () => {
+    const localized = applyStudentText(showcase, 'es', [{
+      id: 'A1',
+      title: 'Mapa de calor',
+      summary: '',
+      studentDirections: ['Mide la temperatura'],
+      successCriteria: ['Puedo explicar el calor'],
+      evidence: []
+    }]);
+
+    expect(localized.studentLanguage).toBe('es');
+    expect(localized.assignments[0].title).toBe('Heat map');
+    expect(studentText(localized.assignments[0], 'es')).toMatchObject({ title: 'Mapa de calor', evidence: ['Data table'] });
+    expect(studentText(localized.assignments[1], 'es').title).toBe('Route pitch');
+    expect(studentText(localized.assignments[0], 'en').title).toBe('Heat map');
+  });
+});
+
+describe('StudentLanguageService', () => {
+  afterEach(() => {
+    setAIProvider(null);
+  });
+
+  it('writes student-facing fields in the student language', async () => {
+    const provider = scriptedProvider([JSON.stringify({
+      assignments: [
+        { id: 'A1', title: 'Mapa de calor', summary: 'Mide el calor.', studentDirections: ['Mide la temperatura'], successCriteria: ['Puedo explicar el calor'], evidence: ['Tabla de datos'] },
+        { id: 'A2', title: 'Propuesta de ruta', summary: 'Propón una ruta.', studentDirections: ['Dibuja la ruta'], successCriteria: ['Puedo defender mi ruta'] }
+      ]
+    })]);
+    setAIProvider(provider);
+
+    const updated = await new StudentLanguageService().localizeShowcase(showcase, 'es');
+
+    expect(updated.assignments.map(assignment => assignment.localized?.title)).toEqual(['Mapa de calor', 'Propuesta de ruta']);
+    expect(updated.assignments[1].localized?.evidence).toEqual(['Data table']);
+    expect(updated.assignments[0].teacherSetup).toEqual(['Calibrate thermometers']);
+    expect(provider.requests[0].prompt).toContain('in Spanish');
+    expect(provider.requests[0].prompt).not.toContain('Calibrate thermometers');
+  });
+
+  it('throws when the model is unavailable instead of inventing a translation', async () => {
+    setAIProvider(scriptedProvider(['']));
+
+    await expect(new StudentLanguageService().localizeShowcase(showcase, 'es')).rejects.toThrow('Spanish');
+  });
+});
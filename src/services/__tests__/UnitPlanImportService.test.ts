@@ -0,0 +1,192 @@
+import {
+  UnitPlanImportService,
+  buildImportedProject,
+  buildImportedShowcase,
+  calibrateConfidence,
+  confidenceLevel,
+  parseUnitPlanText,
+  type UnitPlanDraft
+} from '../UnitPlanImportService';
+import { unifiedStorage, type UnifiedProjectData } from '../UnifiedStorageManager';
+import { setAIProvider, type AIProvider, type AIRequest } from '../../ai/providers';
+import { lintShowcase } from '../../utils/showcaseLint';
+import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
+
+function scriptedProvider(responses: string[]): AIProvider & { requests: AIRequest[] } {
+  const requests: AIRequest[] = [];
+  return {
+    name: 'local',
+    requests,
+    async generate(request) {
+      requests.push(request);
+      return { text: responses.shift() ?? '', model: 'scripted' };
+    },
+    async stream() { return null; },
+    countTokens: text => text.length
+  };
+}
+
+const plan = `# Urban Heat Islands
+**Grade:** 7
+**Subjects:** Science, Math
+Duration: 3 weeks
+## Big Idea
+Surfaces we build change how hot a neighborhood gets.
+Essential Question: How can we cool the hottest block near our school?
+Final product: A shade proposal pitched to city planners
+## Week 1: Why are some blocks hotter?
+- Walk the block
+- Log surface temperatures
+Checkpoint: Heat log reviewed
+## Assignment 1: Heat Log
+Record surface temperatures at five spots.
+- Take readings at recess
+- I can log accurate readings
+Evidence: Heat log
+## Week 2: Measure and compare
+- Compare sun and shade readings
+## Week 3: Pitch the design
+- Rehearse the pitch
+## Assignment 2: Shade Pitch
+Pitch a shade design to planners.
+- Build a model
+`;
+
+describe('parseUnitPlanText', () => {
+  it('reads labeled fields, weekly phases and assignments', () => {
+    const parsed = parseUnitPlanText(plan);
+
+    expect(parsed).toMatchObject({
+      title: 'Urban Heat Islands',
+      subjects: ['Science', 'Math'],
+      gradeLevel: '7',
+      duration: '3 weeks',
+      bigIdea: 'Surfaces we build change how hot a neighborhood gets.',
+      essentialQuestion: 'How can we cool the hottest block near our school?',
+      challenge: 'A shade proposal pitched to city planners'
+    });
+    expect(parsed.phases.map(phase => [phase.name, phase.activities.length, phase.checkpoint])).toEqual([
+      ['Week 1: Why are some blocks hotter?', 2, 'Heat log reviewed'],
+      ['Week 2: Measure and compare', 1, undefined],
+      ['Week 3: Pitch the design', 1, undefined]
+    ]);
+    expect(parsed.assignments[0]).toEqual({
+      title: 'Heat Log',
+      summary: 'Record surface temperatures at five spots.',
+      studentDirections: ['Take readings at recess'],
+      evidence: ['Heat log'],
+      successCriteria: ['I can log accurate readings'],
+      phaseIndex: 0
+    });
+    expect(parsed.assignments[1].phaseIndex).toBe(2);
+    expect(parsed.confidence).toMatchObject({ title: 0.5, gradeLevel: 0.85, essentialQuestion: 0.85, phases: 0.7 });
+  });
+
+  it('falls back to patterns when nothing is labeled', () => {
+    const parsed = parseUnitPlanText('Heat and our school\nA four part science unit for grades 6-8 over 4 weeks.\nWhy is the blacktop so hot at recess?');
+
+    expect(parsed).toMatchObject({ title: 'Heat and our school', gradeLevel: 'Grades 6–8', duration: '4 weeks', essentialQuestion: 'Why is the blacktop so hot at recess?', subjects: ['Science'] });
+    expect(parsed.confidence.gradeLevel).toBe(0.5);
+    expect(parsed.confidence.challenge).toBe(0);
+  });
+});
+
+describe('calibrateConfidence', () => {
+  it('raises verbatim values and caps inferred ones', () => {
+    const parsed = parseUnitPlanText(plan);
+    const confidence = calibrateConfidence(
+      { ...parsed, bigIdea: 'Cities trap heat in pavement', challenge: '' },
+      { title: 0.5, bigIdea: 0.95, challenge: 0.9 },
+      plan
+    );
+
+    expect(confidence.title).toBe(0.8);
+    expect(confidence.bigIdea).toBe(0.7);
+    expect(confidence.challenge).toBe(0);
+    expect(confidenceLevel(confidence.title)).toBe('high');
+    expect(confidenceLevel(confidence.bigIdea)).toBe('medium');
+  });
+});
+
+describe('UnitPlanImportService', () => {
+  afterEach(() => {
+    setAIProvider(null);
+    jest.restoreAllMocks();
+  });
+
+  it('maps the plan with the model and fills its gaps from the parser', async () => {
+    const provider = scriptedProvider([JSON.stringify({
+      title: 'Urban Heat Islands',
+      subjects: ['Science'],
+      gradeLevel: 'Grade 7',
+      duration: '3 weeks',
+      projectTopic: 'Heat islands near school',
+      bigIdea: 'Surfaces we build change how hot a neighborhood gets.',
+      essentialQuestion: 'How can we cool the hottest block near our school?',
+      challenge: 'A shade proposal pitched to city planners',
+      phases: [],
+      assignments: [{ title: 'Heat Log', summary: 'Record temperatures.', studentDirections: ['Take readings'], evidence: [], successCriteria: [], phaseIndex: 0 }],
+      confidence: { title: 0.9, gradeLevel: 0.9, projectTopic: 0.9, assignments: 0.6 }
+    })]);
+    setAIProvider(provider);
+
+    const draft = await new UnitPlanImportService().analyze(plan, 'heat.md', 'markdown');
+
+    expect(provider.requests[0].prompt).toContain('Week 1: Why are some blocks hotter?');
+    expect(draft.method).toBe('ai');
+    expect(draft.gradeLevel).toBe('Grade 7');
+    expect(draft.phases).toHaveLength(3);
+    expect(draft.confidence).toMatchObject({ title: 0.9, projectTopic: 0.7, assignments: 0.8, phases: 0.7 });
+  });
+
+  it('uses the parser when the model is unavailable', async () => {
+    setAIProvider(scriptedProvider([]));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const draft = await new UnitPlanImportService().analyze(plan, 'heat.md', 'markdown');
+
+    expect(draft.method).toBe('heuristic');
+    expect(draft.challenge).toBe('A shade proposal pitched to city planners');
+  });
+
+  it('creates an import project that opens on review when the plan is complete', async () => {
+    const save = jest.spyOn(unifiedStorage, 'saveProject').mockResolvedValue(undefined as never);
+    const draft: UnitPlanDraft = { ...parseUnitPlanText(plan), fileName: 'heat.md', format: 'markdown', method: 'heuristic' };
+
+    const { id, route } = await new UnitPlanImportService().createProject(draft, 'teacher-1');
+
+    expect(route).toBe(`/app/project/${id}/preview`);
+    const saved: UnifiedProjectData = save.mock.calls[0][0];
+    const showcase = saved.showcase as ProjectShowcaseV2;
+    expect(saved).toMatchObject({ id, userId: 'teacher-1', source: 'import', currentStage: 'review', status: 'ready' });
+    expect(showcase.runOfShow.map(week => [week.weekLabel, week.assignments])).toEqual([
+      ['Week 1', ['A1']],
+      ['Week 2', []],
+      ['Week 3', ['A2']]
+    ]);
+    expect(lintShowcase(showcase).errorCount).toBe(0);
+  });
+
+  it('starts at the first incomplete stage without a showcase', () => {
+    const draft: UnitPlanDraft = { ...parseUnitPlanText('# Heat\nEssential Question: Why is it hot?'), fileName: 'heat.md', format: 'markdown', method: 'heuristic' };
+
+    const project = buildImportedProject(draft, 'p1');
+
+    expect(project.currentStage).toBe('ideation');
+    expect(project.stageStatus).toEqual({ ideation: 'in_progress', journey: 'not_started', deliverables: 'not_started' });
+    expect(project.showcase).toBeUndefined();
+  });
+
+  it('spreads the plan length across phases and links unplaced assignments', () => {
+    const parsed = parseUnitPlanText(plan);
+    const showcase = buildImportedShowcase({
+      ...parsed,
+      duration: '5 weeks',
+      assignments: parsed.assignments.map(({ phaseIndex: _phaseIndex, ...item }) => item)
+    }, 'p1');
+
+    expect(showcase.runOfShow.map(week => week.weekLabel)).toEqual(['Week 1', 'Weeks 2–3', 'Weeks 4–5']);
+    expect(showcase.runOfShow.flatMap(week => week.assignments)).toEqual(['A1', 'A2']);
+    expect(showcase.drivingQuestion).toBe('How can we cool the hottest block near our school?');
+  });
+});
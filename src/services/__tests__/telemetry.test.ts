@@ -0,0 +1,102 @@
+import { SimpleTelemetry, percentile, type TelemetryEvent } from '../telemetry';
+import { TelemetryStore, createMemoryBackend } from '../TelemetryStore';
+import { MemoryTelemetrySink } from '../TelemetrySinks';
+
+const event = (overrides: Partial<TelemetryEvent> = {}): Omit<TelemetryEvent, 'timestamp'> => ({
+  event: 'save_project',
+  success: true,
+  latencyMs: 100,
+  projectId: 'project-1',
+  ...overrides
+});
+
+describe('percentile', () => {
+  it('uses nearest rank', () => {
+    const latencies = Array.from({ length: 20 }, (_, i) => (i + 1) * 10);
+    expect(percentile(latencies, 50)).toBe(100);
+    expect(percentile(latencies, 95)).toBe(190);
+    expect(percentile([42], 95)).toBe(42);
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe('TelemetryStore', () => {
+  it('rotates out whole segments past the cap and counts undelivered events', async () => {
+    const store = new TelemetryStore({ backend: createMemoryBackend(), segmentSize: 5, maxSegments: 2 });
+    const batch = Array.from({ length: 12 }, (_, i) => ({ ...event({ latencyMs: i }), timestamp: i + 1 }));
+    await store.append(batch);
+
+    const kept = await store.readAll();
+    expect(kept.map(e => e.seq)).toEqual([5, 6, 7, 8, 9, 10, 11]);
+    expect(await store.getMeta()).toMatchObject({ firstSegment: 1, uploadedSeq: 5, dropped: 5 });
+  });
+
+  it('reads pending events after the upload cursor', async () => {
+    const store = new TelemetryStore({ backend: createMemoryBackend(), segmentSize: 4 });
+    await store.append(Array.from({ length: 6 }, (_, i) => ({ ...event(), timestamp: i + 1 })));
+    await store.markUploaded(2);
+
+    expect((await store.readPending(10)).map(e => e.seq)).toEqual([3, 4, 5]);
+    expect((await store.readPending(2)).map(e => e.seq)).toEqual([3, 4]);
+  });
+});
+
+describe('SimpleTelemetry pipeline', () => {
+  let store: TelemetryStore;
+  let sink: MemoryTelemetrySink;
+  let telemetry: SimpleTelemetry;
+
+  beforeEach(() => {
+    store = new TelemetryStore({ backend: createMemoryBackend() });
+    sink = new MemoryTelemetrySink();
+    telemetry = new SimpleTelemetry({ store, sink });
+  });
+
+  it('persists events so stats survive a new session', async () => {
+    telemetry.track(event({ success: false, errorCode: 'PERMISSION_DENIED', latencyMs: 900 }));
+    telemetry.track(event({ latencyMs: 100 }));
+    telemetry.track(event({ event: 'ai_fallback', success: false, projectId: 'ai' }));
+    telemetry.track(event({ event: 'ai_structured', projectId: 'ai' }));
+    await telemetry.flush();
+
+    const nextSession = new SimpleTelemetry({ store, sink: null });
+    nextSession.track(event({ latencyMs: 200 }));
+    const stats = await nextSession.getPersistedStats();
+
+    expect(stats).toMatchObject({
+      totalEvents: 5,
+      sessions: 2,
+      saveSuccessRate: 67,
+      aiFallbackRate: 50,
+      errorCodes: { PERMISSION_DENIED: 1 },
+      saveLatency: { p50: 200, p95: 900 }
+    });
+    expect(nextSession.getStats().totalEvents).toBe(1);
+  });
+
+  it('uploads in batches and retries batches the sink rejected', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    sink.failNext = 1;
+    telemetry.track(event({ event: 'export_used', metadata: { format: 'docx' } }));
+    telemetry.track(event({ event: 'stage_transition', metadata: { fromStage: 'BIG_IDEA', toStage: 'ESSENTIAL_QUESTION' } }));
+    await telemetry.flush();
+
+    expect(sink.batches).toHaveLength(0);
+    expect((await telemetry.getPersistedStats()).pendingUpload).toBe(2);
+
+    expect(await telemetry.upload()).toBe(2);
+    expect(sink.events.map(e => e.event)).toEqual(['export_used', 'stage_transition']);
+    expect(await telemetry.upload()).toBe(0);
+    expect((await telemetry.getPersistedStats()).exportsByFormat).toEqual({ docx: 1 });
+    warn.mockRestore();
+  });
+
+  it('exports every persisted event with store metadata', async () => {
+    telemetry.track(event({ event: 'wizard_abandoned', success: false, projectId: 'wizard', metadata: { step: 2 } }));
+    const bundle = JSON.parse(await telemetry.exportAll());
+
+    expect(bundle.events).toHaveLength(1);
+    expect(bundle.events[0]).toMatchObject({ event: 'wizard_abandoned', seq: 0, metadata: { step: 2 } });
+    expect(bundle.meta.nextSeq).toBe(1);
+  });
+});
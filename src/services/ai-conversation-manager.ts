@@ -5,6 +5,7 @@
 import { type ChatMessage, ChatState, type ChatStage } from './chat-service';
 import { logger } from '../utils/logger';
 import { JSONResponseParser } from '../utils/json-response-parser';
+import { getAIProvider, AIProviderError, type AIGenerateResult } from '../ai/providers';
 
 export interface AIGenerationRequest {
   action: string;
@@ -46,7 +47,7 @@ export class AIConversationManager {
   private lastSuccessTime = Date.now();
   
   constructor() {
-    logger.log('Initializing AI Conversation Manager with Netlify function...');
+    logger.log(`Initializing AI Conversation Manager with ${getAIProvider().name} provider...`);
     this.isInitialized = true;
     logger.log('AI Conversation Manager initialized');
   }
@@ -87,35 +88,28 @@ export class AIConversationManager {
         const prompt = `${systemPrompt}\n\n${conversationContext}`;
         logger.log(`Generating AI response for action: ${request.action} (attempt ${attempt + 1}/${this.retryPolicy.maxRetries + 1})`);
         
-        // Use secure Netlify function with timeout
+        // Use the active AI provider (Gemini proxy or local fixtures) with timeout
         const timeoutPromise = new Promise((_, reject) => 
           setTimeout(() => { reject(new Error('AI generation timeout')); }, 60000)
         );
         
         const model = this.pickModelForAction(request);
-        const generationPromise = fetch('/.netlify/functions/gemini', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ 
-            prompt: prompt,
-            history: [],
-            model
-          })
+        const provider = getAIProvider();
+        const generationPromise = provider.generate({
+          prompt: prompt,
+          history: [],
+          model,
+          // Match the proxy defaults this manager relied on
+          temperature: 0.7,
+          maxTokens: 1024,
+          label: `conversation_${request.action}`
         });
         
-        const response = await Promise.race([generationPromise, timeoutPromise]);
+        const result = await Promise.race([generationPromise, timeoutPromise]) as AIGenerateResult;
         
-        if (!response.ok) {
-          throw new Error(`API Error ${response.status}`);
-        }
-
-        const data = await response.json();
-        let text = '';
-        
-        if (data.candidates?.[0]?.content?.parts?.[0]?.text) {
-          text = data.candidates[0].content.parts[0].text;
-        } else {
-          throw new Error('Invalid response format from Netlify function');
+        let text = result.text;
+        if (!text) {
+          throw new Error(`Invalid response format from ${provider.name} provider`);
         }
         
         // Debug: Log the exact response we're getting
@@ -666,6 +660,10 @@ ${capturedCount > 0 ? 'You\'re creating something really special here. Let\'s ke
   
   // Error handling
   private isNonRetryableError(error: any): boolean {
+    if (error instanceof AIProviderError && (error.status === 401 || error.status === 403)) {
+      return true;
+    }
+
     const message = error?.message?.toLowerCase() || '';
     
     // Don't retry on authentication or quota errors
@@ -2,6 +2,7 @@
 // Provides robust error handling and fallback mechanisms for AI services
 
 import { AIConversationManager } from './ai-conversation-manager';
+import { getAIProvider, type AIProviderName } from '../ai/providers';
 
 export interface AIServiceConfig {
   maxRetries?: number;
@@ -37,7 +38,7 @@ export class AIServiceWrapper {
   private initializeAIManager(): void {
     try {
       this.aiManager = new AIConversationManager();
-      console.log('AI Service Wrapper: Manager initialized (using Netlify function)');
+      console.log(`AI Service Wrapper: Manager initialized (using ${getAIProvider().name} provider)`);
     } catch (error) {
       console.error('AI Service Wrapper: Failed to initialize manager', error);
     }
@@ -265,6 +266,11 @@ export class AIServiceWrapper {
   getCircuitBreakerState(): CircuitBreakerState {
     return { ...this.circuitBreaker };
   }
+  
+  // Active AI backend, resolved per call so flag changes apply immediately
+  getProviderName(): AIProviderName {
+    return getAIProvider().name;
+  }
 }
 
 // Factory function
@@ -2,7 +2,7 @@
  * Rubric Export Service
  * 
  * Provides comprehensive export functionality for rubrics and assessment data,
- * supporting multiple formats (PDF, CSV, Google Docs, HTML) with customizable
+ * supporting multiple formats (PDF, Word, CSV, Google Docs, HTML) with customizable
  * layouts and student-friendly versions.
  * 
  * Based on:
@@ -21,6 +21,7 @@ import {
   VisualElement
 } from '../types/rubric';
 import { logger } from '../utils/logger';
+import { DOCX_MIME_TYPE, packDocx, type DocxBlock } from '../utils/docx';
 
 export interface ExportResult {
   success: boolean;
@@ -283,15 +284,17 @@ export class RubricExportService {
     options: RubricExportOptions,
     studentRubric?: StudentFriendlyRubric
   ): Promise<ExportResult> {
-    // Generate Word document (simplified - would use actual library like docx)
-    const wordContent = this.generateWordContent(rubric, options, studentRubric);
-    
+    const bytes = packDocx(this.generateWordBlocks(rubric, options, studentRubric), {
+      title: rubric.title,
+      subject: rubric.subject.join(', ')
+    });
+
     return {
       success: true,
       format: 'docx',
-      data: wordContent,
+      data: new Blob([bytes], { type: DOCX_MIME_TYPE }),
       filename: `${rubric.title}.docx`,
-      size: wordContent.length
+      size: bytes.length
     };
   }
 
@@ -732,13 +735,11 @@ export class RubricExportService {
     return rows.join('\n');
   }
 
-  private generateWordContent(
+  private generateDocumentText(
     rubric: Rubric,
     options: RubricExportOptions,
     studentRubric?: StudentFriendlyRubric
   ): string {
-    // Simplified Word content generation
-    // In practice, would use docx library to create proper Word document
     return `
 # ${rubric.title}
 
@@ -778,6 +779,62 @@ ${criterion.expectations.map(exp => `${exp.visualIndicator} **${exp.level}:** ${
 `;
   }
 
+  private generateWordBlocks(
+    rubric: Rubric,
+    options: RubricExportOptions,
+    studentRubric?: StudentFriendlyRubric
+  ): DocxBlock[] {
+    const levels = [...rubric.performanceLevels].sort((a, b) => b.order - a.order);
+    const blocks: DocxBlock[] = [
+      { type: 'heading', level: 0, text: rubric.title },
+      { type: 'paragraph', runs: [rubric.description] },
+      {
+        type: 'table',
+        header: [],
+        rows: [
+          ['Age Group', rubric.ageGroup],
+          ['Type', rubric.type],
+          ['Purpose', rubric.purpose],
+          ['Total Points', String(rubric.totalPoints)]
+        ],
+        widths: [25, 75]
+      },
+      { type: 'heading', level: 1, text: 'Assessment Criteria' },
+      {
+        type: 'table',
+        header: ['Criterion', ...levels.map(level => `${level.name} (${level.pointValue} pts)`)],
+        rows: rubric.criteria.map(criterion => [
+          `${criterion.name} (${(criterion.weight * 100).toFixed(1)}%)\n${criterion.description}`,
+          ...levels.map(level => criterion.descriptors.find(d => d.levelId === level.id)?.description || level.description)
+        ])
+      }
+    ];
+
+    if (options.includeStudentVersion && studentRubric) {
+      blocks.push(
+        { type: 'pageBreak' },
+        { type: 'heading', level: 1, text: studentRubric.title || 'Student-Friendly Version' }
+      );
+      studentRubric.simplifiedCriteria.forEach(criterion => {
+        blocks.push(
+          { type: 'heading', level: 2, text: criterion.name },
+          { type: 'paragraph', runs: [{ text: criterion.questionPrompt, italic: true }] },
+          {
+            type: 'table',
+            header: ['Level', 'What it looks like'],
+            rows: criterion.expectations.map(exp => [`${exp.visualIndicator} ${exp.level}`, exp.studentLanguage]),
+            widths: [30, 70]
+          }
+        );
+        if (criterion.checklistItems.length) {
+          blocks.push({ type: 'bullets', items: criterion.checklistItems.map(item => `☐ ${item}`) });
+        }
+      });
+    }
+
+    return blocks;
+  }
+
   private generateGoogleDocsContent(
     rubric: Rubric,
     options: RubricExportOptions,
@@ -785,7 +842,7 @@ ${criterion.expectations.map(exp => `${exp.visualIndicator} **${exp.level}:** ${
   ): string {
     // Simplified Google Docs content
     // In practice, would use Google Docs API
-    return this.generateWordContent(rubric, options, studentRubric);
+    return this.generateDocumentText(rubric, options, studentRubric);
   }
 
   private async convertHTMLToPDF(htmlContent: string, filename: string): Promise<ExportResult> {
@@ -6,13 +6,39 @@
  *
  * Tracks:
  * - Save/load success rates
- * - Latency metrics
+ * - Latency metrics (average, p50, p95)
  * - Error codes and frequencies
  * - Source attribution (cache/cloud/offline)
+ * - Stage transitions, wizard abandonments and export usage
+ *
+ * Pipeline:
+ * - The last 100 events stay in memory for the debug dashboard
+ * - Every event is also persisted to IndexedDB (TelemetryStore, rotated)
+ *   so rates can be compared across sessions
+ * - Persisted events are batch-uploaded to a pluggable sink (TelemetrySinks);
+ *   uploads are opt-in via VITE_TELEMETRY_UPLOAD=true
  */
 
+import { TelemetryStore, type StoredTelemetryEvent } from './TelemetryStore';
+import { createDefaultTelemetrySink, type TelemetrySink } from './TelemetrySinks';
+
+// Keep in sync with EVENT_NAMES in netlify/functions/_lib/telemetry-sink.cjs
+export type TelemetryEventName =
+  | 'save_project'
+  | 'load_project'
+  | 'sync_error'
+  | 'conflict_detected'
+  | 'cache_hit'
+  | 'cache_miss'
+  | 'ai_prompt'
+  | 'ai_fallback'
+  | 'ai_structured'
+  | 'stage_transition'
+  | 'wizard_abandoned'
+  | 'export_used';
+
 export interface TelemetryEvent {
-  event: 'save_project' | 'load_project' | 'sync_error' | 'conflict_detected' | 'cache_hit' | 'cache_miss' | 'ai_prompt' | 'ai_fallback';
+  event: TelemetryEventName;
   success: boolean;
   latencyMs: number;
   source?: 'cache' | 'cloud' | 'offline_snapshot' | 'idb' | 'firestore';
@@ -20,22 +46,78 @@ export interface TelemetryEvent {
   errorMessage?: string;
   projectId: string; // for AI events, use a label or 'ai'
   timestamp: number;
+  sessionId?: string;
   metadata?: Record<string, any>;
 }
 
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+}
+
 export interface TelemetryStats {
   saveSuccessRate: number;
   loadSuccessRate: number;
   avgSaveLatency: number;
   avgLoadLatency: number;
+  saveLatency: LatencyPercentiles;
+  loadLatency: LatencyPercentiles;
+  aiLatency: LatencyPercentiles;
+  aiFallbackRate: number;
   cacheHitRate: number;
   errorCodes: Record<string, number>;
+  exportsByFormat: Record<string, number>;
   totalEvents: number;
 }
 
-class SimpleTelemetry {
+export interface PersistedTelemetryStats extends TelemetryStats {
+  sessions: number;
+  oldestTimestamp: number | null;
+  pendingUpload: number;
+  dropped: number;
+}
+
+export interface TelemetryOptions {
+  store?: TelemetryStore;
+  sink?: TelemetrySink | null;
+}
+
+/**
+ * Nearest-rank percentile (p in 0–100); 0 for an empty sample.
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {return 0;}
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return Math.round(sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1]);
+}
+
+function createSessionId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `s-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export class SimpleTelemetry {
   private events: TelemetryEvent[] = [];
   private readonly MAX_EVENTS = 100; // Memory bounded
+  private readonly PERSIST_DELAY_MS = 2000;
+  private readonly PERSIST_BATCH = 25;
+  private readonly UPLOAD_BATCH = 100;
+
+  private readonly store: TelemetryStore;
+  private readonly sink: TelemetrySink | null;
+  private readonly sessionId = createSessionId();
+  private pending: TelemetryEvent[] = [];
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private persisting: Promise<void> = Promise.resolve();
+  private uploading: Promise<number> | null = null;
+
+  constructor(options: TelemetryOptions = {}) {
+    this.store = options.store ?? new TelemetryStore();
+    this.sink = options.sink === undefined ? createDefaultTelemetrySink() : options.sink;
+  }
 
   /**
    * Track a telemetry event
@@ -43,6 +125,7 @@ class SimpleTelemetry {
   track(event: Omit<TelemetryEvent, 'timestamp'>) {
     const telemetryEvent: TelemetryEvent = {
       ...event,
+      sessionId: this.sessionId,
       timestamp: Date.now()
     };
 
@@ -53,6 +136,10 @@ class SimpleTelemetry {
       this.events.shift();
     }
 
+    // Persist in small batches rather than one IDB transaction per event
+    this.pending.push(telemetryEvent);
+    this.schedulePersist();
+
     // Log in dev mode for debugging
     if (import.meta.env.DEV) {
       const icon = event.success ? '✅' : '❌';
@@ -87,21 +174,24 @@ class SimpleTelemetry {
   }
 
   /**
-   * Get aggregated statistics
+   * Get aggregated statistics for the current session
    */
   getStats(): TelemetryStats {
-    const saves = this.events.filter(e => e.event === 'save_project');
-    const loads = this.events.filter(e => e.event === 'load_project');
-    const cacheEvents = this.events.filter(e => e.event === 'cache_hit' || e.event === 'cache_miss');
+    return this.summarize(this.events);
+  }
 
+  /**
+   * Aggregate statistics over every persisted event, across sessions
+   */
+  async getPersistedStats(): Promise<PersistedTelemetryStats> {
+    await this.persist();
+    const [events, meta] = await Promise.all([this.store.readAll(), this.store.getMeta()]);
     return {
-      saveSuccessRate: this.successRate(saves),
-      loadSuccessRate: this.successRate(loads),
-      avgSaveLatency: this.avgLatency(saves),
-      avgLoadLatency: this.avgLatency(loads),
-      cacheHitRate: this.cacheHitRate(cacheEvents),
-      errorCodes: this.errorCodeCounts(),
-      totalEvents: this.events.length
+      ...this.summarize(events),
+      sessions: new Set(events.map(e => e.sessionId).filter(Boolean)).size,
+      oldestTimestamp: events.length ? events[0].timestamp : null,
+      pendingUpload: Math.max(0, meta.nextSeq - meta.uploadedSeq),
+      dropped: meta.dropped
     };
   }
 
@@ -125,11 +215,44 @@ class SimpleTelemetry {
     return this.events.slice(-limit);
   }
 
+  /**
+   * Write buffered events to the store, then upload if a sink is configured
+   */
+  async flush(): Promise<void> {
+    await this.persist();
+    if (this.sink) {
+      await this.upload();
+    }
+  }
+
+  /**
+   * Send pending persisted events to the sink in batches. Resolves with the
+   * number of events delivered; failed batches stay pending for the next flush.
+   */
+  upload(): Promise<number> {
+    const sink = this.sink;
+    if (!sink) {return Promise.resolve(0);}
+    if (!this.uploading) {
+      this.uploading = this.drain(sink).finally(() => {
+        this.uploading = null;
+      });
+    }
+    return this.uploading;
+  }
+
   /**
    * Clear all events (for testing)
    */
   clear() {
     this.events = [];
+    this.pending = [];
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    this.store.clear().catch(error => {
+      console.warn('[Telemetry] Failed to clear persisted events:', error);
+    });
   }
 
   /**
@@ -139,8 +262,83 @@ class SimpleTelemetry {
     return JSON.stringify(this.events, null, 2);
   }
 
+  /**
+   * Export every persisted event with store metadata (cross-session support bundle)
+   */
+  async exportAll(): Promise<string> {
+    await this.persist();
+    const [events, meta] = await Promise.all([this.store.readAll(), this.store.getMeta()]);
+    return JSON.stringify({ exportedAt: new Date().toISOString(), sessionId: this.sessionId, meta, events }, null, 2);
+  }
+
   // Private helper methods
 
+  private schedulePersist() {
+    if (this.pending.length >= this.PERSIST_BATCH) {
+      void this.flush();
+      return;
+    }
+    if (!this.persistTimer) {
+      this.persistTimer = setTimeout(() => {
+        this.persistTimer = null;
+        void this.flush();
+      }, this.PERSIST_DELAY_MS);
+    }
+  }
+
+  private persist(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    const batch = this.pending;
+    this.pending = [];
+    this.persisting = this.persisting.then(() => this.store.append(batch)).catch(error => {
+      // Telemetry must never break the app; the in-memory buffer still works
+      console.warn('[Telemetry] Failed to persist events:', error);
+    });
+    return this.persisting;
+  }
+
+  private async drain(sink: TelemetrySink): Promise<number> {
+    let sent = 0;
+    try {
+      for (;;) {
+        const batch: StoredTelemetryEvent[] = await this.store.readPending(this.UPLOAD_BATCH);
+        if (batch.length === 0) {break;}
+        await sink.send(batch);
+        await this.store.markUploaded(batch[batch.length - 1].seq);
+        sent += batch.length;
+      }
+    } catch (error) {
+      console.warn(`[Telemetry] Upload to ${sink.name} sink failed, will retry on next flush:`, error);
+    }
+    return sent;
+  }
+
+  private summarize(events: TelemetryEvent[]): TelemetryStats {
+    const saves = events.filter(e => e.event === 'save_project');
+    const loads = events.filter(e => e.event === 'load_project');
+    const prompts = events.filter(e => e.event === 'ai_prompt');
+    const structured = events.filter(e => e.event === 'ai_structured' || e.event === 'ai_fallback');
+    const cacheEvents = events.filter(e => e.event === 'cache_hit' || e.event === 'cache_miss');
+
+    return {
+      saveSuccessRate: this.successRate(saves),
+      loadSuccessRate: this.successRate(loads),
+      avgSaveLatency: this.avgLatency(saves),
+      avgLoadLatency: this.avgLatency(loads),
+      saveLatency: this.latencyPercentiles(saves),
+      loadLatency: this.latencyPercentiles(loads),
+      aiLatency: this.latencyPercentiles(prompts),
+      aiFallbackRate: this.fallbackRate(structured),
+      cacheHitRate: this.cacheHitRate(cacheEvents),
+      errorCodes: this.errorCodeCounts(events),
+      exportsByFormat: this.exportCounts(events),
+      totalEvents: events.length
+    };
+  }
+
   private successRate(events: TelemetryEvent[]): number {
     if (events.length === 0) {return 100;}
     const successes = events.filter(e => e.success).length;
@@ -153,16 +351,38 @@ class SimpleTelemetry {
     return Math.round(sum / events.length);
   }
 
+  private latencyPercentiles(events: TelemetryEvent[]): LatencyPercentiles {
+    const latencies = events.map(e => e.latencyMs);
+    return { p50: percentile(latencies, 50), p95: percentile(latencies, 95) };
+  }
+
+  private fallbackRate(events: TelemetryEvent[]): number {
+    if (events.length === 0) {return 0;}
+    const fallbacks = events.filter(e => e.event === 'ai_fallback').length;
+    return Math.round((fallbacks / events.length) * 100);
+  }
+
   private cacheHitRate(cacheEvents: TelemetryEvent[]): number {
     if (cacheEvents.length === 0) {return 0;}
     const hits = cacheEvents.filter(e => e.event === 'cache_hit').length;
     return Math.round((hits / cacheEvents.length) * 100);
   }
 
-  private errorCodeCounts(): Record<string, number> {
-    const errors = this.events.filter(e => !e.success && e.errorCode);
-    return errors.reduce((acc, e) => {
-      acc[e.errorCode!] = (acc[e.errorCode!] || 0) + 1;
+  private errorCodeCounts(events: TelemetryEvent[]): Record<string, number> {
+    return events.reduce((acc, e) => {
+      if (!e.success && e.errorCode) {
+        acc[e.errorCode] = (acc[e.errorCode] || 0) + 1;
+      }
+      return acc;
+    }, {} as Record<string, number>);
+  }
+
+  private exportCounts(events: TelemetryEvent[]): Record<string, number> {
+    return events.reduce((acc, e) => {
+      if (e.event === 'export_used') {
+        const format = String(e.metadata?.format ?? 'unknown');
+        acc[format] = (acc[format] || 0) + 1;
+      }
       return acc;
     }, {} as Record<string, number>);
   }
@@ -171,6 +391,13 @@ class SimpleTelemetry {
 // Singleton instance
 export const telemetry = new SimpleTelemetry();
 
+// Last chance to persist (and upload) before the tab goes away
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', () => {
+    void telemetry.flush();
+  });
+}
+
 // Helper to measure operation latency
 export async function measureAsync<T>(
   fn: () => Promise<T>
@@ -306,6 +306,94 @@ export const DEFAULT_EXIT_TICKET_QUESTIONS = {
       type: 'confidence' as const,
       required: true
     }
+  ],
+  [PBLStage.CHALLENGE]: [
+    {
+      id: 'challenge_summary',
+      text: 'Describe the challenge your team is taking on and who it helps.',
+      type: 'short_answer' as const,
+      required: true,
+      bloomLevel: BloomLevel.UNDERSTAND
+    },
+    {
+      id: 'first_step',
+      text: 'What is the first thing you need to find out or decide?',
+      type: 'short_answer' as const,
+      required: true,
+      bloomLevel: BloomLevel.ANALYZE
+    },
+    {
+      id: 'confidence',
+      text: 'How confident do you feel about tackling this challenge?',
+      type: 'confidence' as const,
+      required: true
+    }
+  ],
+  [PBLStage.JOURNEY]: [
+    {
+      id: 'progress',
+      text: 'What did you make progress on today, and what evidence shows it?',
+      type: 'short_answer' as const,
+      required: true,
+      bloomLevel: BloomLevel.APPLY
+    },
+    {
+      id: 'next_step',
+      text: 'What is your next step, and what help do you need?',
+      type: 'short_answer' as const,
+      required: true,
+      bloomLevel: BloomLevel.EVALUATE
+    },
+    {
+      id: 'confidence',
+      text: 'How confident do you feel about your next step?',
+      type: 'confidence' as const,
+      required: true
+    }
+  ],
+  [PBLStage.DELIVERABLES]: [
+    {
+      id: 'audience_ready',
+      text: 'What part of your work is ready for your audience, and what still needs polish?',
+      type: 'short_answer' as const,
+      required: true,
+      bloomLevel: BloomLevel.EVALUATE
+    },
+    {
+      id: 'feedback_use',
+      text: 'What feedback will you act on before you present?',
+      type: 'short_answer' as const,
+      required: true,
+      bloomLevel: BloomLevel.CREATE
+    },
+    {
+      id: 'confidence',
+      text: 'How confident do you feel about sharing your work?',
+      type: 'confidence' as const,
+      required: true
+    }
+  ],
+  [PBLStage.REFLECTION]: [
+    {
+      id: 'growth',
+      text: 'What is one skill you grew during this project? Give an example.',
+      type: 'short_answer' as const,
+      required: true,
+      bloomLevel: BloomLevel.ANALYZE
+    },
+    {
+      id: 'transfer',
+      text: 'Where else could you use what you learned?',
+      type: 'short_answer' as const,
+      required: true,
+      bloomLevel: BloomLevel.APPLY
+    },
+    {
+      id: 'confidence',
+      text: 'How confident do you feel explaining what you learned?',
+      type: 'confidence' as const,
+      required: true
+    }
   ]
 };
 
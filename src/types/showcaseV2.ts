@@ -1,12 +1,15 @@
+import type { Locale } from '../i18n';
+
 // ---------- Enumerations ----------
-export type GradeBand = 'ES' | 'MS' | 'HS';
+export type GradeBand = 'PK' | 'ES' | 'MS' | 'HS' | 'PS'; // PK = Pre-K, PS = post-secondary/CTE
 export type Timeframe =
   | '1–2 lessons'
   | '2–4 weeks'
   | '4–6 weeks'
   | '6–8 weeks'
   | '8–10 weeks'
-  | '10–12 weeks';
+  | '10–12 weeks'
+  | '12–18 weeks';
 export type LessonLength = 45 | 50 | 55 | 60 | 75 | 90;
 export type PhaseKind =
   | 'Foundations'
@@ -30,9 +33,10 @@ export interface ProjectShowcaseV2 {
     image?: string;
   };
   microOverview: string[]; // 3–4 sentences; 12–28 words each
+  drivingQuestion?: string; // the question students answer; shown on the student site
   fullOverview?: string; // collapsed by default (markdown allowed)
   schedule: {
-    totalWeeks: number; // 4–12 for week-based showcases
+    totalWeeks: number; // 4–12 for week-based showcases (1–6 for PK, up to 18 for PS)
     lessonsPerWeek: number; // 1–5
     lessonLengthMin: LessonLength;
   };
@@ -53,6 +57,11 @@ export interface ProjectShowcaseV2 {
     tags?: string[]; // 1–4 (codes only)
   };
   planningNotes?: string; // collapsed, optional; target 2–3 sentences (~120+ chars)
+  standardsAlignment?: StandardAlignmentLink[]; // proposed/accepted/rejected links to weeks, assignments, criteria
+  lessonPlans?: DailyLessonPlan[]; // day-by-day plans expanded from week cards
+  studentLanguage?: Locale; // language of student handouts and family letters; defaults to the UI language
+  readingLevel?: ReadingLevel; // reading level for family-facing text; defaults to 'standard'
+  familyKit?: FamilyCommunicationKit; // letters home generated from the project
 }
 
 export interface WeekCard {
@@ -83,6 +92,18 @@ export interface AssignmentCard {
   };
   safety?: string[]; // 1–3 only if essential
   rubric?: AnalyticRubric; // optional analytic rubric (4 levels)
+  localized?: LocalizedStudentText; // student-facing copy in the project's student language
+}
+
+// Student-facing fields rewritten in the student language; the card's own
+// fields stay in the teacher's UI language
+export interface LocalizedStudentText {
+  locale: Locale;
+  title: string;
+  summary: string;
+  studentDirections: string[];
+  successCriteria: string[];
+  evidence: string[];
 }
 
 export interface AnalyticRubric {
@@ -97,3 +118,76 @@ export interface AnalyticRubric {
     };
   }>;
 }
+
+// ---------- Standards alignment ----------
+export type AlignmentTarget =
+  | { kind: 'week'; weekIndex: number } // index into runOfShow
+  | { kind: 'assignment'; assignmentId: string }
+  | { kind: 'criterion'; assignmentId: string; criterion: string }; // AnalyticRubric criterion name
+
+export type AlignmentStatus = 'proposed' | 'accepted' | 'rejected';
+
+export interface StandardAlignmentLink {
+  id: string; // "<code>@<target key>"
+  code: string;
+  framework?: string;
+  label?: string;
+  target: AlignmentTarget;
+  rationale: string; // ≤ 25 words
+  confidence: number; // 0–1
+  status: AlignmentStatus;
+  source: 'ai' | 'catalog' | 'teacher';
+}
+
+// ---------- Daily lesson plans ----------
+export type LessonSegmentKind = 'warm-up' | 'mini-lesson' | 'work-time' | 'share' | 'exit-ticket';
+export type LessonGrouping = 'individual' | 'pairs' | 'small groups' | 'whole class';
+
+export interface LessonSegment {
+  kind: LessonSegmentKind;
+  title: string; // ≤ 60 chars
+  minutes: number;
+  grouping: LessonGrouping;
+  teacher: string; // teacher move, ≤ 20 words
+  students: string; // student activity, ≤ 20 words
+}
+
+export interface DailyLessonPlan {
+  weekIndex: number; // index into runOfShow
+  lesson: number; // 1-based within the week card
+  title: string; // ≤ 80 chars
+  objectives: string[]; // 1–3 "Students will…" statements
+  segments: LessonSegment[]; // starts with a warm-up, ends with the exit ticket; minutes sum to lessonLengthMin
+  materials: string[]; // drawn from materialsPrep.coreKit
+  exitTicket: string[]; // prompts; the last one is a confidence check
+  differentiation: {
+    support: string[];
+    extension: string[];
+    multilingual: string[];
+  };
+  source: 'ai' | 'template' | 'teacher';
+}
+
+// ---------- Family communication ----------
+export type ReadingLevel = 'easy' | 'standard' | 'detailed';
+export type FamilyLetterKind =
+  | 'kickoff'
+  | 'weekly-update'
+  | 'volunteer-request'
+  | 'materials-request'
+  | 'permission-slip'
+  | 'exhibition-invitation';
+
+export interface FamilyLetter {
+  kind: FamilyLetterKind;
+  weekIndex?: number; // weekly updates only; index into runOfShow
+  subject: string; // ≤ 80 chars; doubles as the email subject
+  body: string; // plain text; blank lines separate paragraphs, "- " starts a bullet
+  source: 'ai' | 'template' | 'teacher';
+}
+
+export interface FamilyCommunicationKit {
+  locale: Locale; // the project's student language when generated
+  readingLevel: ReadingLevel;
+  letters: FamilyLetter[];
+}
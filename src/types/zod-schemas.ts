@@ -293,6 +293,159 @@ export const zProject = z.object({
   }).optional()
 });
 
+// ChatMVP captured data (mirrors CapturedData['journey'] / ['deliverables'] in
+// features/chat-mvp/domain/stages.ts; keep the two in step)
+export const zCapturedPhase = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(3),
+  focus: z.string().optional(),
+  activities: z.array(z.string().trim().min(1)),
+  checkpoint: z.string().optional()
+});
+
+export const zCapturedJourney = z.object({
+  phases: z.array(zCapturedPhase),
+  resources: z.array(z.string()).default([])
+});
+
+export const zCapturedDeliverableItem = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(3),
+  phaseId: z.string().optional()
+});
+
+export const zCapturedDeliverables = z.object({
+  milestones: z.array(zCapturedDeliverableItem),
+  artifacts: z.array(zCapturedDeliverableItem),
+  rubric: z.object({ criteria: z.array(z.string().trim().min(3)) })
+});
+
+// AI generation payloads (what the model is asked to return)
+
+// List sizes for the payloads below; journeyMicroFlow and deliverablesAI quote
+// them in their prompts. Minimums match validate('DELIVERABLES') in stages.ts,
+// phases span recommendedPhaseCount()
+export const SUGGESTION_BOUNDS = {
+  phases: { min: 3, max: 6 },
+  activities: { min: 2, max: 4 },
+  milestones: { min: 3 },
+  artifacts: { min: 1, max: 3 },
+  criteria: { min: 3, max: 6 }
+} as const;
+
+export const zJourneyPhaseSuggestion = zCapturedPhase
+  .pick({ name: true })
+  .extend({
+    duration: z.string().optional(),
+    summary: z.string().trim().min(1),
+    activities: zCapturedPhase.shape.activities.min(SUGGESTION_BOUNDS.activities.min).max(SUGGESTION_BOUNDS.activities.max)
+  });
+
+export const zJourneySuggestion = z.array(zJourneyPhaseSuggestion)
+  .min(SUGGESTION_BOUNDS.phases.min)
+  .max(SUGGESTION_BOUNDS.phases.max);
+
+export const zDeliverablesSuggestion = z.object({
+  milestones: z.array(zCapturedDeliverableItem.shape.name).min(SUGGESTION_BOUNDS.milestones.min),
+  artifacts: z.array(zCapturedDeliverableItem.shape.name).min(SUGGESTION_BOUNDS.artifacts.min).max(SUGGESTION_BOUNDS.artifacts.max),
+  criteria: z.array(zCapturedDeliverables.shape.rubric.shape.criteria.element)
+    .min(SUGGESTION_BOUNDS.criteria.min)
+    .max(SUGGESTION_BOUNDS.criteria.max)
+});
+
+// Standards alignment pass; target is a key such as "week:0", "assignment:A1" or "criterion:A1:Evidence use"
+export const zStandardsAlignmentSuggestion = z.object({
+  alignments: z.array(z.object({
+    target: z.string().trim().min(1),
+    code: z.string().trim().min(1),
+    rationale: z.string().trim().min(3),
+    confidence: z.number().min(0).max(1)
+  }))
+});
+
+// Summary of open review comments; anchors are keys such as "week:0", "assignment:A1:evidence" or "criterion:A1:Evidence use"
+export const zReviewFeedbackSummary = z.object({
+  overview: z.string().trim().min(3),
+  themes: z.array(z.object({
+    title: z.string().trim().min(1),
+    anchors: z.array(z.string().trim().min(1)),
+    action: z.string().trim().min(3)
+  })).max(6)
+});
+
+// Day-by-day plans for one week card; lessons are in order, materials and exit tickets are filled in locally
+export const zWeekLessonPlans = z.object({
+  lessons: z.array(z.object({
+    title: z.string().trim().min(1),
+    objectives: z.array(z.string().trim().min(3)).min(1).max(3),
+    segments: z.array(z.object({
+      kind: z.enum(['warm-up', 'mini-lesson', 'work-time', 'share', 'exit-ticket']),
+      title: z.string().trim().min(1),
+      minutes: z.number().positive(),
+      grouping: z.enum(['individual', 'pairs', 'small groups', 'whole class']).default('whole class'),
+      teacher: z.string().trim().default(''),
+      students: z.string().trim().default('')
+    })).min(2),
+    differentiation: z.object({
+      support: z.array(z.string().trim().min(1)).default([]),
+      extension: z.array(z.string().trim().min(1)).default([]),
+      multilingual: z.array(z.string().trim().min(1)).default([])
+    }).default({ support: [], extension: [], multilingual: [] })
+  })).min(1)
+});
+
+// Student-facing assignment copy in the project's student language
+export const zStudentAssignmentText = z.object({
+  id: z.string().trim().min(1),
+  title: z.string().trim().min(1),
+  summary: z.string().trim().default(''),
+  studentDirections: z.array(z.string().trim().min(1)).min(1),
+  successCriteria: z.array(z.string().trim().min(1)).min(1),
+  evidence: z.array(z.string().trim().min(1)).default([])
+});
+
+export const zStudentLanguageAssignments = z.object({
+  assignments: z.array(zStudentAssignmentText).min(1)
+});
+
+// Letters home; weekIndex identifies which week card a weekly update belongs to
+export const zFamilyKit = z.object({
+  letters: z.array(z.object({
+    kind: z.enum(['kickoff', 'weekly-update', 'volunteer-request', 'materials-request', 'permission-slip', 'exhibition-invitation']),
+    weekIndex: z.number().int().min(0).optional(),
+    subject: z.string().trim().min(3),
+    body: z.string().trim().min(20)
+  })).min(1)
+});
+
+// Unit plan mapped to a project; confidence is 0–1 per field
+const zImportedText = z.string().trim().max(600).default('');
+export const zUnitPlanImport = z.object({
+  title: zImportedText,
+  subjects: z.array(z.string().trim().min(1)).max(6).default([]),
+  gradeLevel: zImportedText,
+  duration: zImportedText,
+  projectTopic: zImportedText,
+  bigIdea: zImportedText,
+  essentialQuestion: zImportedText,
+  challenge: zImportedText,
+  phases: z.array(z.object({
+    name: z.string().trim().min(1),
+    focus: zImportedText,
+    activities: z.array(z.string().trim().min(1)).max(12).default([]),
+    checkpoint: z.string().trim().optional()
+  })).max(12).default([]),
+  assignments: z.array(z.object({
+    title: z.string().trim().min(1),
+    summary: zImportedText,
+    studentDirections: z.array(z.string().trim().min(1)).max(12).default([]),
+    evidence: z.array(z.string().trim().min(1)).max(6).default([]),
+    successCriteria: z.array(z.string().trim().min(1)).max(8).default([]),
+    phaseIndex: z.number().int().min(0).optional()
+  })).max(10).default([]),
+  confidence: z.record(z.string(), z.number().min(0).max(1)).default({})
+});
+
 // Partial project for creation
 export const zPartialProject = zProject.partial();
 
@@ -305,4 +458,12 @@ export type Artifact = z.infer<typeof zArtifact>;
 export type Rubric = z.infer<typeof zRubric>;
 export type Role = z.infer<typeof zRole>;
 export type Project = z.infer<typeof zProject>;
-export type PartialProject = z.infer<typeof zPartialProject>;
\ No newline at end of file
+export type PartialProject = z.infer<typeof zPartialProject>;
+export type JourneyPhaseSuggestion = z.infer<typeof zJourneyPhaseSuggestion>;
+export type DeliverablesSuggestion = z.infer<typeof zDeliverablesSuggestion>;
+export type StandardsAlignmentSuggestion = z.infer<typeof zStandardsAlignmentSuggestion>;
+export type ReviewFeedbackSummary = z.infer<typeof zReviewFeedbackSummary>;
+export type WeekLessonPlansSuggestion = z.infer<typeof zWeekLessonPlans>;
+export type StudentAssignmentText = z.infer<typeof zStudentAssignmentText>;
+export type FamilyKitSuggestion = z.infer<typeof zFamilyKit>;
+export type UnitPlanImportSuggestion = z.infer<typeof zUnitPlanImport>;
\ No newline at end of file
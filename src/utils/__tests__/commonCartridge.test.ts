@@ -0,0 +1,111 @@
+import {
+  CC_ASSIGNMENT_NAMESPACE,
+  buildCommonCartridge,
+  validateCartridgeManifest
+} from '../commonCartridge';
+import type { AssignmentCard, ProjectShowcaseV2, WeekCard } from '../../types/showcaseV2';
+
+const week = (n: number, assignments: string[]): WeekCard => ({
+  weekLabel: `Week ${n}`,
+  kind: 'Build',
+  focus: `Focus for week ${n}`,
+  teacher: ['Model the protocol'],
+  students: ['Collect readings & notes'],
+  deliverables: ['Data log'],
+  assignments
+});
+
+const assignment = (id: string, title: string): AssignmentCard => ({
+  id,
+  title,
+  summary: `${title} summary`,
+  studentDirections: ['Measure surface temps & record them', 'Compare shade vs. sun'],
+  teacherSetup: ['Calibrate thermometers'],
+  evidence: ['Data table'],
+  successCriteria: ['I can explain heat patterns']
+});
+
+const urban_heatV2 = {
+  id: 'urban-heat',
+  version: '2',
+  hero: { title: 'Heat-Safe Blocks', tagline: 'Map heat & design cool routes', gradeBand: 'MS', timeframe: '2–4 weeks', subjects: ['Science'] },
+  microOverview: [],
+  schedule: { totalWeeks: 3, lessonsPerWeek: 3, lessonLengthMin: 50 },
+  runOfShow: [week(1, []), week(2, ['A1']), week(3, ['A2', 'A1'])],
+  outcomes: { core: [], extras: [], audiences: [] },
+  materialsPrep: { coreKit: [], noTechFallback: [] },
+  assignments: [assignment('A1', 'Heat map'), assignment('A2', 'Route pitch'), assignment('A3', 'Reflection')]
+} as ProjectShowcaseV2;
+
+const withRubric: ProjectShowcaseV2 = {
+  ...urban_heatV2,
+  assignments: urban_heatV2.assignments.map((assignment, index) => (index === 0 ? {
+    ...assignment,
+    rubric: {
+      criteria: [{
+        name: 'Evidence <use>',
+        weight: 40,
+        levels: { exemplary: 'Cites 3+ readings', proficient: 'Cites 2 readings', developing: 'Cites 1 reading', beginning: 'No data' }
+      }]
+    }
+  } : assignment))
+};
+
+function parse(xml: string) {
+  return new DOMParser().parseFromString(xml, 'application/xml');
+}
+
+describe('buildCommonCartridge', () => {
+  it('produces a manifest that passes validation', () => {
+    const { manifest, files } = buildCommonCartridge(withRubric);
+    expect(validateCartridgeManifest(manifest, files)).toEqual({ valid: true, errors: [] });
+  });
+
+  it('creates one module per week, placing each assignment in the first week that lists it', () => {
+    const { manifest } = buildCommonCartridge(urban_heatV2);
+    const root = parse(manifest).querySelector('organization > item');
+    const modules = Array.from(root?.children || []).filter(el => el.localName === 'item');
+    const refsOf = (module: Element) => Array.from(module.getElementsByTagName('item')).map(item => item.getAttribute('identifierref'));
+
+    expect(modules.map(m => m.getAttribute('identifier'))).toEqual(['module_1', 'module_2', 'module_3', 'module_assignments']);
+    expect(refsOf(modules[1])).toEqual(['res_week_2', 'res_assignment_a1']);
+    expect(refsOf(modules[2])).toEqual(['res_week_3', 'res_assignment_a2']);
+    expect(refsOf(modules[3])).toEqual(['res_assignment_a3']);
+  });
+
+  it('writes assignments with directions, success criteria and the rubric', () => {
+    const { files } = buildCommonCartridge(withRubric);
+    const first = withRubric.assignments[0];
+    const doc = parse(files[`assignments/${first.id.toLowerCase()}/assignment.xml`]);
+    const html = doc.getElementsByTagNameNS(CC_ASSIGNMENT_NAMESPACE, 'text')[0].textContent || '';
+
+    expect(doc.getElementsByTagNameNS(CC_ASSIGNMENT_NAMESPACE, 'title')[0].textContent).toBe(`${first.id}: ${first.title}`);
+    expect(html).toContain(first.studentDirections[0].replace(/&/g, '&amp;'));
+    expect(html).toContain('Success criteria');
+    expect(html).toContain('Evidence &lt;use&gt; (40%)');
+    expect(doc.getElementsByTagNameNS(CC_ASSIGNMENT_NAMESPACE, 'gradable')[0].getAttribute('points_possible')).toBe('4');
+  });
+});
+
+describe('validateCartridgeManifest', () => {
+  it('reports dangling references, missing files and wrong versions', () => {
+    const { manifest, files } = buildCommonCartridge(urban_heatV2);
+    const broken = manifest
+      .replace('<schemaversion>1.3.0</schemaversion>', '<schemaversion>1.1.0</schemaversion>')
+      .replace('identifierref="res_week_1"', 'identifierref="res_missing"');
+    const { 'weeks/week-2.html': _removed, ...withoutWeek2 } = files;
+
+    const result = validateCartridgeManifest(broken, withoutWeek2);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      'metadata/schemaversion must be 1.3.0 (found "1.1.0")',
+      'Item "item_res_week_1" references unknown resource "res_missing"',
+      'Resource "res_week_2" references missing file weeks/week-2.html'
+    ]));
+  });
+
+  it('rejects malformed XML', () => {
+    expect(validateCartridgeManifest('<manifest>').errors).toEqual(['imsmanifest.xml is not well-formed XML']);
+  });
+});
@@ -0,0 +1,19 @@
+import { migrateShowcaseGradeBand } from '../gradeBandMigration';
+
+describe('migrateShowcaseGradeBand', () => {
+  const showcase = { hero: { title: 'Bug Hotel', gradeBand: 'ES' as const, timeframe: '2–4 weeks' } };
+
+  it('moves Pre-K and post-secondary showcases to their own bands', () => {
+    expect(migrateShowcaseGradeBand({ wizardData: { gradeLevel: 'Preschool' }, showcase }).showcase?.hero).toEqual({ ...showcase.hero, gradeBand: 'PK' });
+    expect(migrateShowcaseGradeBand({ wizardData: { gradeLevel: 'Community college' }, showcase }).showcase?.hero?.gradeBand).toBe('PS');
+    expect(showcase.hero.gradeBand).toBe('ES');
+  });
+
+  it('leaves other projects untouched', () => {
+    const k12 = { wizardData: { gradeLevel: 'High School (9-12)' }, showcase };
+    const noShowcase = { wizardData: { gradeLevel: 'Pre-K' } };
+
+    expect(migrateShowcaseGradeBand(k12)).toBe(k12);
+    expect(migrateShowcaseGradeBand(noShowcase)).toBe(noShowcase);
+  });
+});
@@ -0,0 +1,55 @@
+import { RateLimiter, parseQuotaHeaders, parseRetryAfter } from '../rate-limiter';
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('blocks an action until a server Retry-After passes', () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const limiter = new RateLimiter(60000, 10, 0);
+    limiter.recordRetryAfter('ai', 30_000, 'RATE_LIMITED');
+
+    expect(limiter.canPerformAction('ai')).toEqual({ allowed: false, waitTime: 30_000 });
+    expect(limiter.canPerformAction('other')).toEqual({ allowed: true });
+    expect(limiter.getSnapshot('ai')).toEqual({ quota: null, blockedUntil: 1_030_000, reason: 'RATE_LIMITED' });
+
+    jest.setSystemTime(1_030_001);
+    expect(limiter.canPerformAction('ai')).toEqual({ allowed: true });
+    expect(limiter.getSnapshot('ai').blockedUntil).toBeNull();
+  });
+
+  it('notifies subscribers when the server budget changes', () => {
+    const limiter = new RateLimiter();
+    const listener = jest.fn();
+    const unsubscribe = limiter.subscribe(listener);
+
+    limiter.updateQuota({ tokensLimit: 1000, tokensRemaining: 400, resetAt: 0 });
+    limiter.updateQuota(null);
+    unsubscribe();
+    limiter.updateQuota({ tokensLimit: 1000, tokensRemaining: 300, resetAt: 0 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].quota.tokensRemaining).toBe(400);
+  });
+});
+
+describe('quota header parsing', () => {
+  it('reads Retry-After as seconds or an HTTP date', () => {
+    expect(parseRetryAfter('120')).toBe(120_000);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:00 GMT', Date.parse('Wed, 21 Oct 2026 07:27:00 GMT'))).toBe(60_000);
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+
+  it('reads X-Quota headers and ignores responses without them', () => {
+    const headers = new Map([
+      ['X-Quota-Tokens-Limit', '250000'],
+      ['X-Quota-Tokens-Remaining', '1200'],
+      ['X-Quota-Requests-Remaining', '41'],
+      ['X-Quota-Reset', '1792368000']
+    ]);
+    expect(parseQuotaHeaders(headers)).toEqual({ tokensLimit: 250000, tokensRemaining: 1200, requestsRemaining: 41, resetAt: 1792368000000 });
+    expect(parseQuotaHeaders(new Map())).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  buildCalendarIcs,
+  buildProjectCalendar,
+  parseIcsDaysOff,
+  weekSpan,
+  type CalendarSettings
+} from '../schoolCalendar';
+import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
+
+const showcase = {
+  id: 'river-study',
+  hero: { title: 'River Study' },
+  runOfShow: [
+    { weekLabel: 'Week 1', focus: 'Launch', checkpoint: ['Exit ticket'], assignments: ['A1'] },
+    { weekLabel: 'Weeks 2–3', focus: 'Fieldwork', assignments: ['A1', 'A2'] },
+    { weekLabel: 'Week 4', focus: 'Exhibit', checkpoint: ['Gallery walk'] }
+  ],
+  assignments: [
+    { id: 'A1', title: 'Field notes' },
+    { id: 'A2', title: 'River model' },
+    { id: 'A3', title: 'Reflection' }
+  ]
+} as unknown as ProjectShowcaseV2;
+
+// 2026-01-05 is a Monday
+const settings = (patch: Partial<CalendarSettings> = {}): CalendarSettings => ({
+  startDate: '2026-01-05',
+  lessonsPerWeek: 3,
+  daysOff: [],
+  ...patch
+});
+
+describe('schoolCalendar', () => {
+  it('reads week spans from labels', () => {
+    expect(weekSpan('Week 1')).toBe(1);
+    expect(weekSpan('Weeks 3–4')).toBe(2);
+    expect(weekSpan('Weeks 2-5')).toBe(4);
+  });
+
+  it('maps week cards and due dates onto lesson days', () => {
+    const calendar = buildProjectCalendar(showcase, settings());
+    expect(calendar.weeks.map(week => [week.startDate, week.endDate])).toEqual([
+      ['2026-01-05', '2026-01-09'],
+      ['2026-01-12', '2026-01-23'],
+      ['2026-01-26', '2026-01-30']
+    ]);
+    expect(calendar.weeks[1].lessons).toHaveLength(6);
+    expect(calendar.weeks[0].checkpointDate).toBe('2026-01-09');
+    expect(calendar.weeks[0].dateLabel).toBe('Jan 5 – Jan 9');
+    expect(calendar.assignments).toEqual([
+      { assignmentId: 'A1', title: 'Field notes', weekIndex: 1, dueDate: '2026-01-23' },
+      { assignmentId: 'A2', title: 'River model', weekIndex: 1, dueDate: '2026-01-23' },
+      { assignmentId: 'A3', title: 'Reflection', weekIndex: null, dueDate: '2026-01-30' }
+    ]);
+    expect(calendar.warnings).toEqual([]);
+  });
+
+  it('reflows when the start date moves and starts mid-week', () => {
+    const calendar = buildProjectCalendar(showcase, settings({ startDate: '2026-01-07' }));
+    expect(calendar.weeks[0].lessons.map(lesson => lesson.date)).toEqual(['2026-01-07', '2026-01-09']);
+    expect(calendar.endDate).toBe('2026-01-30');
+
+    const later = buildProjectCalendar(showcase, settings({ startDate: '2026-02-02' }));
+    expect(later.weeks[0].startDate).toBe('2026-02-02');
+    expect(later.endDate).toBe('2026-02-27');
+  });
+
+  it('skips breaks and warns about checkpoints and due dates on days off', () => {
+    const calendar = buildProjectCalendar(showcase, settings({
+      daysOff: [
+        { start: '2026-01-09', label: 'PD day' },
+        { start: '2026-01-12', end: '2026-01-16', label: 'Winter break' },
+        { start: '2026-01-30', label: 'State testing' }
+      ]
+    }));
+
+    expect(calendar.weeks[0]).toMatchObject({ checkpointDate: '2026-01-07', plannedLessons: 3 });
+    expect(calendar.weeks[0].lessons).toHaveLength(2);
+    expect(calendar.weeks[1]).toMatchObject({ startDate: '2026-01-19', endDate: '2026-01-28' });
+    expect(calendar.weeks[1].skipped.map(day => day.label)).toEqual(['Winter break']);
+    expect(calendar.assignments[0]).toMatchObject({ dueDate: '2026-01-28' });
+
+    expect(calendar.warnings.map(warning => warning.kind)).toEqual([
+      'lessons-lost',
+      'checkpoint-on-day-off',
+      'week-skipped',
+      'lessons-lost',
+      'due-on-day-off',
+      'due-on-day-off'
+    ]);
+    expect(calendar.warnings[1].message).toBe('Week 1 checkpoint falls on PD day (Jan 9); moved to Jan 7');
+  });
+
+  it('rejects an invalid start date', () => {
+    expect(() => buildProjectCalendar(showcase, settings({ startDate: 'soon' }))).toThrow('valid start date');
+  });
+
+  it('imports days off from .ics with exclusive all-day ends and folded lines', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261123',
+      'DTEND;VALUE=DATE:20261128',
+      'SUMMARY:Thanksgiving\\, no school',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20261002T130000Z',
+      'SUMMARY:Teacher',
+      '  workday',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+    expect(parseIcsDaysOff(ics)).toEqual([
+      { start: '2026-10-02', label: 'Teacher workday', source: 'ics' },
+      { start: '2026-11-23', end: '2026-11-27', label: 'Thanksgiving, no school', source: 'ics' }
+    ]);
+  });
+
+  it('exports lessons, checkpoints and due dates as an .ics that round-trips', () => {
+    const calendar = buildProjectCalendar(showcase, settings());
+    const ics = buildCalendarIcs(showcase, calendar, { now: new Date('2026-01-01T12:00:00Z') });
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics).toContain('DTSTAMP:20260101T120000Z');
+    expect(ics).toContain('UID:river-study-due-A1@alfcoach');
+    expect(ics.split('\r\n').every(line => line.length <= 75)).toBe(true);
+
+    const events = parseIcsDaysOff(ics);
+    expect(events).toHaveLength(12 + 2 + 3);
+    expect(events.filter(event => event.label.includes('due'))).toEqual([
+      { start: '2026-01-23', label: 'River Study: A1 due · Field notes', source: 'ics' },
+      { start: '2026-01-23', label: 'River Study: A2 due · River model', source: 'ics' },
+      { start: '2026-01-30', label: 'River Study: A3 due · Reflection', source: 'ics' }
+    ]);
+  });
+});
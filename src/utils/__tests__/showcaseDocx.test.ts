@@ -0,0 +1,209 @@
+import { buildDocx, packDocx } from '../docx';
+import { buildShowcaseDocument, buildStudentHandouts, buildTeacherEdition, type DocxEdition } from '../showcaseDocx';
+import { buildTemplateLessonPlans } from '../../services/LessonPlanService';
+import { applyStudentText } from '../../services/StudentLanguageService';
+import { buildTemplateFamilyKit } from '../../services/FamilyKitService';
+import type { AssignmentCard, ProjectShowcaseV2, WeekCard } from '../../types/showcaseV2';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const week = (n: number, assignments: string[]): WeekCard => ({
+  weekLabel: `Week ${n}`,
+  kind: 'FieldworkLoop',
+  focus: `Focus for week ${n}`,
+  teacher: ['Model the protocol'],
+  students: ['Collect readings & notes'],
+  deliverables: ['Data log'],
+  assignments
+});
+
+const assignment = (id: string, title: string): AssignmentCard => ({
+  id,
+  title,
+  summary: `${title} summary`,
+  studentDirections: ['Measure surface temps', 'Compare shade vs. sun'],
+  teacherSetup: ['Calibrate thermometers'],
+  evidence: ['Data table'],
+  successCriteria: ['I can explain heat patterns']
+});
+
+const showcase = {
+  id: 'urban-heat',
+  version: '2',
+  hero: { title: 'Heat-Safe Blocks', tagline: 'Map heat & design cool routes', gradeBand: 'MS', timeframe: '2–4 weeks', subjects: ['Science'] },
+  microOverview: ['Students map heat on their block.'],
+  schedule: { totalWeeks: 2, lessonsPerWeek: 3, lessonLengthMin: 50 },
+  runOfShow: [week(1, []), week(2, ['A1'])],
+  outcomes: { core: ['Explain urban heat islands'], extras: [], audiences: ['City council'] },
+  materialsPrep: { coreKit: ['IR thermometers'], noTechFallback: [] },
+  assignments: [
+    {
+      ...assignment('A1', 'Heat map'),
+      rubric: {
+        criteria: [{
+          name: 'Evidence <use>',
+          weight: 40,
+          levels: { exemplary: 'Cites 3+ readings', proficient: 'Cites 2 readings', developing: 'Cites 1 reading', beginning: 'No data' }
+        }]
+      }
+    },
+    assignment('A2', 'Route pitch'),
+    assignment('A3', 'Reflection')
+  ],
+  planningNotes: 'Book the thermometers a week ahead.',
+  standardsAlignment: [
+    { id: 'MS-ESS3-3@week:1', code: 'MS-ESS3-3', label: 'Human impact', target: { kind: 'week', weekIndex: 1 }, rationale: '', confidence: 0.9, status: 'accepted', source: 'ai' },
+    { id: 'MS-ETS1-1@week:0', code: 'MS-ETS1-1', target: { kind: 'week', weekIndex: 0 }, rationale: '', confidence: 0.4, status: 'rejected', source: 'ai' }
+  ]
+} as ProjectShowcaseV2;
+
+function parse(xml: string) {
+  return new DOMParser().parseFromString(xml, 'application/xml');
+}
+
+function documentOf(edition: DocxEdition, source: ProjectShowcaseV2 = showcase) {
+  const { blocks, metadata } = buildShowcaseDocument(source, edition);
+  return parse(buildDocx(blocks, metadata)['word/document.xml']);
+}
+
+function paragraphsWithStyle(doc: Document, style: string): string[] {
+  return Array.from(doc.getElementsByTagNameNS(W_NS, 'p'))
+    .filter(p => p.getElementsByTagNameNS(W_NS, 'pStyle')[0]?.getAttributeNS(W_NS, 'val') === style)
+    .map(p => p.textContent || '');
+}
+
+describe('buildDocx', () => {
+  it('writes well-formed parts with escaped text and real bullet numbering', () => {
+    const files = buildDocx([
+      { type: 'heading', level: 1, text: 'Tools & <kit>' },
+      { type: 'bullets', items: ['One', '', 'Two'] },
+      { type: 'paragraph', runs: ['line one\nline two'] }
+    ], { title: 'A & B' });
+
+    Object.entries(files).forEach(([path, xml]) => {
+      expect({ path, error: parse(xml).getElementsByTagName('parsererror').length }).toEqual({ path, error: 0 });
+    });
+    const doc = parse(files['word/document.xml']);
+    expect(paragraphsWithStyle(doc, 'Heading1')).toEqual(['Tools & <kit>']);
+    expect(doc.getElementsByTagNameNS(W_NS, 'numPr')).toHaveLength(2);
+    expect(doc.getElementsByTagNameNS(W_NS, 'br')).toHaveLength(1);
+    expect(files['[Content_Types].xml']).toContain('/word/numbering.xml');
+  });
+
+  it('zips the parts into a package Word can open', () => {
+    const bytes = packDocx([{ type: 'paragraph', runs: ['Hi'] }], { title: 'Hi' });
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(new TextDecoder().decode(bytes)).toContain('word/document.xml');
+  });
+});
+
+describe('teacher edition', () => {
+  it('covers overview, run of show, materials, planning notes and rubric tables', () => {
+    const doc = documentOf('teacher');
+
+    expect(paragraphsWithStyle(doc, 'Title')).toEqual(['Heat-Safe Blocks']);
+    expect(paragraphsWithStyle(doc, 'Heading1')).toEqual([
+      'Overview', 'Outcomes', 'Run of Show', 'Materials & Prep', 'Assignments', 'Standards', 'Planning Notes'
+    ]);
+    expect(paragraphsWithStyle(doc, 'Heading2')).toEqual(expect.arrayContaining([
+      'Week 1: Focus for week 1', 'Week 2: Focus for week 2', 'A1: Heat map'
+    ]));
+    expect(paragraphsWithStyle(doc, 'Note')).toEqual(['Book the thermometers a week ahead.']);
+    const pageBreaks = Array.from(doc.getElementsByTagNameNS(W_NS, 'br')).filter(br => br.getAttributeNS(W_NS, 'type') === 'page');
+    expect(pageBreaks).toHaveLength(0);
+  });
+
+  it('renders week cards and rubrics as tables', () => {
+    const blocks = buildTeacherEdition(showcase);
+    const tables = blocks.filter(block => block.type === 'table');
+
+    expect(tables.find(t => t.type === 'table' && t.rows.some(r => r[0] === 'Assignments' && r[1] === 'A1: Heat map'))).toBeDefined();
+    expect(tables).toContainEqual(expect.objectContaining({
+      header: ['Criterion', 'Exemplary', 'Proficient', 'Developing', 'Beginning'],
+      rows: [['Evidence <use> (40%)', 'Cites 3+ readings', 'Cites 2 readings', 'Cites 1 reading', 'No data']]
+    }));
+    expect(tables).toContainEqual(expect.objectContaining({ rows: [['MS-ESS3-3', 'Human impact', 'Week 2']] }));
+  });
+});
+
+describe('student handouts', () => {
+  it('puts each assignment on its own pages', () => {
+    const blocks = buildStudentHandouts(showcase);
+    expect(blocks.filter(block => block.type === 'pageBreak')).toHaveLength(2);
+
+    const doc = documentOf('handouts');
+    expect(paragraphsWithStyle(doc, 'Heading1')).toEqual(['Heat map', 'Route pitch', 'Reflection']);
+    expect(Array.from(doc.getElementsByTagNameNS(W_NS, 'br')).filter(br => br.getAttributeNS(W_NS, 'type') === 'page')).toHaveLength(2);
+  });
+
+  it('leaves teacher-only content out', () => {
+    const text = documentOf('handouts').documentElement.textContent || '';
+    expect(text).toContain('Measure surface temps');
+    expect(text).not.toContain('Calibrate thermometers');
+    expect(text).not.toContain('Book the thermometers');
+  });
+});
+
+describe('student language', () => {
+  const spanish = applyStudentText(showcase, 'es', [{
+    id: 'A1',
+    title: 'Mapa de calor',
+    summary: 'Mide el calor de tu cuadra.',
+    studentDirections: ['Mide la temperatura de superficies', 'Compara sombra y sol'],
+    successCriteria: ['Puedo explicar patrones de calor'],
+    evidence: ['Tabla de datos']
+  }]);
+
+  it('prints handouts in the student language with translated headings', () => {
+    const doc = documentOf('handouts', spanish);
+    const text = (doc.documentElement.textContent || '').split('Route pitch')[0];
+
+    expect(paragraphsWithStyle(doc, 'Heading1')).toEqual(['Mapa de calor', 'Route pitch', 'Reflection']);
+    expect(text).toContain('Qué hacer');
+    expect(text).toContain('Mide la temperatura de superficies');
+    expect(text).not.toContain('Measure surface temps');
+    expect(text).toContain('Ejemplar');
+  });
+
+  it('puts both languages side by side in the bilingual edition', () => {
+    const { blocks, metadata } = buildShowcaseDocument(spanish, 'bilingual');
+    const [first] = blocks.filter(block => block.type === 'table');
+
+    expect(metadata.title).toBe('Heat-Safe Blocks — Bilingual Handouts');
+    expect(first).toMatchObject({ header: ['English', 'Español'], widths: [50, 50] });
+    expect(first.type === 'table' && first.rows[1]).toEqual([
+      'What to do\n• Measure surface temps\n• Compare shade vs. sun',
+      'Qué hacer\n• Mide la temperatura de superficies\n• Compara sombra y sol'
+    ]);
+    expect(paragraphsWithStyle(documentOf('bilingual', spanish), 'Heading1')[0]).toBe('Heat map / Mapa de calor');
+  });
+});
+
+describe('lesson plans', () => {
+  it('prints one plan per page with a timed procedure table', () => {
+    const planned = { ...showcase, lessonPlans: buildTemplateLessonPlans(showcase, 0) };
+    const { blocks, metadata } = buildShowcaseDocument(planned, 'lessons');
+
+    expect(metadata.title).toBe('Heat-Safe Blocks — Lesson Plans');
+    expect(blocks.filter(block => block.type === 'pageBreak')).toHaveLength(2);
+    const procedure = blocks.find(block => block.type === 'table');
+    expect(procedure).toMatchObject({ header: ['Time', 'Segment', 'Teacher', 'Students'] });
+
+    const doc = documentOf('lessons', planned);
+    expect(paragraphsWithStyle(doc, 'Heading1')[0]).toBe('Week 1 · Lesson 1: Focus for week 1');
+    expect(doc.documentElement.textContent).toContain('IR thermometers');
+  });
+});
+
+describe('family letters', () => {
+  it('prints one letter per page with bullets as a list', () => {
+    const withKit = { ...showcase, familyKit: buildTemplateFamilyKit(showcase) };
+    const { blocks, metadata } = buildShowcaseDocument(withKit, 'family');
+
+    expect(metadata.title).toBe('Heat-Safe Blocks — Family Letters');
+    expect(blocks.filter(block => block.type === 'pageBreak')).toHaveLength(withKit.familyKit.letters.length - 1);
+    expect(blocks[0]).toEqual({ type: 'heading', level: 1, text: 'Our new project: Heat-Safe Blocks' });
+    expect(blocks.some(block => block.type === 'bullets')).toBe(true);
+    expect(documentOf('family', withKit).documentElement.textContent).toContain('Dear families,');
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  LINT_RULES,
+  expectedWeekLabels,
+  fixAssignment,
+  fixShowcase,
+  getLintRule,
+  lintAssignment,
+  lintShowcase,
+  registerLintRule
+} from '../showcaseLint';
+import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
+
+const directions = ['Read the brief', 'Walk the block', 'Log three readings', 'Compare with a partner', 'Share one finding'];
+const setup = ['Print block maps', 'Charge the thermometers', 'Group students in threes'];
+const criteria = ['I can log accurate readings', 'I can compare two blocks', 'I can explain a pattern'];
+
+function assignment(id: string) {
+  return {
+    id,
+    title: `Assignment ${id}`,
+    summary: 'Students gather evidence about hot spots.',
+    studentDirections: [...directions],
+    teacherSetup: [...setup],
+    evidence: ['Heat log', 'Block map'],
+    successCriteria: [...criteria]
+  };
+}
+
+function week(label: string, assignments: string[]) {
+  return {
+    weekLabel: label,
+    kind: 'Build',
+    focus: 'Collect evidence of heat',
+    teacher: ['Model a reading', 'Check the logs', 'Debrief the data'],
+    students: ['Take readings', 'Log the data', 'Compare blocks'],
+    deliverables: ['Heat log', 'Block map'],
+    assignments
+  };
+}
+
+const clean = {
+  id: 'heat',
+  version: '2',
+  hero: { title: 'Urban Heat', tagline: 'Cool the block.', gradeBand: 'MS', timeframe: '4 weeks', subjects: ['Science'] },
+  microOverview: [
+    'Students measure surface temperatures around the school to find the hottest blocks.',
+    'Teams compare their readings with tree cover and pavement maps from the city.',
+    'The class pitches shade designs to neighbors and city planners at an exhibition.'
+  ],
+  schedule: { totalWeeks: 5, lessonsPerWeek: 3, lessonLengthMin: 45 },
+  runOfShow: [week('Week 1', ['A1']), week('Weeks 2–3', ['A2']), week('Week 4', ['A3']), week('Week 5', [])],
+  outcomes: {
+    core: ['Explain how surfaces store heat'],
+    extras: ['Estimate costs', 'Interview neighbors', 'Map tree cover'],
+    audiences: ['City planners', 'Neighbors', 'Families']
+  },
+  materialsPrep: { coreKit: ['IR thermometers'], noTechFallback: ['Paper logs'] },
+  assignments: [assignment('A1'), assignment('A2'), assignment('A3')]
+} as unknown as ProjectShowcaseV2;
+
+describe('lintShowcase', () => {
+  it('passes a project that meets the documented limits', () => {
+    const report = lintShowcase(clean);
+    expect(report.issues).toEqual([]);
+    expect(report.errorCount).toBe(0);
+  });
+
+  it('reports issues with severity, path and target, errors first', () => {
+    const broken = {
+      ...clean,
+      runOfShow: [week('Week 1', ['A1', 'A9']), ...clean.runOfShow.slice(1)],
+      assignments: [{ ...assignment('A1'), successCriteria: ['Logs readings', ...criteria] }, ...clean.assignments.slice(1)]
+    } as ProjectShowcaseV2;
+
+    const report = lintShowcase(broken);
+
+    expect(report.issues[0]).toMatchObject({
+      ruleId: 'unknown-assignment-ref',
+      severity: 'error',
+      path: 'runOfShow[0].assignments[1]',
+      weekIndex: 0,
+      fixable: true
+    });
+    expect(report.issues).toContainEqual(expect.objectContaining({
+      ruleId: 'student-voice',
+      severity: 'info',
+      path: 'assignments[0].successCriteria[0]',
+      assignmentId: 'A1'
+    }));
+    expect(report.errorCount).toBe(1);
+  });
+
+  it('sizes the schedule to the grade band', () => {
+    const twoWeeks = { ...clean, schedule: { ...clean.schedule, totalWeeks: 2 }, runOfShow: [week('Week 1', ['A1', 'A2', 'A3']), week('Week 2', [])] } as ProjectShowcaseV2;
+    const scheduleIssues = (showcase: ProjectShowcaseV2) => lintShowcase(showcase).issues.filter(issue => issue.ruleId === 'schedule');
+
+    expect(scheduleIssues(twoWeeks).map(issue => issue.message)).toEqual(['Schedule has 2 weeks (expected 4–12)']);
+    expect(scheduleIssues({ ...twoWeeks, hero: { ...clean.hero, gradeBand: 'PK' } } as ProjectShowcaseV2)).toEqual([]);
+    expect(scheduleIssues({ ...clean, schedule: { ...clean.schedule, totalWeeks: 15 }, runOfShow: [], hero: { ...clean.hero, gradeBand: 'PS' } } as ProjectShowcaseV2)).toEqual([]);
+  });
+
+  it('lets callers change severities or turn rules off', () => {
+    const orphaned = { ...clean, runOfShow: clean.runOfShow.map(item => ({ ...item, assignments: [] })) } as ProjectShowcaseV2;
+
+    expect(lintShowcase(orphaned).warningCount).toBe(3);
+    expect(lintShowcase(orphaned, { rules: { 'orphan-assignment': 'error' } }).errorCount).toBe(3);
+    expect(lintShowcase(orphaned, { rules: { 'orphan-assignment': 'off' } }).issues).toEqual([]);
+  });
+
+  it('runs rules added to the registry', () => {
+    const before = LINT_RULES.length;
+    registerLintRule({
+      id: 'test-no-drafts',
+      scope: 'assignment',
+      severity: 'warning',
+      description: 'No draft titles',
+      check: card => (card.title.includes('Draft') ? [{ path: 'title', message: 'Draft title' }] : [])
+    });
+    try {
+      const drafted = { ...clean, assignments: [{ ...assignment('A1'), title: 'Draft map' }, ...clean.assignments.slice(1)] } as ProjectShowcaseV2;
+      expect(lintShowcase(drafted).issues).toEqual([
+        expect.objectContaining({ ruleId: 'test-no-drafts', path: 'assignments[0].title', assignmentId: 'A1', fixable: false })
+      ]);
+      expect(getLintRule('test-no-drafts')).toBeDefined();
+    } finally {
+      LINT_RULES.splice(before);
+    }
+  });
+});
+
+describe('fixShowcase', () => {
+  it('trims text and drops empty bullets', () => {
+    const messy = {
+      ...clean,
+      hero: { ...clean.hero, title: '  Urban Heat ' },
+      runOfShow: [{ ...week('Week 1', ['A1']), teacher: ['Model a reading ', '', 'Check the logs', 'Debrief the data'] }, ...clean.runOfShow.slice(1)]
+    } as ProjectShowcaseV2;
+
+    const { showcase, applied, report } = fixShowcase(messy);
+
+    expect(applied).toEqual(['whitespace']);
+    expect(showcase.hero.title).toBe('Urban Heat');
+    expect(showcase.runOfShow[0].teacher).toEqual(['Model a reading', 'Check the logs', 'Debrief the data']);
+    expect(report.issues).toEqual([]);
+  });
+
+  it('splits run-on bullets and overview paragraphs', () => {
+    const runOn = {
+      ...clean,
+      microOverview: [`${clean.microOverview[0]} ${clean.microOverview[1]}`, clean.microOverview[2]],
+      runOfShow: [{ ...week('Week 1', ['A1']), students: ['Take readings at recess and after lunch; log the data in the class sheet', 'Compare blocks'] }, ...clean.runOfShow.slice(1)]
+    } as ProjectShowcaseV2;
+
+    const report = lintShowcase(runOn);
+    expect(report.issues.map(issue => issue.ruleId)).toEqual(['micro-overview', 'micro-overview', 'week-lists', 'week-lists']);
+    // Two students bullets is a count problem, only the run-on bullet can be fixed
+    expect(report.issues.filter(issue => issue.ruleId === 'week-lists').map(issue => issue.fixable)).toEqual([false, true]);
+
+    const { showcase } = fixShowcase(runOn);
+    expect(showcase.microOverview).toEqual(clean.microOverview);
+    expect(showcase.runOfShow[0].students).toEqual(['Take readings at recess and after lunch', 'log the data in the class sheet', 'Compare blocks']);
+  });
+
+  it('drops unknown assignment ids and re-links orphans next to their neighbours', () => {
+    const tangled = {
+      ...clean,
+      runOfShow: [week('Week 1', ['A1', 'A7']), week('Weeks 2–3', []), week('Week 4', []), week('Week 5', [])]
+    } as ProjectShowcaseV2;
+
+    const { showcase, applied, report } = fixShowcase(tangled);
+
+    expect(applied).toEqual(['unknown-assignment-ref', 'orphan-assignment']);
+    expect(showcase.runOfShow.map(item => item.assignments)).toEqual([['A1'], ['A2'], ['A3'], []]);
+    expect(report.errorCount + report.warningCount).toBe(0);
+  });
+
+  it('renumbers week labels and keeps multi-week spans', () => {
+    const shuffled = { ...clean, runOfShow: [week('Week 1', ['A1']), week('Week 3-4', ['A2']), week('Week 2', ['A3']), week('Week 5', [])] } as ProjectShowcaseV2;
+
+    expect(expectedWeekLabels(shuffled.runOfShow)).toEqual(['Week 1', 'Weeks 2–3', 'Week 4', 'Week 5']);
+    expect(lintShowcase(shuffled).issues.map(issue => issue.path)).toEqual(['runOfShow[1].weekLabel', 'runOfShow[2].weekLabel']);
+    expect(fixShowcase(shuffled, ['week-labels']).showcase.runOfShow.map(item => item.weekLabel)).toEqual(['Week 1', 'Weeks 2–3', 'Week 4', 'Week 5']);
+  });
+
+  it('only applies the requested rules', () => {
+    const tangled = { ...clean, hero: { ...clean.hero, title: 'Urban Heat ' }, runOfShow: [week('Week 1', ['A1', 'A7']), ...clean.runOfShow.slice(1)] } as ProjectShowcaseV2;
+
+    const { showcase, applied } = fixShowcase(tangled, ['unknown-assignment-ref']);
+
+    expect(applied).toEqual(['unknown-assignment-ref']);
+    expect(showcase.hero.title).toBe('Urban Heat ');
+  });
+});
+
+describe('lintAssignment', () => {
+  it('checks editor cards with the assignment rules only', () => {
+    const card = { ...assignment('A1'), studentDirections: ['Read the brief and underline every question you still have; then share two with a partner'], when: 'Week 1', aiOptional: '' };
+
+    const report = lintAssignment(card);
+
+    expect(report.issues.map(issue => [issue.ruleId, issue.path, issue.fixable])).toEqual([
+      ['assignment-lists', 'studentDirections', false],
+      ['assignment-lists', 'studentDirections[0]', true]
+    ]);
+    const fixed = fixAssignment(card);
+    expect(fixed.studentDirections).toEqual(['Read the brief and underline every question you still have', 'then share two with a partner']);
+    expect(fixed.when).toBe('Week 1');
+  });
+});
@@ -0,0 +1,121 @@
+import { buildStudentSite, currentWeekIndex, drivingQuestion, renderStudentSiteHtml, studentGradeBand } from '../studentSite';
+import { applyStudentText } from '../../services/StudentLanguageService';
+import type { ProjectShowcaseV2 } from '../../types/showcaseV2';
+import type { ProjectCalendar } from '../schoolCalendar';
+
+const showcase = {
+  id: 'heat',
+  version: '2',
+  hero: { title: 'Urban Heat', tagline: 'Cool the block.', gradeBand: 'ES', timeframe: '2–4 weeks', subjects: ['Science'] },
+  microOverview: ['Students map hot blocks near school.'],
+  drivingQuestion: 'How can we cool our block?',
+  schedule: { totalWeeks: 3, lessonsPerWeek: 3, lessonLengthMin: 45 },
+  runOfShow: [
+    { weekLabel: 'Week 1', kind: 'Foundations', focus: 'Collect evidence of heat', teacher: ['Calibrate the IR thermometers'], students: ['Analyze surface temperatures'], deliverables: ['Heat log'], assignments: ['A1'] },
+    { weekLabel: 'Weeks 2–3', kind: 'Build', focus: 'Build shade prototypes', teacher: ['Order shade cloth'], students: ['Test materials'], deliverables: ['Prototype'], assignments: ['A2'] }
+  ],
+  outcomes: { core: [], extras: [], audiences: [] },
+  materialsPrep: { coreKit: ['IR thermometers'], noTechFallback: [] },
+  assignments: [
+    {
+      id: 'A1',
+      title: 'Heat Map <draft>',
+      summary: 'Gather evidence about hot spots.',
+      studentDirections: ['Analyze your readings'],
+      teacherSetup: ['Print block maps for each team'],
+      evidence: ['Heat map'],
+      successCriteria: ['I can use evidence to explain heat'],
+      checkpoint: 'Teacher checks readings',
+      rubric: { criteria: [{ name: 'Accuracy', levels: { exemplary: 'Secret rubric text', proficient: '', developing: '', beginning: '' } }] }
+    },
+    { id: 'A2', title: 'Shade Pitch', summary: '', studentDirections: ['Pitch your design'], teacherSetup: [], evidence: [], successCriteria: ['I can explain my design'] }
+  ],
+  planningNotes: 'Book the courtyard early.'
+} as unknown as ProjectShowcaseV2;
+
+const calendar = {
+  weeks: [
+    { weekIndex: 0, weekLabel: 'Week 1', focus: '', startDate: '2026-09-07', endDate: '2026-09-11', dateLabel: 'Sep 7 – Sep 11', lessons: [], plannedLessons: 3, skipped: [] },
+    { weekIndex: 1, weekLabel: 'Weeks 2–3', focus: '', startDate: '2026-09-21', endDate: '2026-10-02', dateLabel: 'Sep 21 – Oct 2', lessons: [], plannedLessons: 6, skipped: [] }
+  ],
+  assignments: [],
+  warnings: [],
+  startDate: '2026-09-07',
+  endDate: '2026-10-02'
+} as ProjectCalendar;
+
+describe('buildStudentSite', () => {
+  it('keeps student-facing fields and adapts English card text to the grade band', () => {
+    const site = buildStudentSite(showcase, { today: '2026-09-01' });
+
+    expect(site.gradeBand).toBe('3-5');
+    expect(site.drivingQuestion).toBe('How can we cool our block?');
+    expect(site.weeks[0]).toMatchObject({ focus: 'Collect evidence of heat', doing: ['Study surface temperatures'], assignmentIds: ['A1'] });
+    expect(site.assignments[0]).toEqual({
+      id: 'A1',
+      title: 'Heat Map <draft>',
+      summary: 'Gather evidence about hot spots.',
+      directions: ['Study your readings'],
+      successCriteria: ['I can use evidence to explain heat']
+    });
+  });
+
+  it('leaves localized copy as written', () => {
+    const spanish = applyStudentText({ ...showcase, studentLanguage: 'es' }, 'es', [
+      { id: 'A1', title: 'Mapa de calor', summary: 'Reúne pruebas.', studentDirections: ['Analiza tus datos'], successCriteria: ['Puedo explicar el calor'], evidence: [] }
+    ]);
+    const site = buildStudentSite(spanish);
+
+    expect(site.locale).toBe('es');
+    expect(site.assignments[0].directions).toEqual(['Analiza tus datos']);
+    expect(site.assignments[1].directions).toEqual(['Pitch your design']);
+  });
+
+  it('picks this week from the calendar, or the pinned week', () => {
+    expect(buildStudentSite(showcase, { calendar, today: '2026-09-09' }).currentWeekIndex).toBe(0);
+    expect(buildStudentSite(showcase, { calendar, today: '2026-09-15' }).currentWeekIndex).toBe(1);
+    expect(buildStudentSite(showcase, { calendar, today: '2026-12-01' }).currentWeekIndex).toBe(1);
+    expect(buildStudentSite(showcase, { calendar, today: '2026-09-09', weekIndex: 1 }).currentWeekIndex).toBe(1);
+    expect(currentWeekIndex([{}, {}], '2026-09-09')).toBe(0);
+  });
+});
+
+describe('student site helpers', () => {
+  it('finds a driving question when the project has none set', () => {
+    const { drivingQuestion: _question, ...rest } = showcase;
+    expect(drivingQuestion({ ...rest, runOfShow: [{ ...showcase.runOfShow[0], focus: 'Launch inquiry. Ask, "Whose story will disappear?" Then plan.' }] } as ProjectShowcaseV2))
+      .toBe('Whose story will disappear?');
+    expect(drivingQuestion(rest as ProjectShowcaseV2)).toBe('Cool the block.');
+  });
+
+  it('prefers a grade range in the spec line over the showcase band', () => {
+    expect(studentGradeBand({ ...showcase, hero: { ...showcase.hero, specLine: 'Grades K–2 · 3 weeks' } })).toBe('K-2');
+    expect(studentGradeBand({ ...showcase, hero: { ...showcase.hero, gradeBand: 'HS' } })).toBe('9-12');
+    expect(studentGradeBand({ ...showcase, hero: { ...showcase.hero, gradeBand: 'PK' } })).toBe('Pre-K');
+  });
+});
+
+describe('renderStudentSiteHtml', () => {
+  it('is a self-contained page without teacher-only content', () => {
+    const html = renderStudentSiteHtml(buildStudentSite(showcase, { today: '2026-09-01' }), new Date(2026, 8, 1));
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<html lang="en">');
+    expect(html).toContain('Heat Map &lt;draft&gt;');
+    expect(html).toContain('<a href="#assignment-A1">');
+    expect(html).not.toMatch(/<(link|img)\b|src=|https?:/);
+    ['Calibrate the IR thermometers', 'Print block maps', 'Teacher checks readings', 'Secret rubric text', 'Book the courtyard', 'IR thermometers'].forEach(text => {
+      expect(html).not.toContain(text);
+    });
+    // No dates, so nothing to re-pick
+    expect(html).not.toContain('<script>');
+  });
+
+  it('re-picks this week from the dates when the project is scheduled', () => {
+    const html = renderStudentSiteHtml(buildStudentSite(showcase, { calendar, today: '2026-09-09' }));
+
+    expect(html).toContain('data-start="2026-09-21" data-end="2026-10-02"');
+    expect(html).toContain('<script>');
+    expect(html).toContain('Sep 7 – Sep 11');
+  });
+});
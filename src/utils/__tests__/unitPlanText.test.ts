@@ -0,0 +1,101 @@
+import { deflateSync, inflateRawSync, inflateSync } from 'node:zlib';
+import { packDocx } from '../docx';
+import { docxXmlToText, extractUnitPlanText, pdfContentToText, unitPlanFormat } from '../unitPlanText';
+import type { Decompress } from '../zip';
+
+const nodeDecompress: Decompress = async (data, format, maxBytes) => {
+  const options = maxBytes === undefined ? {} : { maxOutputLength: maxBytes };
+  return new Uint8Array(format === 'deflate' ? inflateSync(data, options) : inflateRawSync(data, options));
+};
+
+function bytes(...parts: Array<string | Uint8Array>): Uint8Array {
+  const chunks = parts.map(part => (typeof part === 'string' ? new TextEncoder().encode(part) : part));
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return out;
+}
+
+describe('unitPlanFormat', () => {
+  it('maps extensions to the supported formats', () => {
+    expect(unitPlanFormat('Unit.DOCX')).toBe('docx');
+    expect(unitPlanFormat('plan.pdf')).toBe('pdf');
+    expect(unitPlanFormat('notes.md')).toBe('markdown');
+    expect(unitPlanFormat('notes.txt')).toBe('markdown');
+    expect(unitPlanFormat('slides.pptx')).toBeNull();
+  });
+});
+
+describe('docx', () => {
+  it('keeps headings, bullets and table rows from a Word file', async () => {
+    const file = packDocx([
+      { type: 'heading', level: 0, text: 'Urban Heat Islands' },
+      { type: 'paragraph', runs: ['Essential Question: ', { text: 'How can we cool our block?', bold: true }] },
+      { type: 'heading', level: 2, text: 'Week 1: Launch' },
+      { type: 'bullets', items: ['Walk the block', 'Log surface temperatures'] },
+      { type: 'table', header: ['Grade', 'Duration'], rows: [['7', '4 weeks']] }
+    ], { title: 'Urban Heat Islands' });
+
+    const { format, text } = await extractUnitPlanText('heat.docx', file, { decompress: nodeDecompress });
+
+    expect(format).toBe('docx');
+    expect(text.split('\n')).toEqual([
+      '# Urban Heat Islands',
+      'Essential Question: How can we cool our block?',
+      '## Week 1: Launch',
+      '- Walk the block',
+      '- Log surface temperatures',
+      'Grade | Duration',
+      '7 | 4 weeks'
+    ]);
+  });
+
+  it('reads outline levels from paragraph styles', () => {
+    const xml = `<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>
+      <w:p><w:pPr><w:pStyle w:val="Heading3"/></w:pPr><w:r><w:t>Assessment</w:t></w:r></w:p>
+      <w:p><w:pPr><w:pStyle w:val="ListParagraph"/></w:pPr><w:r><w:t xml:space="preserve">I can </w:t></w:r><w:r><w:t>explain heat</w:t></w:r></w:p>
+    </w:body></w:document>`;
+
+    expect(docxXmlToText(xml)).toBe('### Assessment\n- I can explain heat');
+  });
+});
+
+describe('pdf', () => {
+  it('reads text operators from plain and Flate-compressed streams', async () => {
+    const first = 'BT /F1 14 Tf 72 720 Td (Urban Heat Islands) Tj 0 -20 Td (Essential Question: How can we cool our block\\?) Tj ET';
+    const second = deflateSync(new TextEncoder().encode('BT 72 600 Td [(Week 1) -12 (: Launch)] TJ T* [(Walk) -320 (the block)] TJ T* (and log temperatures) Tj ET'));
+    const pdf = bytes(
+      '%PDF-1.4\n',
+      `4 0 obj\n<< /Length ${first.length} >>\nstream\n${first}\nendstream\nendobj\n`,
+      `5 0 obj\n<< /Length ${second.length} /Filter /FlateDecode >>\nstream\n`, second, '\nendstream\nendobj\n',
+      '%%EOF\n'
+    );
+
+    const { format, text } = await extractUnitPlanText('plan.pdf', pdf, { decompress: nodeDecompress });
+
+    expect(format).toBe('pdf');
+    expect(text).toContain('Urban Heat Islands\nEssential Question: How can we cool our block?');
+    expect(text).toContain('Week 1: Launch\nWalk the block\nand log temperatures');
+  });
+
+  it('decodes escapes and hex strings', () => {
+    expect(pdfContentToText('BT (Heat \\(surface\\)) Tj <4869> Tj ET')).toBe('Heat (surface)Hi');
+  });
+
+  it('rejects PDFs without a text layer', async () => {
+    const image = 'q 612 0 0 792 0 0 cm /Im0 Do Q';
+    const pdf = bytes('%PDF-1.4\n', `4 0 obj\n<< /Length ${image.length} >>\nstream\n${image}\nendstream\nendobj\n`);
+
+    await expect(extractUnitPlanText('scan.pdf', pdf, { decompress: nodeDecompress })).rejects.toThrow('may be a scan');
+  });
+});
+
+describe('extractUnitPlanText', () => {
+  it('passes Markdown through and rejects other files', async () => {
+    await expect(extractUnitPlanText('plan.md', new TextEncoder().encode('# Unit\r\n- Step'))).resolves.toEqual({ format: 'markdown', text: '# Unit\n- Step' });
+    await expect(extractUnitPlanText('slides.pptx', new Uint8Array())).rejects.toThrow('Upload a Word (.docx), PDF or Markdown file');
+  });
+});
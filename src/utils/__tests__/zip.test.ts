@@ -0,0 +1,65 @@
+import { crc32, unzip, zipStored } from '../zip';
+
+describe('zipStored', () => {
+  it('computes standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+  });
+
+  it('writes the manifest as the first stored entry with a central directory', () => {
+    const bytes = zipStored({ 'b.txt': 'bee', 'imsmanifest.xml': '<manifest/>' });
+    const view = new DataView(bytes.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(new TextDecoder().decode(bytes.slice(30, 30 + 'imsmanifest.xml'.length))).toBe('imsmanifest.xml');
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+  });
+});
+
+describe('unzip', () => {
+  const decode = (files: Record<string, Uint8Array>) =>
+    Object.fromEntries(Object.entries(files).map(([name, data]) => [name, new TextDecoder().decode(data)]));
+
+  it('reads back what zipStored wrote', async () => {
+    const files = await unzip(zipStored({ 'a.txt': 'alpha', 'dir/b.txt': 'bravo' }));
+    expect(decode(files)).toEqual({ 'a.txt': 'alpha', 'dir/b.txt': 'bravo' });
+  });
+
+  it('only reads filtered entries, so unknown methods elsewhere do not fail', async () => {
+    const bytes = zipStored({ 'media/image1.emf': 'pretend-lzma', 'word/document.xml': '<w:document/>' });
+    const view = new DataView(bytes.buffer);
+    const directory = view.getUint32(bytes.length - 22 + 16, true);
+    view.setUint16(directory + 10, 14, true); // media/image1.emf → LZMA
+
+    await expect(unzip(bytes)).rejects.toThrow('Unsupported zip compression for media/image1.emf');
+    const files = await unzip(bytes, { filter: name => name === 'word/document.xml' });
+    expect(decode(files)).toEqual({ 'word/document.xml': '<w:document/>' });
+  });
+
+  it('rejects output past the size cap', async () => {
+    const bytes = zipStored({ 'a.txt': 'x'.repeat(64), 'b.txt': 'y'.repeat(64) });
+
+    await expect(unzip(bytes, { maxBytes: 100 })).rejects.toThrow('too large');
+    const files = await unzip(bytes, { maxBytes: 100, filter: name => name === 'a.txt' });
+    expect(Object.keys(files)).toEqual(['a.txt']);
+  });
+
+  it('passes the remaining budget to the inflater', async () => {
+    const bytes = zipStored({ 'a.txt': 'x'.repeat(40), 'b.txt': 'y' });
+    const view = new DataView(bytes.buffer);
+    const directory = view.getUint32(bytes.length - 22 + 16, true);
+    const second = directory + 46 + 'a.txt'.length;
+    view.setUint16(second + 10, 8, true); // b.txt → deflated
+    const budgets: Array<number | undefined> = [];
+
+    await unzip(bytes, {
+      maxBytes: 100,
+      inflate: async (data, _format, maxBytes) => {
+        budgets.push(maxBytes);
+        return data;
+      }
+    });
+    expect(budgets).toEqual([60]);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * IMS Common Cartridge 1.3 builder for ProjectShowcaseV2
+ *
+ * Package layout (.imscc is a zip):
+ * - imsmanifest.xml              manifest, one module per runOfShow week
+ * - weeks/week-N.html            week overview page (webcontent)
+ * - assignments/{id}/assignment.xml  CC assignment extension with directions,
+ *                                success criteria and the analytic rubric as HTML
+ *
+ * Assignments are placed in the module of the first week that lists them
+ * (WeekCard.assignments); unlisted assignments go into a trailing module.
+ * Canvas, Schoology and Google Classroom import this shape.
+ *
+ * validateCartridgeManifest() checks the manifest offline (namespaces, schema
+ * version, single rooted organization, resolvable identifierrefs, files present).
+ */
+
+import type { AnalyticRubric, AssignmentCard, ProjectShowcaseV2, WeekCard } from '../types/showcaseV2';
+
+export const CC_NAMESPACE = 'http://www.imsglobal.org/xsd/imsccv1p3/imscp_v1p1';
+export const CC_LOM_NAMESPACE = 'http://ltsc.ieee.org/xsd/imsccv1p3/LOM/manifest';
+export const CC_ASSIGNMENT_NAMESPACE = 'http://www.imsglobal.org/xsd/imscc_extensions/assignment';
+export const CC_SCHEMA_VERSION = '1.3.0';
+
+const ALLOWED_RESOURCE_TYPES = new Set(['webcontent', 'assignment_xmlv1p0']);
+const POINTS_PER_LEVEL = { exemplary: 4, proficient: 3, developing: 2, beginning: 1 } as const;
+
+export interface CartridgePackage {
+  manifest: string;
+  files: Record<string, string>;   // path → UTF-8 content, including imsmanifest.xml
+}
+
+export interface CartridgeValidation {
+  valid: boolean;
+  errors: string[];
+}
+
+function escapeXml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function slug(value: string, fallback: string): string {
+  const cleaned = value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return cleaned || fallback;
+}
+
+function list(items: string[] | undefined): string {
+  const filtered = (items || []).filter(Boolean);
+  return filtered.length ? `<ul>${filtered.map(item => `<li>${escapeXml(item)}</li>`).join('')}</ul>` : '';
+}
+
+function section(title: string, body: string): string {
+  return body ? `<h3>${escapeXml(title)}</h3>${body}` : '';
+}
+
+function rubricTable(rubric: AnalyticRubric | undefined): string {
+  if (!rubric?.criteria?.length) {return '';}
+  const levels = Object.keys(POINTS_PER_LEVEL) as Array<keyof typeof POINTS_PER_LEVEL>;
+  const header = levels.map(level => `<th>${level[0].toUpperCase()}${level.slice(1)} (${POINTS_PER_LEVEL[level]})</th>`).join('');
+  const rows = rubric.criteria.map(criterion => {
+    const name = `${escapeXml(criterion.name)}${criterion.weight ? ` (${escapeXml(criterion.weight)}%)` : ''}`;
+    const cells = levels.map(level => `<td>${escapeXml(criterion.levels?.[level])}</td>`).join('');
+    return `<tr><th scope="row">${name}</th>${cells}</tr>`;
+  }).join('');
+  return `<table border="1"><thead><tr><th>Criterion</th>${header}</tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+function htmlPage(title: string, body: string): string {
+  return `<!DOCTYPE html>\n<html><head><meta charset="utf-8"/><title>${escapeXml(title)}</title></head><body><h1>${escapeXml(title)}</h1>${body}</body></html>\n`;
+}
+
+function weekPage(week: WeekCard, showcase: ProjectShowcaseV2): string {
+  const linked = (week.assignments || [])
+    .map(id => showcase.assignments.find(a => a.id === id))
+    .filter((a): a is AssignmentCard => Boolean(a))
+    .map(a => `${a.id}: ${a.title}`);
+  return htmlPage(`${week.weekLabel}: ${week.focus}`, [
+    section('Students will', list(week.students)),
+    section('Teacher moves', list(week.teacher)),
+    section('Deliverables', list(week.deliverables)),
+    section('Checkpoint', list(week.checkpoint)),
+    section('Assignments', list(linked))
+  ].join(''));
+}
+
+function assignmentXml(assignment: AssignmentCard, identifier: string): string {
+  const body = [
+    assignment.summary ? `<p>${escapeXml(assignment.summary)}</p>` : '',
+    section('Directions', list(assignment.studentDirections)),
+    section('Success criteria', list(assignment.successCriteria)),
+    section('Evidence to submit', list(assignment.evidence)),
+    assignment.checkpoint ? section('Checkpoint', `<p>${escapeXml(assignment.checkpoint)}</p>`) : '',
+    assignment.aiOptional ? section('AI use (optional)', list([
+      `Tool use: ${assignment.aiOptional.toolUse}`,
+      `Critique: ${assignment.aiOptional.critique}`,
+      `No-AI alternative: ${assignment.aiOptional.noAIAlt}`
+    ])) : '',
+    section('Safety', list(assignment.safety)),
+    section('Rubric', rubricTable(assignment.rubric))
+  ].join('');
+  const points = assignment.rubric?.criteria?.length
+    ? assignment.rubric.criteria.length * POINTS_PER_LEVEL.exemplary
+    : 100;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assignment xmlns="${CC_ASSIGNMENT_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${CC_ASSIGNMENT_NAMESPACE} http://www.imsglobal.org/profile/cc/cc_extensions/cc_extresource_assignmentv1p0_v1p0.xsd" identifier="${identifier}">
+  <title>${escapeXml(`${assignment.id}: ${assignment.title}`)}</title>
+  <text texttype="text/html">${escapeXml(body)}</text>
+  <instructor_text texttype="text/html">${escapeXml(list(assignment.teacherSetup))}</instructor_text>
+  <gradable points_possible="${points}">true</gradable>
+  <submission_formats>
+    <format type="file"/>
+    <format type="text"/>
+    <format type="url"/>
+  </submission_formats>
+</assignment>
+`;
+}
+
+/**
+ * Build the cartridge files for a showcase (no zipping, so it can be inspected in tests).
+ */
+export function buildCommonCartridge(showcase: ProjectShowcaseV2): CartridgePackage {
+  const files: Record<string, string> = {};
+  const resources: string[] = [];
+  const modules: string[] = [];
+  const placed = new Set<string>();
+  const projectSlug = slug(showcase.id || showcase.hero?.title || '', 'project');
+
+  const assignmentItem = (assignment: AssignmentCard, index: number): string => {
+    const ref = `res_assignment_${slug(assignment.id, String(index + 1))}`;
+    if (!placed.has(assignment.id)) {
+      const href = `assignments/${slug(assignment.id, String(index + 1))}/assignment.xml`;
+      files[href] = assignmentXml(assignment, ref);
+      resources.push(`    <resource identifier="${ref}" type="assignment_xmlv1p0" href="${href}">\n      <file href="${href}"/>\n    </resource>`);
+      placed.add(assignment.id);
+    }
+    return `        <item identifier="item_${ref}" identifierref="${ref}">\n          <title>${escapeXml(`${assignment.id}: ${assignment.title}`)}</title>\n        </item>`;
+  };
+
+  (showcase.runOfShow || []).forEach((week, index) => {
+    const pageRef = `res_week_${index + 1}`;
+    const href = `weeks/week-${index + 1}.html`;
+    files[href] = weekPage(week, showcase);
+    resources.push(`    <resource identifier="${pageRef}" type="webcontent" href="${href}">\n      <file href="${href}"/>\n    </resource>`);
+
+    const items = [`        <item identifier="item_${pageRef}" identifierref="${pageRef}">\n          <title>${escapeXml(`${week.weekLabel} overview`)}</title>\n        </item>`];
+    (week.assignments || []).forEach(id => {
+      const assignmentIndex = showcase.assignments.findIndex(a => a.id === id);
+      if (assignmentIndex !== -1 && !placed.has(id)) {
+        items.push(assignmentItem(showcase.assignments[assignmentIndex], assignmentIndex));
+      }
+    });
+    modules.push(`      <item identifier="module_${index + 1}">\n        <title>${escapeXml(`${week.weekLabel}: ${week.focus}`)}</title>\n${items.join('\n')}\n      </item>`);
+  });
+
+  const remaining = (showcase.assignments || [])
+    .map((assignment, index) => ({ assignment, index }))
+    .filter(({ assignment }) => !placed.has(assignment.id));
+  if (remaining.length) {
+    const items = remaining.map(({ assignment, index }) => assignmentItem(assignment, index));
+    modules.push(`      <item identifier="module_assignments">\n        <title>Assignments</title>\n${items.join('\n')}\n      </item>`);
+  }
+
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="cc_${projectSlug}" xmlns="${CC_NAMESPACE}" xmlns:lomimscc="${CC_LOM_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${CC_NAMESPACE} http://www.imsglobal.org/profile/cc/ccv1p3/ccv1p3_imscp_v1p2_v1p0.xsd ${CC_LOM_NAMESPACE} http://www.imsglobal.org/profile/cc/ccv1p3/LOM/ccv1p3_lommanifest_v1p0.xsd">
+  <metadata>
+    <schema>IMS Common Cartridge</schema>
+    <schemaversion>${CC_SCHEMA_VERSION}</schemaversion>
+    <lomimscc:lom>
+      <lomimscc:general>
+        <lomimscc:title>
+          <lomimscc:string>${escapeXml(showcase.hero?.title || 'ALF Coach project')}</lomimscc:string>
+        </lomimscc:title>
+        <lomimscc:description>
+          <lomimscc:string>${escapeXml(showcase.hero?.tagline || '')}</lomimscc:string>
+        </lomimscc:description>
+      </lomimscc:general>
+    </lomimscc:lom>
+  </metadata>
+  <organizations>
+    <organization identifier="org_1" structure="rooted-hierarchy">
+      <item identifier="root">
+${modules.join('\n')}
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+${resources.join('\n')}
+  </resources>
+</manifest>
+`;
+
+  files['imsmanifest.xml'] = manifest;
+  return { manifest, files };
+}
+
+/**
+ * Offline structural validation of imsmanifest.xml (and the files it references).
+ */
+export function validateCartridgeManifest(manifest: string, files?: Record<string, string>): CartridgeValidation {
+  const errors: string[] = [];
+  const doc = new DOMParser().parseFromString(manifest, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) {
+    return { valid: false, errors: ['imsmanifest.xml is not well-formed XML'] };
+  }
+
+  const byTag = (parent: Element | Document, tag: string) => Array.from(parent.getElementsByTagNameNS(CC_NAMESPACE, tag));
+  const root = doc.documentElement;
+  if (root.localName !== 'manifest' || root.namespaceURI !== CC_NAMESPACE) {
+    errors.push(`Root element must be <manifest> in ${CC_NAMESPACE}`);
+  }
+  if (!root.getAttribute('identifier')) {errors.push('manifest@identifier is required');}
+
+  const schema = byTag(doc, 'schema')[0]?.textContent?.trim();
+  const version = byTag(doc, 'schemaversion')[0]?.textContent?.trim();
+  if (schema !== 'IMS Common Cartridge') {errors.push(`metadata/schema must be "IMS Common Cartridge" (found "${schema ?? ''}")`);}
+  if (version !== CC_SCHEMA_VERSION) {errors.push(`metadata/schemaversion must be ${CC_SCHEMA_VERSION} (found "${version ?? ''}")`);}
+
+  const organizations = byTag(doc, 'organization');
+  if (organizations.length !== 1) {
+    errors.push(`Expected exactly one organization (found ${organizations.length})`);
+  } else {
+    if (organizations[0].getAttribute('structure') !== 'rooted-hierarchy') {errors.push('organization@structure must be "rooted-hierarchy"');}
+    const topItems = Array.from(organizations[0].children).filter(el => el.localName === 'item');
+    if (topItems.length !== 1) {errors.push('organization must contain a single root item');}
+  }
+
+  const identifiers = new Set<string>();
+  const resourceIds = new Set<string>();
+  [...byTag(doc, 'item'), ...byTag(doc, 'resource')].forEach(el => {
+    const id = el.getAttribute('identifier') || '';
+    if (!id) {errors.push(`<${el.localName}> without identifier`);}
+    else if (identifiers.has(id)) {errors.push(`Duplicate identifier "${id}"`);}
+    identifiers.add(id);
+  });
+
+  byTag(doc, 'resource').forEach(resource => {
+    const id = resource.getAttribute('identifier') || '';
+    const type = resource.getAttribute('type') || '';
+    resourceIds.add(id);
+    if (!ALLOWED_RESOURCE_TYPES.has(type)) {errors.push(`Resource "${id}" has unsupported type "${type}"`);}
+    const hrefs = byTag(resource, 'file').map(file => file.getAttribute('href') || '');
+    const href = resource.getAttribute('href');
+    if (href && !hrefs.includes(href)) {errors.push(`Resource "${id}" href is not listed as a <file>`);}
+    if (files) {
+      hrefs.filter(path => !(path in files)).forEach(path => errors.push(`Resource "${id}" references missing file ${path}`));
+    }
+    if (files && type === 'assignment_xmlv1p0' && href && files[href]) {
+      const assignment = new DOMParser().parseFromString(files[href], 'application/xml');
+      const title = assignment.getElementsByTagNameNS(CC_ASSIGNMENT_NAMESPACE, 'title')[0]?.textContent?.trim();
+      if (assignment.getElementsByTagName('parsererror').length || !title) {
+        errors.push(`Assignment ${href} is malformed or missing a title`);
+      }
+    }
+  });
+
+  byTag(doc, 'item').forEach(item => {
+    const ref = item.getAttribute('identifierref');
+    if (ref && !resourceIds.has(ref)) {errors.push(`Item "${item.getAttribute('identifier')}" references unknown resource "${ref}"`);}
+  });
+
+  return { valid: errors.length === 0, errors };
+}
@@ -107,6 +107,14 @@ export const copy = {
     master: {
       label: 'Master',
       description: 'Independent, transfer-ready performance'
+    },
+    taught: {
+      label: 'Taught',
+      description: 'Addressed in this week\'s learning'
+    },
+    assessed: {
+      label: 'Assessed',
+      description: 'Evidence collected in this assignment or its rubric'
     }
   },
 
@@ -116,7 +124,8 @@ export const copy = {
     milestones: 'No milestones yet. Add your first checkpoint.',
     evidence: 'No evidence listed. Add at least one item per checkpoint.',
     rubrics: 'No rubric linked. Link a rubric to assess this artifact.',
-    coverage: 'No coverage mapped yet. Add at least one milestone mapping.'
+    coverage: 'No coverage mapped yet. Add at least one milestone mapping.',
+    alignment: 'No standards accepted yet. Run an alignment pass and accept the links that fit.'
   },
 
   // Feasibility
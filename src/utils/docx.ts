@@ -0,0 +1,167 @@
+/**
+ * Minimal WordprocessingML (.docx) writer
+ *
+ * Builds an editable Word document from a flat list of blocks:
+ * - heading     Title / Heading 1–3 (navigation pane and TOC friendly)
+ * - paragraph   runs with optional bold/italic
+ * - bullets     real Word bullet list (numbering.xml), not typed glyphs
+ * - table       bordered grid with a repeating, shaded header row
+ * - pageBreak   hard page break (e.g. between student handouts)
+ *
+ * Output is the set of OOXML parts; packDocx() zips them with the same
+ * stored-zip writer the Common Cartridge export uses, so no extra dependency.
+ */
+
+import { zipStored } from './zip';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export type DocxRun = string | { text: string; bold?: boolean; italic?: boolean };
+
+export type DocxBlock =
+  | { type: 'heading'; level: 0 | 1 | 2 | 3; text: string } // 0 = document title
+  | { type: 'paragraph'; runs: DocxRun[]; style?: 'Subtitle' | 'Note' }
+  | { type: 'bullets'; items: string[] }
+  | { type: 'table'; header: string[]; rows: string[][]; widths?: number[] } // widths in percent
+  | { type: 'pageBreak' };
+
+export interface DocxMetadata {
+  title: string;
+  subject?: string;
+  creator?: string;
+}
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const BULLET_NUM_ID = 1;
+const TABLE_WIDTH = 5000; // fiftieths of a percent
+
+function escapeXml(value: unknown): string {
+  return String(value ?? '')
+    // Control characters are not allowed in XML 1.0 and make Word refuse the file
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function run(value: DocxRun): string {
+  const { text, bold, italic } = typeof value === 'string' ? { text: value, bold: false, italic: false } : value;
+  const props = `${bold ? '<w:b/>' : ''}${italic ? '<w:i/>' : ''}`;
+  const rPr = props ? `<w:rPr>${props}</w:rPr>` : '';
+  return String(text ?? '')
+    .split('\n')
+    .map((line, index) => `<w:r>${rPr}${index ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`)
+    .join('');
+}
+
+function paragraph(runs: DocxRun[], style?: string, extraProps = ''): string {
+  const pPr = style || extraProps ? `<w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ''}${extraProps}</w:pPr>` : '';
+  return `<w:p>${pPr}${runs.map(run).join('')}</w:p>`;
+}
+
+function cell(text: string, width: number, header: boolean): string {
+  const shading = header ? '<w:shd w:val="clear" w:color="auto" w:fill="E7ECF5"/>' : '';
+  return `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="pct"/>${shading}</w:tcPr>${paragraph([{ text, bold: header }], 'TableText')}</w:tc>`;
+}
+
+function table(header: string[], rows: string[][], widths?: number[]): string {
+  const columns = Math.max(header.length, ...rows.map(row => row.length));
+  if (!columns) {return '';}
+  const pct = Array.from({ length: columns }, (_, i) =>
+    Math.round(((widths?.[i] ?? 100 / columns) / 100) * TABLE_WIDTH)
+  );
+  const grid = pct.map(w => `<w:gridCol w:w="${w}"/>`).join('');
+  const row = (cells: string[], isHeader: boolean) =>
+    `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/><w:cantSplit/></w:trPr>' : '<w:trPr><w:cantSplit/></w:trPr>'}${
+      pct.map((w, i) => cell(cells[i] ?? '', w, isHeader)).join('')
+    }</w:tr>`;
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="${TABLE_WIDTH}" w:type="pct"/><w:tblLayout w:type="fixed"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${
+    header.length ? row(header, true) : ''
+  }${rows.map(r => row(r, false)).join('')}</w:tbl>${paragraph([], 'Spacer')}`;
+}
+
+function block(item: DocxBlock): string {
+  switch (item.type) {
+    case 'heading':
+      return paragraph([item.text], item.level === 0 ? 'Title' : `Heading${item.level}`);
+    case 'paragraph':
+      return paragraph(item.runs, item.style);
+    case 'bullets':
+      return item.items
+        .filter(Boolean)
+        .map(text => paragraph([text], 'ListBullet', `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${BULLET_NUM_ID}"/></w:numPr>`))
+        .join('');
+    case 'table':
+      return table(item.header, item.rows, item.widths);
+    case 'pageBreak':
+      return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+    default:
+      return '';
+  }
+}
+
+function documentXml(blocks: DocxBlock[]): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>${blocks.map(block).join('')}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1080" w:right="1080" w:bottom="1080" w:left="1080" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+}
+
+function style(id: string, name: string, pPr: string, rPr: string): string {
+  return `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr>${pPr}</w:pPr><w:rPr>${rPr}</w:rPr></w:style>`;
+}
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>${
+  style('Title', 'Title', '<w:spacing w:after="240"/>', '<w:b/><w:color w:val="1F3A68"/><w:sz w:val="48"/><w:szCs w:val="48"/>')
+}${
+  style('Subtitle', 'Subtitle', '<w:spacing w:after="240"/>', '<w:i/><w:color w:val="4A5568"/><w:sz w:val="26"/><w:szCs w:val="26"/>')
+}${
+  style('Heading1', 'heading 1', '<w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/>', '<w:b/><w:color w:val="1F3A68"/><w:sz w:val="34"/><w:szCs w:val="34"/>')
+}${
+  style('Heading2', 'heading 2', '<w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/>', '<w:b/><w:color w:val="2B4C7E"/><w:sz w:val="28"/><w:szCs w:val="28"/>')
+}${
+  style('Heading3', 'heading 3', '<w:keepNext/><w:spacing w:before="200" w:after="60"/><w:outlineLvl w:val="2"/>', '<w:b/><w:color w:val="2B4C7E"/><w:sz w:val="24"/><w:szCs w:val="24"/>')
+}${
+  style('ListBullet', 'List Bullet', '<w:spacing w:after="60"/><w:ind w:left="360" w:hanging="360"/>', '')
+}${
+  style('Note', 'Note', '<w:pBdr><w:left w:val="single" w:sz="12" w:space="8" w:color="D69E2E"/></w:pBdr><w:ind w:left="240"/>', '<w:i/><w:color w:val="5A4A1A"/>')
+}${
+  style('TableText', 'Table Text', '<w:spacing w:before="40" w:after="40" w:line="240" w:lineRule="auto"/>', '<w:sz w:val="20"/><w:szCs w:val="20"/>')
+}${
+  style('Spacer', 'Spacer', '<w:spacing w:after="0"/>', '<w:sz w:val="12"/><w:szCs w:val="12"/>')
+}<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="A0AEC0"/><w:left w:val="single" w:sz="4" w:space="0" w:color="A0AEC0"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="A0AEC0"/><w:right w:val="single" w:sz="4" w:space="0" w:color="A0AEC0"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="A0AEC0"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="A0AEC0"/></w:tblBorders><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style></w:styles>`;
+
+const NUMBERING_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="${W_NS}"><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="360" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum><w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num></w:numbering>`;
+
+/**
+ * Build the OOXML parts for a document (no zipping, so it can be inspected in tests).
+ */
+export function buildDocx(blocks: DocxBlock[], metadata: DocxMetadata): Record<string, string> {
+  return {
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${REL_NS}"><Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`,
+    'docProps/core.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>${escapeXml(metadata.title)}</dc:title>${
+      metadata.subject ? `<dc:subject>${escapeXml(metadata.subject)}</dc:subject>` : ''
+    }<dc:creator>${escapeXml(metadata.creator || 'ALF Coach')}</dc:creator></cp:coreProperties>`,
+    'word/_rels/document.xml.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${REL_NS}"><Relationship Id="rId1" Type="${REL_TYPE}/styles" Target="styles.xml"/><Relationship Id="rId2" Type="${REL_TYPE}/numbering" Target="numbering.xml"/></Relationships>`,
+    'word/document.xml': documentXml(blocks),
+    'word/styles.xml': STYLES_XML,
+    'word/numbering.xml': NUMBERING_XML
+  };
+}
+
+/**
+ * Zip the parts into .docx bytes.
+ */
+export function packDocx(blocks: DocxBlock[], metadata: DocxMetadata): Uint8Array {
+  return zipStored(buildDocx(blocks, metadata));
+}
@@ -19,6 +19,7 @@ interface FeatureFlags {
   glossary: boolean; // Show glossary tooltips
   showBottomContinue: boolean; // Subtle bottom continue button
   refactoredChatUI: boolean; // Use extracted InputArea/SuggestionPanel/MessagesList
+  localAIProvider: boolean; // Serve AI from local fixtures instead of Gemini (offline dev/demos/tests)
 }
 
 class FeatureFlagManager {
@@ -44,7 +45,8 @@ class FeatureFlagManager {
       firstRunTour: this.getFlag('firstRunTour', true),
       glossary: this.getFlag('glossary', true),
       showBottomContinue: this.getFlag('showBottomContinue', false),
-      refactoredChatUI: this.getFlag('refactoredChatUI', true)
+      refactoredChatUI: this.getFlag('refactoredChatUI', true),
+      localAIProvider: this.getFlag('localAIProvider', false)
     };
     
     logger.log('Feature flags initialized:', this.flags);
@@ -187,7 +189,10 @@ class FeatureFlagManager {
       inlineRecapMinMessages: this.getNumberFlag('inlineRecapMinMessages', 2),
       processRibbon: this.getFlag('processRibbon', true),
       firstRunTour: this.getFlag('firstRunTour', true),
-      glossary: this.getFlag('glossary', true)
+      glossary: this.getFlag('glossary', true),
+      showBottomContinue: this.getFlag('showBottomContinue', false),
+      refactoredChatUI: this.getFlag('refactoredChatUI', true),
+      localAIProvider: this.getFlag('localAIProvider', false)
     };
   }
 
@@ -0,0 +1,29 @@
+/**
+ * Stored-data migration for the Pre-K and post-secondary/CTE grade bands
+ *
+ * Showcases generated before those bands existed were filed as ES (Pre-K,
+ * college and adult ed) or HS ("Higher Ed"). UnifiedStorageManager runs this
+ * on every load; it is idempotent, so projects are fixed as they are opened
+ * and rewritten on their next save.
+ */
+
+import { resolveGradeBand } from '../ai/gradeBandRules';
+import type { GradeBand } from '../types/showcaseV2';
+
+interface StoredProject {
+  wizardData?: { gradeLevel?: string };
+  // Older saves only hold ES, MS or HS; already-migrated ones may hold any band
+  showcase?: { hero?: { gradeBand?: GradeBand } };
+}
+
+/**
+ * Re-derive the showcase band from the wizard grade level when it names
+ * Pre-K or post-secondary; anything else is returned unchanged.
+ */
+export function migrateShowcaseGradeBand<T extends StoredProject>(data: T): T {
+  const hero = data.showcase?.hero;
+  const band = resolveGradeBand(data.wizardData?.gradeLevel);
+  const gradeBand: GradeBand | null = band === 'Pre-K' ? 'PK' : band === 'Post-Secondary' ? 'PS' : null;
+  if (!hero || !gradeBand || hero.gradeBand === gradeBand) {return data;}
+  return { ...data, showcase: { ...data.showcase, hero: { ...hero, gradeBand } } } as T;
+}
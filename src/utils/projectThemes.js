@@ -1,6 +1,8 @@
 // Project theme system - sophisticated, muted colors and icons aligned to subjects
 // Inspired by macOS design language and educational contexts
 
+import { resolveGradeBand } from '../ai/gradeBandRules';
+
 export const subjectThemes = {
   // STEM subjects - cool, analytical tones
   'Mathematics': {
@@ -137,6 +139,14 @@ export const subjectThemes = {
 
 // Grade band colors - subtle, age-appropriate
 export const gradeBandThemes = {
+  'Pre-K': {
+    color: '#8B8A6A',  // Soft olive
+    badge: 'PK',
+  },
+  'PK': {
+    color: '#8B8A6A',
+    badge: 'PK',
+  },
   'Elementary': {
     color: '#7B8B9A',  // Soft blue-gray
     badge: 'ES',
@@ -169,6 +179,14 @@ export const gradeBandThemes = {
     color: '#6A7A8A',  // Soft slate
     badge: 'HE',
   },
+  'Post-Secondary': {
+    color: '#6A7A8A',
+    badge: 'PS',
+  },
+  'PS': {
+    color: '#6A7A8A',
+    badge: 'PS',
+  },
 };
 
 /**
@@ -211,6 +229,9 @@ export function getGradeBandTheme(gradeBand) {
   }
 
   // Try to extract from longer strings like "High School (9-12)"
+  const band = resolveGradeBand(gradeBand);
+  if (band === 'Pre-K') {return gradeBandThemes['PK'];}
+  if (band === 'Post-Secondary') {return gradeBandThemes['PS'];}
   if (gradeBand.toLowerCase().includes('high')) {return gradeBandThemes['HS'];}
   if (gradeBand.toLowerCase().includes('middle')) {return gradeBandThemes['MS'];}
   if (gradeBand.toLowerCase().includes('elementary')) {return gradeBandThemes['ES'];}
@@ -1,6 +1,60 @@
-// Rate limiter utility for preventing action flooding
+// Rate limiter utility for preventing action flooding.
+// Also mirrors the AI proxy's server-side quotas: a 429 blocks the action until
+// Retry-After passes, and X-Quota-* headers feed the remaining budget shown in AIStatus.
+
+export interface ServerQuota {
+  tokensLimit: number;
+  tokensRemaining: number;
+  requestsRemaining?: number;
+  resetAt: number; // epoch ms
+}
+
+export interface QuotaSnapshot {
+  quota: ServerQuota | null;
+  blockedUntil: number | null; // epoch ms, when a 429 is still in effect
+  reason?: string;             // server code, e.g. DAILY_QUOTA_EXCEEDED
+}
+
+interface HeaderSource {
+  get(name: string): string | null | undefined;
+}
+
+/**
+ * Retry-After as milliseconds (delta-seconds or HTTP date); null when absent or unparseable.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) {return null;}
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {return Math.max(0, seconds * 1000);}
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Read the proxy's X-Quota-* headers; null when the response carries none.
+ */
+export function parseQuotaHeaders(headers: HeaderSource | null | undefined): ServerQuota | null {
+  const rawLimit = headers?.get('X-Quota-Tokens-Limit');
+  const rawRemaining = headers?.get('X-Quota-Tokens-Remaining');
+  if (!headers || !rawLimit || !rawRemaining) {return null;}
+  const limit = Number(rawLimit);
+  const remaining = Number(rawRemaining);
+  if (!Number.isFinite(limit) || !Number.isFinite(remaining)) {return null;}
+  const requests = headers.get('X-Quota-Requests-Remaining');
+  const reset = Number(headers.get('X-Quota-Reset'));
+  return {
+    tokensLimit: limit,
+    tokensRemaining: remaining,
+    requestsRemaining: requests ? Number(requests) : undefined,
+    resetAt: Number.isFinite(reset) ? reset * 1000 : 0
+  };
+}
+
 export class RateLimiter {
   private actionTimestamps: Map<string, number[]> = new Map();
+  private blockedUntil: Map<string, { until: number; reason?: string }> = new Map();
+  private quota: ServerQuota | null = null;
+  private listeners: Set<(snapshot: QuotaSnapshot) => void> = new Set();
   private readonly windowMs: number;
   private readonly maxActionsPerWindow: number;
   private readonly minDelayBetweenActions: number;
@@ -24,6 +78,12 @@ export class RateLimiter {
     }
     
     const timestamps = this.actionTimestamps.get(key)!;
+
+    // Honour a server-issued Retry-After before any local accounting
+    const block = this.blockedUntil.get(key);
+    if (block && block.until > now) {
+      return { allowed: false, waitTime: block.until - now };
+    }
     
     // Clean old timestamps
     const cutoff = now - this.windowMs;
@@ -60,11 +120,53 @@ export class RateLimiter {
     return { allowed: true };
   }
 
+  /**
+   * Record a 429 from the server: block the action for retryAfterMs.
+   */
+  recordRetryAfter(actionType: string, retryAfterMs: number, reason?: string): void {
+    this.blockedUntil.set(actionType, { until: Date.now() + Math.max(0, retryAfterMs), reason });
+    this.notify(actionType);
+  }
+
+  /**
+   * Store the latest budget reported by the server (null responses are ignored).
+   */
+  updateQuota(quota: ServerQuota | null, actionType?: string): void {
+    if (!quota) {return;}
+    this.quota = quota;
+    this.notify(actionType);
+  }
+
+  getSnapshot(actionType?: string): QuotaSnapshot {
+    const block = actionType ? this.blockedUntil.get(actionType) : undefined;
+    const active = block && block.until > Date.now() ? block : undefined;
+    return { quota: this.quota, blockedUntil: active?.until ?? null, reason: active?.reason };
+  }
+
+  subscribe(listener: (snapshot: QuotaSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   reset(): void {
     this.actionTimestamps.clear();
+    this.blockedUntil.clear();
+    this.quota = null;
+    this.notify();
+  }
+
+  private notify(actionType?: string): void {
+    const snapshot = this.getSnapshot(actionType);
+    this.listeners.forEach(listener => listener(snapshot));
   }
 }
 
+// Client-side mirror of the Gemini proxy limits (per signed-in user, 30/min by default)
+export const AI_RATE_LIMIT_ACTION = 'ai';
+export const aiRateLimiter = new RateLimiter(60000, 30, 0);
+
 // Debounce utility for text input
 export function createDebouncer<T extends (...args: any[]) => void>(
   func: T,
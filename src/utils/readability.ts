@@ -0,0 +1,47 @@
+/**
+ * Readability estimates for family-facing text
+ *
+ * Flesch–Kincaid grade level with a vowel-group syllable count. It is an
+ * estimate meant for "is this letter too hard?" checks, not a precise
+ * measure, and it only applies to English text.
+ */
+
+import type { ReadingLevel } from '../types/showcaseV2';
+
+/** Highest Flesch–Kincaid grade each reading level should reach. */
+export const READING_LEVEL_TARGETS: Record<ReadingLevel, number> = {
+  easy: 5,
+  standard: 8,
+  detailed: 11
+};
+
+export const READING_LEVEL_LABELS: Record<ReadingLevel, string> = {
+  easy: 'Easy (about grade 4–5)',
+  standard: 'Standard (about grade 6–8)',
+  detailed: 'Detailed (about grade 9–11)'
+};
+
+export function countSyllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!cleaned) {return 0;}
+  if (cleaned.length <= 3) {return 1;}
+  const trimmed = cleaned.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, (trimmed.match(/[aeiouy]{1,2}/g) || []).length);
+}
+
+/**
+ * Flesch–Kincaid grade of a plain-text block. Bullet lines and blank-line
+ * paragraphs count as sentences; form lines (blanks to fill in) are skipped.
+ */
+export function fleschKincaidGrade(text: string): number {
+  const sentences = text
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map(sentence => sentence.replace(/^-\s*/, '').trim())
+    .filter(sentence => sentence && !sentence.includes('___'));
+  const words = sentences.flatMap(sentence => sentence.split(/\s+/).filter(word => /[a-z]/i.test(word)));
+  if (!sentences.length || !words.length) {return 0;}
+
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const grade = 0.39 * (words.length / sentences.length) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.max(0, Math.round(grade * 10) / 10);
+}
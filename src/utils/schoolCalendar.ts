@@ -0,0 +1,417 @@
+/**
+ * School calendar scheduling for ProjectShowcaseV2
+ *
+ * Lays runOfShow weeks onto real dates. Each week card consumes as many
+ * calendar weeks as its label spans ("Weeks 2–3" → 2), starting from the
+ * week that contains the start date. Lessons fall on the chosen weekdays
+ * (default spread for the lessons-per-week count); days off remove lessons
+ * from their week, and a calendar week with no lessons left at all (a
+ * break) is skipped so the project reflows past it.
+ *
+ * Checkpoints land on the last planned lesson day of their week and
+ * assignments are due on the last lesson of the last week that lists them.
+ * When that day is a day off the date moves to the previous lesson and a
+ * warning is raised.
+ *
+ * Dates are ISO calendar dates ("2026-01-05") computed in UTC, so results do
+ * not shift with the viewer's time zone.
+ *
+ * parseIcsDaysOff() reads days off from an .ics feed (single events; RRULEs
+ * are not expanded) and buildCalendarIcs() exports lessons, checkpoints and
+ * due dates as all-day events.
+ */
+
+import type { ProjectShowcaseV2 } from '../types/showcaseV2';
+
+export interface DayOff {
+  start: string;   // YYYY-MM-DD
+  end?: string;    // inclusive; defaults to start
+  label: string;
+  source?: 'manual' | 'ics';
+}
+
+export interface CalendarSettings {
+  startDate: string;
+  lessonsPerWeek: number;
+  lessonDays?: number[]; // 0 = Sunday … 6 = Saturday
+  daysOff: DayOff[];
+}
+
+export interface ScheduledLesson {
+  date: string;
+  number: number; // 1-based within the week card
+}
+
+export interface ScheduledWeek {
+  weekIndex: number;
+  weekLabel: string;
+  focus: string;
+  startDate: string;
+  endDate: string;
+  dateLabel: string;
+  lessons: ScheduledLesson[];
+  plannedLessons: number;
+  checkpointDate?: string;
+  skipped: DayOff[]; // breaks the week had to jump over
+}
+
+export interface ScheduledAssignment {
+  assignmentId: string;
+  title: string;
+  weekIndex: number | null; // null when no week lists the assignment
+  dueDate: string;
+}
+
+export type CalendarWarningKind = 'checkpoint-on-day-off' | 'due-on-day-off' | 'lessons-lost' | 'week-skipped';
+
+export interface CalendarWarning {
+  kind: CalendarWarningKind;
+  date: string;
+  message: string;
+  weekIndex?: number;
+  assignmentId?: string;
+}
+
+export interface ProjectCalendar {
+  weeks: ScheduledWeek[];
+  assignments: ScheduledAssignment[];
+  warnings: CalendarWarning[];
+  startDate: string;
+  endDate: string;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DEFAULT_LESSON_DAYS: Record<number, number[]> = {
+  1: [3],
+  2: [2, 4],
+  3: [1, 3, 5],
+  4: [1, 2, 4, 5],
+  5: [1, 2, 3, 4, 5],
+  6: [1, 2, 3, 4, 5, 6],
+  7: [0, 1, 2, 3, 4, 5, 6]
+};
+
+// Upper bound on calendar weeks scanned, so a calendar that is all days off cannot loop forever
+const MAX_CALENDAR_WEEKS = 104;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// ---------- Date helpers (UTC calendar dates) ----------
+
+export function isIsoDate(value: string): boolean {
+  return ISO_DATE.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+function toTime(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+function fromTime(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  return fromTime(toTime(date) + days * DAY_MS);
+}
+
+function weekday(date: string): number {
+  return new Date(toTime(date)).getUTCDay();
+}
+
+function mondayOf(date: string): string {
+  return addDays(date, -((weekday(date) + 6) % 7));
+}
+
+export function formatShortDate(date: string): string {
+  return new Date(toTime(date)).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+function formatRange(start: string, end: string): string {
+  return start === end ? formatShortDate(start) : `${formatShortDate(start)} – ${formatShortDate(end)}`;
+}
+
+/**
+ * "Week 1" → 1, "Weeks 3–4" → 2
+ */
+export function weekSpan(weekLabel: string): number {
+  const range = weekLabel.match(/(\d+)\s*(?:[–—-]|to)\s*(\d+)/);
+  if (!range) {return 1;}
+  return Math.max(1, Number(range[2]) - Number(range[1]) + 1);
+}
+
+export function defaultLessonDays(lessonsPerWeek: number): number[] {
+  const count = Math.min(7, Math.max(1, Math.round(lessonsPerWeek)));
+  return DEFAULT_LESSON_DAYS[count];
+}
+
+function dayOffOn(date: string, daysOff: DayOff[]): DayOff | undefined {
+  return daysOff.find(day => date >= day.start && date <= (day.end && day.end >= day.start ? day.end : day.start));
+}
+
+// ---------- Scheduling ----------
+
+export function buildProjectCalendar(showcase: ProjectShowcaseV2, settings: CalendarSettings): ProjectCalendar {
+  if (!isIsoDate(settings.startDate)) {
+    throw new Error('Choose a valid start date');
+  }
+  const lessonDays = (settings.lessonDays?.length ? settings.lessonDays : defaultLessonDays(settings.lessonsPerWeek))
+    .slice()
+    // Monday-first so lessons stay in calendar order within a week
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+  const daysOff = settings.daysOff.filter(day => isIsoDate(day.start));
+
+  const weeks: ScheduledWeek[] = [];
+  const warnings: CalendarWarning[] = [];
+  const lastNominalDay = new Map<number, string>();
+  let monday = mondayOf(settings.startDate);
+  let scanned = 0;
+
+  (showcase.runOfShow ?? []).forEach((week, weekIndex) => {
+    const lessons: string[] = [];
+    const missed: string[] = [];
+    const skipped: DayOff[] = [];
+    let planned = 0;
+    let lastNominal: string | undefined;
+    let filled = 0;
+
+    while (filled < weekSpan(week.weekLabel) && scanned < MAX_CALENDAR_WEEKS) {
+      const nominal = lessonDays
+        .map(day => addDays(monday, (day + 6) % 7))
+        .filter(date => date >= settings.startDate);
+      const available = nominal.filter(date => !dayOffOn(date, daysOff));
+      monday = addDays(monday, 7);
+      scanned += 1;
+
+      if (nominal.length === 0) {continue;}
+      if (available.length === 0) {
+        const dayOff = dayOffOn(nominal[0], daysOff);
+        if (dayOff && !skipped.includes(dayOff)) {skipped.push(dayOff);}
+        continue;
+      }
+      planned += nominal.length;
+      lessons.push(...available);
+      missed.push(...nominal.filter(date => !available.includes(date)));
+      lastNominal = nominal[nominal.length - 1];
+      filled += 1;
+    }
+
+    if (!lessons.length || !lastNominal) {return;}
+    lastNominalDay.set(weekIndex, lastNominal);
+
+    skipped.forEach(dayOff => warnings.push({
+      kind: 'week-skipped',
+      date: dayOff.start,
+      weekIndex,
+      message: `${week.weekLabel} moves past ${dayOff.label} (no lessons that week)`
+    }));
+
+    if (missed.length) {
+      const reasons = Array.from(new Set(missed.map(date => dayOffOn(date, daysOff)?.label).filter(Boolean)));
+      warnings.push({
+        kind: 'lessons-lost',
+        date: missed[0],
+        weekIndex,
+        message: `${week.weekLabel} loses ${missed.length} of ${planned} lessons (${reasons.join(', ')})`
+      });
+    }
+
+    let checkpointDate: string | undefined;
+    if (week.checkpoint?.length) {
+      const dayOff = dayOffOn(lastNominal, daysOff);
+      checkpointDate = dayOff ? lessons[lessons.length - 1] : lastNominal;
+      if (dayOff) {
+        warnings.push({
+          kind: 'checkpoint-on-day-off',
+          date: lastNominal,
+          weekIndex,
+          message: `${week.weekLabel} checkpoint falls on ${dayOff.label} (${formatShortDate(lastNominal)}); moved to ${formatShortDate(checkpointDate)}`
+        });
+      }
+    }
+
+    weeks.push({
+      weekIndex,
+      weekLabel: week.weekLabel,
+      focus: week.focus,
+      startDate: lessons[0],
+      endDate: lessons[lessons.length - 1],
+      dateLabel: formatRange(lessons[0], lessons[lessons.length - 1]),
+      lessons: lessons.map((date, index) => ({ date, number: index + 1 })),
+      plannedLessons: planned,
+      checkpointDate,
+      skipped
+    });
+  });
+
+  const startDate = weeks[0]?.startDate ?? settings.startDate;
+  const endDate = weeks[weeks.length - 1]?.endDate ?? settings.startDate;
+
+  const assignments = (showcase.assignments ?? []).map((assignment): ScheduledAssignment => {
+    const listed = weeks.filter(week => showcase.runOfShow[week.weekIndex]?.assignments?.includes(assignment.id));
+    const week = listed[listed.length - 1];
+    if (!week) {
+      return { assignmentId: assignment.id, title: assignment.title, weekIndex: null, dueDate: endDate };
+    }
+    const nominal = lastNominalDay.get(week.weekIndex) ?? week.endDate;
+    const dayOff = dayOffOn(nominal, daysOff);
+    if (dayOff) {
+      warnings.push({
+        kind: 'due-on-day-off',
+        date: nominal,
+        weekIndex: week.weekIndex,
+        assignmentId: assignment.id,
+        message: `${assignment.id} is due on ${dayOff.label} (${formatShortDate(nominal)}); moved to ${formatShortDate(week.endDate)}`
+      });
+    }
+    return { assignmentId: assignment.id, title: assignment.title, weekIndex: week.weekIndex, dueDate: week.endDate };
+  });
+
+  warnings.sort((a, b) => a.date.localeCompare(b.date));
+  return { weeks, assignments, warnings, startDate, endDate };
+}
+
+// ---------- iCalendar (RFC 5545) ----------
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function icsDate(value: string): { date: string; allDay: boolean } | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+  return match ? { date: `${match[1]}-${match[2]}-${match[3]}`, allDay: !match[4] } : null;
+}
+
+/**
+ * Days off from the VEVENTs of an .ics file. All-day DTEND is exclusive.
+ */
+export function parseIcsDaysOff(text: string): DayOff[] {
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const daysOff: DayOff[] = [];
+  let event: Record<string, string> | null = null;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      return;
+    }
+    if (line === 'END:VEVENT') {
+      const current = event;
+      event = null;
+      const start = current?.DTSTART ? icsDate(current.DTSTART) : null;
+      if (!current || !start) {return;}
+      const end = current.DTEND ? icsDate(current.DTEND) : null;
+      let endDate = end ? (end.allDay ? addDays(end.date, -1) : end.date) : start.date;
+      if (endDate < start.date) {endDate = start.date;}
+      daysOff.push({
+        start: start.date,
+        ...(endDate !== start.date ? { end: endDate } : {}),
+        label: unescapeIcsText(current.SUMMARY ?? '').trim() || 'Day off',
+        source: 'ics'
+      });
+      return;
+    }
+    if (!event) {return;}
+    const separator = line.indexOf(':');
+    if (separator < 0) {return;}
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    event[name] = line.slice(separator + 1).trim();
+  });
+
+  return daysOff.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) {return 1;}
+  if (code < 0x800) {return 2;}
+  return code < 0x10000 ? 3 : 4;
+}
+
+// Content lines are folded at 75 octets; continuation lines start with a space
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const compactDate = (date: string) => date.replace(/-/g, '');
+
+export interface CalendarIcsOptions {
+  now?: Date;
+}
+
+/**
+ * All-day events for every lesson, checkpoint and assignment due date
+ */
+export function buildCalendarIcs(
+  showcase: ProjectShowcaseV2,
+  calendar: ProjectCalendar,
+  options: CalendarIcsOptions = {}
+): string {
+  const title = showcase.hero?.title || 'Project';
+  const stamp = (options.now ?? new Date()).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const uid = (key: string) => `${showcase.id || 'project'}-${key}@alfcoach`;
+  const events: string[][] = [];
+
+  const event = (key: string, date: string, summary: string, description?: string) => {
+    events.push([
+      'BEGIN:VEVENT',
+      `UID:${uid(key)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${compactDate(date)}`,
+      `DTEND;VALUE=DATE:${compactDate(addDays(date, 1))}`,
+      `SUMMARY:${escapeIcsText(summary)}`,
+      ...(description ? [`DESCRIPTION:${escapeIcsText(description)}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ]);
+  };
+
+  calendar.weeks.forEach(week => {
+    const source = showcase.runOfShow[week.weekIndex];
+    week.lessons.forEach(lesson => {
+      event(
+        `w${week.weekIndex + 1}-l${lesson.number}`,
+        lesson.date,
+        `${title}: ${week.weekLabel} · Lesson ${lesson.number} of ${week.lessons.length}`,
+        week.focus
+      );
+    });
+    if (week.checkpointDate) {
+      event(`w${week.weekIndex + 1}-checkpoint`, week.checkpointDate, `${title}: ${week.weekLabel} checkpoint`, source?.checkpoint?.join('\n'));
+    }
+  });
+
+  calendar.assignments.forEach(assignment => {
+    event(`due-${assignment.assignmentId}`, assignment.dueDate, `${title}: ${assignment.assignmentId} due · ${assignment.title}`);
+  });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ALF Coach//Project Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(title)}`,
+    ...events.flat(),
+    'END:VCALENDAR'
+  ];
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,349 @@
+/**
+ * Word (.docx) editions of a ProjectShowcaseV2
+ *
+ * - Teacher edition: overview, outcomes, run of show (one table per WeekCard),
+ *   materials, assignments with teacher setup and rubric tables, accepted
+ *   standards and planning notes
+ * - Student handouts: one handout per AssignmentCard in student-facing
+ *   language, separated by page breaks so each prints on its own pages.
+ *   Handouts are printed in the project's student language
+ * - Bilingual handouts: the same content in a two-column table, UI language
+ *   on the left and student language on the right
+ * - Lesson plans: one plan per page with objectives, a timed segment table,
+ *   materials, exit ticket and differentiation notes
+ * - Family letters: the project's family communication kit, one letter per
+ *   page, in the language it was written in
+ *
+ * All are plain DocxBlock lists so the content can be asserted in tests
+ * without unzipping; packDocx() turns them into bytes.
+ */
+
+import type { AnalyticRubric, AssignmentCard, DailyLessonPlan, ProjectShowcaseV2, WeekCard } from '../types/showcaseV2';
+import type { DocxBlock, DocxMetadata } from './docx';
+import { getLocale, localeLabel, translate, type Locale, type MessageKey } from '../i18n';
+import { resolveStudentLanguage, studentText } from '../services/StudentLanguageService';
+import { letterParts } from '../services/FamilyKitService';
+
+export type DocxEdition = 'teacher' | 'handouts' | 'bilingual' | 'lessons' | 'family';
+
+const RUBRIC_LEVELS = ['exemplary', 'proficient', 'developing', 'beginning'] as const;
+const GRADE_BAND_LABELS: Record<string, string> = { PK: 'Pre-K', ES: 'Elementary', MS: 'Middle School', HS: 'High School', PS: 'Post-secondary / CTE' };
+
+function heading(level: 0 | 1 | 2 | 3, text: string): DocxBlock {
+  return { type: 'heading', level, text };
+}
+
+function text(value: string): DocxBlock {
+  return { type: 'paragraph', runs: [value] };
+}
+
+function labelled(label: string, value: string): DocxBlock {
+  return { type: 'paragraph', runs: [{ text: `${label}: `, bold: true }, value] };
+}
+
+/** Heading plus bullets, or nothing when the list is empty. */
+function bulletSection(level: 2 | 3, title: string, items: string[] | undefined): DocxBlock[] {
+  const filtered = (items || []).filter(Boolean);
+  return filtered.length ? [heading(level, title), { type: 'bullets', items: filtered }] : [];
+}
+
+function capitalize(value: string): string {
+  return value ? `${value[0].toUpperCase()}${value.slice(1)}` : value;
+}
+
+export function rubricTableBlock(rubric: AnalyticRubric | undefined, locale?: Locale): DocxBlock[] {
+  if (!rubric?.criteria?.length) {return [];}
+  const header = locale
+    ? [translate(locale, 'handout.criterion'), ...RUBRIC_LEVELS.map(level => translate(locale, `handout.levels.${level}`))]
+    : ['Criterion', ...RUBRIC_LEVELS.map(capitalize)];
+  return [{
+    type: 'table',
+    header,
+    rows: rubric.criteria.map(criterion => [
+      criterion.weight ? `${criterion.name} (${criterion.weight}%)` : criterion.name,
+      ...RUBRIC_LEVELS.map(level => criterion.levels?.[level] || '')
+    ]),
+    widths: [20, 20, 20, 20, 20]
+  }];
+}
+
+function weekTable(week: WeekCard, showcase: ProjectShowcaseV2): DocxBlock {
+  const join = (items: string[] | undefined) => (items || []).filter(Boolean).map(item => `• ${item}`).join('\n');
+  const assignments = (week.assignments || [])
+    .map(id => showcase.assignments.find(a => a.id === id))
+    .filter((a): a is AssignmentCard => Boolean(a))
+    .map(a => `${a.id}: ${a.title}`);
+  const rows: string[][] = [
+    ['Phase', week.repeatable ? `${week.kind} (repeatable)` : week.kind],
+    ['Teacher moves', join(week.teacher)],
+    ['Students', join(week.students)],
+    ['Deliverables', join(week.deliverables)],
+    ['Checkpoint', join(week.checkpoint)],
+    ['Assignments', assignments.join('\n')]
+  ];
+  return { type: 'table', header: [], rows: rows.filter(([, value]) => value), widths: [25, 75] };
+}
+
+function acceptedStandards(showcase: ProjectShowcaseV2): DocxBlock[] {
+  const accepted = (showcase.standardsAlignment || []).filter(link => link.status === 'accepted');
+  if (!accepted.length) {return [];}
+  const byCode = new Map<string, { label: string; targets: string[] }>();
+  accepted.forEach(link => {
+    const entry = byCode.get(link.code) || { label: link.label || '', targets: [] };
+    const target = link.target.kind === 'week'
+      ? showcase.runOfShow[link.target.weekIndex]?.weekLabel || `Week ${link.target.weekIndex + 1}`
+      : link.target.kind === 'assignment'
+        ? link.target.assignmentId
+        : `${link.target.assignmentId} · ${link.target.criterion}`;
+    entry.targets.push(target);
+    byCode.set(link.code, entry);
+  });
+  return [
+    heading(1, 'Standards'),
+    {
+      type: 'table',
+      header: ['Standard', 'Description', 'Where'],
+      rows: [...byCode.entries()].map(([code, { label, targets }]) => [code, label, targets.join(', ')]),
+      widths: [20, 45, 35]
+    }
+  ];
+}
+
+/**
+ * Teacher edition: the full blueprint as an editable document.
+ */
+export function buildTeacherEdition(showcase: ProjectShowcaseV2): DocxBlock[] {
+  const { hero, schedule } = showcase;
+  const blocks: DocxBlock[] = [
+    heading(0, hero.title),
+    { type: 'paragraph', runs: [hero.tagline], style: 'Subtitle' },
+    {
+      type: 'table',
+      header: [],
+      rows: [
+        ['Grade band', GRADE_BAND_LABELS[hero.gradeBand] || hero.gradeBand],
+        ['Timeframe', hero.timeframe],
+        ['Subjects', (hero.subjects || []).join(', ')],
+        ['Schedule', schedule ? `${schedule.totalWeeks} weeks · ${schedule.lessonsPerWeek} lessons/week · ${schedule.lessonLengthMin} min` : '']
+      ].filter(([, value]) => value),
+      widths: [25, 75]
+    },
+    heading(1, 'Overview'),
+    { type: 'bullets', items: showcase.microOverview || [] }
+  ];
+  if (showcase.fullOverview) {
+    blocks.push(text(showcase.fullOverview));
+  }
+
+  blocks.push(
+    heading(1, 'Outcomes'),
+    ...bulletSection(2, 'Core outcomes', showcase.outcomes?.core),
+    ...bulletSection(2, 'Extensions', showcase.outcomes?.extras),
+    ...bulletSection(2, 'Authentic audiences', showcase.outcomes?.audiences)
+  );
+
+  if (showcase.runOfShow?.length) {
+    blocks.push(heading(1, 'Run of Show'));
+    showcase.runOfShow.forEach(week => {
+      blocks.push(heading(2, `${week.weekLabel}: ${week.focus}`), weekTable(week, showcase));
+    });
+  }
+
+  blocks.push(
+    heading(1, 'Materials & Prep'),
+    ...bulletSection(2, 'Core kit', showcase.materialsPrep?.coreKit),
+    ...bulletSection(2, 'No-tech fallback', showcase.materialsPrep?.noTechFallback)
+  );
+
+  if (showcase.assignments?.length) {
+    blocks.push(heading(1, 'Assignments'));
+    showcase.assignments.forEach(assignment => {
+      blocks.push(heading(2, `${assignment.id}: ${assignment.title}`));
+      if (assignment.summary) {blocks.push(text(assignment.summary));}
+      blocks.push(
+        ...bulletSection(3, 'Teacher setup', assignment.teacherSetup),
+        ...bulletSection(3, 'Student directions', assignment.studentDirections),
+        ...bulletSection(3, 'Evidence', assignment.evidence),
+        ...bulletSection(3, 'Success criteria', assignment.successCriteria)
+      );
+      if (assignment.checkpoint) {blocks.push(labelled('Checkpoint', assignment.checkpoint));}
+      if (assignment.aiOptional) {
+        blocks.push(...bulletSection(3, 'AI use (optional)', [
+          `Tool use: ${assignment.aiOptional.toolUse}`,
+          `Critique: ${assignment.aiOptional.critique}`,
+          `No-AI alternative: ${assignment.aiOptional.noAIAlt}`
+        ]));
+      }
+      blocks.push(...bulletSection(3, 'Safety', assignment.safety));
+      const rubric = rubricTableBlock(assignment.rubric);
+      if (rubric.length) {blocks.push(heading(3, 'Rubric'), ...rubric);}
+    });
+  }
+
+  if (showcase.polish?.microRubric?.length || showcase.polish?.checkpoints?.length) {
+    blocks.push(
+      heading(1, 'Quality Checks'),
+      ...bulletSection(2, 'Micro-rubric', showcase.polish?.microRubric),
+      ...bulletSection(2, 'Checkpoints', showcase.polish?.checkpoints)
+    );
+  }
+
+  blocks.push(...acceptedStandards(showcase));
+
+  if (showcase.planningNotes) {
+    blocks.push(heading(1, 'Planning Notes'), { type: 'paragraph', runs: [showcase.planningNotes], style: 'Note' });
+  }
+
+  return blocks;
+}
+
+/**
+ * Student handouts: one per assignment, each starting on a new page, with
+ * headings and student-facing fields in the project's student language.
+ */
+export function buildStudentHandouts(showcase: ProjectShowcaseV2): DocxBlock[] {
+  const locale = resolveStudentLanguage(showcase);
+  const h = (key: MessageKey, params?: Record<string, string>) => translate(locale, key, params);
+  const blocks: DocxBlock[] = [];
+  (showcase.assignments || []).forEach((assignment, index) => {
+    const student = studentText(assignment, locale);
+    if (index > 0) {blocks.push({ type: 'pageBreak' });}
+    blocks.push(
+      heading(1, student.title),
+      { type: 'paragraph', runs: [showcase.hero.title], style: 'Subtitle' },
+      { type: 'paragraph', runs: [{ text: `${h('handout.name')} `, bold: true }, '______________________    ', { text: `${h('handout.date')} `, bold: true }, '____________'] }
+    );
+    if (student.summary) {blocks.push(text(student.summary));}
+    blocks.push(
+      ...bulletSection(2, h('handout.whatToDo'), student.studentDirections),
+      ...bulletSection(2, h('handout.success'), student.successCriteria),
+      ...bulletSection(2, h('handout.turnIn'), student.evidence)
+    );
+    if (assignment.checkpoint) {blocks.push(labelled(h('handout.checkIn'), assignment.checkpoint));}
+    if (assignment.aiOptional) {
+      blocks.push(...bulletSection(2, h('handout.usingAI'), [
+        assignment.aiOptional.toolUse,
+        h('handout.checkIt', { text: assignment.aiOptional.critique }),
+        h('handout.withoutAI', { text: assignment.aiOptional.noAIAlt })
+      ]));
+    }
+    blocks.push(...bulletSection(2, h('handout.staySafe'), assignment.safety));
+    const rubric = rubricTableBlock(assignment.rubric, locale);
+    if (rubric.length) {blocks.push(heading(2, h('handout.scoring')), ...rubric);}
+  });
+  return blocks;
+}
+
+function bilingualCell(locale: Locale, title: MessageKey, items: string[]): string {
+  const lines = items.filter(Boolean).map(item => `• ${item}`);
+  return [translate(locale, title), ...lines].join('\n');
+}
+
+/**
+ * Bilingual handouts: each assignment as a two-column table with the card's
+ * own text (UI language) beside its student-language copy.
+ */
+export function buildBilingualHandouts(showcase: ProjectShowcaseV2, uiLocale: Locale = getLocale()): DocxBlock[] {
+  const studentLocale = resolveStudentLanguage(showcase, uiLocale);
+  const blocks: DocxBlock[] = [];
+  (showcase.assignments || []).forEach((assignment, index) => {
+    const left = studentText(assignment, uiLocale);
+    const right = studentText(assignment, studentLocale);
+    if (index > 0) {blocks.push({ type: 'pageBreak' });}
+    blocks.push(
+      heading(1, right.title === left.title ? left.title : `${left.title} / ${right.title}`),
+      { type: 'paragraph', runs: [showcase.hero.title], style: 'Subtitle' },
+      {
+        type: 'table',
+        header: [localeLabel(uiLocale), localeLabel(studentLocale)],
+        rows: [
+          [left.summary, right.summary],
+          [bilingualCell(uiLocale, 'handout.whatToDo', left.studentDirections), bilingualCell(studentLocale, 'handout.whatToDo', right.studentDirections)],
+          [bilingualCell(uiLocale, 'handout.success', left.successCriteria), bilingualCell(studentLocale, 'handout.success', right.successCriteria)],
+          [bilingualCell(uiLocale, 'handout.turnIn', left.evidence), bilingualCell(studentLocale, 'handout.turnIn', right.evidence)]
+        ].filter(([a, b]) => a || b),
+        widths: [50, 50]
+      }
+    );
+  });
+  return blocks;
+}
+
+function lessonPlanBlocks(plan: DailyLessonPlan, showcase: ProjectShowcaseV2): DocxBlock[] {
+  const week = showcase.runOfShow?.[plan.weekIndex];
+  const minutes = plan.segments.reduce((sum, segment) => sum + segment.minutes, 0);
+  return [
+    heading(1, `${week?.weekLabel || `Week ${plan.weekIndex + 1}`} · Lesson ${plan.lesson}: ${plan.title}`),
+    { type: 'paragraph', runs: [`${minutes} minutes${week ? ` · ${week.focus}` : ''}`], style: 'Subtitle' },
+    ...bulletSection(2, 'Objectives', plan.objectives),
+    heading(2, 'Procedure'),
+    {
+      type: 'table',
+      header: ['Time', 'Segment', 'Teacher', 'Students'],
+      rows: plan.segments.map(segment => [
+        `${segment.minutes} min`,
+        `${segment.title} (${segment.grouping})`,
+        segment.teacher,
+        segment.students
+      ]),
+      widths: [10, 24, 33, 33]
+    },
+    ...bulletSection(2, 'Materials', plan.materials),
+    ...bulletSection(2, 'Exit ticket', plan.exitTicket),
+    ...bulletSection(3, 'Support', plan.differentiation.support),
+    ...bulletSection(3, 'Extension', plan.differentiation.extension),
+    ...bulletSection(3, 'Multilingual learners', plan.differentiation.multilingual)
+  ];
+}
+
+/**
+ * Lesson plans: every generated daily plan, each starting on a new page.
+ */
+export function buildLessonPlans(showcase: ProjectShowcaseV2): DocxBlock[] {
+  const blocks: DocxBlock[] = [];
+  (showcase.lessonPlans || []).forEach((plan, index) => {
+    if (index > 0) {blocks.push({ type: 'pageBreak' });}
+    blocks.push(...lessonPlanBlocks(plan, showcase));
+  });
+  return blocks;
+}
+
+/**
+ * Family letters: every letter in the kit, each starting on a new page with
+ * its subject as the heading.
+ */
+export function buildFamilyLetters(showcase: ProjectShowcaseV2): DocxBlock[] {
+  const blocks: DocxBlock[] = [];
+  (showcase.familyKit?.letters || []).forEach((letter, index) => {
+    if (index > 0) {blocks.push({ type: 'pageBreak' });}
+    blocks.push(heading(1, letter.subject));
+    letterParts(letter.body).forEach(part => {
+      blocks.push(part.type === 'bullets' ? { type: 'bullets', items: part.items } : text(part.lines.join('\n')));
+    });
+  });
+  return blocks;
+}
+
+const EDITION_TITLES: Record<DocxEdition, string> = {
+  teacher: 'Teacher Edition',
+  handouts: 'Student Handouts',
+  bilingual: 'Bilingual Handouts',
+  lessons: 'Lesson Plans',
+  family: 'Family Letters'
+};
+
+export function buildShowcaseDocument(showcase: ProjectShowcaseV2, edition: DocxEdition): { blocks: DocxBlock[]; metadata: DocxMetadata } {
+  const blocks = edition === 'teacher'
+    ? buildTeacherEdition(showcase)
+    : edition === 'lessons'
+      ? buildLessonPlans(showcase)
+      : edition === 'family'
+        ? buildFamilyLetters(showcase)
+        : edition === 'bilingual'
+          ? buildBilingualHandouts(showcase)
+          : buildStudentHandouts(showcase);
+  return {
+    blocks,
+    metadata: { title: `${showcase.hero.title} — ${EDITION_TITLES[edition]}`, subject: (showcase.hero.subjects || []).join(', ') }
+  };
+}
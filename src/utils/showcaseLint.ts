@@ -0,0 +1,607 @@
+/**
+ * Project linter for ProjectShowcaseV2
+ *
+ * The size and length limits documented in types/showcaseV2.ts as comments
+ * (3–4 micro-overview sentences of 12–28 words, 3–5 teacher bullets of ≤ 10
+ * words, 3–6 assignments, week cards that only reference real assignments…)
+ * as a rule registry:
+ * - every rule has an id, a default severity and an optional auto-fix
+ * - project rules see the whole showcase; assignment rules see one card and
+ *   also run on the editor's UnifiedProject assignments (same list fields)
+ * - severities can be overridden (or rules turned off) per call
+ *
+ * lintShowcase() reports, fixShowcase() applies fixes rule by rule and
+ * re-lints. Used live by AssignmentEditor and PolishPanel, before every
+ * showcase export, and by scripts/lint-showcase.ts against project JSON.
+ */
+
+import type { AssignmentCard, GradeBand, ProjectShowcaseV2, WeekCard } from '../types/showcaseV2';
+import { weekSpan } from './schoolCalendar';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface LintFinding {
+  path: string; // "runOfShow[2].teacher[1]"; assignment rules report paths inside the card
+  message: string;
+  fixable?: boolean; // defaults to whether the rule has a fix
+}
+
+export interface LintIssue extends LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  fixable: boolean;
+  assignmentId?: string;
+  weekIndex?: number;
+}
+
+/** Fields assignment rules read; shared by showcase cards and editor cards. */
+export type LintableAssignment = Pick<AssignmentCard, 'id' | 'title' | 'studentDirections' | 'teacherSetup' | 'evidence' | 'successCriteria'> & {
+  summary?: string;
+};
+
+interface LintRuleBase {
+  id: string;
+  description: string;
+  severity: LintSeverity;
+}
+
+export interface ProjectLintRule extends LintRuleBase {
+  scope: 'project';
+  check: (showcase: ProjectShowcaseV2) => LintFinding[];
+  fix?: (showcase: ProjectShowcaseV2) => ProjectShowcaseV2;
+}
+
+export interface AssignmentLintRule extends LintRuleBase {
+  scope: 'assignment';
+  check: (assignment: LintableAssignment) => LintFinding[];
+  fix?: <T extends LintableAssignment>(assignment: T) => T;
+}
+
+export type LintRule = ProjectLintRule | AssignmentLintRule;
+
+export interface LintOptions {
+  rules?: Record<string, LintSeverity | 'off'>;
+}
+
+export interface LintReport {
+  issues: LintIssue[];
+  errorCount: number;
+  warningCount: number;
+  infoCount: number;
+  fixableCount: number;
+}
+
+// ---------- Helpers ----------
+
+// Pre-K projects run a few weeks; post-secondary ones can fill a semester
+const SCHEDULE_WEEKS: Record<GradeBand, [number, number]> = {
+  PK: [1, 6],
+  ES: [4, 12],
+  MS: [4, 12],
+  HS: [4, 12],
+  PS: [4, 18]
+};
+
+export function wordCount(value: string): number {
+  return value.trim().split(/\s+/).filter(Boolean).length;
+}
+
+function sentences(value: string): string[] {
+  return (value.match(/[^.!?]+[.!?]+["”’)]*(?=\s|$)|[^.!?]+$/g) || []).map(part => part.trim()).filter(Boolean);
+}
+
+function preview(value: string, max = 40): string {
+  return value.length > max ? `"${value.slice(0, max - 1)}…"` : `"${value}"`;
+}
+
+interface ListLimit {
+  label: string;
+  min?: number;
+  max?: number;
+  maxWords?: number;
+}
+
+/** Bullets over the word cap that hold several clauses ("a; b") can be split. */
+function splitBullet(value: string): string[] {
+  return value.split(/\s*;\s*/).map(part => part.trim()).filter(Boolean);
+}
+
+function checkList(path: string, items: string[] | undefined, limit: ListLimit): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const list = items || [];
+  if (limit.min !== undefined && list.length < limit.min) {
+    findings.push({ path, message: `${limit.label} has ${list.length} item${list.length === 1 ? '' : 's'} (expected at least ${limit.min})`, fixable: false });
+  }
+  if (limit.max !== undefined && list.length > limit.max) {
+    findings.push({ path, message: `${limit.label} has ${list.length} items (expected at most ${limit.max})`, fixable: false });
+  }
+  const { maxWords } = limit;
+  if (maxWords !== undefined) {
+    list.forEach((item, index) => {
+      const words = wordCount(item);
+      if (words > maxWords) {
+        findings.push({
+          path: `${path}[${index}]`,
+          message: `${limit.label} bullet ${preview(item)} has ${words} words (limit ${maxWords})`,
+          fixable: splitBullet(item).length > 1
+        });
+      }
+    });
+  }
+  return findings;
+}
+
+function splitList(items: string[] | undefined, maxWords: number | undefined): string[] | undefined {
+  if (!items || maxWords === undefined) {return items;}
+  return items.flatMap(item => (wordCount(item) > maxWords ? splitBullet(item) : [item]));
+}
+
+function mapStrings<T>(value: T, fn: (text: string) => string): T {
+  if (typeof value === 'string') {return fn(value) as T;}
+  if (Array.isArray(value)) {
+    return value
+      .map(item => mapStrings(item, fn))
+      .filter(item => typeof item !== 'string' || item !== '') as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)])) as T;
+  }
+  return value;
+}
+
+function collectUntrimmed(value: unknown, path: string, findings: LintFinding[]): void {
+  if (typeof value === 'string') {
+    if (value !== value.trim()) {findings.push({ path, message: `Extra whitespace around ${preview(value.trim())}` });}
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      if (item === '' || (typeof item === 'string' && !item.trim())) {
+        findings.push({ path: `${path}[${index}]`, message: 'Empty bullet' });
+      } else {
+        collectUntrimmed(item, `${path}[${index}]`, findings);
+      }
+    });
+    return;
+  }
+  if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => collectUntrimmed(item, path ? `${path}.${key}` : key, findings));
+  }
+}
+
+/** "Week 1", "Weeks 3–4", numbered from 1 and keeping each card's span. */
+export function expectedWeekLabels(weeks: Array<Pick<WeekCard, 'weekLabel'>>): string[] {
+  let cursor = 1;
+  return weeks.map(week => {
+    const span = weekSpan(week.weekLabel);
+    const label = span === 1 ? `Week ${cursor}` : `Weeks ${cursor}–${cursor + span - 1}`;
+    cursor += span;
+    return label;
+  });
+}
+
+function assignmentRefs(showcase: ProjectShowcaseV2): Set<string> {
+  return new Set((showcase.runOfShow || []).flatMap(week => week.assignments || []));
+}
+
+// ---------- Rules ----------
+
+const WEEK_LISTS: Array<[keyof WeekCard, ListLimit]> = [
+  ['teacher', { label: 'Teacher moves', min: 3, max: 5, maxWords: 10 }],
+  ['students', { label: 'Student moves', min: 3, max: 5, maxWords: 10 }],
+  ['deliverables', { label: 'Deliverables', min: 2, max: 3 }],
+  ['checkpoint', { label: 'Checkpoint', max: 2 }]
+];
+
+const ASSIGNMENT_LISTS: Array<['studentDirections' | 'teacherSetup' | 'evidence' | 'successCriteria', ListLimit]> = [
+  ['studentDirections', { label: 'Student directions', min: 5, max: 7, maxWords: 10 }],
+  ['teacherSetup', { label: 'Teacher setup', min: 3, max: 5, maxWords: 10 }],
+  ['evidence', { label: 'Evidence', min: 2, max: 3 }],
+  ['successCriteria', { label: 'Success criteria', min: 3, max: 5, maxWords: 8 }]
+];
+
+const STUDENT_VOICE = /^(i|we|my|our)\b/i;
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'whitespace',
+    scope: 'project',
+    severity: 'info',
+    description: 'Text has no leading/trailing whitespace and lists have no empty bullets',
+    check: showcase => {
+      const findings: LintFinding[] = [];
+      collectUntrimmed(showcase, '', findings);
+      return findings;
+    },
+    fix: showcase => mapStrings(showcase, text => text.trim())
+  },
+  {
+    id: 'micro-overview',
+    scope: 'project',
+    severity: 'warning',
+    description: 'Micro overview is 3–4 sentences of 12–28 words each',
+    check: showcase => {
+      const overview = showcase.microOverview || [];
+      const findings: LintFinding[] = [];
+      const splittable = overview.some(entry => sentences(entry).length > 1);
+      if (overview.length < 3 || overview.length > 4) {
+        findings.push({
+          path: 'microOverview',
+          message: `Micro overview has ${overview.length} sentence${overview.length === 1 ? '' : 's'} (expected 3–4)`,
+          fixable: overview.length < 3 && splittable
+        });
+      }
+      overview.forEach((entry, index) => {
+        if (sentences(entry).length > 1) {
+          findings.push({ path: `microOverview[${index}]`, message: 'Micro overview entry holds more than one sentence' });
+          return;
+        }
+        const words = wordCount(entry);
+        if (words < 12 || words > 28) {
+          findings.push({ path: `microOverview[${index}]`, message: `Micro overview sentence has ${words} words (expected 12–28)`, fixable: false });
+        }
+      });
+      return findings;
+    },
+    fix: showcase => ({ ...showcase, microOverview: (showcase.microOverview || []).flatMap(sentences) })
+  },
+  {
+    id: 'week-count',
+    scope: 'project',
+    severity: 'warning',
+    description: 'Run of show has 4–12 week cards',
+    check: showcase => {
+      const count = (showcase.runOfShow || []).length;
+      return count < 4 || count > 12 ? [{ path: 'runOfShow', message: `Run of show has ${count} week cards (expected 4–12)` }] : [];
+    }
+  },
+  {
+    id: 'week-labels',
+    scope: 'project',
+    severity: 'warning',
+    description: 'Week labels count up from Week 1 without gaps or overlaps',
+    check: showcase => {
+      const weeks = showcase.runOfShow || [];
+      const expected = expectedWeekLabels(weeks);
+      return weeks
+        .map((week, index): LintFinding | null => (
+          week.weekLabel.replace(/\s*[-—]\s*/, '–') === expected[index]
+            ? null
+            : { path: `runOfShow[${index}].weekLabel`, message: `"${week.weekLabel}" should be "${expected[index]}"` }
+        ))
+        .filter((finding): finding is LintFinding => finding !== null);
+    },
+    fix: showcase => {
+      const expected = expectedWeekLabels(showcase.runOfShow || []);
+      return { ...showcase, runOfShow: (showcase.runOfShow || []).map((week, index) => ({ ...week, weekLabel: expected[index] })) };
+    }
+  },
+  {
+    id: 'week-focus',
+    scope: 'project',
+    severity: 'warning',
+    description: 'Week focus is at most 90 characters',
+    check: showcase => (showcase.runOfShow || [])
+      .map((week, index): LintFinding | null => (
+        week.focus.length > 90
+          ? { path: `runOfShow[${index}].focus`, message: `${week.weekLabel} focus is ${week.focus.length} characters (limit 90)` }
+          : null
+      ))
+      .filter((finding): finding is LintFinding => finding !== null)
+  },
+  {
+    id: 'week-lists',
+    scope: 'project',
+    severity: 'warning',
+    description: 'Week cards have 3–5 teacher and student bullets of ≤ 10 words and 2–3 deliverables',
+    check: showcase => (showcase.runOfShow || []).flatMap((week, index) =>
+      WEEK_LISTS
+        .filter(([key]) => key !== 'checkpoint' || week.checkpoint !== undefined)
+        .flatMap(([key, limit]) => checkList(`runOfShow[${index}].${key}`, week[key] as string[] | undefined, { ...limit, label: `${week.weekLabel} ${limit.label.toLowerCase()}` }))
+    ),
+    fix: showcase => ({
+      ...showcase,
+      runOfShow: (showcase.runOfShow || []).map(week => ({
+        ...week,
+        teacher: splitList(week.teacher, 10) || [],
+        students: splitList(week.students, 10) || []
+      }))
+    })
+  },
+  {
+    id: 'assignment-count',
+    scope: 'project',
+    severity: 'warning',
+    description: 'Project has 3–6 assignments',
+    check: showcase => {
+      const count = (showcase.assignments || []).length;
+      return count < 3 || count > 6 ? [{ path: 'assignments', message: `Project has ${count} assignment${count === 1 ? '' : 's'} (expected 3–6)` }] : [];
+    }
+  },
+  {
+    id: 'duplicate-assignment-id',
+    scope: 'project',
+    severity: 'error',
+    description: 'Assignment ids are unique',
+    check: showcase => {
+      const seen = new Set<string>();
+      return (showcase.assignments || []).flatMap((assignment, index) => {
+        if (seen.has(assignment.id)) {
+          return [{ path: `assignments[${index}].id`, message: `Assignment id ${assignment.id} is used more than once` }];
+        }
+        seen.add(assignment.id);
+        return [];
+      });
+    }
+  },
+  {
+    id: 'unknown-assignment-ref',
+    scope: 'project',
+    severity: 'error',
+    description: 'Every WeekCard.assignments id exists',
+    check: showcase => {
+      const ids = new Set((showcase.assignments || []).map(assignment => assignment.id));
+      return (showcase.runOfShow || []).flatMap((week, index) =>
+        (week.assignments || [])
+          .map((id, position) => ({ id, position }))
+          .filter(({ id }) => !ids.has(id))
+          .map(({ id, position }) => ({ path: `runOfShow[${index}].assignments[${position}]`, message: `${week.weekLabel} links to missing assignment ${id}` }))
+      );
+    },
+    fix: showcase => {
+      const ids = new Set((showcase.assignments || []).map(assignment => assignment.id));
+      return {
+        ...showcase,
+        runOfShow: (showcase.runOfShow || []).map(week => (
+          week.assignments ? { ...week, assignments: week.assignments.filter(id => ids.has(id)) } : week
+        ))
+      };
+    }
+  },
+  {
+    id: 'orphan-assignment',
+    scope: 'project',
+    severity: 'warning',
+    description: 'Every assignment is linked from a week card',
+    check: showcase => {
+      if (!(showcase.runOfShow || []).length) {return [];}
+      const refs = assignmentRefs(showcase);
+      return (showcase.assignments || []).flatMap((assignment, index) => (
+        refs.has(assignment.id) ? [] : [{ path: `assignments[${index}]`, message: `Assignment ${assignment.id} is not linked from any week card` }]
+      ));
+    },
+    // Link each orphan to the week after the one holding the previous assignment, or spread evenly
+    fix: showcase => {
+      const weeks = (showcase.runOfShow || []).map(week => ({ ...week, assignments: [...(week.assignments || [])] }));
+      const assignments = showcase.assignments || [];
+      if (!weeks.length) {return showcase;}
+      assignments.forEach((assignment, index) => {
+        if (weeks.some(week => week.assignments.includes(assignment.id))) {return;}
+        const previous = index > 0 ? weeks.findIndex(week => week.assignments.includes(assignments[index - 1].id)) : -1;
+        const target = previous >= 0
+          ? Math.min(previous + 1, weeks.length - 1)
+          : Math.min(weeks.length - 1, Math.floor((index * weeks.length) / Math.max(assignments.length, 1)));
+        weeks[target].assignments.push(assignment.id);
+      });
+      return { ...showcase, runOfShow: weeks };
+    }
+  },
+  {
+    id: 'outcome-lists',
+    scope: 'project',
+    severity: 'warning',
+    description: '1–3 core outcomes, 3–6 extras and 3–6 audiences',
+    check: showcase => [
+      ...checkList('outcomes.core', showcase.outcomes?.core, { label: 'Core outcomes', min: 1, max: 3 }),
+      ...checkList('outcomes.extras', showcase.outcomes?.extras, { label: 'Extra outcomes', min: 3, max: 6 }),
+      ...checkList('outcomes.audiences', showcase.outcomes?.audiences, { label: 'Audiences', min: 3, max: 6 })
+    ]
+  },
+  {
+    id: 'materials-lists',
+    scope: 'project',
+    severity: 'warning',
+    description: 'At most 8 core kit items and 3 no-tech fallbacks',
+    check: showcase => [
+      ...checkList('materialsPrep.coreKit', showcase.materialsPrep?.coreKit, { label: 'Core kit', max: 8 }),
+      ...checkList('materialsPrep.noTechFallback', showcase.materialsPrep?.noTechFallback, { label: 'No-tech fallback', max: 3 })
+    ]
+  },
+  {
+    id: 'schedule',
+    scope: 'project',
+    severity: 'warning',
+    description: '4–12 total weeks (1–6 for Pre-K, 4–18 for post-secondary) and 1–5 lessons per week',
+    check: showcase => {
+      const findings: LintFinding[] = [];
+      const { totalWeeks, lessonsPerWeek } = showcase.schedule || { totalWeeks: 0, lessonsPerWeek: 0 };
+      const [minWeeks, maxWeeks] = SCHEDULE_WEEKS[showcase.hero?.gradeBand] ?? SCHEDULE_WEEKS.MS;
+      if (totalWeeks < minWeeks || totalWeeks > maxWeeks) {
+        findings.push({ path: 'schedule.totalWeeks', message: `Schedule has ${totalWeeks} weeks (expected ${minWeeks}–${maxWeeks})` });
+      }
+      if (lessonsPerWeek < 1 || lessonsPerWeek > 5) {
+        findings.push({ path: 'schedule.lessonsPerWeek', message: `Schedule has ${lessonsPerWeek} lessons per week (expected 1–5)` });
+      }
+      const covered = (showcase.runOfShow || []).reduce((sum, week) => sum + weekSpan(week.weekLabel), 0);
+      if (covered && totalWeeks && covered !== totalWeeks) {
+        findings.push({ path: 'runOfShow', message: `Week cards cover ${covered} weeks but the schedule says ${totalWeeks}` });
+      }
+      return findings;
+    }
+  },
+  {
+    id: 'assignment-title',
+    scope: 'assignment',
+    severity: 'warning',
+    description: 'Assignment title is set and at most 80 characters',
+    check: assignment => {
+      if (!assignment.title.trim()) {return [{ path: 'title', message: 'Assignment has no title' }];}
+      return assignment.title.length > 80 ? [{ path: 'title', message: `Title is ${assignment.title.length} characters (limit 80)` }] : [];
+    }
+  },
+  {
+    id: 'assignment-summary',
+    scope: 'assignment',
+    severity: 'info',
+    description: 'Assignment summary is at most 25 words',
+    check: assignment => {
+      const words = wordCount(assignment.summary || '');
+      return words > 25 ? [{ path: 'summary', message: `Summary has ${words} words (limit 25)` }] : [];
+    }
+  },
+  {
+    id: 'assignment-lists',
+    scope: 'assignment',
+    severity: 'warning',
+    description: '5–7 student directions and 3–5 teacher setup bullets of ≤ 10 words, 2–3 evidence items, 3–5 success criteria of ≤ 8 words',
+    check: assignment => ASSIGNMENT_LISTS.flatMap(([key, limit]) => checkList(key, assignment[key], limit)),
+    fix: assignment => {
+      const fixed = { ...assignment };
+      ASSIGNMENT_LISTS.forEach(([key, limit]) => {
+        fixed[key] = splitList(assignment[key], limit.maxWords) || [];
+      });
+      return fixed;
+    }
+  },
+  {
+    id: 'student-voice',
+    scope: 'assignment',
+    severity: 'info',
+    description: 'Success criteria are first-person "I can" statements',
+    check: assignment => (assignment.successCriteria || []).flatMap((criterion, index) => (
+      STUDENT_VOICE.test(criterion.trim())
+        ? []
+        : [{ path: `successCriteria[${index}]`, message: `Success criterion ${preview(criterion)} is not in student voice ("I can…")` }]
+    ))
+  }
+];
+
+export function registerLintRule(rule: LintRule): void {
+  const existing = LINT_RULES.findIndex(candidate => candidate.id === rule.id);
+  if (existing >= 0) {
+    LINT_RULES[existing] = rule;
+  } else {
+    LINT_RULES.push(rule);
+  }
+}
+
+export function getLintRule(id: string): LintRule | undefined {
+  return LINT_RULES.find(rule => rule.id === id);
+}
+
+// ---------- Engine ----------
+
+function severityOf(rule: LintRule, options: LintOptions): LintSeverity | 'off' {
+  return options.rules?.[rule.id] ?? rule.severity;
+}
+
+function report(issues: LintIssue[]): LintReport {
+  const order: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+  const sorted = [...issues].sort((a, b) => order[a.severity] - order[b.severity]);
+  return {
+    issues: sorted,
+    errorCount: issues.filter(issue => issue.severity === 'error').length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length,
+    infoCount: issues.filter(issue => issue.severity === 'info').length,
+    fixableCount: issues.filter(issue => issue.fixable).length
+  };
+}
+
+function toIssue(rule: LintRule, severity: LintSeverity, finding: LintFinding, extra: Partial<LintIssue> = {}): LintIssue {
+  const weekMatch = finding.path.match(/^runOfShow\[(\d+)\]/);
+  return {
+    ...finding,
+    ruleId: rule.id,
+    severity,
+    fixable: Boolean(rule.fix) && finding.fixable !== false,
+    ...(weekMatch ? { weekIndex: Number(weekMatch[1]) } : {}),
+    ...extra
+  };
+}
+
+/**
+ * Assignment rules only, for editors that hold a single card.
+ */
+export function lintAssignment(assignment: LintableAssignment, options: LintOptions = {}): LintReport {
+  const issues: LintIssue[] = [];
+  LINT_RULES.forEach(rule => {
+    const severity = severityOf(rule, options);
+    if (rule.scope !== 'assignment' || severity === 'off') {return;}
+    rule.check(assignment).forEach(finding => issues.push(toIssue(rule, severity, finding, { assignmentId: assignment.id })));
+  });
+  return report(issues);
+}
+
+export function lintShowcase(showcase: ProjectShowcaseV2, options: LintOptions = {}): LintReport {
+  const issues: LintIssue[] = [];
+  LINT_RULES.forEach(rule => {
+    const severity = severityOf(rule, options);
+    if (severity === 'off') {return;}
+    if (rule.scope === 'project') {
+      rule.check(showcase).forEach(finding => {
+        const assignmentMatch = finding.path.match(/^assignments\[(\d+)\]/);
+        const assignmentId = assignmentMatch ? showcase.assignments?.[Number(assignmentMatch[1])]?.id : undefined;
+        issues.push(toIssue(rule, severity, finding, assignmentId ? { assignmentId } : {}));
+      });
+      return;
+    }
+    (showcase.assignments || []).forEach((assignment, index) => {
+      rule.check(assignment).forEach(finding => issues.push(toIssue(
+        rule,
+        severity,
+        { ...finding, path: `assignments[${index}].${finding.path}` },
+        { assignmentId: assignment.id }
+      )));
+    });
+  });
+  return report(issues);
+}
+
+/**
+ * Apply the fixes of one assignment's fixable issues (all rules, or only `ruleIds`).
+ */
+export function fixAssignment<T extends LintableAssignment>(assignment: T, ruleIds?: string[], options: LintOptions = {}): T {
+  const fixable = new Set(lintAssignment(assignment, options).issues.filter(issue => issue.fixable).map(issue => issue.ruleId));
+  return LINT_RULES.reduce<T>((current, rule) => {
+    if (rule.scope !== 'assignment' || !rule.fix || !fixable.has(rule.id)) {return current;}
+    if (ruleIds && !ruleIds.includes(rule.id)) {return current;}
+    return rule.fix(current);
+  }, assignment);
+}
+
+/**
+ * Apply fixes for every rule with a fixable issue (or only `ruleIds`), in
+ * registry order, and re-lint the result.
+ */
+export function fixShowcase(
+  showcase: ProjectShowcaseV2,
+  ruleIds?: string[],
+  options: LintOptions = {}
+): { showcase: ProjectShowcaseV2; applied: string[]; report: LintReport } {
+  const fixable = new Set(lintShowcase(showcase, options).issues.filter(issue => issue.fixable).map(issue => issue.ruleId));
+  const applied: string[] = [];
+  let current = showcase;
+  LINT_RULES.forEach(rule => {
+    if (!fixable.has(rule.id) || (ruleIds && !ruleIds.includes(rule.id))) {return;}
+    if (rule.scope === 'project' && rule.fix) {
+      current = rule.fix(current);
+    } else if (rule.scope === 'assignment' && rule.fix) {
+      const fix = rule.fix;
+      current = { ...current, assignments: (current.assignments || []).map(assignment => fix(assignment)) };
+    } else {
+      return;
+    }
+    applied.push(rule.id);
+  });
+  return { showcase: current, applied, report: lintShowcase(current, options) };
+}
+
+/** Fixes that never change meaning; exports apply them to the copy they write. */
+export const SAFE_FIX_RULES = ['whitespace', 'unknown-assignment-ref'];
+
+export class ShowcaseLintError extends Error {
+  constructor(public readonly report: LintReport) {
+    super(`Fix ${report.errorCount} project error${report.errorCount === 1 ? '' : 's'} before exporting: ${report.issues[0]?.message ?? ''}`);
+    this.name = 'ShowcaseLintError';
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Student-facing project site
+ *
+ * buildStudentSite() reduces a ProjectShowcaseV2 to what students should
+ * see: the driving question, this week's focus and what the class is doing,
+ * and each assignment's directions and "I can" success criteria. Teacher
+ * setup, teacher moves, checkpoints, planning notes, materials and rubrics
+ * never reach the model, so no view built on it can leak them.
+ *
+ * Text is in the project's student language. Card text that has no
+ * localized copy is adapted to the grade band's student vocabulary
+ * (gradeBandRules.studentVocabulary).
+ *
+ * renderStudentSiteHtml() turns the same model into one self-contained HTML
+ * file (inline styles, no external requests) that works offline on a
+ * classroom Chromebook. When the project is scheduled, a small inline script
+ * re-picks "this week" from the dates each time the file is opened.
+ */
+
+import type { ProjectShowcaseV2 } from '../types/showcaseV2';
+import { adaptStudentVocabulary, resolveGradeBand, type GradeBandKey } from '../ai/gradeBandRules';
+import { translate, type Locale, type MessageKey, type MessageParams } from '../i18n';
+import { resolveStudentLanguage, studentText } from '../services/StudentLanguageService';
+import type { ProjectCalendar } from './schoolCalendar';
+
+export interface StudentSiteWeek {
+  index: number;
+  label: string;
+  focus: string;
+  doing: string[];
+  assignmentIds: string[];
+  startDate?: string; // YYYY-MM-DD, when the project is scheduled
+  endDate?: string;
+  dateLabel?: string;
+}
+
+export interface StudentSiteAssignment {
+  id: string;
+  title: string;
+  summary: string;
+  directions: string[];
+  successCriteria: string[];
+}
+
+export interface StudentSite {
+  projectId: string;
+  locale: Locale;
+  gradeBand: GradeBandKey;
+  title: string;
+  tagline: string;
+  drivingQuestion: string;
+  totalWeeks: number;
+  currentWeekIndex: number;
+  weeks: StudentSiteWeek[];
+  assignments: StudentSiteAssignment[];
+}
+
+export interface StudentSiteOptions {
+  calendar?: ProjectCalendar | null;
+  today?: string; // YYYY-MM-DD; defaults to the local date
+  weekIndex?: number; // pins "this week" instead of reading it from the calendar
+}
+
+const SHOWCASE_BANDS: Record<ProjectShowcaseV2['hero']['gradeBand'], GradeBandKey> = {
+  PK: 'Pre-K',
+  ES: '3-5',
+  MS: '6-8',
+  HS: '9-12',
+  PS: 'Post-Secondary'
+};
+
+const QUESTION_PATTERN = /(?:^|[.!?]\s+|["“])([A-Z¿][^.!?"“”]*\?)/;
+
+export function studentGradeBand(showcase: ProjectShowcaseV2): GradeBandKey {
+  return resolveGradeBand(showcase.hero?.specLine) ?? SHOWCASE_BANDS[showcase.hero?.gradeBand] ?? '6-8';
+}
+
+/**
+ * The project's driving question, or the first question in its overview or
+ * week focuses, or the tagline when the project never asks one.
+ */
+export function drivingQuestion(showcase: ProjectShowcaseV2): string {
+  if (showcase.drivingQuestion?.trim()) {return showcase.drivingQuestion.trim();}
+  const sources = [
+    ...(showcase.microOverview || []),
+    showcase.fullOverview || '',
+    ...(showcase.runOfShow || []).map(week => week.focus)
+  ];
+  for (const source of sources) {
+    const match = source.match(QUESTION_PATTERN);
+    if (match) {return match[1].trim();}
+  }
+  return showcase.hero?.tagline || '';
+}
+
+function localDate(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * Index of the week on `today`: the week that contains it, the next week
+ * during a break, the first week before the project and the last after it.
+ */
+export function currentWeekIndex(weeks: Array<Pick<StudentSiteWeek, 'startDate' | 'endDate'>>, today: string): number {
+  if (!weeks.length || !weeks[0].startDate) {return 0;}
+  const index = weeks.findIndex(week => Boolean(week.endDate) && today <= (week.endDate as string));
+  return index === -1 ? weeks.length - 1 : index;
+}
+
+export function buildStudentSite(showcase: ProjectShowcaseV2, options: StudentSiteOptions = {}): StudentSite {
+  const locale = resolveStudentLanguage(showcase);
+  const gradeBand = studentGradeBand(showcase);
+  const adapt = (text: string) => adaptStudentVocabulary(text, gradeBand);
+
+  const scheduled = new Map((options.calendar?.weeks || []).map(week => [week.weekIndex, week]));
+  const weeks: StudentSiteWeek[] = (showcase.runOfShow || []).map((week, index) => {
+    const dates = scheduled.get(index);
+    return {
+      index,
+      label: week.weekLabel,
+      focus: adapt(week.focus),
+      doing: (week.students || []).filter(Boolean).map(adapt),
+      assignmentIds: week.assignments || [],
+      ...(dates ? { startDate: dates.startDate, endDate: dates.endDate, dateLabel: dates.dateLabel } : {})
+    };
+  });
+
+  const assignments = (showcase.assignments || []).map((assignment): StudentSiteAssignment => {
+    const text = studentText(assignment, locale);
+    // A localized copy is already written for the band; only adapt the card's own text
+    const fit = assignment.localized?.locale === locale ? (value: string) => value : adapt;
+    return {
+      id: assignment.id,
+      title: text.title,
+      summary: fit(text.summary || ''),
+      directions: text.studentDirections.filter(Boolean).map(fit),
+      successCriteria: text.successCriteria.filter(Boolean).map(fit)
+    };
+  });
+
+  const pinned = options.weekIndex;
+  return {
+    projectId: showcase.id,
+    locale,
+    gradeBand,
+    title: showcase.hero?.title || '',
+    tagline: showcase.hero?.tagline || '',
+    drivingQuestion: adapt(drivingQuestion(showcase)),
+    totalWeeks: showcase.schedule?.totalWeeks || weeks.length,
+    currentWeekIndex: pinned !== undefined && pinned >= 0 && pinned < weeks.length
+      ? pinned
+      : currentWeekIndex(weeks, options.today ?? localDate()),
+    weeks,
+    assignments
+  };
+}
+
+// ---------- Static HTML ----------
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function list(tag: 'ol' | 'ul', items: string[]): string {
+  return items.length ? `<${tag}>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</${tag}>` : '';
+}
+
+const STYLES = `
+*{box-sizing:border-box}
+body{margin:0;font-family:system-ui,-apple-system,"Segoe UI",Roboto,sans-serif;font-size:18px;line-height:1.5;color:#1f2937;background:#f8fafc}
+main{max-width:760px;margin:0 auto;padding:24px 16px 48px}
+h1{font-size:1.8em;margin:0 0 4px;color:#1e1b4b}
+h2{font-size:1.25em;margin:32px 0 12px;color:#1e1b4b}
+h3{font-size:1.1em;margin:0 0 8px}
+h4{font-size:1em;margin:16px 0 4px}
+a{color:#4338ca}
+.tagline{margin:0;color:#475569}
+.question{margin-top:24px;padding:20px;border-radius:16px;background:#eef2ff;border:2px solid #c7d2fe}
+.question p{margin:0;font-size:1.3em;font-weight:600}
+.card{padding:16px 20px;margin-bottom:12px;border-radius:12px;background:#fff;border:1px solid #e2e8f0}
+.week.current{border:2px solid #6366f1}
+.meta{font-size:.85em;color:#64748b}
+.links{margin:8px 0 0;padding:0;list-style:none}
+.links li{display:inline;margin-right:12px}
+footer{margin-top:40px;font-size:.8em;color:#94a3b8}
+@media print{body{background:#fff}.card{break-inside:avoid}}
+`;
+
+// Re-picks "this week" from today's date when the file is opened later
+const CURRENT_WEEK_SCRIPT = `(function(){
+var d=new Date(),p=function(n){return(n<10?'0':'')+n},t=d.getFullYear()+'-'+p(d.getMonth()+1)+'-'+p(d.getDate());
+var w=document.querySelectorAll('.week[data-end]');if(!w.length)return;
+var c=w[w.length-1];for(var i=0;i<w.length;i++){if(t<=w[i].getAttribute('data-end')){c=w[i];break;}}
+for(var j=0;j<w.length;j++)w[j].classList.remove('current');c.classList.add('current');
+var s=document.getElementById('this-week-card');if(s)s.innerHTML=c.innerHTML;
+})();`;
+
+function weekCard(site: StudentSite, week: StudentSiteWeek, m: (key: MessageKey, params?: MessageParams) => string): string {
+  const titles = new Map(site.assignments.map(assignment => [assignment.id, assignment.title]));
+  const links = week.assignmentIds
+    .filter(id => titles.has(id))
+    .map(id => `<li><a href="#assignment-${escapeHtml(id)}">${escapeHtml(titles.get(id) as string)}</a></li>`)
+    .join('');
+  return [
+    `<div class="meta">${escapeHtml(m('studentSite.weekOf', { week: week.label, total: site.totalWeeks }))}${week.dateLabel ? ` · ${escapeHtml(week.dateLabel)}` : ''}</div>`,
+    `<h3>${escapeHtml(week.focus)}</h3>`,
+    week.doing.length ? `<h4>${escapeHtml(m('studentSite.doing'))}</h4>${list('ul', week.doing)}` : '',
+    links ? `<ul class="links">${links}</ul>` : ''
+  ].join('');
+}
+
+/**
+ * One self-contained HTML page for the student site.
+ */
+export function renderStudentSiteHtml(site: StudentSite, savedOn: Date = new Date()): string {
+  const m = (key: MessageKey, params?: MessageParams) => translate(site.locale, key, params);
+  const current = site.weeks[site.currentWeekIndex];
+
+  const weeks = site.weeks.map(week => {
+    const dates = week.startDate && week.endDate ? ` data-start="${week.startDate}" data-end="${week.endDate}"` : '';
+    const className = week.index === site.currentWeekIndex ? 'card week current' : 'card week';
+    return `<li class="${className}" id="week-${week.index + 1}"${dates}>${weekCard(site, week, m)}</li>`;
+  }).join('');
+
+  const assignments = site.assignments.map(assignment => [
+    `<article class="card" id="assignment-${escapeHtml(assignment.id)}">`,
+    `<h3>${escapeHtml(assignment.title)}</h3>`,
+    assignment.summary ? `<p>${escapeHtml(assignment.summary)}</p>` : '',
+    assignment.directions.length ? `<h4>${escapeHtml(m('handout.whatToDo'))}</h4>${list('ol', assignment.directions)}` : '',
+    assignment.successCriteria.length ? `<h4>${escapeHtml(m('handout.success'))}</h4>${list('ul', assignment.successCriteria)}` : '',
+    '</article>'
+  ].join('')).join('');
+
+  const hasDates = site.weeks.some(week => week.endDate);
+  return `<!DOCTYPE html>
+<html lang="${site.locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(site.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+<h1>${escapeHtml(site.title)}</h1>
+${site.tagline ? `<p class="tagline">${escapeHtml(site.tagline)}</p>` : ''}
+</header>
+${site.drivingQuestion ? `<section class="question"><h2>${escapeHtml(m('studentSite.drivingQuestion'))}</h2><p>${escapeHtml(site.drivingQuestion)}</p></section>` : ''}
+${current ? `<section><h2>${escapeHtml(m('studentSite.thisWeek'))}</h2><div class="card week current" id="this-week-card">${weekCard(site, current, m)}</div></section>` : ''}
+${assignments ? `<section><h2>${escapeHtml(m('studentSite.assignments'))}</h2>${assignments}</section>` : ''}
+${weeks ? `<section><h2>${escapeHtml(m('studentSite.plan'))}</h2><ol style="list-style:none;padding:0">${weeks}</ol></section>` : ''}
+<footer>${escapeHtml(m('studentSite.offline', { date: savedOn.toLocaleDateString(site.locale) }))}</footer>
+</main>
+${hasDates ? `<script>${CURRENT_WEEK_SCRIPT}</script>` : ''}
+</body>
+</html>
+`;
+}
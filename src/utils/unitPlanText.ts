@@ -0,0 +1,323 @@
+/**
+ * Plain text from an uploaded unit plan
+ *
+ * - .docx  word/document.xml via the zip reader; headings become "#" lines,
+ *          list paragraphs "- " bullets, table rows "cell | cell"
+ * - .pdf   text-based PDFs only: content streams are inflated and the text
+ *          operators (Tj, TJ, ', ") read in order. Scanned PDFs have no text
+ *          layer and are rejected with a clear message.
+ * - .md / .txt  as written
+ *
+ * The result keeps line structure (headings, bullets) because the importer's
+ * heuristic parser and the model both lean on it.
+ */
+
+import { MAX_UNZIPPED_BYTES, decompress as platformDecompress, unzip, type Decompress } from './zip';
+
+export type UnitPlanFormat = 'docx' | 'pdf' | 'markdown';
+
+export interface UnitPlanText {
+  format: UnitPlanFormat;
+  text: string;
+}
+
+export interface ExtractOptions {
+  decompress?: Decompress;
+}
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const MIN_LETTERS = 40;
+
+export function unitPlanFormat(fileName: string): UnitPlanFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  if (extension === 'docx') {return 'docx';}
+  if (extension === 'pdf') {return 'pdf';}
+  if (['md', 'markdown', 'txt'].includes(extension)) {return 'markdown';}
+  return null;
+}
+
+// ---------- DOCX ----------
+
+function wordAttr(element: Element | undefined, name: string): string | null {
+  return element?.getAttributeNS(W_NS, name) ?? element?.getAttribute(`w:${name}`) ?? null;
+}
+
+function children(element: Element, localName: string): Element[] {
+  return Array.from(element.childNodes).filter((node): node is Element => (node as Element).localName === localName);
+}
+
+function runText(paragraph: Element): string {
+  let text = '';
+  const walk = (node: Element) => {
+    Array.from(node.childNodes).forEach(child => {
+      const element = child as Element;
+      if (element.localName === 't') {text += element.textContent || '';}
+      else if (element.localName === 'tab') {text += '\t';}
+      else if (element.localName === 'br' || element.localName === 'cr') {text += '\n';}
+      else if (element.childNodes?.length) {walk(element);}
+    });
+  };
+  walk(paragraph);
+  return text.trim();
+}
+
+function paragraphLine(paragraph: Element): string {
+  const text = runText(paragraph);
+  if (!text) {return '';}
+  const properties = children(paragraph, 'pPr')[0];
+  const style = wordAttr(properties ? children(properties, 'pStyle')[0] : undefined, 'val') || '';
+  const heading = style.match(/^(?:Heading|berschrift|Titre)(\d)$/i);
+  if (/^Title$/i.test(style) || heading?.[1] === '1') {return `# ${text}`;}
+  if (heading) {return `${'#'.repeat(Math.min(Number(heading[1]), 4))} ${text}`;}
+  if (properties && (children(properties, 'numPr').length || /List/i.test(style))) {return `- ${text}`;}
+  return text;
+}
+
+export function docxXmlToText(documentXml: string): string {
+  const doc = new DOMParser().parseFromString(documentXml, 'application/xml');
+  const body = doc.getElementsByTagNameNS(W_NS, 'body')[0];
+  if (!body) {throw new Error('The Word file has no document body');}
+  const lines: string[] = [];
+  Array.from(body.childNodes).forEach(node => {
+    const element = node as Element;
+    if (element.localName === 'p') {
+      lines.push(paragraphLine(element));
+    } else if (element.localName === 'tbl') {
+      children(element, 'tr').forEach(row => {
+        const cells = children(row, 'tc').map(cell => children(cell, 'p').map(runText).filter(Boolean).join(' '));
+        if (cells.some(Boolean)) {lines.push(cells.join(' | '));}
+      });
+      lines.push('');
+    }
+  });
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+export async function docxToText(bytes: Uint8Array, options: ExtractOptions = {}): Promise<string> {
+  const files = await unzip(bytes, {
+    filter: name => name === 'word/document.xml',
+    inflate: options.decompress ?? platformDecompress
+  });
+  const documentXml = files['word/document.xml'];
+  if (!documentXml) {throw new Error('This file is not a Word document');}
+  return docxXmlToText(new TextDecoder().decode(documentXml));
+}
+
+// ---------- PDF ----------
+
+type PdfToken = { kind: 'string'; value: string } | { kind: 'number'; value: number } | { kind: 'array'; items: PdfToken[] } | { kind: 'other' };
+
+function latin1(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return out;
+}
+
+/** Hex strings of two-byte codes with a zero high byte are UTF-16; others Latin-1. */
+function decodePdfBytes(bytes: number[]): string {
+  if (bytes.length >= 2 && bytes.length % 2 === 0 && (bytes[0] === 0xfe && bytes[1] === 0xff || bytes.filter((_, i) => i % 2 === 0).every(b => b === 0))) {
+    const start = bytes[0] === 0xfe && bytes[1] === 0xff ? 2 : 0;
+    let out = '';
+    for (let i = start; i + 1 < bytes.length; i += 2) {out += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);}
+    return out;
+  }
+  return String.fromCharCode(...bytes);
+}
+
+function readLiteral(source: string, start: number): [string, number] {
+  const bytes: number[] = [];
+  let depth = 1;
+  let i = start + 1;
+  while (i < source.length && depth > 0) {
+    const c = source[i];
+    if (c === '\\') {
+      const next = source[i + 1];
+      const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, '(': 40, ')': 41, '\\': 92 };
+      if (next in escapes) {
+        bytes.push(escapes[next]);
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = source.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)?.[0] ?? '0';
+        bytes.push(parseInt(octal, 8) & 0xff);
+        i += 1 + octal.length;
+      } else if (next === '\r' || next === '\n') {
+        i += next === '\r' && source[i + 2] === '\n' ? 3 : 2; // line continuation
+      } else {
+        i += 1; // unknown escape: the backslash is ignored
+      }
+      continue;
+    }
+    if (c === '(') {depth++;}
+    if (c === ')' && --depth === 0) {break;}
+    bytes.push(c.charCodeAt(0));
+    i++;
+  }
+  return [decodePdfBytes(bytes), i + 1];
+}
+
+function readHex(source: string, start: number): [string, number] {
+  const end = source.indexOf('>', start);
+  const hex = source.slice(start + 1, end).replace(/\s+/g, '');
+  const padded = hex.length % 2 ? `${hex}0` : hex;
+  const bytes: number[] = [];
+  for (let i = 0; i < padded.length; i += 2) {bytes.push(parseInt(padded.slice(i, i + 2), 16));}
+  return [decodePdfBytes(bytes), end + 1];
+}
+
+/**
+ * Text shown by one content stream, one line per text line.
+ */
+export function pdfContentToText(content: string): string {
+  let text = '';
+  let operands: PdfToken[] = [];
+  const arrays: PdfToken[][] = [];
+  const push = (token: PdfToken) => (arrays.length ? arrays[arrays.length - 1].push(token) : operands.push(token));
+  const newline = () => {
+    if (text && !text.endsWith('\n')) {text += '\n';}
+  };
+  const show = (token: PdfToken | undefined) => {
+    if (token?.kind === 'string') {text += token.value;}
+    if (token?.kind === 'array') {
+      token.items.forEach(item => {
+        if (item.kind === 'string') {text += item.value;}
+        else if (item.kind === 'number' && item.value < -200 && !text.endsWith(' ')) {text += ' ';}
+      });
+    }
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const c = content[i];
+    if (/\s/.test(c)) {i++; continue;}
+    if (c === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') {i++;}
+      continue;
+    }
+    if (c === '(') {
+      const [value, next] = readLiteral(content, i);
+      push({ kind: 'string', value });
+      i = next;
+      continue;
+    }
+    if (c === '<' && content[i + 1] === '<') {
+      let depth = 0;
+      do {
+        if (content.startsWith('<<', i)) {depth++; i += 2;}
+        else if (content.startsWith('>>', i)) {depth--; i += 2;}
+        else {i++;}
+      } while (depth > 0 && i < content.length);
+      push({ kind: 'other' });
+      continue;
+    }
+    if (c === '<') {
+      const [value, next] = readHex(content, i);
+      push({ kind: 'string', value });
+      i = next;
+      continue;
+    }
+    if (c === '[') {arrays.push([]); i++; continue;}
+    if (c === ']') {
+      const items = arrays.pop() || [];
+      push({ kind: 'array', items });
+      i++;
+      continue;
+    }
+    const number = content.slice(i, i + 32).match(/^[+-]?(\d+\.?\d*|\.\d+)/);
+    if (number) {
+      push({ kind: 'number', value: parseFloat(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+    if (c === '/') {
+      const name = content.slice(i + 1).match(/^[^\s/[\]()<>{}%]*/)?.[0] ?? '';
+      push({ kind: 'other' });
+      i += 1 + name.length;
+      continue;
+    }
+    const word = content.slice(i).match(/^[A-Za-z'"*]+|^./)?.[0] ?? c;
+    i += word.length;
+    const last = operands[operands.length - 1];
+    switch (word) {
+      case 'Tj':
+      case 'TJ':
+        show(last);
+        break;
+      case "'":
+      case '"':
+        newline();
+        show(last);
+        break;
+      case 'Td':
+      case 'TD': {
+        const y = operands[operands.length - 1];
+        const x = operands[operands.length - 2];
+        if (y?.kind === 'number' && y.value !== 0) {newline();}
+        else if (x?.kind === 'number' && x.value > 0 && !text.endsWith(' ') && !text.endsWith('\n')) {text += ' ';}
+        break;
+      }
+      case 'T*':
+      case 'Tm':
+      case 'ET':
+        newline();
+        break;
+      case 'BI': {
+        const end = content.indexOf('EI', i);
+        i = end < 0 ? content.length : end + 2;
+        break;
+      }
+      default:
+        break;
+    }
+    operands = [];
+  }
+  return text.replace(/[ \t]+\n/g, '\n').trim();
+}
+
+export async function pdfToText(bytes: Uint8Array, options: ExtractOptions = {}): Promise<string> {
+  const inflate = options.decompress ?? platformDecompress;
+  const source = latin1(bytes);
+  if (!source.startsWith('%PDF')) {throw new Error('This file is not a PDF');}
+
+  const pages: string[] = [];
+  const streamPattern = /<<((?:[^<>]|<<(?:[^<>]|<<[^<>]*>>)*>>|<[^<>]*>)*)>>\s*stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(source))) {
+    const dict = match[1];
+    const start = match.index + match[0].length;
+    const declared = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    const end = declared ? start + Number(declared[1]) : source.indexOf('endstream', start);
+    streamPattern.lastIndex = end;
+    // Only page content: skip images, fonts, metadata and object streams
+    if (/\/(Subtype\s*\/Image|Type\s*\/(XObject|Metadata|ObjStm|XRef|EmbeddedFile)|Length1|Length2|Length3)\b/.test(dict)) {continue;}
+    if (/\/Filter/.test(dict) && !/\/Filter\s*(\[\s*)?\/FlateDecode\s*\]?/.test(dict)) {continue;}
+
+    let data = bytes.subarray(start, end);
+    if (/\/FlateDecode/.test(dict)) {
+      try {
+        data = await inflate(data, 'deflate', MAX_UNZIPPED_BYTES);
+      } catch {
+        continue;
+      }
+    }
+    const text = pdfContentToText(latin1(data));
+    if (text) {pages.push(text);}
+  }
+
+  const text = pages.join('\n\n');
+  if ((text.match(/\p{L}/gu) || []).length < MIN_LETTERS) {
+    throw new Error('No text found in this PDF. It may be a scan; export it as a text PDF or Word file and try again.');
+  }
+  return text;
+}
+
+// ---------- Dispatch ----------
+
+export async function extractUnitPlanText(fileName: string, bytes: Uint8Array, options: ExtractOptions = {}): Promise<UnitPlanText> {
+  const format = unitPlanFormat(fileName);
+  if (!format) {throw new Error('Upload a Word (.docx), PDF or Markdown file');}
+  if (format === 'docx') {return { format, text: await docxToText(bytes, options) };}
+  if (format === 'pdf') {return { format, text: await pdfToText(bytes, options) };}
+  return { format, text: new TextDecoder().decode(bytes).replace(/\r\n?/g, '\n').trim() };
+}
@@ -0,0 +1,200 @@
+/**
+ * Minimal zip container support, no compression dependency
+ *
+ * - zipStored()  writes stored (uncompressed) entries; used for .imscc
+ *                cartridges and .docx packages
+ * - unzip()      reads stored and deflated entries (e.g. an uploaded .docx).
+ *                Only the entries a caller asks for are inflated, and inflated
+ *                output is capped so a zip bomb fails fast instead of filling memory.
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Zip files without compression. imsmanifest.xml is written first, as some LMS importers expect.
+ */
+export function zipStored(files: Record<string, string>, date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const dosDate = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  const paths = Object.keys(files).sort((a, b) => (a === 'imsmanifest.xml' ? -1 : b === 'imsmanifest.xml' ? 1 : a.localeCompare(b)));
+
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  paths.forEach(path => {
+    const name = encoder.encode(path);
+    const data = encoder.encode(files[path]);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);          // version needed
+    local.setUint16(6, 0x0800, true);      // UTF-8 names
+    local.setUint16(8, 0, true);           // stored
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(10, 0, true);
+    entry.setUint16(12, dosTime, true);
+    entry.setUint16(14, dosDate, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, paths.length, true);
+  end.setUint16(10, paths.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let cursor = 0;
+  parts.forEach(part => {
+    output.set(part, cursor);
+    cursor += part.length;
+  });
+  return output;
+}
+
+// ---------- Minimal zip reader (stored and deflated entries) ----------
+
+// Inflate `data`; implementations should stop and throw once output passes `maxBytes`
+export type Decompress = (data: Uint8Array, format: 'deflate' | 'deflate-raw', maxBytes?: number) => Promise<Uint8Array>;
+
+export interface UnzipOptions {
+  // Entries to read; everything else is skipped without inflating
+  filter?: (name: string) => boolean;
+  // Cap on the total size of the returned entries
+  maxBytes?: number;
+  inflate?: Decompress;
+}
+
+export const MAX_UNZIPPED_BYTES = 32 * 1024 * 1024;
+
+function tooLarge(): Error {
+  return new Error('This file is too large to read once uncompressed');
+}
+
+/**
+ * Inflate with the platform DecompressionStream ('deflate' = zlib-wrapped, as
+ * in PDF streams; 'deflate-raw' = zip entries).
+ */
+export const decompress: Decompress = async (data, format, maxBytes = Infinity) => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read compressed files');
+  }
+  const reader = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {break;}
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  const output = new Uint8Array(total);
+  let cursor = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, cursor);
+    cursor += chunk.length;
+  });
+  return output;
+};
+
+/**
+ * Read files from a zip via its central directory. Entries outside `filter`
+ * are never inflated, so unknown compression methods only fail for files the
+ * caller needs.
+ */
+export async function unzip(bytes: Uint8Array, options: UnzipOptions = {}): Promise<Record<string, Uint8Array>> {
+  const { filter = () => true, maxBytes = MAX_UNZIPPED_BYTES, inflate = decompress } = options;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {throw new Error('Not a zip file');}
+
+  const decoder = new TextDecoder();
+  const count = view.getUint16(end + 10, true);
+  let cursor = view.getUint32(end + 16, true);
+  const files: Record<string, Uint8Array> = {};
+  let total = 0;
+
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(cursor, true) !== 0x02014b50) {throw new Error('Corrupt zip directory');}
+    const method = view.getUint16(cursor + 10, true);
+    const compressedSize = view.getUint32(cursor + 20, true);
+    const size = view.getUint32(cursor + 24, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+    cursor += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/') || !filter(name)) {continue;}
+    // The declared size can lie; it only lets honest oversized files fail before inflating
+    if (total + size > maxBytes) {throw tooLarge();}
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    let file: Uint8Array;
+    if (method === 0) {
+      file = data;
+    } else if (method === 8) {
+      file = await inflate(data, 'deflate-raw', maxBytes - total);
+    } else {
+      throw new Error(`Unsupported zip compression for ${name}`);
+    }
+    total += file.length;
+    if (total > maxBytes) {throw tooLarge();}
+    files[name] = file;
+  }
+  return files;
+}
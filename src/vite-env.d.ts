@@ -14,6 +14,8 @@ interface ImportMetaEnv {
   readonly VITE_ENVIRONMENT?: string;
   readonly VITE_ENABLE_ANALYTICS?: string;
   readonly VITE_SENTRY_DSN?: string;
+  readonly VITE_TELEMETRY_UPLOAD?: string;
+  readonly VITE_TELEMETRY_ENDPOINT?: string;
 }
 
 interface ImportMeta {